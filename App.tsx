@@ -4,21 +4,39 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { BookingProvider } from './contexts/BookingContext';
 import { UserProvider } from './contexts/UserContext';
 import { ClassProvider } from './contexts/ClassContext';
+import { PaymentProvider } from './contexts/PaymentContext';
+import { PolicyProvider } from './contexts/PolicyContext';
+import { InstructorProvider } from './contexts/InstructorContext';
+import { LocationProvider } from './contexts/LocationContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { Layout } from './components/Layout';
 import { LoginPage } from './components/LoginPage';
 import { RegisterPage } from './components/RegisterPage';
+import { ForgotPasswordPage } from './components/ForgotPasswordPage';
+import { ResetPasswordPage } from './components/ResetPasswordPage';
+import { VerifyEmailPage } from './components/VerifyEmailPage';
 import { UserDashboard } from './components/UserDashboard';
 import { BookingPage } from './components/BookingPage';
 import { AdminDashboard } from './components/AdminDashboard';
+import { KioskPage } from './components/KioskPage';
+import { InstructorPortal } from './components/InstructorPortal';
+import { SessionsPage } from './components/SessionsPage';
 import { Toaster } from './components/ui/sonner';
 
+// Where each role lands after signing in
+const getHomePath = (role: string) => {
+  if (role === 'admin') return '/admin';
+  if (role === 'instructor') return '/instructor';
+  return '/dashboard';
+};
+
 // Protected Route Component with role-based access
 const ProtectedRoute: React.FC<{ 
   children: React.ReactNode; 
   adminOnly?: boolean;
   userOnly?: boolean;
-}> = ({ children, adminOnly = false, userOnly = false }) => {
+  instructorOnly?: boolean;
+}> = ({ children, adminOnly = false, userOnly = false, instructorOnly = false }) => {
   const { user, isLoading } = useAuth();
 
   if (isLoading) {
@@ -35,12 +53,17 @@ const ProtectedRoute: React.FC<{
 
   // Admin-only routes
   if (adminOnly && user.role !== 'admin') {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={getHomePath(user.role)} replace />;
   }
 
-  // User-only routes (admins can't access user features like booking)
+  // User-only routes (admins and instructors can't access user features like booking)
   if (userOnly && user.role !== 'user') {
-    return <Navigate to="/admin" replace />;
+    return <Navigate to={getHomePath(user.role)} replace />;
+  }
+
+  // Instructor-only routes
+  if (instructorOnly && user.role !== 'instructor') {
+    return <Navigate to={getHomePath(user.role)} replace />;
   }
 
   return <>{children}</>;
@@ -60,7 +83,7 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 
   if (user) {
     // Redirect based on role
-    return <Navigate to={user.role === 'admin' ? '/admin' : '/dashboard'} replace />;
+    return <Navigate to={getHomePath(user.role)} replace />;
   }
 
   return <>{children}</>;
@@ -83,8 +106,8 @@ const DashboardRoute: React.FC = () => {
   }
 
   // Redirect based on role
-  if (user.role === 'admin') {
-    return <Navigate to="/admin" replace />;
+  if (user.role !== 'user') {
+    return <Navigate to={getHomePath(user.role)} replace />;
   } else {
     return <UserDashboard />;
   }
@@ -121,6 +144,34 @@ function AppContent() {
                   </PublicRoute>
                 } 
               />
+              <Route 
+                path="/forgot-password" 
+                element={
+                  <PublicRoute>
+                    <ErrorBoundary>
+                      <ForgotPasswordPage />
+                    </ErrorBoundary>
+                  </PublicRoute>
+                } 
+              />
+
+              {/* Links from emails (work whether or not someone is signed in) */}
+              <Route 
+                path="/reset-password" 
+                element={
+                  <ErrorBoundary>
+                    <ResetPasswordPage />
+                  </ErrorBoundary>
+                } 
+              />
+              <Route 
+                path="/verify-email" 
+                element={
+                  <ErrorBoundary>
+                    <VerifyEmailPage />
+                  </ErrorBoundary>
+                } 
+              />
 
               {/* Smart Dashboard Route */}
               <Route 
@@ -134,6 +185,18 @@ function AppContent() {
                 } 
               />
 
+              {/* Signed-in devices (every role) */}
+              <Route 
+                path="/sessions" 
+                element={
+                  <ProtectedRoute>
+                    <ErrorBoundary>
+                      <SessionsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                } 
+              />
+
               {/* User-Only Routes */}
               <Route 
                 path="/book" 
@@ -158,6 +221,30 @@ function AppContent() {
                 } 
               />
 
+              {/* Instructor-Only Routes */}
+              <Route 
+                path="/instructor" 
+                element={
+                  <ProtectedRoute instructorOnly>
+                    <ErrorBoundary>
+                      <InstructorPortal />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                } 
+              />
+
+              {/* Front desk check-in kiosk (runs signed in as an admin) */}
+              <Route 
+                path="/kiosk" 
+                element={
+                  <ProtectedRoute adminOnly>
+                    <ErrorBoundary>
+                      <KioskPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                } 
+              />
+
               {/* Fallback Route */}
               <Route path="*" element={<Navigate to="/login" replace />} />
             </Routes>
@@ -183,9 +270,25 @@ export default function App() {
             <ErrorBoundary>
               <ClassProvider>
                 <ErrorBoundary>
-                  <BookingProvider>
-                    <AppContent />
-                  </BookingProvider>
+                  <PolicyProvider>
+                    <ErrorBoundary>
+                      <BookingProvider>
+                        <ErrorBoundary>
+                          <PaymentProvider>
+                            <ErrorBoundary>
+                              <InstructorProvider>
+                                <ErrorBoundary>
+                                  <LocationProvider>
+                                    <AppContent />
+                                  </LocationProvider>
+                                </ErrorBoundary>
+                              </InstructorProvider>
+                            </ErrorBoundary>
+                          </PaymentProvider>
+                        </ErrorBoundary>
+                      </BookingProvider>
+                    </ErrorBoundary>
+                  </PolicyProvider>
                 </ErrorBoundary>
               </ClassProvider>
             </ErrorBoundary>
@@ -3,7 +3,12 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
-const { Pool } = pg;
+const { Pool, types } = pg;
+
+// Return DATE columns as plain YYYY-MM-DD strings. pg would otherwise read them as local midnight, which is
+// the previous day in UTC on a server ahead of UTC (such as one in New Zealand).
+const DATE_OID = 1082;
+types.setTypeParser(DATE_OID, (value) => value);
 
 // Database configuration
 const dbConfig = {
@@ -40,11 +45,11 @@ export const testConnection = async () => {
   }
 };
 
-// Helper function to execute queries
-export const query = async (text, params = []) => {
+// Helper function to build a query runner (with development logging) on the pool or a checked-out client
+const createQueryRunner = (runner) => async (text, params = []) => {
   const start = Date.now();
   try {
-    const result = await pool.query(text, params);
+    const result = await runner.query(text, params);
     const duration = Date.now() - start;
     
     if (process.env.NODE_ENV === 'development') {
@@ -58,6 +63,28 @@ export const query = async (text, params = []) => {
   }
 };
 
+// Helper function to execute queries
+export const query = createQueryRunner(pool);
+
+// Helper function to run several queries as one transaction. The callback gets a query function with the
+// same signature as query() that runs on the transaction's connection; the transaction commits when the
+// callback resolves and rolls back if it throws. Use SELECT ... FOR UPDATE inside it to lock rows.
+export const withTransaction = async (callback) => {
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    const result = await callback(createQueryRunner(client));
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('🔌 Closing database connection pool...');
@@ -4,17 +4,84 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Locations table (gym sites)
+CREATE TABLE IF NOT EXISTS locations (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    address TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Rooms table (studios within a location; a class can't hold more members than its room)
+CREATE TABLE IF NOT EXISTS rooms (
+    id SERIAL PRIMARY KEY,
+    location_id INTEGER NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    capacity INTEGER NOT NULL CHECK (capacity BETWEEN 1 AND 500),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(location_id, name)
+);
+
 -- Users table
 CREATE TABLE IF NOT EXISTS users (
     id SERIAL PRIMARY KEY,
     name VARCHAR(255) NOT NULL,
     email VARCHAR(255) UNIQUE NOT NULL,
     password_hash VARCHAR(255) NOT NULL,
-    role VARCHAR(50) DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+    role VARCHAR(50) DEFAULT 'user' CHECK (role IN ('user', 'admin', 'instructor')),
     concessions INTEGER DEFAULT 5,
     join_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     last_login TIMESTAMP,
     is_active BOOLEAN DEFAULT true,
+    calendar_token VARCHAR(64) UNIQUE, -- Secret for the member's iCal subscription URL
+    home_location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL, -- Location the booking page opens on
+    email_verified_at TIMESTAMP, -- Set when the member follows the link in their verification email
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Households table (a payer whose concession balance is shared with the household's dependants)
+CREATE TABLE IF NOT EXISTS households (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    payer_id INTEGER UNIQUE NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Household members table (dependants, who book against the payer's balance; a member is in one household)
+CREATE TABLE IF NOT EXISTS household_members (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER UNIQUE NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    added_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Instructors table (teaching staff; user_id is the login used for the instructor portal, if any)
+CREATE TABLE IF NOT EXISTS instructors (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER UNIQUE REFERENCES users(id) ON DELETE SET NULL,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255),
+    bio TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Class types table (admin-managed kinds of class such as Yoga or HIIT, shown with a colour and icon)
+CREATE TABLE IF NOT EXISTS class_types (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    color VARCHAR(7) NOT NULL DEFAULT '#6366f1' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+    icon VARCHAR(50) NOT NULL DEFAULT 'activity',
+    is_active BOOLEAN DEFAULT true,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -25,10 +92,15 @@ CREATE TABLE IF NOT EXISTS classes (
     name VARCHAR(255) NOT NULL,
     time TIME NOT NULL,
     duration VARCHAR(50) NOT NULL,
-    instructor VARCHAR(255) NOT NULL,
+    instructor VARCHAR(255) NOT NULL, -- Instructor's name, kept in step with instructors.name
+    instructor_id INTEGER REFERENCES instructors(id) ON DELETE SET NULL,
+    room_id INTEGER REFERENCES rooms(id) ON DELETE SET NULL,
+    class_type_id INTEGER REFERENCES class_types(id) ON DELETE SET NULL,
     max_capacity INTEGER DEFAULT 20,
+    concession_cost INTEGER NOT NULL DEFAULT 1 CHECK (concession_cost BETWEEN 1 AND 10), -- Concessions one booking costs (premium classes cost more)
+    drop_in_price DECIMAL(10,2) CHECK (drop_in_price > 0), -- Pay-per-class price for members without concessions (NULL = no drop-ins)
     description TEXT,
-    category VARCHAR(50) DEFAULT 'general' CHECK (category IN ('morning', 'afternoon', 'evening', 'general')),
+    category VARCHAR(50) DEFAULT 'general' CHECK (category IN ('morning', 'afternoon', 'evening', 'general')), -- Time of day, derived from time
     days TEXT[] NOT NULL, -- Array of days: ['Monday', 'Tuesday', etc.]
     status VARCHAR(50) DEFAULT 'published' CHECK (status IN ('published', 'draft', 'scheduled', 'archived')),
     publish_date DATE, -- When the class becomes available for booking
@@ -38,17 +110,61 @@ CREATE TABLE IF NOT EXISTS classes (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Membership plans table (unlimited, a number of classes a week, or off-peak classes only)
+CREATE TABLE IF NOT EXISTS membership_plans (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) UNIQUE NOT NULL,
+    plan_type VARCHAR(50) NOT NULL CHECK (plan_type IN ('unlimited', 'weekly', 'off_peak')),
+    classes_per_week INTEGER CHECK (classes_per_week BETWEEN 1 AND 14), -- Only set for weekly plans
+    monthly_price DECIMAL(10,2) NOT NULL CHECK (monthly_price >= 0),
+    is_active BOOLEAN DEFAULT true, -- Retired plans can't be given to members but existing memberships carry on
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((plan_type = 'weekly') = (classes_per_week IS NOT NULL))
+);
+
+-- Memberships table (a member's plan between two dates; bookings it covers cost no concessions)
+CREATE TABLE IF NOT EXISTS memberships (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    plan_id INTEGER REFERENCES membership_plans(id) ON DELETE RESTRICT,
+    start_date DATE NOT NULL,
+    end_date DATE, -- Last day of the membership (NULL rolls on until it is ended)
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Membership pauses table (dates a membership is frozen; the frozen days are added to a fixed end date)
+CREATE TABLE IF NOT EXISTS membership_pauses (
+    id SERIAL PRIMARY KEY,
+    membership_id INTEGER REFERENCES memberships(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    reason TEXT,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date)
+);
+
 -- Bookings table
 CREATE TABLE IF NOT EXISTS bookings (
     id SERIAL PRIMARY KEY,
     user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
     class_id INTEGER REFERENCES classes(id) ON DELETE CASCADE,
     booking_date DATE NOT NULL,
-    status VARCHAR(50) DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'cancelled', 'completed', 'late-cancelled')),
+    status VARCHAR(50) DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'cancelled', 'completed', 'late-cancelled', 'no-show')),
     used_concession BOOLEAN DEFAULT true,
+    concessions_charged INTEGER NOT NULL DEFAULT 1, -- Concessions taken for the booking (0 for drop-ins), refunded on an early cancellation
     booking_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     cancellation_time TIMESTAMP,
     is_late_cancellation BOOLEAN DEFAULT false,
+    attendance_marked_at TIMESTAMP, -- When the member was marked attended or no-show
+    attendance_marked_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    no_show_penalty INTEGER DEFAULT 0, -- Extra concessions charged for the no-show (refunded if the mark is undone)
+    membership_id INTEGER REFERENCES memberships(id) ON DELETE SET NULL, -- Membership that covered the booking instead of concessions
+    charged_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL, -- Household payer whose balance the booking is charged to and refunded to (NULL = the member's own)
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(user_id, class_id, booking_date) -- Prevent duplicate bookings
@@ -65,15 +181,31 @@ CREATE TABLE IF NOT EXISTS notes (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Concession packages table (packs of concessions members can buy, priced by the gym)
+CREATE TABLE IF NOT EXISTS concession_packages (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    concessions INTEGER NOT NULL CHECK (concessions BETWEEN 1 AND 100),
+    price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+    validity_months INTEGER CHECK (validity_months BETWEEN 1 AND 36), -- How long the concessions last once bought (NULL never expires)
+    is_active BOOLEAN DEFAULT true, -- Retired packages can no longer be bought
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Payment records table (for tracking concession purchases)
 CREATE TABLE IF NOT EXISTS payments (
     id SERIAL PRIMARY KEY,
     user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
     amount DECIMAL(10,2) NOT NULL,
     concessions_purchased INTEGER NOT NULL,
+    payment_type VARCHAR(50) DEFAULT 'concessions' CHECK (payment_type IN ('concessions', 'drop_in')),
+    booking_id INTEGER REFERENCES bookings(id) ON DELETE SET NULL, -- The booking a drop-in payment is for
+    package_id INTEGER REFERENCES concession_packages(id) ON DELETE SET NULL, -- The package a concession purchase is for
+    validity_months INTEGER, -- The package's validity when it was bought
     payment_method VARCHAR(100) DEFAULT 'bank_transfer',
     reference VARCHAR(255),
-    status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'rejected')),
+    status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'rejected', 'cancelled')), -- Drop-in payments are cancelled with their booking
     notes TEXT,
     processed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
     processed_at TIMESTAMP,
@@ -81,6 +213,380 @@ CREATE TABLE IF NOT EXISTS payments (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Payment details table (single row of bank transfer instructions shown to members)
+CREATE TABLE IF NOT EXISTS payment_details (
+    id SERIAL PRIMARY KEY,
+    bank_name VARCHAR(255),
+    account_name VARCHAR(255),
+    account_number VARCHAR(100),
+    sort_code VARCHAR(50),
+    reference_instructions TEXT,
+    additional_info TEXT,
+    business_name VARCHAR(255), -- Legal trading name printed on receipts
+    business_address TEXT,
+    gst_number VARCHAR(20), -- Printed on receipts so they count as tax invoices
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tax invoices/receipts for confirmed payments. Business and customer details are copied in when the
+-- invoice is issued so a receipt always reads the same; re-issuing supersedes it with a new number.
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq START 1001;
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id SERIAL PRIMARY KEY,
+    invoice_number VARCHAR(20) UNIQUE NOT NULL,
+    payment_id INTEGER REFERENCES payments(id) ON DELETE CASCADE,
+    business JSONB NOT NULL, -- {name, address, gst_number, bank_name, account_name, account_number}
+    customer JSONB NOT NULL, -- {name, email}
+    lines JSONB NOT NULL, -- [{description, quantity, concessions, unit_price, amount}]
+    total DECIMAL(10,2) NOT NULL, -- GST inclusive
+    gst_amount DECIMAL(10,2) NOT NULL,
+    replaces_invoice_id INTEGER REFERENCES invoices(id) ON DELETE SET NULL,
+    superseded_at TIMESTAMP, -- Set when the invoice is re-issued
+    issued_by INTEGER REFERENCES users(id) ON DELETE SET NULL, -- NULL when issued automatically
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Promo codes and gift vouchers. A 'concessions' code credits free concessions when it's redeemed; a
+-- 'percent_off' code takes a percentage off a concession package when it's used to buy one.
+CREATE TABLE IF NOT EXISTS vouchers (
+    id SERIAL PRIMARY KEY,
+    code VARCHAR(32) NOT NULL UNIQUE, -- Stored upper case; members can type it in any case
+    description TEXT,
+    voucher_type VARCHAR(20) NOT NULL CHECK (voucher_type IN ('concessions', 'percent_off')),
+    concessions INTEGER CHECK (concessions BETWEEN 1 AND 100), -- Free concessions a 'concessions' code credits
+    validity_months INTEGER CHECK (validity_months BETWEEN 1 AND 36), -- How long the free concessions last (NULL never expires)
+    percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100), -- Discount a 'percent_off' code gives
+    package_id INTEGER REFERENCES concession_packages(id) ON DELETE SET NULL, -- The only package a discount applies to (NULL any package)
+    max_uses INTEGER CHECK (max_uses >= 1), -- Redemptions across all members (1 is single use, NULL unlimited)
+    expires_on DATE, -- Last day the code can be redeemed (NULL never expires)
+    new_members_only BOOLEAN NOT NULL DEFAULT false, -- Only members who haven't booked a class or bought concessions yet
+    is_active BOOLEAN NOT NULL DEFAULT true, -- Retired codes can no longer be redeemed
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((voucher_type = 'concessions' AND concessions IS NOT NULL) OR (voucher_type = 'percent_off' AND percent_off IS NOT NULL))
+);
+
+-- Bank statement imports (each uploaded statement CSV and how its deposits were matched to payments)
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+    id SERIAL PRIMARY KEY,
+    file_name VARCHAR(255),
+    bank_format VARCHAR(50) NOT NULL, -- A bank's preset layout (e.g. 'anz') or 'custom'
+    column_mapping JSONB NOT NULL,
+    transaction_count INTEGER NOT NULL DEFAULT 0, -- New deposits read from the file
+    duplicate_count INTEGER NOT NULL DEFAULT 0, -- Deposits already imported from an earlier upload
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    review_count INTEGER NOT NULL DEFAULT 0,
+    imported_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Bank transactions (deposits read from statements; the fingerprint stops a re-uploaded statement being imported twice)
+CREATE TABLE IF NOT EXISTS bank_transactions (
+    id SERIAL PRIMARY KEY,
+    import_id INTEGER REFERENCES bank_statement_imports(id) ON DELETE CASCADE,
+    fingerprint VARCHAR(64) NOT NULL UNIQUE,
+    transaction_date DATE NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    payer VARCHAR(255),
+    reference TEXT,
+    status VARCHAR(50) NOT NULL DEFAULT 'unmatched' CHECK (status IN ('matched', 'review', 'unmatched', 'ignored')),
+    payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL, -- The payment this deposit confirmed, or the suggested one while in review
+    match_reason TEXT,
+    reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL, -- NULL for deposits matched automatically
+    reviewed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Booking policies (class_id NULL is the gym-wide default; class rows override it, NULL columns inherit)
+CREATE TABLE IF NOT EXISTS booking_policies (
+    id SERIAL PRIMARY KEY,
+    class_id INTEGER UNIQUE REFERENCES classes(id) ON DELETE CASCADE,
+    booking_window_days INTEGER CHECK (booking_window_days BETWEEN 1 AND 90), -- How far ahead members can book
+    cancellation_deadline_hours INTEGER CHECK (cancellation_deadline_hours BETWEEN 0 AND 168), -- Cancelling later than this forfeits the concession
+    credit_limit INTEGER CHECK (credit_limit BETWEEN 0 AND 50), -- Classes a member may book on credit (balance can go down to -credit_limit)
+    no_show_penalty INTEGER CHECK (no_show_penalty BETWEEN 0 AND 10), -- Extra concessions charged when a member doesn't turn up
+    updated_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Concession ledger (append-only record of every change to users.concessions)
+CREATE TABLE IF NOT EXISTS concession_ledger (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    change INTEGER NOT NULL, -- Positive credits, negative debits, zero for forfeited refunds
+    balance_after INTEGER NOT NULL, -- Running balance once this entry was applied
+    reason VARCHAR(50) NOT NULL CHECK (reason IN ('opening_balance', 'booking', 'refund', 'late_cancel_penalty', 'no_show_penalty', 'purchase', 'admin_adjustment', 'expiry', 'voucher')),
+    actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL, -- Who caused the change (NULL for automatic system changes)
+    booking_id INTEGER REFERENCES bookings(id) ON DELETE SET NULL,
+    payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL,
+    note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- A member's concessions, held in the packs they were credited in. users.concessions is the sum of the
+-- packs' remaining concessions, less anything booked on credit once the packs ran out.
+CREATE TABLE IF NOT EXISTS concession_packs (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL, -- The purchase that credited the pack
+    name VARCHAR(100) NOT NULL,
+    concessions INTEGER NOT NULL CHECK (concessions > 0), -- Concessions the pack was credited with
+    remaining INTEGER NOT NULL CHECK (remaining >= 0),
+    expires_on DATE, -- Last day the concessions can be used (NULL never expires)
+    expired_at TIMESTAMP, -- When the nightly job expired the leftovers
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Which packs each ledger entry took concessions from (or returned them to), so refunds go back to the right pack
+CREATE TABLE IF NOT EXISTS concession_pack_usage (
+    id SERIAL PRIMARY KEY,
+    ledger_id INTEGER REFERENCES concession_ledger(id) ON DELETE CASCADE,
+    pack_id INTEGER REFERENCES concession_packs(id) ON DELETE CASCADE,
+    change INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every use of a voucher, recorded against the member who redeemed it. Discounts are linked to the purchase
+-- they were applied to, and stop counting as a use if that payment is rejected or cancelled.
+CREATE TABLE IF NOT EXISTS voucher_redemptions (
+    id SERIAL PRIMARY KEY,
+    voucher_id INTEGER NOT NULL REFERENCES vouchers(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('registration', 'dashboard', 'purchase')),
+    concessions INTEGER NOT NULL DEFAULT 0, -- Free concessions credited
+    ledger_id INTEGER REFERENCES concession_ledger(id) ON DELETE SET NULL, -- The credit on the statement it went to
+    payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL, -- The discounted purchase
+    discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    redeemed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Waitlist table (members queueing for a full class on a given date)
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    class_id INTEGER REFERENCES classes(id) ON DELETE CASCADE,
+    booking_date DATE NOT NULL,
+    status VARCHAR(50) DEFAULT 'waiting' CHECK (status IN ('waiting', 'promoted', 'cancelled')),
+    booking_id INTEGER REFERENCES bookings(id) ON DELETE SET NULL, -- Booking created on promotion
+    promoted_at TIMESTAMP,
+    acknowledged_at TIMESTAMP, -- When the member saw the promotion notice
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Class occurrences table (per-date overrides of the weekly class pattern)
+CREATE TABLE IF NOT EXISTS class_occurrences (
+    id SERIAL PRIMARY KEY,
+    class_id INTEGER REFERENCES classes(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    is_cancelled BOOLEAN DEFAULT false,
+    cancellation_reason TEXT,
+    time TIME, -- Overrides classes.time for this date when set
+    instructor VARCHAR(255), -- Overrides classes.instructor for this date when set
+    max_capacity INTEGER, -- Overrides classes.max_capacity for this date when set
+    substitute_instructor_id INTEGER REFERENCES instructors(id) ON DELETE SET NULL, -- Instructor covering this date (instructor holds their name)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(class_id, occurrence_date)
+);
+
+-- Substitutions table (an instructor covering one date of a class; kept after removal for payroll history)
+CREATE TABLE IF NOT EXISTS class_substitutions (
+    id SERIAL PRIMARY KEY,
+    class_id INTEGER REFERENCES classes(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    original_instructor_id INTEGER REFERENCES instructors(id) ON DELETE SET NULL, -- Regular instructor at the time of the substitution
+    substitute_instructor_id INTEGER REFERENCES instructors(id) ON DELETE SET NULL,
+    reason TEXT,
+    status VARCHAR(50) DEFAULT 'active' CHECK (status IN ('active', 'removed')),
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    removed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Substitution notices table (booked members told about a substitute, shown until they dismiss it)
+CREATE TABLE IF NOT EXISTS substitution_notices (
+    id SERIAL PRIMARY KEY,
+    substitution_id INTEGER REFERENCES class_substitutions(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    acknowledged_at TIMESTAMP, -- When the member saw the notice
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(substitution_id, user_id)
+);
+
+-- Standing bookings table (a member's "book every week" subscription to a class)
+CREATE TABLE IF NOT EXISTS standing_bookings (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    class_id INTEGER REFERENCES classes(id) ON DELETE CASCADE,
+    status VARCHAR(50) DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+    start_date DATE NOT NULL DEFAULT CURRENT_DATE, -- No bookings are made before this date
+    last_run_at TIMESTAMP, -- When the scheduler last booked dates for this series
+    cancelled_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Dates a standing booking couldn't book (retried until the class starts)
+CREATE TABLE IF NOT EXISTS standing_booking_skips (
+    id SERIAL PRIMARY KEY,
+    standing_booking_id INTEGER REFERENCES standing_bookings(id) ON DELETE CASCADE,
+    skip_date DATE NOT NULL,
+    reason VARCHAR(50) NOT NULL CHECK (reason IN ('class_full', 'credit_limit', 'class_cancelled', 'class_unavailable')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(standing_booking_id, skip_date)
+);
+
+-- Auth tokens table (single-use links emailed for password resets and email verification; only a hash is kept)
+CREATE TABLE IF NOT EXISTS auth_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    purpose VARCHAR(50) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Sessions table (one per signed-in device; the refresh token cookie is rotated on every refresh and only its hash is kept)
+CREATE TABLE IF NOT EXISTS sessions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    refresh_token_hash VARCHAR(64) UNIQUE NOT NULL,
+    previous_token_hash VARCHAR(64), -- Accepted briefly after rotation so tabs refreshing together don't sign each other out
+    rotated_at TIMESTAMP,
+    user_agent VARCHAR(500),
+    ip_address VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP -- Set when the member signs the session out (or a reused refresh token ends it)
+);
+
+-- Notification templates table (the gym's edits to the built-in email templates; a missing subject or body uses the default)
+CREATE TABLE IF NOT EXISTS notification_templates (
+    event_key VARCHAR(50) PRIMARY KEY,
+    subject VARCHAR(255),
+    body TEXT,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Notifications table (the email outbox: rendered when queued, then delivered and retried by the outbox job)
+CREATE TABLE IF NOT EXISTS notifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    event_key VARCHAR(50) NOT NULL,
+    recipient VARCHAR(255) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Also pushed forward while a delivery is in progress
+    last_error TEXT,
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Notification deliveries table (the delivery log: one row per attempt to send a notification)
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id SERIAL PRIMARY KEY,
+    notification_id INTEGER NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    transport VARCHAR(50) NOT NULL,
+    status VARCHAR(50) NOT NULL CHECK (status IN ('sent', 'failed')),
+    error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Idempotency keys table (responses to retry-safe writes, replayed when the same request is retried)
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    idempotency_key VARCHAR(255) NOT NULL,
+    request_path VARCHAR(255) NOT NULL, -- Method and path the key was first used for
+    response_status INTEGER, -- NULL while the request is still running
+    response_body JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, idempotency_key)
+);
+
+-- Upgrades for databases created before attendance tracking
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS attendance_marked_at TIMESTAMP;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS attendance_marked_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS no_show_penalty INTEGER DEFAULT 0;
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check CHECK (status IN ('confirmed', 'cancelled', 'completed', 'late-cancelled', 'no-show'));
+ALTER TABLE booking_policies ADD COLUMN IF NOT EXISTS no_show_penalty INTEGER CHECK (no_show_penalty BETWEEN 0 AND 10);
+ALTER TABLE concession_ledger DROP CONSTRAINT IF EXISTS concession_ledger_reason_check;
+ALTER TABLE concession_ledger ADD CONSTRAINT concession_ledger_reason_check CHECK (reason IN ('opening_balance', 'booking', 'refund', 'late_cancel_penalty', 'no_show_penalty', 'purchase', 'admin_adjustment', 'expiry'));
+
+-- Upgrades for databases created before calendar feeds
+ALTER TABLE users ADD COLUMN IF NOT EXISTS calendar_token VARCHAR(64) UNIQUE;
+
+-- Upgrades for databases created before standing bookings
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS standing_booking_id INTEGER REFERENCES standing_bookings(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before instructors
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('user', 'admin', 'instructor'));
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS instructor_id INTEGER REFERENCES instructors(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before substitute instructors
+ALTER TABLE class_occurrences ADD COLUMN IF NOT EXISTS substitute_instructor_id INTEGER REFERENCES instructors(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before locations and rooms
+ALTER TABLE users ADD COLUMN IF NOT EXISTS home_location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS room_id INTEGER REFERENCES rooms(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before class types
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS class_type_id INTEGER REFERENCES class_types(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before class pricing
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS concession_cost INTEGER NOT NULL DEFAULT 1 CHECK (concession_cost BETWEEN 1 AND 10);
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS drop_in_price DECIMAL(10,2) CHECK (drop_in_price > 0);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS concessions_charged INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payment_type VARCHAR(50) DEFAULT 'concessions' CHECK (payment_type IN ('concessions', 'drop_in'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS booking_id INTEGER REFERENCES bookings(id) ON DELETE SET NULL;
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE payments ADD CONSTRAINT payments_status_check CHECK (status IN ('pending', 'confirmed', 'rejected', 'cancelled'));
+
+-- Upgrades for databases created before concession packages
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS package_id INTEGER REFERENCES concession_packages(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before concession expiry
+ALTER TABLE concession_packages ADD COLUMN IF NOT EXISTS validity_months INTEGER CHECK (validity_months BETWEEN 1 AND 36);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS validity_months INTEGER;
+
+-- Upgrades for databases created before memberships
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS membership_id INTEGER REFERENCES memberships(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before invoices
+ALTER TABLE payment_details ADD COLUMN IF NOT EXISTS business_name VARCHAR(255);
+ALTER TABLE payment_details ADD COLUMN IF NOT EXISTS business_address TEXT;
+ALTER TABLE payment_details ADD COLUMN IF NOT EXISTS gst_number VARCHAR(20);
+
+-- Upgrades for databases created before households
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS charged_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- Upgrades for databases created before vouchers
+ALTER TABLE concession_ledger DROP CONSTRAINT IF EXISTS concession_ledger_reason_check;
+ALTER TABLE concession_ledger ADD CONSTRAINT concession_ledger_reason_check CHECK (reason IN ('opening_balance', 'booking', 'refund', 'late_cancel_penalty', 'no_show_penalty', 'purchase', 'admin_adjustment', 'expiry', 'voucher'));
+
+-- Upgrades for databases created before email verification
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP;
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
@@ -94,6 +600,47 @@ CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes(user_id);
 CREATE INDEX IF NOT EXISTS idx_notes_category ON notes(category);
 CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id);
 CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
+CREATE INDEX IF NOT EXISTS idx_payments_booking_id ON payments(booking_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_class_date ON waitlist_entries(class_id, booking_date);
+CREATE INDEX IF NOT EXISTS idx_waitlist_user_id ON waitlist_entries(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_active_entry ON waitlist_entries(user_id, class_id, booking_date) WHERE status = 'waiting';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_policies_default ON booking_policies((class_id IS NULL)) WHERE class_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_concession_ledger_user_id ON concession_ledger(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_class_occurrences_date ON class_occurrences(occurrence_date);
+CREATE INDEX IF NOT EXISTS idx_bookings_standing_booking_id ON bookings(standing_booking_id);
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at);
+CREATE INDEX IF NOT EXISTS idx_classes_instructor_id ON classes(instructor_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_standing_bookings_active ON standing_bookings(user_id, class_id) WHERE status = 'active';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_class_substitutions_active ON class_substitutions(class_id, occurrence_date) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_class_substitutions_original ON class_substitutions(original_instructor_id, occurrence_date);
+CREATE INDEX IF NOT EXISTS idx_class_substitutions_substitute ON class_substitutions(substitute_instructor_id, occurrence_date);
+CREATE INDEX IF NOT EXISTS idx_substitution_notices_user_id ON substitution_notices(user_id);
+CREATE INDEX IF NOT EXISTS idx_rooms_location_id ON rooms(location_id);
+CREATE INDEX IF NOT EXISTS idx_classes_room_id ON classes(room_id);
+CREATE INDEX IF NOT EXISTS idx_classes_class_type_id ON classes(class_type_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_status ON bank_transactions(status);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_payment_id ON bank_transactions(payment_id);
+CREATE INDEX IF NOT EXISTS idx_concession_packs_user_id ON concession_packs(user_id, expires_on);
+CREATE INDEX IF NOT EXISTS idx_concession_packs_expiry ON concession_packs(expires_on) WHERE expired_at IS NULL AND remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_concession_pack_usage_ledger_id ON concession_pack_usage(ledger_id);
+CREATE INDEX IF NOT EXISTS idx_memberships_user_id ON memberships(user_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_membership_pauses_membership_id ON membership_pauses(membership_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_membership_id ON bookings(membership_id, booking_date);
+-- References generated for package purchases and drop-ins are unique; older claims used free-text references
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_reference ON payments(reference) WHERE package_id IS NOT NULL OR payment_type = 'drop_in';
+-- A payment has one current invoice; superseded ones are kept so old receipt numbers still resolve
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_current ON invoices(payment_id) WHERE superseded_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_household_members_household_id ON household_members(household_id);
+CREATE INDEX IF NOT EXISTS idx_voucher_redemptions_voucher_id ON voucher_redemptions(voucher_id, redeemed_at);
+CREATE INDEX IF NOT EXISTS idx_voucher_redemptions_user_id ON voucher_redemptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_voucher_redemptions_payment_id ON voucher_redemptions(payment_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_charged_user_id ON bookings(charged_user_id) WHERE charged_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_id ON auth_tokens(user_id, purpose);
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_token_hash ON sessions(previous_token_hash) WHERE previous_token_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_pending ON notifications(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notifications_created_at ON notifications(created_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification_id ON notification_deliveries(notification_id);
 
 -- Functions for automatic timestamp updates
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -108,18 +655,127 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_locations_updated_at BEFORE UPDATE ON locations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_rooms_updated_at BEFORE UPDATE ON rooms
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_class_types_updated_at BEFORE UPDATE ON class_types
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_households_updated_at BEFORE UPDATE ON households
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_classes_updated_at BEFORE UPDATE ON classes
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_membership_plans_updated_at BEFORE UPDATE ON membership_plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_memberships_updated_at BEFORE UPDATE ON memberships
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_bookings_updated_at BEFORE UPDATE ON bookings
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_notes_updated_at BEFORE UPDATE ON notes
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_concession_packages_updated_at BEFORE UPDATE ON concession_packages
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_concession_packs_updated_at BEFORE UPDATE ON concession_packs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_vouchers_updated_at BEFORE UPDATE ON vouchers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_payment_details_updated_at BEFORE UPDATE ON payment_details
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_bank_transactions_updated_at BEFORE UPDATE ON bank_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_class_occurrences_updated_at BEFORE UPDATE ON class_occurrences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_booking_policies_updated_at BEFORE UPDATE ON booking_policies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_standing_bookings_updated_at BEFORE UPDATE ON standing_bookings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_standing_booking_skips_updated_at BEFORE UPDATE ON standing_booking_skips
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_instructors_updated_at BEFORE UPDATE ON instructors
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_class_substitutions_updated_at BEFORE UPDATE ON class_substitutions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_substitution_notices_updated_at BEFORE UPDATE ON substitution_notices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Gym-wide default booking policy
+INSERT INTO booking_policies (class_id, booking_window_days, cancellation_deadline_hours, credit_limit, no_show_penalty)
+SELECT NULL, 14, 24, 5, 0
+WHERE NOT EXISTS (SELECT 1 FROM booking_policies WHERE class_id IS NULL);
+
+UPDATE booking_policies SET no_show_penalty = 0 WHERE class_id IS NULL AND no_show_penalty IS NULL;
+
+-- Starter concession packages (the packs that used to be hard-coded in the frontend config)
+INSERT INTO concession_packages (name, concessions, price)
+SELECT name, concessions, price
+FROM (VALUES ('5 Class Pack', 5, 40.00), ('10 Class Pack', 10, 70.00), ('20 Class Pack', 20, 120.00)) AS defaults(name, concessions, price)
+WHERE NOT EXISTS (SELECT 1 FROM concession_packages);
+
+-- Open the ledger for members who existed before it was introduced
+INSERT INTO concession_ledger (user_id, change, balance_after, reason, note)
+SELECT u.id, u.concessions, u.concessions, 'opening_balance', 'Balance carried over when the ledger was introduced'
+FROM users u
+WHERE NOT EXISTS (SELECT 1 FROM concession_ledger l WHERE l.user_id = u.id);
+
+-- Put balances from before concession expiry into a pack that never expires
+INSERT INTO concession_packs (user_id, name, concessions, remaining)
+SELECT u.id, 'Existing balance', u.concessions, u.concessions
+FROM users u
+WHERE u.concessions > 0
+  AND NOT EXISTS (SELECT 1 FROM concession_packs cp WHERE cp.user_id = u.id);
+
+-- Create instructor profiles for classes that only had an instructor name
+INSERT INTO instructors (name)
+SELECT DISTINCT c.instructor
+FROM classes c
+WHERE c.instructor_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM instructors i WHERE i.name = c.instructor);
+
+UPDATE classes c SET instructor_id = i.id
+FROM instructors i
+WHERE c.instructor_id IS NULL AND i.name = c.instructor;
+
+-- Derive the time of day for classes saved with a hand-picked category (evening classes were often filed as afternoon)
+UPDATE classes SET category = CASE
+    WHEN time < '12:00' THEN 'morning'
+    WHEN time < '17:00' THEN 'afternoon'
+    ELSE 'evening'
+END
+WHERE category IS DISTINCT FROM CASE
+    WHEN time < '12:00' THEN 'morning'
+    WHEN time < '17:00' THEN 'afternoon'
+    ELSE 'evening'
+END;
+
+-- Bookings made before class pricing that didn't use a concession weren't charged one
+UPDATE bookings SET concessions_charged = 0 WHERE used_concession = false AND concessions_charged <> 0;
+
 -- Views for easier querying
 CREATE OR REPLACE VIEW booking_details AS
 SELECT 
@@ -136,12 +792,14 @@ SELECT
     b.used_concession,
     b.booking_time,
     b.cancellation_time,
-    b.is_late_cancellation
+    b.is_late_cancellation,
+    b.concessions_charged
 FROM bookings b
 JOIN users u ON b.user_id = u.id
 JOIN classes c ON b.class_id = c.id;
 
--- View for class schedules with booking counts
+-- View for class schedules with booking counts (dropped first because c.* grows as classes gains columns)
+DROP VIEW IF EXISTS class_schedule;
 CREATE OR REPLACE VIEW class_schedule AS
 SELECT 
     c.*,
@@ -1,5 +1,6 @@
 import bcrypt from 'bcryptjs';
 import { query } from './connection.js';
+import { getTimeOfDay } from '../utils/classTypes.js';
 
 const seedData = async () => {
   console.log('🌱 Starting database seeding...');
@@ -8,11 +9,43 @@ const seedData = async () => {
     // Clear existing data (in development only)
     if (process.env.NODE_ENV === 'development') {
       console.log('🗑️  Clearing existing data...');
+      await query('DELETE FROM idempotency_keys');
+      await query('DELETE FROM auth_tokens');
+      await query('DELETE FROM sessions');
+      await query('DELETE FROM notification_deliveries');
+      await query('DELETE FROM notifications');
+      await query('DELETE FROM notification_templates');
       await query('DELETE FROM notes');
+      await query('DELETE FROM voucher_redemptions');
+      await query('DELETE FROM vouchers');
+      await query('DELETE FROM concession_pack_usage');
+      await query('DELETE FROM concession_packs');
+      await query('DELETE FROM concession_ledger');
+      await query('DELETE FROM bank_transactions');
+      await query('DELETE FROM bank_statement_imports');
+      await query('DELETE FROM invoices');
       await query('DELETE FROM payments');
+      await query('DELETE FROM concession_packages');
+      await query('DELETE FROM payment_details');
+      await query('DELETE FROM waitlist_entries');
       await query('DELETE FROM bookings');
+      await query('DELETE FROM membership_pauses');
+      await query('DELETE FROM memberships');
+      await query('DELETE FROM membership_plans');
+      await query('DELETE FROM standing_booking_skips');
+      await query('DELETE FROM standing_bookings');
+      await query('DELETE FROM substitution_notices');
+      await query('DELETE FROM class_substitutions');
+      await query('DELETE FROM class_occurrences');
+      await query('DELETE FROM booking_policies');
       await query('DELETE FROM classes');
+      await query('DELETE FROM class_types');
+      await query('DELETE FROM instructors');
+      await query('DELETE FROM household_members');
+      await query('DELETE FROM households');
       await query('DELETE FROM users');
+      await query('DELETE FROM rooms');
+      await query('DELETE FROM locations');
       
       // Reset sequences
       await query('ALTER SEQUENCE users_id_seq RESTART WITH 1');
@@ -20,8 +53,78 @@ const seedData = async () => {
       await query('ALTER SEQUENCE bookings_id_seq RESTART WITH 1');
       await query('ALTER SEQUENCE notes_id_seq RESTART WITH 1');
       await query('ALTER SEQUENCE payments_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE bank_statement_imports_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE bank_transactions_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE concession_packages_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE vouchers_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE voucher_redemptions_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE payment_details_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE waitlist_entries_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE class_occurrences_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE concession_ledger_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE concession_packs_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE concession_pack_usage_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE booking_policies_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE standing_bookings_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE standing_booking_skips_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE idempotency_keys_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE auth_tokens_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE sessions_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE notifications_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE notification_deliveries_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE instructors_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE class_substitutions_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE substitution_notices_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE locations_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE rooms_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE class_types_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE membership_plans_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE memberships_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE membership_pauses_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE invoices_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE invoice_number_seq RESTART WITH 1001');
+      await query('ALTER SEQUENCE households_id_seq RESTART WITH 1');
+      await query('ALTER SEQUENCE household_members_id_seq RESTART WITH 1');
     }
     
+    // Create locations and their rooms (two studios at the main site, one at the new site)
+    const locations = [
+      {
+        name: 'FlexBook Central',
+        address: '12 High Street, Wellington',
+        rooms: [{ name: 'Studio 1', capacity: 20 }, { name: 'Studio 2', capacity: 15 }]
+      },
+      {
+        name: 'FlexBook North',
+        address: '48 Johnsonville Road, Wellington',
+        rooms: [{ name: 'Main Studio', capacity: 12 }]
+      }
+    ];
+    
+    const locationIds = {};
+    const roomIds = {};
+    for (const location of locations) {
+      const locationResult = await query(`
+        INSERT INTO locations (name, address)
+        VALUES ($1, $2)
+        ON CONFLICT (name) DO UPDATE SET address = EXCLUDED.address
+        RETURNING id
+      `, [location.name, location.address]);
+      locationIds[location.name] = locationResult.rows[0].id;
+      
+      for (const room of location.rooms) {
+        const roomResult = await query(`
+          INSERT INTO rooms (location_id, name, capacity)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (location_id, name) DO UPDATE SET capacity = EXCLUDED.capacity
+          RETURNING id
+        `, [locationResult.rows[0].id, room.name, room.capacity]);
+        roomIds[`${location.name}/${room.name}`] = roomResult.rows[0].id;
+      }
+    }
+    
+    console.log('✅ Locations and rooms created');
+    
     // Create admin user
     const adminPassword = await bcrypt.hash('admin123', 12);
     const adminResult = await query(`
@@ -48,18 +151,105 @@ const seedData = async () => {
       RETURNING id
     `, ['Test User', 'user@gym.com', userPassword, 'user', 5]);
     
+    await query('UPDATE users SET home_location_id = $1 WHERE id = $2', [locationIds['FlexBook Central'], userResult.rows[0].id]);
+    
+    // Keep the concession ledger in step with the seeded balances
+    await query(`
+      INSERT INTO concession_ledger (user_id, change, balance_after, reason, note)
+      SELECT u.id, u.concessions - COALESCE(SUM(l.change), 0), u.concessions,
+             CASE WHEN COUNT(l.id) = 0 THEN 'opening_balance' ELSE 'admin_adjustment' END,
+             'Seed data'
+      FROM users u
+      LEFT JOIN concession_ledger l ON l.user_id = u.id
+      WHERE u.id = ANY($1)
+      GROUP BY u.id
+      HAVING COUNT(l.id) = 0 OR u.concessions <> COALESCE(SUM(l.change), 0)
+    `, [[adminResult.rows[0].id, userResult.rows[0].id]]);
+    
+    // Hold the seeded balances in a pack that doesn't expire (members with packs already are left alone)
+    await query(`
+      INSERT INTO concession_packs (user_id, name, concessions, remaining)
+      SELECT u.id, 'Seed data', u.concessions, u.concessions
+      FROM users u
+      WHERE u.id = ANY($1) AND u.concessions > 0
+        AND NOT EXISTS (SELECT 1 FROM concession_packs cp WHERE cp.user_id = u.id)
+    `, [[adminResult.rows[0].id, userResult.rows[0].id]]);
+    
     console.log('✅ Users created');
     
+    // Create instructors (Sarah can sign in to the instructor portal)
+    const instructorPassword = await bcrypt.hash('instructor123', 12);
+    const instructorUserResult = await query(`
+      INSERT INTO users (name, email, password_hash, role, concessions) 
+      VALUES ($1, $2, $3, $4, $5) 
+      ON CONFLICT (email) DO UPDATE SET 
+        name = EXCLUDED.name,
+        password_hash = EXCLUDED.password_hash,
+        role = EXCLUDED.role,
+        concessions = EXCLUDED.concessions
+      RETURNING id
+    `, ['Sarah Johnson', 'instructor@gym.com', instructorPassword, 'instructor', 0]);
+    
+    // The demo accounts don't need to confirm their email
+    await query(
+      'UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = ANY($1)',
+      [[adminResult.rows[0].id, userResult.rows[0].id, instructorUserResult.rows[0].id]]
+    );
+    
+    const instructors = [
+      { name: 'Sarah Johnson', email: 'instructor@gym.com', bio: 'Yoga teacher with 10 years of experience', user_id: instructorUserResult.rows[0].id },
+      { name: 'Mike Davis', email: 'mike@gym.com', bio: 'Strength and conditioning coach', user_id: null },
+      { name: 'Emma Wilson', email: 'emma@gym.com', bio: 'HIIT and circuit specialist', user_id: null },
+      { name: 'Lisa Brown', email: 'lisa@gym.com', bio: 'Certified pilates instructor', user_id: null }
+    ];
+    
+    const instructorIds = {};
+    for (const instructor of instructors) {
+      const existing = await query('SELECT id FROM instructors WHERE name = $1', [instructor.name]);
+      const result = existing.rows.length > 0 ? existing : await query(`
+        INSERT INTO instructors (name, email, bio, user_id)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id
+      `, [instructor.name, instructor.email, instructor.bio, instructor.user_id]);
+      instructorIds[instructor.name] = result.rows[0].id;
+    }
+    
+    console.log('✅ Instructors created');
+    
+    // Create class types
+    const classTypes = [
+      { name: 'Yoga', color: '#16a34a', icon: 'flower-2' },
+      { name: 'Strength', color: '#2563eb', icon: 'dumbbell' },
+      { name: 'HIIT', color: '#dc2626', icon: 'flame' },
+      { name: 'Pilates', color: '#9333ea', icon: 'activity' }
+    ];
+    
+    const classTypeIds = {};
+    for (const classType of classTypes) {
+      const result = await query(`
+        INSERT INTO class_types (name, color, icon)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (name) DO UPDATE SET color = EXCLUDED.color, icon = EXCLUDED.icon
+        RETURNING id
+      `, [classType.name, classType.color, classType.icon]);
+      classTypeIds[classType.name] = result.rows[0].id;
+    }
+    
+    console.log('✅ Class types created');
+    
     // Create sample classes
     const classes = [
       {
         name: 'Morning Yoga',
+        type: 'Yoga',
+        room: 'FlexBook Central/Studio 1',
         time: '07:00',
         duration: '60 minutes',
         instructor: 'Sarah Johnson',
         max_capacity: 20,
+        concession_cost: 1,
+        drop_in_price: 25.00,
         description: 'Start your day with energizing yoga flow',
-        category: 'morning',
         days: ['Monday', 'Friday'],
         status: 'published',
         publish_date: '2024-01-01',
@@ -67,12 +257,15 @@ const seedData = async () => {
       },
       {
         name: 'Strength Training',
+        type: 'Strength',
+        room: 'FlexBook Central/Studio 2',
         time: '17:30',
         duration: '45 minutes',
         instructor: 'Mike Davis',
         max_capacity: 15,
+        concession_cost: 1,
+        drop_in_price: 25.00,
         description: 'Build strength with guided weight training',
-        category: 'afternoon',
         days: ['Monday', 'Wednesday', 'Friday'],
         status: 'published',
         publish_date: '2024-01-01',
@@ -80,12 +273,15 @@ const seedData = async () => {
       },
       {
         name: 'HIIT Workout',
+        type: 'HIIT',
+        room: 'FlexBook Central/Studio 2',
         time: '18:30',
         duration: '45 minutes',
         instructor: 'Emma Wilson',
         max_capacity: 12,
+        concession_cost: 1,
+        drop_in_price: 25.00,
         description: 'High-intensity interval training for maximum results',
-        category: 'afternoon',
         days: ['Tuesday', 'Thursday'],
         status: 'published',
         publish_date: '2024-01-01',
@@ -93,12 +289,15 @@ const seedData = async () => {
       },
       {
         name: 'Advanced Pilates',
+        type: 'Pilates',
+        room: 'FlexBook North/Main Studio',
         time: '19:00',
         duration: '50 minutes',
         instructor: 'Lisa Brown',
         max_capacity: 10,
+        concession_cost: 2,
+        drop_in_price: 35.00,
         description: 'Advanced pilates for experienced practitioners',
-        category: 'afternoon',
         days: ['Wednesday', 'Saturday'],
         status: 'scheduled',
         publish_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
@@ -108,17 +307,22 @@ const seedData = async () => {
     
     for (const classData of classes) {
       await query(`
-        INSERT INTO classes (name, time, duration, instructor, max_capacity, description, category, days, status, publish_date, start_date)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        INSERT INTO classes (name, time, duration, instructor, instructor_id, room_id, class_type_id, max_capacity, concession_cost, drop_in_price, description, category, days, status, publish_date, start_date)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
         ON CONFLICT DO NOTHING
       `, [
         classData.name,
         classData.time,
         classData.duration,
         classData.instructor,
+        instructorIds[classData.instructor],
+        roomIds[classData.room],
+        classTypeIds[classData.type],
         classData.max_capacity,
+        classData.concession_cost,
+        classData.drop_in_price,
         classData.description,
-        classData.category,
+        getTimeOfDay(classData.time),
         classData.days,
         classData.status,
         classData.publish_date,
@@ -165,11 +369,93 @@ const seedData = async () => {
     
     console.log('✅ Sample bookings created');
     
+    // Create default bank transfer details (only if none have been configured yet)
+    const existingDetails = await query('SELECT id FROM payment_details LIMIT 1');
+    if (existingDetails.rows.length === 0) {
+      await query(`
+        INSERT INTO payment_details (bank_name, account_name, account_number, sort_code, reference_instructions, additional_info,
+                                     business_name, business_address, gst_number)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `, [
+        'ANZ New Zealand',
+        'FlexGym Ltd',
+        '01-0123-0123456-00',
+        '',
+        'Please use your full name and email address as the payment reference',
+        'Payments are typically processed within 1-2 business days. Contact us if you have any questions.',
+        'FlexGym Ltd',
+        '12 High Street\nWellington 6011',
+        '123-456-789'
+      ]);
+    }
+    
+    console.log('✅ Payment details created');
+    
+    // Create concession packages
+    const concessionPackages = [
+      { name: '5 Class Pack', concessions: 5, price: 40.00, validity_months: 2 },
+      { name: '10 Class Pack', concessions: 10, price: 70.00, validity_months: 3 },
+      { name: '20 Class Pack', concessions: 20, price: 120.00, validity_months: 6 }
+    ];
+    
+    for (const concessionPackage of concessionPackages) {
+      await query(`
+        INSERT INTO concession_packages (name, concessions, price, validity_months)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (name) DO UPDATE SET concessions = EXCLUDED.concessions, price = EXCLUDED.price, validity_months = EXCLUDED.validity_months
+      `, [concessionPackage.name, concessionPackage.concessions, concessionPackage.price, concessionPackage.validity_months]);
+    }
+    
+    console.log('✅ Concession packages created');
+    
+    // Create membership plans
+    const membershipPlans = [
+      { name: 'Unlimited', plan_type: 'unlimited', classes_per_week: null, monthly_price: 159.00 },
+      { name: '3 Classes a Week', plan_type: 'weekly', classes_per_week: 3, monthly_price: 119.00 },
+      { name: 'Off-Peak', plan_type: 'off_peak', classes_per_week: null, monthly_price: 89.00 }
+    ];
+    
+    for (const plan of membershipPlans) {
+      await query(`
+        INSERT INTO membership_plans (name, plan_type, classes_per_week, monthly_price)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (name) DO UPDATE SET plan_type = EXCLUDED.plan_type, classes_per_week = EXCLUDED.classes_per_week, monthly_price = EXCLUDED.monthly_price
+      `, [plan.name, plan.plan_type, plan.classes_per_week, plan.monthly_price]);
+    }
+    
+    console.log('✅ Membership plans created');
+
+    // Create sample vouchers
+    const vouchers = [
+      { code: 'FIRSTFREE', description: 'First class free', voucher_type: 'concessions', concessions: 1, percent_off: null, max_uses: null, new_members_only: true },
+      { code: 'XMAS25', description: 'Christmas: 25% off any pack', voucher_type: 'percent_off', concessions: null, percent_off: 25, max_uses: 100, new_members_only: false }
+    ];
+
+    for (const voucher of vouchers) {
+      await query(`
+        INSERT INTO vouchers (code, description, voucher_type, concessions, percent_off, max_uses, new_members_only)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (code) DO NOTHING
+      `, [voucher.code, voucher.description, voucher.voucher_type, voucher.concessions, voucher.percent_off, voucher.max_uses, voucher.new_members_only]);
+    }
+
+    console.log('✅ Vouchers created');
+
+    // Create the gym-wide booking policy (only if none has been configured yet)
+    await query(`
+      INSERT INTO booking_policies (class_id, booking_window_days, cancellation_deadline_hours, credit_limit, no_show_penalty)
+      SELECT NULL, 14, 24, 5, 0
+      WHERE NOT EXISTS (SELECT 1 FROM booking_policies WHERE class_id IS NULL)
+    `);
+    
+    console.log('✅ Booking policy created');
+    
     console.log('🎉 Database seeding completed successfully!');
     console.log('');
     console.log('Demo Accounts:');
     console.log('Admin: admin@gym.com / admin123');
     console.log('User:  user@gym.com / user123');
+    console.log('Instructor: instructor@gym.com / instructor123');
     
   } catch (error) {
     console.error('❌ Seeding failed:', error);
@@ -1,6 +1,16 @@
 import jwt from 'jsonwebtoken';
 import { query } from '../db/connection.js';
 
+// Load the user an access token was issued to, along with whether its session can still be used.
+// Tokens issued before sessions existed carry no sessionId and are treated as ended.
+const getSessionUser = (decoded) => query(`
+  SELECT u.id, u.name, u.email, u.role, u.concessions, u.is_active,
+         (s.id IS NOT NULL AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP) as session_active
+  FROM users u
+  LEFT JOIN sessions s ON s.id = $2 AND s.user_id = u.id
+  WHERE u.id = $1
+`, [decoded.userId, decoded.sessionId || null]);
+
 // Middleware to verify JWT token
 export const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
@@ -17,10 +27,7 @@ export const authenticateToken = async (req, res, next) => {
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
     
     // Get user from database to ensure they still exist and are active
-    const userResult = await query(
-      'SELECT id, name, email, role, concessions, is_active FROM users WHERE id = $1',
-      [decoded.userId]
-    );
+    const userResult = await getSessionUser(decoded);
     
     if (userResult.rows.length === 0) {
       return res.status(401).json({
@@ -29,7 +36,15 @@ export const authenticateToken = async (req, res, next) => {
       });
     }
     
-    const user = userResult.rows[0];
+    const { session_active, ...user } = userResult.rows[0];
+    
+    // Signing a session out (or a reused refresh token) ends its access tokens straight away
+    if (!session_active) {
+      return res.status(401).json({
+        error: 'Session ended',
+        message: 'You have been signed out. Please log in again'
+      });
+    }
     
     if (!user.is_active) {
       return res.status(401).json({
@@ -39,6 +54,7 @@ export const authenticateToken = async (req, res, next) => {
     }
     
     req.user = user;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     console.error('Token verification error:', error);
@@ -64,8 +80,8 @@ export const authenticateToken = async (req, res, next) => {
   }
 };
 
-// Middleware to require admin role
-export const requireAdmin = (req, res, next) => {
+// Middleware factory to require one of the given roles
+const requireRole = (roles, label) => (req, res, next) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
@@ -73,34 +89,27 @@ export const requireAdmin = (req, res, next) => {
     });
   }
   
-  if (req.user.role !== 'admin') {
+  if (!roles.includes(req.user.role)) {
     return res.status(403).json({
       error: 'Access forbidden',
-      message: 'Admin access required'
+      message: `${label} access required`
     });
   }
   
   next();
 };
 
-// Middleware to require user role (not admin)
-export const requireUser = (req, res, next) => {
-  if (!req.user) {
-    return res.status(401).json({
-      error: 'Authentication required',
-      message: 'Please log in first'
-    });
-  }
-  
-  if (req.user.role !== 'user') {
-    return res.status(403).json({
-      error: 'Access forbidden',
-      message: 'User access required'
-    });
-  }
-  
-  next();
-};
+// Middleware to require admin role
+export const requireAdmin = requireRole(['admin'], 'Admin');
+
+// Middleware to require user role (members only - not admins or instructors)
+export const requireUser = requireRole(['user'], 'User');
+
+// Middleware to require instructor role
+export const requireInstructor = requireRole(['instructor'], 'Instructor');
+
+// Middleware to require staff (admins or instructors) - routes still check the instructor teaches the class
+export const requireStaff = requireRole(['admin', 'instructor'], 'Staff');
 
 // Optional authentication - doesn't fail if no token
 export const optionalAuth = async (req, res, next) => {
@@ -114,13 +123,12 @@ export const optionalAuth = async (req, res, next) => {
   
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    const userResult = await query(
-      'SELECT id, name, email, role, concessions, is_active FROM users WHERE id = $1',
-      [decoded.userId]
-    );
+    const userResult = await getSessionUser(decoded);
     
-    if (userResult.rows.length > 0 && userResult.rows[0].is_active) {
-      req.user = userResult.rows[0];
+    if (userResult.rows.length > 0 && userResult.rows[0].session_active && userResult.rows[0].is_active) {
+      const { session_active, ...user } = userResult.rows[0];
+      req.user = user;
+      req.sessionId = decoded.sessionId;
     } else {
       req.user = null;
     }
@@ -0,0 +1,107 @@
+import { query } from '../db/connection.js';
+
+// How long a stored response can be replayed for a retried request
+const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+// Middleware to make a write safe to retry. A request carrying an Idempotency-Key header runs once;
+// repeats with the same key get the stored response instead of running again. Use after authenticateToken.
+export const idempotent = async (req, res, next) => {
+  const key = req.get('Idempotency-Key');
+  if (!key) return next();
+
+  if (key.length > 255) {
+    return res.status(400).json({
+      error: 'Invalid idempotency key',
+      message: 'Idempotency keys must be at most 255 characters'
+    });
+  }
+
+  const requestPath = `${req.method} ${req.originalUrl.split('?')[0]}`;
+
+  try {
+    await query(`
+      DELETE FROM idempotency_keys
+      WHERE user_id = $1 AND created_at < CURRENT_TIMESTAMP - $2::integer * INTERVAL '1 hour'
+    `, [req.user.id, IDEMPOTENCY_KEY_TTL_HOURS]);
+
+    // Claim the key before running the request, so a concurrent retry can't run it a second time
+    const claimResult = await query(`
+      INSERT INTO idempotency_keys (user_id, idempotency_key, request_path)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, idempotency_key) DO NOTHING
+      RETURNING id
+    `, [req.user.id, key, requestPath]);
+
+    if (claimResult.rows.length === 0) {
+      const existingResult = await query(
+        'SELECT * FROM idempotency_keys WHERE user_id = $1 AND idempotency_key = $2',
+        [req.user.id, key]
+      );
+      const existing = existingResult.rows[0];
+
+      if (!existing) {
+        return res.status(409).json({
+          error: 'Request in progress',
+          message: 'This request is still being processed. Please try again shortly.'
+        });
+      }
+
+      if (existing.request_path !== requestPath) {
+        return res.status(422).json({
+          error: 'Idempotency key reused',
+          message: 'This idempotency key was already used for a different request'
+        });
+      }
+
+      if (existing.response_status === null) {
+        return res.status(409).json({
+          error: 'Request in progress',
+          message: 'This request is still being processed. Please try again shortly.'
+        });
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(existing.response_status).json(existing.response_body);
+    }
+
+    const recordId = claimResult.rows[0].id;
+    const sendJson = res.json.bind(res);
+    let isStored = false;
+    let isReleased = false;
+
+    // Store a JSON response before sending it, so a retry gets the same answer. Server errors aren't stored.
+    res.json = (body) => {
+      if (res.statusCode >= 500) return sendJson(body);
+
+      query(
+        'UPDATE idempotency_keys SET response_status = $1, response_body = $2 WHERE id = $3',
+        [res.statusCode, JSON.stringify(body), recordId]
+      )
+        .then(() => { isStored = true; })
+        .catch(error => console.error('Idempotency key store error:', error))
+        .finally(() => sendJson(body));
+
+      return res;
+    };
+
+    // Release the key once a response has gone out without one being stored (a server error, a response that
+    // wasn't JSON, or an error the route didn't catch), so the request can be retried rather than getting a 409.
+    // A client that disconnects while the request is still running doesn't release it.
+    const release = () => {
+      if (isStored || isReleased || !res.headersSent) return;
+      isReleased = true;
+      query('DELETE FROM idempotency_keys WHERE id = $1', [recordId])
+        .catch(error => console.error('Idempotency key release error:', error));
+    };
+    res.on('finish', release);
+    res.on('close', release);
+
+    next();
+  } catch (error) {
+    console.error('Idempotency check error:', error);
+    return res.status(500).json({
+      error: 'Request failed',
+      message: 'Unable to process request. Please try again.'
+    });
+  }
+};
@@ -1,9 +1,17 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { body, validationResult } from 'express-validator';
-import { query } from '../db/connection.js';
+import { query, withTransaction } from '../db/connection.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { recordOpeningBalance } from '../utils/concessions.js';
+import { isActiveLocation } from '../utils/locations.js';
+import { getHouseholdSummary } from '../utils/households.js';
+import { VOUCHER_ERRORS, findVoucher, checkVoucher, redeemConcessionVoucher } from '../utils/vouchers.js';
+import { AUTH_TOKEN_ERRORS, consumeAuthToken, sendPasswordResetEmail, sendVerificationEmail } from '../utils/authTokens.js';
+import {
+  REFRESH_COOKIE_NAME, SESSION_ERRORS, getCookie, setRefreshCookie, clearRefreshCookie,
+  startSession, rotateSession, endSessionByToken, endUserSessions
+} from '../utils/sessions.js';
 
 const router = express.Router();
 
@@ -16,10 +24,22 @@ const validateLogin = [
 const validateRegister = [
   body('name').trim().isLength({ min: 2 }).withMessage('Name must be at least 2 characters'),
   body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  body('voucher_code').optional({ values: 'falsy' }).trim().isLength({ max: 32 }).withMessage('Invalid code')
+];
+
+const validateResetPassword = [
+  body('token').isString().notEmpty().withMessage('Reset link is missing its token'),
   body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
 ];
 
-// Register new user
+// Helper function to send the response for an emailed link that can't be used
+const sendAuthTokenError = (res, error) => {
+  const { status, ...body } = AUTH_TOKEN_ERRORS[error];
+  return res.status(status).json(body);
+};
+
+// Register new user (optionally redeeming a free-concessions code)
 router.post('/register', validateRegister, async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -31,7 +51,7 @@ router.post('/register', validateRegister, async (req, res) => {
       });
     }
 
-    const { name, email, password } = req.body;
+    const { name, email, password, voucher_code } = req.body;
 
     // Check if user already exists
     const existingUser = await query('SELECT id FROM users WHERE email = $1', [email]);
@@ -42,6 +62,16 @@ router.post('/register', validateRegister, async (req, res) => {
       });
     }
 
+    // Check the code before creating the account, so a mistyped one can be fixed and submitted again
+    if (voucher_code) {
+      const voucher = await findVoucher(voucher_code);
+      const voucherError = voucher && voucher.voucher_type === 'percent_off' ? 'needs_purchase' : await checkVoucher(voucher);
+      if (voucherError) {
+        const { status, ...body } = VOUCHER_ERRORS[voucherError];
+        return res.status(status).json(body);
+      }
+    }
+
     // Hash password
     const saltRounds = 12;
     const passwordHash = await bcrypt.hash(password, saltRounds);
@@ -54,15 +84,32 @@ router.post('/register', validateRegister, async (req, res) => {
 
     const newUser = result.rows[0];
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: newUser.id, email: newUser.email, role: newUser.role },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    await recordOpeningBalance(newUser.id, newUser.concessions, 'Welcome concessions');
+
+    // The code was checked above, but its last use could have gone in the meantime; the account is kept either way
+    let voucherMessage = null;
+    if (voucher_code) {
+      const redemption = await redeemConcessionVoucher({ code: voucher_code, userId: newUser.id, source: 'registration', actorId: newUser.id });
+      if (redemption.error) {
+        voucherMessage = `Your code couldn't be applied: ${VOUCHER_ERRORS[redemption.error].message}`;
+      } else {
+        newUser.concessions = redemption.entry.balance_after;
+        voucherMessage = `${redemption.voucher.concessions} free concession${redemption.voucher.concessions === 1 ? '' : 's'} added with ${redemption.voucher.code}`;
+      }
+    }
+
+    // A mail outage shouldn't stop anyone signing up; they can ask for the email again from their dashboard
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
+    // Sign the new member in on this device
+    const token = await startSession(newUser, req, res);
 
     res.status(201).json({
-      message: 'Registration successful',
+      message: voucherMessage ? `Registration successful. ${voucherMessage}` : 'Registration successful',
       token,
       user: {
         id: newUser.id,
@@ -70,7 +117,8 @@ router.post('/register', validateRegister, async (req, res) => {
         email: newUser.email,
         role: newUser.role,
         concessions: newUser.concessions,
-        join_date: newUser.join_date
+        join_date: newUser.join_date,
+        email_verified: false
       }
     });
 
@@ -99,7 +147,7 @@ router.post('/login', validateLogin, async (req, res) => {
 
     // Find user
     const result = await query(
-      'SELECT id, name, email, password_hash, role, concessions, is_active FROM users WHERE email = $1',
+      'SELECT id, name, email, password_hash, role, concessions, is_active, home_location_id, email_verified_at FROM users WHERE email = $1',
       [email]
     );
 
@@ -131,12 +179,8 @@ router.post('/login', validateLogin, async (req, res) => {
     // Update last login
     await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1', [user.id]);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    // Start a session for this device (the refresh token goes in an httpOnly cookie)
+    const token = await startSession(user, req, res);
 
     res.json({
       message: 'Login successful',
@@ -146,7 +190,10 @@ router.post('/login', validateLogin, async (req, res) => {
         name: user.name,
         email: user.email,
         role: user.role,
-        concessions: user.concessions
+        concessions: user.concessions,
+        home_location_id: user.home_location_id,
+        email_verified: user.email_verified_at !== null,
+        household: await getHouseholdSummary(user.id)
       }
     });
 
@@ -159,12 +206,151 @@ router.post('/login', validateLogin, async (req, res) => {
   }
 });
 
+// Swap the refresh token cookie for a new access token. The cookie is rotated each time, so a copied
+// refresh token stops working once the real device has used it.
+router.post('/refresh', async (req, res) => {
+  try {
+    const refreshToken = getCookie(req, REFRESH_COOKIE_NAME);
+    if (!refreshToken) {
+      const { status, ...body } = SESSION_ERRORS.missing;
+      return res.status(status).json(body);
+    }
+
+    const outcome = await withTransaction((tx) => rotateSession(refreshToken, req, tx));
+
+    if (outcome.error) {
+      clearRefreshCookie(res);
+      const { status, ...body } = SESSION_ERRORS[outcome.error];
+      return res.status(status).json(body);
+    }
+
+    if (outcome.refreshToken) {
+      setRefreshCookie(res, outcome.refreshToken);
+    }
+
+    res.json({
+      token: outcome.accessToken
+    });
+
+  } catch (error) {
+    console.error('Refresh session error:', error);
+    res.status(500).json({
+      error: 'Refresh failed',
+      message: 'Unable to refresh your session. Please try again.'
+    });
+  }
+});
+
+// Sign out on this device. Works without an access token, so an expired one can still sign out.
+router.post('/logout', async (req, res) => {
+  try {
+    const refreshToken = getCookie(req, REFRESH_COOKIE_NAME);
+    if (refreshToken) {
+      await endSessionByToken(refreshToken);
+    }
+
+    clearRefreshCookie(res);
+    res.json({
+      message: 'Logged out successfully'
+    });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      error: 'Logout failed',
+      message: 'Unable to log out. Please try again.'
+    });
+  }
+});
+
+// Get the current user's signed-in devices
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at, id = $2 as is_current
+      FROM sessions
+      WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+      ORDER BY id = $2 DESC, last_used_at DESC
+    `, [req.user.id, req.sessionId]);
+
+    res.json({
+      sessions: result.rows
+    });
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to get sessions',
+      message: 'Unable to retrieve your signed-in devices'
+    });
+  }
+});
+
+// Sign out every session apart from this one
+router.delete('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const count = await endUserSessions(req.user.id, req.sessionId);
+
+    res.json({
+      message: count === 0
+        ? 'No other sessions were signed in'
+        : `Signed out ${count} other session${count === 1 ? '' : 's'}`,
+      count
+    });
+
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to sign out sessions',
+      message: 'Unable to sign out your other sessions. Please try again.'
+    });
+  }
+});
+
+// Sign out one of the current user's sessions
+router.delete('/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const sessionId = parseInt(req.params.id);
+
+    if (sessionId === req.sessionId) {
+      return res.status(400).json({
+        error: 'Current session',
+        message: 'Use Logout to sign out of this device'
+      });
+    }
+
+    const result = await query(`
+      UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+      RETURNING id
+    `, [sessionId, req.user.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: 'That session has already been signed out'
+      });
+    }
+
+    res.json({
+      message: 'Session signed out'
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      error: 'Failed to sign out session',
+      message: 'Unable to sign out that session. Please try again.'
+    });
+  }
+});
+
 // Get current user
 router.get('/me', authenticateToken, async (req, res) => {
   try {
     // Get fresh user data from database
     const result = await query(
-      'SELECT id, name, email, role, concessions, join_date, last_login FROM users WHERE id = $1',
+      'SELECT id, name, email, role, concessions, join_date, last_login, home_location_id, email_verified_at FROM users WHERE id = $1',
       [req.user.id]
     );
 
@@ -185,7 +371,10 @@ router.get('/me', authenticateToken, async (req, res) => {
         role: user.role,
         concessions: user.concessions,
         join_date: user.join_date,
-        last_login: user.last_login
+        last_login: user.last_login,
+        home_location_id: user.home_location_id,
+        email_verified: user.email_verified_at !== null,
+        household: await getHouseholdSummary(user.id)
       }
     });
 
@@ -198,6 +387,48 @@ router.get('/me', authenticateToken, async (req, res) => {
   }
 });
 
+// Update the current user's profile preferences (home location for now)
+router.patch('/me', authenticateToken, [
+  body('home_location_id').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Home location must be a valid location')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const homeLocationId = req.body.home_location_id ? parseInt(req.body.home_location_id) : null;
+
+    if (homeLocationId && !(await isActiveLocation(homeLocationId))) {
+      return res.status(400).json({
+        error: 'Invalid location',
+        message: 'That location does not exist or is closed'
+      });
+    }
+
+    const result = await query(
+      'UPDATE users SET home_location_id = $1 WHERE id = $2 RETURNING home_location_id',
+      [homeLocationId, req.user.id]
+    );
+
+    res.json({
+      message: 'Profile updated successfully',
+      home_location_id: result.rows[0].home_location_id
+    });
+
+  } catch (error) {
+    console.error('Update profile error:', error);
+    res.status(500).json({
+      error: 'Failed to update profile',
+      message: 'Unable to update your profile. Please try again.'
+    });
+  }
+});
+
 // Change password
 router.post('/change-password', authenticateToken, [
   body('currentPassword').isLength({ min: 6 }).withMessage('Current password is required'),
@@ -232,11 +463,15 @@ router.post('/change-password', authenticateToken, [
     const saltRounds = 12;
     const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
 
-    // Update password
+    // Update password (any reset link already emailed stops working, and other devices are signed out)
     await query('UPDATE users SET password_hash = $1 WHERE id = $2', [newPasswordHash, req.user.id]);
+    await query("DELETE FROM auth_tokens WHERE user_id = $1 AND purpose = 'password_reset' AND used_at IS NULL", [req.user.id]);
+    const signedOut = await endUserSessions(req.user.id, req.sessionId);
 
     res.json({
-      message: 'Password changed successfully'
+      message: signedOut > 0
+        ? `Password changed successfully. Your other ${signedOut === 1 ? 'session has' : `${signedOut} sessions have`} been signed out.`
+        : 'Password changed successfully'
     });
 
   } catch (error) {
@@ -248,4 +483,154 @@ router.post('/change-password', authenticateToken, [
   }
 });
 
+// Forgot password: email a reset link. The response is the same whether or not the email has an account, so
+// this can't be used to find out who's a member. The link is created and sent after responding, so neither the
+// response time nor a mail failure gives the account away.
+router.post('/forgot-password', [
+  body('email').isEmail().normalizeEmail().withMessage('Valid email is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const result = await query('SELECT id, name, email FROM users WHERE email = $1 AND is_active = true', [req.body.email]);
+    if (result.rows.length > 0) {
+      sendPasswordResetEmail(result.rows[0]).catch((mailError) => {
+        console.error('Password reset email error:', mailError);
+      });
+    }
+
+    res.json({
+      message: 'If an account exists for that email, we\'ve sent a link to reset the password.'
+    });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'Unable to send a reset link. Please try again.'
+    });
+  }
+});
+
+// Reset password with the token from an emailed link. Following the link also proves the email is theirs.
+router.post('/reset-password', validateResetPassword, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const passwordHash = await bcrypt.hash(req.body.password, 12);
+
+    const outcome = await withTransaction(async (tx) => {
+      const consumed = await consumeAuthToken(req.body.token, 'password_reset', tx);
+      if (consumed.error) return consumed;
+
+      await tx(
+        'UPDATE users SET password_hash = $1, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = $2',
+        [passwordHash, consumed.userId]
+      );
+      // Whoever had the old password is signed out everywhere
+      await endUserSessions(consumed.userId, null, tx);
+      return consumed;
+    });
+
+    if (outcome.error) {
+      return sendAuthTokenError(res, outcome.error);
+    }
+
+    res.json({
+      message: 'Your password has been reset. You can now sign in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'Unable to reset your password. Please try again.'
+    });
+  }
+});
+
+// Confirm a member's email with the token from their verification email
+router.post('/verify-email', [
+  body('token').isString().notEmpty().withMessage('Verification link is missing its token')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const outcome = await withTransaction(async (tx) => {
+      const consumed = await consumeAuthToken(req.body.token, 'email_verification', tx);
+      if (consumed.error) return consumed;
+
+      await tx(
+        'UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = $1',
+        [consumed.userId]
+      );
+      return consumed;
+    });
+
+    if (outcome.error) {
+      return sendAuthTokenError(res, outcome.error);
+    }
+
+    res.json({
+      message: 'Thanks, your email address is confirmed.'
+    });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      error: 'Verification failed',
+      message: 'Unable to confirm your email. Please try again.'
+    });
+  }
+});
+
+// Send the current user a new verification email
+router.post('/resend-verification', authenticateToken, async (req, res) => {
+  try {
+    const result = await query('SELECT id, name, email, email_verified_at FROM users WHERE id = $1', [req.user.id]);
+    const user = result.rows[0];
+
+    if (user.email_verified_at) {
+      return res.status(400).json({
+        error: 'Already verified',
+        message: 'Your email address is already confirmed'
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({
+      message: `We've sent a new confirmation link to ${user.email}`
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      error: 'Failed to send email',
+      message: 'Unable to send the confirmation email. Please try again.'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,300 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { query, withTransaction } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { BANK_STATEMENT_FORMATS, DATE_FORMATS, readStatement, matchTransaction } from '../utils/bankStatements.js';
+import { settlePayment } from '../utils/payments.js';
+import { toDateString } from '../utils/occurrences.js';
+
+const router = express.Router();
+
+// Validation middleware
+const isCustomFormat = body('bank_format').equals('custom');
+
+const validateImport = [
+  body('csv').isString().isLength({ min: 1, max: 5000000 }).withMessage('Please choose a statement file'),
+  body('file_name').optional().trim().isLength({ max: 255 }),
+  body('bank_format').isIn([...Object.keys(BANK_STATEMENT_FORMATS), 'custom']).withMessage('Please choose your bank'),
+  body('mapping.date').if(isCustomFormat).isString().notEmpty().withMessage('Please choose the date column'),
+  body('mapping.amount').if(isCustomFormat).isString().notEmpty().withMessage('Please choose the amount column'),
+  body('mapping.payer').if(isCustomFormat).optional({ nullable: true }).isString(),
+  body('mapping.reference').if(isCustomFormat).isArray({ min: 1 }).withMessage('Please choose at least one reference column'),
+  body('mapping.date_format').if(isCustomFormat).isIn(DATE_FORMATS).withMessage('Please choose the date format')
+];
+
+const validateMatch = [
+  body('payment_id').isInt({ min: 1 }).withMessage('Please choose the payment this deposit is for')
+];
+
+// Helper function to convert DECIMAL columns into numbers for the client
+const formatTransaction = (transaction) => ({
+  ...transaction,
+  transaction_date: toDateString(transaction.transaction_date),
+  amount: parseFloat(transaction.amount),
+  payment_amount: transaction.payment_amount === null ? null : parseFloat(transaction.payment_amount)
+});
+
+// Get the bank layouts the importer knows about (admin only)
+router.get('/formats', authenticateToken, requireAdmin, async (req, res) => {
+  res.json({ formats: BANK_STATEMENT_FORMATS, date_formats: DATE_FORMATS });
+});
+
+// Get recent statement imports (admin only)
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT i.id, i.file_name, i.bank_format, i.transaction_count, i.duplicate_count, i.matched_count,
+             i.review_count, i.created_at, u.name as imported_by_name
+      FROM bank_statement_imports i
+      LEFT JOIN users u ON i.imported_by = u.id
+      ORDER BY i.created_at DESC
+      LIMIT 20
+    `);
+
+    res.json({ imports: result.rows });
+
+  } catch (error) {
+    console.error('Get bank imports error:', error);
+    res.status(500).json({
+      error: 'Failed to get imports',
+      message: 'Unable to retrieve bank statement imports'
+    });
+  }
+});
+
+// Import a statement: record each new deposit, confirm exact matches and queue likely ones for review.
+// Deposits already imported (same fingerprint) are skipped, so uploading a statement twice changes nothing.
+router.post('/', authenticateToken, requireAdmin, validateImport, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { csv, file_name = null, bank_format } = req.body;
+    const mapping = bank_format === 'custom' ? req.body.mapping : BANK_STATEMENT_FORMATS[bank_format].mapping;
+
+    const statement = readStatement(csv, mapping);
+    if (statement.error) {
+      return res.status(400).json({
+        error: 'Invalid statement',
+        message: `${statement.error}. Check the bank or column mapping.`
+      });
+    }
+
+    const outcome = await withTransaction(async (tx) => {
+      const importResult = await tx(`
+        INSERT INTO bank_statement_imports (file_name, bank_format, column_mapping, imported_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `, [file_name, bank_format, JSON.stringify(mapping), req.user.id]);
+      const statementImport = importResult.rows[0];
+
+      // Lock the pending payments so a payment confirmed by hand meanwhile can't be credited again here
+      const pendingResult = await tx(`
+        SELECT p.*, u.name as user_name
+        FROM payments p
+        JOIN users u ON p.user_id = u.id
+        WHERE p.status = 'pending'
+        ORDER BY p.created_at
+        FOR UPDATE OF p
+      `);
+      let pendingPayments = pendingResult.rows;
+
+      const counts = { transaction: 0, duplicate: 0, matched: 0, review: 0 };
+
+      for (const transaction of statement.transactions) {
+        const match = matchTransaction(transaction, pendingPayments);
+
+        const inserted = await tx(`
+          INSERT INTO bank_transactions (import_id, fingerprint, transaction_date, amount, payer, reference, status, payment_id, match_reason)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT (fingerprint) DO NOTHING
+          RETURNING id
+        `, [statementImport.id, transaction.fingerprint, transaction.transaction_date, transaction.amount, transaction.payer,
+            transaction.reference, match.status, match.payment?.id ?? null, match.reason]);
+
+        if (inserted.rows.length === 0) {
+          counts.duplicate++;
+          continue;
+        }
+        counts.transaction++;
+
+        if (match.status === 'matched') {
+          await settlePayment({
+            paymentId: match.payment.id,
+            status: 'confirmed',
+            actorId: req.user.id,
+            notes: `Matched to a bank deposit on ${transaction.transaction_date}`
+          }, tx);
+          pendingPayments = pendingPayments.filter(p => p.id !== match.payment.id);
+          counts.matched++;
+        } else if (match.status === 'review') {
+          counts.review++;
+        }
+      }
+
+      const updated = await tx(`
+        UPDATE bank_statement_imports
+        SET transaction_count = $1, duplicate_count = $2, matched_count = $3, review_count = $4
+        WHERE id = $5
+        RETURNING id, file_name, bank_format, transaction_count, duplicate_count, matched_count, review_count, created_at
+      `, [counts.transaction, counts.duplicate, counts.matched, counts.review, statementImport.id]);
+
+      return { statementImport: updated.rows[0], counts };
+    });
+
+    const { counts } = outcome;
+    const unmatched = counts.transaction - counts.matched - counts.review;
+
+    console.log(`🏦 Bank statement imported: ${counts.transaction} new deposit(s), ${counts.matched} confirmed, ${counts.review} to review`);
+
+    res.status(201).json({
+      message: counts.transaction === 0
+        ? `No new deposits found${counts.duplicate > 0 ? ` - ${counts.duplicate} were already imported` : ''}.`
+        : `Imported ${counts.transaction} deposit(s): ${counts.matched} confirmed automatically, ${counts.review} to review and ${unmatched} unmatched.` +
+          (counts.duplicate > 0 ? ` ${counts.duplicate} already imported.` : ''),
+      import: outcome.statementImport,
+      skippedRows: statement.skipped
+    });
+
+  } catch (error) {
+    console.error('Import bank statement error:', error);
+    res.status(500).json({
+      error: 'Failed to import statement',
+      message: 'Unable to import the bank statement. Please try again.'
+    });
+  }
+});
+
+// Get deposits that still need an admin: likely matches to check, then deposits nothing matched
+router.get('/transactions', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT t.*, p.reference as payment_reference, p.amount as payment_amount, p.status as payment_status,
+             p.payment_type, u.name as user_name
+      FROM bank_transactions t
+      LEFT JOIN payments p ON t.payment_id = p.id
+      LEFT JOIN users u ON p.user_id = u.id
+      WHERE t.status IN ('review', 'unmatched')
+      ORDER BY t.status = 'review' DESC, t.transaction_date DESC, t.id
+    `);
+
+    res.json({ transactions: result.rows.map(formatTransaction) });
+
+  } catch (error) {
+    console.error('Get bank transactions error:', error);
+    res.status(500).json({
+      error: 'Failed to get transactions',
+      message: 'Unable to retrieve bank transactions'
+    });
+  }
+});
+
+// Confirm the payment a deposit is for (the suggested one, or another pending payment the admin picked)
+router.post('/transactions/:id/match', authenticateToken, requireAdmin, validateMatch, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const transactionId = parseInt(req.params.id);
+    const paymentId = parseInt(req.body.payment_id);
+
+    const outcome = await withTransaction(async (tx) => {
+      const transactionResult = await tx('SELECT * FROM bank_transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+      const transaction = transactionResult.rows[0];
+      if (!transaction) return { error: 'not_found' };
+      if (!['review', 'unmatched'].includes(transaction.status)) return { error: 'resolved' };
+
+      const settled = await settlePayment({
+        paymentId,
+        status: 'confirmed',
+        actorId: req.user.id,
+        notes: `Matched to a bank deposit on ${toDateString(transaction.transaction_date)}`
+      }, tx);
+      if (!settled) return { error: 'payment' };
+
+      await tx(`
+        UPDATE bank_transactions
+        SET status = 'matched', payment_id = $1, match_reason = 'Matched by an admin', reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP
+        WHERE id = $3
+      `, [paymentId, req.user.id, transactionId]);
+
+      return { payment: settled.payment };
+    });
+
+    if (outcome.error === 'not_found') {
+      return res.status(404).json({
+        error: 'Transaction not found',
+        message: 'The bank transaction you are trying to match does not exist'
+      });
+    }
+
+    if (outcome.error === 'resolved') {
+      return res.status(400).json({
+        error: 'Transaction already resolved',
+        message: 'This deposit has already been matched or ignored'
+      });
+    }
+
+    if (outcome.error === 'payment') {
+      return res.status(400).json({
+        error: 'Payment not pending',
+        message: 'That payment is no longer awaiting confirmation. Choose another payment or ignore this deposit.'
+      });
+    }
+
+    res.json({
+      message: outcome.payment.payment_type === 'drop_in'
+        ? 'Deposit matched. Drop-in payment confirmed.'
+        : `Deposit matched. ${outcome.payment.concessions_purchased} concession(s) added.`
+    });
+
+  } catch (error) {
+    console.error('Match bank transaction error:', error);
+    res.status(500).json({
+      error: 'Failed to match transaction',
+      message: 'Unable to match the deposit. Please try again.'
+    });
+  }
+});
+
+// Ignore a deposit that isn't a member payment (a refund, a transfer between accounts...)
+router.post('/transactions/:id/ignore', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query(`
+      UPDATE bank_transactions
+      SET status = 'ignored', reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND status IN ('review', 'unmatched')
+      RETURNING id
+    `, [req.user.id, parseInt(req.params.id)]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Transaction not found',
+        message: 'This deposit does not exist or has already been resolved'
+      });
+    }
+
+    res.json({ message: 'Deposit ignored' });
+
+  } catch (error) {
+    console.error('Ignore bank transaction error:', error);
+    res.status(500).json({
+      error: 'Failed to ignore transaction',
+      message: 'Unable to ignore the deposit. Please try again.'
+    });
+  }
+});
+
+export default router;
@@ -1,47 +1,263 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import { query } from '../db/connection.js';
-import { authenticateToken, requireAdmin, requireUser } from '../middleware/auth.js';
+import { query, withTransaction } from '../db/connection.js';
+import { authenticateToken, requireAdmin, requireUser, requireStaff } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { getOccurrence, listOccurrences, toDateString } from '../utils/occurrences.js';
+import { adjustConcessions } from '../utils/concessions.js';
+import { getClassPolicy, isWithinBookingWindow, isLateCancellation, hasCreditAvailable } from '../utils/policies.js';
+import { createCheckInToken, verifyCheckInToken, isCheckInOpen, CHECK_IN_OPENS_MINUTES } from '../utils/checkIn.js';
+import { processStandingBooking } from '../utils/standingBookings.js';
+import { canTeachClass } from '../utils/instructors.js';
+import { createDropInPayment, cancelDropInPayments } from '../utils/dropIns.js';
+import { getMembershipCover } from '../utils/memberships.js';
+import { getBalanceHolder, getChargedUserId, isHouseholdPayerFor } from '../utils/households.js';
+import { notifyBookingConfirmed, notifyBookingCancelled } from '../utils/notifications.js';
 
 const router = express.Router();
 
+// How long skipped standing booking dates stay visible to the member
+const SKIP_HISTORY_DAYS = 14;
+
 // Validation middleware
 const validateBooking = [
   body('class_id').isInt({ min: 1 }).withMessage('Valid class ID is required'),
   body('booking_date').isISO8601().toDate().withMessage('Valid booking date is required')
 ];
 
-// Helper function to check if date is within booking window
-const isWithinBookingWindow = (bookingDate) => {
-  const today = new Date();
-  const booking = new Date(bookingDate);
-  const diffTime = booking.getTime() - today.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  
-  return diffDays >= 0 && diffDays <= 14; // Can book up to 14 days in advance
+// How a member pays for a booking: the class's concession cost, or the drop-in price
+const validatePaymentOption = [
+  body('payment_option').optional().isIn(['concessions', 'drop_in']).withMessage('Payment option must be concessions or drop_in')
+];
+
+// Booking status each attendance mark maps to ('pending' clears the mark)
+const ATTENDANCE_STATUSES = {
+  attended: 'completed',
+  'no-show': 'no-show',
+  pending: 'confirmed'
+};
+
+// Helper function to record attendance, charging or reversing the no-show penalty as the mark changes
+const applyAttendance = async (booking, attendance, actorId, db) => {
+  const status = ATTENDANCE_STATUSES[attendance];
+  let penalty = booking.no_show_penalty || 0;
+
+  if (booking.status === 'no-show' && status !== 'no-show' && penalty > 0) {
+    await adjustConcessions({
+      userId: getChargedUserId(booking),
+      change: penalty,
+      reason: 'refund',
+      actorId,
+      bookingId: booking.id,
+      note: 'No-show penalty reversed'
+    }, db);
+    penalty = 0;
+  }
+
+  if (status === 'no-show' && booking.status !== 'no-show') {
+    const policy = await getClassPolicy(booking.class_id, db);
+    penalty = policy.no_show_penalty;
+
+    if (penalty > 0) {
+      await adjustConcessions({
+        userId: getChargedUserId(booking),
+        change: -penalty,
+        reason: 'no_show_penalty',
+        actorId,
+        bookingId: booking.id
+      }, db);
+    }
+  }
+
+  const result = await db(`
+    UPDATE bookings
+    SET status = $1::varchar,
+        no_show_penalty = $2,
+        attendance_marked_at = CASE WHEN $1::varchar = 'confirmed' THEN NULL ELSE CURRENT_TIMESTAMP END,
+        attendance_marked_by = CASE WHEN $1::varchar = 'confirmed' THEN NULL ELSE $3::integer END
+    WHERE id = $4
+    RETURNING *
+  `, [status, penalty, actorId, booking.id]);
+
+  return result.rows[0];
+};
+
+// Helper function to move the first eligible waitlisted member into a freed spot
+const promoteFromWaitlist = async (classId, bookingDate, db) => {
+  const occurrence = await getOccurrence(classId, bookingDate, db);
+  if (!occurrence || occurrence.is_cancelled) return null;
+
+  const capacityResult = await db(`
+    SELECT COUNT(*) as current_bookings 
+    FROM bookings 
+    WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
+  `, [classId, bookingDate]);
+
+  if (parseInt(capacityResult.rows[0].current_bookings) >= occurrence.max_capacity) {
+    return null;
+  }
+
+  // Dependants are checked against (and charged to) their household payer's balance
+  const waitingResult = await db(`
+    SELECT w.*, h.payer_id as charged_user_id, balance.concessions
+    FROM waitlist_entries w
+    JOIN users u ON w.user_id = u.id
+    LEFT JOIN household_members hm ON hm.user_id = w.user_id
+    LEFT JOIN households h ON h.id = hm.household_id
+    JOIN users balance ON balance.id = COALESCE(h.payer_id, w.user_id)
+    WHERE w.class_id = $1 AND w.booking_date = $2 AND w.status = 'waiting'
+      AND w.booking_date >= CURRENT_DATE AND u.is_active = true
+      AND NOT EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.user_id = w.user_id AND b.class_id = w.class_id
+          AND b.booking_date = w.booking_date AND b.status IN ('confirmed', 'completed')
+      )
+    ORDER BY w.created_at, w.id
+  `, [classId, bookingDate]);
+
+  // Members whose membership doesn't cover the session and who can't cover the class's concession cost
+  // keep their place in the queue but are skipped
+  const policy = await getClassPolicy(classId, db);
+  const classResult = await db('SELECT concession_cost FROM classes WHERE id = $1', [classId]);
+  const cost = classResult.rows[0].concession_cost;
+  let entry = null;
+  let membership = null;
+  for (const candidate of waitingResult.rows) {
+    const cover = await getMembershipCover(candidate.user_id, occurrence.occurrence_date, occurrence.time, db);
+    if (cover.membership || hasCreditAvailable(candidate.concessions, policy, cost)) {
+      entry = candidate;
+      membership = cover.membership;
+      break;
+    }
+  }
+  if (!entry) return null;
+
+  // Re-use any earlier cancelled booking row for this member, class and date
+  const bookingResult = await db(`
+    INSERT INTO bookings (user_id, class_id, booking_date, status, used_concession, concessions_charged, membership_id, charged_user_id)
+    VALUES ($1, $2, $3, 'confirmed', $4, $5, $6, $7)
+    ON CONFLICT (user_id, class_id, booking_date) DO UPDATE
+      SET status = 'confirmed', used_concession = EXCLUDED.used_concession, concessions_charged = EXCLUDED.concessions_charged,
+          membership_id = EXCLUDED.membership_id, charged_user_id = EXCLUDED.charged_user_id,
+          booking_time = CURRENT_TIMESTAMP, cancellation_time = NULL, is_late_cancellation = false
+    RETURNING *
+  `, [entry.user_id, classId, bookingDate, !membership, membership ? 0 : cost, membership ? membership.id : null, entry.charged_user_id]);
+
+  const booking = bookingResult.rows[0];
+
+  if (!membership) {
+    await adjustConcessions({
+      userId: getChargedUserId(booking),
+      change: -cost,
+      reason: 'booking',
+      bookingId: booking.id,
+      note: 'Promoted from waitlist'
+    }, db);
+  }
+
+  await db(`
+    UPDATE waitlist_entries 
+    SET status = 'promoted', booking_id = $1, promoted_at = CURRENT_TIMESTAMP
+    WHERE id = $2
+  `, [booking.id, entry.id]);
+
+  await notifyBookingConfirmed(booking, { fromWaitlist: true }, db);
+
+  return { entry, booking };
 };
 
-// Helper function to check if cancellation is late
-const isLateCancellation = (bookingDate, classTime) => {
-  const now = new Date();
-  const classDateTime = new Date(`${bookingDate}T${classTime}:00`);
-  const hoursUntilClass = (classDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-  
-  return hoursUntilClass <= 24 && hoursUntilClass > 0;
+// Helper function to cancel a confirmed booking: refunds the concessions it cost (or cancels an unpaid
+// drop-in payment) unless it's a late cancellation, then offers the freed spot to the waitlist.
+// Runs inside a transaction (db) that has locked the class.
+const applyCancellation = async (booking, actorId, db) => {
+  // Check if it's a late cancellation (against the time the class actually runs that day)
+  const bookingDate = toDateString(booking.booking_date);
+  const occurrence = await getOccurrence(booking.class_id, bookingDate, db);
+  const policy = await getClassPolicy(booking.class_id, db);
+  const isLate = isLateCancellation(bookingDate, occurrence.time, policy);
+
+  const updateResult = await db(`
+    UPDATE bookings 
+    SET status = $1, cancellation_time = CURRENT_TIMESTAMP, is_late_cancellation = $2
+    WHERE id = $3
+    RETURNING *
+  `, [isLate ? 'late-cancelled' : 'cancelled', isLate, booking.id]);
+
+  // Refund the concessions if not late cancellation and concessions were used
+  let concessionRefunded = false;
+  if (!isLate && booking.used_concession) {
+    await adjustConcessions({
+      userId: getChargedUserId(booking),
+      change: booking.concessions_charged,
+      reason: 'refund',
+      actorId,
+      bookingId: booking.id
+    }, db);
+    concessionRefunded = true;
+  } else if (isLate && booking.used_concession) {
+    // The concessions are kept rather than refunded; record that on the statement
+    await adjustConcessions({
+      userId: getChargedUserId(booking),
+      change: 0,
+      reason: 'late_cancel_penalty',
+      actorId,
+      bookingId: booking.id,
+      note: `Cancelled within ${policy.cancellation_deadline_hours} hours of class - ${booking.concessions_charged} concession(s) not refunded`
+    }, db);
+  }
+
+  // A drop-in cancelled in time no longer has to be paid for; a late one still does
+  let paymentCancelled = false;
+  if (!isLate && !booking.used_concession) {
+    const cancelledPayments = await cancelDropInPayments([booking.id], db);
+    paymentCancelled = cancelledPayments.length > 0;
+  }
+
+  await notifyBookingCancelled(updateResult.rows[0], {
+    isLate,
+    concessionRefunded,
+    cancellationHours: policy.cancellation_deadline_hours
+  }, db);
+
+  // Offer the freed spot to the next member on the waitlist. A failed promotion is rolled back to the
+  // savepoint so it doesn't undo the cancellation itself.
+  await db('SAVEPOINT waitlist_promotion');
+  try {
+    const waitlistPromotion = await promoteFromWaitlist(booking.class_id, booking.booking_date, db);
+    if (waitlistPromotion) {
+      console.log(`📋 Promoted waitlist entry ${waitlistPromotion.entry.id} to booking ${waitlistPromotion.booking.id}`);
+    }
+  } catch (error) {
+    console.error('Waitlist promotion error:', error);
+    await db('ROLLBACK TO SAVEPOINT waitlist_promotion');
+  }
+
+  return { booking: updateResult.rows[0], isLate, concessionRefunded, paymentCancelled };
 };
 
 // Get user's bookings
 router.get('/my-bookings', authenticateToken, requireUser, async (req, res) => {
   try {
     const result = await query(`
-      SELECT b.*, c.name as class_name, c.time as class_time, c.instructor, c.duration
+      SELECT b.*, c.name as class_name, COALESCE(o.time, c.time) as class_time,
+             COALESCE(o.instructor, c.instructor) as instructor, c.duration,
+             p.id as payment_id, p.amount as payment_amount, p.reference as payment_reference, p.status as payment_status
       FROM bookings b
       JOIN classes c ON b.class_id = c.id
+      LEFT JOIN class_occurrences o ON o.class_id = b.class_id AND o.occurrence_date = b.booking_date
+      LEFT JOIN LATERAL (
+        SELECT * FROM payments WHERE booking_id = b.id ORDER BY created_at DESC LIMIT 1
+      ) p ON true
       WHERE b.user_id = $1
       ORDER BY b.booking_date DESC, c.time DESC
     `, [req.user.id]);
 
-    res.json({ bookings: result.rows });
+    const bookings = result.rows.map(booking => ({
+      ...booking,
+      payment_amount: booking.payment_amount === null ? null : parseFloat(booking.payment_amount)
+    }));
+
+    res.json({ bookings });
 
   } catch (error) {
     console.error('Get user bookings error:', error);
@@ -52,6 +268,33 @@ router.get('/my-bookings', authenticateToken, requireUser, async (req, res) => {
   }
 });
 
+// Get the bookings of the dependants a member pays for as their household payer
+router.get('/household', authenticateToken, requireUser, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT b.*, u.name as user_name, c.name as class_name, COALESCE(o.time, c.time) as class_time,
+             COALESCE(o.instructor, c.instructor) as instructor, c.duration
+      FROM bookings b
+      JOIN users u ON b.user_id = u.id
+      JOIN household_members hm ON hm.user_id = b.user_id
+      JOIN households h ON h.id = hm.household_id
+      JOIN classes c ON b.class_id = c.id
+      LEFT JOIN class_occurrences o ON o.class_id = b.class_id AND o.occurrence_date = b.booking_date
+      WHERE h.payer_id = $1
+      ORDER BY b.booking_date DESC, c.time DESC
+    `, [req.user.id]);
+
+    res.json({ bookings: result.rows });
+
+  } catch (error) {
+    console.error('Get household bookings error:', error);
+    res.status(500).json({
+      error: 'Failed to get bookings',
+      message: 'Unable to retrieve your household\'s bookings'
+    });
+  }
+});
+
 // Get all bookings (admin only)
 router.get('/', authenticateToken, requireAdmin, async (req, res) => {
   try {
@@ -59,10 +302,12 @@ router.get('/', authenticateToken, requireAdmin, async (req, res) => {
     
     let queryText = `
       SELECT b.*, u.name as user_name, u.email as user_email, 
-             c.name as class_name, c.time as class_time, c.instructor
+             c.name as class_name, COALESCE(o.time, c.time) as class_time,
+             COALESCE(o.instructor, c.instructor) as instructor
       FROM bookings b
       JOIN users u ON b.user_id = u.id
       JOIN classes c ON b.class_id = c.id
+      LEFT JOIN class_occurrences o ON o.class_id = b.class_id AND o.occurrence_date = b.booking_date
       WHERE 1=1
     `;
     
@@ -109,7 +354,7 @@ router.get('/', authenticateToken, requireAdmin, async (req, res) => {
 });
 
 // Create booking
-router.post('/', authenticateToken, requireUser, validateBooking, async (req, res) => {
+router.post('/', authenticateToken, requireUser, idempotent, validateBooking, validatePaymentOption, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -120,14 +365,15 @@ router.post('/', authenticateToken, requireUser, validateBooking, async (req, re
       });
     }
 
-    const { class_id, booking_date } = req.body;
+    const { class_id, booking_date, payment_option = 'concessions' } = req.body;
     const userId = req.user.id;
+    const policy = await getClassPolicy(class_id);
 
     // Check if booking date is within allowed window
-    if (!isWithinBookingWindow(booking_date)) {
+    if (!isWithinBookingWindow(booking_date, policy)) {
       return res.status(400).json({
         error: 'Invalid booking date',
-        message: 'You can only book classes up to 14 days in advance'
+        message: `You can only book this class up to ${policy.booking_window_days} days in advance`
       });
     }
 
@@ -155,66 +401,175 @@ router.post('/', authenticateToken, requireUser, validateBooking, async (req, re
       });
     }
 
-    // Check if user has sufficient concessions (allow up to -5)
-    const userResult = await query('SELECT concessions FROM users WHERE id = $1', [userId]);
-    const currentConcessions = userResult.rows[0].concessions;
+    const isDropIn = payment_option === 'drop_in';
+    if (isDropIn && classData.drop_in_price === null) {
+      return res.status(400).json({
+        error: 'Drop-in not available',
+        message: 'This class can only be booked with concessions'
+      });
+    }
+
+    // Check the class actually runs on the selected date
+    const occurrence = await getOccurrence(class_id, booking_date);
 
-    if (currentConcessions <= -5) {
+    if (!occurrence.is_scheduled) {
       return res.status(400).json({
-        error: 'Insufficient concessions',
-        message: 'You have reached the maximum credit limit. Please make a payment to continue booking classes.'
+        error: 'Class not scheduled',
+        message: 'This class does not run on the selected date'
       });
     }
 
-    // Check if user already has a booking for this class and date
-    const existingBooking = await query(`
-      SELECT id FROM bookings 
-      WHERE user_id = $1 AND class_id = $2 AND booking_date = $3 AND status = 'confirmed'
-    `, [userId, class_id, booking_date]);
+    if (occurrence.is_cancelled) {
+      return res.status(400).json({
+        error: 'Class cancelled',
+        message: occurrence.cancellation_reason
+          ? `This class has been cancelled for the selected date: ${occurrence.cancellation_reason}`
+          : 'This class has been cancelled for the selected date'
+      });
+    }
 
-    if (existingBooking.rows.length > 0) {
+    // Capacity, credit and the booking itself are checked and written under locks on the class and the
+    // member, so two requests can't both take the last spot or spend the same credit
+    const outcome = await withTransaction(async (tx) => {
+      await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [class_id]);
+
+      const capacityResult = await tx(`
+        SELECT COUNT(*) as current_bookings 
+        FROM bookings 
+        WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
+      `, [class_id, booking_date]);
+
+      if (parseInt(capacityResult.rows[0].current_bookings) >= occurrence.max_capacity) {
+        return { error: 'full' };
+      }
+
+      // A membership that covers the session books it without concessions; otherwise check the balance
+      // the member books against (their own, or their household payer's) has sufficient concessions for
+      // the class (credit allowed down to the policy's limit). Drop-ins are paid for separately, so they
+      // don't touch the balance.
+      const balanceHolder = await getBalanceHolder(userId, tx);
+      const userResult = await tx('SELECT concessions FROM users WHERE id = $1 FOR UPDATE', [balanceHolder.id]);
+      const currentConcessions = userResult.rows[0].concessions;
+      const chargedUserId = balanceHolder.id !== userId ? balanceHolder.id : null;
+      const { membership } = isDropIn
+        ? { membership: null }
+        : await getMembershipCover(userId, occurrence.occurrence_date, occurrence.time, tx);
+      const usesConcessions = !isDropIn && !membership;
+      const cost = usesConcessions ? classData.concession_cost : 0;
+
+      if (usesConcessions && !hasCreditAvailable(currentConcessions, policy, cost)) {
+        return { error: 'credit' };
+      }
+
+      // Re-use an earlier cancelled booking row for this member, class and date; any other existing
+      // row means the member is already booked
+      const bookingResult = await tx(`
+        INSERT INTO bookings (user_id, class_id, booking_date, status, used_concession, concessions_charged, membership_id, charged_user_id)
+        VALUES ($1, $2, $3, 'confirmed', $4, $5, $6, $7)
+        ON CONFLICT (user_id, class_id, booking_date) DO UPDATE
+          SET status = 'confirmed', used_concession = EXCLUDED.used_concession,
+              concessions_charged = EXCLUDED.concessions_charged, membership_id = EXCLUDED.membership_id,
+              charged_user_id = EXCLUDED.charged_user_id, booking_time = CURRENT_TIMESTAMP, cancellation_time = NULL, is_late_cancellation = false,
+              standing_booking_id = NULL
+          WHERE bookings.status IN ('cancelled', 'late-cancelled')
+        RETURNING *
+      `, [userId, class_id, booking_date, usesConcessions, cost, membership ? membership.id : null, chargedUserId]);
+
+      if (bookingResult.rows.length === 0) {
+        return { error: 'duplicate' };
+      }
+
+      let payment = null;
+      if (isDropIn) {
+        payment = await createDropInPayment(bookingResult.rows[0], classData, tx);
+      } else if (usesConcessions) {
+        await adjustConcessions({
+          userId: balanceHolder.id,
+          change: -cost,
+          reason: 'booking',
+          actorId: req.user.id,
+          bookingId: bookingResult.rows[0].id,
+          note: chargedUserId ? `Booked by ${req.user.name}` : null
+        }, tx);
+      }
+
+      // Booking directly takes the member off any waitlist for the same class and date
+      await tx(`
+        UPDATE waitlist_entries SET status = 'cancelled'
+        WHERE user_id = $1 AND class_id = $2 AND booking_date = $3 AND status = 'waiting'
+      `, [userId, class_id, booking_date]);
+
+      await notifyBookingConfirmed(bookingResult.rows[0], {}, tx);
+
+      return { booking: bookingResult.rows[0], payment, membership, balanceHolder, currentConcessions, cost };
+    });
+
+    if (outcome.error === 'full') {
+      return res.status(400).json({
+        error: 'Class full',
+        message: 'This class is fully booked for the selected date'
+      });
+    }
+
+    if (outcome.error === 'credit') {
+      return res.status(400).json({
+        error: 'Insufficient concessions',
+        message: classData.concession_cost > 1
+          ? `This class costs ${classData.concession_cost} concessions, which would take you past your credit limit. Please make a payment${classData.drop_in_price !== null ? ' or book as a drop-in' : ''}.`
+          : 'You have reached the maximum credit limit. Please make a payment to continue booking classes.'
+      });
+    }
+
+    if (outcome.error === 'duplicate') {
       return res.status(409).json({
         error: 'Already booked',
         message: 'You have already booked this class for this date'
       });
     }
 
-    // Check class capacity
-    const capacityResult = await query(`
-      SELECT COUNT(*) as current_bookings 
-      FROM bookings 
-      WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
-    `, [class_id, booking_date]);
+    const newBooking = outcome.booking;
 
-    const currentBookings = parseInt(capacityResult.rows[0].current_bookings);
-    
-    if (currentBookings >= classData.max_capacity) {
-      return res.status(400).json({
-        error: 'Class full',
-        message: 'This class is fully booked for the selected date'
+    if (outcome.payment) {
+      return res.status(201).json({
+        message: `Drop-in booked. Please pay $${outcome.payment.amount.toFixed(2)} using reference ${outcome.payment.reference}.`,
+        booking: newBooking,
+        payment: outcome.payment
       });
     }
 
-    // Create booking
-    const bookingResult = await query(`
-      INSERT INTO bookings (user_id, class_id, booking_date, status, used_concession)
-      VALUES ($1, $2, $3, $4, $5)
-      RETURNING *
-    `, [userId, class_id, booking_date, 'confirmed', true]);
+    if (outcome.membership) {
+      return res.status(201).json({
+        message: `Booking created with your ${outcome.membership.plan_name} membership`,
+        booking: newBooking
+      });
+    }
 
-    // Update user concessions
-    await query(`
-      UPDATE users SET concessions = concessions - 1 WHERE id = $1
-    `, [userId]);
+    const isNegative = outcome.currentConcessions - outcome.cost < 0;
+    const { balanceHolder } = outcome;
+    const isShared = balanceHolder.id !== userId;
 
-    const newBooking = bookingResult.rows[0];
-    const isNegative = currentConcessions - 1 < 0;
+    let message;
+    if (isShared) {
+      message = isNegative
+        ? `Booking created using credit on ${balanceHolder.name}'s household balance. Please ask them to make a payment soon.`
+        : `Booking created using ${balanceHolder.name}'s household balance`;
+    } else {
+      message = isNegative
+        ? 'Booking created using credit. Please make a payment soon to avoid booking restrictions.'
+        : 'Booking created successfully';
+    }
 
+    // Tell the member which balance paid for the booking (a dependant's comes from their household payer)
     res.status(201).json({
-      message: isNegative 
-        ? 'Booking created using credit. Please make a payment soon to avoid booking restrictions.'
-        : 'Booking created successfully',
-      booking: newBooking
+      message,
+      booking: newBooking,
+      charged_to: {
+        user_id: balanceHolder.id,
+        name: balanceHolder.name,
+        household_name: balanceHolder.household_name,
+        is_shared: isShared,
+        concessions: outcome.currentConcessions - outcome.cost
+      }
     });
 
   } catch (error) {
@@ -227,17 +582,11 @@ router.post('/', authenticateToken, requireUser, validateBooking, async (req, re
 });
 
 // Cancel booking
-router.patch('/:id/cancel', authenticateToken, async (req, res) => {
+router.patch('/:id/cancel', authenticateToken, idempotent, async (req, res) => {
   try {
     const bookingId = parseInt(req.params.id);
     
-    // Get booking with class information
-    const bookingResult = await query(`
-      SELECT b.*, c.time as class_time
-      FROM bookings b
-      JOIN classes c ON b.class_id = c.id
-      WHERE b.id = $1
-    `, [bookingId]);
+    const bookingResult = await query('SELECT * FROM bookings WHERE id = $1', [bookingId]);
 
     if (bookingResult.rows.length === 0) {
       return res.status(404).json({
@@ -248,49 +597,62 @@ router.patch('/:id/cancel', authenticateToken, async (req, res) => {
 
     const booking = bookingResult.rows[0];
 
-    // Check if user owns this booking or is admin
-    if (req.user.role !== 'admin' && booking.user_id !== req.user.id) {
+    // Check if user owns this booking, pays for it as the member's household payer, or is admin
+    if (req.user.role !== 'admin' && booking.user_id !== req.user.id &&
+        !(await isHouseholdPayerFor(req.user.id, booking.user_id))) {
       return res.status(403).json({
         error: 'Access denied',
         message: 'You can only cancel your own bookings'
       });
     }
 
-    // Check if booking can be cancelled
-    if (booking.status !== 'confirmed') {
+    // Lock the class (the same order booking uses) and re-read the booking so a repeated or concurrent
+    // cancel can't refund twice
+    const outcome = await withTransaction(async (tx) => {
+      await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [booking.class_id]);
+      const lockedResult = await tx('SELECT * FROM bookings WHERE id = $1 FOR UPDATE', [bookingId]);
+
+      // Check if booking can be cancelled
+      if (lockedResult.rows[0].status !== 'confirmed') return null;
+
+      return applyCancellation(lockedResult.rows[0], req.user.id, tx);
+    });
+
+    if (!outcome) {
       return res.status(400).json({
         error: 'Cannot cancel booking',
         message: 'Only confirmed bookings can be cancelled'
       });
     }
 
-    // Check if it's a late cancellation
-    const isLate = isLateCancellation(booking.booking_date, booking.class_time);
-    
-    // Update booking status
-    const updateResult = await query(`
-      UPDATE bookings 
-      SET status = $1, cancellation_time = CURRENT_TIMESTAMP, is_late_cancellation = $2
-      WHERE id = $3
-      RETURNING *
-    `, [isLate ? 'late-cancelled' : 'cancelled', isLate, bookingId]);
+    const { booking: updatedBooking, isLate, concessionRefunded, paymentCancelled } = outcome;
+    const charged = updatedBooking.concessions_charged;
 
-    // Refund concession if not late cancellation and concession was used
-    let concessionRefunded = false;
-    if (!isLate && booking.used_concession) {
-      await query('UPDATE users SET concessions = concessions + 1 WHERE id = $1', [booking.user_id]);
-      concessionRefunded = true;
+    let message;
+    if (updatedBooking.membership_id) {
+      message = isLate
+        ? 'Late cancellation: The class still counts as used on your membership'
+        : 'Booking cancelled successfully';
+    } else if (!updatedBooking.used_concession) {
+      message = isLate
+        ? 'Late cancellation: The drop-in fee is still payable'
+        : 'Booking cancelled successfully. You no longer need to pay for this drop-in.';
+    } else if (updatedBooking.charged_user_id) {
+      message = isLate
+        ? `Late cancellation: The household balance has been charged ${charged === 1 ? 'a concession' : `${charged} concessions`}`
+        : `Booking cancelled successfully. ${charged === 1 ? 'The concession has' : `${charged} concessions have`} been refunded to the household balance.`;
+    } else {
+      message = isLate
+        ? `Late cancellation: You have been charged ${charged === 1 ? 'a concession' : `${charged} concessions`}`
+        : `Booking cancelled successfully. Your ${charged === 1 ? 'concession has' : `${charged} concessions have`} been refunded.`;
     }
 
-    const updatedBooking = updateResult.rows[0];
-
     res.json({
-      message: isLate 
-        ? 'Late cancellation: You have been charged a concession'
-        : 'Booking cancelled successfully. Your concession has been refunded.',
+      message,
       booking: updatedBooking,
       isLateCancellation: isLate,
-      concessionRefunded
+      concessionRefunded,
+      paymentCancelled
     });
 
   } catch (error) {
@@ -302,8 +664,8 @@ router.patch('/:id/cancel', authenticateToken, async (req, res) => {
   }
 });
 
-// Mark class as completed (admin only)
-router.patch('/complete-class', authenticateToken, requireAdmin, [
+// Mark class as completed (admins, or the class's instructor)
+router.patch('/complete-class', authenticateToken, requireStaff, idempotent, [
   body('class_id').isInt({ min: 1 }).withMessage('Valid class ID is required'),
   body('booking_date').isISO8601().toDate().withMessage('Valid booking date is required')
 ], async (req, res) => {
@@ -319,12 +681,24 @@ router.patch('/complete-class', authenticateToken, requireAdmin, [
 
     const { class_id, booking_date } = req.body;
 
-    const result = await query(`
-      UPDATE bookings 
-      SET status = 'completed'
-      WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
-      RETURNING *
-    `, [class_id, booking_date]);
+    if (!(await canTeachClass(req.user, class_id, booking_date))) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only complete classes you teach'
+      });
+    }
+
+    // Anyone not already marked on the roster is counted as attended
+    const result = await withTransaction(async (tx) => {
+      await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [class_id]);
+
+      return tx(`
+        UPDATE bookings 
+        SET status = 'completed', attendance_marked_at = CURRENT_TIMESTAMP, attendance_marked_by = $3
+        WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
+        RETURNING *
+      `, [class_id, booking_date, req.user.id]);
+    });
 
     const updatedCount = result.rows.length;
 
@@ -343,7 +717,7 @@ router.patch('/complete-class', authenticateToken, requireAdmin, [
 });
 
 // Undo class completion (admin only)
-router.patch('/undo-complete-class', authenticateToken, requireAdmin, [
+router.patch('/undo-complete-class', authenticateToken, requireAdmin, idempotent, [
   body('class_id').isInt({ min: 1 }).withMessage('Valid class ID is required'),
   body('booking_date').isISO8601().toDate().withMessage('Valid booking date is required')
 ], async (req, res) => {
@@ -359,14 +733,22 @@ router.patch('/undo-complete-class', authenticateToken, requireAdmin, [
 
     const { class_id, booking_date } = req.body;
 
-    const result = await query(`
-      UPDATE bookings 
-      SET status = 'confirmed'
-      WHERE class_id = $1 AND booking_date = $2 AND status = 'completed'
-      RETURNING *
-    `, [class_id, booking_date]);
+    // Clear each mark individually so no-show penalties are refunded, all or nothing
+    const updatedCount = await withTransaction(async (tx) => {
+      await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [class_id]);
 
-    const updatedCount = result.rows.length;
+      const result = await tx(`
+        SELECT * FROM bookings
+        WHERE class_id = $1 AND booking_date = $2 AND status IN ('completed', 'no-show')
+        FOR UPDATE
+      `, [class_id, booking_date]);
+
+      for (const booking of result.rows) {
+        await applyAttendance(booking, 'pending', req.user.id, tx);
+      }
+
+      return result.rows.length;
+    });
 
     res.json({
       message: `Class completion undone for ${updatedCount} booking(s)`,
@@ -382,4 +764,770 @@ router.patch('/undo-complete-class', authenticateToken, requireAdmin, [
   }
 });
 
-export default router;
\ No newline at end of file
+// Mark a member attended or no-show for their class (admins, or the class's instructor)
+router.patch('/:id/attendance', authenticateToken, requireStaff, [
+  body('attendance').isIn(Object.keys(ATTENDANCE_STATUSES)).withMessage('Attendance must be attended, no-show or pending')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const bookingId = parseInt(req.params.id);
+    const { attendance } = req.body;
+
+    const bookingResult = await query('SELECT * FROM bookings WHERE id = $1', [bookingId]);
+
+    if (bookingResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Booking not found',
+        message: 'The booking you are trying to update does not exist'
+      });
+    }
+
+    const booking = bookingResult.rows[0];
+
+    if (!(await canTeachClass(req.user, booking.class_id, booking.booking_date))) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only mark attendance for classes you teach'
+      });
+    }
+
+    if (!Object.values(ATTENDANCE_STATUSES).includes(booking.status)) {
+      return res.status(400).json({
+        error: 'Cannot mark attendance',
+        message: 'Attendance can only be marked for bookings that were not cancelled'
+      });
+    }
+
+    // Attendance only makes sense once the session has started
+    const bookingDate = toDateString(booking.booking_date);
+    const occurrence = await getOccurrence(booking.class_id, bookingDate);
+    const classTime = occurrence?.time || '00:00';
+    if (new Date(`${bookingDate}T${classTime}:00`).getTime() > Date.now()) {
+      return res.status(400).json({
+        error: 'Class not started',
+        message: 'Attendance can be marked once the class has started'
+      });
+    }
+
+    if (booking.status === ATTENDANCE_STATUSES[attendance]) {
+      return res.json({
+        message: 'Attendance already recorded',
+        booking
+      });
+    }
+
+    // Re-read under a row lock so a double click can't charge or refund the penalty twice
+    const updatedBooking = await withTransaction(async (tx) => {
+      const lockedResult = await tx('SELECT * FROM bookings WHERE id = $1 FOR UPDATE', [bookingId]);
+      return applyAttendance(lockedResult.rows[0], attendance, req.user.id, tx);
+    });
+
+    res.json({
+      message: attendance === 'no-show' && updatedBooking.no_show_penalty > 0
+        ? `Marked as no-show. ${updatedBooking.no_show_penalty} concession(s) charged as a penalty.`
+        : 'Attendance updated successfully',
+      booking: updatedBooking
+    });
+
+  } catch (error) {
+    console.error('Mark attendance error:', error);
+    res.status(500).json({
+      error: 'Failed to mark attendance',
+      message: 'Unable to update attendance. Please try again.'
+    });
+  }
+});
+
+// Get a short-lived check-in code for one of today's bookings (shown as a QR code)
+router.get('/:id/check-in-code', authenticateToken, requireUser, async (req, res) => {
+  try {
+    const bookingId = parseInt(req.params.id);
+
+    const bookingResult = await query(
+      'SELECT * FROM bookings WHERE id = $1 AND user_id = $2',
+      [bookingId, req.user.id]
+    );
+
+    if (bookingResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Booking not found',
+        message: 'The booking you are trying to check in to does not exist'
+      });
+    }
+
+    const booking = bookingResult.rows[0];
+
+    if (booking.status !== 'confirmed') {
+      return res.status(400).json({
+        error: 'Cannot check in',
+        message: booking.status === 'completed'
+          ? 'You are already checked in to this class'
+          : 'Only confirmed bookings can be checked in'
+      });
+    }
+
+    if (toDateString(booking.booking_date) !== toDateString(new Date())) {
+      return res.status(400).json({
+        error: 'Cannot check in',
+        message: 'Check-in codes are available on the day of the class'
+      });
+    }
+
+    res.json(createCheckInToken(booking.id));
+
+  } catch (error) {
+    console.error('Get check-in code error:', error);
+    res.status(500).json({
+      error: 'Failed to get check-in code',
+      message: 'Unable to create a check-in code. Please try again.'
+    });
+  }
+});
+
+// Get today's sessions for the front desk kiosk (admin only)
+router.get('/kiosk/today', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const today = toDateString(new Date());
+
+    const classesResult = await query('SELECT * FROM classes ORDER BY time, name');
+    const occurrences = (await listOccurrences(classesResult.rows, today, today))
+      .filter(o => !o.is_cancelled);
+
+    const countsResult = await query(`
+      SELECT class_id,
+             COUNT(*) FILTER (WHERE status IN ('confirmed', 'completed', 'no-show')) as booked_count,
+             COUNT(*) FILTER (WHERE status = 'completed') as checked_in_count
+      FROM bookings
+      WHERE booking_date = $1
+      GROUP BY class_id
+    `, [today]);
+
+    const counts = new Map(countsResult.rows.map(r => [r.class_id, r]));
+
+    res.json({
+      date: today,
+      check_in_opens_minutes: CHECK_IN_OPENS_MINUTES,
+      sessions: occurrences
+        .sort((a, b) => a.time.localeCompare(b.time))
+        .map(o => ({
+          ...o,
+          booked_count: parseInt(counts.get(o.class_id)?.booked_count || 0),
+          checked_in_count: parseInt(counts.get(o.class_id)?.checked_in_count || 0),
+          check_in_open: isCheckInOpen(today, o.time)
+        }))
+    });
+
+  } catch (error) {
+    console.error('Get kiosk sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to get sessions',
+      message: "Unable to retrieve today's classes"
+    });
+  }
+});
+
+// Check a member in at the kiosk, by QR code or by email (admin only)
+router.post('/check-in', authenticateToken, requireAdmin, [
+  body('token').optional().isString().withMessage('Check-in code must be text'),
+  body('email').optional().isEmail().normalizeEmail().withMessage('Valid email is required'),
+  body('class_id').optional().isInt({ min: 1 }).withMessage('Valid class ID is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { token, email, class_id } = req.body;
+    const today = toDateString(new Date());
+    let booking;
+
+    if (token) {
+      const { bookingId, error } = verifyCheckInToken(token);
+
+      if (error) {
+        return res.status(400).json({
+          error: error === 'expired' ? 'Code expired' : 'Invalid code',
+          message: error === 'expired'
+            ? 'This check-in code has expired. Please refresh it in the app and try again.'
+            : 'This check-in code is not valid'
+        });
+      }
+
+      const bookingResult = await query('SELECT * FROM bookings WHERE id = $1', [bookingId]);
+      booking = bookingResult.rows[0];
+    } else if (email) {
+      let queryText = `
+        SELECT b.* FROM bookings b
+        JOIN users u ON b.user_id = u.id
+        WHERE u.email = $1 AND b.booking_date = $2 AND b.status IN ('confirmed', 'completed', 'no-show')
+      `;
+      const queryParams = [email, today];
+
+      if (class_id) {
+        queryText += ' AND b.class_id = $3';
+        queryParams.push(parseInt(class_id));
+      }
+
+      const bookingResult = await query(queryText, queryParams);
+
+      if (bookingResult.rows.length > 1) {
+        return res.status(400).json({
+          error: 'Class required',
+          message: 'You have more than one class today - please choose your class first'
+        });
+      }
+
+      booking = bookingResult.rows[0];
+    } else {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please scan a check-in code or enter your email'
+      });
+    }
+
+    if (!booking || toDateString(booking.booking_date) !== today) {
+      return res.status(404).json({
+        error: 'Booking not found',
+        message: "We couldn't find a booking for today. Please see the front desk."
+      });
+    }
+
+    if (!['confirmed', 'completed', 'no-show'].includes(booking.status)) {
+      return res.status(400).json({
+        error: 'Booking cancelled',
+        message: 'This booking was cancelled. Please see the front desk.'
+      });
+    }
+
+    const occurrence = await getOccurrence(booking.class_id, today);
+
+    if (!occurrence || occurrence.is_cancelled) {
+      return res.status(400).json({
+        error: 'Class cancelled',
+        message: 'This class has been cancelled today'
+      });
+    }
+
+    if (!isCheckInOpen(today, occurrence.time)) {
+      return res.status(400).json({
+        error: 'Check-in not open',
+        message: `Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before ${occurrence.name} starts at ${occurrence.time}`
+      });
+    }
+
+    const memberResult = await query('SELECT name FROM users WHERE id = $1', [booking.user_id]);
+    const memberName = memberResult.rows[0]?.name || 'Member';
+
+    if (booking.status === 'completed') {
+      return res.json({
+        message: `${memberName} is already checked in to ${occurrence.name}`,
+        already_checked_in: true,
+        member_name: memberName,
+        class_name: occurrence.name,
+        booking
+      });
+    }
+
+    const updatedBooking = await withTransaction(async (tx) => {
+      const lockedResult = await tx('SELECT * FROM bookings WHERE id = $1 FOR UPDATE', [booking.id]);
+      return applyAttendance(lockedResult.rows[0], 'attended', req.user.id, tx);
+    });
+
+    res.json({
+      message: `Welcome, ${memberName}! You're checked in to ${occurrence.name}.`,
+      already_checked_in: false,
+      member_name: memberName,
+      class_name: occurrence.name,
+      booking: updatedBooking
+    });
+
+  } catch (error) {
+    console.error('Check-in error:', error);
+    res.status(500).json({
+      error: 'Failed to check in',
+      message: 'Unable to check in. Please see the front desk.'
+    });
+  }
+});
+
+// Get user's waitlist entries (waiting, plus promotions they haven't seen yet)
+router.get('/waitlist/mine', authenticateToken, requireUser, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT w.*, c.name as class_name, c.time as class_time, c.instructor,
+             CASE WHEN w.status = 'waiting' THEN (
+               SELECT COUNT(*) FROM waitlist_entries w2
+               WHERE w2.class_id = w.class_id AND w2.booking_date = w.booking_date
+                 AND w2.status = 'waiting' AND (w2.created_at, w2.id) <= (w.created_at, w.id)
+             ) END as position
+      FROM waitlist_entries w
+      JOIN classes c ON w.class_id = c.id
+      WHERE w.user_id = $1
+        AND (w.status = 'waiting' OR (w.status = 'promoted' AND w.acknowledged_at IS NULL))
+      ORDER BY w.booking_date, c.time
+    `, [req.user.id]);
+
+    const waitlist = result.rows.map(entry => ({
+      ...entry,
+      position: entry.position === null ? null : parseInt(entry.position)
+    }));
+
+    res.json({ waitlist });
+
+  } catch (error) {
+    console.error('Get waitlist error:', error);
+    res.status(500).json({
+      error: 'Failed to get waitlist',
+      message: 'Unable to retrieve your waitlist entries'
+    });
+  }
+});
+
+// Join the waitlist for a full class
+router.post('/waitlist', authenticateToken, requireUser, validateBooking, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { class_id, booking_date } = req.body;
+    const userId = req.user.id;
+    const policy = await getClassPolicy(class_id);
+
+    if (!isWithinBookingWindow(booking_date, policy)) {
+      return res.status(400).json({
+        error: 'Invalid booking date',
+        message: `You can only join the waitlist for this class up to ${policy.booking_window_days} days in advance`
+      });
+    }
+
+    const classResult = await query('SELECT * FROM classes WHERE id = $1', [class_id]);
+
+    if (classResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The selected class does not exist'
+      });
+    }
+
+    const occurrence = await getOccurrence(class_id, booking_date);
+
+    if (!occurrence.is_scheduled || occurrence.is_cancelled) {
+      return res.status(400).json({
+        error: 'Class not available',
+        message: 'This class does not run on the selected date'
+      });
+    }
+
+    const existingBooking = await query(`
+      SELECT id FROM bookings 
+      WHERE user_id = $1 AND class_id = $2 AND booking_date = $3 AND status = 'confirmed'
+    `, [userId, class_id, booking_date]);
+
+    if (existingBooking.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Already booked',
+        message: 'You have already booked this class for this date'
+      });
+    }
+
+    const capacityResult = await query(`
+      SELECT COUNT(*) as current_bookings 
+      FROM bookings 
+      WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
+    `, [class_id, booking_date]);
+
+    if (parseInt(capacityResult.rows[0].current_bookings) < occurrence.max_capacity) {
+      return res.status(400).json({
+        error: 'Class not full',
+        message: 'Spots are still available - book the class directly'
+      });
+    }
+
+    const existingEntry = await query(`
+      SELECT id FROM waitlist_entries 
+      WHERE user_id = $1 AND class_id = $2 AND booking_date = $3 AND status = 'waiting'
+    `, [userId, class_id, booking_date]);
+
+    if (existingEntry.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Already waitlisted',
+        message: 'You are already on the waitlist for this class'
+      });
+    }
+
+    const entryResult = await query(`
+      INSERT INTO waitlist_entries (user_id, class_id, booking_date)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `, [userId, class_id, booking_date]);
+
+    const positionResult = await query(`
+      SELECT COUNT(*) as position 
+      FROM waitlist_entries 
+      WHERE class_id = $1 AND booking_date = $2 AND status = 'waiting'
+    `, [class_id, booking_date]);
+
+    const position = parseInt(positionResult.rows[0].position);
+
+    res.status(201).json({
+      message: `You are number ${position} on the waitlist`,
+      entry: { ...entryResult.rows[0], position }
+    });
+
+  } catch (error) {
+    console.error('Join waitlist error:', error);
+    res.status(500).json({
+      error: 'Failed to join waitlist',
+      message: 'Unable to join the waitlist. Please try again.'
+    });
+  }
+});
+
+// Leave the waitlist
+router.delete('/waitlist/:id', authenticateToken, async (req, res) => {
+  try {
+    const entryId = parseInt(req.params.id);
+
+    const entryResult = await query('SELECT * FROM waitlist_entries WHERE id = $1', [entryId]);
+
+    if (entryResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Waitlist entry not found',
+        message: 'The waitlist entry does not exist'
+      });
+    }
+
+    const entry = entryResult.rows[0];
+
+    if (req.user.role !== 'admin' && entry.user_id !== req.user.id) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only leave your own waitlist entries'
+      });
+    }
+
+    if (entry.status !== 'waiting') {
+      return res.status(400).json({
+        error: 'Cannot leave waitlist',
+        message: 'This waitlist entry is no longer active'
+      });
+    }
+
+    await query(`UPDATE waitlist_entries SET status = 'cancelled' WHERE id = $1`, [entryId]);
+
+    res.json({
+      message: 'You have left the waitlist'
+    });
+
+  } catch (error) {
+    console.error('Leave waitlist error:', error);
+    res.status(500).json({
+      error: 'Failed to leave waitlist',
+      message: 'Unable to leave the waitlist. Please try again.'
+    });
+  }
+});
+
+// Acknowledge a waitlist promotion notice
+router.patch('/waitlist/:id/acknowledge', authenticateToken, requireUser, async (req, res) => {
+  try {
+    const entryId = parseInt(req.params.id);
+
+    const result = await query(`
+      UPDATE waitlist_entries 
+      SET acknowledged_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND user_id = $2 AND status = 'promoted'
+      RETURNING *
+    `, [entryId, req.user.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Waitlist entry not found',
+        message: 'No promotion found for this waitlist entry'
+      });
+    }
+
+    res.json({
+      message: 'Promotion acknowledged',
+      entry: result.rows[0]
+    });
+
+  } catch (error) {
+    console.error('Acknowledge waitlist promotion error:', error);
+    res.status(500).json({
+      error: 'Failed to acknowledge promotion',
+      message: 'Unable to update the waitlist entry'
+    });
+  }
+});
+
+// Get substitute instructor notices for the user's upcoming bookings that they haven't dismissed
+router.get('/substitutions/mine', authenticateToken, requireUser, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT n.id, n.created_at, s.class_id, TO_CHAR(s.occurrence_date, 'YYYY-MM-DD') as booking_date, s.reason,
+             c.name as class_name, COALESCE(o.time, c.time) as class_time,
+             sub.name as substitute_name, orig.name as original_instructor_name
+      FROM substitution_notices n
+      JOIN class_substitutions s ON n.substitution_id = s.id
+      JOIN classes c ON s.class_id = c.id
+      JOIN bookings b ON b.user_id = n.user_id AND b.class_id = s.class_id AND b.booking_date = s.occurrence_date
+      LEFT JOIN class_occurrences o ON o.class_id = s.class_id AND o.occurrence_date = s.occurrence_date
+      LEFT JOIN instructors sub ON s.substitute_instructor_id = sub.id
+      LEFT JOIN instructors orig ON s.original_instructor_id = orig.id
+      WHERE n.user_id = $1 AND n.acknowledged_at IS NULL AND s.status = 'active'
+        AND b.status = 'confirmed' AND s.occurrence_date >= CURRENT_DATE
+      ORDER BY s.occurrence_date, class_time
+    `, [req.user.id]);
+
+    res.json({ substitutions: result.rows });
+
+  } catch (error) {
+    console.error('Get substitution notices error:', error);
+    res.status(500).json({
+      error: 'Failed to get substitution notices',
+      message: 'Unable to retrieve instructor changes for your bookings'
+    });
+  }
+});
+
+// Acknowledge a substitute instructor notice
+router.patch('/substitutions/:id/acknowledge', authenticateToken, requireUser, async (req, res) => {
+  try {
+    const noticeId = parseInt(req.params.id);
+
+    const result = await query(`
+      UPDATE substitution_notices
+      SET acknowledged_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND user_id = $2
+      RETURNING *
+    `, [noticeId, req.user.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Notice not found',
+        message: 'No instructor change notice found'
+      });
+    }
+
+    res.json({
+      message: 'Notice acknowledged',
+      notice: result.rows[0]
+    });
+
+  } catch (error) {
+    console.error('Acknowledge substitution notice error:', error);
+    res.status(500).json({
+      error: 'Failed to acknowledge notice',
+      message: 'Unable to update the notice'
+    });
+  }
+});
+
+// Get the current user's standing (weekly) bookings with their upcoming and skipped dates
+router.get('/standing', authenticateToken, requireUser, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT s.*, c.name as class_name, c.time as class_time, c.days, c.instructor, c.duration,
+             (SELECT COUNT(*) FROM bookings b
+              WHERE b.standing_booking_id = s.id AND b.status = 'confirmed' AND b.booking_date >= CURRENT_DATE
+             ) as upcoming_count
+      FROM standing_bookings s
+      JOIN classes c ON s.class_id = c.id
+      WHERE s.user_id = $1 AND s.status = 'active'
+      ORDER BY s.created_at
+    `, [req.user.id]);
+
+    const skipsResult = await query(`
+      SELECT standing_booking_id, skip_date, reason
+      FROM standing_booking_skips
+      WHERE standing_booking_id = ANY($1) AND skip_date >= CURRENT_DATE - $2::integer
+      ORDER BY skip_date
+    `, [result.rows.map(s => s.id), SKIP_HISTORY_DAYS]);
+
+    const standingBookings = result.rows.map(standing => ({
+      ...standing,
+      upcoming_count: parseInt(standing.upcoming_count),
+      skipped_dates: skipsResult.rows
+        .filter(skip => skip.standing_booking_id === standing.id)
+        .map(skip => ({ date: toDateString(skip.skip_date), reason: skip.reason }))
+    }));
+
+    res.json({ standing_bookings: standingBookings });
+
+  } catch (error) {
+    console.error('Get standing bookings error:', error);
+    res.status(500).json({
+      error: 'Failed to get standing bookings',
+      message: 'Unable to retrieve your standing bookings'
+    });
+  }
+});
+
+// Book a class every week - dates are booked automatically as they enter the booking window
+router.post('/standing', authenticateToken, requireUser, [
+  body('class_id').isInt({ min: 1 }).withMessage('Valid class ID is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { class_id } = req.body;
+    const userId = req.user.id;
+
+    const classResult = await query('SELECT * FROM classes WHERE id = $1', [class_id]);
+
+    if (classResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The selected class does not exist'
+      });
+    }
+
+    if (classResult.rows[0].status === 'draft') {
+      return res.status(400).json({
+        error: 'Class not available',
+        message: 'This class is not currently available for booking'
+      });
+    }
+
+    const existingResult = await query(`
+      SELECT id FROM standing_bookings
+      WHERE user_id = $1 AND class_id = $2 AND status = 'active'
+    `, [userId, class_id]);
+
+    if (existingResult.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Already booked weekly',
+        message: 'You already have a standing booking for this class'
+      });
+    }
+
+    const standingResult = await query(`
+      INSERT INTO standing_bookings (user_id, class_id)
+      VALUES ($1, $2)
+      RETURNING *
+    `, [userId, class_id]);
+
+    const standing = standingResult.rows[0];
+    const { booked, skipped } = await processStandingBooking(standing);
+
+    res.status(201).json({
+      message: `Standing booking created. ${booked.length} upcoming date${booked.length === 1 ? '' : 's'} booked` +
+        (skipped.length > 0 ? `, ${skipped.length} skipped` : ''),
+      standing_booking: standing,
+      booked,
+      skipped
+    });
+
+  } catch (error) {
+    console.error('Create standing booking error:', error);
+    res.status(500).json({
+      error: 'Failed to create standing booking',
+      message: 'Unable to set up your weekly booking. Please try again.'
+    });
+  }
+});
+
+// Cancel a standing booking along with its upcoming bookings (single dates are cancelled like any booking)
+router.delete('/standing/:id', authenticateToken, async (req, res) => {
+  try {
+    const standingId = parseInt(req.params.id);
+
+    const standingResult = await query('SELECT * FROM standing_bookings WHERE id = $1', [standingId]);
+
+    if (standingResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Standing booking not found',
+        message: 'The standing booking does not exist'
+      });
+    }
+
+    const standing = standingResult.rows[0];
+
+    if (req.user.role !== 'admin' && standing.user_id !== req.user.id) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only cancel your own standing bookings'
+      });
+    }
+
+    if (standing.status !== 'active') {
+      return res.status(400).json({
+        error: 'Cannot cancel standing booking',
+        message: 'This standing booking has already been cancelled'
+      });
+    }
+
+    const { cancelledCount, lateCount } = await withTransaction(async (tx) => {
+      await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [standing.class_id]);
+
+      await tx(`
+        UPDATE standing_bookings SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [standingId]);
+
+      const bookingsResult = await tx(`
+        SELECT * FROM bookings
+        WHERE standing_booking_id = $1 AND status = 'confirmed' AND booking_date >= CURRENT_DATE
+        ORDER BY booking_date
+        FOR UPDATE
+      `, [standingId]);
+
+      const counts = { cancelledCount: 0, lateCount: 0 };
+
+      for (const booking of bookingsResult.rows) {
+        // Sessions that have already started are left for attendance marking
+        const occurrence = await getOccurrence(booking.class_id, booking.booking_date, tx);
+        if (new Date(`${toDateString(booking.booking_date)}T${occurrence.time}:00`).getTime() <= Date.now()) continue;
+
+        const { isLate } = await applyCancellation(booking, req.user.id, tx);
+        counts.cancelledCount++;
+        if (isLate) counts.lateCount++;
+      }
+
+      return counts;
+    });
+
+    res.json({
+      message: `Standing booking cancelled. ${cancelledCount} upcoming booking${cancelledCount === 1 ? '' : 's'} cancelled` +
+        (lateCount > 0 ? ` (${lateCount} late, concession not refunded)` : ''),
+      cancelled_bookings: cancelledCount,
+      late_cancellations: lateCount
+    });
+
+  } catch (error) {
+    console.error('Cancel standing booking error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel standing booking',
+      message: 'Unable to cancel your standing booking. Please try again.'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import express from 'express';
+import crypto from 'crypto';
+import { query } from '../db/connection.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { buildCalendar } from '../utils/ical.js';
+
+const router = express.Router();
+
+// How far back the subscription feed keeps past classes
+const FEED_HISTORY_DAYS = 60;
+
+// Bookings joined with the session details the calendar needs
+const BOOKING_EVENT_QUERY = `
+  SELECT b.id, b.user_id, b.booking_date, b.status, b.cancellation_time,
+         c.name as class_name, c.duration,
+         COALESCE(o.time, c.time) as class_time,
+         COALESCE(o.instructor, c.instructor) as instructor,
+         COALESCE(o.is_cancelled, false) as is_cancelled, o.cancellation_reason
+  FROM bookings b
+  JOIN classes c ON b.class_id = c.id
+  LEFT JOIN class_occurrences o ON o.class_id = b.class_id AND o.occurrence_date = b.booking_date
+`;
+
+// Helper function to build the subscription URLs for a calendar token
+const getSubscriptionUrls = (req, token) => {
+  const url = `${req.protocol}://${req.get('host')}/api/calendar/feed/${token}.ics`;
+  return {
+    url,
+    webcal_url: url.replace(/^https?:/, 'webcal:')
+  };
+};
+
+// Helper function to create (or replace) a member's calendar token
+const issueCalendarToken = async (userId) => {
+  const token = crypto.randomBytes(24).toString('hex');
+  await query('UPDATE users SET calendar_token = $1 WHERE id = $2', [token, userId]);
+  return token;
+};
+
+// Get the current user's calendar subscription URL
+router.get('/subscription', authenticateToken, async (req, res) => {
+  try {
+    const result = await query('SELECT calendar_token FROM users WHERE id = $1', [req.user.id]);
+    const token = result.rows[0]?.calendar_token || await issueCalendarToken(req.user.id);
+
+    res.json(getSubscriptionUrls(req, token));
+
+  } catch (error) {
+    console.error('Get calendar subscription error:', error);
+    res.status(500).json({
+      error: 'Failed to get calendar subscription',
+      message: 'Unable to retrieve your calendar link'
+    });
+  }
+});
+
+// Replace the current user's calendar URL (the old link stops working)
+router.post('/subscription/reset', authenticateToken, async (req, res) => {
+  try {
+    const token = await issueCalendarToken(req.user.id);
+
+    res.json({
+      message: 'Calendar link reset. Re-subscribe with the new link.',
+      ...getSubscriptionUrls(req, token)
+    });
+
+  } catch (error) {
+    console.error('Reset calendar subscription error:', error);
+    res.status(500).json({
+      error: 'Failed to reset calendar subscription',
+      message: 'Unable to reset your calendar link. Please try again.'
+    });
+  }
+});
+
+// iCal subscription feed - authenticated by the secret token in the URL, since calendar apps can't log in
+router.get('/feed/:token', async (req, res) => {
+  try {
+    const token = req.params.token.replace(/\.ics$/, '');
+
+    const userResult = await query(
+      'SELECT id, name FROM users WHERE calendar_token = $1 AND is_active = true',
+      [token]
+    );
+
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Calendar not found',
+        message: 'This calendar link is no longer valid'
+      });
+    }
+
+    const bookingsResult = await query(`
+      ${BOOKING_EVENT_QUERY}
+      WHERE b.user_id = $1 AND b.booking_date >= CURRENT_DATE - $2::integer
+      ORDER BY b.booking_date, class_time
+    `, [userResult.rows[0].id, FEED_HISTORY_DAYS]);
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=900');
+    res.send(buildCalendar(bookingsResult.rows));
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({
+      error: 'Failed to build calendar',
+      message: 'Unable to build your calendar feed'
+    });
+  }
+});
+
+// Download a single booking as an .ics file
+router.get('/bookings/:id', authenticateToken, async (req, res) => {
+  try {
+    const bookingId = parseInt(req.params.id);
+
+    const result = await query(`${BOOKING_EVENT_QUERY} WHERE b.id = $1`, [bookingId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Booking not found',
+        message: 'The requested booking does not exist'
+      });
+    }
+
+    const booking = result.rows[0];
+
+    if (req.user.role !== 'admin' && booking.user_id !== req.user.id) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only export your own bookings'
+      });
+    }
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="flexbook-booking-${booking.id}.ics"`);
+    res.send(buildCalendar([booking], booking.class_name));
+
+  } catch (error) {
+    console.error('Booking calendar export error:', error);
+    res.status(500).json({
+      error: 'Failed to export booking',
+      message: 'Unable to create a calendar file for this booking'
+    });
+  }
+});
+
+export default router;
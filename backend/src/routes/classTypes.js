@@ -0,0 +1,179 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { query } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { CLASS_TYPE_ICONS } from '../utils/classTypes.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validateClassType = [
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Class type name must be 2-100 characters'),
+  body('color').matches(/^#[0-9a-fA-F]{6}$/).withMessage('Colour must be a hex colour such as #16a34a'),
+  body('icon').isIn(CLASS_TYPE_ICONS).withMessage('Please choose one of the available icons'),
+  body('is_active').optional().isBoolean().withMessage('Active must be true or false')
+];
+
+// Get class types. Members only see types still in use for new classes.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const isAdmin = req.user.role === 'admin';
+
+    const result = await query(`
+      SELECT t.*, COUNT(c.id) FILTER (WHERE c.status <> 'archived') as class_count
+      FROM class_types t
+      LEFT JOIN classes c ON c.class_type_id = t.id
+      ${isAdmin ? '' : 'WHERE t.is_active = true'}
+      GROUP BY t.id
+      ORDER BY t.is_active DESC, t.name
+    `);
+
+    res.json({
+      class_types: result.rows.map(classType => ({
+        ...classType,
+        class_count: parseInt(classType.class_count) || 0
+      })),
+      icons: CLASS_TYPE_ICONS
+    });
+
+  } catch (error) {
+    console.error('Get class types error:', error);
+    res.status(500).json({
+      error: 'Failed to get class types',
+      message: 'Unable to retrieve class types'
+    });
+  }
+});
+
+// Create a class type (admin only)
+router.post('/', authenticateToken, requireAdmin, validateClassType, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { name, color, icon } = req.body;
+
+    const result = await query(`
+      INSERT INTO class_types (name, color, icon)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (name) DO NOTHING
+      RETURNING *
+    `, [name, color, icon]);
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({
+        error: 'Class type already exists',
+        message: 'A class type with this name already exists'
+      });
+    }
+
+    res.status(201).json({
+      message: 'Class type created successfully',
+      class_type: { ...result.rows[0], class_count: 0 }
+    });
+
+  } catch (error) {
+    console.error('Create class type error:', error);
+    res.status(500).json({
+      error: 'Failed to create class type',
+      message: 'Unable to create class type. Please try again.'
+    });
+  }
+});
+
+// Update a class type (admin only)
+router.put('/:id', authenticateToken, requireAdmin, validateClassType, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const classTypeId = parseInt(req.params.id);
+    const { name, color, icon, is_active = true } = req.body;
+
+    const duplicateResult = await query('SELECT id FROM class_types WHERE name = $1 AND id <> $2', [name, classTypeId]);
+    if (duplicateResult.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Class type already exists',
+        message: 'A class type with this name already exists'
+      });
+    }
+
+    const result = await query(`
+      UPDATE class_types SET name = $1, color = $2, icon = $3, is_active = $4
+      WHERE id = $5
+      RETURNING *
+    `, [name, color, icon, is_active, classTypeId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Class type not found',
+        message: 'The class type you are trying to update does not exist'
+      });
+    }
+
+    res.json({
+      message: 'Class type updated successfully',
+      class_type: result.rows[0]
+    });
+
+  } catch (error) {
+    console.error('Update class type error:', error);
+    res.status(500).json({
+      error: 'Failed to update class type',
+      message: 'Unable to update class type. Please try again.'
+    });
+  }
+});
+
+// Retire a class type (admin only). Classes of this type keep it until changed.
+router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const classTypeId = parseInt(req.params.id);
+
+    const result = await query(
+      'UPDATE class_types SET is_active = false WHERE id = $1 RETURNING *',
+      [classTypeId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Class type not found',
+        message: 'The class type you are trying to retire does not exist'
+      });
+    }
+
+    const classResult = await query(
+      "SELECT COUNT(*) as count FROM classes WHERE class_type_id = $1 AND status <> 'archived'",
+      [classTypeId]
+    );
+    const classCount = parseInt(classResult.rows[0].count);
+
+    res.json({
+      message: classCount > 0
+        ? `Class type retired. ${classCount} class(es) still use it.`
+        : 'Class type retired',
+      class_count: classCount
+    });
+
+  } catch (error) {
+    console.error('Retire class type error:', error);
+    res.status(500).json({
+      error: 'Failed to retire class type',
+      message: 'Unable to retire class type. Please try again.'
+    });
+  }
+});
+
+export default router;
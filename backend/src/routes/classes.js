@@ -1,7 +1,16 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
-import { query } from '../db/connection.js';
-import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { body, param, validationResult } from 'express-validator';
+import { query, withTransaction } from '../db/connection.js';
+import { authenticateToken, requireAdmin, requireStaff } from '../middleware/auth.js';
+import { getOccurrence, listOccurrences, toDateString } from '../utils/occurrences.js';
+import { adjustConcessions } from '../utils/concessions.js';
+import { getChargedUserId } from '../utils/households.js';
+import { cancelDropInPayments } from '../utils/dropIns.js';
+import { notifyClassCancelled } from '../utils/notifications.js';
+import { canTeachClass, resolveInstructor, assignSubstitute, removeSubstitute } from '../utils/instructors.js';
+import { resolveRoom } from '../utils/locations.js';
+import { resolveClassType, getTimeOfDay } from '../utils/classTypes.js';
+import { findScheduleConflicts } from '../utils/conflicts.js';
 
 const router = express.Router();
 
@@ -10,14 +19,92 @@ const validateClass = [
   body('name').trim().isLength({ min: 2 }).withMessage('Class name must be at least 2 characters'),
   body('time').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('Time must be in HH:MM format'),
   body('duration').trim().isLength({ min: 1 }).withMessage('Duration is required'),
-  body('instructor').trim().isLength({ min: 2 }).withMessage('Instructor name must be at least 2 characters'),
+  body('instructor_id').isInt({ min: 1 }).withMessage('Please choose an instructor'),
+  body('room_id').optional({ nullable: true, checkFalsy: true }).isInt({ min: 1 }).withMessage('Please choose a valid room'),
   body('max_capacity').isInt({ min: 1, max: 100 }).withMessage('Max capacity must be between 1 and 100'),
+  body('concession_cost').optional().isInt({ min: 1, max: 10 }).withMessage('Concession cost must be between 1 and 10'),
+  body('drop_in_price').optional({ nullable: true, checkFalsy: true }).isFloat({ min: 0.01, max: 1000 }).withMessage('Drop-in price must be between $0.01 and $1000'),
   body('description').optional().trim(),
-  body('category').isIn(['morning', 'afternoon', 'evening', 'general']).withMessage('Invalid category'),
+  body('class_type_id').optional({ nullable: true, checkFalsy: true }).isInt({ min: 1 }).withMessage('Please choose a valid class type'),
   body('days').isArray({ min: 1 }).withMessage('At least one day must be selected'),
   body('status').optional().isIn(['published', 'draft', 'scheduled']).withMessage('Invalid status')
 ];
 
+// Validation middleware for per-date occurrence overrides
+const validateOccurrenceDate = [
+  param('date').isISO8601().withMessage('Valid occurrence date is required')
+];
+
+const validateOccurrenceOverride = [
+  ...validateOccurrenceDate,
+  body('time').optional({ nullable: true, checkFalsy: true }).matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('Time must be in HH:MM format'),
+  body('max_capacity').optional({ nullable: true, checkFalsy: true }).isInt({ min: 1, max: 100 }).withMessage('Max capacity must be between 1 and 100')
+];
+
+const validateSubstitution = [
+  body('substitute_instructor_id').isInt({ min: 1 }).withMessage('Please choose a substitute instructor'),
+  body('dates').isArray({ min: 1, max: 31 }).withMessage('Choose between 1 and 31 dates'),
+  body('dates.*').isISO8601().withMessage('Each date must be a valid date'),
+  body('reason').optional({ nullable: true }).trim().isLength({ max: 500 }).withMessage('Reason must be 500 characters or fewer')
+];
+
+// Longest date range the occurrence endpoints will generate
+const MAX_OCCURRENCE_RANGE_DAYS = 120;
+
+// Helper function to resolve ?from=&to= into a bounded date range (defaults to the next 14 days)
+const getOccurrenceRange = (from, to) => {
+  const start = from ? new Date(`${from}T00:00:00Z`) : new Date(`${new Date().toISOString().split('T')[0]}T00:00:00Z`);
+  const end = to ? new Date(`${to}T00:00:00Z`) : new Date(start.getTime() + 14 * 24 * 60 * 60 * 1000);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return null;
+  if ((end - start) / (1000 * 60 * 60 * 24) > MAX_OCCURRENCE_RANGE_DAYS) return null;
+
+  return {
+    from: start.toISOString().split('T')[0],
+    to: end.toISOString().split('T')[0]
+  };
+};
+
+// Helper function to send the error for an instructor that can't be assigned to a class
+const sendInstructorError = (res, error) => res.status(400).json({
+  error: 'Invalid instructor',
+  message: error === 'inactive'
+    ? 'This instructor has been deactivated. Please choose another instructor.'
+    : 'The selected instructor does not exist'
+});
+
+// Helper function to send the error for a room that can't be used for a class
+const sendRoomError = (res, error, room = null) => res.status(400).json({
+  error: 'Invalid room',
+  message: error === 'over_capacity'
+    ? `${room.name} holds ${room.capacity} people. Lower the class capacity or choose a bigger room.`
+    : error === 'inactive'
+      ? 'This room has been closed. Please choose another room.'
+      : 'The selected room does not exist'
+});
+
+// Helper function to send the error for a class type that can't be used for a class
+const sendClassTypeError = (res, error) => res.status(400).json({
+  error: 'Invalid class type',
+  message: error === 'inactive'
+    ? 'This class type has been retired. Please choose another type.'
+    : 'The selected class type does not exist'
+});
+
+// Room, location and class type details shown alongside each class
+const CLASS_DETAIL_COLUMNS = `r.name as room_name, r.capacity as room_capacity, r.location_id, l.name as location_name,
+             t.name as class_type_name, t.color as class_type_color, t.icon as class_type_icon`;
+const CLASS_DETAIL_JOINS = `
+      LEFT JOIN rooms r ON c.room_id = r.id
+      LEFT JOIN locations l ON r.location_id = l.id
+      LEFT JOIN class_types t ON c.class_type_id = t.id`;
+
+// Helper function to convert DECIMAL columns into numbers for the client
+const formatClass = (classData) => ({
+  ...classData,
+  drop_in_price: classData.drop_in_price === null ? null : parseFloat(classData.drop_in_price)
+});
+
 // Helper function to check if class is available for booking
 const isClassAvailableForBooking = (classData) => {
   const today = new Date().toISOString().split('T')[0];
@@ -34,11 +121,11 @@ const isClassAvailableForBooking = (classData) => {
 router.get('/', authenticateToken, async (req, res) => {
   try {
     const result = await query(`
-      SELECT c.*, 
+      SELECT c.*, ${CLASS_DETAIL_COLUMNS},
              COUNT(b.id) FILTER (WHERE b.status = 'confirmed') as current_bookings
       FROM classes c
-      LEFT JOIN bookings b ON c.id = b.class_id 
-      GROUP BY c.id
+      LEFT JOIN bookings b ON c.id = b.class_id ${CLASS_DETAIL_JOINS}
+      GROUP BY c.id, r.id, l.id, t.id
       ORDER BY c.name, c.time
     `);
 
@@ -48,7 +135,7 @@ router.get('/', authenticateToken, async (req, res) => {
       classes = classes.filter(isClassAvailableForBooking);
     }
 
-    res.json({ classes });
+    res.json({ classes: classes.map(formatClass) });
 
   } catch (error) {
     console.error('Get classes error:', error);
@@ -63,16 +150,16 @@ router.get('/', authenticateToken, async (req, res) => {
 router.get('/admin/all', authenticateToken, requireAdmin, async (req, res) => {
   try {
     const result = await query(`
-      SELECT c.*, 
+      SELECT c.*, ${CLASS_DETAIL_COLUMNS},
              COUNT(b.id) FILTER (WHERE b.status = 'confirmed') as current_bookings,
              COUNT(DISTINCT b.user_id) FILTER (WHERE b.status = 'confirmed') as unique_users
       FROM classes c
-      LEFT JOIN bookings b ON c.id = b.class_id 
-      GROUP BY c.id
+      LEFT JOIN bookings b ON c.id = b.class_id ${CLASS_DETAIL_JOINS}
+      GROUP BY c.id, r.id, l.id, t.id
       ORDER BY c.status, c.name, c.time
     `);
 
-    res.json({ classes: result.rows });
+    res.json({ classes: result.rows.map(formatClass) });
 
   } catch (error) {
     console.error('Get admin classes error:', error);
@@ -83,18 +170,64 @@ router.get('/admin/all', authenticateToken, requireAdmin, async (req, res) => {
   }
 });
 
+// Get classes that double-book a room or an instructor in their weekly schedule (admin only)
+router.get('/admin/conflicts', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    res.json({ conflicts: await findScheduleConflicts() });
+
+  } catch (error) {
+    console.error('Get schedule conflicts error:', error);
+    res.status(500).json({
+      error: 'Failed to get conflicts',
+      message: 'Unable to check the schedule for conflicts'
+    });
+  }
+});
+
+// Get class occurrences across all classes for a date range
+router.get('/occurrences', authenticateToken, async (req, res) => {
+  try {
+    const range = getOccurrenceRange(req.query.from, req.query.to);
+
+    if (!range) {
+      return res.status(400).json({
+        error: 'Invalid date range',
+        message: `Please provide a valid date range of up to ${MAX_OCCURRENCE_RANGE_DAYS} days`
+      });
+    }
+
+    const result = await query('SELECT * FROM classes ORDER BY time, name');
+
+    let classes = result.rows;
+    if (req.user.role !== 'admin') {
+      classes = classes.filter(isClassAvailableForBooking);
+    }
+
+    const occurrences = await listOccurrences(classes, range.from, range.to);
+
+    res.json({ occurrences });
+
+  } catch (error) {
+    console.error('Get occurrences error:', error);
+    res.status(500).json({
+      error: 'Failed to get occurrences',
+      message: 'Unable to retrieve the class schedule'
+    });
+  }
+});
+
 // Get single class by ID
 router.get('/:id', authenticateToken, async (req, res) => {
   try {
     const classId = parseInt(req.params.id);
     
     const result = await query(`
-      SELECT c.*, 
+      SELECT c.*, ${CLASS_DETAIL_COLUMNS},
              COUNT(b.id) FILTER (WHERE b.status = 'confirmed') as current_bookings
       FROM classes c
-      LEFT JOIN bookings b ON c.id = b.class_id 
+      LEFT JOIN bookings b ON c.id = b.class_id ${CLASS_DETAIL_JOINS}
       WHERE c.id = $1
-      GROUP BY c.id
+      GROUP BY c.id, r.id, l.id, t.id
     `, [classId]);
 
     if (result.rows.length === 0) {
@@ -114,7 +247,7 @@ router.get('/:id', authenticateToken, async (req, res) => {
       });
     }
 
-    res.json({ class: classData });
+    res.json({ class: formatClass(classData) });
 
   } catch (error) {
     console.error('Get class error:', error);
@@ -141,10 +274,13 @@ router.post('/', authenticateToken, requireAdmin, validateClass, async (req, res
       name,
       time,
       duration,
-      instructor,
+      instructor_id,
+      room_id,
+      class_type_id,
       max_capacity,
+      concession_cost = 1,
+      drop_in_price,
       description,
-      category,
       days,
       status = 'published',
       publish_date,
@@ -152,17 +288,36 @@ router.post('/', authenticateToken, requireAdmin, validateClass, async (req, res
       end_date
     } = req.body;
 
+    const { instructor, error } = await resolveInstructor(instructor_id);
+    if (error) return sendInstructorError(res, error);
+
+    let room = null;
+    if (room_id) {
+      const resolved = await resolveRoom(room_id);
+      if (resolved.error) return sendRoomError(res, resolved.error);
+      room = resolved.room;
+      if (parseInt(max_capacity) > room.capacity) return sendRoomError(res, 'over_capacity', room);
+    }
+
+    if (class_type_id) {
+      const { error: classTypeError } = await resolveClassType(class_type_id);
+      if (classTypeError) return sendClassTypeError(res, classTypeError);
+    }
+
+    // The time-of-day category always follows the class's start time
     const result = await query(`
-      INSERT INTO classes (name, time, duration, instructor, max_capacity, description, category, days, status, publish_date, start_date, end_date)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      INSERT INTO classes (name, time, duration, instructor, instructor_id, room_id, class_type_id, max_capacity, concession_cost, drop_in_price, description, category, days, status, publish_date, start_date, end_date)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING *
-    `, [name, time, duration, instructor, max_capacity, description, category, days, status, publish_date, start_date, end_date]);
+    `, [name, time, duration, instructor.name, instructor.id, room?.id || null, class_type_id || null, max_capacity, concession_cost, drop_in_price || null, description, getTimeOfDay(time), days, status, publish_date, start_date, end_date]);
 
-    const newClass = result.rows[0];
+    const newClass = formatClass(result.rows[0]);
 
+    // Double bookings are allowed (e.g. a shared room during a changeover) but flagged to the admin
     res.status(201).json({
       message: 'Class created successfully',
-      class: newClass
+      class: newClass,
+      conflicts: await findScheduleConflicts(newClass.id)
     });
 
   } catch (error) {
@@ -191,10 +346,13 @@ router.put('/:id', authenticateToken, requireAdmin, validateClass, async (req, r
       name,
       time,
       duration,
-      instructor,
+      instructor_id,
+      room_id,
+      class_type_id,
       max_capacity,
+      concession_cost = 1,
+      drop_in_price,
       description,
-      category,
       days,
       status,
       publish_date,
@@ -202,14 +360,41 @@ router.put('/:id', authenticateToken, requireAdmin, validateClass, async (req, r
       end_date
     } = req.body;
 
+    // A class can keep an instructor, room or class type that has since been deactivated, but can't be moved to one
+    const currentResult = await query('SELECT instructor_id, room_id, class_type_id FROM classes WHERE id = $1', [classId]);
+    const { instructor, error } = await resolveInstructor(instructor_id);
+    const isKeepingInstructor = currentResult.rows[0]?.instructor_id === instructor?.id;
+    if (error && !(error === 'inactive' && isKeepingInstructor)) {
+      return sendInstructorError(res, error);
+    }
+
+    let room = null;
+    if (room_id) {
+      const resolved = await resolveRoom(room_id);
+      const isKeepingRoom = currentResult.rows[0]?.room_id === resolved.room?.id;
+      if (resolved.error && !(resolved.error === 'inactive' && isKeepingRoom)) {
+        return sendRoomError(res, resolved.error);
+      }
+      room = resolved.room;
+      if (parseInt(max_capacity) > room.capacity) return sendRoomError(res, 'over_capacity', room);
+    }
+
+    if (class_type_id) {
+      const { classType, error: classTypeError } = await resolveClassType(class_type_id);
+      const isKeepingClassType = currentResult.rows[0]?.class_type_id === classType?.id;
+      if (classTypeError && !(classTypeError === 'inactive' && isKeepingClassType)) {
+        return sendClassTypeError(res, classTypeError);
+      }
+    }
+
     const result = await query(`
       UPDATE classes 
-      SET name = $1, time = $2, duration = $3, instructor = $4, max_capacity = $5, 
-          description = $6, category = $7, days = $8, status = $9, 
-          publish_date = $10, start_date = $11, end_date = $12
-      WHERE id = $13
+      SET name = $1, time = $2, duration = $3, instructor = $4, instructor_id = $5, room_id = $6, class_type_id = $7, max_capacity = $8, 
+          concession_cost = $9, drop_in_price = $10, description = $11, category = $12, days = $13, status = $14, 
+          publish_date = $15, start_date = $16, end_date = $17
+      WHERE id = $18
       RETURNING *
-    `, [name, time, duration, instructor, max_capacity, description, category, days, status, publish_date, start_date, end_date, classId]);
+    `, [name, time, duration, instructor.name, instructor.id, room?.id || null, class_type_id || null, max_capacity, concession_cost, drop_in_price || null, description, getTimeOfDay(time), days, status, publish_date, start_date, end_date, classId]);
 
     if (result.rows.length === 0) {
       return res.status(404).json({
@@ -218,11 +403,12 @@ router.put('/:id', authenticateToken, requireAdmin, validateClass, async (req, r
       });
     }
 
-    const updatedClass = result.rows[0];
+    const updatedClass = formatClass(result.rows[0]);
 
     res.json({
       message: 'Class updated successfully',
-      class: updatedClass
+      class: updatedClass,
+      conflicts: await findScheduleConflicts(updatedClass.id)
     });
 
   } catch (error) {
@@ -279,6 +465,420 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
   }
 });
 
+// Get occurrences of a single class with booking counts (admin only)
+router.get('/:id/occurrences', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const classId = parseInt(req.params.id);
+    const range = getOccurrenceRange(req.query.from, req.query.to);
+
+    if (!range) {
+      return res.status(400).json({
+        error: 'Invalid date range',
+        message: `Please provide a valid date range of up to ${MAX_OCCURRENCE_RANGE_DAYS} days`
+      });
+    }
+
+    const classResult = await query('SELECT * FROM classes WHERE id = $1', [classId]);
+
+    if (classResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The requested class does not exist'
+      });
+    }
+
+    const occurrences = await listOccurrences(classResult.rows, range.from, range.to);
+
+    const countsResult = await query(`
+      SELECT TO_CHAR(booking_date, 'YYYY-MM-DD') as booking_date, COUNT(*) as booked_count
+      FROM bookings
+      WHERE class_id = $1 AND booking_date BETWEEN $2 AND $3 AND status IN ('confirmed', 'completed', 'no-show')
+      GROUP BY booking_date
+    `, [classId, range.from, range.to]);
+
+    const counts = new Map(countsResult.rows.map(r => [r.booking_date, parseInt(r.booked_count)]));
+
+    res.json({
+      occurrences: occurrences.map(o => ({ ...o, booked_count: counts.get(o.occurrence_date) || 0 }))
+    });
+
+  } catch (error) {
+    console.error('Get class occurrences error:', error);
+    res.status(500).json({
+      error: 'Failed to get occurrences',
+      message: 'Unable to retrieve the class schedule'
+    });
+  }
+});
+
+// Override time or capacity for a single date (admin only). Instructor changes go through substitutions.
+router.put('/:id/occurrences/:date', authenticateToken, requireAdmin, validateOccurrenceOverride, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const classId = parseInt(req.params.id);
+    const { date } = req.params;
+    const time = req.body.time || null;
+    const maxCapacity = req.body.max_capacity ? parseInt(req.body.max_capacity) : null;
+
+    const occurrence = await getOccurrence(classId, date);
+
+    if (!occurrence) {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The requested class does not exist'
+      });
+    }
+
+    if (!occurrence.is_scheduled) {
+      return res.status(400).json({
+        error: 'Class not scheduled',
+        message: 'This class does not run on the selected date'
+      });
+    }
+
+    if (maxCapacity) {
+      const countResult = await query(`
+        SELECT COUNT(*) as count FROM bookings
+        WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
+      `, [classId, date]);
+
+      const bookedCount = parseInt(countResult.rows[0].count);
+      if (maxCapacity < bookedCount) {
+        return res.status(400).json({
+          error: 'Capacity too low',
+          message: `${bookedCount} member(s) are already booked for this date`
+        });
+      }
+
+      const roomResult = await query(
+        'SELECT r.name, r.capacity FROM classes c JOIN rooms r ON c.room_id = r.id WHERE c.id = $1',
+        [classId]
+      );
+      const room = roomResult.rows[0];
+      if (room && maxCapacity > room.capacity) return sendRoomError(res, 'over_capacity', room);
+    }
+
+    await query(`
+      INSERT INTO class_occurrences (class_id, occurrence_date, time, max_capacity)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (class_id, occurrence_date) DO UPDATE
+        SET time = EXCLUDED.time, max_capacity = EXCLUDED.max_capacity
+    `, [classId, date, time, maxCapacity]);
+
+    res.json({
+      message: 'Class session updated successfully',
+      occurrence: await getOccurrence(classId, date)
+    });
+
+  } catch (error) {
+    console.error('Update occurrence error:', error);
+    res.status(500).json({
+      error: 'Failed to update class session',
+      message: 'Unable to update class session. Please try again.'
+    });
+  }
+});
+
+// Cancel a single date and refund everyone booked on it (admin only)
+router.patch('/:id/occurrences/:date/cancel', authenticateToken, requireAdmin, [
+  ...validateOccurrenceDate,
+  body('reason').optional().trim()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const classId = parseInt(req.params.id);
+    const { date } = req.params;
+    const reason = req.body.reason || null;
+
+    // The class row is the lock bookings take, so nobody can book the date while it's being cancelled (the
+    // occurrence row itself may not exist yet). Members are emailed only once the cancellation has committed.
+    const outcome = await withTransaction(async (tx) => {
+      const classResult = await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [classId]);
+      if (classResult.rows.length === 0) return { error: 'not_found' };
+
+      const occurrence = await getOccurrence(classId, date, tx);
+      if (!occurrence.is_scheduled) return { error: 'not_scheduled' };
+      if (occurrence.is_cancelled) return { error: 'already_cancelled' };
+
+      await tx(`
+        INSERT INTO class_occurrences (class_id, occurrence_date, is_cancelled, cancellation_reason)
+        VALUES ($1, $2, true, $3)
+        ON CONFLICT (class_id, occurrence_date) DO UPDATE
+          SET is_cancelled = true, cancellation_reason = EXCLUDED.cancellation_reason
+      `, [classId, date, reason]);
+
+      // Cancel every confirmed booking for the date - members are never penalised for a gym cancellation
+      const cancelledResult = await tx(`
+        UPDATE bookings
+        SET status = 'cancelled', cancellation_time = CURRENT_TIMESTAMP, is_late_cancellation = false
+        WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
+        RETURNING *
+      `, [classId, date]);
+
+      const refundedBookings = cancelledResult.rows.filter(b => b.used_concession);
+      for (const booking of refundedBookings) {
+        await adjustConcessions({
+          userId: getChargedUserId(booking),
+          change: booking.concessions_charged,
+          reason: 'refund',
+          actorId: req.user.id,
+          bookingId: booking.id,
+          note: reason ? `Class cancelled by the gym: ${reason}` : 'Class cancelled by the gym'
+        }, tx);
+      }
+
+      // Drop-in members who haven't paid yet no longer owe anything
+      await cancelDropInPayments(cancelledResult.rows.map(b => b.id), tx);
+
+      await tx(`
+        UPDATE waitlist_entries SET status = 'cancelled'
+        WHERE class_id = $1 AND booking_date = $2 AND status = 'waiting'
+      `, [classId, date]);
+
+      return {
+        cancelledBookings: cancelledResult.rows,
+        refundedConcessions: refundedBookings.reduce((total, b) => total + b.concessions_charged, 0)
+      };
+    });
+
+    if (outcome.error === 'not_found') {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The requested class does not exist'
+      });
+    }
+
+    if (outcome.error === 'not_scheduled') {
+      return res.status(400).json({
+        error: 'Class not scheduled',
+        message: 'This class does not run on the selected date'
+      });
+    }
+
+    if (outcome.error === 'already_cancelled') {
+      return res.status(400).json({
+        error: 'Already cancelled',
+        message: 'This class session has already been cancelled'
+      });
+    }
+
+    const { cancelledBookings, refundedConcessions } = outcome;
+    for (const booking of cancelledBookings) {
+      await notifyClassCancelled(booking, reason);
+    }
+
+    res.json({
+      message: `Class session cancelled. ${cancelledBookings.length} booking(s) cancelled and ${refundedConcessions} concession(s) refunded.`,
+      occurrence: await getOccurrence(classId, date),
+      cancelledBookings: cancelledBookings.length,
+      refundedConcessions
+    });
+
+  } catch (error) {
+    console.error('Cancel occurrence error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel class session',
+      message: 'Unable to cancel class session. Please try again.'
+    });
+  }
+});
+
+// Reinstate a cancelled date (admin only) - previously cancelled bookings stay cancelled
+router.patch('/:id/occurrences/:date/restore', authenticateToken, requireAdmin, validateOccurrenceDate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const classId = parseInt(req.params.id);
+    const { date } = req.params;
+
+    const result = await query(`
+      UPDATE class_occurrences
+      SET is_cancelled = false, cancellation_reason = NULL
+      WHERE class_id = $1 AND occurrence_date = $2 AND is_cancelled = true
+      RETURNING id
+    `, [classId, date]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Session not cancelled',
+        message: 'This class session is not cancelled'
+      });
+    }
+
+    res.json({
+      message: 'Class session reinstated. Members will need to book again.',
+      occurrence: await getOccurrence(classId, date)
+    });
+
+  } catch (error) {
+    console.error('Restore occurrence error:', error);
+    res.status(500).json({
+      error: 'Failed to reinstate class session',
+      message: 'Unable to reinstate class session. Please try again.'
+    });
+  }
+});
+
+// Assign a substitute instructor to one or more dates of a class and notify booked members (admin only)
+router.post('/:id/substitutions', authenticateToken, requireAdmin, validateSubstitution, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const classId = parseInt(req.params.id);
+    const substituteId = parseInt(req.body.substitute_instructor_id);
+    const reason = req.body.reason || null;
+    const dates = [...new Set(req.body.dates.map(toDateString))].sort();
+    const today = toDateString(new Date());
+
+    const outcome = await withTransaction(async (tx) => {
+      const classResult = await tx('SELECT * FROM classes WHERE id = $1 FOR UPDATE', [classId]);
+      if (classResult.rows.length === 0) return { error: 'not_found' };
+
+      const classData = classResult.rows[0];
+
+      const { instructor: substitute, error } = await resolveInstructor(substituteId, tx);
+      if (error) return { error: 'invalid_instructor', instructorError: error };
+      if (substitute.id === classData.instructor_id) return { error: 'same_instructor' };
+
+      // Check every date before changing any, so a bad date doesn't leave the batch half applied
+      for (const date of dates) {
+        if (date < today) return { error: 'past_date', date };
+        const occurrence = await getOccurrence(classId, date, tx);
+        if (!occurrence.is_scheduled) return { error: 'not_scheduled', date };
+        if (occurrence.is_cancelled) return { error: 'cancelled', date };
+      }
+
+      let notifiedCount = 0;
+      for (const date of dates) {
+        notifiedCount += await assignSubstitute(classData, date, substitute, reason, req.user.id, tx);
+      }
+
+      return { substitute, notifiedCount };
+    });
+
+    if (outcome.error === 'not_found') {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The requested class does not exist'
+      });
+    }
+
+    if (outcome.error === 'invalid_instructor') return sendInstructorError(res, outcome.instructorError);
+
+    if (outcome.error === 'same_instructor') {
+      return res.status(400).json({
+        error: 'Invalid substitute',
+        message: 'The substitute must be a different instructor from the one who normally teaches this class'
+      });
+    }
+
+    if (outcome.error === 'past_date') {
+      return res.status(400).json({
+        error: 'Session already passed',
+        message: `Substitutes can't be assigned to past sessions (${outcome.date})`
+      });
+    }
+
+    if (outcome.error === 'not_scheduled') {
+      return res.status(400).json({
+        error: 'Class not scheduled',
+        message: `This class does not run on ${outcome.date}`
+      });
+    }
+
+    if (outcome.error === 'cancelled') {
+      return res.status(400).json({
+        error: 'Session cancelled',
+        message: `The session on ${outcome.date} has been cancelled`
+      });
+    }
+
+    res.status(201).json({
+      message: `${outcome.substitute.name} will cover ${dates.length} session(s). ${outcome.notifiedCount} booked member(s) notified.`,
+      dates,
+      notified_count: outcome.notifiedCount
+    });
+
+  } catch (error) {
+    console.error('Assign substitute error:', error);
+    res.status(500).json({
+      error: 'Failed to assign substitute',
+      message: 'Unable to assign the substitute instructor. Please try again.'
+    });
+  }
+});
+
+// Remove the substitute from a date so the regular instructor teaches it again (admin only)
+router.delete('/:id/substitutions/:date', authenticateToken, requireAdmin, validateOccurrenceDate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const classId = parseInt(req.params.id);
+    const { date } = req.params;
+
+    const removed = await withTransaction(async (tx) => {
+      await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [classId]);
+      return removeSubstitute(classId, date, tx);
+    });
+
+    if (!removed) {
+      return res.status(404).json({
+        error: 'Substitute not found',
+        message: 'No substitute is assigned to this session'
+      });
+    }
+
+    res.json({
+      message: 'Substitute removed. The regular instructor is back on this session.',
+      occurrence: await getOccurrence(classId, date)
+    });
+
+  } catch (error) {
+    console.error('Remove substitute error:', error);
+    res.status(500).json({
+      error: 'Failed to remove substitute',
+      message: 'Unable to remove the substitute instructor. Please try again.'
+    });
+  }
+});
+
 // Get bookings for a specific class and date
 router.get('/:id/bookings', authenticateToken, async (req, res) => {
   try {
@@ -300,7 +900,17 @@ router.get('/:id/bookings', authenticateToken, async (req, res) => {
       ORDER BY b.booking_time
     `, [classId, date]);
 
-    res.json({ bookings: result.rows });
+    // Include the effective session details so capacity reflects any override for the date
+    const occurrence = await getOccurrence(classId, date);
+
+    if (!occurrence) {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The requested class does not exist'
+      });
+    }
+
+    res.json({ bookings: result.rows, occurrence });
 
   } catch (error) {
     console.error('Get class bookings error:', error);
@@ -311,4 +921,54 @@ router.get('/:id/bookings', authenticateToken, async (req, res) => {
   }
 });
 
+// Get the attendance roster for a class session (admins, or the class's instructor)
+router.get('/:id/roster', authenticateToken, requireStaff, async (req, res) => {
+  try {
+    const classId = parseInt(req.params.id);
+    const { date } = req.query;
+
+    if (!date) {
+      return res.status(400).json({
+        error: 'Date required',
+        message: 'Please provide a date parameter'
+      });
+    }
+
+    if (!(await canTeachClass(req.user, classId, date))) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only view rosters for classes you teach'
+      });
+    }
+
+    const occurrence = await getOccurrence(classId, date);
+
+    if (!occurrence) {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The requested class does not exist'
+      });
+    }
+
+    const result = await query(`
+      SELECT b.id, b.user_id, b.status, b.booking_time, b.no_show_penalty, b.attendance_marked_at,
+             u.name as user_name, u.email as user_email, m.name as marked_by_name
+      FROM bookings b
+      JOIN users u ON b.user_id = u.id
+      LEFT JOIN users m ON b.attendance_marked_by = m.id
+      WHERE b.class_id = $1 AND b.booking_date = $2 AND b.status IN ('confirmed', 'completed', 'no-show')
+      ORDER BY u.name
+    `, [classId, date]);
+
+    res.json({ roster: result.rows, occurrence });
+
+  } catch (error) {
+    console.error('Get class roster error:', error);
+    res.status(500).json({
+      error: 'Failed to get roster',
+      message: 'Unable to retrieve the class roster'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
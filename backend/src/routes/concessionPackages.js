@@ -0,0 +1,180 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { query } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validatePackage = [
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Package name must be 2-100 characters'),
+  body('concessions').isInt({ min: 1, max: 100 }).withMessage('Concessions must be between 1 and 100'),
+  body('price').isFloat({ min: 0.01, max: 10000 }).withMessage('Price must be between $0.01 and $10000'),
+  body('validity_months').optional({ nullable: true }).isInt({ min: 1, max: 36 }).withMessage('Validity must be between 1 and 36 months'),
+  body('is_active').optional().isBoolean().withMessage('Active must be true or false')
+];
+
+// Helper function to convert DECIMAL columns into numbers for the client
+const formatPackage = (concessionPackage) => ({
+  ...concessionPackage,
+  price: parseFloat(concessionPackage.price),
+  purchase_count: parseInt(concessionPackage.purchase_count) || 0
+});
+
+// Get concession packages. Members only see packages they can still buy.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const isAdmin = req.user.role === 'admin';
+
+    const result = await query(`
+      SELECT cp.*, COUNT(p.id) FILTER (WHERE p.status = 'confirmed') as purchase_count
+      FROM concession_packages cp
+      LEFT JOIN payments p ON p.package_id = cp.id
+      ${isAdmin ? '' : 'WHERE cp.is_active = true'}
+      GROUP BY cp.id
+      ORDER BY cp.is_active DESC, cp.concessions
+    `);
+
+    res.json({ packages: result.rows.map(formatPackage) });
+
+  } catch (error) {
+    console.error('Get concession packages error:', error);
+    res.status(500).json({
+      error: 'Failed to get concession packages',
+      message: 'Unable to retrieve concession packages'
+    });
+  }
+});
+
+// Create a concession package (admin only)
+router.post('/', authenticateToken, requireAdmin, validatePackage, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { name, concessions, price, validity_months = null } = req.body;
+
+    const result = await query(`
+      INSERT INTO concession_packages (name, concessions, price, validity_months)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (name) DO NOTHING
+      RETURNING *
+    `, [name, concessions, price, validity_months]);
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({
+        error: 'Package already exists',
+        message: 'A concession package with this name already exists'
+      });
+    }
+
+    res.status(201).json({
+      message: 'Concession package created successfully',
+      package: formatPackage(result.rows[0])
+    });
+
+  } catch (error) {
+    console.error('Create concession package error:', error);
+    res.status(500).json({
+      error: 'Failed to create concession package',
+      message: 'Unable to create concession package. Please try again.'
+    });
+  }
+});
+
+// Update a concession package (admin only). Pending purchases keep the price and validity they were quoted.
+router.put('/:id', authenticateToken, requireAdmin, validatePackage, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const packageId = parseInt(req.params.id);
+    const { name, concessions, price, validity_months = null, is_active = true } = req.body;
+
+    const duplicateResult = await query('SELECT id FROM concession_packages WHERE name = $1 AND id <> $2', [name, packageId]);
+    if (duplicateResult.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Package already exists',
+        message: 'A concession package with this name already exists'
+      });
+    }
+
+    const result = await query(`
+      UPDATE concession_packages SET name = $1, concessions = $2, price = $3, validity_months = $4, is_active = $5
+      WHERE id = $6
+      RETURNING *
+    `, [name, concessions, price, validity_months, is_active, packageId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Package not found',
+        message: 'The concession package you are trying to update does not exist'
+      });
+    }
+
+    res.json({
+      message: 'Concession package updated successfully',
+      package: formatPackage(result.rows[0])
+    });
+
+  } catch (error) {
+    console.error('Update concession package error:', error);
+    res.status(500).json({
+      error: 'Failed to update concession package',
+      message: 'Unable to update concession package. Please try again.'
+    });
+  }
+});
+
+// Retire a concession package (admin only). Purchases already made are kept for the payment history.
+router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const packageId = parseInt(req.params.id);
+
+    const result = await query(
+      'UPDATE concession_packages SET is_active = false WHERE id = $1 RETURNING *',
+      [packageId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Package not found',
+        message: 'The concession package you are trying to retire does not exist'
+      });
+    }
+
+    const pendingResult = await query(
+      "SELECT COUNT(*) as count FROM payments WHERE package_id = $1 AND status = 'pending'",
+      [packageId]
+    );
+    const pendingCount = parseInt(pendingResult.rows[0].count);
+
+    res.json({
+      message: pendingCount > 0
+        ? `Package retired. ${pendingCount} pending purchase(s) can still be confirmed.`
+        : 'Package retired',
+      pending_count: pendingCount
+    });
+
+  } catch (error) {
+    console.error('Retire concession package error:', error);
+    res.status(500).json({
+      error: 'Failed to retire concession package',
+      message: 'Unable to retire concession package. Please try again.'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,270 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { query } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { getHousehold, getHouseholdForUser } from '../utils/households.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validateHouseholdName = [
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Household name must be 2-100 characters')
+];
+
+const validateHousehold = [
+  ...validateHouseholdName,
+  body('payer_id').isInt({ min: 1 }).withMessage('Valid payer ID is required')
+];
+
+const validateMember = [
+  body('user_id').isInt({ min: 1 }).withMessage('Valid member ID is required')
+];
+
+// Helper function to check a member can join a household: an active member account that isn't already a
+// payer or dependant. Returns the member, or the reason they can't join.
+const checkCanJoin = async (userId) => {
+  const userResult = await query('SELECT id, name, role, concessions, is_active FROM users WHERE id = $1', [userId]);
+  const user = userResult.rows[0];
+
+  if (!user) return { user: null, error: 'not_found' };
+  if (user.role !== 'user' || !user.is_active) return { user, error: 'not_member' };
+  if (await getHouseholdForUser(userId)) return { user, error: 'already_linked' };
+
+  return { user, error: null };
+};
+
+const JOIN_ERRORS = {
+  not_found: { status: 404, error: 'Member not found', message: 'The selected member does not exist' },
+  not_member: { status: 400, error: 'Invalid member', message: 'Only active member accounts can be part of a household' },
+  already_linked: { status: 409, error: 'Already in a household', message: 'This member is already part of a household' }
+};
+
+// Get every household with its payer and dependants (admin only)
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query('SELECT id FROM households ORDER BY name');
+    const households = await Promise.all(result.rows.map(row => getHousehold(row.id)));
+
+    res.json({ households });
+
+  } catch (error) {
+    console.error('Get households error:', error);
+    res.status(500).json({
+      error: 'Failed to get households',
+      message: 'Unable to retrieve households'
+    });
+  }
+});
+
+// Get a member's household (admin only)
+router.get('/user/:userId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const household = await getHouseholdForUser(parseInt(req.params.userId));
+
+    res.json({ household });
+
+  } catch (error) {
+    console.error('Get member household error:', error);
+    res.status(500).json({
+      error: 'Failed to get household',
+      message: 'Unable to retrieve the member\'s household'
+    });
+  }
+});
+
+// Create a household with a member as its payer (admin only)
+router.post('/', authenticateToken, requireAdmin, validateHousehold, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { name, payer_id } = req.body;
+
+    const { error } = await checkCanJoin(payer_id);
+    if (error) {
+      const { status, ...body } = JOIN_ERRORS[error];
+      return res.status(status).json(body);
+    }
+
+    const result = await query(
+      'INSERT INTO households (name, payer_id, created_by) VALUES ($1, $2, $3) RETURNING id',
+      [name, payer_id, req.user.id]
+    );
+
+    res.status(201).json({
+      message: 'Household created successfully',
+      household: await getHousehold(result.rows[0].id)
+    });
+
+  } catch (error) {
+    if (error.code === '23505') {
+      const { status, ...body } = JOIN_ERRORS.already_linked;
+      return res.status(status).json(body);
+    }
+    console.error('Create household error:', error);
+    res.status(500).json({
+      error: 'Failed to create household',
+      message: 'Unable to create household. Please try again.'
+    });
+  }
+});
+
+// Rename a household (admin only)
+router.put('/:id', authenticateToken, requireAdmin, validateHouseholdName, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const householdId = parseInt(req.params.id);
+
+    const result = await query('UPDATE households SET name = $1 WHERE id = $2 RETURNING id', [req.body.name, householdId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Household not found',
+        message: 'The household you are trying to update does not exist'
+      });
+    }
+
+    res.json({
+      message: 'Household updated successfully',
+      household: await getHousehold(householdId)
+    });
+
+  } catch (error) {
+    console.error('Update household error:', error);
+    res.status(500).json({
+      error: 'Failed to update household',
+      message: 'Unable to update household. Please try again.'
+    });
+  }
+});
+
+// Break up a household (admin only). Dependants book against their own balance again; bookings already
+// charged to the payer are still refunded to the payer.
+router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query('DELETE FROM households WHERE id = $1 RETURNING *', [parseInt(req.params.id)]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Household not found',
+        message: 'The household you are trying to remove does not exist'
+      });
+    }
+
+    res.json({ message: 'Household removed successfully' });
+
+  } catch (error) {
+    console.error('Delete household error:', error);
+    res.status(500).json({
+      error: 'Failed to remove household',
+      message: 'Unable to remove household. Please try again.'
+    });
+  }
+});
+
+// Link a dependant to a household (admin only). Their own balance must be zero first, since from now on they
+// book against the payer's balance and anything left on their own would be stranded.
+router.post('/:id/members', authenticateToken, requireAdmin, validateMember, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const householdId = parseInt(req.params.id);
+    const { user_id } = req.body;
+
+    const household = await getHousehold(householdId);
+    if (!household) {
+      return res.status(404).json({
+        error: 'Household not found',
+        message: 'The household you are adding to does not exist'
+      });
+    }
+
+    const { user, error } = await checkCanJoin(user_id);
+    if (error) {
+      const { status, ...body } = JOIN_ERRORS[error];
+      return res.status(status).json(body);
+    }
+
+    if (user.concessions !== 0) {
+      return res.status(400).json({
+        error: 'Balance not settled',
+        message: `${user.name} has a balance of ${user.concessions} concession(s). Adjust it to zero (or move it to ${household.payer_name}) before linking them.`
+      });
+    }
+
+    await query(
+      'INSERT INTO household_members (household_id, user_id, added_by) VALUES ($1, $2, $3)',
+      [householdId, user_id, req.user.id]
+    );
+
+    res.status(201).json({
+      message: `${user.name} now books against ${household.payer_name}'s balance`,
+      household: await getHousehold(householdId)
+    });
+
+  } catch (error) {
+    if (error.code === '23505') {
+      const { status, ...body } = JOIN_ERRORS.already_linked;
+      return res.status(status).json(body);
+    }
+    console.error('Add household member error:', error);
+    res.status(500).json({
+      error: 'Failed to add household member',
+      message: 'Unable to add household member. Please try again.'
+    });
+  }
+});
+
+// Unlink a dependant from a household (admin only)
+router.delete('/:id/members/:userId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const householdId = parseInt(req.params.id);
+
+    const result = await query(
+      'DELETE FROM household_members WHERE household_id = $1 AND user_id = $2 RETURNING *',
+      [householdId, parseInt(req.params.userId)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Household member not found',
+        message: 'This member is not part of the household'
+      });
+    }
+
+    res.json({
+      message: 'Household member removed successfully',
+      household: await getHousehold(householdId)
+    });
+
+  } catch (error) {
+    console.error('Remove household member error:', error);
+    res.status(500).json({
+      error: 'Failed to remove household member',
+      message: 'Unable to remove household member. Please try again.'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,420 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { body, validationResult } from 'express-validator';
+import { query, withTransaction } from '../db/connection.js';
+import { authenticateToken, requireAdmin, requireInstructor } from '../middleware/auth.js';
+import { listOccurrences, toDateString } from '../utils/occurrences.js';
+import { getInstructorForUser } from '../utils/instructors.js';
+
+const router = express.Router();
+
+// How far back the portal keeps sessions open for attendance marking, and how far ahead it looks
+const SCHEDULE_HISTORY_DAYS = 7;
+const SCHEDULE_AHEAD_DAYS = 14;
+
+// Validation middleware
+const validateInstructor = [
+  body('name').trim().isLength({ min: 2 }).withMessage('Instructor name must be at least 2 characters'),
+  body('email').optional({ nullable: true, checkFalsy: true }).isEmail().normalizeEmail().withMessage('Valid email is required'),
+  body('bio').optional({ nullable: true }).trim(),
+  body('is_active').optional().isBoolean().withMessage('Active must be true or false'),
+  body('password').optional({ nullable: true, checkFalsy: true }).isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
+];
+
+// Instructors joined with their portal login and how many classes they teach
+const INSTRUCTOR_QUERY = `
+  SELECT i.*, u.email as login_email,
+         COUNT(c.id) FILTER (WHERE c.status <> 'archived') as class_count
+  FROM instructors i
+  LEFT JOIN users u ON i.user_id = u.id
+  LEFT JOIN classes c ON c.instructor_id = i.id
+`;
+
+// Helper function to shape an instructor row for the API
+const formatInstructor = (instructor) => ({
+  id: instructor.id,
+  name: instructor.name,
+  email: instructor.email,
+  bio: instructor.bio,
+  is_active: instructor.is_active,
+  has_login: !!instructor.user_id,
+  login_email: instructor.login_email || null,
+  class_count: parseInt(instructor.class_count) || 0,
+  created_at: instructor.created_at
+});
+
+// Helper function to resolve ?from=&to= for the substitution history (defaults to the current month)
+const getHistoryRange = (from, to) => {
+  const now = new Date();
+  const start = from ? new Date(`${from}T00:00:00Z`) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = to ? new Date(`${to}T00:00:00Z`) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return null;
+
+  return { from: toDateString(start), to: toDateString(end) };
+};
+
+// Helper function to check if a login email is taken by another account
+const isEmailTaken = async (email, exceptUserId, db) => {
+  const result = await db('SELECT id FROM users WHERE email = $1 AND id IS DISTINCT FROM $2', [email, exceptUserId]);
+  return result.rows.length > 0;
+};
+
+// Get all instructors (admin only)
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query(`${INSTRUCTOR_QUERY} GROUP BY i.id, u.email ORDER BY i.is_active DESC, i.name`);
+
+    res.json({ instructors: result.rows.map(formatInstructor) });
+
+  } catch (error) {
+    console.error('Get instructors error:', error);
+    res.status(500).json({
+      error: 'Failed to get instructors',
+      message: 'Unable to retrieve instructors'
+    });
+  }
+});
+
+// Create an instructor, with a portal login when a password is given (admin only)
+router.post('/', authenticateToken, requireAdmin, validateInstructor, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { name, email, bio, password } = req.body;
+
+    if (password && !email) {
+      return res.status(400).json({
+        error: 'Email required',
+        message: 'An email address is needed to create a portal login'
+      });
+    }
+
+    const outcome = await withTransaction(async (tx) => {
+      let userId = null;
+
+      if (password) {
+        if (await isEmailTaken(email, null, tx)) return { error: 'email_taken' };
+
+        const passwordHash = await bcrypt.hash(password, 12);
+        const userResult = await tx(
+          'INSERT INTO users (name, email, password_hash, role, concessions) VALUES ($1, $2, $3, $4, $5) RETURNING id',
+          [name, email, passwordHash, 'instructor', 0]
+        );
+        userId = userResult.rows[0].id;
+      }
+
+      const result = await tx(`
+        INSERT INTO instructors (user_id, name, email, bio)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `, [userId, name, email || null, bio || null]);
+
+      return { instructor: { ...result.rows[0], login_email: userId ? email : null, class_count: 0 } };
+    });
+
+    if (outcome.error === 'email_taken') {
+      return res.status(409).json({
+        error: 'User already exists',
+        message: 'An account with this email already exists'
+      });
+    }
+
+    res.status(201).json({
+      message: 'Instructor created successfully',
+      instructor: formatInstructor(outcome.instructor)
+    });
+
+  } catch (error) {
+    console.error('Create instructor error:', error);
+    res.status(500).json({
+      error: 'Failed to create instructor',
+      message: 'Unable to create instructor. Please try again.'
+    });
+  }
+});
+
+// Update an instructor (admin only). A password creates the portal login, or resets it if one exists.
+router.put('/:id', authenticateToken, requireAdmin, validateInstructor, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const instructorId = parseInt(req.params.id);
+    const { name, email, bio, is_active = true, password } = req.body;
+
+    const outcome = await withTransaction(async (tx) => {
+      const existingResult = await tx('SELECT * FROM instructors WHERE id = $1 FOR UPDATE', [instructorId]);
+      if (existingResult.rows.length === 0) return { error: 'not_found' };
+
+      let userId = existingResult.rows[0].user_id;
+
+      if (userId || password) {
+        if (!email) return { error: 'email_required' };
+        if (await isEmailTaken(email, userId, tx)) return { error: 'email_taken' };
+      }
+
+      if (userId) {
+        await tx(
+          'UPDATE users SET name = $1, email = $2, is_active = $3 WHERE id = $4',
+          [name, email, is_active, userId]
+        );
+
+        if (password) {
+          const passwordHash = await bcrypt.hash(password, 12);
+          await tx('UPDATE users SET password_hash = $1 WHERE id = $2', [passwordHash, userId]);
+        }
+      } else if (password) {
+        const passwordHash = await bcrypt.hash(password, 12);
+        const userResult = await tx(
+          'INSERT INTO users (name, email, password_hash, role, concessions, is_active) VALUES ($1, $2, $3, $4, $5, $6) RETURNING id',
+          [name, email, passwordHash, 'instructor', 0, is_active]
+        );
+        userId = userResult.rows[0].id;
+      }
+
+      await tx(`
+        UPDATE instructors
+        SET user_id = $1, name = $2, email = $3, bio = $4, is_active = $5
+        WHERE id = $6
+      `, [userId, name, email || null, bio || null, is_active, instructorId]);
+
+      // Classes keep the instructor's name for display, so renames carry through to the schedule
+      await tx('UPDATE classes SET instructor = $1 WHERE instructor_id = $2', [name, instructorId]);
+
+      const result = await tx(`${INSTRUCTOR_QUERY} WHERE i.id = $1 GROUP BY i.id, u.email`, [instructorId]);
+      return { instructor: result.rows[0] };
+    });
+
+    if (outcome.error === 'not_found') {
+      return res.status(404).json({
+        error: 'Instructor not found',
+        message: 'The instructor you are trying to update does not exist'
+      });
+    }
+
+    if (outcome.error === 'email_required') {
+      return res.status(400).json({
+        error: 'Email required',
+        message: 'An email address is needed for an instructor with a portal login'
+      });
+    }
+
+    if (outcome.error === 'email_taken') {
+      return res.status(409).json({
+        error: 'User already exists',
+        message: 'An account with this email already exists'
+      });
+    }
+
+    res.json({
+      message: 'Instructor updated successfully',
+      instructor: formatInstructor(outcome.instructor)
+    });
+
+  } catch (error) {
+    console.error('Update instructor error:', error);
+    res.status(500).json({
+      error: 'Failed to update instructor',
+      message: 'Unable to update instructor. Please try again.'
+    });
+  }
+});
+
+// Deactivate an instructor and their portal login (admin only). Their classes keep them until reassigned.
+router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const instructorId = parseInt(req.params.id);
+
+    const result = await withTransaction(async (tx) => {
+      const instructorResult = await tx(
+        'UPDATE instructors SET is_active = false WHERE id = $1 RETURNING *',
+        [instructorId]
+      );
+
+      if (instructorResult.rows[0]?.user_id) {
+        await tx('UPDATE users SET is_active = false WHERE id = $1', [instructorResult.rows[0].user_id]);
+      }
+
+      return instructorResult;
+    });
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Instructor not found',
+        message: 'The instructor you are trying to deactivate does not exist'
+      });
+    }
+
+    const classResult = await query(
+      "SELECT COUNT(*) as count FROM classes WHERE instructor_id = $1 AND status <> 'archived'",
+      [instructorId]
+    );
+    const classCount = parseInt(classResult.rows[0].count);
+
+    res.json({
+      message: classCount > 0
+        ? `Instructor deactivated. ${classCount} class(es) still list them - choose a new instructor for each.`
+        : 'Instructor deactivated',
+      class_count: classCount
+    });
+
+  } catch (error) {
+    console.error('Deactivate instructor error:', error);
+    res.status(500).json({
+      error: 'Failed to deactivate instructor',
+      message: 'Unable to deactivate instructor. Please try again.'
+    });
+  }
+});
+
+// Get an instructor's substitutions for payroll: sessions they covered and sessions covered for them (admin only)
+router.get('/:id/substitutions', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const instructorId = parseInt(req.params.id);
+    const range = getHistoryRange(req.query.from, req.query.to);
+
+    if (!range) {
+      return res.status(400).json({
+        error: 'Invalid date range',
+        message: 'Please provide a valid date range'
+      });
+    }
+
+    const instructorResult = await query('SELECT id, name FROM instructors WHERE id = $1', [instructorId]);
+
+    if (instructorResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Instructor not found',
+        message: 'The requested instructor does not exist'
+      });
+    }
+
+    // Removed substitutions are left out; cancelled sessions are listed but weren't taught
+    const result = await query(`
+      SELECT s.id, s.class_id, TO_CHAR(s.occurrence_date, 'YYYY-MM-DD') as occurrence_date, s.reason, s.created_at,
+             c.name as class_name, COALESCE(o.time, c.time) as class_time, c.duration,
+             COALESCE(o.is_cancelled, false) as is_cancelled,
+             CASE WHEN s.substitute_instructor_id = $1 THEN 'covered' ELSE 'covered_by' END as role,
+             CASE WHEN s.substitute_instructor_id = $1 THEN orig.name ELSE sub.name END as other_instructor_name
+      FROM class_substitutions s
+      JOIN classes c ON s.class_id = c.id
+      LEFT JOIN class_occurrences o ON o.class_id = s.class_id AND o.occurrence_date = s.occurrence_date
+      LEFT JOIN instructors sub ON s.substitute_instructor_id = sub.id
+      LEFT JOIN instructors orig ON s.original_instructor_id = orig.id
+      WHERE s.status = 'active' AND (s.substitute_instructor_id = $1 OR s.original_instructor_id = $1)
+        AND s.occurrence_date BETWEEN $2 AND $3
+      ORDER BY s.occurrence_date, class_time
+    `, [instructorId, range.from, range.to]);
+
+    const taught = result.rows.filter(row => !row.is_cancelled);
+
+    res.json({
+      instructor: instructorResult.rows[0],
+      from: range.from,
+      to: range.to,
+      substitutions: result.rows,
+      summary: {
+        covered_count: taught.filter(row => row.role === 'covered').length,
+        covered_by_others_count: taught.filter(row => row.role === 'covered_by').length
+      }
+    });
+
+  } catch (error) {
+    console.error('Get substitution history error:', error);
+    res.status(500).json({
+      error: 'Failed to get substitution history',
+      message: 'Unable to retrieve substitution history'
+    });
+  }
+});
+
+// Get the signed-in instructor's sessions with live booking and attendance counts (instructor only)
+router.get('/me/schedule', authenticateToken, requireInstructor, async (req, res) => {
+  try {
+    const instructor = await getInstructorForUser(req.user.id);
+
+    if (!instructor) {
+      return res.status(404).json({
+        error: 'Instructor not found',
+        message: 'Your login is not linked to an instructor profile'
+      });
+    }
+
+    const from = new Date();
+    from.setUTCDate(from.getUTCDate() - SCHEDULE_HISTORY_DAYS);
+    const to = new Date();
+    to.setUTCDate(to.getUTCDate() + SCHEDULE_AHEAD_DAYS);
+
+    // Classes they normally teach, plus any they're covering as a substitute in the window
+    const classResult = await query(`
+      SELECT * FROM classes
+      WHERE status <> 'archived' AND (instructor_id = $1 OR id IN (
+        SELECT class_id FROM class_occurrences
+        WHERE substitute_instructor_id = $1 AND occurrence_date BETWEEN $2 AND $3
+      ))
+    `, [instructor.id, toDateString(from), toDateString(to)]);
+
+    const classesById = new Map(classResult.rows.map(c => [c.id, c]));
+
+    // Sessions another instructor is covering drop off the regular instructor's schedule
+    const occurrences = (await listOccurrences(classResult.rows, toDateString(from), toDateString(to)))
+      .filter(o => (o.substitute_instructor_id || classesById.get(o.class_id).instructor_id) === instructor.id);
+
+    const countResult = await query(`
+      SELECT class_id, booking_date,
+             COUNT(*) FILTER (WHERE status IN ('confirmed', 'completed', 'no-show')) as booked_count,
+             COUNT(*) FILTER (WHERE status = 'completed') as attended_count,
+             COUNT(*) FILTER (WHERE status = 'no-show') as no_show_count
+      FROM bookings
+      WHERE class_id = ANY($1) AND booking_date BETWEEN $2 AND $3
+      GROUP BY class_id, booking_date
+    `, [classResult.rows.map(c => c.id), toDateString(from), toDateString(to)]);
+
+    const counts = new Map(
+      countResult.rows.map(row => [`${row.class_id}:${toDateString(row.booking_date)}`, row])
+    );
+
+    const sessions = occurrences.map(occurrence => {
+      const count = counts.get(`${occurrence.class_id}:${occurrence.occurrence_date}`);
+      return {
+        ...occurrence,
+        booked_count: parseInt(count?.booked_count) || 0,
+        attended_count: parseInt(count?.attended_count) || 0,
+        no_show_count: parseInt(count?.no_show_count) || 0,
+        has_started: new Date(`${occurrence.occurrence_date}T${occurrence.time}:00`).getTime() <= Date.now()
+      };
+    });
+
+    res.json({
+      instructor: formatInstructor({
+        ...instructor,
+        login_email: req.user.email,
+        class_count: classResult.rows.filter(c => c.instructor_id === instructor.id).length
+      }),
+      sessions
+    });
+
+  } catch (error) {
+    console.error('Get instructor schedule error:', error);
+    res.status(500).json({
+      error: 'Failed to get schedule',
+      message: 'Unable to retrieve your teaching schedule'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,349 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { query } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validateLocation = [
+  body('name').trim().isLength({ min: 2 }).withMessage('Location name must be at least 2 characters'),
+  body('address').optional({ nullable: true }).trim(),
+  body('is_active').optional().isBoolean().withMessage('Active must be true or false')
+];
+
+const validateRoom = [
+  body('name').trim().isLength({ min: 1 }).withMessage('Room name is required'),
+  body('capacity').isInt({ min: 1, max: 500 }).withMessage('Capacity must be between 1 and 500'),
+  body('is_active').optional().isBoolean().withMessage('Active must be true or false')
+];
+
+// Helper function to check if a room would hold fewer people than a class already assigned to it
+const getLargestClassCapacity = async (roomId) => {
+  const result = await query(
+    "SELECT MAX(max_capacity) as max_capacity FROM classes WHERE room_id = $1 AND status <> 'archived'",
+    [roomId]
+  );
+  return parseInt(result.rows[0].max_capacity) || 0;
+};
+
+// Get locations with their rooms. Members only see open locations and rooms.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const isAdmin = req.user.role === 'admin';
+
+    const locationResult = await query(`
+      SELECT * FROM locations
+      ${isAdmin ? '' : 'WHERE is_active = true'}
+      ORDER BY name
+    `);
+
+    const roomResult = await query(`
+      SELECT r.*, COUNT(c.id) FILTER (WHERE c.status <> 'archived') as class_count
+      FROM rooms r
+      LEFT JOIN classes c ON c.room_id = r.id
+      ${isAdmin ? '' : 'WHERE r.is_active = true'}
+      GROUP BY r.id
+      ORDER BY r.name
+    `);
+
+    const locations = locationResult.rows.map(location => ({
+      ...location,
+      rooms: roomResult.rows
+        .filter(room => room.location_id === location.id)
+        .map(room => ({ ...room, class_count: parseInt(room.class_count) || 0 }))
+    }));
+
+    res.json({ locations });
+
+  } catch (error) {
+    console.error('Get locations error:', error);
+    res.status(500).json({
+      error: 'Failed to get locations',
+      message: 'Unable to retrieve locations'
+    });
+  }
+});
+
+// Create a location (admin only)
+router.post('/', authenticateToken, requireAdmin, validateLocation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { name, address } = req.body;
+
+    const result = await query(`
+      INSERT INTO locations (name, address)
+      VALUES ($1, $2)
+      ON CONFLICT (name) DO NOTHING
+      RETURNING *
+    `, [name, address || null]);
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({
+        error: 'Location already exists',
+        message: 'A location with this name already exists'
+      });
+    }
+
+    res.status(201).json({
+      message: 'Location created successfully',
+      location: { ...result.rows[0], rooms: [] }
+    });
+
+  } catch (error) {
+    console.error('Create location error:', error);
+    res.status(500).json({
+      error: 'Failed to create location',
+      message: 'Unable to create location. Please try again.'
+    });
+  }
+});
+
+// Update a location (admin only)
+router.put('/:id', authenticateToken, requireAdmin, validateLocation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const locationId = parseInt(req.params.id);
+    const { name, address, is_active = true } = req.body;
+
+    const duplicateResult = await query('SELECT id FROM locations WHERE name = $1 AND id <> $2', [name, locationId]);
+    if (duplicateResult.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Location already exists',
+        message: 'A location with this name already exists'
+      });
+    }
+
+    const result = await query(`
+      UPDATE locations SET name = $1, address = $2, is_active = $3
+      WHERE id = $4
+      RETURNING *
+    `, [name, address || null, is_active, locationId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Location not found',
+        message: 'The location you are trying to update does not exist'
+      });
+    }
+
+    res.json({
+      message: 'Location updated successfully',
+      location: result.rows[0]
+    });
+
+  } catch (error) {
+    console.error('Update location error:', error);
+    res.status(500).json({
+      error: 'Failed to update location',
+      message: 'Unable to update location. Please try again.'
+    });
+  }
+});
+
+// Close a location (admin only). Its classes keep their rooms until moved.
+router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const locationId = parseInt(req.params.id);
+
+    const result = await query(
+      'UPDATE locations SET is_active = false WHERE id = $1 RETURNING *',
+      [locationId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Location not found',
+        message: 'The location you are trying to close does not exist'
+      });
+    }
+
+    const classResult = await query(`
+      SELECT COUNT(*) as count FROM classes c
+      JOIN rooms r ON c.room_id = r.id
+      WHERE r.location_id = $1 AND c.status <> 'archived'
+    `, [locationId]);
+    const classCount = parseInt(classResult.rows[0].count);
+
+    res.json({
+      message: classCount > 0
+        ? `Location closed. ${classCount} class(es) are still scheduled there - move them to another room.`
+        : 'Location closed',
+      class_count: classCount
+    });
+
+  } catch (error) {
+    console.error('Close location error:', error);
+    res.status(500).json({
+      error: 'Failed to close location',
+      message: 'Unable to close location. Please try again.'
+    });
+  }
+});
+
+// Add a room to a location (admin only)
+router.post('/:id/rooms', authenticateToken, requireAdmin, validateRoom, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const locationId = parseInt(req.params.id);
+    const { name, capacity } = req.body;
+
+    const locationResult = await query('SELECT id FROM locations WHERE id = $1', [locationId]);
+    if (locationResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Location not found',
+        message: 'The location does not exist'
+      });
+    }
+
+    const result = await query(`
+      INSERT INTO rooms (location_id, name, capacity)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (location_id, name) DO NOTHING
+      RETURNING *
+    `, [locationId, name, capacity]);
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({
+        error: 'Room already exists',
+        message: 'This location already has a room with that name'
+      });
+    }
+
+    res.status(201).json({
+      message: 'Room added successfully',
+      room: { ...result.rows[0], class_count: 0 }
+    });
+
+  } catch (error) {
+    console.error('Create room error:', error);
+    res.status(500).json({
+      error: 'Failed to add room',
+      message: 'Unable to add room. Please try again.'
+    });
+  }
+});
+
+// Update a room (admin only). Its capacity can't drop below a class already scheduled in it.
+router.put('/rooms/:roomId', authenticateToken, requireAdmin, validateRoom, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const roomId = parseInt(req.params.roomId);
+    const { name, capacity, is_active = true } = req.body;
+
+    const existingResult = await query('SELECT * FROM rooms WHERE id = $1', [roomId]);
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Room not found',
+        message: 'The room you are trying to update does not exist'
+      });
+    }
+
+    const duplicateResult = await query(
+      'SELECT id FROM rooms WHERE location_id = $1 AND name = $2 AND id <> $3',
+      [existingResult.rows[0].location_id, name, roomId]
+    );
+    if (duplicateResult.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Room already exists',
+        message: 'This location already has a room with that name'
+      });
+    }
+
+    const largestClass = await getLargestClassCapacity(roomId);
+    if (parseInt(capacity) < largestClass) {
+      return res.status(400).json({
+        error: 'Capacity too low',
+        message: `A class in this room takes ${largestClass} members. Lower that class's capacity first.`
+      });
+    }
+
+    const result = await query(`
+      UPDATE rooms SET name = $1, capacity = $2, is_active = $3
+      WHERE id = $4
+      RETURNING *
+    `, [name, capacity, is_active, roomId]);
+
+    res.json({
+      message: 'Room updated successfully',
+      room: result.rows[0]
+    });
+
+  } catch (error) {
+    console.error('Update room error:', error);
+    res.status(500).json({
+      error: 'Failed to update room',
+      message: 'Unable to update room. Please try again.'
+    });
+  }
+});
+
+// Close a room (admin only). Its classes keep it until moved.
+router.delete('/rooms/:roomId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const roomId = parseInt(req.params.roomId);
+
+    const result = await query('UPDATE rooms SET is_active = false WHERE id = $1 RETURNING *', [roomId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Room not found',
+        message: 'The room you are trying to close does not exist'
+      });
+    }
+
+    const classResult = await query(
+      "SELECT COUNT(*) as count FROM classes WHERE room_id = $1 AND status <> 'archived'",
+      [roomId]
+    );
+    const classCount = parseInt(classResult.rows[0].count);
+
+    res.json({
+      message: classCount > 0
+        ? `Room closed. ${classCount} class(es) still use it - move them to another room.`
+        : 'Room closed',
+      class_count: classCount
+    });
+
+  } catch (error) {
+    console.error('Close room error:', error);
+    res.status(500).json({
+      error: 'Failed to close room',
+      message: 'Unable to close room. Please try again.'
+    });
+  }
+});
+
+export default router;
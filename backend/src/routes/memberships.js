@@ -0,0 +1,612 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { query, withTransaction } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { toDateString } from '../utils/occurrences.js';
+import { MEMBERSHIP_PLAN_TYPES, WEEKLY_COUNTED_STATUSES, getWeekRange } from '../utils/memberships.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validatePlan = [
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Plan name must be 2-100 characters'),
+  body('plan_type').isIn(MEMBERSHIP_PLAN_TYPES).withMessage('Plan type must be unlimited, weekly or off_peak'),
+  body('classes_per_week').if(body('plan_type').equals('weekly'))
+    .isInt({ min: 1, max: 14 }).withMessage('Classes per week must be between 1 and 14'),
+  body('monthly_price').isFloat({ min: 0, max: 10000 }).withMessage('Monthly price must be between $0 and $10000'),
+  body('is_active').optional().isBoolean().withMessage('Active must be true or false')
+];
+
+const validateMembership = [
+  body('plan_id').isInt({ min: 1 }).withMessage('Valid plan ID is required'),
+  body('start_date').isISO8601().withMessage('Valid start date is required'),
+  body('end_date').optional({ nullable: true }).isISO8601().withMessage('End date must be a valid date')
+];
+
+const validatePause = [
+  body('start_date').isISO8601().withMessage('Valid pause start date is required'),
+  body('end_date').isISO8601().withMessage('Valid pause end date is required'),
+  body('reason').optional({ nullable: true }).trim().isLength({ max: 500 }).withMessage('Reason must be under 500 characters')
+];
+
+// Helper function to convert DECIMAL columns into numbers for the client
+const formatPlan = (plan) => ({
+  ...plan,
+  monthly_price: parseFloat(plan.monthly_price),
+  member_count: parseInt(plan.member_count) || 0
+});
+
+// Helper function to work out where a membership is at today
+const getMembershipStatus = (membership, pauses, today) => {
+  if (membership.start_date > today) return 'upcoming';
+  if (membership.end_date && membership.end_date < today) return 'ended';
+  if (pauses.some(pause => pause.start_date <= today && pause.end_date >= today)) return 'paused';
+  return 'active';
+};
+
+// Helper function to format a membership (with its pauses) for the client
+const formatMembership = (membership, pauseRows) => {
+  const today = toDateString(new Date());
+  const pauses = pauseRows
+    .filter(pause => pause.membership_id === membership.id)
+    .map(pause => ({
+      ...pause,
+      start_date: toDateString(pause.start_date),
+      end_date: toDateString(pause.end_date)
+    }));
+  const formatted = {
+    ...membership,
+    start_date: toDateString(membership.start_date),
+    end_date: toDateString(membership.end_date),
+    monthly_price: parseFloat(membership.monthly_price),
+    pauses
+  };
+
+  return { ...formatted, status: getMembershipStatus(formatted, pauses, today) };
+};
+
+// Helper function to load memberships with their plan and pauses
+const getMemberships = async (whereClause, params) => {
+  const result = await query(`
+    SELECT m.*, p.name as plan_name, p.plan_type, p.classes_per_week, p.monthly_price, u.name as created_by_name
+    FROM memberships m
+    JOIN membership_plans p ON m.plan_id = p.id
+    LEFT JOIN users u ON m.created_by = u.id
+    WHERE ${whereClause}
+    ORDER BY m.start_date DESC, m.id DESC
+  `, params);
+
+  const pauseResult = await query(
+    'SELECT * FROM membership_pauses WHERE membership_id = ANY($1::int[]) ORDER BY start_date',
+    [result.rows.map(m => m.id)]
+  );
+
+  return result.rows.map(membership => formatMembership(membership, pauseResult.rows));
+};
+
+// Helper function to check a member's memberships don't overlap (one membership at a time)
+const hasOverlappingMembership = async (userId, startDate, endDate, excludeId = null) => {
+  const result = await query(`
+    SELECT id FROM memberships
+    WHERE user_id = $1 AND ($4::int IS NULL OR id <> $4)
+      AND start_date <= COALESCE($3::date, 'infinity'::date)
+      AND COALESCE(end_date, 'infinity'::date) >= $2::date
+  `, [userId, startDate, endDate, excludeId]);
+
+  return result.rows.length > 0;
+};
+
+// Helper function to check the chosen plan exists and can still be given out (a membership keeping its
+// current plan is fine even once the plan is retired)
+const resolvePlan = async (planId, currentPlanId = null) => {
+  const result = await query('SELECT * FROM membership_plans WHERE id = $1', [planId]);
+  const plan = result.rows[0];
+
+  if (!plan) return { plan: null, error: 'not_found' };
+  if (!plan.is_active && plan.id !== currentPlanId) return { plan, error: 'inactive' };
+
+  return { plan, error: null };
+};
+
+// Get membership plans. Members only see plans that are still offered.
+router.get('/plans', authenticateToken, async (req, res) => {
+  try {
+    const isAdmin = req.user.role === 'admin';
+
+    const result = await query(`
+      SELECT p.*, COUNT(m.id) FILTER (WHERE m.end_date IS NULL OR m.end_date >= CURRENT_DATE) as member_count
+      FROM membership_plans p
+      LEFT JOIN memberships m ON m.plan_id = p.id
+      ${isAdmin ? '' : 'WHERE p.is_active = true'}
+      GROUP BY p.id
+      ORDER BY p.is_active DESC, p.monthly_price
+    `);
+
+    res.json({ plans: result.rows.map(formatPlan) });
+
+  } catch (error) {
+    console.error('Get membership plans error:', error);
+    res.status(500).json({
+      error: 'Failed to get membership plans',
+      message: 'Unable to retrieve membership plans'
+    });
+  }
+});
+
+// Create a membership plan (admin only)
+router.post('/plans', authenticateToken, requireAdmin, validatePlan, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { name, plan_type, classes_per_week, monthly_price } = req.body;
+
+    const result = await query(`
+      INSERT INTO membership_plans (name, plan_type, classes_per_week, monthly_price)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (name) DO NOTHING
+      RETURNING *
+    `, [name, plan_type, plan_type === 'weekly' ? classes_per_week : null, monthly_price]);
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({
+        error: 'Plan already exists',
+        message: 'A membership plan with this name already exists'
+      });
+    }
+
+    res.status(201).json({
+      message: 'Membership plan created successfully',
+      plan: formatPlan(result.rows[0])
+    });
+
+  } catch (error) {
+    console.error('Create membership plan error:', error);
+    res.status(500).json({
+      error: 'Failed to create membership plan',
+      message: 'Unable to create membership plan. Please try again.'
+    });
+  }
+});
+
+// Update a membership plan (admin only). Changes apply to every membership on the plan from the next booking.
+router.put('/plans/:id', authenticateToken, requireAdmin, validatePlan, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const planId = parseInt(req.params.id);
+    const { name, plan_type, classes_per_week, monthly_price, is_active = true } = req.body;
+
+    const duplicateResult = await query('SELECT id FROM membership_plans WHERE name = $1 AND id <> $2', [name, planId]);
+    if (duplicateResult.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Plan already exists',
+        message: 'A membership plan with this name already exists'
+      });
+    }
+
+    const result = await query(`
+      UPDATE membership_plans SET name = $1, plan_type = $2, classes_per_week = $3, monthly_price = $4, is_active = $5
+      WHERE id = $6
+      RETURNING *
+    `, [name, plan_type, plan_type === 'weekly' ? classes_per_week : null, monthly_price, is_active, planId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Plan not found',
+        message: 'The membership plan you are trying to update does not exist'
+      });
+    }
+
+    res.json({
+      message: 'Membership plan updated successfully',
+      plan: formatPlan(result.rows[0])
+    });
+
+  } catch (error) {
+    console.error('Update membership plan error:', error);
+    res.status(500).json({
+      error: 'Failed to update membership plan',
+      message: 'Unable to update membership plan. Please try again.'
+    });
+  }
+});
+
+// Retire a membership plan (admin only). Members already on it keep it until their membership ends.
+router.delete('/plans/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+
+    const result = await query('UPDATE membership_plans SET is_active = false WHERE id = $1 RETURNING *', [planId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Plan not found',
+        message: 'The membership plan you are trying to retire does not exist'
+      });
+    }
+
+    const memberResult = await query(
+      'SELECT COUNT(*) as count FROM memberships WHERE plan_id = $1 AND (end_date IS NULL OR end_date >= CURRENT_DATE)',
+      [planId]
+    );
+    const memberCount = parseInt(memberResult.rows[0].count);
+
+    res.json({
+      message: memberCount > 0
+        ? `Plan retired. ${memberCount} member(s) keep it until their membership ends.`
+        : 'Plan retired',
+      member_count: memberCount
+    });
+
+  } catch (error) {
+    console.error('Retire membership plan error:', error);
+    res.status(500).json({
+      error: 'Failed to retire membership plan',
+      message: 'Unable to retire membership plan. Please try again.'
+    });
+  }
+});
+
+// Get a member's memberships, newest first (own memberships or admin). A current weekly membership also
+// says how many of this week's classes have been used.
+router.get('/user/:userId', authenticateToken, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+
+    if (req.user.role !== 'admin' && req.user.id !== userId) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only view your own memberships'
+      });
+    }
+
+    const memberships = await getMemberships('m.user_id = $1', [userId]);
+    const current = memberships.find(m => m.status === 'active' || m.status === 'paused') || null;
+
+    if (current && current.plan_type === 'weekly') {
+      const week = getWeekRange(toDateString(new Date()));
+      const usedResult = await query(`
+        SELECT COUNT(*) as used FROM bookings
+        WHERE membership_id = $1 AND booking_date BETWEEN $2 AND $3 AND status = ANY($4::varchar[])
+      `, [current.id, week.from, week.to, WEEKLY_COUNTED_STATUSES]);
+      current.classes_used_this_week = parseInt(usedResult.rows[0].used);
+    }
+
+    res.json({ memberships, current });
+
+  } catch (error) {
+    console.error('Get memberships error:', error);
+    res.status(500).json({
+      error: 'Failed to get memberships',
+      message: 'Unable to retrieve memberships'
+    });
+  }
+});
+
+// Give a member a membership (admin only)
+router.post('/', authenticateToken, requireAdmin, [
+  body('user_id').isInt({ min: 1 }).withMessage('Valid user ID is required'),
+  ...validateMembership
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { user_id, plan_id, start_date, end_date = null } = req.body;
+
+    if (end_date && end_date < start_date) {
+      return res.status(400).json({
+        error: 'Invalid dates',
+        message: 'The membership must end on or after its start date'
+      });
+    }
+
+    const userResult = await query("SELECT id FROM users WHERE id = $1 AND role = 'user'", [user_id]);
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'Memberships can only be given to members'
+      });
+    }
+
+    const { error: planError } = await resolvePlan(plan_id);
+    if (planError) {
+      return res.status(400).json({
+        error: 'Invalid plan',
+        message: planError === 'inactive' ? 'This membership plan has been retired' : 'The selected plan does not exist'
+      });
+    }
+
+    if (await hasOverlappingMembership(user_id, start_date, end_date)) {
+      return res.status(409).json({
+        error: 'Membership overlaps',
+        message: 'This member already has a membership for some of these dates'
+      });
+    }
+
+    const result = await query(`
+      INSERT INTO memberships (user_id, plan_id, start_date, end_date, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
+    `, [user_id, plan_id, start_date, end_date, req.user.id]);
+
+    const [membership] = await getMemberships('m.id = $1', [result.rows[0].id]);
+
+    res.status(201).json({
+      message: 'Membership added successfully',
+      membership
+    });
+
+  } catch (error) {
+    console.error('Create membership error:', error);
+    res.status(500).json({
+      error: 'Failed to add membership',
+      message: 'Unable to add membership. Please try again.'
+    });
+  }
+});
+
+// Change a membership's plan or dates, e.g. to end it (admin only). Bookings already made are left alone.
+router.put('/:id', authenticateToken, requireAdmin, validateMembership, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const membershipId = parseInt(req.params.id);
+    const { plan_id, start_date, end_date = null } = req.body;
+
+    const existingResult = await query('SELECT * FROM memberships WHERE id = $1', [membershipId]);
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Membership not found',
+        message: 'The membership you are trying to update does not exist'
+      });
+    }
+    const existing = existingResult.rows[0];
+
+    if (end_date && end_date < start_date) {
+      return res.status(400).json({
+        error: 'Invalid dates',
+        message: 'The membership must end on or after its start date'
+      });
+    }
+
+    const { error: planError } = await resolvePlan(plan_id, existing.plan_id);
+    if (planError) {
+      return res.status(400).json({
+        error: 'Invalid plan',
+        message: planError === 'inactive' ? 'This membership plan has been retired' : 'The selected plan does not exist'
+      });
+    }
+
+    if (await hasOverlappingMembership(existing.user_id, start_date, end_date, membershipId)) {
+      return res.status(409).json({
+        error: 'Membership overlaps',
+        message: 'This member already has a membership for some of these dates'
+      });
+    }
+
+    await query(
+      'UPDATE memberships SET plan_id = $1, start_date = $2, end_date = $3 WHERE id = $4',
+      [plan_id, start_date, end_date, membershipId]
+    );
+
+    const [membership] = await getMemberships('m.id = $1', [membershipId]);
+
+    res.json({
+      message: 'Membership updated successfully',
+      membership
+    });
+
+  } catch (error) {
+    console.error('Update membership error:', error);
+    res.status(500).json({
+      error: 'Failed to update membership',
+      message: 'Unable to update membership. Please try again.'
+    });
+  }
+});
+
+// Remove a membership added by mistake (admin only). One that has covered bookings should be ended instead.
+router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const membershipId = parseInt(req.params.id);
+
+    const bookingResult = await query('SELECT COUNT(*) as count FROM bookings WHERE membership_id = $1', [membershipId]);
+    if (parseInt(bookingResult.rows[0].count) > 0) {
+      return res.status(400).json({
+        error: 'Membership in use',
+        message: 'This membership has covered bookings. Set an end date instead of removing it.'
+      });
+    }
+
+    const result = await query('DELETE FROM memberships WHERE id = $1 RETURNING id', [membershipId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Membership not found',
+        message: 'The membership you are trying to remove does not exist'
+      });
+    }
+
+    res.json({ message: 'Membership removed' });
+
+  } catch (error) {
+    console.error('Delete membership error:', error);
+    res.status(500).json({
+      error: 'Failed to remove membership',
+      message: 'Unable to remove membership. Please try again.'
+    });
+  }
+});
+
+// Pause (freeze) a membership between two dates (admin only). A membership with an end date is extended
+// by the paused days; bookings already made in the pause are left alone.
+router.post('/:id/pauses', authenticateToken, requireAdmin, validatePause, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const membershipId = parseInt(req.params.id);
+    const { start_date, end_date, reason = null } = req.body;
+
+    if (end_date < start_date) {
+      return res.status(400).json({
+        error: 'Invalid dates',
+        message: 'The pause must end on or after its start date'
+      });
+    }
+
+    const outcome = await withTransaction(async (tx) => {
+      const membershipResult = await tx('SELECT * FROM memberships WHERE id = $1 FOR UPDATE', [membershipId]);
+      const membership = membershipResult.rows[0];
+      if (!membership) return { error: 'not_found' };
+
+      const membershipEnd = toDateString(membership.end_date);
+      if (start_date < toDateString(membership.start_date) || (membershipEnd && start_date > membershipEnd)) {
+        return { error: 'outside' };
+      }
+
+      const overlapResult = await tx(`
+        SELECT id FROM membership_pauses
+        WHERE membership_id = $1 AND start_date <= $3::date AND end_date >= $2::date
+      `, [membershipId, start_date, end_date]);
+      if (overlapResult.rows.length > 0) return { error: 'overlap' };
+
+      // The extended end date can't run into the member's next membership
+      if (membershipEnd) {
+        const nextResult = await tx(`
+          SELECT id FROM memberships
+          WHERE user_id = $1 AND id <> $2 AND start_date > $3::date
+            AND start_date <= $3::date + ($5::date - $4::date + 1)
+        `, [membership.user_id, membershipId, membershipEnd, start_date, end_date]);
+        if (nextResult.rows.length > 0) return { error: 'next_membership' };
+      }
+
+      const pauseResult = await tx(`
+        INSERT INTO membership_pauses (membership_id, start_date, end_date, reason, created_by)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *, end_date - start_date + 1 as days
+      `, [membershipId, start_date, end_date, reason, req.user.id]);
+      const pause = pauseResult.rows[0];
+
+      await tx(
+        'UPDATE memberships SET end_date = end_date + $1::int WHERE id = $2 AND end_date IS NOT NULL',
+        [pause.days, membershipId]
+      );
+
+      return { pause };
+    });
+
+    if (outcome.error === 'not_found') {
+      return res.status(404).json({
+        error: 'Membership not found',
+        message: 'The membership you are trying to pause does not exist'
+      });
+    }
+
+    if (outcome.error) {
+      const messages = {
+        outside: 'The pause must start while the membership is running',
+        overlap: 'This membership is already paused for some of these dates',
+        next_membership: 'Extending this membership by the pause would overlap the member\'s next membership'
+      };
+      return res.status(400).json({
+        error: 'Invalid pause',
+        message: messages[outcome.error]
+      });
+    }
+
+    const [membership] = await getMemberships('m.id = $1', [membershipId]);
+
+    res.status(201).json({
+      message: `Membership paused for ${outcome.pause.days} day(s)`,
+      membership
+    });
+
+  } catch (error) {
+    console.error('Pause membership error:', error);
+    res.status(500).json({
+      error: 'Failed to pause membership',
+      message: 'Unable to pause membership. Please try again.'
+    });
+  }
+});
+
+// Remove a pause (admin only). The days it added to a fixed end date are taken off again.
+router.delete('/pauses/:pauseId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const pauseId = parseInt(req.params.pauseId);
+
+    const membershipId = await withTransaction(async (tx) => {
+      const pauseResult = await tx(
+        'DELETE FROM membership_pauses WHERE id = $1 RETURNING membership_id, end_date - start_date + 1 as days',
+        [pauseId]
+      );
+      const pause = pauseResult.rows[0];
+      if (!pause) return null;
+
+      await tx(
+        'UPDATE memberships SET end_date = GREATEST(end_date - $1::int, start_date) WHERE id = $2 AND end_date IS NOT NULL',
+        [pause.days, pause.membership_id]
+      );
+
+      return pause.membership_id;
+    });
+
+    if (!membershipId) {
+      return res.status(404).json({
+        error: 'Pause not found',
+        message: 'The pause you are trying to remove does not exist'
+      });
+    }
+
+    const [membership] = await getMemberships('m.id = $1', [membershipId]);
+
+    res.json({
+      message: 'Pause removed',
+      membership
+    });
+
+  } catch (error) {
+    console.error('Remove membership pause error:', error);
+    res.status(500).json({
+      error: 'Failed to remove pause',
+      message: 'Unable to remove pause. Please try again.'
+    });
+  }
+});
+
+export default router;
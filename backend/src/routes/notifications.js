@@ -0,0 +1,251 @@
+import express from 'express';
+import { body, param, query as queryParam, validationResult } from 'express-validator';
+import { query } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { NOTIFICATION_TEMPLATES, MAX_DELIVERY_ATTEMPTS, listTemplates } from '../utils/notifications.js';
+import { getTransportName } from '../utils/mail.js';
+
+const router = express.Router();
+
+const NOTIFICATION_STATUSES = ['pending', 'sent', 'failed'];
+
+// Validation middleware
+const validateTemplateKey = [
+  param('key').isIn(Object.keys(NOTIFICATION_TEMPLATES)).withMessage('Unknown notification')
+];
+
+const validateTemplate = [
+  ...validateTemplateKey,
+  body('subject').trim().isLength({ min: 1, max: 255 }).withMessage('Subject must be between 1 and 255 characters'),
+  body('body').trim().isLength({ min: 1, max: 5000 }).withMessage('Message must be between 1 and 5000 characters'),
+  body('is_enabled').isBoolean().withMessage('Enabled must be true or false')
+];
+
+const validateLog = [
+  queryParam('status').optional().isIn(NOTIFICATION_STATUSES).withMessage('Status must be pending, sent or failed'),
+  queryParam('event_key').optional().isIn(Object.keys(NOTIFICATION_TEMPLATES)).withMessage('Unknown notification'),
+  queryParam('limit').optional().isInt({ min: 1, max: 500 }).withMessage('Limit must be between 1 and 500')
+];
+
+// Get every notification template with the gym's edits applied (admin only)
+router.get('/templates', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    res.json({
+      templates: await listTemplates(),
+      transport: getTransportName()
+    });
+
+  } catch (error) {
+    console.error('Get notification templates error:', error);
+    res.status(500).json({
+      error: 'Failed to get templates',
+      message: 'Unable to retrieve notification templates'
+    });
+  }
+});
+
+// Edit a template's subject and message, or turn it off (admin only). Only affects notifications queued from now on.
+router.put('/templates/:key', authenticateToken, requireAdmin, validateTemplate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { subject, body: templateBody, is_enabled } = req.body;
+
+    await query(`
+      INSERT INTO notification_templates (event_key, subject, body, is_enabled, updated_by)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (event_key) DO UPDATE
+        SET subject = EXCLUDED.subject, body = EXCLUDED.body, is_enabled = EXCLUDED.is_enabled,
+            updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP
+    `, [req.params.key, subject, templateBody, is_enabled, req.user.id]);
+
+    const templates = await listTemplates();
+
+    res.json({
+      message: 'Template saved successfully',
+      template: templates.find(t => t.event_key === req.params.key)
+    });
+
+  } catch (error) {
+    console.error('Update notification template error:', error);
+    res.status(500).json({
+      error: 'Failed to save template',
+      message: 'Unable to save notification template. Please try again.'
+    });
+  }
+});
+
+// Put a template back to the built-in wording, turned on (admin only)
+router.delete('/templates/:key', authenticateToken, requireAdmin, validateTemplateKey, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    await query('DELETE FROM notification_templates WHERE event_key = $1', [req.params.key]);
+
+    const templates = await listTemplates();
+
+    res.json({
+      message: 'Template reset to the default',
+      template: templates.find(t => t.event_key === req.params.key)
+    });
+
+  } catch (error) {
+    console.error('Reset notification template error:', error);
+    res.status(500).json({
+      error: 'Failed to reset template',
+      message: 'Unable to reset notification template. Please try again.'
+    });
+  }
+});
+
+// Delivery log (admin only): the most recent notifications, newest first, with counts by status
+router.get('/', authenticateToken, requireAdmin, validateLog, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { status, event_key } = req.query;
+    const limit = parseInt(req.query.limit) || 100;
+
+    const result = await query(`
+      SELECT n.*, u.name as user_name
+      FROM notifications n
+      LEFT JOIN users u ON n.user_id = u.id
+      WHERE ($1::varchar IS NULL OR n.status = $1)
+        AND ($2::varchar IS NULL OR n.event_key = $2)
+      ORDER BY n.created_at DESC, n.id DESC
+      LIMIT $3
+    `, [status || null, event_key || null, limit]);
+
+    const countsResult = await query('SELECT status, COUNT(*) as count FROM notifications GROUP BY status');
+    const counts = Object.fromEntries(NOTIFICATION_STATUSES.map(s => [s, 0]));
+    countsResult.rows.forEach(row => {
+      counts[row.status] = parseInt(row.count);
+    });
+
+    res.json({
+      notifications: result.rows,
+      counts,
+      maxAttempts: MAX_DELIVERY_ATTEMPTS
+    });
+
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      error: 'Failed to get notifications',
+      message: 'Unable to retrieve notifications'
+    });
+  }
+});
+
+// Every delivery attempt for a notification (admin only)
+router.get('/:id/deliveries', authenticateToken, requireAdmin, [
+  param('id').isInt({ min: 1 }).withMessage('Invalid notification')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const notificationResult = await query('SELECT id FROM notifications WHERE id = $1', [req.params.id]);
+    if (notificationResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Notification not found',
+        message: 'The requested notification does not exist'
+      });
+    }
+
+    const result = await query(`
+      SELECT * FROM notification_deliveries
+      WHERE notification_id = $1
+      ORDER BY attempt DESC, id DESC
+    `, [req.params.id]);
+
+    res.json({ deliveries: result.rows });
+
+  } catch (error) {
+    console.error('Get notification deliveries error:', error);
+    res.status(500).json({
+      error: 'Failed to get deliveries',
+      message: 'Unable to retrieve delivery attempts'
+    });
+  }
+});
+
+// Send a failed (or still waiting) notification on the next run of the outbox job (admin only). A failed
+// notification gets one more attempt.
+router.post('/:id/retry', authenticateToken, requireAdmin, [
+  param('id').isInt({ min: 1 }).withMessage('Invalid notification')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const existing = await query('SELECT status FROM notifications WHERE id = $1', [req.params.id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Notification not found',
+        message: 'The requested notification does not exist'
+      });
+    }
+
+    if (existing.rows[0].status === 'sent') {
+      return res.status(400).json({
+        error: 'Already sent',
+        message: 'This notification has already been delivered'
+      });
+    }
+
+    const result = await query(`
+      UPDATE notifications
+      SET status = 'pending', next_attempt_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status <> 'sent'
+      RETURNING *
+    `, [req.params.id]);
+
+    res.json({
+      message: 'Notification will be sent again shortly',
+      notification: result.rows[0]
+    });
+
+  } catch (error) {
+    console.error('Retry notification error:', error);
+    res.status(500).json({
+      error: 'Failed to retry notification',
+      message: 'Unable to retry notification. Please try again.'
+    });
+  }
+});
+
+export default router;
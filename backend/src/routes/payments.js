@@ -0,0 +1,478 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { query, withTransaction } from '../db/connection.js';
+import { authenticateToken, requireAdmin, requireUser } from '../middleware/auth.js';
+import { createPackagePayment, settlePayment } from '../utils/payments.js';
+import { getCurrentInvoice, issueInvoice, renderInvoicePdf } from '../utils/invoices.js';
+import { VOUCHER_ERRORS, getPackageDiscount, recordDiscount } from '../utils/vouchers.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validatePaymentDetails = [
+  body('bank_name').optional().trim(),
+  body('account_name').optional().trim(),
+  body('account_number').optional().trim(),
+  body('sort_code').optional().trim(),
+  body('reference_instructions').optional().trim(),
+  body('additional_info').optional().trim(),
+  body('business_name').optional().trim().isLength({ max: 255 }),
+  body('business_address').optional().trim(),
+  body('gst_number').optional({ values: 'falsy' }).trim().matches(/^\d{2,3}-?\d{3}-?\d{3}$/).withMessage('GST number must be 8 or 9 digits, e.g. 123-456-789')
+];
+
+const validatePurchase = [
+  body('package_id').isInt({ min: 1 }).withMessage('Please choose a concession package'),
+  body('payment_method').optional().isIn(['bank_transfer', 'cash']).withMessage('Invalid payment method'),
+  body('voucher_code').optional({ values: 'falsy' }).trim().isLength({ max: 32 }).withMessage('Invalid code')
+];
+
+const validatePaymentStatus = [
+  body('status').isIn(['confirmed', 'rejected']).withMessage('Status must be confirmed or rejected'),
+  body('notes').optional().trim()
+];
+
+// Helper function to convert DECIMAL columns into numbers for the client
+const formatPayment = (payment) => ({
+  ...payment,
+  amount: parseFloat(payment.amount)
+});
+
+// Get bank transfer details shown to members
+router.get('/details', authenticateToken, async (req, res) => {
+  try {
+    const result = await query('SELECT * FROM payment_details ORDER BY id LIMIT 1');
+
+    res.json({ paymentDetails: result.rows[0] || null });
+
+  } catch (error) {
+    console.error('Get payment details error:', error);
+    res.status(500).json({
+      error: 'Failed to get payment details',
+      message: 'Unable to retrieve payment details'
+    });
+  }
+});
+
+// Update bank transfer details (admin only)
+router.put('/details', authenticateToken, requireAdmin, validatePaymentDetails, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const {
+      bank_name = '',
+      account_name = '',
+      account_number = '',
+      sort_code = '',
+      reference_instructions = '',
+      additional_info = '',
+      business_name = '',
+      business_address = '',
+      gst_number = ''
+    } = req.body;
+
+    const existing = await query('SELECT id FROM payment_details ORDER BY id LIMIT 1');
+
+    let result;
+    if (existing.rows.length > 0) {
+      result = await query(`
+        UPDATE payment_details
+        SET bank_name = $1, account_name = $2, account_number = $3, sort_code = $4,
+            reference_instructions = $5, additional_info = $6, business_name = $7, business_address = $8,
+            gst_number = $9, updated_by = $10
+        WHERE id = $11
+        RETURNING *
+      `, [bank_name, account_name, account_number, sort_code, reference_instructions, additional_info,
+          business_name, business_address, gst_number, req.user.id, existing.rows[0].id]);
+    } else {
+      result = await query(`
+        INSERT INTO payment_details (bank_name, account_name, account_number, sort_code, reference_instructions, additional_info,
+                                     business_name, business_address, gst_number, updated_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *
+      `, [bank_name, account_name, account_number, sort_code, reference_instructions, additional_info,
+          business_name, business_address, gst_number, req.user.id]);
+    }
+
+    res.json({
+      message: 'Payment details updated successfully',
+      paymentDetails: result.rows[0]
+    });
+
+  } catch (error) {
+    console.error('Update payment details error:', error);
+    res.status(500).json({
+      error: 'Failed to update payment details',
+      message: 'Unable to update payment details. Please try again.'
+    });
+  }
+});
+
+// Get all payments (admin only)
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { status, user_id } = req.query;
+
+    let queryText = `
+      SELECT p.*, u.name as user_name, u.email as user_email, a.name as processed_by_name,
+             c.name as class_name, b.booking_date, cp.name as package_name, i.invoice_number
+      FROM payments p
+      JOIN users u ON p.user_id = u.id
+      LEFT JOIN users a ON p.processed_by = a.id
+      LEFT JOIN bookings b ON p.booking_id = b.id
+      LEFT JOIN classes c ON b.class_id = c.id
+      LEFT JOIN concession_packages cp ON p.package_id = cp.id
+      LEFT JOIN invoices i ON i.payment_id = p.id AND i.superseded_at IS NULL
+      WHERE 1=1
+    `;
+
+    const queryParams = [];
+    let paramIndex = 1;
+
+    if (status) {
+      queryText += ` AND p.status = $${paramIndex}`;
+      queryParams.push(status);
+      paramIndex++;
+    }
+
+    if (user_id) {
+      queryText += ` AND p.user_id = $${paramIndex}`;
+      queryParams.push(parseInt(user_id));
+      paramIndex++;
+    }
+
+    queryText += ' ORDER BY p.created_at DESC';
+
+    const result = await query(queryText, queryParams);
+
+    res.json({ payments: result.rows.map(formatPayment) });
+
+  } catch (error) {
+    console.error('Get payments error:', error);
+    res.status(500).json({
+      error: 'Failed to get payments',
+      message: 'Unable to retrieve payment information'
+    });
+  }
+});
+
+// Get payments for a specific user (own payments or admin)
+router.get('/user/:userId', authenticateToken, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+
+    if (req.user.role !== 'admin' && req.user.id !== userId) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only view your own payments'
+      });
+    }
+
+    const result = await query(`
+      SELECT p.*, c.name as class_name, b.booking_date, cp.name as package_name, i.invoice_number
+      FROM payments p
+      LEFT JOIN bookings b ON p.booking_id = b.id
+      LEFT JOIN classes c ON b.class_id = c.id
+      LEFT JOIN concession_packages cp ON p.package_id = cp.id
+      LEFT JOIN invoices i ON i.payment_id = p.id AND i.superseded_at IS NULL
+      WHERE p.user_id = $1
+      ORDER BY p.created_at DESC
+    `, [userId]);
+
+    res.json({ payments: result.rows.map(formatPayment) });
+
+  } catch (error) {
+    console.error('Get user payments error:', error);
+    res.status(500).json({
+      error: 'Failed to get payments',
+      message: 'Unable to retrieve payment information'
+    });
+  }
+});
+
+// Buy a concession package: creates a pending payment with a unique reference for the member to pay against.
+// The price and concessions come from the package, never from the request. A discount code takes its
+// percentage off the price; one that covers all of it confirms the purchase straight away.
+router.post('/', authenticateToken, requireUser, validatePurchase, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { package_id, payment_method = 'bank_transfer', voucher_code } = req.body;
+
+    const packageResult = await query('SELECT * FROM concession_packages WHERE id = $1', [package_id]);
+    const concessionPackage = packageResult.rows[0];
+
+    if (!concessionPackage || !concessionPackage.is_active) {
+      return res.status(400).json({
+        error: 'Package not available',
+        message: 'This concession package is no longer available'
+      });
+    }
+
+    const outcome = await withTransaction(async (tx) => {
+      // Choosing the same package twice before paying reuses the reference already given out (a discount
+      // code entered the second time is applied to it)
+      const existingResult = await tx(`
+        SELECT p.*, vr.id as redemption_id FROM payments p
+        LEFT JOIN voucher_redemptions vr ON vr.payment_id = p.id
+        WHERE p.user_id = $1 AND p.package_id = $2 AND p.status = 'pending'
+        ORDER BY p.created_at DESC
+        LIMIT 1
+        FOR UPDATE OF p
+      `, [req.user.id, concessionPackage.id]);
+      const existing = existingResult.rows[0];
+
+      if (existing && (!voucher_code || existing.redemption_id)) {
+        return { payment: existing, reused: true };
+      }
+
+      let discount = null;
+      if (voucher_code) {
+        discount = await getPackageDiscount({
+          code: voucher_code,
+          userId: req.user.id,
+          packageId: concessionPackage.id,
+          amount: existing ? existing.amount : concessionPackage.price
+        }, tx);
+        if (discount.error) return discount;
+      }
+
+      let payment;
+      if (existing) {
+        const updated = await tx('UPDATE payments SET amount = amount - $1 WHERE id = $2 RETURNING *', [discount.discount, existing.id]);
+        payment = updated.rows[0];
+      } else {
+        const price = concessionPackage.price - (discount ? discount.discount : 0);
+        payment = await createPackagePayment(req.user.id, { ...concessionPackage, price }, payment_method, tx);
+      }
+
+      if (discount) {
+        await recordDiscount({ voucher: discount.voucher, userId: req.user.id, paymentId: payment.id, discount: discount.discount }, tx);
+
+        if (parseFloat(payment.amount) === 0) {
+          const settled = await settlePayment({
+            paymentId: payment.id,
+            status: 'confirmed',
+            actorId: null,
+            notes: `Paid in full with code ${discount.voucher.code}`
+          }, tx);
+          return {
+            payment: settled.payment,
+            voucher: discount.voucher,
+            newBalance: settled.newBalance,
+            isHouseholdBalance: settled.balanceHolder.id !== req.user.id
+          };
+        }
+      }
+
+      return { payment, voucher: discount ? discount.voucher : null, reused: !!existing };
+    });
+
+    if (outcome.error) {
+      const { status, ...body } = VOUCHER_ERRORS[outcome.error];
+      return res.status(status).json(body);
+    }
+
+    const { payment, voucher, reused } = outcome;
+    const amount = parseFloat(payment.amount);
+    const saving = voucher ? `${voucher.code} applied: ${voucher.percent_off}% off. ` : '';
+
+    let message;
+    if (payment.status === 'confirmed') {
+      message = `${voucher.code} covers the whole package - ${payment.concessions_purchased} concessions have been added to your ${outcome.isHouseholdBalance ? 'household ' : ''}balance.`;
+    } else if (reused && !voucher) {
+      message = `You already have a payment awaiting confirmation for this package. Please use reference ${payment.reference}.`;
+    } else {
+      message = `${saving}Please pay $${amount.toFixed(2)} using reference ${payment.reference}. Your concessions will be added once the payment is confirmed.`;
+    }
+
+    res.status(reused ? 200 : 201).json({
+      message,
+      payment: formatPayment({ ...payment, package_name: concessionPackage.name }),
+      newBalance: outcome.newBalance ?? null
+    });
+
+  } catch (error) {
+    console.error('Create payment error:', error);
+    res.status(500).json({
+      error: 'Failed to submit payment',
+      message: 'Unable to submit payment. Please try again.'
+    });
+  }
+});
+
+// Confirm or reject a pending payment (admin only) - confirming a purchase credits the member's concessions,
+// confirming a drop-in payment just marks the booking as paid
+router.patch('/:id/status', authenticateToken, requireAdmin, validatePaymentStatus, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const paymentId = parseInt(req.params.id);
+    const { status, notes } = req.body;
+
+    const outcome = await withTransaction((tx) => settlePayment({ paymentId, status, actorId: req.user.id, notes: notes || null }, tx));
+
+    if (!outcome) {
+      const existing = await query('SELECT status FROM payments WHERE id = $1', [paymentId]);
+
+      if (existing.rows.length === 0) {
+        return res.status(404).json({
+          error: 'Payment not found',
+          message: 'The payment you are trying to process does not exist'
+        });
+      }
+
+      return res.status(400).json({
+        error: 'Payment already processed',
+        message: `This payment has already been ${existing.rows[0].status}`
+      });
+    }
+
+    const { payment, newBalance } = outcome;
+
+    res.json({
+      message: status === 'rejected'
+        ? 'Payment rejected'
+        : payment.payment_type === 'drop_in'
+          ? 'Drop-in payment confirmed'
+          : `Payment confirmed. ${payment.concessions_purchased} concession(s) added.`,
+      payment: formatPayment({ ...payment, invoice_number: outcome.invoice?.invoice_number ?? null }),
+      newBalance
+    });
+
+  } catch (error) {
+    console.error('Update payment status error:', error);
+    res.status(500).json({
+      error: 'Failed to process payment',
+      message: 'Unable to process payment. Please try again.'
+    });
+  }
+});
+
+// Download the receipt for a confirmed payment as a PDF (own payments or admin). Payments confirmed before
+// receipts were introduced get theirs issued on first download.
+router.get('/:id/invoice', authenticateToken, async (req, res) => {
+  try {
+    const paymentId = parseInt(req.params.id);
+
+    const paymentResult = await query('SELECT user_id, status FROM payments WHERE id = $1', [paymentId]);
+    const payment = paymentResult.rows[0];
+
+    if (!payment) {
+      return res.status(404).json({
+        error: 'Payment not found',
+        message: 'The payment you are looking for does not exist'
+      });
+    }
+
+    if (req.user.role !== 'admin' && req.user.id !== payment.user_id) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only download receipts for your own payments'
+      });
+    }
+
+    if (payment.status !== 'confirmed') {
+      return res.status(400).json({
+        error: 'Payment not confirmed',
+        message: 'A receipt is available once the payment has been confirmed'
+      });
+    }
+
+    let invoice = await getCurrentInvoice(paymentId);
+    if (!invoice) {
+      try {
+        invoice = await issueInvoice(paymentId);
+      } catch (error) {
+        // Two downloads at once can both try to issue it; the unique index lets only one through
+        if (error.code !== '23505') throw error;
+        invoice = await getCurrentInvoice(paymentId);
+      }
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.pdf"`);
+    res.send(renderInvoicePdf(invoice));
+
+  } catch (error) {
+    console.error('Download invoice error:', error);
+    res.status(500).json({
+      error: 'Failed to download receipt',
+      message: 'Unable to generate the receipt. Please try again.'
+    });
+  }
+});
+
+// Re-issue a payment's receipt with a new number (admin only), e.g. after correcting the business details or
+// the member's name. The earlier receipt is kept, marked as superseded.
+router.post('/:id/invoice', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const paymentId = parseInt(req.params.id);
+
+    const outcome = await withTransaction(async (tx) => {
+      const paymentResult = await tx('SELECT status FROM payments WHERE id = $1 FOR UPDATE', [paymentId]);
+      if (paymentResult.rows.length === 0) return { error: 'not_found' };
+      if (paymentResult.rows[0].status !== 'confirmed') return { error: 'not_confirmed' };
+
+      return { invoice: await issueInvoice(paymentId, req.user.id, tx) };
+    });
+
+    if (outcome.error === 'not_found') {
+      return res.status(404).json({
+        error: 'Payment not found',
+        message: 'The payment you are looking for does not exist'
+      });
+    }
+
+    if (outcome.error === 'not_confirmed') {
+      return res.status(400).json({
+        error: 'Payment not confirmed',
+        message: 'Only confirmed payments have receipts'
+      });
+    }
+
+    const { invoice } = outcome;
+
+    res.json({
+      message: invoice.replaces_invoice_number
+        ? `Receipt re-issued as ${invoice.invoice_number} (replaces ${invoice.replaces_invoice_number})`
+        : `Receipt ${invoice.invoice_number} issued`,
+      invoice: {
+        id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        replaces_invoice_number: invoice.replaces_invoice_number,
+        issued_at: invoice.issued_at
+      }
+    });
+
+  } catch (error) {
+    console.error('Reissue invoice error:', error);
+    res.status(500).json({
+      error: 'Failed to re-issue receipt',
+      message: 'Unable to re-issue the receipt. Please try again.'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { query } from '../db/connection.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { getDefaultPolicy, POLICY_FIELDS } from '../utils/policies.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validateDefaultPolicy = [
+  body('booking_window_days').isInt({ min: 1, max: 90 }).withMessage('Booking window must be between 1 and 90 days'),
+  body('cancellation_deadline_hours').isInt({ min: 0, max: 168 }).withMessage('Cancellation deadline must be between 0 and 168 hours'),
+  body('credit_limit').isInt({ min: 0, max: 50 }).withMessage('Credit limit must be between 0 and 50 classes'),
+  body('no_show_penalty').optional().isInt({ min: 0, max: 10 }).withMessage('No-show penalty must be between 0 and 10 concessions')
+];
+
+// Class overrides may leave any field null to inherit the gym-wide value
+const validateClassPolicy = [
+  param('classId').isInt({ min: 1 }).withMessage('Valid class ID is required'),
+  body('booking_window_days').optional({ nullable: true }).isInt({ min: 1, max: 90 }).withMessage('Booking window must be between 1 and 90 days'),
+  body('cancellation_deadline_hours').optional({ nullable: true }).isInt({ min: 0, max: 168 }).withMessage('Cancellation deadline must be between 0 and 168 hours'),
+  body('credit_limit').optional({ nullable: true }).isInt({ min: 0, max: 50 }).withMessage('Credit limit must be between 0 and 50 classes'),
+  body('no_show_penalty').optional({ nullable: true }).isInt({ min: 0, max: 10 }).withMessage('No-show penalty must be between 0 and 10 concessions')
+];
+
+// Helper function to list per-class overrides with the class name
+const getClassOverrides = async () => {
+  const result = await query(`
+    SELECT p.class_id, c.name as class_name, p.booking_window_days, p.cancellation_deadline_hours,
+           p.credit_limit, p.no_show_penalty, p.updated_at
+    FROM booking_policies p
+    JOIN classes c ON p.class_id = c.id
+    WHERE p.class_id IS NOT NULL
+    ORDER BY c.name
+  `);
+
+  return result.rows;
+};
+
+// Get booking policies (gym-wide default plus per-class overrides)
+router.get('/policies', authenticateToken, async (req, res) => {
+  try {
+    res.json({
+      defaults: await getDefaultPolicy(),
+      classOverrides: await getClassOverrides()
+    });
+
+  } catch (error) {
+    console.error('Get policies error:', error);
+    res.status(500).json({
+      error: 'Failed to get policies',
+      message: 'Unable to retrieve booking policies'
+    });
+  }
+});
+
+// Update the gym-wide booking policy (admin only)
+router.put('/policies', authenticateToken, requireAdmin, validateDefaultPolicy, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { booking_window_days, cancellation_deadline_hours, credit_limit, no_show_penalty = 0 } = req.body;
+
+    const existing = await query('SELECT id FROM booking_policies WHERE class_id IS NULL LIMIT 1');
+
+    if (existing.rows.length > 0) {
+      await query(`
+        UPDATE booking_policies
+        SET booking_window_days = $1, cancellation_deadline_hours = $2, credit_limit = $3, no_show_penalty = $4, updated_by = $5
+        WHERE id = $6
+      `, [booking_window_days, cancellation_deadline_hours, credit_limit, no_show_penalty, req.user.id, existing.rows[0].id]);
+    } else {
+      await query(`
+        INSERT INTO booking_policies (class_id, booking_window_days, cancellation_deadline_hours, credit_limit, no_show_penalty, updated_by)
+        VALUES (NULL, $1, $2, $3, $4, $5)
+      `, [booking_window_days, cancellation_deadline_hours, credit_limit, no_show_penalty, req.user.id]);
+    }
+
+    res.json({
+      message: 'Booking policy updated successfully',
+      defaults: await getDefaultPolicy()
+    });
+
+  } catch (error) {
+    console.error('Update policies error:', error);
+    res.status(500).json({
+      error: 'Failed to update policies',
+      message: 'Unable to update booking policies. Please try again.'
+    });
+  }
+});
+
+// Set a class's policy overrides (admin only)
+router.put('/policies/classes/:classId', authenticateToken, requireAdmin, validateClassPolicy, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const classId = parseInt(req.params.classId);
+    const values = POLICY_FIELDS.map(field => req.body[field] ?? null);
+
+    const classResult = await query('SELECT id FROM classes WHERE id = $1', [classId]);
+
+    if (classResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Class not found',
+        message: 'The selected class does not exist'
+      });
+    }
+
+    // Nothing left to override - fall back to the gym-wide policy entirely
+    if (values.every(value => value === null)) {
+      await query('DELETE FROM booking_policies WHERE class_id = $1', [classId]);
+    } else {
+      await query(`
+        INSERT INTO booking_policies (class_id, booking_window_days, cancellation_deadline_hours, credit_limit, no_show_penalty, updated_by)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (class_id) DO UPDATE
+          SET booking_window_days = EXCLUDED.booking_window_days,
+              cancellation_deadline_hours = EXCLUDED.cancellation_deadline_hours,
+              credit_limit = EXCLUDED.credit_limit,
+              no_show_penalty = EXCLUDED.no_show_penalty,
+              updated_by = EXCLUDED.updated_by
+      `, [classId, ...values, req.user.id]);
+    }
+
+    res.json({
+      message: 'Class policy updated successfully',
+      classOverrides: await getClassOverrides()
+    });
+
+  } catch (error) {
+    console.error('Update class policy error:', error);
+    res.status(500).json({
+      error: 'Failed to update class policy',
+      message: 'Unable to update class policy. Please try again.'
+    });
+  }
+});
+
+// Remove a class's policy overrides (admin only)
+router.delete('/policies/classes/:classId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const classId = parseInt(req.params.classId);
+
+    await query('DELETE FROM booking_policies WHERE class_id = $1', [classId]);
+
+    res.json({
+      message: 'Class now follows the gym-wide policy',
+      classOverrides: await getClassOverrides()
+    });
+
+  } catch (error) {
+    console.error('Delete class policy error:', error);
+    res.status(500).json({
+      error: 'Failed to reset class policy',
+      message: 'Unable to reset class policy. Please try again.'
+    });
+  }
+});
+
+export default router;
@@ -2,6 +2,8 @@ import express from 'express';
 import { body, validationResult } from 'express-validator';
 import { query } from '../db/connection.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { adjustConcessions, getActivePacks } from '../utils/concessions.js';
+import { toDateString } from '../utils/occurrences.js';
 
 const router = express.Router();
 
@@ -12,7 +14,8 @@ router.get('/', authenticateToken, requireAdmin, async (req, res) => {
       SELECT u.*, 
              COUNT(n.id) as note_count,
              COUNT(b.id) FILTER (WHERE b.status = 'confirmed') as active_bookings,
-             COUNT(b.id) FILTER (WHERE b.status = 'completed') as completed_classes
+             COUNT(b.id) FILTER (WHERE b.status = 'completed') as completed_classes,
+             COUNT(DISTINCT b.id) FILTER (WHERE b.status = 'no-show') as no_show_count
       FROM users u
       LEFT JOIN notes n ON u.id = n.user_id
       LEFT JOIN bookings b ON u.id = b.user_id
@@ -32,7 +35,8 @@ router.get('/', authenticateToken, requireAdmin, async (req, res) => {
       is_active: user.is_active,
       note_count: parseInt(user.note_count),
       active_bookings: parseInt(user.active_bookings),
-      completed_classes: parseInt(user.completed_classes)
+      completed_classes: parseInt(user.completed_classes),
+      no_show_count: parseInt(user.no_show_count)
     }));
 
     res.json({ users });
@@ -55,7 +59,8 @@ router.get('/:id', authenticateToken, requireAdmin, async (req, res) => {
       SELECT u.*, 
              COUNT(n.id) as note_count,
              COUNT(b.id) FILTER (WHERE b.status = 'confirmed') as active_bookings,
-             COUNT(b.id) FILTER (WHERE b.status = 'completed') as completed_classes
+             COUNT(b.id) FILTER (WHERE b.status = 'completed') as completed_classes,
+             COUNT(DISTINCT b.id) FILTER (WHERE b.status = 'no-show') as no_show_count
       FROM users u
       LEFT JOIN notes n ON u.id = n.user_id
       LEFT JOIN bookings b ON u.id = b.user_id
@@ -84,7 +89,8 @@ router.get('/:id', authenticateToken, requireAdmin, async (req, res) => {
         is_active: user.is_active,
         note_count: parseInt(user.note_count),
         active_bookings: parseInt(user.active_bookings),
-        completed_classes: parseInt(user.completed_classes)
+        completed_classes: parseInt(user.completed_classes),
+        no_show_count: parseInt(user.no_show_count)
       }
     });
 
@@ -99,7 +105,8 @@ router.get('/:id', authenticateToken, requireAdmin, async (req, res) => {
 
 // Update user concessions (admin only)
 router.patch('/:id/concessions', authenticateToken, requireAdmin, [
-  body('concessions').isInt().withMessage('Concessions must be a number')
+  body('concessions').isInt().withMessage('Concessions must be a number'),
+  body('note').optional().trim().isLength({ max: 500 }).withMessage('Note must be 500 characters or less')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -112,7 +119,7 @@ router.patch('/:id/concessions', authenticateToken, requireAdmin, [
     }
 
     const userId = parseInt(req.params.id);
-    const { concessions } = req.body;
+    const { concessions, note } = req.body;
 
     // Get current user concessions
     const currentResult = await query('SELECT concessions FROM users WHERE id = $1', [userId]);
@@ -125,16 +132,18 @@ router.patch('/:id/concessions', authenticateToken, requireAdmin, [
     }
 
     const currentConcessions = currentResult.rows[0].concessions;
-    const newConcessions = currentConcessions + concessions;
 
-    // Update user concessions
-    const result = await query(`
-      UPDATE users 
-      SET concessions = $1 
-      WHERE id = $2 
-      RETURNING id, name, email, concessions
-    `, [newConcessions, userId]);
+    // Update user concessions (recorded on the member's statement)
+    const entry = await adjustConcessions({
+      userId,
+      change: concessions,
+      reason: 'admin_adjustment',
+      actorId: req.user.id,
+      note: note || null
+    });
+    const newConcessions = entry.balance_after;
 
+    const result = await query('SELECT id, name, email, concessions FROM users WHERE id = $1', [userId]);
     const updatedUser = result.rows[0];
 
     res.json({
@@ -151,6 +160,90 @@ router.patch('/:id/concessions', authenticateToken, requireAdmin, [
   }
 });
 
+// Get a member's concession statement (own statement or admin)
+router.get('/:id/ledger', authenticateToken, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+
+    if (req.user.role !== 'admin' && req.user.id !== userId) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only view your own statement'
+      });
+    }
+
+    const userResult = await query('SELECT concessions FROM users WHERE id = $1', [userId]);
+
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'The requested user does not exist'
+      });
+    }
+
+    const result = await query(`
+      SELECT l.*, a.name as actor_name, c.name as class_name, b.booking_date, p.reference as payment_reference
+      FROM concession_ledger l
+      LEFT JOIN users a ON l.actor_id = a.id
+      LEFT JOIN bookings b ON l.booking_id = b.id
+      LEFT JOIN classes c ON b.class_id = c.id
+      LEFT JOIN payments p ON l.payment_id = p.id
+      WHERE l.user_id = $1
+      ORDER BY l.created_at DESC, l.id DESC
+    `, [userId]);
+
+    // The balance is the sum of every change; it should always match users.concessions
+    const ledgerBalance = result.rows.reduce((sum, entry) => sum + entry.change, 0);
+    const balance = userResult.rows[0].concessions;
+    if (ledgerBalance !== balance) {
+      console.warn(`⚠️ Concession ledger for user ${userId} totals ${ledgerBalance} but balance is ${balance}`);
+    }
+
+    res.json({
+      entries: result.rows,
+      balance: ledgerBalance
+    });
+
+  } catch (error) {
+    console.error('Get concession ledger error:', error);
+    res.status(500).json({
+      error: 'Failed to get statement',
+      message: 'Unable to retrieve concession statement'
+    });
+  }
+});
+
+// Get the packs holding a member's concessions, soonest to expire first (own packs or admin)
+router.get('/:id/concession-packs', authenticateToken, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+
+    if (req.user.role !== 'admin' && req.user.id !== userId) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only view your own concessions'
+      });
+    }
+
+    const packs = (await getActivePacks(userId)).map(pack => ({
+      ...pack,
+      expires_on: toDateString(pack.expires_on)
+    }));
+
+    res.json({
+      packs,
+      expiring_soon: packs.filter(pack => pack.expiring_soon).reduce((sum, pack) => sum + pack.remaining, 0)
+    });
+
+  } catch (error) {
+    console.error('Get concession packs error:', error);
+    res.status(500).json({
+      error: 'Failed to get concession packs',
+      message: 'Unable to retrieve concession packs'
+    });
+  }
+});
+
 // Toggle user active status (admin only)
 router.patch('/:id/toggle-active', authenticateToken, requireAdmin, async (req, res) => {
   try {
@@ -235,8 +328,10 @@ router.get('/:id/stats', authenticateToken, requireAdmin, async (req, res) => {
         COUNT(*) FILTER (WHERE status = 'completed') as completed_classes,
         COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled_bookings,
         COUNT(*) FILTER (WHERE status = 'late-cancelled') as late_cancelled_bookings,
+        COUNT(*) FILTER (WHERE status = 'no-show') as no_show_count,
+        COALESCE(SUM(no_show_penalty), 0) as no_show_penalties,
         COUNT(*) FILTER (WHERE status = 'confirmed' AND booking_date > CURRENT_DATE) as upcoming_bookings,
-        COALESCE(SUM(CASE WHEN used_concession THEN 1 ELSE 0 END), 0) as concessions_used
+        COALESCE(SUM(CASE WHEN used_concession THEN concessions_charged ELSE 0 END), 0) as concessions_used
       FROM bookings 
       WHERE user_id = $1
     `, [userId]);
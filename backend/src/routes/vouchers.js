@@ -0,0 +1,324 @@
+import express from 'express';
+import { body, query as queryParam, validationResult } from 'express-validator';
+import { query } from '../db/connection.js';
+import { authenticateToken, requireAdmin, requireUser } from '../middleware/auth.js';
+import {
+  VOUCHER_TYPES,
+  COUNTED_REDEMPTION,
+  VOUCHER_ERRORS,
+  normalizeVoucherCode,
+  redeemConcessionVoucher
+} from '../utils/vouchers.js';
+
+const router = express.Router();
+
+// Validation middleware
+const validateVoucher = [
+  body('code').customSanitizer(normalizeVoucherCode).matches(/^[A-Z0-9-]{3,32}$/).withMessage('Code must be 3-32 letters, numbers or dashes'),
+  body('description').optional({ nullable: true }).trim().isLength({ max: 255 }).withMessage('Description must be 255 characters or less'),
+  body('voucher_type').isIn(VOUCHER_TYPES).withMessage('Voucher type must be concessions or percent_off'),
+  body('concessions').if(body('voucher_type').equals('concessions')).isInt({ min: 1, max: 100 }).withMessage('Free concessions must be between 1 and 100'),
+  body('validity_months').optional({ nullable: true }).isInt({ min: 1, max: 36 }).withMessage('Validity must be between 1 and 36 months'),
+  body('percent_off').if(body('voucher_type').equals('percent_off')).isInt({ min: 1, max: 100 }).withMessage('Discount must be between 1% and 100%'),
+  body('package_id').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Invalid package'),
+  body('max_uses').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Maximum uses must be at least 1'),
+  body('expires_on').optional({ nullable: true }).isISO8601().withMessage('Expiry must be a date (YYYY-MM-DD)'),
+  body('new_members_only').optional().isBoolean().withMessage('New members only must be true or false'),
+  body('is_active').optional().isBoolean().withMessage('Active must be true or false')
+];
+
+const validateReport = [
+  queryParam('voucher_id').optional().isInt({ min: 1 }).withMessage('Invalid voucher'),
+  queryParam('user_id').optional().isInt({ min: 1 }).withMessage('Invalid member'),
+  queryParam('from').optional().isISO8601().withMessage('From must be a date (YYYY-MM-DD)'),
+  queryParam('to').optional().isISO8601().withMessage('To must be a date (YYYY-MM-DD)')
+];
+
+// Helper function to convert DECIMAL and COUNT columns into numbers for the client
+const formatVoucher = (voucher) => ({
+  ...voucher,
+  use_count: parseInt(voucher.use_count) || 0,
+  concessions_given: parseInt(voucher.concessions_given) || 0,
+  discount_given: parseFloat(voucher.discount_given) || 0
+});
+
+const formatRedemption = (redemption) => ({
+  ...redemption,
+  discount_amount: parseFloat(redemption.discount_amount),
+  payment_amount: redemption.payment_amount === null ? null : parseFloat(redemption.payment_amount)
+});
+
+// Helper function to send the response for a code that can't be used
+const sendVoucherError = (res, error) => {
+  const { status, ...body } = VOUCHER_ERRORS[error];
+  return res.status(status).json(body);
+};
+
+// Helper function to pull a voucher's rules out of a request, dropping the settings its type doesn't use
+const getVoucherInput = (reqBody) => {
+  const isConcessions = reqBody.voucher_type === 'concessions';
+  return [
+    reqBody.code,
+    reqBody.description || null,
+    reqBody.voucher_type,
+    isConcessions ? reqBody.concessions : null,
+    isConcessions ? reqBody.validity_months ?? null : null,
+    isConcessions ? null : reqBody.percent_off,
+    isConcessions ? null : reqBody.package_id ?? null,
+    reqBody.max_uses ?? null,
+    reqBody.expires_on || null,
+    reqBody.new_members_only ?? false
+  ];
+};
+
+// Get every voucher with how often it's been used (admin only). Discounts only count once the purchase is confirmed.
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT v.*, cp.name as package_name,
+             COUNT(vr.id) FILTER (WHERE ${COUNTED_REDEMPTION}) as use_count,
+             COALESCE(SUM(vr.concessions), 0) as concessions_given,
+             COALESCE(SUM(vr.discount_amount) FILTER (WHERE p.status = 'confirmed'), 0) as discount_given
+      FROM vouchers v
+      LEFT JOIN concession_packages cp ON v.package_id = cp.id
+      LEFT JOIN voucher_redemptions vr ON vr.voucher_id = v.id
+      LEFT JOIN payments p ON vr.payment_id = p.id
+      GROUP BY v.id, cp.name
+      ORDER BY v.is_active DESC, v.created_at DESC
+    `);
+
+    res.json({ vouchers: result.rows.map(formatVoucher) });
+
+  } catch (error) {
+    console.error('Get vouchers error:', error);
+    res.status(500).json({
+      error: 'Failed to get vouchers',
+      message: 'Unable to retrieve vouchers'
+    });
+  }
+});
+
+// Redemption report (admin only): every redemption, filtered by code, member and date, with totals
+router.get('/redemptions', authenticateToken, requireAdmin, validateReport, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const { voucher_id, user_id, from, to } = req.query;
+
+    const result = await query(`
+      SELECT vr.*, v.code, v.voucher_type, u.name as user_name, u.email as user_email,
+             p.reference as payment_reference, p.status as payment_status, p.amount as payment_amount,
+             NOT ${COUNTED_REDEMPTION} as is_void
+      FROM voucher_redemptions vr
+      JOIN vouchers v ON vr.voucher_id = v.id
+      LEFT JOIN users u ON vr.user_id = u.id
+      LEFT JOIN payments p ON vr.payment_id = p.id
+      WHERE ($1::int IS NULL OR vr.voucher_id = $1)
+        AND ($2::int IS NULL OR vr.user_id = $2)
+        AND ($3::date IS NULL OR vr.redeemed_at >= $3::date)
+        AND ($4::date IS NULL OR vr.redeemed_at < $4::date + 1)
+      ORDER BY vr.redeemed_at DESC, vr.id DESC
+    `, [voucher_id || null, user_id || null, from || null, to || null]);
+
+    const redemptions = result.rows.map(formatRedemption);
+    const counted = redemptions.filter(r => !r.is_void);
+
+    res.json({
+      redemptions,
+      totals: {
+        redemptions: counted.length,
+        members: new Set(counted.map(r => r.user_id)).size,
+        concessions: counted.reduce((sum, r) => sum + r.concessions, 0),
+        discount: Math.round(counted.filter(r => r.payment_status === 'confirmed').reduce((sum, r) => sum + r.discount_amount, 0) * 100) / 100
+      }
+    });
+
+  } catch (error) {
+    console.error('Get voucher redemptions error:', error);
+    res.status(500).json({
+      error: 'Failed to get redemptions',
+      message: 'Unable to retrieve voucher redemptions'
+    });
+  }
+});
+
+// Create a voucher (admin only)
+router.post('/', authenticateToken, requireAdmin, validateVoucher, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const result = await query(`
+      INSERT INTO vouchers (code, description, voucher_type, concessions, validity_months, percent_off, package_id, max_uses, expires_on, new_members_only, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (code) DO NOTHING
+      RETURNING *
+    `, [...getVoucherInput(req.body), req.user.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({
+        error: 'Code already exists',
+        message: 'A voucher with this code already exists'
+      });
+    }
+
+    res.status(201).json({
+      message: 'Voucher created successfully',
+      voucher: formatVoucher(result.rows[0])
+    });
+
+  } catch (error) {
+    if (error.code === '23503') {
+      return res.status(400).json({
+        error: 'Package not found',
+        message: 'The package this discount is for does not exist'
+      });
+    }
+    console.error('Create voucher error:', error);
+    res.status(500).json({
+      error: 'Failed to create voucher',
+      message: 'Unable to create voucher. Please try again.'
+    });
+  }
+});
+
+// Update a voucher's rules (admin only). Redemptions already made are kept as they were.
+router.put('/:id', authenticateToken, requireAdmin, validateVoucher, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const voucherId = parseInt(req.params.id);
+
+    const duplicateResult = await query('SELECT id FROM vouchers WHERE code = $1 AND id <> $2', [req.body.code, voucherId]);
+    if (duplicateResult.rows.length > 0) {
+      return res.status(409).json({
+        error: 'Code already exists',
+        message: 'A voucher with this code already exists'
+      });
+    }
+
+    const result = await query(`
+      UPDATE vouchers
+      SET code = $1, description = $2, voucher_type = $3, concessions = $4, validity_months = $5, percent_off = $6,
+          package_id = $7, max_uses = $8, expires_on = $9, new_members_only = $10, is_active = $11
+      WHERE id = $12
+      RETURNING *
+    `, [...getVoucherInput(req.body), req.body.is_active ?? true, voucherId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Voucher not found',
+        message: 'The voucher you are trying to update does not exist'
+      });
+    }
+
+    res.json({
+      message: 'Voucher updated successfully',
+      voucher: formatVoucher(result.rows[0])
+    });
+
+  } catch (error) {
+    if (error.code === '23503') {
+      return res.status(400).json({
+        error: 'Package not found',
+        message: 'The package this discount is for does not exist'
+      });
+    }
+    console.error('Update voucher error:', error);
+    res.status(500).json({
+      error: 'Failed to update voucher',
+      message: 'Unable to update voucher. Please try again.'
+    });
+  }
+});
+
+// Retire a voucher (admin only). Its redemptions stay in the reports.
+router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await query(
+      'UPDATE vouchers SET is_active = false WHERE id = $1 RETURNING *',
+      [parseInt(req.params.id)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Voucher not found',
+        message: 'The voucher you are trying to retire does not exist'
+      });
+    }
+
+    res.json({ message: `${result.rows[0].code} retired` });
+
+  } catch (error) {
+    console.error('Retire voucher error:', error);
+    res.status(500).json({
+      error: 'Failed to retire voucher',
+      message: 'Unable to retire voucher. Please try again.'
+    });
+  }
+});
+
+// Redeem a free-concessions code (members). Discount codes are entered when buying a package instead.
+router.post('/redeem', authenticateToken, requireUser, [
+  body('code').trim().notEmpty().withMessage('Please enter a code')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: errors.array()
+      });
+    }
+
+    const outcome = await redeemConcessionVoucher({
+      code: req.body.code,
+      userId: req.user.id,
+      source: 'dashboard',
+      actorId: req.user.id
+    });
+
+    if (outcome.error) {
+      return sendVoucherError(res, outcome.error);
+    }
+
+    const { voucher, redemption, entry, balanceHolder } = outcome;
+    const isShared = balanceHolder.id !== req.user.id;
+
+    res.status(201).json({
+      message: `${voucher.concessions} free concession${voucher.concessions === 1 ? '' : 's'} added to ${isShared ? `${balanceHolder.name}'s household balance` : 'your balance'}`,
+      redemption,
+      newBalance: entry.balance_after
+    });
+
+  } catch (error) {
+    console.error('Redeem voucher error:', error);
+    res.status(500).json({
+      error: 'Failed to redeem code',
+      message: 'Unable to redeem this code. Please try again.'
+    });
+  }
+});
+
+export default router;
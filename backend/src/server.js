@@ -12,9 +12,27 @@ import classRoutes from './routes/classes.js';
 import bookingRoutes from './routes/bookings.js';
 import userRoutes from './routes/users.js';
 import noteRoutes from './routes/notes.js';
+import paymentRoutes from './routes/payments.js';
+import settingsRoutes from './routes/settings.js';
+import calendarRoutes from './routes/calendar.js';
+import instructorRoutes from './routes/instructors.js';
+import locationRoutes from './routes/locations.js';
+import classTypeRoutes from './routes/classTypes.js';
+import concessionPackageRoutes from './routes/concessionPackages.js';
+import bankImportRoutes from './routes/bankImports.js';
+import membershipRoutes from './routes/memberships.js';
+import householdRoutes from './routes/households.js';
+import voucherRoutes from './routes/vouchers.js';
+import notificationRoutes from './routes/notifications.js';
 
 // Import database connection
 import { testConnection } from './db/connection.js';
+import { getTransportName } from './utils/mail.js';
+
+// Import scheduled jobs
+import { runStandingBookings, STANDING_BOOKINGS_INTERVAL_MS } from './utils/standingBookings.js';
+import { expireConcessionPacks, CONCESSION_EXPIRY_INTERVAL_MS } from './utils/concessions.js';
+import { deliverPendingNotifications, NOTIFICATION_OUTBOX_INTERVAL_MS } from './utils/notifications.js';
 
 // Load environment variables
 dotenv.config();
@@ -71,7 +89,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key']
 }));
 
 // Body parsing middleware
@@ -94,6 +112,18 @@ app.use('/api/classes', classRoutes);
 app.use('/api/bookings', bookingRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/notes', noteRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/settings', settingsRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/instructors', instructorRoutes);
+app.use('/api/locations', locationRoutes);
+app.use('/api/class-types', classTypeRoutes);
+app.use('/api/concession-packages', concessionPackageRoutes);
+app.use('/api/bank-imports', bankImportRoutes);
+app.use('/api/memberships', membershipRoutes);
+app.use('/api/households', householdRoutes);
+app.use('/api/vouchers', voucherRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -161,9 +191,69 @@ app.use((req, res) => {
   });
 });
 
+// Book standing (weekly) bookings as their dates enter the booking window
+const scheduleStandingBookings = () => {
+  const run = async () => {
+    try {
+      const { processed, booked, skipped } = await runStandingBookings();
+      if (booked > 0 || skipped > 0) {
+        console.log(`🔁 Standing bookings: ${processed} processed, ${booked} booked, ${skipped} skipped`);
+      }
+    } catch (error) {
+      console.error('❌ Standing bookings job failed:', error);
+    }
+  };
+
+  run();
+  setInterval(run, STANDING_BOOKINGS_INTERVAL_MS);
+};
+
+// Expire leftover concessions in packs past their last day: once at startup to catch up, then nightly just after midnight
+const scheduleConcessionExpiry = () => {
+  const run = async () => {
+    try {
+      const { packs, concessions } = await expireConcessionPacks();
+      if (packs > 0) {
+        console.log(`⌛ Concession expiry: ${concessions} concession(s) expired from ${packs} pack(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Concession expiry job failed:', error);
+    }
+  };
+
+  const nextRun = new Date();
+  nextRun.setHours(24, 5, 0, 0);
+
+  run();
+  setTimeout(() => {
+    run();
+    setInterval(run, CONCESSION_EXPIRY_INTERVAL_MS);
+  }, nextRun.getTime() - Date.now());
+};
+
+// Deliver queued notifications, retrying the ones that failed once their retry is due
+const scheduleNotificationOutbox = () => {
+  const run = async () => {
+    try {
+      const { sent, failed } = await deliverPendingNotifications();
+      if (sent > 0 || failed > 0) {
+        console.log(`📬 Notifications: ${sent} sent, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('❌ Notification outbox job failed:', error);
+    }
+  };
+
+  run();
+  setInterval(run, NOTIFICATION_OUTBOX_INTERVAL_MS);
+};
+
 // Start server
 const startServer = async () => {
   try {
+    // Refuse to start without a way to send emails (throws in production when MAIL_TRANSPORT isn't set)
+    console.log(`📧 Mail transport: ${getTransportName()}`);
+
     // Test database connection
     console.log('🔍 Testing database connection...');
     await testConnection();
@@ -178,6 +268,10 @@ const startServer = async () => {
       if (NODE_ENV === 'development') {
         console.log(`📖 API Documentation: http://localhost:${PORT}/api/docs`);
       }
+
+      scheduleStandingBookings();
+      scheduleConcessionExpiry();
+      scheduleNotificationOutbox();
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
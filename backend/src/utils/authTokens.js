@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { query } from '../db/connection.js';
+import { sendMail, frontendLink } from './mail.js';
+
+// How long the link in each kind of email works for
+export const AUTH_TOKEN_TTL_MINUTES = {
+  password_reset: 60,
+  email_verification: 48 * 60
+};
+
+// Why a link from an email can't be used, with the response to send for each
+export const AUTH_TOKEN_ERRORS = {
+  invalid: { status: 400, error: 'Invalid link', message: 'This link is not valid. Please request a new one.' },
+  expired: { status: 400, error: 'Link expired', message: 'This link has expired. Please request a new one.' },
+  used: { status: 400, error: 'Link already used', message: 'This link has already been used. Please request a new one if you need to.' }
+};
+
+// Only a hash of each token is stored, so the table can't be used to take over an account
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+// Create a single-use token for a member, replacing any unused one for the same purpose. Returns the token
+// to put in the emailed link.
+export const createAuthToken = async (userId, purpose, db = query) => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await db('DELETE FROM auth_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL', [userId, purpose]);
+  await db(`
+    INSERT INTO auth_tokens (user_id, purpose, token_hash, expires_at)
+    VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(mins => $4))
+  `, [userId, purpose, hashToken(token), AUTH_TOKEN_TTL_MINUTES[purpose]]);
+
+  return token;
+};
+
+// Use up a token from a link. Returns { userId } or { error }, a key of AUTH_TOKEN_ERRORS. Run inside the
+// transaction that acts on it, so it's only used up when the action goes through.
+export const consumeAuthToken = async (token, purpose, tx) => {
+  const result = await tx(`
+    SELECT id, user_id, used_at, expires_at < CURRENT_TIMESTAMP as has_expired
+    FROM auth_tokens
+    WHERE token_hash = $1 AND purpose = $2
+    FOR UPDATE
+  `, [hashToken(token), purpose]);
+
+  const authToken = result.rows[0];
+  if (!authToken) return { error: 'invalid' };
+  if (authToken.used_at) return { error: 'used' };
+  if (authToken.has_expired) return { error: 'expired' };
+
+  await tx('UPDATE auth_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = $1', [authToken.id]);
+  return { userId: authToken.user_id };
+};
+
+// Email a member a link to choose a new password
+export const sendPasswordResetEmail = async (user) => {
+  const token = await createAuthToken(user.id, 'password_reset');
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your FlexBook password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your FlexBook password. Choose a new one here:',
+      frontendLink('/reset-password', { token }),
+      '',
+      `The link works once and expires in ${AUTH_TOKEN_TTL_MINUTES.password_reset} minutes. If you didn't ask to reset your password you can ignore this email.`
+    ].join('\n')
+  });
+};
+
+// Email a member a link to confirm their email address
+export const sendVerificationEmail = async (user) => {
+  const token = await createAuthToken(user.id, 'email_verification');
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your email for FlexBook',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Welcome to FlexBook! Please confirm this is your email address:',
+      frontendLink('/verify-email', { token }),
+      '',
+      `The link expires in ${AUTH_TOKEN_TTL_MINUTES.email_verification / 60} hours.`
+    ].join('\n')
+  });
+};
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+
+// Column layouts of the statement CSVs exported by the main NZ banks. Reference columns are searched
+// (in order) for the payment reference the member quoted.
+export const BANK_STATEMENT_FORMATS = {
+  anz: {
+    name: 'ANZ',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Details', reference: ['Particulars', 'Code', 'Reference'], date_format: 'DD/MM/YYYY' }
+  },
+  asb: {
+    name: 'ASB',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Payee', reference: ['Memo'], date_format: 'YYYY/MM/DD' }
+  },
+  bnz: {
+    name: 'BNZ',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Payee', reference: ['Particulars', 'Code', 'Reference'], date_format: 'DD/MM/YY' }
+  },
+  westpac: {
+    name: 'Westpac',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Other Party', reference: ['Particulars', 'Analysis Code', 'Reference', 'Description'], date_format: 'DD/MM/YYYY' }
+  },
+  kiwibank: {
+    name: 'Kiwibank',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'OP name', reference: ['OP part', 'OP code', 'OP ref', 'Memo/Description'], date_format: 'DD-MM-YYYY' }
+  }
+};
+
+export const DATE_FORMATS = ['DD/MM/YYYY', 'DD/MM/YY', 'YYYY/MM/DD', 'DD-MM-YYYY', 'YYYY-MM-DD'];
+
+// Split CSV text into rows of cells, handling quoted cells with commas, escaped quotes and line breaks
+export const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c !== ''));
+};
+
+// Helper function to read a statement date as YYYY-MM-DD (null if it doesn't fit the format)
+export const parseStatementDate = (value, format) => {
+  const parts = String(value).trim().split(/[/-]/);
+  if (parts.length !== 3) return null;
+
+  let day, month, year;
+  if (format.startsWith('YYYY')) {
+    [year, month, day] = parts;
+  } else {
+    [day, month, year] = parts;
+  }
+  if (year.length === 2) year = `20${year}`;
+
+  const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== parseInt(day)) return null;
+
+  return date.toISOString().split('T')[0];
+};
+
+// Helper function to read an amount such as "1,234.50" or "$70.00" (null if it isn't a number)
+export const parseStatementAmount = (value) => {
+  const amount = parseFloat(String(value).replace(/[$,\s]/g, ''));
+  return isNaN(amount) ? null : Math.round(amount * 100) / 100;
+};
+
+// Helper function to compare references however the member typed them ("fb 7kq2xm" matches FB-7KQ2XM)
+export const normaliseReference = (value) => String(value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Read the transactions out of a statement. Banks put account details above the header row, so the
+// header is the first row containing the mapped date and amount columns. Withdrawals are left out.
+export const readStatement = (text, mapping) => {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(r => r.includes(mapping.date) && r.includes(mapping.amount));
+  if (headerIndex === -1) {
+    return { error: `Couldn't find the "${mapping.date}" and "${mapping.amount}" columns in this file`, transactions: [], skipped: 0 };
+  }
+
+  const headers = rows[headerIndex];
+  const column = (name) => headers.indexOf(name);
+  const referenceColumns = (mapping.reference || []).map(column).filter(i => i !== -1);
+  const payerColumn = mapping.payer ? column(mapping.payer) : -1;
+
+  const transactions = [];
+  let skipped = 0;
+  const seen = {};
+
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const date = parseStatementDate(row[column(mapping.date)] ?? '', mapping.date_format);
+    const amount = parseStatementAmount(row[column(mapping.amount)] ?? '');
+
+    if (!date || amount === null) {
+      skipped++;
+      return;
+    }
+    if (amount <= 0) return;
+
+    const reference = referenceColumns.map(i => row[i]).filter(Boolean).join(' ');
+    const payer = payerColumn !== -1 ? row[payerColumn] || '' : '';
+
+    // Identical lines in one statement (two $70 transfers from the same person on the same day) are told
+    // apart by how many times they've appeared, so re-importing the statement gives the same fingerprints
+    const key = [date, amount.toFixed(2), normaliseReference(reference), payer.toUpperCase()].join('|');
+    seen[key] = (seen[key] || 0) + 1;
+
+    transactions.push({
+      row_number: headerIndex + index + 2,
+      transaction_date: date,
+      amount,
+      payer,
+      reference,
+      fingerprint: crypto.createHash('sha256').update(`${key}|${seen[key]}`).digest('hex')
+    });
+  });
+
+  return { error: null, transactions, skipped };
+};
+
+// Helper function to count the single-character edits between two strings
+const editDistance = (a, b) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// Helper function to pull the references a transaction description could be quoting: each word, plus runs of up
+// to three neighbouring words joined up (for a reference typed with spaces or dashes, e.g. "FB 7KQ2XM")
+const getReferenceTokens = (description) => {
+  const parts = String(description || '').toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  const tokens = new Set();
+  parts.forEach((_, start) => {
+    for (let end = start + 1; end <= Math.min(start + 3, parts.length); end++) {
+      tokens.add(parts.slice(start, end).join(''));
+    }
+  });
+  return tokens;
+};
+
+// Match a statement transaction against the pending payments (each with user_name).
+// - matched: the whole reference appears in the transaction and the amount is exact, so it can be confirmed
+// - review: a likely match for an admin to check (wrong amount, a mistyped reference, or just the payer's name)
+// - unmatched: nothing looks close
+export const matchTransaction = (transaction, pendingPayments) => {
+  const text = normaliseReference(transaction.reference);
+  const words = [text, ...String(transaction.reference).toUpperCase().split(/[^A-Z0-9-]+/).map(normaliseReference)]
+    .filter(w => w.length >= 4);
+  const sameAmount = (payment) => Math.abs(parseFloat(payment.amount) - transaction.amount) < 0.005;
+
+  // Only a whole reference counts, so DROPIN-12 doesn't match DROPIN-1. Very short references (from claims made
+  // before references were generated) are too easy to hit by chance.
+  const tokens = getReferenceTokens(transaction.reference);
+  const byReference = pendingPayments.find(p => normaliseReference(p.reference).length >= 6 && tokens.has(normaliseReference(p.reference)));
+  if (byReference && sameAmount(byReference)) {
+    return { status: 'matched', payment: byReference, reason: 'Reference and amount match' };
+  }
+  if (byReference) {
+    return {
+      status: 'review',
+      payment: byReference,
+      reason: `Reference matches but the amount is $${transaction.amount.toFixed(2)}, not $${parseFloat(byReference.amount).toFixed(2)}`
+    };
+  }
+
+  const byTypo = pendingPayments.find(p => sameAmount(p) && p.reference &&
+    words.some(w => editDistance(w, normaliseReference(p.reference)) <= 2));
+  if (byTypo) {
+    return { status: 'review', payment: byTypo, reason: `Amount matches and the reference looks like ${byTypo.reference}` };
+  }
+
+  const payer = String(transaction.payer).toUpperCase();
+  const byName = pendingPayments.filter(p => {
+    const nameParts = String(p.user_name || '').toUpperCase().split(/\s+/).filter(part => part.length >= 3);
+    return sameAmount(p) && nameParts.length > 0 && nameParts.every(part => payer.includes(part));
+  });
+  if (byName.length === 1) {
+    return { status: 'review', payment: byName[0], reason: `Amount matches and the payer looks like ${byName[0].user_name}` };
+  }
+
+  return { status: 'unmatched', payment: null, reason: null };
+};
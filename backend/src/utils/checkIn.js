@@ -0,0 +1,43 @@
+import jwt from 'jsonwebtoken';
+
+// Check-in codes expire quickly so a screenshot can't be passed around or reused later
+export const CHECK_IN_TOKEN_TTL_SECONDS = 5 * 60;
+
+// How early before the class starts the kiosk accepts check-ins
+export const CHECK_IN_OPENS_MINUTES = 60;
+
+// Separate audience so a check-in code can never be used as a login token (and vice versa)
+const CHECK_IN_AUDIENCE = 'flexbook-check-in';
+
+// Helper function to sign a check-in code for a booking
+export const createCheckInToken = (bookingId) => {
+  const token = jwt.sign(
+    { bookingId },
+    process.env.JWT_SECRET,
+    { audience: CHECK_IN_AUDIENCE, expiresIn: CHECK_IN_TOKEN_TTL_SECONDS }
+  );
+
+  return {
+    token,
+    expires_at: new Date(Date.now() + CHECK_IN_TOKEN_TTL_SECONDS * 1000).toISOString()
+  };
+};
+
+// Helper function to read the booking from a check-in code ({ error } when forged or expired)
+export const verifyCheckInToken = (token) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET, { audience: CHECK_IN_AUDIENCE });
+    return { bookingId: decoded.bookingId };
+  } catch (error) {
+    return { error: error.name === 'TokenExpiredError' ? 'expired' : 'invalid' };
+  }
+};
+
+// Helper function to check if check-in is open for a session (from shortly before it starts until the end of the day)
+export const isCheckInOpen = (bookingDate, classTime) => {
+  const now = new Date();
+  const opensAt = new Date(`${bookingDate}T${classTime}:00`).getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000;
+  const closesAt = new Date(`${bookingDate}T23:59:59`).getTime();
+
+  return now.getTime() >= opensAt && now.getTime() <= closesAt;
+};
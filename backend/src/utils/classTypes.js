@@ -0,0 +1,25 @@
+import { query } from '../db/connection.js';
+
+// Icons an admin can pick for a class type (lucide icon names the frontend knows how to draw)
+export const CLASS_TYPE_ICONS = [
+  'activity', 'dumbbell', 'flame', 'flower-2', 'heart', 'bike', 'waves', 'zap', 'timer', 'footprints', 'sparkles', 'swords'
+];
+
+// Work out a class's time of day from its start time (HH:MM or HH:MM:SS). Evening starts at 17:00.
+export const getTimeOfDay = (time) => {
+  const hour = parseInt(String(time).split(':')[0]);
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+};
+
+// Look up the class type chosen on a class form (error is set when it doesn't exist or has been deactivated)
+export const resolveClassType = async (classTypeId, db = query) => {
+  const result = await db('SELECT * FROM class_types WHERE id = $1', [classTypeId]);
+  const classType = result.rows[0];
+
+  if (!classType) return { classType: null, error: 'not_found' };
+  if (!classType.is_active) return { classType, error: 'inactive' };
+
+  return { classType, error: null };
+};
@@ -0,0 +1,242 @@
+import { query, withTransaction } from '../db/connection.js';
+import { notifyIfLowBalance } from './notifications.js';
+
+// How often the nightly expiry job runs
+export const CONCESSION_EXPIRY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead members are warned about concessions that are about to expire
+export const EXPIRY_WARNING_DAYS = 14;
+
+// Names for packs credited by something other than a purchase
+const PACK_NAMES = {
+  opening_balance: 'Opening balance',
+  refund: 'Refund',
+  admin_adjustment: 'Added by the gym'
+};
+
+// Helper function to record a change against one of a member's packs
+const recordPackUsage = async (ledgerId, packId, change, db) => {
+  await db('UPDATE concession_packs SET remaining = remaining + $1 WHERE id = $2', [change, packId]);
+  await db('INSERT INTO concession_pack_usage (ledger_id, pack_id, change) VALUES ($1, $2, $3)', [ledgerId, packId, change]);
+};
+
+// Take concessions from the member's packs, soonest to expire first. Packs past their last day are skipped
+// even if the nightly job hasn't expired them yet. Anything the packs can't cover is booked on credit.
+const consumeFromPacks = async (entry, amount, packId, db) => {
+  const packsResult = await db(`
+    SELECT id, remaining FROM concession_packs
+    WHERE user_id = $1 AND remaining > 0 AND expired_at IS NULL
+      AND ($2::int IS NULL OR id = $2)
+      AND ($2::int IS NOT NULL OR expires_on IS NULL OR expires_on >= CURRENT_DATE)
+    ORDER BY expires_on NULLS LAST, created_at, id
+  `, [entry.user_id, packId]);
+
+  let needed = amount;
+  for (const pack of packsResult.rows) {
+    if (needed === 0) break;
+    const taken = Math.min(pack.remaining, needed);
+    await recordPackUsage(entry.id, pack.id, -taken, db);
+    needed -= taken;
+  }
+};
+
+// Return a booking's concessions to the packs it took them from. Returns how many couldn't be placed
+// (concessions that were booked on credit), and the packs that have expired since.
+const refundToPacks = async (entry, amount, db) => {
+  const usageResult = await db(`
+    SELECT u.pack_id, -SUM(u.change) as taken, cp.expires_on < CURRENT_DATE OR cp.expired_at IS NOT NULL as has_expired
+    FROM concession_pack_usage u
+    JOIN concession_ledger l ON u.ledger_id = l.id
+    JOIN concession_packs cp ON u.pack_id = cp.id
+    WHERE l.booking_id = $1 AND l.user_id = $2 AND l.reason IN ('booking', 'no_show_penalty', 'refund')
+    GROUP BY u.pack_id, cp.expires_on, cp.expired_at, cp.created_at
+    HAVING SUM(u.change) < 0
+    ORDER BY cp.expires_on DESC NULLS FIRST, cp.created_at DESC
+  `, [entry.booking_id, entry.user_id]);
+
+  let left = amount;
+  const expiredPacks = [];
+  for (const usage of usageResult.rows) {
+    if (left === 0) break;
+    const returned = Math.min(parseInt(usage.taken), left);
+    await recordPackUsage(entry.id, usage.pack_id, returned, db);
+    if (usage.has_expired) expiredPacks.push(usage.pack_id);
+    left -= returned;
+  }
+
+  return { left, expiredPacks };
+};
+
+// Credit concessions to a new pack, after paying off anything booked on credit. balanceBefore is the
+// balance before this amount, so whatever the packs hold beyond it is owed.
+const creditNewPack = async (entry, amount, { balanceBefore, packName, validityMonths, paymentId }, db) => {
+  const packsResult = await db(
+    'SELECT COALESCE(SUM(remaining), 0) as total FROM concession_packs WHERE user_id = $1 AND expired_at IS NULL',
+    [entry.user_id]
+  );
+  const owed = Math.max(0, parseInt(packsResult.rows[0].total) - balanceBefore);
+  const credited = amount - Math.min(owed, amount);
+  if (credited === 0) return;
+
+  const packResult = await db(`
+    INSERT INTO concession_packs (user_id, payment_id, name, concessions, remaining, expires_on)
+    VALUES ($1, $2, $3, $4, 0, CASE WHEN $5::int IS NULL THEN NULL ELSE (CURRENT_DATE + make_interval(months => $5::int))::date - 1 END)
+    RETURNING id
+  `, [entry.user_id, paymentId, packName || PACK_NAMES[entry.reason] || 'Concessions', credited, validityMonths]);
+
+  await recordPackUsage(entry.id, packResult.rows[0].id, credited, db);
+};
+
+const applyConcessionChange = async ({
+  userId,
+  change,
+  reason,
+  actorId,
+  bookingId,
+  paymentId,
+  note,
+  packId,
+  packName,
+  validityMonths
+}, db) => {
+  const userResult = await db('SELECT concessions FROM users WHERE id = $1 FOR UPDATE', [userId]);
+  if (userResult.rows.length === 0) return null;
+  const balanceBefore = userResult.rows[0].concessions;
+
+  const result = await db(`
+    WITH updated AS (
+      UPDATE users SET concessions = concessions + $2 WHERE id = $1
+      RETURNING id, concessions
+    )
+    INSERT INTO concession_ledger (user_id, change, balance_after, reason, actor_id, booking_id, payment_id, note)
+    SELECT id, $2, concessions, $3, $4, $5, $6, $7 FROM updated
+    RETURNING *
+  `, [userId, change, reason, actorId, bookingId, paymentId, note]);
+  const entry = result.rows[0];
+
+  if (change < 0) {
+    await consumeFromPacks(entry, -change, packId, db);
+    await notifyIfLowBalance(userId, balanceBefore, entry.balance_after, db);
+  } else if (change > 0) {
+    let left = change;
+    let expiredPacks = [];
+    if (reason === 'refund' && bookingId) {
+      ({ left, expiredPacks } = await refundToPacks(entry, change, db));
+    }
+    if (left > 0) {
+      await creditNewPack(entry, left, { balanceBefore: balanceBefore + change - left, packName, validityMonths, paymentId }, db);
+    }
+
+    // Concessions returned to a pack that has run out expire straight away
+    for (const expiredPackId of expiredPacks) {
+      await expirePack(expiredPackId, db);
+    }
+  }
+
+  return entry;
+};
+
+// Apply a change to a member's balance, append the matching ledger entry and move the concessions in or out
+// of their packs, so users.concessions never drifts from the ledger or the packs. Debits come out of the
+// pack that expires first; refunds for a booking go back to the packs it used; other credits start a new
+// pack (expiring after validityMonths, if given). Returns the ledger entry (null if the user is missing).
+// Pass a transaction's query function as db to make the change part of that transaction.
+export const adjustConcessions = async ({
+  userId,
+  change,
+  reason,
+  actorId = null,
+  bookingId = null,
+  paymentId = null,
+  note = null,
+  packId = null,
+  packName = null,
+  validityMonths = null
+}, db = query) => {
+  const adjustment = { userId, change, reason, actorId, bookingId, paymentId, note, packId, packName, validityMonths };
+
+  if (db === query) {
+    return withTransaction((tx) => applyConcessionChange(adjustment, tx));
+  }
+  return applyConcessionChange(adjustment, db);
+};
+
+// Helper function to expire what's left of a pack and mark it expired
+const expirePack = async (packId, db) => {
+  const packResult = await db('SELECT * FROM concession_packs WHERE id = $1 FOR UPDATE', [packId]);
+  const pack = packResult.rows[0];
+  if (!pack) return null;
+
+  if (pack.remaining > 0) {
+    await applyConcessionChange({
+      userId: pack.user_id,
+      change: -pack.remaining,
+      reason: 'expiry',
+      actorId: null,
+      bookingId: null,
+      paymentId: pack.payment_id,
+      note: `${pack.name} expired`,
+      packId: pack.id
+    }, db);
+  }
+
+  await db('UPDATE concession_packs SET expired_at = CURRENT_TIMESTAMP WHERE id = $1 AND expired_at IS NULL', [packId]);
+  return { pack, expired: pack.remaining };
+};
+
+// Expire the leftovers of every pack past its last day (run nightly). Each pack expires in its own transaction.
+export const expireConcessionPacks = async () => {
+  const packsResult = await query(`
+    SELECT id FROM concession_packs
+    WHERE expired_at IS NULL AND expires_on < CURRENT_DATE
+    ORDER BY expires_on, id
+  `);
+
+  let packs = 0;
+  let concessions = 0;
+  for (const { id } of packsResult.rows) {
+    const outcome = await withTransaction((tx) => expirePack(id, tx));
+    if (outcome && outcome.expired > 0) {
+      packs++;
+      concessions += outcome.expired;
+    }
+  }
+
+  return { packs, concessions };
+};
+
+// Get a member's packs that still have concessions, soonest to expire first
+export const getActivePacks = async (userId, db = query) => {
+  const result = await db(`
+    SELECT id, name, concessions, remaining, expires_on, created_at,
+           expires_on IS NOT NULL AND expires_on < CURRENT_DATE + $2::int as expiring_soon
+    FROM concession_packs
+    WHERE user_id = $1 AND remaining > 0 AND expired_at IS NULL
+    ORDER BY expires_on NULLS LAST, created_at, id
+  `, [userId, EXPIRY_WARNING_DAYS]);
+
+  return result.rows;
+};
+
+// Record the balance a member starts with (registration or seeding)
+export const recordOpeningBalance = async (userId, balance, note = null) => {
+  return withTransaction(async (tx) => {
+    const result = await tx(`
+      INSERT INTO concession_ledger (user_id, change, balance_after, reason, note)
+      VALUES ($1, $2, $2, 'opening_balance', $3)
+      RETURNING *
+    `, [userId, balance, note]);
+    const entry = result.rows[0];
+
+    if (balance > 0) {
+      const packResult = await tx(`
+        INSERT INTO concession_packs (user_id, name, concessions, remaining)
+        VALUES ($1, $2, $3, 0)
+        RETURNING id
+      `, [userId, note || PACK_NAMES.opening_balance, balance]);
+      await recordPackUsage(entry.id, packResult.rows[0].id, balance, tx);
+    }
+
+    return entry;
+  });
+};
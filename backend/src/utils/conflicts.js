@@ -0,0 +1,84 @@
+import { query } from '../db/connection.js';
+import { toDateString } from './occurrences.js';
+
+// Sessions are assumed to last an hour when their duration can't be read
+const DEFAULT_DURATION_MINUTES = 60;
+
+// Helper function to read a duration such as "45 minutes", "90 min" or "1 hour 30 minutes" as minutes
+export const parseDurationMinutes = (duration) => {
+  const text = String(duration || '').toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*h/);
+  const minutes = text.match(/(\d+)\s*m/);
+
+  if (!hours && !minutes) return parseInt(text) || DEFAULT_DURATION_MINUTES;
+
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0)) || DEFAULT_DURATION_MINUTES;
+};
+
+// Helper function to turn HH:MM or HH:MM:SS into minutes past midnight
+const toMinutes = (time) => {
+  const [hours, minutes] = String(time).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Helper function to check if two classes' weekly sessions can ever run at the same time
+const getSharedSessionDays = (a, b) => {
+  const aStart = toDateString(a.start_date) || '0000-01-01';
+  const aEnd = toDateString(a.end_date) || '9999-12-31';
+  const bStart = toDateString(b.start_date) || '0000-01-01';
+  const bEnd = toDateString(b.end_date) || '9999-12-31';
+  if (aStart > bEnd || bStart > aEnd) return [];
+
+  const aFrom = toMinutes(a.time);
+  const bFrom = toMinutes(b.time);
+  if (aFrom >= bFrom + parseDurationMinutes(b.duration) || bFrom >= aFrom + parseDurationMinutes(a.duration)) return [];
+
+  return (a.days || []).filter(day => (b.days || []).includes(day));
+};
+
+// Find classes whose weekly pattern double-books a room or an instructor. Per-date changes such as
+// substitutes aren't checked. With a class ID, only that class's conflicts are returned.
+export const findScheduleConflicts = async (classId = null, db = query) => {
+  const result = await db(`
+    SELECT c.id, c.name, c.time, c.duration, c.days, c.start_date, c.end_date, c.room_id, c.instructor_id, c.instructor,
+           r.name as room_name, l.name as location_name
+    FROM classes c
+    LEFT JOIN rooms r ON c.room_id = r.id
+    LEFT JOIN locations l ON r.location_id = l.id
+    WHERE c.status <> 'archived'
+    ORDER BY c.id
+  `);
+
+  const classes = result.rows;
+  const conflicts = [];
+
+  for (let i = 0; i < classes.length; i++) {
+    for (let j = i + 1; j < classes.length; j++) {
+      let [a, b] = [classes[i], classes[j]];
+      if (classId && a.id !== classId && b.id !== classId) continue;
+      if (classId && b.id === classId) [a, b] = [b, a];
+
+      const sharesRoom = a.room_id && a.room_id === b.room_id;
+      const sharesInstructor = a.instructor_id && a.instructor_id === b.instructor_id;
+      if (!sharesRoom && !sharesInstructor) continue;
+
+      const days = getSharedSessionDays(a, b);
+      if (days.length === 0) continue;
+
+      const pair = {
+        class_id: a.id,
+        class_name: a.name,
+        class_time: String(a.time).slice(0, 5),
+        other_class_id: b.id,
+        other_class_name: b.name,
+        other_class_time: String(b.time).slice(0, 5),
+        days
+      };
+
+      if (sharesRoom) conflicts.push({ ...pair, type: 'room', resource_name: `${a.location_name} · ${a.room_name}` });
+      if (sharesInstructor) conflicts.push({ ...pair, type: 'instructor', resource_name: a.instructor });
+    }
+  }
+
+  return conflicts;
+};
@@ -0,0 +1,31 @@
+import { query } from '../db/connection.js';
+import { insertWithUniqueReference, ON_REFERENCE_CONFLICT } from './payments.js';
+
+// Record the pending payment for a drop-in booking. The member pays by bank transfer and an admin
+// confirms it from the payments queue, the same as a concession purchase (but no concessions are added).
+// Each payment gets its own generated reference: re-booking a cancelled drop-in reuses the booking, so a
+// reference built from the booking id would clash with the cancelled payment's.
+export const createDropInPayment = async (booking, classData, db = query) => {
+  const payment = await insertWithUniqueReference(`
+    INSERT INTO payments (user_id, amount, concessions_purchased, payment_type, booking_id, reference, status)
+    VALUES ($1, $2, 0, 'drop_in', $3, $4, 'pending')
+    ${ON_REFERENCE_CONFLICT}
+    RETURNING *
+  `, [booking.user_id, classData.drop_in_price, booking.id], db);
+
+  return { ...payment, amount: parseFloat(payment.amount) };
+};
+
+// Cancel the unpaid drop-in payments for bookings that were cancelled without a charge.
+// Returns the cancelled payments.
+export const cancelDropInPayments = async (bookingIds, db = query) => {
+  if (bookingIds.length === 0) return [];
+
+  const result = await db(`
+    UPDATE payments SET status = 'cancelled'
+    WHERE booking_id = ANY($1::int[]) AND payment_type = 'drop_in' AND status = 'pending'
+    RETURNING *
+  `, [bookingIds]);
+
+  return result.rows;
+};
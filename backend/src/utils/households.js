@@ -0,0 +1,81 @@
+import { query } from '../db/connection.js';
+
+// Get the account whose concession balance a member books against: the payer of their household when
+// they're a dependant, otherwise the member themselves. Returns the account (id, name, concessions) with
+// the household it belongs to, if any.
+export const getBalanceHolder = async (userId, db = query) => {
+  const result = await db(`
+    SELECT u.id, u.name, u.concessions, h.id as household_id, h.name as household_name
+    FROM (SELECT $1::integer as user_id) m
+    LEFT JOIN household_members hm ON hm.user_id = m.user_id
+    LEFT JOIN households h ON h.id = hm.household_id
+    JOIN users u ON u.id = COALESCE(h.payer_id, m.user_id)
+  `, [userId]);
+
+  return result.rows[0] || null;
+};
+
+// The account a booking's concessions (and any no-show penalty) are charged to and refunded to
+export const getChargedUserId = (booking) => booking.charged_user_id ?? booking.user_id;
+
+// Check whether a user pays for another member's bookings as their household payer
+export const isHouseholdPayerFor = async (payerId, userId, db = query) => {
+  const result = await db(`
+    SELECT 1 FROM household_members hm
+    JOIN households h ON h.id = hm.household_id
+    WHERE h.payer_id = $1 AND hm.user_id = $2
+  `, [payerId, userId]);
+
+  return result.rows.length > 0;
+};
+
+// Get a household with its payer and dependants
+export const getHousehold = async (householdId, db = query) => {
+  const householdResult = await db(`
+    SELECT h.*, u.name as payer_name, u.email as payer_email, u.concessions
+    FROM households h
+    JOIN users u ON h.payer_id = u.id
+    WHERE h.id = $1
+  `, [householdId]);
+
+  const household = householdResult.rows[0];
+  if (!household) return null;
+
+  const membersResult = await db(`
+    SELECT hm.user_id as id, u.name, u.email, u.concessions, hm.created_at as added_at
+    FROM household_members hm
+    JOIN users u ON hm.user_id = u.id
+    WHERE hm.household_id = $1
+    ORDER BY u.name
+  `, [householdId]);
+
+  return { ...household, members: membersResult.rows };
+};
+
+// Get the household a member belongs to, as its payer or as a dependant
+export const getHouseholdForUser = async (userId, db = query) => {
+  const result = await db(`
+    SELECT id FROM households WHERE payer_id = $1
+    UNION
+    SELECT household_id FROM household_members WHERE user_id = $1
+  `, [userId]);
+
+  return result.rows[0] ? getHousehold(result.rows[0].id, db) : null;
+};
+
+// Summarise a member's household for their session: whether they're its payer or a dependant, who's in it,
+// and the shared balance dependants book against
+export const getHouseholdSummary = async (userId, db = query) => {
+  const household = await getHouseholdForUser(userId, db);
+  if (!household) return null;
+
+  return {
+    id: household.id,
+    name: household.name,
+    role: household.payer_id === userId ? 'payer' : 'dependant',
+    payer_id: household.payer_id,
+    payer_name: household.payer_name,
+    concessions: household.concessions,
+    members: household.members.map(member => ({ id: member.id, name: member.name }))
+  };
+};
@@ -0,0 +1,72 @@
+import { toDateString } from './occurrences.js';
+
+const PRODUCT_ID = '-//FlexBook//Class Bookings//EN';
+
+// Helper function to escape a text value (RFC 5545 section 3.3.11)
+const escapeText = (value) => String(value ?? '')
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Helper function to fold content lines longer than 75 characters
+const foldLine = (line) => {
+  const chunks = [];
+  for (let i = 0; i < line.length; i += 74) {
+    chunks.push(line.slice(i, i + 74));
+  }
+  return chunks.join('\r\n ');
+};
+
+// Class times are wall-clock times at the gym, so they're written as floating local times
+const formatLocalDateTime = (date) => date.toISOString().replace(/[-:]/g, '').slice(0, 15);
+
+const formatTimestamp = (date) => new Date(date).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+// Helper function to read the minutes out of a duration like "45 minutes" (defaults to an hour)
+const parseDurationMinutes = (duration) => parseInt(String(duration).match(/\d+/)?.[0]) || 60;
+
+const CANCELLED_STATUSES = ['cancelled', 'late-cancelled'];
+
+// Build the VEVENT lines for a booking joined with its class (class_name, class_time, duration, instructor)
+export const buildBookingEvent = (booking) => {
+  const date = toDateString(booking.booking_date);
+  const start = new Date(`${date}T${String(booking.class_time).slice(0, 5)}:00Z`);
+  const end = new Date(start.getTime() + parseDurationMinutes(booking.duration) * 60 * 1000);
+  const isCancelled = CANCELLED_STATUSES.includes(booking.status) || booking.is_cancelled;
+  const description = [
+    `Instructor: ${booking.instructor}`,
+    booking.is_cancelled && booking.cancellation_reason ? `Cancelled by the gym: ${booking.cancellation_reason}` : null
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:booking-${booking.id}@flexbook`,
+    `DTSTAMP:${formatTimestamp(new Date())}`,
+    `DTSTART:${formatLocalDateTime(start)}`,
+    `DTEND:${formatLocalDateTime(end)}`,
+    `SUMMARY:${escapeText(booking.class_name)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    // Bump the sequence on cancellation so calendars replace the earlier copy
+    `SEQUENCE:${isCancelled ? 1 : 0}`,
+    ...(booking.cancellation_time ? [`LAST-MODIFIED:${formatTimestamp(booking.cancellation_time)}`] : []),
+    'END:VEVENT'
+  ];
+};
+
+// Build a complete calendar document from bookings
+export const buildCalendar = (bookings, name = 'FlexBook Classes') => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...bookings.flatMap(buildBookingEvent),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
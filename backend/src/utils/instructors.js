@@ -0,0 +1,93 @@
+import { query } from '../db/connection.js';
+import { toDateString } from './occurrences.js';
+
+// Get the active instructor profile linked to a login (null if the user isn't an instructor)
+export const getInstructorForUser = async (userId, db = query) => {
+  const result = await db(
+    'SELECT * FROM instructors WHERE user_id = $1 AND is_active = true',
+    [userId]
+  );
+  return result.rows[0] || null;
+};
+
+// Check if a user can run a class's sessions: admins can run any class, instructors only their own.
+// With a date, a substitute covering that date takes the session over from the regular instructor.
+export const canTeachClass = async (user, classId, date = null, db = query) => {
+  if (user.role === 'admin') return true;
+  if (user.role !== 'instructor') return false;
+
+  const result = await db(`
+    SELECT 1
+    FROM classes c
+    LEFT JOIN class_occurrences o ON o.class_id = c.id AND o.occurrence_date = $3::date
+    JOIN instructors i ON i.id = COALESCE(o.substitute_instructor_id, c.instructor_id)
+    WHERE c.id = $1 AND i.user_id = $2 AND i.is_active = true
+  `, [classId, user.id, date ? toDateString(date) : null]);
+
+  return result.rows.length > 0;
+};
+
+// Look up the instructor chosen on a class form (error is set when it doesn't exist or has been deactivated)
+export const resolveInstructor = async (instructorId, db = query) => {
+  const result = await db('SELECT * FROM instructors WHERE id = $1', [instructorId]);
+  const instructor = result.rows[0];
+
+  if (!instructor) return { instructor: null, error: 'not_found' };
+  if (!instructor.is_active) return { instructor, error: 'inactive' };
+
+  return { instructor, error: null };
+};
+
+// Put a substitute on one date of a class, replacing any substitute already there, and leave a notice
+// for each member booked in. Returns how many members were notified.
+export const assignSubstitute = async (classData, date, substitute, reason, actorId, db = query) => {
+  await removeSubstitute(classData.id, date, db);
+
+  const substitutionResult = await db(`
+    INSERT INTO class_substitutions (class_id, occurrence_date, original_instructor_id, substitute_instructor_id, reason, created_by)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *
+  `, [classData.id, date, classData.instructor_id, substitute.id, reason || null, actorId]);
+
+  await db(`
+    INSERT INTO class_occurrences (class_id, occurrence_date, instructor, substitute_instructor_id)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (class_id, occurrence_date) DO UPDATE
+      SET instructor = EXCLUDED.instructor, substitute_instructor_id = EXCLUDED.substitute_instructor_id
+  `, [classData.id, date, substitute.name, substitute.id]);
+
+  const noticeResult = await db(`
+    INSERT INTO substitution_notices (substitution_id, user_id)
+    SELECT $1, user_id FROM bookings
+    WHERE class_id = $2 AND booking_date = $3 AND status = 'confirmed'
+    ON CONFLICT (substitution_id, user_id) DO NOTHING
+  `, [substitutionResult.rows[0].id, classData.id, date]);
+
+  return noticeResult.rowCount;
+};
+
+// Hand a date back to the class's regular instructor. Notices members haven't seen yet are withdrawn;
+// the substitution itself is kept for payroll history. Returns false if no substitute was assigned.
+export const removeSubstitute = async (classId, date, db = query) => {
+  const result = await db(`
+    UPDATE class_substitutions
+    SET status = 'removed', removed_at = CURRENT_TIMESTAMP
+    WHERE class_id = $1 AND occurrence_date = $2 AND status = 'active'
+    RETURNING id
+  `, [classId, date]);
+
+  if (result.rows.length === 0) return false;
+
+  await db(
+    'DELETE FROM substitution_notices WHERE substitution_id = $1 AND acknowledged_at IS NULL',
+    [result.rows[0].id]
+  );
+
+  await db(`
+    UPDATE class_occurrences
+    SET instructor = NULL, substitute_instructor_id = NULL
+    WHERE class_id = $1 AND occurrence_date = $2
+  `, [classId, date]);
+
+  return true;
+};
@@ -0,0 +1,244 @@
+import { query } from '../db/connection.js';
+import { createPdfPage, renderPdf, wrapText, PAGE_SIZE } from './pdf.js';
+
+// Prices are GST inclusive (New Zealand GST is 15%)
+export const GST_RATE = 0.15;
+
+const PAYMENT_METHOD_LABELS = {
+  bank_transfer: 'Bank transfer',
+  cash: 'Cash'
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const roundCents = (amount) => Math.round(amount * 100) / 100;
+
+export const formatMoney = (amount) => `${Number(amount) < 0 ? '-' : ''}$${Math.abs(Number(amount)).toFixed(2)}`;
+
+// Helper function to format a date as e.g. "19 Oct 2026"
+export const formatDate = (value) => {
+  // Plain dates (YYYY-MM-DD) are read as local dates rather than UTC midnight
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? new Date(`${value}T00:00:00`) : new Date(value);
+  return `${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+};
+
+// The GST contained in a GST-inclusive amount
+export const gstIncluded = (total) => roundCents(total - total / (1 + GST_RATE));
+
+// The invoice lines for a payment (joined with its package_name, class_name and booking_date, and the
+// voucher_code, percent_off and discount_amount of any discount code), with the concessions each line added
+// to the member's balance. A discount is shown as its own line taken off the package's price.
+export const buildInvoiceLines = (payment) => {
+  const amount = roundCents(parseFloat(payment.amount));
+
+  if (payment.payment_type === 'drop_in') {
+    return [{
+      description: `Drop-in class${payment.class_name ? `: ${payment.class_name}` : ''}${payment.booking_date ? ` on ${formatDate(payment.booking_date)}` : ''}`,
+      quantity: 1,
+      concessions: null,
+      unit_price: amount,
+      amount
+    }];
+  }
+
+  const validity = payment.validity_months
+    ? ` (valid ${payment.validity_months} month${payment.validity_months === 1 ? '' : 's'})`
+    : '';
+
+  const discount = roundCents(Number(payment.discount_amount || 0));
+  const lines = [{
+    description: `${payment.package_name || 'Class concessions'}${validity}`,
+    quantity: 1,
+    concessions: payment.concessions_purchased,
+    unit_price: roundCents(amount + discount),
+    amount: roundCents(amount + discount)
+  }];
+
+  if (discount > 0) {
+    lines.push({
+      description: `Discount code ${payment.voucher_code}${payment.percent_off ? ` (${payment.percent_off}% off)` : ''}`,
+      quantity: 1,
+      concessions: null,
+      unit_price: -discount,
+      amount: -discount
+    });
+  }
+
+  return lines;
+};
+
+// Lay out an invoice (joined with payment_reference, payment_method, paid_at and replaces_invoice_number) as
+// a one-page PDF. Without a GST number on file it's a plain receipt, since only a registered business can
+// issue a tax invoice.
+export const renderInvoicePdf = (invoice) => {
+  const page = createPdfPage();
+  const { business, customer, lines } = invoice;
+  const left = 50;
+  const right = PAGE_SIZE.width - 50;
+  const isTaxInvoice = Boolean(business.gst_number);
+  const title = isTaxInvoice ? 'TAX INVOICE / RECEIPT' : 'RECEIPT';
+
+  // Business (left) and invoice details (right)
+  page.text(business.name, left, 70, { size: 18, bold: true });
+  page.text(title, right, 70, { size: 14, bold: true, align: 'right' });
+
+  let y = 90;
+  for (const line of wrapText(business.address || '', 250, 9)) {
+    if (line) {
+      page.text(line, left, y, { size: 9, gray: 0.35 });
+      y += 12;
+    }
+  }
+  if (isTaxInvoice) {
+    page.text(`GST number: ${business.gst_number}`, left, y, { size: 9, gray: 0.35 });
+    y += 12;
+  }
+
+  const details = [
+    ['Invoice number', invoice.invoice_number],
+    ['Date issued', formatDate(invoice.issued_at)],
+    ['Payment reference', invoice.payment_reference || '-'],
+    ['Paid', `${invoice.paid_at ? formatDate(invoice.paid_at) : '-'} by ${(PAYMENT_METHOD_LABELS[invoice.payment_method] || invoice.payment_method || 'payment').toLowerCase()}`]
+  ];
+  let detailY = 90;
+  for (const [label, value] of details) {
+    page.text(label, right - 150, detailY, { size: 9, gray: 0.35 });
+    page.text(value, right, detailY, { size: 9, align: 'right' });
+    detailY += 12;
+  }
+  if (invoice.replaces_invoice_number) {
+    page.text(`Re-issued: replaces ${invoice.replaces_invoice_number}`, right, detailY, { size: 9, bold: true, align: 'right' });
+    detailY += 12;
+  }
+
+  // Customer
+  y = Math.max(y, detailY) + 20;
+  page.text('Bill to', left, y, { size: 9, gray: 0.35 });
+  page.text(customer.name, left, y + 14, { size: 11, bold: true });
+  page.text(customer.email, left, y + 27, { size: 9 });
+
+  // Line items
+  y += 60;
+  const columns = { quantity: 340, concessions: 410, unitPrice: 475, amount: right };
+  page.text('Description', left, y, { size: 9, bold: true });
+  page.text('Qty', columns.quantity, y, { size: 9, bold: true, align: 'right' });
+  page.text('Concessions', columns.concessions, y, { size: 9, bold: true, align: 'right' });
+  page.text('Unit price', columns.unitPrice, y, { size: 9, bold: true, align: 'right' });
+  page.text('Amount', columns.amount, y, { size: 9, bold: true, align: 'right' });
+  page.line(left, y + 6, right, y + 6);
+  y += 22;
+
+  for (const line of lines) {
+    const descriptionLines = wrapText(line.description, 230, 10);
+    descriptionLines.forEach((text, index) => page.text(text, left, y + index * 13, { size: 10 }));
+    page.text(String(line.quantity), columns.quantity, y, { size: 10, align: 'right' });
+    page.text(line.concessions ? String(line.concessions) : '-', columns.concessions, y, { size: 10, align: 'right' });
+    page.text(formatMoney(line.unit_price), columns.unitPrice, y, { size: 10, align: 'right' });
+    page.text(formatMoney(line.amount), columns.amount, y, { size: 10, align: 'right' });
+    y += descriptionLines.length * 13 + 8;
+  }
+  page.line(left, y - 4, right, y - 4);
+
+  // Totals
+  const total = parseFloat(invoice.total);
+  const gstAmount = parseFloat(invoice.gst_amount);
+  y += 12;
+  const totals = isTaxInvoice
+    ? [['Total excluding GST', formatMoney(total - gstAmount)], [`GST (${GST_RATE * 100}%)`, formatMoney(gstAmount)]]
+    : [];
+  for (const [label, value] of totals) {
+    page.text(label, columns.unitPrice, y, { size: 10, align: 'right' });
+    page.text(value, right, y, { size: 10, align: 'right' });
+    y += 15;
+  }
+  page.text(isTaxInvoice ? 'Total including GST' : 'Total', columns.unitPrice, y, { size: 11, bold: true, align: 'right' });
+  page.text(formatMoney(total), right, y, { size: 11, bold: true, align: 'right' });
+  y += 15;
+  page.text('Amount paid', columns.unitPrice, y, { size: 10, align: 'right' });
+  page.text(formatMoney(total), right, y, { size: 10, align: 'right' });
+  y += 15;
+  page.text('Balance due', columns.unitPrice, y, { size: 10, bold: true, align: 'right' });
+  page.text(formatMoney(0), right, y, { size: 10, bold: true, align: 'right' });
+
+  // Footer
+  const footer = [
+    'Paid in full - thank you.',
+    business.bank_name || business.account_number
+      ? `Bank account: ${[business.account_name, business.bank_name, business.account_number].filter(Boolean).join(', ')}`
+      : null
+  ].filter(Boolean);
+  footer.forEach((text, index) => page.text(text, left, PAGE_SIZE.height - 60 + index * 12, { size: 9, gray: 0.35 }));
+
+  return renderPdf(page, { title: `${isTaxInvoice ? 'Tax invoice' : 'Receipt'} ${invoice.invoice_number}` });
+};
+
+// Get the current (not superseded) invoice for a payment, with what renderInvoicePdf needs
+export const getCurrentInvoice = async (paymentId, db = query) => {
+  const result = await db(`
+    SELECT i.*, p.reference as payment_reference, p.payment_method, p.processed_at as paid_at, p.user_id,
+           r.invoice_number as replaces_invoice_number
+    FROM invoices i
+    JOIN payments p ON i.payment_id = p.id
+    LEFT JOIN invoices r ON i.replaces_invoice_id = r.id
+    WHERE i.payment_id = $1 AND i.superseded_at IS NULL
+  `, [paymentId]);
+
+  return result.rows[0] || null;
+};
+
+// Issue a numbered invoice/receipt for a confirmed payment from the current business and member details. A
+// payment that already has one gets a new number and the earlier invoice is marked superseded (a re-issue),
+// so call this inside a transaction when re-issuing. Returns null unless the payment is confirmed.
+export const issueInvoice = async (paymentId, actorId = null, db = query) => {
+  const paymentResult = await db(`
+    SELECT p.*, u.name as user_name, u.email as user_email, c.name as class_name, b.booking_date, cp.name as package_name,
+           v.code as voucher_code, v.percent_off, vr.discount_amount
+    FROM payments p
+    JOIN users u ON p.user_id = u.id
+    LEFT JOIN bookings b ON p.booking_id = b.id
+    LEFT JOIN classes c ON b.class_id = c.id
+    LEFT JOIN concession_packages cp ON p.package_id = cp.id
+    LEFT JOIN voucher_redemptions vr ON vr.payment_id = p.id
+    LEFT JOIN vouchers v ON vr.voucher_id = v.id
+    WHERE p.id = $1
+  `, [paymentId]);
+
+  const payment = paymentResult.rows[0];
+  if (!payment || payment.status !== 'confirmed') return null;
+
+  const detailsResult = await db('SELECT * FROM payment_details ORDER BY id LIMIT 1');
+  const details = detailsResult.rows[0] || {};
+
+  const business = {
+    name: details.business_name || details.account_name || 'FlexBook',
+    address: details.business_address || null,
+    gst_number: details.gst_number || null,
+    bank_name: details.bank_name || null,
+    account_name: details.account_name || null,
+    account_number: details.account_number || null
+  };
+  const customer = { name: payment.user_name, email: payment.user_email };
+  const lines = buildInvoiceLines(payment);
+  const total = roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  const previous = await db(
+    'UPDATE invoices SET superseded_at = CURRENT_TIMESTAMP WHERE payment_id = $1 AND superseded_at IS NULL RETURNING id',
+    [paymentId]
+  );
+
+  await db(`
+    INSERT INTO invoices (invoice_number, payment_id, business, customer, lines, total, gst_amount, replaces_invoice_id, issued_by)
+    VALUES ('INV-' || LPAD(nextval('invoice_number_seq')::text, 6, '0'), $1, $2, $3, $4, $5, $6, $7, $8)
+  `, [
+    paymentId,
+    JSON.stringify(business),
+    JSON.stringify(customer),
+    JSON.stringify(lines),
+    total,
+    business.gst_number ? gstIncluded(total) : 0,
+    previous.rows[0]?.id ?? null,
+    actorId
+  ]);
+
+  return getCurrentInvoice(paymentId, db);
+};
@@ -0,0 +1,23 @@
+import { query } from '../db/connection.js';
+
+// Look up the room chosen on a class form (error is set when it doesn't exist or has been deactivated)
+export const resolveRoom = async (roomId, db = query) => {
+  const result = await db(`
+    SELECT r.*, l.name as location_name, l.is_active as location_is_active
+    FROM rooms r
+    JOIN locations l ON r.location_id = l.id
+    WHERE r.id = $1
+  `, [roomId]);
+  const room = result.rows[0];
+
+  if (!room) return { room: null, error: 'not_found' };
+  if (!room.is_active || !room.location_is_active) return { room, error: 'inactive' };
+
+  return { room, error: null };
+};
+
+// Check if a location exists and is open (for a member's home location)
+export const isActiveLocation = async (locationId, db = query) => {
+  const result = await db('SELECT 1 FROM locations WHERE id = $1 AND is_active = true', [locationId]);
+  return result.rows.length > 0;
+};
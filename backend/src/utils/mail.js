@@ -0,0 +1,107 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { sendSmtp } from './smtp.js';
+
+// Where the outbox transport writes emails (one .eml file each, viewable in any mail client)
+const OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), 'outbox');
+
+// Transports deliver a message { from, to, subject, text }. Pick one with MAIL_TRANSPORT, which production must
+// set; the outbox is the default in development, so nothing is sent from a developer's machine.
+const transports = {
+  // Write the email to the local outbox folder
+  outbox: async (message) => {
+    await fs.mkdir(OUTBOX_DIR, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9]+/gi, '_')}.eml`;
+    const file = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ].join('\r\n');
+    await fs.writeFile(path.join(OUTBOX_DIR, fileName), file, 'utf8');
+    console.log(`📬 Email to ${message.to} written to ${path.join(OUTBOX_DIR, fileName)}`);
+  },
+
+  // Note the email in the server log. Bodies carry password reset and verification links, so they're never
+  // logged - use the outbox to read them.
+  console: async (message) => {
+    console.log(`📧 Email to ${message.to}: ${message.subject}`);
+  },
+
+  // Send through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE for TLS from the start, SMTP_USER, SMTP_PASS)
+  smtp: async (message) => {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is not set');
+    }
+    const secure = process.env.SMTP_SECURE === 'true';
+    await sendSmtp(message, {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER || null,
+      pass: process.env.SMTP_PASS || null
+    });
+  },
+
+  // POST the email as JSON to a mail relay (MAIL_WEBHOOK_URL, with MAIL_WEBHOOK_TOKEN as a bearer token)
+  webhook: async (message) => {
+    if (!process.env.MAIL_WEBHOOK_URL) {
+      throw new Error('MAIL_WEBHOOK_URL is not set');
+    }
+    const response = await fetch(process.env.MAIL_WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.MAIL_WEBHOOK_TOKEN ? { Authorization: `Bearer ${process.env.MAIL_WEBHOOK_TOKEN}` } : {})
+      },
+      body: JSON.stringify(message)
+    });
+    if (!response.ok) {
+      throw new Error(`Mail relay responded with ${response.status}`);
+    }
+  }
+};
+
+// "file" is another name for the outbox
+transports.file = transports.outbox;
+
+// Add (or replace) a transport, e.g. one wrapping an email provider's SDK
+export const registerMailTransport = (name, send) => {
+  transports[name] = send;
+};
+
+// The transport emails are sent with (recorded against each delivery in the notification log). Throws in
+// production when none is configured rather than quietly not sending anyone their emails.
+export const getTransportName = () => {
+  if (process.env.MAIL_TRANSPORT) return process.env.MAIL_TRANSPORT;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_TRANSPORT must be set in production');
+  }
+  return 'outbox';
+};
+
+// Send a plain text email through the configured transport. Throws when it can't be delivered.
+export const sendMail = async ({ to, subject, text }) => {
+  const name = getTransportName();
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+
+  await transport({
+    from: process.env.MAIL_FROM || 'FlexBook <no-reply@flexbook.local>',
+    to,
+    subject,
+    text
+  });
+};
+
+// Helper function to build a link into the frontend for an email
+export const frontendLink = (pathname, params = {}) => {
+  const url = new URL(pathname, process.env.FRONTEND_URL || 'http://localhost:5173');
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
@@ -0,0 +1,72 @@
+import { query } from '../db/connection.js';
+import { toDateString } from './occurrences.js';
+
+export const MEMBERSHIP_PLAN_TYPES = ['unlimited', 'weekly', 'off_peak'];
+
+// Off-peak classes start between 09:00 and 16:00 on a weekday (after the morning rush, before the evening one)
+export const OFF_PEAK_HOURS = { from: 9, to: 16 };
+
+// Booking statuses that use up one of a weekly plan's classes (a late cancellation still counts)
+export const WEEKLY_COUNTED_STATUSES = ['confirmed', 'completed', 'no-show', 'late-cancelled'];
+
+// Helper function to check if a session on a date (YYYY-MM-DD) at a time (HH:MM) is off-peak
+export const isOffPeak = (dateString, time) => {
+  const day = new Date(`${dateString}T00:00:00Z`).getUTCDay();
+  const hour = parseInt(String(time).split(':')[0]);
+  return day !== 0 && day !== 6 && hour >= OFF_PEAK_HOURS.from && hour < OFF_PEAK_HOURS.to;
+};
+
+// Helper function to get the Monday and Sunday of the week a date falls in
+export const getWeekRange = (dateString) => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  const monday = new Date(date);
+  monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  const sunday = new Date(monday);
+  sunday.setUTCDate(monday.getUTCDate() + 6);
+  return { from: toDateString(monday), to: toDateString(sunday) };
+};
+
+// Get the membership that covers a member on a date: started, not ended, and not paused that day
+export const getMembershipOnDate = async (userId, dateString, db = query) => {
+  const result = await db(`
+    SELECT m.*, p.name as plan_name, p.plan_type, p.classes_per_week
+    FROM memberships m
+    JOIN membership_plans p ON m.plan_id = p.id
+    WHERE m.user_id = $1 AND m.start_date <= $2 AND (m.end_date IS NULL OR m.end_date >= $2)
+      AND NOT EXISTS (
+        SELECT 1 FROM membership_pauses mp
+        WHERE mp.membership_id = m.id AND $2::date BETWEEN mp.start_date AND mp.end_date
+      )
+    ORDER BY m.start_date DESC, m.id DESC
+    LIMIT 1
+  `, [userId, dateString]);
+
+  return result.rows[0] || null;
+};
+
+// Work out whether a member's membership covers a session. Returns the membership when it does (the booking
+// then costs no concessions), or null with the reason it doesn't ('none', 'peak' or 'weekly_limit') so the
+// booking falls back to concessions. Run inside the booking transaction once the member is locked, so two
+// bookings can't both take the last class of the week.
+export const getMembershipCover = async (userId, dateString, time, db = query) => {
+  const membership = await getMembershipOnDate(userId, dateString, db);
+  if (!membership) return { membership: null, reason: 'none' };
+
+  if (membership.plan_type === 'off_peak' && !isOffPeak(dateString, time)) {
+    return { membership: null, reason: 'peak' };
+  }
+
+  if (membership.plan_type === 'weekly') {
+    const week = getWeekRange(dateString);
+    const usedResult = await db(`
+      SELECT COUNT(*) as used FROM bookings
+      WHERE membership_id = $1 AND booking_date BETWEEN $2 AND $3 AND status = ANY($4::varchar[])
+    `, [membership.id, week.from, week.to, WEEKLY_COUNTED_STATUSES]);
+
+    if (parseInt(usedResult.rows[0].used) >= membership.classes_per_week) {
+      return { membership: null, reason: 'weekly_limit' };
+    }
+  }
+
+  return { membership, reason: null };
+};
@@ -0,0 +1,365 @@
+import { query, withTransaction } from '../db/connection.js';
+import { sendMail, getTransportName, frontendLink } from './mail.js';
+import { getOccurrence } from './occurrences.js';
+import { formatDate, formatMoney } from './invoices.js';
+
+// How often the outbox job delivers queued notifications
+export const NOTIFICATION_OUTBOX_INTERVAL_MS = 30 * 1000;
+
+// Members are told their balance is running low when a debit takes it to this many concessions or fewer
+export const LOW_BALANCE_THRESHOLD = parseInt(process.env.LOW_BALANCE_THRESHOLD) || 2;
+
+// A notification is tried this many times before it's marked failed (an admin can retry it from the log)
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Minutes to wait before each retry (the last is reused for any further attempts)
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+// How many notifications one run of the job delivers
+const DELIVERY_BATCH_SIZE = 20;
+
+// The built-in templates. Admins can edit the subject and body (or turn an email off); {{variable}} is
+// replaced with the value when the notification is queued. Every template also gets {{name}} and
+// {{dashboard_link}}. The sample values are used for previews in the template editor.
+export const NOTIFICATION_TEMPLATES = {
+  booking_confirmed: {
+    label: 'Booking confirmed',
+    description: 'Sent when a member books a class, including standing bookings and spots from the waitlist',
+    variables: ['class_name', 'class_date', 'class_time', 'instructor', 'booking_note'],
+    sample: { class_name: 'Morning Yoga', class_date: 'Mon 19 Oct 2026', class_time: '07:00', instructor: 'Sarah Johnson', booking_note: '1 concession was used. Your balance is now 4.' },
+    subject: 'Booked: {{class_name}} on {{class_date}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'You\'re booked into {{class_name}} with {{instructor}} on {{class_date}} at {{class_time}}.',
+      '{{booking_note}}',
+      '',
+      'If you can\'t make it, please cancel from your dashboard so someone else can take your spot:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  booking_cancelled: {
+    label: 'Booking cancelled',
+    description: 'Sent when a booking is cancelled, saying whether a late-cancellation penalty applied',
+    variables: ['class_name', 'class_date', 'class_time', 'cancellation_note'],
+    sample: { class_name: 'Morning Yoga', class_date: 'Mon 19 Oct 2026', class_time: '07:00', cancellation_note: 'Your concession has been refunded.' },
+    subject: 'Cancelled: {{class_name}} on {{class_date}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Your booking for {{class_name}} on {{class_date}} at {{class_time}} has been cancelled.',
+      '{{cancellation_note}}',
+      '',
+      'Book another class from your dashboard:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  class_cancelled: {
+    label: 'Class cancelled by the gym',
+    description: 'Sent to everyone booked into a class session the gym cancels',
+    variables: ['class_name', 'class_date', 'class_time', 'reason_note', 'refund_note'],
+    sample: { class_name: 'Morning Yoga', class_date: 'Mon 19 Oct 2026', class_time: '07:00', reason_note: 'Reason: instructor unwell.', refund_note: 'Your concession has been refunded.' },
+    subject: '{{class_name}} on {{class_date}} has been cancelled',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Sorry, we\'ve had to cancel {{class_name}} on {{class_date}} at {{class_time}}. {{reason_note}}',
+      '{{refund_note}}',
+      '',
+      'Book another class from your dashboard:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  payment_confirmed: {
+    label: 'Payment confirmed',
+    description: 'Sent when a payment is confirmed, by an admin or from a bank statement',
+    variables: ['description', 'amount', 'reference', 'payment_note'],
+    sample: { description: '10 Class Pack', amount: '$150.00', reference: 'FB-7KQ2XM', payment_note: '10 concessions have been added. Your balance is now 12.' },
+    subject: 'Payment received: {{description}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Thanks, we\'ve received your payment of {{amount}} for {{description}} (reference {{reference}}).',
+      '{{payment_note}}',
+      '',
+      'Your receipt is available from your dashboard:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  payment_rejected: {
+    label: 'Payment rejected',
+    description: 'Sent when an admin rejects a payment',
+    variables: ['description', 'amount', 'reference', 'notes_note'],
+    sample: { description: '10 Class Pack', amount: '$150.00', reference: 'FB-7KQ2XM', notes_note: 'Note from the gym: no transfer with this reference has arrived.' },
+    subject: 'Payment not confirmed: {{description}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'We couldn\'t confirm your payment of {{amount}} for {{description}} (reference {{reference}}).',
+      '{{notes_note}}',
+      '',
+      'If you think this is a mistake, please get in touch with the front desk.'
+    ].join('\n')
+  },
+  low_balance: {
+    label: 'Low concession balance',
+    description: `Sent when a booking or penalty takes a member's balance to ${LOW_BALANCE_THRESHOLD} concessions or fewer`,
+    variables: ['concessions'],
+    sample: { concessions: '2' },
+    subject: 'You have {{concessions}} concessions left',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Your FlexBook balance is down to {{concessions}} concessions.',
+      'Top up from your dashboard so you can keep booking classes:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  }
+};
+
+// Fill in a template's {{variables}} (any without a value are left blank)
+export const renderTemplate = (template, variables) =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (match, key) => variables[key] ?? '');
+
+// Helper function to describe a class date, e.g. "Mon 19 Oct 2026"
+const formatClassDate = (value) => {
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][new Date(`${String(value).split('T')[0]}T00:00:00`).getDay()];
+  return `${day} ${formatDate(value)}`;
+};
+
+const plural = (count, word) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Every template with the gym's edits applied, for the template editor
+export const listTemplates = async (db = query) => {
+  const result = await db('SELECT * FROM notification_templates');
+  const custom = new Map(result.rows.map(row => [row.event_key, row]));
+
+  return Object.entries(NOTIFICATION_TEMPLATES).map(([eventKey, template]) => {
+    const row = custom.get(eventKey);
+    return {
+      event_key: eventKey,
+      label: template.label,
+      description: template.description,
+      variables: ['name', ...template.variables, 'dashboard_link'],
+      sample: { name: 'Alex', ...template.sample, dashboard_link: frontendLink('/dashboard') },
+      subject: row?.subject ?? template.subject,
+      body: row?.body ?? template.body,
+      is_enabled: row ? row.is_enabled : true,
+      is_customised: !!row,
+      default_subject: template.subject,
+      default_body: template.body,
+      updated_at: row?.updated_at ?? null
+    };
+  });
+};
+
+// Queue an email to a member. It's rendered now and delivered by the outbox job, so pass a transaction's
+// query function as db to only send it if the change it describes is committed. Returns the notification,
+// or null when the template is turned off or the member can't be emailed.
+export const queueNotification = async (eventKey, userId, variables = {}, db = query) => {
+  const template = NOTIFICATION_TEMPLATES[eventKey];
+
+  const userResult = await db('SELECT name, email, is_active FROM users WHERE id = $1', [userId]);
+  const user = userResult.rows[0];
+  if (!user || !user.is_active || !user.email) return null;
+
+  const customResult = await db('SELECT subject, body, is_enabled FROM notification_templates WHERE event_key = $1', [eventKey]);
+  const custom = customResult.rows[0];
+  if (custom && !custom.is_enabled) return null;
+
+  const values = { name: user.name, dashboard_link: frontendLink('/dashboard'), ...variables };
+  const subject = renderTemplate(custom?.subject ?? template.subject, values).slice(0, 255);
+  const body = renderTemplate(custom?.body ?? template.body, values);
+
+  const result = await db(`
+    INSERT INTO notifications (user_id, event_key, recipient, subject, body)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+  `, [userId, eventKey, user.email, subject, body]);
+
+  return result.rows[0];
+};
+
+// Helper function to get the template variables describing a booking's class session
+const describeSession = async (booking, db) => {
+  const occurrence = await getOccurrence(booking.class_id, booking.booking_date, db);
+  return {
+    class_name: occurrence.name,
+    class_date: formatClassDate(occurrence.occurrence_date),
+    class_time: occurrence.time,
+    instructor: occurrence.instructor
+  };
+};
+
+// Tell a member their booking is confirmed, with how it was paid for
+export const notifyBookingConfirmed = async (booking, { fromWaitlist = false } = {}, db = query) => {
+  const notes = [];
+  if (fromWaitlist) {
+    notes.push('Good news: a spot opened up, so you\'ve been moved off the waitlist.');
+  }
+
+  if (booking.membership_id) {
+    notes.push('It\'s covered by your membership.');
+  } else if (booking.used_concession) {
+    const balanceResult = await db('SELECT concessions FROM users WHERE id = $1', [booking.charged_user_id || booking.user_id]);
+    const owner = booking.charged_user_id ? 'Your household balance' : 'Your balance';
+    notes.push(`${plural(booking.concessions_charged, 'concession')} ${booking.concessions_charged === 1 ? 'was' : 'were'} used. ${owner} is now ${balanceResult.rows[0].concessions}.`);
+  } else {
+    const paymentResult = await db(
+      "SELECT amount, reference FROM payments WHERE booking_id = $1 AND payment_type = 'drop_in' AND status = 'pending'",
+      [booking.id]
+    );
+    const payment = paymentResult.rows[0];
+    if (payment) {
+      notes.push(`This is a drop-in: please pay ${formatMoney(payment.amount)} using reference ${payment.reference}.`);
+    }
+  }
+
+  return queueNotification('booking_confirmed', booking.user_id, {
+    ...(await describeSession(booking, db)),
+    booking_note: notes.join(' ')
+  }, db);
+};
+
+// Tell a member their booking was cancelled, and whether it was late enough to be charged for
+export const notifyBookingCancelled = async (booking, { isLate, concessionRefunded, cancellationHours }, db = query) => {
+  let note;
+  if (booking.membership_id) {
+    note = isLate
+      ? `As it was cancelled within ${cancellationHours} hours of the class, it still counts as used on your membership.`
+      : '';
+  } else if (booking.used_concession) {
+    note = isLate
+      ? `As it was cancelled within ${cancellationHours} hours of the class, the ${plural(booking.concessions_charged, 'concession')} it cost ${booking.concessions_charged === 1 ? 'has' : 'have'} not been refunded.`
+      : concessionRefunded ? `${booking.concessions_charged === 1 ? 'The concession has' : `${booking.concessions_charged} concessions have`} been refunded.` : '';
+  } else {
+    note = isLate
+      ? `As it was cancelled within ${cancellationHours} hours of the class, the drop-in fee is still payable.`
+      : 'You no longer need to pay for this drop-in.';
+  }
+
+  return queueNotification('booking_cancelled', booking.user_id, {
+    ...(await describeSession(booking, db)),
+    cancellation_note: note
+  }, db);
+};
+
+// Tell a member the gym has cancelled a session they were booked into
+export const notifyClassCancelled = async (booking, reason, db = query) => {
+  let refundNote = '';
+  if (booking.used_concession) {
+    refundNote = `${booking.concessions_charged === 1 ? 'The concession' : `The ${booking.concessions_charged} concessions`} it cost ${booking.concessions_charged === 1 ? 'has' : 'have'} been refunded.`;
+  } else if (!booking.membership_id) {
+    refundNote = 'You don\'t need to pay for this drop-in.';
+  }
+
+  return queueNotification('class_cancelled', booking.user_id, {
+    ...(await describeSession(booking, db)),
+    reason_note: reason ? `Reason: ${reason}.` : '',
+    refund_note: refundNote
+  }, db);
+};
+
+// Tell a member their payment was confirmed or rejected
+export const notifyPaymentSettled = async (payment, { newBalance = null, isHouseholdBalance = false } = {}, db = query) => {
+  const detailsResult = await db(`
+    SELECT cp.name as package_name, c.name as class_name, b.booking_date
+    FROM payments p
+    LEFT JOIN concession_packages cp ON p.package_id = cp.id
+    LEFT JOIN bookings b ON p.booking_id = b.id
+    LEFT JOIN classes c ON b.class_id = c.id
+    WHERE p.id = $1
+  `, [payment.id]);
+  const details = detailsResult.rows[0] || {};
+
+  const description = payment.payment_type === 'drop_in'
+    ? `Drop-in class${details.class_name ? `: ${details.class_name}` : ''}${details.booking_date ? ` on ${formatClassDate(details.booking_date)}` : ''}`
+    : details.package_name || plural(payment.concessions_purchased, 'concession');
+
+  const common = { description, amount: formatMoney(payment.amount), reference: payment.reference };
+
+  if (payment.status === 'rejected') {
+    return queueNotification('payment_rejected', payment.user_id, {
+      ...common,
+      notes_note: payment.notes ? `Note from the gym: ${payment.notes}` : ''
+    }, db);
+  }
+
+  let paymentNote = 'Your drop-in is now paid for.';
+  if (payment.payment_type === 'concessions') {
+    paymentNote = `${plural(payment.concessions_purchased, 'concession')} ${payment.concessions_purchased === 1 ? 'has' : 'have'} been added.` +
+      (newBalance !== null ? ` Your ${isHouseholdBalance ? 'household ' : ''}balance is now ${newBalance}.` : '');
+  }
+
+  return queueNotification('payment_confirmed', payment.user_id, { ...common, payment_note: paymentNote }, db);
+};
+
+// Warn a member when a debit takes their balance down to the low balance threshold (once per crossing)
+export const notifyIfLowBalance = async (userId, balanceBefore, balanceAfter, db = query) => {
+  if (balanceAfter > LOW_BALANCE_THRESHOLD || balanceBefore <= LOW_BALANCE_THRESHOLD) return null;
+
+  return queueNotification('low_balance', userId, { concessions: String(balanceAfter) }, db);
+};
+
+// Helper function to record a delivery attempt and its outcome on the notification
+const recordDelivery = async (notification, attempt, transport, error) => {
+  const isSent = !error;
+  const hasFailed = !isSent && attempt >= MAX_DELIVERY_ATTEMPTS;
+  const retryDelay = RETRY_DELAYS_MINUTES[Math.min(attempt, RETRY_DELAYS_MINUTES.length) - 1];
+
+  await withTransaction(async (tx) => {
+    await tx(`
+      INSERT INTO notification_deliveries (notification_id, attempt, transport, status, error)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [notification.id, attempt, transport, isSent ? 'sent' : 'failed', error]);
+
+    await tx(`
+      UPDATE notifications
+      SET attempts = $1, status = $2::varchar, last_error = $3,
+          sent_at = CASE WHEN $2::varchar = 'sent' THEN CURRENT_TIMESTAMP ELSE sent_at END,
+          next_attempt_at = CASE WHEN $2::varchar = 'pending' THEN CURRENT_TIMESTAMP + make_interval(mins => $4) ELSE next_attempt_at END
+      WHERE id = $5
+    `, [attempt, isSent ? 'sent' : hasFailed ? 'failed' : 'pending', error, retryDelay, notification.id]);
+  });
+
+  return isSent;
+};
+
+// Outbox job: deliver the notifications that are due, retrying failures with a growing delay. Each batch
+// is claimed by pushing its next attempt forward, so a slow delivery isn't picked up again by the next run
+// (or another server). Returns how many were sent and how many failed this time.
+export const deliverPendingNotifications = async () => {
+  const claimed = await query(`
+    UPDATE notifications SET next_attempt_at = CURRENT_TIMESTAMP + INTERVAL '10 minutes'
+    WHERE id IN (
+      SELECT id FROM notifications
+      WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+      ORDER BY next_attempt_at, id
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `, [DELIVERY_BATCH_SIZE]);
+
+  const totals = { sent: 0, failed: 0 };
+  const transport = getTransportName();
+
+  for (const notification of claimed.rows) {
+    const attempt = notification.attempts + 1;
+    let error = null;
+    try {
+      await sendMail({ to: notification.recipient, subject: notification.subject, text: notification.body });
+    } catch (sendError) {
+      error = sendError.message || String(sendError);
+      console.error(`Notification ${notification.id} delivery error:`, sendError);
+    }
+
+    if (await recordDelivery(notification, attempt, transport, error)) {
+      totals.sent++;
+    } else {
+      totals.failed++;
+    }
+  }
+
+  return totals;
+};
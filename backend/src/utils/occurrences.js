@@ -0,0 +1,91 @@
+import { query } from '../db/connection.js';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Helper function to normalise a date string, ISO timestamp or UTC Date to YYYY-MM-DD (DATE columns already come
+// back from the database as YYYY-MM-DD, see db/connection.js)
+export const toDateString = (date) => {
+  if (!date) return null;
+  if (date instanceof Date) return date.toISOString().split('T')[0];
+  return String(date).split('T')[0];
+};
+
+// Helper function to check if the weekly pattern puts a session on a date
+export const isScheduledOnDate = (classData, dateString) => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  const dayName = DAY_NAMES[date.getUTCDay()];
+
+  if (!classData.days || !classData.days.includes(dayName)) return false;
+
+  const startDate = toDateString(classData.start_date);
+  const endDate = toDateString(classData.end_date);
+  if (startDate && dateString < startDate) return false;
+  if (endDate && dateString > endDate) return false;
+
+  return true;
+};
+
+// Merge a class with its per-date override into the effective occurrence
+export const buildOccurrence = (classData, dateString, override = null) => ({
+  class_id: classData.id,
+  occurrence_date: dateString,
+  name: classData.name,
+  time: String(override?.time || classData.time).slice(0, 5),
+  duration: classData.duration,
+  instructor: override?.instructor || classData.instructor,
+  substitute_instructor_id: override?.substitute_instructor_id || null,
+  is_substitute: !!override?.substitute_instructor_id,
+  max_capacity: override?.max_capacity || classData.max_capacity,
+  is_cancelled: override?.is_cancelled || false,
+  cancellation_reason: override?.cancellation_reason || null,
+  is_scheduled: isScheduledOnDate(classData, dateString),
+  has_override: !!override,
+  override_id: override?.id || null
+});
+
+// Get the effective occurrence of a class on a date (null if the class doesn't exist)
+export const getOccurrence = async (classId, date, db = query) => {
+  const dateString = toDateString(date);
+
+  const classResult = await db('SELECT * FROM classes WHERE id = $1', [classId]);
+  if (classResult.rows.length === 0) return null;
+
+  const overrideResult = await db(
+    'SELECT * FROM class_occurrences WHERE class_id = $1 AND occurrence_date = $2',
+    [classId, dateString]
+  );
+
+  return buildOccurrence(classResult.rows[0], dateString, overrideResult.rows[0] || null);
+};
+
+// Generate every scheduled occurrence of the given classes between two dates (inclusive)
+export const listOccurrences = async (classes, from, to) => {
+  if (classes.length === 0) return [];
+
+  const overrideResult = await query(`
+    SELECT * FROM class_occurrences
+    WHERE class_id = ANY($1) AND occurrence_date BETWEEN $2 AND $3
+  `, [classes.map(c => c.id), from, to]);
+
+  const overrides = new Map(
+    overrideResult.rows.map(o => [`${o.class_id}:${toDateString(o.occurrence_date)}`, o])
+  );
+
+  const occurrences = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+
+  while (cursor <= end) {
+    const dateString = cursor.toISOString().split('T')[0];
+
+    for (const classData of classes) {
+      if (isScheduledOnDate(classData, dateString)) {
+        occurrences.push(buildOccurrence(classData, dateString, overrides.get(`${classData.id}:${dateString}`)));
+      }
+    }
+
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return occurrences;
+};
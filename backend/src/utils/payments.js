@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { query } from '../db/connection.js';
+import { adjustConcessions } from './concessions.js';
+import { getBalanceHolder } from './households.js';
+import { issueInvoice } from './invoices.js';
+import { notifyPaymentSettled } from './notifications.js';
+
+// Letters and digits that can't be mistaken for each other when typed into a banking app (no 0/O or 1/I)
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const REFERENCE_LENGTH = 6;
+
+// Helper function to generate a short payment reference such as FB-7KQ2XM
+export const generatePaymentReference = () => {
+  let code = '';
+  for (let i = 0; i < REFERENCE_LENGTH; i++) {
+    code += REFERENCE_ALPHABET[crypto.randomInt(REFERENCE_ALPHABET.length)];
+  }
+  return `FB-${code}`;
+};
+
+// Skip an INSERT whose reference is already taken (the conflict target is idx_payments_reference). Any other
+// unique violation still raises.
+export const ON_REFERENCE_CONFLICT = "ON CONFLICT (reference) WHERE package_id IS NOT NULL OR payment_type = 'drop_in' DO NOTHING";
+
+// Insert a payment under a newly generated reference, passed as the last parameter of the INSERT. A clash with
+// an existing reference is very unlikely, but the INSERT skips it (ON_REFERENCE_CONFLICT) and is tried again
+// with a fresh reference. Raising the unique violation instead would abort the caller's transaction.
+export const insertWithUniqueReference = async (text, params, db = query) => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const result = await db(text, [...params, generatePaymentReference()]);
+    if (result.rows.length > 0) return result.rows[0];
+  }
+
+  throw new Error('Unable to generate a unique payment reference');
+};
+
+// Record the pending payment for a concession package. The member pays by bank transfer (or at reception)
+// quoting the generated reference, and an admin confirms it from the payments queue.
+export const createPackagePayment = async (userId, concessionPackage, paymentMethod, db = query) =>
+  insertWithUniqueReference(`
+    INSERT INTO payments (user_id, amount, concessions_purchased, payment_type, package_id, validity_months, payment_method, reference, status)
+    VALUES ($1, $2, $3, 'concessions', $4, $5, $6, $7, 'pending')
+    ${ON_REFERENCE_CONFLICT}
+    RETURNING *
+  `, [userId, concessionPackage.price, concessionPackage.concessions, concessionPackage.id, concessionPackage.validity_months,
+      paymentMethod], db);
+
+// Confirm or reject a pending payment. Confirming a concession purchase credits the concessions as a new pack,
+// valid from today for as long as the package was sold with, to the balance the member books against (their
+// household payer's, for a dependant); confirming a drop-in payment just marks the booking as paid. Either way
+// the member is issued a numbered receipt. Only pending payments can be processed, so a payment is never
+// credited twice. Run inside a transaction, so a failure part way through leaves the payment pending to retry.
+// Returns null when the payment isn't pending (or doesn't exist), otherwise the payment, the new balance and the
+// balance holder credited (null unless concessions were added) and the receipt.
+export const settlePayment = async ({ paymentId, status, actorId, notes = null }, tx) => {
+  const result = await tx(`
+    UPDATE payments
+    SET status = $1, notes = COALESCE($2, notes), processed_by = $3, processed_at = CURRENT_TIMESTAMP
+    WHERE id = $4 AND status = 'pending'
+    RETURNING *
+  `, [status, notes, actorId, paymentId]);
+
+  const payment = result.rows[0];
+  if (!payment) return null;
+
+  let newBalance = null;
+  let balanceHolder = null;
+  if (status === 'confirmed' && payment.payment_type === 'concessions') {
+    const packageResult = await tx('SELECT name FROM concession_packages WHERE id = $1', [payment.package_id]);
+    balanceHolder = await getBalanceHolder(payment.user_id, tx);
+    const buyerResult = await tx('SELECT name FROM users WHERE id = $1', [payment.user_id]);
+
+    const entry = await adjustConcessions({
+      userId: balanceHolder.id,
+      change: payment.concessions_purchased,
+      reason: 'purchase',
+      actorId,
+      paymentId: payment.id,
+      note: balanceHolder.id !== payment.user_id ? `Bought by ${buyerResult.rows[0].name}` : null,
+      packName: packageResult.rows[0]?.name ?? `${payment.concessions_purchased} concessions`,
+      validityMonths: payment.validity_months
+    }, tx);
+
+    newBalance = entry?.balance_after ?? null;
+  }
+
+  const invoice = status === 'confirmed' ? await issueInvoice(payment.id, actorId, tx) : null;
+
+  await notifyPaymentSettled(payment, {
+    newBalance,
+    isHouseholdBalance: !!balanceHolder && balanceHolder.id !== payment.user_id
+  }, tx);
+
+  return { payment, newBalance, balanceHolder, invoice };
+};
@@ -0,0 +1,58 @@
+import { query } from '../db/connection.js';
+
+// Fallback used until an admin has saved a gym-wide policy
+export const DEFAULT_POLICY = {
+  booking_window_days: 14,
+  cancellation_deadline_hours: 24,
+  credit_limit: 5,
+  no_show_penalty: 0
+};
+
+export const POLICY_FIELDS = Object.keys(DEFAULT_POLICY);
+
+// Helper function to get the gym-wide policy
+export const getDefaultPolicy = async (db = query) => {
+  const result = await db('SELECT * FROM booking_policies WHERE class_id IS NULL LIMIT 1');
+  const row = result.rows[0] || {};
+
+  return POLICY_FIELDS.reduce((policy, field) => ({
+    ...policy,
+    [field]: row[field] ?? DEFAULT_POLICY[field]
+  }), {});
+};
+
+// Helper function to get the policy a class actually runs under (its overrides on top of the gym default)
+export const getClassPolicy = async (classId, db = query) => {
+  const defaults = await getDefaultPolicy(db);
+  const result = await db('SELECT * FROM booking_policies WHERE class_id = $1', [classId]);
+  const override = result.rows[0];
+
+  if (!override) return defaults;
+
+  return POLICY_FIELDS.reduce((policy, field) => ({
+    ...policy,
+    [field]: override[field] ?? defaults[field]
+  }), {});
+};
+
+// Helper function to check if date is within booking window
+export const isWithinBookingWindow = (bookingDate, policy) => {
+  const today = new Date();
+  const booking = new Date(bookingDate);
+  const diffTime = booking.getTime() - today.getTime();
+  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+
+  return diffDays >= 0 && diffDays <= policy.booking_window_days;
+};
+
+// Helper function to check if cancellation is late
+export const isLateCancellation = (bookingDate, classTime, policy) => {
+  const now = new Date();
+  const classDateTime = new Date(`${bookingDate}T${classTime}:00`);
+  const hoursUntilClass = (classDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+
+  return hoursUntilClass <= policy.cancellation_deadline_hours && hoursUntilClass > 0;
+};
+
+// Helper function to check if a member may book a class costing `cost` concessions on their current balance
+export const hasCreditAvailable = (concessions, policy, cost = 1) => concessions - cost >= -policy.credit_limit;
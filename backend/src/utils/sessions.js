@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { query } from '../db/connection.js';
+
+// Access tokens are short-lived; the refresh token in an httpOnly cookie keeps the member signed in
+export const ACCESS_TOKEN_TTL = process.env.JWT_EXPIRES_IN || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export const REFRESH_COOKIE_NAME = 'flexbook_refresh';
+
+// Two tabs refreshing at the same moment both send the old refresh token. The one that loses the race
+// within this window gets a new access token instead of being treated as a stolen token.
+const ROTATION_GRACE_SECONDS = 30;
+
+// Only a hash of each refresh token is stored, so the sessions table can't be used to sign in
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+const createRefreshToken = () => crypto.randomBytes(32).toString('hex');
+
+// Responses for a refresh that can't be used (the member has to sign in again)
+export const SESSION_ERRORS = {
+  missing: { status: 401, error: 'Not signed in', message: 'Please log in' },
+  invalid: { status: 401, error: 'Session ended', message: 'Your session has ended. Please log in again' },
+  reused: { status: 401, error: 'Session ended', message: 'For your security this session was signed out. Please log in again' },
+  disabled: { status: 401, error: 'Account disabled', message: 'Your account has been disabled' }
+};
+
+// Helper function to sign an access token for a session
+export const createAccessToken = (user, sessionId) => jwt.sign(
+  { userId: user.id, email: user.email, role: user.role, sessionId },
+  process.env.JWT_SECRET,
+  { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+// Helper function to read a cookie from the request (no cookie parser is installed)
+export const getCookie = (req, name) => {
+  const header = req.headers.cookie || '';
+  const pair = header.split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return pair ? decodeURIComponent(pair.slice(name.length + 1)) : null;
+};
+
+// The frontend may be served from a different site to the API in production, so the cookie has to be
+// SameSite=None (which browsers only accept over HTTPS) there
+const getCookieOptions = () => {
+  const isProduction = process.env.NODE_ENV === 'production';
+  return {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: isProduction ? 'none' : 'lax',
+    path: '/api/auth'
+  };
+};
+
+export const setRefreshCookie = (res, refreshToken) => {
+  res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+    ...getCookieOptions(),
+    maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+  });
+};
+
+export const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE_NAME, getCookieOptions());
+};
+
+// Start a session for a user signing in on a device. Returns the access token; the refresh token is set
+// as a cookie on the response.
+export const startSession = async (user, req, res) => {
+  const refreshToken = createRefreshToken();
+
+  // Tidy up this user's sessions that can no longer be used
+  await query(`
+    DELETE FROM sessions
+    WHERE user_id = $1 AND (revoked_at < CURRENT_TIMESTAMP - INTERVAL '30 days' OR expires_at < CURRENT_TIMESTAMP)
+  `, [user.id]);
+
+  const result = await query(`
+    INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+    VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(days => $5))
+    RETURNING id
+  `, [user.id, hashToken(refreshToken), (req.get('user-agent') || '').slice(0, 500), req.ip, REFRESH_TOKEN_TTL_DAYS]);
+
+  setRefreshCookie(res, refreshToken);
+  return createAccessToken(user, result.rows[0].id);
+};
+
+// Swap a refresh token for a new access token, rotating the refresh token. Returns { user, accessToken,
+// refreshToken } (refreshToken is null inside the grace window, when the cookie was already replaced) or
+// { error }. A refresh token that was already rotated away is treated as stolen and ends the session.
+export const rotateSession = async (refreshToken, req, tx) => {
+  const tokenHash = hashToken(refreshToken);
+  const result = await tx(`
+    SELECT s.*, s.refresh_token_hash = $1 as is_current_token,
+           s.rotated_at > CURRENT_TIMESTAMP - make_interval(secs => $2) as in_grace,
+           s.expires_at < CURRENT_TIMESTAMP as has_expired,
+           u.email, u.role, u.is_active
+    FROM sessions s
+    JOIN users u ON s.user_id = u.id
+    WHERE s.refresh_token_hash = $1 OR s.previous_token_hash = $1
+    FOR UPDATE OF s
+  `, [tokenHash, ROTATION_GRACE_SECONDS]);
+
+  const session = result.rows[0];
+  if (!session || session.revoked_at || session.has_expired) return { error: 'invalid' };
+  if (!session.is_active) return { error: 'disabled' };
+
+  const user = { id: session.user_id, email: session.email, role: session.role };
+
+  if (!session.is_current_token) {
+    if (session.in_grace) {
+      return { user, accessToken: createAccessToken(user, session.id), refreshToken: null };
+    }
+    await tx('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1', [session.id]);
+    console.warn(`⚠️ Refresh token reused for session ${session.id}; session revoked`);
+    return { error: 'reused' };
+  }
+
+  const nextToken = createRefreshToken();
+  await tx(`
+    UPDATE sessions
+    SET refresh_token_hash = $1, previous_token_hash = $2, rotated_at = CURRENT_TIMESTAMP,
+        last_used_at = CURRENT_TIMESTAMP, user_agent = $3, ip_address = $4,
+        expires_at = CURRENT_TIMESTAMP + make_interval(days => $5)
+    WHERE id = $6
+  `, [hashToken(nextToken), tokenHash, (req.get('user-agent') || '').slice(0, 500), req.ip, REFRESH_TOKEN_TTL_DAYS, session.id]);
+
+  return { user, accessToken: createAccessToken(user, session.id), refreshToken: nextToken };
+};
+
+// End the session a refresh token belongs to (signing out on this device)
+export const endSessionByToken = async (refreshToken) => {
+  const tokenHash = hashToken(refreshToken);
+  await query(`
+    UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+    WHERE (refresh_token_hash = $1 OR previous_token_hash = $1) AND revoked_at IS NULL
+  `, [tokenHash]);
+};
+
+// End every session a user has, apart from keepSessionId when given. Returns how many were ended.
+export const endUserSessions = async (userId, keepSessionId = null, db = query) => {
+  const result = await db(`
+    UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+    WHERE user_id = $1 AND revoked_at IS NULL AND ($2::int IS NULL OR id <> $2)
+  `, [userId, keepSessionId]);
+  return result.rowCount;
+};
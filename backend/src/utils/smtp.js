@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+// A minimal SMTP client for the smtp mail transport: plain text messages to one recipient, with STARTTLS
+// (or implicit TLS) and AUTH PLAIN. Enough for a mail relay or an email provider's SMTP endpoint.
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// Helper function to pull the address out of "Name <address>"
+const getAddress = (value) => {
+  const match = String(value).match(/<([^>]+)>/);
+  return (match ? match[1] : String(value)).trim();
+};
+
+// Subjects outside plain ASCII are sent as an encoded word
+const encodeHeader = (value) => /^[\x20-\x7e]*$/.test(value)
+  ? value
+  : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// The body is base64 encoded, so any text is safe and no line can start with the "." that ends DATA
+const buildMessage = ({ from, to, subject, text }) => [
+  `From: ${from}`,
+  `To: ${to}`,
+  `Subject: ${encodeHeader(subject)}`,
+  `Date: ${new Date().toUTCString()}`,
+  `Message-ID: <${crypto.randomUUID()}@${getAddress(from).split('@')[1] || 'flexbook.local'}>`,
+  'MIME-Version: 1.0',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g)?.join('\r\n') || ''
+].join('\r\n');
+
+// Read one reply from the server, which may run over several lines ("250-..." lines, then "250 ...")
+const readReply = (socket) => new Promise((resolve, reject) => {
+  let buffer = '';
+
+  const cleanup = () => {
+    socket.off('data', onData);
+    socket.off('error', onError);
+    socket.off('close', onClose);
+  };
+  const onData = (chunk) => {
+    buffer += chunk.toString('utf8');
+    if (!buffer.endsWith('\r\n')) return;
+    const lines = buffer.split('\r\n').filter(Boolean);
+    const last = lines[lines.length - 1];
+    if (/^\d{3}( |$)/.test(last)) {
+      cleanup();
+      resolve({ code: parseInt(last.slice(0, 3)), text: lines.join('\n') });
+    }
+  };
+  const onError = (error) => {
+    cleanup();
+    reject(error);
+  };
+  const onClose = () => {
+    cleanup();
+    reject(new Error('SMTP server closed the connection'));
+  };
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+});
+
+// Send a command (or just wait for the greeting when line is null) and check the reply code
+const command = async (socket, line, expectedCodes) => {
+  const reply = readReply(socket);
+  if (line !== null) {
+    socket.write(`${line}\r\n`);
+  }
+
+  const { code, text } = await reply;
+  if (!expectedCodes.includes(code)) {
+    // Only the command's verb is reported, so credentials never end up in an error message
+    const verb = line === null ? 'greeting' : line.split(/[ :]/)[0];
+    throw new Error(`SMTP ${verb} failed: ${text}`);
+  }
+  return text;
+};
+
+// Errors are reported to the command waiting on a reply; the extra listener stops one arriving between
+// commands from crashing the server
+const prepareSocket = (socket) => {
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+  socket.on('error', () => {});
+  return socket;
+};
+
+const connect = ({ host, port, secure }) => new Promise((resolve, reject) => {
+  const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+  socket.once(secure ? 'secureConnect' : 'connect', () => {
+    socket.off('error', reject);
+    resolve(prepareSocket(socket));
+  });
+  socket.once('error', reject);
+});
+
+// Switch an open connection to TLS after the server accepts STARTTLS
+const upgradeToTls = (socket, host) => new Promise((resolve, reject) => {
+  const secureSocket = tls.connect({ socket, servername: host });
+  secureSocket.once('secureConnect', () => {
+    secureSocket.off('error', reject);
+    resolve(prepareSocket(secureSocket));
+  });
+  secureSocket.once('error', reject);
+});
+
+// Deliver a message { from, to, subject, text } through an SMTP server. secure means TLS from the start
+// (usually port 465); otherwise the connection is upgraded with STARTTLS whenever the server offers it.
+// Throws when the server doesn't accept the message.
+export const sendSmtp = async (message, { host, port, secure = false, user = null, pass = null }) => {
+  let socket = await connect({ host, port, secure });
+
+  try {
+    await command(socket, null, [220]);
+    const features = await command(socket, `EHLO ${os.hostname()}`, [250]);
+
+    let isEncrypted = secure;
+    if (!secure && /^250[- ]STARTTLS/im.test(features)) {
+      await command(socket, 'STARTTLS', [220]);
+      socket = await upgradeToTls(socket, host);
+      isEncrypted = true;
+      await command(socket, `EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (user) {
+      if (!isEncrypted) {
+        throw new Error('SMTP server does not support TLS; refusing to send the password unencrypted');
+      }
+      await command(socket, `AUTH PLAIN ${Buffer.from(`\0${user}\0${pass || ''}`, 'utf8').toString('base64')}`, [235]);
+    }
+
+    await command(socket, `MAIL FROM:<${getAddress(message.from)}>`, [250]);
+    await command(socket, `RCPT TO:<${getAddress(message.to)}>`, [250, 251]);
+    await command(socket, 'DATA', [354]);
+    await command(socket, `${buildMessage(message)}\r\n.`, [250]);
+
+    // The message has been accepted, so a server that hangs up without saying goodbye doesn't matter
+    await command(socket, 'QUIT', [221]).catch(() => {});
+  } finally {
+    socket.destroy();
+  }
+};
@@ -0,0 +1,170 @@
+import { query, withTransaction } from '../db/connection.js';
+import { listOccurrences, toDateString } from './occurrences.js';
+import { adjustConcessions } from './concessions.js';
+import { getBalanceHolder } from './households.js';
+import { getClassPolicy, hasCreditAvailable } from './policies.js';
+import { getMembershipCover } from './memberships.js';
+import { notifyBookingConfirmed } from './notifications.js';
+
+// How often the scheduler books dates that have entered the booking window
+export const STANDING_BOOKINGS_INTERVAL_MS = 60 * 60 * 1000;
+
+// Helper function to check if a session has already started
+const hasStarted = (dateString, time) => new Date(`${dateString}T${time}:00`).getTime() <= Date.now();
+
+// Helper function to record why a date couldn't be booked (updated on each retry)
+const recordSkip = async (standingBookingId, date, reason) => {
+  await query(`
+    INSERT INTO standing_booking_skips (standing_booking_id, skip_date, reason)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (standing_booking_id, skip_date) DO UPDATE SET reason = EXCLUDED.reason
+  `, [standingBookingId, date, reason]);
+
+  return { date, reason };
+};
+
+// Book every date of a standing booking that is inside the class's booking window, following the
+// same capacity, membership and credit rules as booking by hand. Dates the member already has a booking for
+// (including ones they cancelled) are left alone, so cancelling one date doesn't get it rebooked.
+export const processStandingBooking = async (standing) => {
+  const booked = [];
+  const skipped = [];
+
+  const classResult = await query('SELECT * FROM classes WHERE id = $1', [standing.class_id]);
+  if (classResult.rows.length === 0) return { booked, skipped };
+
+  const classData = classResult.rows[0];
+  const policy = await getClassPolicy(standing.class_id);
+  const today = toDateString(new Date());
+  const windowEnd = new Date();
+  windowEnd.setUTCDate(windowEnd.getUTCDate() + policy.booking_window_days);
+
+  const startDate = toDateString(standing.start_date);
+  const from = startDate > today ? startDate : today;
+  const to = toDateString(windowEnd);
+  if (from > to) return { booked, skipped };
+
+  const occurrences = (await listOccurrences([classData], from, to))
+    .filter(occurrence => !hasStarted(occurrence.occurrence_date, occurrence.time));
+
+  const existingResult = await query(`
+    SELECT booking_date FROM bookings
+    WHERE user_id = $1 AND class_id = $2 AND booking_date BETWEEN $3 AND $4
+  `, [standing.user_id, standing.class_id, from, to]);
+  const existingDates = existingResult.rows.map(b => toDateString(b.booking_date));
+
+  // Dates booked since they were skipped (by the member or a retry) no longer need reporting
+  await query(`
+    DELETE FROM standing_booking_skips
+    WHERE standing_booking_id = $1 AND skip_date = ANY($2::date[])
+  `, [standing.id, existingDates]);
+
+  const isOpenForBooking = classData.status !== 'draft' &&
+    !(classData.status === 'scheduled' && toDateString(classData.publish_date) > today);
+
+  for (const occurrence of occurrences) {
+    const date = occurrence.occurrence_date;
+    if (existingDates.includes(date)) continue;
+
+    if (!isOpenForBooking) {
+      skipped.push(await recordSkip(standing.id, date, 'class_unavailable'));
+      continue;
+    }
+
+    if (occurrence.is_cancelled) {
+      skipped.push(await recordSkip(standing.id, date, 'class_cancelled'));
+      continue;
+    }
+
+    // Same locking order as booking by hand: the class, then the member
+    const outcome = await withTransaction(async (tx) => {
+      await tx('SELECT id FROM classes WHERE id = $1 FOR UPDATE', [standing.class_id]);
+
+      const capacityResult = await tx(`
+        SELECT COUNT(*) as current_bookings
+        FROM bookings
+        WHERE class_id = $1 AND booking_date = $2 AND status = 'confirmed'
+      `, [standing.class_id, date]);
+
+      if (parseInt(capacityResult.rows[0].current_bookings) >= occurrence.max_capacity) return 'class_full';
+
+      // A dependant's standing booking is charged to their household payer's balance
+      const balanceHolder = await getBalanceHolder(standing.user_id, tx);
+      const chargedUserId = balanceHolder.id !== standing.user_id ? balanceHolder.id : null;
+      const userResult = await tx('SELECT concessions FROM users WHERE id = $1 FOR UPDATE', [balanceHolder.id]);
+      const { membership } = await getMembershipCover(standing.user_id, date, occurrence.time, tx);
+      const cost = membership ? 0 : classData.concession_cost;
+      if (!membership && !hasCreditAvailable(userResult.rows[0].concessions, policy, cost)) return 'credit_limit';
+
+      const bookingResult = await tx(`
+        INSERT INTO bookings (user_id, class_id, booking_date, status, used_concession, concessions_charged, standing_booking_id, membership_id, charged_user_id)
+        VALUES ($1, $2, $3, 'confirmed', $4, $5, $6, $7, $8)
+        ON CONFLICT (user_id, class_id, booking_date) DO NOTHING
+        RETURNING *
+      `, [standing.user_id, standing.class_id, date, !membership, cost, standing.id, membership ? membership.id : null, chargedUserId]);
+
+      // The member booked this date themselves since we looked
+      if (bookingResult.rows.length === 0) return null;
+
+      if (!membership) {
+        await adjustConcessions({
+          userId: balanceHolder.id,
+          change: -cost,
+          reason: 'booking',
+          bookingId: bookingResult.rows[0].id,
+          note: 'Standing booking'
+        }, tx);
+      }
+
+      await tx(`
+        UPDATE waitlist_entries SET status = 'cancelled'
+        WHERE user_id = $1 AND class_id = $2 AND booking_date = $3 AND status = 'waiting'
+      `, [standing.user_id, standing.class_id, date]);
+
+      await tx(
+        'DELETE FROM standing_booking_skips WHERE standing_booking_id = $1 AND skip_date = $2',
+        [standing.id, date]
+      );
+
+      await notifyBookingConfirmed(bookingResult.rows[0], {}, tx);
+
+      return 'booked';
+    });
+
+    if (outcome === 'booked') {
+      booked.push(date);
+    } else if (outcome) {
+      skipped.push(await recordSkip(standing.id, date, outcome));
+    }
+  }
+
+  await query('UPDATE standing_bookings SET last_run_at = CURRENT_TIMESTAMP WHERE id = $1', [standing.id]);
+
+  return { booked, skipped };
+};
+
+// Scheduler job: process every active standing booking of an active member
+export const runStandingBookings = async () => {
+  const result = await query(`
+    SELECT s.*
+    FROM standing_bookings s
+    JOIN users u ON s.user_id = u.id
+    WHERE s.status = 'active' AND u.is_active = true
+    ORDER BY s.created_at, s.id
+  `);
+
+  const totals = { processed: 0, booked: 0, skipped: 0 };
+
+  for (const standing of result.rows) {
+    try {
+      const { booked, skipped } = await processStandingBooking(standing);
+      totals.processed++;
+      totals.booked += booked.length;
+      totals.skipped += skipped.length;
+    } catch (error) {
+      console.error(`Standing booking ${standing.id} error:`, error);
+    }
+  }
+
+  return totals;
+};
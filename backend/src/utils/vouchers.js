@@ -0,0 +1,126 @@
+import { query, withTransaction } from '../db/connection.js';
+import { adjustConcessions } from './concessions.js';
+import { getBalanceHolder } from './households.js';
+
+export const VOUCHER_TYPES = ['concessions', 'percent_off'];
+
+// A redemption counts as a use unless it was a discount on a purchase that was then rejected or cancelled
+// (expects the redemption's payment joined as p)
+export const COUNTED_REDEMPTION = "(p.id IS NULL OR p.status NOT IN ('rejected', 'cancelled'))";
+
+// Why a code can't be used, with the response to send for each
+export const VOUCHER_ERRORS = {
+  not_found: { status: 404, error: 'Invalid code', message: 'That code doesn\'t exist. Please check it and try again.' },
+  inactive: { status: 400, error: 'Code not available', message: 'This code is no longer available' },
+  expired: { status: 400, error: 'Code expired', message: 'This code has expired' },
+  used_up: { status: 400, error: 'Code used up', message: 'This code has already been used the maximum number of times' },
+  already_redeemed: { status: 409, error: 'Already redeemed', message: 'You have already used this code' },
+  new_members_only: { status: 400, error: 'New members only', message: 'This code is only for new members' },
+  needs_purchase: { status: 400, error: 'Use when buying', message: 'This code gives a discount on a concession package. Enter it when you buy concessions.' },
+  not_discount: { status: 400, error: 'Not a discount code', message: 'This code adds free concessions. Redeem it from your dashboard instead.' },
+  wrong_package: { status: 400, error: 'Code not valid for this package', message: 'This code can\'t be used with the package you chose' }
+};
+
+// Helper function to tidy a code as typed by a member (codes are stored upper case)
+export const normalizeVoucherCode = (code) => String(code || '').trim().toUpperCase();
+
+// Find a voucher by its code, locked so two members can't both take its last use. Use inside a transaction.
+export const findVoucher = async (code, db = query) => {
+  const result = await db(`
+    SELECT v.*, v.expires_on IS NOT NULL AND v.expires_on < CURRENT_DATE as has_expired
+    FROM vouchers v
+    WHERE v.code = $1
+    FOR UPDATE
+  `, [normalizeVoucherCode(code)]);
+
+  return result.rows[0] || null;
+};
+
+// Check a voucher can be redeemed (by a member, when userId is given). Returns null when it can, otherwise
+// the reason it can't, a key of VOUCHER_ERRORS.
+export const checkVoucher = async (voucher, userId = null, db = query) => {
+  if (!voucher) return 'not_found';
+  if (!voucher.is_active) return 'inactive';
+  if (voucher.has_expired) return 'expired';
+
+  const usesResult = await db(`
+    SELECT COUNT(*) as uses, COUNT(*) FILTER (WHERE vr.user_id = $2) as member_uses
+    FROM voucher_redemptions vr
+    LEFT JOIN payments p ON vr.payment_id = p.id
+    WHERE vr.voucher_id = $1 AND ${COUNTED_REDEMPTION}
+  `, [voucher.id, userId]);
+  const { uses, member_uses } = usesResult.rows[0];
+
+  if (voucher.max_uses !== null && parseInt(uses) >= voucher.max_uses) return 'used_up';
+  if (userId === null) return null;
+  if (parseInt(member_uses) > 0) return 'already_redeemed';
+
+  // New members haven't booked a class or bought concessions yet
+  if (voucher.new_members_only) {
+    const historyResult = await db(`
+      SELECT EXISTS (SELECT 1 FROM bookings WHERE user_id = $1)
+          OR EXISTS (SELECT 1 FROM payments WHERE user_id = $1 AND status = 'confirmed') as has_history
+    `, [userId]);
+    if (historyResult.rows[0].has_history) return 'new_members_only';
+  }
+
+  return null;
+};
+
+// Redeem a free-concessions code for a member. The concessions go to the balance they book against (their
+// household payer's, for a dependant) as a pack named after the code. Returns { error } when the code can't
+// be used, otherwise the voucher, the redemption, the ledger entry and the balance holder.
+export const redeemConcessionVoucher = async ({ code, userId, source, actorId = null }) => {
+  return withTransaction(async (tx) => {
+    const voucher = await findVoucher(code, tx);
+    const error = await checkVoucher(voucher, userId, tx);
+    if (error) return { error };
+    if (voucher.voucher_type !== 'concessions') return { error: 'needs_purchase' };
+
+    const balanceHolder = await getBalanceHolder(userId, tx);
+    const memberResult = await tx('SELECT name FROM users WHERE id = $1', [userId]);
+
+    const entry = await adjustConcessions({
+      userId: balanceHolder.id,
+      change: voucher.concessions,
+      reason: 'voucher',
+      actorId,
+      note: balanceHolder.id !== userId ? `${voucher.code} redeemed by ${memberResult.rows[0].name}` : voucher.code,
+      packName: `Voucher ${voucher.code}`,
+      validityMonths: voucher.validity_months
+    }, tx);
+
+    const redemptionResult = await tx(`
+      INSERT INTO voucher_redemptions (voucher_id, user_id, source, concessions, ledger_id)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, [voucher.id, userId, source, voucher.concessions, entry.id]);
+
+    return { voucher, redemption: redemptionResult.rows[0], entry, balanceHolder };
+  });
+};
+
+// Work out a discount code's saving on a package purchase of the given amount. Run inside the purchase's
+// transaction, then record it with recordDiscount once the payment exists. Returns { error } when the code
+// can't be used, otherwise the voucher and the discount in dollars.
+export const getPackageDiscount = async ({ code, userId, packageId, amount }, tx) => {
+  const voucher = await findVoucher(code, tx);
+  const error = await checkVoucher(voucher, userId, tx);
+  if (error) return { error };
+  if (voucher.voucher_type !== 'percent_off') return { error: 'not_discount' };
+  if (voucher.package_id !== null && voucher.package_id !== packageId) return { error: 'wrong_package' };
+
+  const discount = Math.round(parseFloat(amount) * voucher.percent_off) / 100;
+  return { voucher, discount };
+};
+
+// Record a discount code's use against the purchase it was applied to
+export const recordDiscount = async ({ voucher, userId, paymentId, discount }, tx) => {
+  const result = await tx(`
+    INSERT INTO voucher_redemptions (voucher_id, user_id, source, payment_id, discount_amount)
+    VALUES ($1, $2, 'purchase', $3, $4)
+    RETURNING *
+  `, [voucher.id, userId, paymentId, discount]);
+
+  return result.rows[0];
+};
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BANK_STATEMENT_FORMATS, readStatement, matchTransaction } from '../src/utils/bankStatements.js';
+
+const deposit = (reference, amount, payer = 'J SMITH') => ({ transaction_date: '2026-10-19', amount, payer, reference });
+
+const payment = (id, reference, amount, userName = 'Sam Jones') => ({ id, reference, amount: amount.toFixed(2), user_name: userName });
+
+test('a deposit quoting DROPIN-12 is not matched to the DROPIN-1 payment', () => {
+  const pending = [payment(1, 'DROPIN-1', 18)];
+
+  const result = matchTransaction(deposit('DROPIN-12', 18), pending);
+
+  assert.notEqual(result.status, 'matched');
+});
+
+test('a deposit quoting DROPIN-12 is matched to the DROPIN-12 payment, not DROPIN-1', () => {
+  const pending = [payment(1, 'DROPIN-1', 18), payment(12, 'DROPIN-12', 18)];
+
+  const result = matchTransaction(deposit('DROPIN-12', 18), pending);
+
+  assert.equal(result.status, 'matched');
+  assert.equal(result.payment.id, 12);
+});
+
+test('a reference is matched however the member typed it', () => {
+  const pending = [payment(5, 'FB-7KQ2XM', 150)];
+
+  for (const reference of ['FB-7KQ2XM', 'fb 7kq2xm', 'Yoga FB7KQ2XM thanks', 'FB-7KQ 2XM']) {
+    const result = matchTransaction(deposit(reference, 150), pending);
+    assert.equal(result.status, 'matched', reference);
+    assert.equal(result.payment.id, 5, reference);
+  }
+});
+
+test('a matching reference with the wrong amount is left for review', () => {
+  const result = matchTransaction(deposit('FB-7KQ2XM', 140), [payment(5, 'FB-7KQ2XM', 150)]);
+
+  assert.equal(result.status, 'review');
+  assert.match(result.reason, /\$140\.00, not \$150\.00/);
+});
+
+test('a mistyped reference or the payer name only suggests a match', () => {
+  const pending = [payment(5, 'FB-7KQ2XM', 150, 'Jane Smith')];
+
+  assert.equal(matchTransaction(deposit('FB-7KQ2XN', 150), pending).status, 'review');
+  assert.equal(matchTransaction(deposit('', 150, 'JANE SMITH'), pending).status, 'review');
+  assert.equal(matchTransaction(deposit('RENT', 150, 'SOMEONE ELSE'), pending).status, 'unmatched');
+});
+
+test('readStatement reads deposits from a bank export, skipping withdrawals and bad rows', () => {
+  const csv = [
+    'Account,12-3456-7890123-00',
+    '',
+    'Date,Amount,Details,Particulars,Code,Reference',
+    '19/10/2026,150.00,JANE SMITH,FB-7KQ2XM,,',
+    '19/10/2026,-40.00,POWER CO,,,',
+    'not a date,10.00,,,,',
+    '20/10/2026,"1,018.00",SAM JONES,"FB-ABC",23Z,'
+  ].join('\n');
+
+  const { error, transactions, skipped } = readStatement(csv, BANK_STATEMENT_FORMATS.anz.mapping);
+
+  assert.equal(error, null);
+  assert.equal(skipped, 1);
+  assert.deepEqual(transactions.map(t => [t.transaction_date, t.amount, t.payer, t.reference]), [
+    ['2026-10-19', 150, 'JANE SMITH', 'FB-7KQ2XM'],
+    ['2026-10-20', 1018, 'SAM JONES', 'FB-ABC 23Z']
+  ]);
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { adjustConcessions } from '../src/utils/concessions.js';
+import { createFakeTransaction } from './helpers/fakeTransaction.js';
+
+// A member's balance, packs, ledger and queued notifications, enough of the schema for adjustConcessions to move concessions in and
+// out of packs. Packs are { id, remaining, expires_on } (expires_on a YYYY-MM-DD string or null).
+const createMember = (concessions, packs = []) => {
+  const user = { id: 12, concessions };
+  const state = {
+    user,
+    packs: packs.map(p => ({ user_id: user.id, expired_at: null, name: 'Pack', ...p })),
+    ledger: [],
+    usage: [],
+    notifications: []
+  };
+
+  const byExpiry = (a, b) => (a.expires_on ?? '9999').localeCompare(b.expires_on ?? '9999') || a.id - b.id;
+
+  const tx = createFakeTransaction([
+    [/SELECT concessions FROM users WHERE id = \$1 FOR UPDATE/, () => [{ concessions: user.concessions }]],
+    [/WITH updated AS/, ([userId, change, reason, actorId, bookingId, paymentId, note]) => {
+      user.concessions += change;
+      const entry = { id: state.ledger.length + 1, user_id: userId, change, balance_after: user.concessions, reason, booking_id: bookingId, payment_id: paymentId, note };
+      state.ledger.push(entry);
+      return [entry];
+    }],
+    [/SELECT id, remaining FROM concession_packs/, ([, packId]) => state.packs
+      .filter(p => p.remaining > 0 && !p.expired_at && (packId === null || p.id === packId))
+      .sort(byExpiry)],
+    [/FROM concession_pack_usage u/, ([bookingId]) => {
+      const entries = state.ledger.filter(l => l.booking_id === bookingId && ['booking', 'no_show_penalty', 'refund'].includes(l.reason));
+      return state.packs
+        .map(pack => ({
+          pack,
+          change: state.usage.filter(u => u.pack_id === pack.id && entries.some(l => l.id === u.ledger_id)).reduce((total, u) => total + u.change, 0)
+        }))
+        .filter(({ change }) => change < 0)
+        .sort((a, b) => byExpiry(b.pack, a.pack))
+        .map(({ pack, change }) => ({ pack_id: pack.id, taken: String(-change), has_expired: false }));
+    }],
+    [/COALESCE\(SUM\(remaining\), 0\)/, () => [{ total: String(state.packs.filter(p => !p.expired_at).reduce((total, p) => total + p.remaining, 0)) }]],
+    [/INSERT INTO concession_packs/, ([userId, paymentId, name, credited, validityMonths]) => {
+      const pack = { id: state.packs.length + 1, user_id: userId, payment_id: paymentId, name, remaining: 0, expires_on: null, expired_at: null, credited, validityMonths };
+      state.packs.push(pack);
+      return [{ id: pack.id }];
+    }],
+    [/UPDATE concession_packs SET remaining/, ([change, packId]) => {
+      state.packs.find(p => p.id === packId).remaining += change;
+      return [];
+    }],
+    [/INSERT INTO concession_pack_usage/, ([ledgerId, packId, change]) => {
+      state.usage.push({ ledger_id: ledgerId, pack_id: packId, change });
+      return [];
+    }],
+    [/SELECT name, email, is_active FROM users/, () => [{ name: 'Mia Lee', email: 'mia@example.com', is_active: true }]],
+    [/FROM notification_templates/, () => []],
+    [/INSERT INTO notifications/, ([userId, eventKey]) => {
+      state.notifications.push({ user_id: userId, event_key: eventKey });
+      return [state.notifications[state.notifications.length - 1]];
+    }]
+  ]);
+
+  return { tx, state };
+};
+
+const remaining = (state) => Object.fromEntries(state.packs.map(p => [p.id, p.remaining]));
+
+test('a booking takes concessions from the pack that expires first', async () => {
+  const { tx, state } = createMember(10, [
+    { id: 1, remaining: 5, expires_on: null },
+    { id: 2, remaining: 3, expires_on: '2026-11-30' },
+    { id: 3, remaining: 2, expires_on: '2027-03-01' }
+  ]);
+
+  const entry = await adjustConcessions({ userId: 12, change: -4, reason: 'booking', bookingId: 40 }, tx);
+
+  assert.equal(entry.balance_after, 6);
+  assert.deepEqual(remaining(state), { 1: 5, 2: 0, 3: 1 });
+});
+
+test('a refund goes back to the packs the booking used rather than starting a new pack', async () => {
+  const { tx, state } = createMember(10, [
+    { id: 1, remaining: 5, expires_on: null },
+    { id: 2, remaining: 3, expires_on: '2026-11-30' },
+    { id: 3, remaining: 2, expires_on: '2027-03-01' }
+  ]);
+  await adjustConcessions({ userId: 12, change: -4, reason: 'booking', bookingId: 40 }, tx);
+
+  await adjustConcessions({ userId: 12, change: 4, reason: 'refund', bookingId: 40 }, tx);
+
+  assert.equal(state.user.concessions, 10);
+  assert.deepEqual(remaining(state), { 1: 5, 2: 3, 3: 2 });
+});
+
+test('a purchase first pays off concessions booked on credit, then starts a pack with the rest', async () => {
+  const { tx, state } = createMember(3, [{ id: 1, remaining: 3, expires_on: null }]);
+  await adjustConcessions({ userId: 12, change: -5, reason: 'booking', bookingId: 41 }, tx);
+  assert.equal(state.user.concessions, -2);
+  assert.deepEqual(state.notifications.map(n => n.event_key), ['low_balance']);
+
+  await adjustConcessions({ userId: 12, change: 10, reason: 'purchase', paymentId: 55, packName: '10 Class Pack', validityMonths: 6 }, tx);
+
+  assert.equal(state.user.concessions, 8);
+  const pack = state.packs.find(p => p.id === 2);
+  assert.equal(pack.name, '10 Class Pack');
+  assert.equal(pack.credited, 8);
+  assert.equal(pack.remaining, 8);
+  assert.equal(pack.validityMonths, 6);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDropInPayment } from '../src/utils/dropIns.js';
+import { createFakeTransaction, uniqueViolation } from './helpers/fakeTransaction.js';
+
+// A payments table that enforces unique references, like idx_payments_reference
+const createPaymentsTable = () => {
+  const references = new Set();
+  const tx = createFakeTransaction([
+    [/INSERT INTO payments/, (params, text) => {
+      const reference = params[params.length - 1];
+      if (references.has(reference)) {
+        if (!/ON CONFLICT \(reference\)/.test(text)) throw uniqueViolation();
+        return [];
+      }
+      references.add(reference);
+      return [{ id: references.size, user_id: params[0], amount: String(params[1]), booking_id: params[2], reference, status: 'pending' }];
+    }]
+  ]);
+  return tx;
+};
+
+const booking = { id: 41, user_id: 7 };
+const yogaClass = { id: 2, drop_in_price: 18 };
+
+test('createDropInPayment records a pending payment with a generated reference', async () => {
+  const tx = createPaymentsTable();
+
+  const payment = await createDropInPayment(booking, yogaClass, tx);
+
+  assert.equal(payment.amount, 18);
+  assert.equal(payment.booking_id, 41);
+  assert.match(payment.reference, /^FB-[A-HJ-NP-Z2-9]{6}$/);
+});
+
+test('re-booking a cancelled drop-in gives the new payment its own reference', async () => {
+  const tx = createPaymentsTable();
+
+  // The cancelled booking is brought back with the same id, so it gets a second payment
+  const cancelled = await createDropInPayment(booking, yogaClass, tx);
+  const rebooked = await createDropInPayment(booking, yogaClass, tx);
+
+  assert.notEqual(rebooked.reference, cancelled.reference);
+  assert.equal(rebooked.booking_id, cancelled.booking_id);
+});
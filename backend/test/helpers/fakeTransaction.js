@@ -0,0 +1,33 @@
+// A stand-in for the query function withTransaction() passes to its callback, so the utilities can be tested
+// without a database. Each handler is [pattern, (params, text) => rows]; the first whose pattern matches the
+// SQL answers it. Like Postgres, once a query fails every later query in the transaction fails too.
+export const createFakeTransaction = (handlers) => {
+  const calls = [];
+  let aborted = false;
+
+  const tx = async (text, params = []) => {
+    if (aborted) {
+      throw new Error('current transaction is aborted, commands ignored until end of transaction block');
+    }
+    calls.push({ text, params });
+
+    const handler = handlers.find(([pattern]) => pattern.test(text));
+    if (!handler) {
+      throw new Error(`Unexpected query: ${text.trim().split('\n')[0]}`);
+    }
+
+    try {
+      const rows = await handler[1](params, text);
+      return { rows, rowCount: rows.length };
+    } catch (error) {
+      aborted = true;
+      throw error;
+    }
+  };
+
+  tx.calls = calls;
+  return tx;
+};
+
+// The error pg raises for a unique violation
+export const uniqueViolation = () => Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' });
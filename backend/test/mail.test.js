@@ -0,0 +1,41 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTransportName, sendMail } from '../src/utils/mail.js';
+
+const originalEnv = { NODE_ENV: process.env.NODE_ENV, MAIL_TRANSPORT: process.env.MAIL_TRANSPORT };
+
+afterEach(() => {
+  Object.entries(originalEnv).forEach(([key, value]) => {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  });
+});
+
+test('production refuses to pick a transport when MAIL_TRANSPORT is not set', () => {
+  process.env.NODE_ENV = 'production';
+  delete process.env.MAIL_TRANSPORT;
+
+  assert.throws(() => getTransportName(), /MAIL_TRANSPORT must be set in production/);
+});
+
+test('development falls back to the outbox', () => {
+  process.env.NODE_ENV = 'development';
+  delete process.env.MAIL_TRANSPORT;
+
+  assert.equal(getTransportName(), 'outbox');
+});
+
+test('the console transport never logs the email body', async (t) => {
+  process.env.MAIL_TRANSPORT = 'console';
+  const log = t.mock.method(console, 'log', () => {});
+
+  await sendMail({
+    to: 'mia@example.com',
+    subject: 'Reset your FlexBook password',
+    text: 'Choose a new password: http://localhost:5173/reset-password?token=abc123'
+  });
+
+  const logged = log.mock.calls.map(call => call.arguments.join(' ')).join('\n');
+  assert.match(logged, /mia@example\.com: Reset your FlexBook password/);
+  assert.doesNotMatch(logged, /token=abc123/);
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import pg from 'pg';
+import '../src/db/connection.js';
+import { isScheduledOnDate, toDateString } from '../src/utils/occurrences.js';
+
+// Read a DATE column value the way pg hands it to the app
+const readDate = (value) => pg.types.getTypeParser(1082)(value);
+
+test('DATE columns keep their day on a server ahead of UTC', () => {
+  const originalTz = process.env.TZ;
+  process.env.TZ = 'Pacific/Auckland';
+  try {
+    assert.equal(toDateString(readDate('2026-10-19')), '2026-10-19');
+
+    // A class whose last day is Monday 19 October still runs that Monday
+    const mondayClass = { days: ['Monday'], start_date: readDate('2026-10-05'), end_date: readDate('2026-10-19') };
+    assert.equal(isScheduledOnDate(mondayClass, '2026-10-19'), true);
+    assert.equal(isScheduledOnDate(mondayClass, '2026-10-26'), false);
+  } finally {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+  }
+});
@@ -0,0 +1,159 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPackagePayment, settlePayment } from '../src/utils/payments.js';
+import { createFakeTransaction, uniqueViolation } from './helpers/fakeTransaction.js';
+
+const tenPack = { id: 3, name: '10 Class Pack', concessions: 10, price: 150, validity_months: 6 };
+
+// A payments table where the first reference tried is already taken. An INSERT that doesn't skip a clashing
+// reference raises the unique violation, which aborts the transaction.
+const createPaymentsWithTakenReference = () => {
+  let isTaken = true;
+  return createFakeTransaction([
+    [/INSERT INTO payments/, (params, text) => {
+      if (isTaken) {
+        isTaken = false;
+        if (!/ON CONFLICT \(reference\)/.test(text)) throw uniqueViolation();
+        return [];
+      }
+      return [{ id: 1, user_id: params[0], reference: params[params.length - 1], status: 'pending' }];
+    }]
+  ]);
+};
+
+test('createPackagePayment generates a reference for the member to quote', async () => {
+  const tx = createFakeTransaction([
+    [/INSERT INTO payments/, (params) => [{ id: 1, reference: params[params.length - 1] }]]
+  ]);
+
+  const payment = await createPackagePayment(7, tenPack, 'bank_transfer', tx);
+
+  assert.match(payment.reference, /^FB-[A-HJ-NP-Z2-9]{6}$/);
+  assert.deepEqual(tx.calls[0].params.slice(0, 6), [7, 150, 10, 3, 6, 'bank_transfer']);
+});
+
+test('createPackagePayment tries a new reference after a clash without aborting the transaction', async () => {
+  const tx = createPaymentsWithTakenReference();
+
+  const payment = await createPackagePayment(7, tenPack, 'bank_transfer', tx);
+
+  assert.equal(payment.user_id, 7);
+  assert.equal(tx.calls.length, 2);
+  assert.notEqual(tx.calls[0].params[6], tx.calls[1].params[6]);
+
+  // The transaction is still usable afterwards
+  await assert.doesNotReject(tx('INSERT INTO payments (user_id) VALUES ($1) RETURNING *', [8]));
+});
+
+test('createPackagePayment raises a unique violation that isn\'t a reference clash instead of retrying it', async () => {
+  // Another unique constraint on payments; only a bare ON CONFLICT DO NOTHING would skip it
+  const tx = createFakeTransaction([
+    [/INSERT INTO payments/, (params, text) => {
+      if (/ON CONFLICT DO NOTHING/.test(text)) return [];
+      throw uniqueViolation();
+    }]
+  ]);
+
+  await assert.rejects(createPackagePayment(7, tenPack, 'bank_transfer', tx), { code: '23505' });
+  assert.equal(tx.calls.length, 1);
+});
+
+test('createPackagePayment gives up when every reference it tries is taken', async () => {
+  const tx = createFakeTransaction([[/INSERT INTO payments/, () => []]]);
+
+  await assert.rejects(createPackagePayment(7, tenPack, 'bank_transfer', tx), /unique payment reference/);
+  assert.equal(tx.calls.length, 5);
+});
+
+// A member (Mia, id 12) in a household paid for by Alex (id 1), and Sam (id 20) who pays for themselves. Records
+// the concessions credited and the notification queued when a payment is settled.
+const createSettleFixture = (payment) => {
+  const users = {
+    1: { id: 1, name: 'Alex Lee', email: 'alex@example.com', is_active: true, concessions: 3, payer_id: null },
+    12: { id: 12, name: 'Mia Lee', email: 'mia@example.com', is_active: true, concessions: 0, payer_id: 1 },
+    20: { id: 20, name: 'Sam Jones', email: 'sam@example.com', is_active: true, concessions: 1, payer_id: null }
+  };
+  const ledger = [];
+  const packs = [];
+  const notifications = [];
+
+  const tx = createFakeTransaction([
+    [/UPDATE payments/, ([status]) => [{ ...payment, status }]],
+    [/SELECT name FROM concession_packages/, () => [{ name: '10 Class Pack' }]],
+    [/COALESCE\(h\.payer_id/, ([userId]) => {
+      const holder = users[users[userId].payer_id ?? userId];
+      return [{ id: holder.id, name: holder.name, concessions: holder.concessions }];
+    }],
+    [/SELECT name FROM users/, ([userId]) => [{ name: users[userId].name }]],
+    [/SELECT concessions FROM users WHERE id = \$1 FOR UPDATE/, ([userId]) => [{ concessions: users[userId].concessions }]],
+    [/WITH updated AS/, ([userId, change, reason, actorId, bookingId, paymentId, note]) => {
+      users[userId].concessions += change;
+      const entry = { id: ledger.length + 1, user_id: userId, change, balance_after: users[userId].concessions, reason, payment_id: paymentId, note };
+      ledger.push(entry);
+      return [entry];
+    }],
+    [/COALESCE\(SUM\(remaining\), 0\)/, () => [{ total: '0' }]],
+    [/INSERT INTO concession_packs/, ([userId, , name, concessions]) => {
+      packs.push({ id: packs.length + 1, user_id: userId, name, concessions });
+      return [{ id: packs.length }];
+    }],
+    [/UPDATE concession_packs SET remaining/, () => []],
+    [/INSERT INTO concession_pack_usage/, () => []],
+    // The receipt itself isn't under test here
+    [/u\.email as user_email/, () => []],
+    [/SELECT cp\.name as package_name/, () => [{ package_name: '10 Class Pack' }]],
+    [/SELECT name, email, is_active FROM users/, ([userId]) => [users[userId]]],
+    [/FROM notification_templates/, () => []],
+    [/INSERT INTO notifications/, ([userId, eventKey, recipient, subject, body]) => {
+      notifications.push({ user_id: userId, event_key: eventKey, recipient, subject, body });
+      return [notifications[notifications.length - 1]];
+    }]
+  ]);
+
+  return { tx, users, ledger, packs, notifications };
+};
+
+const packPayment = (userId) => ({
+  id: 55, user_id: userId, amount: '150.00', concessions_purchased: 10, payment_type: 'concessions',
+  package_id: 3, validity_months: null, reference: 'FB-7KQ2XM', notes: null
+});
+
+test('confirming a package bought by a household dependant credits the payer\'s shared balance', async () => {
+  const { tx, users, ledger, packs, notifications } = createSettleFixture(packPayment(12));
+
+  const settled = await settlePayment({ paymentId: 55, status: 'confirmed', actorId: 1 }, tx);
+
+  assert.equal(users[1].concessions, 13);
+  assert.equal(users[12].concessions, 0);
+  assert.equal(settled.newBalance, 13);
+  assert.equal(settled.balanceHolder.id, 1);
+  assert.equal(ledger[0].user_id, 1);
+  assert.equal(ledger[0].note, 'Bought by Mia Lee');
+  assert.deepEqual(packs.map(p => [p.user_id, p.concessions]), [[1, 10]]);
+
+  // Mia is still the one told about her payment
+  assert.equal(notifications[0].recipient, 'mia@example.com');
+  assert.match(notifications[0].body, /Your household balance is now 13\./);
+});
+
+test('confirming a package bought by a member who pays for themselves credits their own balance', async () => {
+  const { tx, users, ledger, notifications } = createSettleFixture(packPayment(20));
+
+  const settled = await settlePayment({ paymentId: 55, status: 'confirmed', actorId: 1 }, tx);
+
+  assert.equal(users[20].concessions, 11);
+  assert.equal(settled.newBalance, 11);
+  assert.equal(ledger[0].note, null);
+  assert.match(notifications[0].body, /Your balance is now 11\./);
+});
+
+test('rejecting a payment adds no concessions', async () => {
+  const { tx, ledger, notifications } = createSettleFixture(packPayment(12));
+
+  const settled = await settlePayment({ paymentId: 55, status: 'rejected', actorId: 1, notes: 'No transfer arrived' }, tx);
+
+  assert.equal(settled.newBalance, null);
+  assert.equal(settled.balanceHolder, null);
+  assert.equal(ledger.length, 0);
+  assert.equal(notifications[0].event_key, 'payment_rejected');
+});
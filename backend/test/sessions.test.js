@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { rotateSession, getCookie } from '../src/utils/sessions.js';
+import { createFakeTransaction } from './helpers/fakeTransaction.js';
+
+process.env.JWT_SECRET = 'test-secret-at-least-32-characters-long';
+
+const hash = (token) => crypto.createHash('sha256').update(token).digest('hex');
+const req = { get: () => 'Firefox', ip: '127.0.0.1' };
+
+// One signed-in session in a sessions table, with a clock the test can move forward (in seconds)
+const createSessionsTable = (overrides = {}) => {
+  const clock = { now: 0 };
+  const session = {
+    id: 7, user_id: 12, refresh_token_hash: hash('first-token'), previous_token_hash: null,
+    rotated_at: null, expires_at: 30 * 24 * 60 * 60, revoked_at: null,
+    email: 'mia@example.com', role: 'user', is_active: true,
+    ...overrides
+  };
+
+  const tx = createFakeTransaction([
+    [/FROM sessions s/, ([tokenHash, graceSeconds]) => {
+      if (tokenHash !== session.refresh_token_hash && tokenHash !== session.previous_token_hash) return [];
+      return [{
+        ...session,
+        is_current_token: tokenHash === session.refresh_token_hash,
+        in_grace: session.rotated_at !== null && session.rotated_at > clock.now - graceSeconds,
+        has_expired: session.expires_at < clock.now
+      }];
+    }],
+    [/SET revoked_at/, () => {
+      session.revoked_at = clock.now;
+      return [];
+    }],
+    [/SET refresh_token_hash/, ([nextHash, previousHash]) => {
+      Object.assign(session, { refresh_token_hash: nextHash, previous_token_hash: previousHash, rotated_at: clock.now });
+      return [];
+    }]
+  ]);
+
+  return { tx, session, clock };
+};
+
+test('refreshing swaps the refresh token for a new one and signs an access token for the session', async () => {
+  const { tx, session } = createSessionsTable();
+
+  const result = await rotateSession('first-token', req, tx);
+
+  assert.equal(result.user.id, 12);
+  assert.equal(jwt.verify(result.accessToken, process.env.JWT_SECRET).sessionId, 7);
+  assert.notEqual(result.refreshToken, 'first-token');
+  assert.equal(session.refresh_token_hash, hash(result.refreshToken));
+  assert.equal(session.previous_token_hash, hash('first-token'));
+});
+
+test('a second tab refreshing with the old token inside the grace window gets an access token but no new refresh token', async () => {
+  const { tx, session, clock } = createSessionsTable();
+  const first = await rotateSession('first-token', req, tx);
+
+  clock.now += 5;
+  const second = await rotateSession('first-token', req, tx);
+
+  assert.equal(second.error, undefined);
+  assert.ok(second.accessToken);
+  assert.equal(second.refreshToken, null);
+  assert.equal(session.refresh_token_hash, hash(first.refreshToken));
+  assert.equal(session.revoked_at, null);
+});
+
+test('reusing an old refresh token after the grace window ends the session', async () => {
+  const { tx, session, clock } = createSessionsTable();
+  const first = await rotateSession('first-token', req, tx);
+
+  clock.now += 60;
+  const stolen = await rotateSession('first-token', req, tx);
+
+  assert.equal(stolen.error, 'reused');
+  assert.equal(session.revoked_at, 60);
+
+  // The member's own (newer) token no longer works either
+  assert.equal((await rotateSession(first.refreshToken, req, tx)).error, 'invalid');
+});
+
+test('refreshing fails for an unknown, expired or disabled session', async () => {
+  assert.equal((await rotateSession('never-issued', req, createSessionsTable().tx)).error, 'invalid');
+
+  const expired = createSessionsTable();
+  expired.clock.now = expired.session.expires_at + 1;
+  assert.equal((await rotateSession('first-token', req, expired.tx)).error, 'invalid');
+
+  const disabled = createSessionsTable({ is_active: false });
+  assert.equal((await rotateSession('first-token', req, disabled.tx)).error, 'disabled');
+});
+
+test('getCookie reads one cookie out of the header', () => {
+  const cookieReq = { headers: { cookie: 'theme=dark; flexbook_refresh=abc%3D123; other=1' } };
+
+  assert.equal(getCookie(cookieReq, 'flexbook_refresh'), 'abc=123');
+  assert.equal(getCookie(cookieReq, 'flexbook'), null);
+  assert.equal(getCookie({ headers: {} }, 'flexbook_refresh'), null);
+});
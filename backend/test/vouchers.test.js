@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeVoucherCode, checkVoucher, getPackageDiscount } from '../src/utils/vouchers.js';
+import { createFakeTransaction } from './helpers/fakeTransaction.js';
+
+// A vouchers table holding one code, with its counted redemptions and whether the member has booked or paid before
+const createVoucherTable = (voucher, { uses = 0, memberUses = 0, hasHistory = false } = {}) => createFakeTransaction([
+  [/FROM vouchers v/, ([code]) => (code === voucher.code ? [{ has_expired: false, ...voucher }] : [])],
+  [/FROM voucher_redemptions vr/, () => [{ uses: String(uses), member_uses: String(memberUses) }]],
+  [/as has_history/, () => [{ has_history: hasHistory }]]
+]);
+
+const discountCode = {
+  id: 3, code: 'WINTER20', voucher_type: 'percent_off', percent_off: 20, package_id: null,
+  is_active: true, max_uses: null, new_members_only: false
+};
+
+test('codes are matched however the member typed them', () => {
+  assert.equal(normalizeVoucherCode('  winter20 '), 'WINTER20');
+  assert.equal(normalizeVoucherCode(null), '');
+});
+
+test('checkVoucher says why a code can\'t be used', async () => {
+  assert.equal(await checkVoucher(null, 12, createVoucherTable(discountCode)), 'not_found');
+  assert.equal(await checkVoucher({ ...discountCode, is_active: false }, 12, createVoucherTable(discountCode)), 'inactive');
+  assert.equal(await checkVoucher({ ...discountCode, has_expired: true }, 12, createVoucherTable(discountCode)), 'expired');
+  assert.equal(await checkVoucher({ ...discountCode, max_uses: 5 }, 12, createVoucherTable(discountCode, { uses: 5 })), 'used_up');
+  assert.equal(await checkVoucher(discountCode, 12, createVoucherTable(discountCode, { uses: 1, memberUses: 1 })), 'already_redeemed');
+  assert.equal(await checkVoucher({ ...discountCode, new_members_only: true }, 12, createVoucherTable(discountCode, { hasHistory: true })), 'new_members_only');
+});
+
+test('checkVoucher accepts a code with uses left, and skips the member checks when no member is given', async () => {
+  assert.equal(await checkVoucher({ ...discountCode, max_uses: 5 }, 12, createVoucherTable(discountCode, { uses: 4 })), null);
+  assert.equal(await checkVoucher(discountCode, null, createVoucherTable(discountCode, { uses: 1, memberUses: 1 })), null);
+});
+
+test('a discount code takes its percentage off the package price', async () => {
+  const tx = createVoucherTable(discountCode);
+
+  const { voucher, discount, error } = await getPackageDiscount({ code: 'winter20', userId: 12, packageId: 2, amount: '145.50' }, tx);
+
+  assert.equal(error, undefined);
+  assert.equal(voucher.id, 3);
+  assert.equal(discount, 29.1);
+});
+
+test('a discount code can\'t be used on another package, and a free-concessions code isn\'t a discount', async () => {
+  const packageCode = { ...discountCode, package_id: 1 };
+  assert.equal((await getPackageDiscount({ code: 'WINTER20', userId: 12, packageId: 2, amount: 150 }, createVoucherTable(packageCode))).error, 'wrong_package');
+
+  const giftCode = { ...discountCode, code: 'GIFT5', voucher_type: 'concessions', percent_off: null, concessions: 5 };
+  assert.equal((await getPackageDiscount({ code: 'GIFT5', userId: 12, packageId: 2, amount: 150 }, createVoucherTable(giftCode))).error, 'not_discount');
+
+  assert.equal((await getPackageDiscount({ code: 'NOPE', userId: 12, packageId: 2, amount: 150 }, createVoucherTable(discountCode))).error, 'not_found');
+});
@@ -31,7 +31,13 @@ import {
 } from 'lucide-react';
 import { ClassManagement } from './ClassManagement';
 import { UserManagement } from './UserManagement';
+import { InstructorManagement } from './InstructorManagement';
+import { LocationManagement } from './LocationManagement';
 import { PaymentManagementModal } from './PaymentManagement';
+import { BankReconciliationModal } from './BankReconciliation';
+import { VoucherManagementModal } from './VoucherManagement';
+import { NotificationManagementModal } from './NotificationManagement';
+import { PolicySettingsModal } from './PolicySettings';
 import { api } from '../services/api';
 
 export const AdminDashboard: React.FC = () => {
@@ -154,6 +160,8 @@ export const AdminDashboard: React.FC = () => {
         action = `Cancelled ${gymClass?.name || 'Unknown Class'}`;
       } else if (booking.status === 'late-cancelled') {
         action = `Late cancelled ${gymClass?.name || 'Unknown Class'}`;
+      } else if (booking.status === 'no-show') {
+        action = `Missed ${gymClass?.name || 'Unknown Class'}`;
       }
 
       const timeDiff = now.getTime() - new Date(booking.booking_time).getTime();
@@ -200,6 +208,10 @@ export const AdminDashboard: React.FC = () => {
         {/* Admin Account Info and Settings */}
         <div className="flex gap-4">
           <PaymentManagementModal />
+          <BankReconciliationModal />
+          <VoucherManagementModal />
+          <NotificationManagementModal />
+          <PolicySettingsModal />
           
           <Card className="sm:w-auto w-full">
             <CardContent className="pt-4">
@@ -216,9 +228,11 @@ export const AdminDashboard: React.FC = () => {
 
       {/* Main Content */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="classes">Classes</TabsTrigger>
+          <TabsTrigger value="instructors">Instructors</TabsTrigger>
+          <TabsTrigger value="locations">Locations</TabsTrigger>
           <TabsTrigger value="users">Users</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
         </TabsList>
@@ -361,7 +375,7 @@ export const AdminDashboard: React.FC = () => {
                           activity.type === 'confirmed' ? 'bg-green-500' :
                           activity.type === 'completed' ? 'bg-blue-500' :
                           activity.type === 'cancelled' ? 'bg-gray-500' :
-                          activity.type === 'late-cancelled' ? 'bg-red-500' :
+                          activity.type === 'late-cancelled' || activity.type === 'no-show' ? 'bg-red-500' :
                           'bg-primary'
                         }`}></div>
                         <div>
@@ -387,6 +401,16 @@ export const AdminDashboard: React.FC = () => {
           <ClassManagement />
         </TabsContent>
 
+        {/* Instructors Tab */}
+        <TabsContent value="instructors">
+          <InstructorManagement />
+        </TabsContent>
+
+        {/* Locations Tab */}
+        <TabsContent value="locations">
+          <LocationManagement />
+        </TabsContent>
+
         {/* Users Management Tab */}
         <TabsContent value="users">
           <UserManagement />
@@ -0,0 +1,415 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner';
+import { Landmark, Upload, Check, EyeOff, FileText, AlertCircle } from 'lucide-react';
+import { api } from '../services/api';
+import { guessStatementHeaders, type BankStatementMapping } from '../services/bankStatements';
+import { usePayment } from '../contexts/PaymentContext';
+import { useUser } from '../contexts/UserContext';
+
+interface BankFormat {
+  name: string;
+  mapping: BankStatementMapping;
+}
+
+const NO_PAYER_COLUMN = '__none__';
+
+const EMPTY_MAPPING: BankStatementMapping = { date: '', amount: '', payer: null, reference: [], date_format: 'DD/MM/YYYY' };
+
+// Helper function to format an amount in dollars
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+export const BankReconciliationModal: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [formats, setFormats] = useState<{ [key: string]: BankFormat }>({});
+  const [dateFormats, setDateFormats] = useState<string[]>([]);
+  const [bankFormat, setBankFormat] = useState('');
+  const [mapping, setMapping] = useState<BankStatementMapping>(EMPTY_MAPPING);
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+  // The pending payment an admin picked for each deposit, when it isn't the suggested one
+  const [chosenPayments, setChosenPayments] = useState<{ [transactionId: number]: string }>({});
+  const {
+    payments,
+    bankTransactions,
+    bankImports,
+    importBankStatement,
+    matchBankTransaction,
+    ignoreBankTransaction,
+    refreshBankReconciliation,
+    refreshPayments
+  } = usePayment();
+  const { refreshUsers } = useUser();
+
+  const pendingPayments = payments.filter(payment => payment.status === 'pending');
+  const reviewCount = bankTransactions.filter(transaction => transaction.status === 'review').length;
+
+  useEffect(() => {
+    if (isOpen) {
+      loadFormats();
+      refreshBankReconciliation();
+      refreshPayments();
+    }
+  }, [isOpen]);
+
+  const loadFormats = async () => {
+    try {
+      const response = await api.getBankStatementFormats();
+      setFormats(response.formats);
+      setDateFormats(response.date_formats);
+    } catch (error) {
+      console.error('Failed to load bank formats:', error);
+      toast.error('Failed to load bank formats');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) {
+      setFile(null);
+      setHeaders([]);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setFile({ name: selected.name, text });
+      setHeaders(guessStatementHeaders(text).filter(Boolean));
+    };
+    reader.onerror = () => toast.error('Could not read that file');
+    reader.readAsText(selected);
+  };
+
+  const toggleReferenceColumn = (column: string, checked: boolean) => {
+    setMapping(prev => ({
+      ...prev,
+      reference: checked ? [...prev.reference, column] : prev.reference.filter(c => c !== column)
+    }));
+  };
+
+  const isCustom = bankFormat === 'custom';
+  const canImport = !!file && !!bankFormat &&
+    (!isCustom || (!!mapping.date && !!mapping.amount && mapping.reference.length > 0));
+
+  const handleImport = async () => {
+    if (!file || !canImport) return;
+
+    try {
+      setIsImporting(true);
+      const message = await importBankStatement({
+        file_name: file.name,
+        bank_format: bankFormat,
+        mapping: isCustom ? mapping : undefined,
+        csv: file.text
+      });
+      toast.success(message);
+      await refreshUsers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import bank statement');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleMatch = async (transactionId: number, paymentId: number) => {
+    try {
+      setProcessingId(transactionId);
+      const message = await matchBankTransaction(transactionId, paymentId);
+      toast.success(message);
+      await refreshUsers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to match deposit');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleIgnore = async (transactionId: number) => {
+    if (!window.confirm('Ignore this deposit? It will be left out of reconciliation.')) return;
+
+    try {
+      setProcessingId(transactionId);
+      await ignoreBankTransaction(transactionId);
+      toast.success('Deposit ignored');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to ignore deposit');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Landmark className="h-4 w-4" />
+          Bank Reconciliation
+          {reviewCount > 0 && (
+            <Badge variant="destructive">{reviewCount}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            Bank Reconciliation
+          </DialogTitle>
+          <DialogDescription>
+            Import a bank statement to confirm payments automatically when the reference and amount match
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Statement Upload */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                Import Statement
+              </CardTitle>
+              <CardDescription>
+                Export a CSV statement from internet banking. Deposits already imported are skipped, so it's safe to upload overlapping statements.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="statement_file">Statement file</Label>
+                  <Input id="statement_file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Bank</Label>
+                  <Select value={bankFormat} onValueChange={(value: string) => setBankFormat(value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose your bank" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(formats).map(([key, format]) => (
+                        <SelectItem key={key} value={key}>{format.name}</SelectItem>
+                      ))}
+                      <SelectItem value="custom">Other (map columns)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {isCustom && (
+                headers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Choose a statement file to map its columns.</p>
+                ) : (
+                  <div className="space-y-4 p-4 border rounded-lg">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Date column</Label>
+                        <Select value={mapping.date} onValueChange={(value: string) => setMapping(prev => ({ ...prev, date: value }))}>
+                          <SelectTrigger><SelectValue placeholder="Choose a column" /></SelectTrigger>
+                          <SelectContent>
+                            {headers.map(header => <SelectItem key={header} value={header}>{header}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Date format</Label>
+                        <Select value={mapping.date_format} onValueChange={(value: string) => setMapping(prev => ({ ...prev, date_format: value }))}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {dateFormats.map(format => <SelectItem key={format} value={format}>{format}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Amount column</Label>
+                        <Select value={mapping.amount} onValueChange={(value: string) => setMapping(prev => ({ ...prev, amount: value }))}>
+                          <SelectTrigger><SelectValue placeholder="Choose a column" /></SelectTrigger>
+                          <SelectContent>
+                            {headers.map(header => <SelectItem key={header} value={header}>{header}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Payer name column</Label>
+                        <Select
+                          value={mapping.payer ?? NO_PAYER_COLUMN}
+                          onValueChange={(value: string) => setMapping(prev => ({ ...prev, payer: value === NO_PAYER_COLUMN ? null : value }))}
+                        >
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_PAYER_COLUMN}>None</SelectItem>
+                            {headers.map(header => <SelectItem key={header} value={header}>{header}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Reference columns</Label>
+                      <div className="flex flex-wrap gap-4">
+                        {headers.map(header => (
+                          <div key={header} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`reference_${header}`}
+                              checked={mapping.reference.includes(header)}
+                              onCheckedChange={(checked: boolean | 'indeterminate') => toggleReferenceColumn(header, checked === true)}
+                            />
+                            <Label htmlFor={`reference_${header}`} className="font-normal">{header}</Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )
+              )}
+
+              <div className="flex justify-end">
+                <Button onClick={handleImport} disabled={!canImport || isImporting}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {isImporting ? 'Importing...' : 'Import Statement'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Deposits To Review */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertCircle className="h-5 w-5" />
+                Deposits To Review
+              </CardTitle>
+              <CardDescription>
+                Likely matches need checking before they're confirmed. Unmatched deposits can be matched to any pending payment or ignored.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {bankTransactions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every imported deposit has been reconciled.</p>
+              ) : (
+                <div className="space-y-3">
+                  {bankTransactions.map(transaction => {
+                    const suggestionIsPending = transaction.payment_id !== null && transaction.payment_status === 'pending';
+                    const chosenPaymentId = chosenPayments[transaction.id];
+
+                    return (
+                      <div key={transaction.id} className="p-4 border rounded-lg space-y-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{formatAmount(transaction.amount)}</span>
+                              <Badge variant={transaction.status === 'review' ? 'secondary' : 'outline'}>
+                                {transaction.status === 'review' ? 'Review' : 'Unmatched'}
+                              </Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {new Date(`${transaction.transaction_date}T00:00:00`).toLocaleDateString()}
+                              {transaction.payer && ` · ${transaction.payer}`}
+                              {transaction.reference && ` · "${transaction.reference}"`}
+                            </p>
+                            {transaction.match_reason && (
+                              <p className="text-sm">{transaction.match_reason}</p>
+                            )}
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleIgnore(transaction.id)}
+                            disabled={processingId === transaction.id}
+                          >
+                            <EyeOff className="mr-1 h-4 w-4" />
+                            Ignore
+                          </Button>
+                        </div>
+
+                        <div className="flex flex-col md:flex-row gap-2">
+                          {suggestionIsPending && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleMatch(transaction.id, transaction.payment_id!)}
+                              disabled={processingId === transaction.id}
+                            >
+                              <Check className="mr-1 h-4 w-4" />
+                              Confirm {transaction.payment_reference} ({transaction.user_name}, {formatAmount(transaction.payment_amount ?? 0)})
+                            </Button>
+                          )}
+                          <Select
+                            value={chosenPaymentId ?? ''}
+                            onValueChange={(value: string) => setChosenPayments(prev => ({ ...prev, [transaction.id]: value }))}
+                          >
+                            <SelectTrigger className="md:w-80">
+                              <SelectValue placeholder={suggestionIsPending ? 'Or match another payment' : 'Match to a pending payment'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {pendingPayments.map(payment => (
+                                <SelectItem key={payment.id} value={String(payment.id)}>
+                                  {payment.reference} · {payment.user_name} · {formatAmount(payment.amount)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {chosenPaymentId && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleMatch(transaction.id, parseInt(chosenPaymentId))}
+                              disabled={processingId === transaction.id}
+                            >
+                              Match
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recent Imports */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Recent Imports
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {bankImports.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No statements imported yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {bankImports.map(statementImport => (
+                    <div key={statementImport.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                      <div>
+                        <p className="font-medium">{statementImport.file_name || 'Statement'}</p>
+                        <p className="text-muted-foreground">
+                          {new Date(statementImport.created_at).toLocaleString()}
+                          {statementImport.imported_by_name && ` by ${statementImport.imported_by_name}`}
+                        </p>
+                      </div>
+                      <div className="text-right text-muted-foreground">
+                        <p>{statementImport.transaction_count} deposit(s), {statementImport.matched_count} confirmed, {statementImport.review_count} to review</p>
+                        {statementImport.duplicate_count > 0 && (
+                          <p>{statementImport.duplicate_count} already imported</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
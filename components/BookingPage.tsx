@@ -1,37 +1,94 @@
-import React, { useState } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import React, { useEffect, useState } from 'react';
+import { useAuth, getBookingBalance } from '../contexts/AuthContext';
 import { useBooking } from '../contexts/BookingContext';
+import { usePolicy } from '../contexts/PolicyContext';
+import { useLocations } from '../contexts/LocationContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
 import { 
   Calendar, 
   Clock, 
   Users, 
   MapPin, 
+  User,
   Award,
   AlertTriangle,
   X,
-  CheckCircle
+  CheckCircle,
+  ListOrdered,
+  CalendarPlus,
+  Repeat,
+  Tags,
+  Banknote
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { CalendarSubscription } from './CalendarSubscription';
+import { ClassTypeBadge } from './ClassTypeBadge';
+import { TIME_OF_DAY_BUCKETS, getTimeOfDay } from '../services/timeOfDay';
+
+// Helper function to describe a number of concessions, e.g. "2 concessions"
+const formatConcessions = (count: number) => count === 1 ? '1 concession' : `${count} concessions`;
+
+// Helper function to format a drop-in price
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+// Why a standing booking couldn't book a date
+const SKIP_REASON_LABELS: Record<string, string> = {
+  class_full: 'class was full',
+  credit_limit: 'credit limit reached',
+  class_cancelled: 'class cancelled',
+  class_unavailable: 'class not open for booking'
+};
 
 export const BookingPage: React.FC = () => {
   const { user } = useAuth();
-  const { classes, bookClass, bookings, getClassBookings, cancelBooking, isLoading } = useBooking();
+  // Dependants book against their household payer's balance
+  const balance = getBookingBalance(user);
+  const isHouseholdBalance = user?.household?.role === 'dependant';
+  const { 
+    classes, 
+    bookClass, 
+    bookings, 
+    getClassBookings, 
+    cancelBooking, 
+    waitlist, 
+    joinWaitlist, 
+    leaveWaitlist, 
+    occurrences, 
+    getOccurrence, 
+    downloadBookingCalendar,
+    standingBookings,
+    createStandingBooking,
+    cancelStandingBooking,
+    isLoading 
+  } = useBooking();
+  const { defaults: policy, classOverrides, maxBookingWindowDays, getPolicyForClass, isLateCancellation, hasCreditAvailable } = usePolicy();
   const [selectedDate, setSelectedDate] = useState<string>(
     new Date().toISOString().split('T')[0]
   );
   const [activeTab, setActiveTab] = useState<string>('book');
+  const [bookedCounts, setBookedCounts] = useState<Record<number, number>>({});
+  const { activeLocations } = useLocations();
+  // Members see their home location's timetable first
+  const [locationFilter, setLocationFilter] = useState<string>(
+    user?.home_location_id ? String(user.home_location_id) : 'all'
+  );
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  // The class being booked while the member reviews what it costs
+  const [bookingClass, setBookingClass] = useState<typeof classes[number] | null>(null);
+  const [paymentOption, setPaymentOption] = useState<'concessions' | 'drop_in'>('concessions');
 
   // Use bookings directly from context instead of getUserBookings function
   const userBookings = bookings.filter(booking => booking.user_id === user?.id) || [];
 
-  // Get next 14 days for booking (extended from 7)
-  const getNext14Days = () => {
+  // Get the days members can book (the longest booking window of any class)
+  const getBookableDays = () => {
     const days = [];
-    for (let i = 0; i < 14; i++) {
+    for (let i = 0; i < maxBookingWindowDays; i++) {
       const date = new Date();
       date.setDate(date.getDate() + i);
       days.push(date.toISOString().split('T')[0]);
@@ -39,7 +96,7 @@ export const BookingPage: React.FC = () => {
     return days;
   };
 
-  const next14Days = getNext14Days();
+  const bookableDays = getBookableDays();
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -50,13 +107,18 @@ export const BookingPage: React.FC = () => {
     };
   };
 
-  const getDayOfWeek = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', { weekday: 'long' });
+  // A class runs on a date when the dated schedule has an occurrence for it (cancelled ones are still listed)
+  const isClassAvailableOnDate = (gymClass: any, date: string) => {
+    return !!getOccurrence(gymClass.id, date);
   };
 
-  const isClassAvailableOnDate = (gymClass: any, date: string) => {
-    const dayOfWeek = getDayOfWeek(date);
-    return gymClass.days.includes(dayOfWeek);
+  const isOccurrenceCancelled = (classId: number, date: string) => {
+    return !!getOccurrence(classId, date)?.is_cancelled;
+  };
+
+  const getCapacityOnDate = (classId: number, date: string) => {
+    const gymClass = classes.find(c => c.id === classId);
+    return getOccurrence(classId, date)?.max_capacity ?? gymClass?.max_capacity ?? 0;
   };
 
   const isAlreadyBooked = (classId: number, date: string) => {
@@ -68,10 +130,9 @@ export const BookingPage: React.FC = () => {
   const getClassCapacity = async (classId: number, date: string) => {
     try {
       const classBookings = await getClassBookings(classId, date);
-      const gymClass = classes.find(c => c.id === classId);
       return {
         current: classBookings.length,
-        max: gymClass?.max_capacity || 0
+        max: getCapacityOnDate(classId, date)
       };
     } catch (error) {
       console.error('Failed to get class capacity:', error);
@@ -79,32 +140,82 @@ export const BookingPage: React.FC = () => {
     }
   };
 
-  const isWithin24Hours = (classDate: string, classTime: string): boolean => {
-    const now = new Date();
-    const classDateTime = new Date(`${classDate}T${classTime}:00`);
-    const timeDifference = classDateTime.getTime() - now.getTime();
-    const hoursUntilClass = timeDifference / (1000 * 60 * 60);
-    
-    return hoursUntilClass <= 24 && hoursUntilClass > 0;
+  // Load how many spots are taken in each class on the selected date
+  const refreshBookedCounts = async () => {
+    const dateClasses = classes.filter(
+      c => isClassAvailableOnDate(c, selectedDate) && !isOccurrenceCancelled(c.id, selectedDate)
+    );
+    const counts: Record<number, number> = {};
+    await Promise.all(dateClasses.map(async gymClass => {
+      const capacity = await getClassCapacity(gymClass.id, selectedDate);
+      counts[gymClass.id] = capacity.current;
+    }));
+    setBookedCounts(counts);
+  };
+
+  useEffect(() => {
+    refreshBookedCounts();
+  }, [selectedDate, classes, bookings, occurrences]);
+
+  const isClassFull = (classId: number) => {
+    return (bookedCounts[classId] ?? 0) >= getCapacityOnDate(classId, selectedDate);
+  };
+
+  const getWaitlistEntry = (classId: number, date: string) => {
+    return waitlist.find(
+      w => w.class_id === classId && w.booking_date.split('T')[0] === date && w.status === 'waiting'
+    );
   };
 
-  const handleBookClass = async (classId: number) => {
+  // Classes with a shorter booking window than the calendar may not open for the selected date yet
+  const isWithinClassWindow = (classId: number, date: string): boolean => {
+    const daysAhead = Math.ceil((new Date(date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    return daysAhead <= getPolicyForClass(classId).booking_window_days;
+  };
+
+  const getConcessionCost = (gymClass: typeof classes[number]) => gymClass.concession_cost ?? 1;
+
+  const canPayWithConcessions = (gymClass: typeof classes[number]) => {
+    return hasCreditAvailable(balance, gymClass.id, getConcessionCost(gymClass));
+  };
+
+  // Show what the class costs before booking; members who can't cover it with concessions can drop in
+  const handleBookClass = (gymClass: typeof classes[number]) => {
     if (!user) {
       toast.error('Please log in to book a class');
       return;
     }
 
-    // Allow booking if concessions are greater than -5 (credit limit)
-    if ((user.concessions || 0) < -5) {
+    if (!canPayWithConcessions(gymClass) && !gymClass.drop_in_price) {
       toast.error('You have reached the credit limit. Please make a payment to continue booking classes.');
       return;
     }
-    
+
+    setPaymentOption(canPayWithConcessions(gymClass) ? 'concessions' : 'drop_in');
+    setBookingClass(gymClass);
+  };
+
+  const handleConfirmBooking = async () => {
+    if (!bookingClass) return;
+
     try {
-      await bookClass(classId, selectedDate);
-      toast.success('Class booked successfully! A concession has been deducted.');
+      const message = await bookClass(bookingClass.id, selectedDate, paymentOption);
+      toast.success(paymentOption === 'drop_in'
+        ? message
+        : `Class booked successfully! ${formatConcessions(getConcessionCost(bookingClass))} deducted.`);
+      setBookingClass(null);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to book class');
+      // The class may have filled up since the page loaded
+      await refreshBookedCounts();
+    }
+  };
+
+  const handleAddToCalendar = async (bookingId: number) => {
+    try {
+      await downloadBookingCalendar(bookingId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export booking');
     }
   };
 
@@ -118,7 +229,7 @@ export const BookingPage: React.FC = () => {
       } else {
         // Show success message with concession refund info
         if (result.concessionRefunded) {
-          toast.success(result.message + ' Your concession balance has been updated.');
+          toast.success(result.message + (isHouseholdBalance ? '' : ' Your concession balance has been updated.'));
         } else {
           toast.success(result.message);
         }
@@ -128,23 +239,271 @@ export const BookingPage: React.FC = () => {
     }
   };
 
+  const handleCreateStandingBooking = async (classId: number) => {
+    try {
+      const result = await createStandingBooking(classId);
+      if (result.skipped.length > 0) {
+        toast.warning(`${result.message}. Skipped dates are listed under My Bookings and retried automatically.`);
+      } else {
+        toast.success(`${result.message}. New dates are booked as they open.`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to set up weekly booking');
+    }
+  };
+
+  const handleCancelStandingBooking = async (standingBookingId: number) => {
+    if (!window.confirm('Stop booking this class every week? Its upcoming bookings will be cancelled too (late cancellations are still charged).')) return;
+
+    try {
+      toast.success(await cancelStandingBooking(standingBookingId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel weekly booking');
+    }
+  };
+
+  const getStandingBooking = (classId: number) => {
+    return standingBookings.find(s => s.class_id === classId && s.status === 'active');
+  };
+
+  const handleJoinWaitlist = async (classId: number) => {
+    try {
+      const result = await joinWaitlist(classId, selectedDate);
+      toast.success(`${result.message}. We'll book you in automatically if a spot opens up.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to join waitlist');
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: number) => {
+    try {
+      await leaveWaitlist(entryId);
+      toast.success('You have left the waitlist');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to leave waitlist');
+    }
+  };
+
+  const renderClassActions = (gymClass: typeof classes[number]) => {
+    const isBooked = isAlreadyBooked(gymClass.id, selectedDate);
+    const waitlistEntry = getWaitlistEntry(gymClass.id, selectedDate);
+    const isFull = isClassFull(gymClass.id);
+    const classHasCredit = canPayWithConcessions(gymClass);
+    const userCanBook = !isBooked && user && (classHasCredit || !!gymClass.drop_in_price);
+    const occurrence = getOccurrence(gymClass.id, selectedDate);
+
+    if (occurrence?.is_cancelled) {
+      return (
+        <div className="flex flex-col items-end gap-2 max-w-[200px] text-right">
+          <Badge variant="destructive">Cancelled</Badge>
+          {occurrence.cancellation_reason && (
+            <p className="text-xs text-muted-foreground">{occurrence.cancellation_reason}</p>
+          )}
+        </div>
+      );
+    }
+
+    if (!isBooked && !isWithinClassWindow(gymClass.id, selectedDate)) {
+      return (
+        <div className="flex flex-col items-end gap-2 max-w-[200px] text-right">
+          <Badge variant="outline">Not open yet</Badge>
+          <p className="text-xs text-muted-foreground">
+            Bookings open {getPolicyForClass(gymClass.id).booking_window_days} days before class
+          </p>
+        </div>
+      );
+    }
+
+    if (!isBooked && waitlistEntry) {
+      return (
+        <div className="flex flex-col items-end gap-2">
+          <Badge variant="secondary">
+            <ListOrdered className="mr-1 h-3 w-3" />
+            Waitlist position #{waitlistEntry.position}
+          </Badge>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleLeaveWaitlist(waitlistEntry.id)}
+            disabled={isLoading}
+          >
+            Leave Waitlist
+          </Button>
+        </div>
+      );
+    }
+
+    if (!isBooked && isFull) {
+      return (
+        <div className="flex flex-col items-end gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => handleJoinWaitlist(gymClass.id)}
+            disabled={!userCanBook || !classHasCredit || isLoading}
+          >
+            <ListOrdered className="mr-1 h-4 w-4" />
+            Join Waitlist
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Class full - you'll be booked in if a spot opens
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col items-end gap-2">
+        <Button
+          onClick={() => handleBookClass(gymClass)}
+          disabled={!userCanBook || isLoading}
+          variant={isBooked ? 'outline' : 'default'}
+        >
+          {isLoading ? 'Booking...' :
+           isBooked ? 'Booked' : 
+           !userCanBook ? 'Credit Limit Reached' :
+           'Book Class'}
+        </Button>
+        
+        {userCanBook && (
+          <p className="text-xs text-muted-foreground">
+            {classHasCredit ? `Uses ${formatConcessions(getConcessionCost(gymClass))}` : 'Drop-in only'}
+            {gymClass.drop_in_price ? ` · drop-in ${formatPrice(gymClass.drop_in_price)}` : ''}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const getSpotsLabel = (gymClass: typeof classes[number]) => {
+    const capacity = getCapacityOnDate(gymClass.id, selectedDate);
+    const booked = bookedCounts[gymClass.id];
+    if (booked === undefined) {
+      return `${capacity} spots`;
+    }
+    const remaining = Math.max(capacity - booked, 0);
+    return remaining === 0 ? 'Full' : `${remaining} of ${capacity} spots left`;
+  };
+
+  const renderClassCard = (gymClass: typeof classes[number]) => {
+    const isBooked = isAlreadyBooked(gymClass.id, selectedDate);
+    const occurrence = getOccurrence(gymClass.id, selectedDate);
+    const time = occurrence?.time || gymClass.time;
+    const instructor = occurrence?.instructor || gymClass.instructor;
+    
+    return (
+      <div 
+        key={gymClass.id} 
+        className={`flex items-center justify-between p-4 border rounded-lg ${occurrence?.is_cancelled ? 'opacity-60' : ''}`}
+      >
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <h3 className={`font-medium ${occurrence?.is_cancelled ? 'line-through' : ''}`}>{gymClass.name}</h3>
+            {gymClass.class_type_name && (
+              <ClassTypeBadge
+                name={gymClass.class_type_name}
+                color={gymClass.class_type_color || '#6366f1'}
+                icon={gymClass.class_type_icon || 'activity'}
+              />
+            )}
+            {isBooked && (
+              <Badge variant="default">
+                <CheckCircle className="mr-1 h-3 w-3" />
+                Booked
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <div className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {time}
+              {time !== gymClass.time && <span className="text-xs text-orange-600">(changed)</span>}
+            </div>
+            <div className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              {gymClass.duration}
+            </div>
+            <div className="flex items-center gap-1">
+              <User className="h-3 w-3" />
+              {instructor}
+              {occurrence?.is_substitute ? (
+                <span className="text-xs text-orange-600">(substitute for {gymClass.instructor})</span>
+              ) : instructor !== gymClass.instructor && (
+                <span className="text-xs text-orange-600">(covering)</span>
+              )}
+            </div>
+            {gymClass.room_name && (
+              <div className="flex items-center gap-1">
+                <MapPin className="h-3 w-3" />
+                {gymClass.location_name} · {gymClass.room_name}
+              </div>
+            )}
+            <div className="flex items-center gap-1">
+              <Users className="h-3 w-3" />
+              {getSpotsLabel(gymClass)}
+            </div>
+          </div>
+          <p className="text-sm">{gymClass.description}</p>
+          {user?.role === 'user' && (
+            getStandingBooking(gymClass.id) ? (
+              <Badge variant="secondary">
+                <Repeat className="mr-1 h-3 w-3" />
+                Booked every week
+              </Badge>
+            ) : (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => handleCreateStandingBooking(gymClass.id)}
+                disabled={isLoading}
+              >
+                <Repeat className="h-3 w-3" />
+                Book every week
+              </Button>
+            )
+          )}
+        </div>
+        
+        {renderClassActions(gymClass)}
+      </div>
+    );
+  };
+
   const handleBookFirstClass = () => {
     setActiveTab('book');
   };
 
-  const availableClasses = classes.filter(c => isClassAvailableOnDate(c, selectedDate));
-  const morningClasses = availableClasses.filter(c => c.category === 'morning');
-  const afternoonClasses = availableClasses.filter(c => c.category === 'afternoon');
+  // Classes without a room aren't tied to a location, so they show under every location
+  const availableClasses = classes.filter(c =>
+    isClassAvailableOnDate(c, selectedDate) &&
+    (locationFilter === 'all' || !c.location_id || c.location_id === parseInt(locationFilter)) &&
+    (typeFilter === 'all' || c.class_type_id === parseInt(typeFilter))
+  );
+
+  // Only offer types that are on the timetable
+  const classTypes = classes
+    .filter(c => c.class_type_id && c.class_type_name)
+    .map(c => ({ id: c.class_type_id as number, name: c.class_type_name as string }))
+    .filter((type, index, types) => types.findIndex(t => t.id === type.id) === index)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // A one-off time change can move a session into a different part of the day
+  const getSessionTimeOfDay = (gymClass: typeof classes[number]) => {
+    return getTimeOfDay(getOccurrence(gymClass.id, selectedDate)?.time || gymClass.time);
+  };
 
   const upcomingBookings = userBookings
     .filter(b => new Date(b.booking_date) >= new Date() && b.status === 'confirmed')
     .sort((a, b) => new Date(a.booking_date).getTime() - new Date(b.booking_date).getTime());
 
+  const waitingEntries = waitlist.filter(w => w.status === 'waiting');
+
   // Check if user can book classes (not at credit limit)
-  const canBook = (user?.concessions || 0) > -5;
-  const isOnCredit = (user?.concessions || 0) < 0;
-  const creditsUsed = Math.abs(Math.min(user?.concessions || 0, 0));
-  const creditsRemaining = 5 - creditsUsed;
+  const canBook = hasCreditAvailable(balance);
+  const isOnCredit = balance < 0;
+  const creditsUsed = Math.abs(Math.min(balance, 0));
+  const creditsRemaining = Math.max(policy.credit_limit - creditsUsed, 0);
+  const hasClassSpecificRules = classOverrides.length > 0;
 
   return (
     <div className="space-y-8">
@@ -164,14 +523,14 @@ export const BookingPage: React.FC = () => {
               <div className="text-sm space-y-2">
                 <div className="flex items-center gap-2">
                   <Award className="h-4 w-4 text-primary" />
-                  <span className="font-medium">Concession Balance</span>
+                  <span className="font-medium">{isHouseholdBalance ? 'Household Balance' : 'Concession Balance'}</span>
                 </div>
                 <div className={`text-2xl font-bold ${
-                  (user?.concessions || 0) < 0 ? 'text-red-600' : 
-                  (user?.concessions || 0) === 0 ? 'text-yellow-600' : 
+                  balance < 0 ? 'text-red-600' : 
+                  balance === 0 ? 'text-yellow-600' : 
                   'text-green-600'
                 }`}>
-                  {user?.concessions || 0}
+                  {balance}
                 </div>
                 {isOnCredit && (
                   <div className="space-y-1">
@@ -188,9 +547,14 @@ export const BookingPage: React.FC = () => {
                     Credit limit reached - payment required
                   </p>
                 )}
-                {(user?.concessions || 0) >= 0 && (
+                {balance >= 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {balance === 0 ? `No concessions - can book ${policy.credit_limit} on credit` : 'Concessions available'}
+                  </p>
+                )}
+                {isHouseholdBalance && (
                   <p className="text-xs text-muted-foreground">
-                    {(user?.concessions || 0) === 0 ? 'No concessions - can book 5 on credit' : 'Concessions available'}
+                    Paid by {user?.household?.payer_name}
                   </p>
                 )}
               </div>
@@ -209,15 +573,49 @@ export const BookingPage: React.FC = () => {
         <TabsContent value="book" className="space-y-6">
           {/* Date Selection */}
           <Card>
-            <CardHeader>
-              <CardTitle>Select Date</CardTitle>
-              <CardDescription>
-                Choose the date you'd like to book a class (next 14 days)
-              </CardDescription>
+            <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+              <div className="space-y-1.5">
+                <CardTitle>Select Date</CardTitle>
+                <CardDescription>
+                  Choose the date you'd like to book a class (next {maxBookingWindowDays} days)
+                </CardDescription>
+              </div>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                {classTypes.length > 0 && (
+                  <Select value={typeFilter} onValueChange={(value: string) => setTypeFilter(value)}>
+                    <SelectTrigger className="sm:w-44">
+                      <Tags className="h-4 w-4" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All class types</SelectItem>
+                      {classTypes.map(type => (
+                        <SelectItem key={type.id} value={String(type.id)}>{type.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {activeLocations.length > 1 && (
+                  <Select value={locationFilter} onValueChange={(value: string) => setLocationFilter(value)}>
+                    <SelectTrigger className="sm:w-56">
+                      <MapPin className="h-4 w-4" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All locations</SelectItem>
+                      {activeLocations.map(location => (
+                        <SelectItem key={location.id} value={String(location.id)}>
+                          {location.name}{location.id === user?.home_location_id && ' (home)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-7 gap-2">
-                {next14Days.map(date => {
+                {bookableDays.map(date => {
                   const dateInfo = formatDate(date);
                   const isSelected = date === selectedDate;
                   const isToday = date === new Date().toISOString().split('T')[0];
@@ -242,155 +640,27 @@ export const BookingPage: React.FC = () => {
             </CardContent>
           </Card>
 
-          {/* Morning Classes */}
-          {morningClasses.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Morning Classes</CardTitle>
-                <CardDescription>
-                  Start your day with energy
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {morningClasses.map(gymClass => {
-                    const isBooked = isAlreadyBooked(gymClass.id, selectedDate);
-                    const userCanBook = !isBooked && user && canBook;
-                    
-                    return (
-                      <div key={gymClass.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="space-y-2">
-                          <div className="flex items-center gap-3">
-                            <h3 className="font-medium">{gymClass.name}</h3>
-                            <Badge variant="outline">{gymClass.category}</Badge>
-                            {isBooked && (
-                              <Badge variant="default">
-                                <CheckCircle className="mr-1 h-3 w-3" />
-                                Booked
-                              </Badge>
-                            )}
-                          </div>
-                          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                            <div className="flex items-center gap-1">
-                              <Clock className="h-3 w-3" />
-                              {gymClass.time}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <Calendar className="h-3 w-3" />
-                              {gymClass.duration}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <MapPin className="h-3 w-3" />
-                              {gymClass.instructor}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <Users className="h-3 w-3" />
-                              {gymClass.max_capacity} spots
-                            </div>
-                          </div>
-                          <p className="text-sm">{gymClass.description}</p>
-                        </div>
-                        
-                        <div className="flex flex-col items-end gap-2">
-                          <Button
-                            onClick={() => handleBookClass(gymClass.id)}
-                            disabled={!userCanBook || isLoading}
-                            variant={isBooked ? 'outline' : 'default'}
-                          >
-                            {isLoading ? 'Booking...' :
-                             isBooked ? 'Booked' : 
-                             !canBook ? 'Credit Limit Reached' :
-                             'Book Class'}
-                          </Button>
-                          
-                          {userCanBook && (
-                            <p className="text-xs text-muted-foreground">
-                              Uses 1 concession
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {/* Morning, Afternoon and Evening Classes */}
+          {TIME_OF_DAY_BUCKETS.map(bucket => {
+            const bucketClasses = availableClasses.filter(c => getSessionTimeOfDay(c) === bucket.value);
+            if (bucketClasses.length === 0) return null;
 
-          {/* Afternoon Classes */}
-          {afternoonClasses.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Afternoon Classes</CardTitle>
-                <CardDescription>
-                  Wind down with evening fitness
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {afternoonClasses.map(gymClass => {
-                    const isBooked = isAlreadyBooked(gymClass.id, selectedDate);
-                    const userCanBook = !isBooked && user && canBook;
-                    
-                    return (
-                      <div key={gymClass.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="space-y-2">
-                          <div className="flex items-center gap-3">
-                            <h3 className="font-medium">{gymClass.name}</h3>
-                            <Badge variant="outline">{gymClass.category}</Badge>
-                            {isBooked && (
-                              <Badge variant="default">
-                                <CheckCircle className="mr-1 h-3 w-3" />
-                                Booked
-                              </Badge>
-                            )}
-                          </div>
-                          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                            <div className="flex items-center gap-1">
-                              <Clock className="h-3 w-3" />
-                              {gymClass.time}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <Calendar className="h-3 w-3" />
-                              {gymClass.duration}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <MapPin className="h-3 w-3" />
-                              {gymClass.instructor}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <Users className="h-3 w-3" />
-                              {gymClass.max_capacity} spots
-                            </div>
-                          </div>
-                          <p className="text-sm">{gymClass.description}</p>
-                        </div>
-                        
-                        <div className="flex flex-col items-end gap-2">
-                          <Button
-                            onClick={() => handleBookClass(gymClass.id)}
-                            disabled={!userCanBook || isLoading}
-                            variant={isBooked ? 'outline' : 'default'}
-                          >
-                            {isLoading ? 'Booking...' :
-                             isBooked ? 'Booked' : 
-                             !canBook ? 'Credit Limit Reached' :
-                             'Book Class'}
-                          </Button>
-                          
-                          {userCanBook && (
-                            <p className="text-xs text-muted-foreground">
-                              Uses 1 concession
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+            return (
+              <Card key={bucket.value}>
+                <CardHeader>
+                  <CardTitle>{bucket.label}</CardTitle>
+                  <CardDescription>
+                    {bucket.description}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {bucketClasses.map(renderClassCard)}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
 
           {/* No Classes Available */}
           {availableClasses.length === 0 && (
@@ -400,6 +670,8 @@ export const BookingPage: React.FC = () => {
                 <h3 className="mt-2 text-sm font-medium">No classes available</h3>
                 <p className="mt-1 text-sm text-muted-foreground">
                   There are no classes scheduled for {formatDate(selectedDate).full}
+                  {typeFilter !== 'all' && ` for ${classTypes.find(t => String(t.id) === typeFilter)?.name ?? 'this class type'}`}
+                  {locationFilter !== 'all' && ` at ${activeLocations.find(l => String(l.id) === locationFilter)?.name ?? 'this location'}`}
                 </p>
                 <p className="mt-2 text-xs text-muted-foreground">
                   Classes are available on Mondays, Wednesdays, and Fridays
@@ -423,7 +695,9 @@ export const BookingPage: React.FC = () => {
                 <div className="space-y-4">
                   {upcomingBookings.map(booking => {
                     const classDetails = classes.find(c => c.id === booking.class_id);
-                    const isLateCancel = classDetails ? isWithin24Hours(booking.booking_date, classDetails.time) : false;
+                    const occurrence = getOccurrence(booking.class_id, booking.booking_date);
+                    const classTime = occurrence?.time || classDetails?.time;
+                    const isLateCancel = classTime ? isLateCancellation(booking.class_id, booking.booking_date, classTime) : false;
                     
                     return (
                       <div key={booking.id} className="flex items-center justify-between p-4 border rounded-lg">
@@ -431,6 +705,12 @@ export const BookingPage: React.FC = () => {
                           <div className="flex items-center gap-3">
                             <h4 className="font-medium">{classDetails?.name}</h4>
                             <Badge variant="default">Confirmed</Badge>
+                            {booking.standing_booking_id && (
+                              <Badge variant="secondary">
+                                <Repeat className="mr-1 h-3 w-3" />
+                                Weekly
+                              </Badge>
+                            )}
                             {booking.used_concession && (
                               <Badge 
                                 variant="outline"
@@ -441,7 +721,13 @@ export const BookingPage: React.FC = () => {
                                 }}
                               >
                                 <Award className="mr-1 h-3 w-3" />
-                                Concession Used
+                                {(booking.concessions_charged ?? 1) > 1 ? `${booking.concessions_charged} Concessions Used` : 'Concession Used'}
+                              </Badge>
+                            )}
+                            {!booking.used_concession && booking.payment_status && (
+                              <Badge variant={booking.payment_status === 'confirmed' ? 'secondary' : 'outline'}>
+                                <Banknote className="mr-1 h-3 w-3" />
+                                {booking.payment_status === 'confirmed' ? 'Drop-in paid' : 'Drop-in payment pending'}
                               </Badge>
                             )}
                           </div>
@@ -452,22 +738,40 @@ export const BookingPage: React.FC = () => {
                             </div>
                             <div className="flex items-center gap-1">
                               <Clock className="h-3 w-3" />
-                              {classDetails?.time}
+                              {classTime}
                             </div>
                             <div className="flex items-center gap-1">
                               <MapPin className="h-3 w-3" />
-                              {classDetails?.instructor}
+                              {occurrence?.instructor || classDetails?.instructor}
+                              {occurrence?.is_substitute && <span className="text-xs text-orange-600">(substitute)</span>}
                             </div>
                           </div>
+                          {!booking.used_concession && booking.payment_status === 'pending' && booking.payment_amount && (
+                            <p className="text-sm text-muted-foreground">
+                              Pay {formatPrice(booking.payment_amount)} by bank transfer using reference <span className="font-mono">{booking.payment_reference}</span>
+                            </p>
+                          )}
                           {isLateCancel && (
                             <div className="flex items-center gap-2 text-sm text-destructive">
                               <AlertTriangle className="h-4 w-4" />
-                              <span>Late cancellation: You'll still be charged a concession</span>
+                              <span>
+                                {booking.used_concession
+                                  ? `Late cancellation: You'll still be charged ${formatConcessions(booking.concessions_charged ?? 1)}`
+                                  : 'Late cancellation: The drop-in fee is still payable'}
+                              </span>
                             </div>
                           )}
                         </div>
                         
                         <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAddToCalendar(booking.id)}
+                          >
+                            <CalendarPlus className="h-4 w-4" />
+                            Add to calendar
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -500,6 +804,110 @@ export const BookingPage: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Waitlist */}
+          {waitingEntries.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>My Waitlist</CardTitle>
+                <CardDescription>
+                  You'll be booked in automatically (using a concession) when a spot opens up
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {waitingEntries.map(entry => (
+                    <div key={entry.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-3">
+                          <h4 className="font-medium">{entry.class_name}</h4>
+                          <Badge variant="secondary">
+                            <ListOrdered className="mr-1 h-3 w-3" />
+                            Position #{entry.position}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {formatDate(entry.booking_date).full}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {entry.class_time}
+                          </div>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleLeaveWaitlist(entry.id)}
+                      >
+                        <X className="h-4 w-4" />
+                        Leave
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Standing bookings */}
+          {standingBookings.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly Bookings</CardTitle>
+                <CardDescription>
+                  These classes are booked for you as each date opens. Cancel a single date above, or stop the whole series here.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {standingBookings.map(standing => (
+                    <div key={standing.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-3">
+                          <h4 className="font-medium">{standing.class_name}</h4>
+                          <Badge variant="secondary">
+                            <Repeat className="mr-1 h-3 w-3" />
+                            {standing.upcoming_count} upcoming
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {standing.days.join(', ')}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {standing.class_time?.slice(0, 5)}
+                          </div>
+                        </div>
+                        {standing.skipped_dates.map(skip => (
+                          <div key={skip.date} className="flex items-center gap-2 text-sm text-orange-600">
+                            <AlertTriangle className="h-4 w-4" />
+                            <span>Not booked on {formatDate(skip.date).full}: {SKIP_REASON_LABELS[skip.reason] || skip.reason}</span>
+                          </div>
+                        ))}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCancelStandingBooking(standing.id)}
+                        disabled={isLoading}
+                      >
+                        <X className="h-4 w-4" />
+                        Stop
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Calendar subscription */}
+          <CalendarSubscription />
+
           {/* Credit Information for users on credit */}
           {isOnCredit && (
             <Card className="border-red-200 bg-red-50">
@@ -510,7 +918,7 @@ export const BookingPage: React.FC = () => {
                 <div className="space-y-3 text-sm">
                   <div className="flex items-start gap-2">
                     <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
-                    <p><strong>Current Credit:</strong> You are using {creditsUsed} credit{creditsUsed > 1 ? 's' : ''} (balance: {user?.concessions})</p>
+                    <p><strong>Current Credit:</strong> You are using {creditsUsed} credit{creditsUsed > 1 ? 's' : ''} (balance: {balance})</p>
                   </div>
                   <div className="flex items-start gap-2">
                     <Award className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
@@ -534,21 +942,94 @@ export const BookingPage: React.FC = () => {
               <div className="space-y-3 text-sm">
                 <div className="flex items-start gap-2">
                   <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
-                  <p><strong>Free Cancellation:</strong> Cancel more than 24 hours before class and get your concession refunded</p>
+                  <p><strong>Free Cancellation:</strong> Cancel more than {policy.cancellation_deadline_hours} hours before class and get your concession refunded</p>
                 </div>
                 <div className="flex items-start gap-2">
                   <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
-                  <p><strong>Late Cancellation:</strong> Cancel within 24 hours and you'll still be charged a concession</p>
+                  <p><strong>Late Cancellation:</strong> Cancel within {policy.cancellation_deadline_hours} hours and you'll still be charged a concession</p>
                 </div>
                 <div className="flex items-start gap-2">
                   <Award className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
-                  <p><strong>Credit System:</strong> You can book up to 5 classes on credit when you have 0 concessions (going to -5)</p>
+                  <p><strong>Credit System:</strong> You can book up to {policy.credit_limit} classes on credit when you have 0 concessions (going to -{policy.credit_limit})</p>
                 </div>
+                {hasClassSpecificRules && (
+                  <div className="flex items-start gap-2">
+                    <Calendar className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <p><strong>Class Rules:</strong> Some classes have their own booking window, cancellation deadline or credit limit</p>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
+
+      {/* Booking Confirmation */}
+      <Dialog open={!!bookingClass} onOpenChange={(open: boolean) => !open && setBookingClass(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Book {bookingClass?.name}</DialogTitle>
+            <DialogDescription>
+              {formatDate(selectedDate).full} at {bookingClass && (getOccurrence(bookingClass.id, selectedDate)?.time || bookingClass.time)}
+            </DialogDescription>
+          </DialogHeader>
+          {bookingClass && (
+            <div className="space-y-3">
+              <button
+                type="button"
+                onClick={() => setPaymentOption('concessions')}
+                disabled={!canPayWithConcessions(bookingClass)}
+                className={`w-full rounded-lg border p-3 text-left transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                  paymentOption === 'concessions' ? 'border-primary bg-primary/5' : ''
+                }`}
+              >
+                <div className="flex items-center justify-between font-medium">
+                  <span className="flex items-center gap-2">
+                    <Award className="h-4 w-4" />
+                    Use concessions
+                  </span>
+                  <span>{formatConcessions(getConcessionCost(bookingClass))}</span>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  {canPayWithConcessions(bookingClass)
+                    ? `Balance ${balance} → ${balance - getConcessionCost(bookingClass)}` +
+                      (balance - getConcessionCost(bookingClass) < 0 ? ' (using credit)' : '')
+                    : 'This would take you past your credit limit'}
+                </p>
+              </button>
+
+              {!!bookingClass.drop_in_price && (
+                <button
+                  type="button"
+                  onClick={() => setPaymentOption('drop_in')}
+                  className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                    paymentOption === 'drop_in' ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between font-medium">
+                    <span className="flex items-center gap-2">
+                      <Banknote className="h-4 w-4" />
+                      Drop-in
+                    </span>
+                    <span>{formatPrice(bookingClass.drop_in_price)}</span>
+                  </div>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Your spot is held while you pay by bank transfer. Your concessions aren't touched.
+                  </p>
+                </button>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBookingClass(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmBooking} disabled={isLoading}>
+              {isLoading ? 'Booking...' : 'Confirm Booking'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Banknote, Building, Copy, CreditCard } from 'lucide-react';
+import { toast } from 'sonner';
+import { usePayment } from '../contexts/PaymentContext';
+import { useAuth } from '../contexts/AuthContext';
+import config from '../config/environment';
+
+type PaymentMethod = 'bank_transfer' | 'cash';
+
+interface PendingOrder {
+  amount: number;
+  concessions: number;
+  reference: string;
+  payment_method: PaymentMethod;
+  message: string;
+}
+
+// Helper function to format a price in dollars
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+export const BuyConcessions: React.FC<{ variant?: 'default' | 'outline'; className?: string }> = ({ variant = 'default', className }) => {
+  const { packages, paymentDetails, purchasePackage, isLoading } = usePayment();
+  const { refreshUser } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedPackageId, setSelectedPackageId] = useState<number | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('bank_transfer');
+  const [voucherCode, setVoucherCode] = useState('');
+  const [order, setOrder] = useState<PendingOrder | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setSelectedPackageId(null);
+      setPaymentMethod('bank_transfer');
+      setVoucherCode('');
+      setOrder(null);
+    }
+  };
+
+  const handlePurchase = async () => {
+    if (!selectedPackageId) return;
+
+    try {
+      const { payment, message } = await purchasePackage(selectedPackageId, paymentMethod, voucherCode.trim() || undefined);
+
+      // A code that covers the whole price confirms the purchase straight away, so there's nothing to pay
+      if (payment.status === 'confirmed') {
+        toast.success(message);
+        await refreshUser();
+        handleOpenChange(false);
+        return;
+      }
+      if (voucherCode.trim()) {
+        toast.success(message);
+      }
+
+      setOrder({
+        amount: payment.amount,
+        concessions: payment.concessions_purchased,
+        reference: payment.reference,
+        payment_method: payment.payment_method as PaymentMethod,
+        message
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start purchase');
+    }
+  };
+
+  const handleCopyReference = async () => {
+    if (!order) return;
+
+    try {
+      await navigator.clipboard.writeText(order.reference);
+      toast.success('Reference copied');
+    } catch {
+      toast.error('Could not copy the reference');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant={variant} className={className}>
+          <CreditCard className="mr-2 h-4 w-4" />
+          Buy Concessions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{order ? 'Complete Your Payment' : 'Buy Concessions'}</DialogTitle>
+          <DialogDescription>
+            {order
+              ? 'Your concessions will be added once the gym confirms your payment'
+              : 'Choose a package and how you would like to pay'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {order ? (
+          <div className="space-y-4">
+            <div className="rounded-lg border p-4 text-center space-y-2">
+              <p className="text-sm text-muted-foreground">Pay {formatPrice(order.amount)} for {order.concessions} concessions using reference</p>
+              <div className="flex items-center justify-center gap-2">
+                <span className="font-mono text-2xl font-bold tracking-wider">{order.reference}</span>
+                <Button variant="ghost" size="sm" onClick={handleCopyReference} aria-label="Copy reference">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {order.payment_method === 'bank_transfer' ? (
+              <div className="bg-muted/50 p-4 rounded-lg border space-y-2 text-sm">
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <span className="font-medium">Bank:</span>
+                    <div>{paymentDetails?.bank_name || config.BUSINESS.PAYMENT.BANK_NAME}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Account:</span>
+                    <div>{paymentDetails?.account_name || config.BUSINESS.PAYMENT.ACCOUNT_NAME}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium">Account Number:</span>
+                    <div>{paymentDetails?.account_number || config.BUSINESS.PAYMENT.ACCOUNT_NUMBER}</div>
+                  </div>
+                  {paymentDetails?.sort_code && (
+                    <div>
+                      <span className="font-medium">Sort Code:</span>
+                      <div>{paymentDetails.sort_code}</div>
+                    </div>
+                  )}
+                </div>
+                <p className="text-muted-foreground border-t pt-2">
+                  Enter {order.reference} as the payment reference so we can match your transfer.
+                </p>
+                {paymentDetails?.additional_info && (
+                  <p className="text-xs text-muted-foreground border-t pt-2">{paymentDetails.additional_info}</p>
+                )}
+              </div>
+            ) : (
+              <div className="bg-muted/50 p-4 rounded-lg border text-sm flex items-center gap-3">
+                <Banknote className="h-4 w-4 text-green-600" />
+                <p>Pay at reception and quote {order.reference}. Staff will add your concessions once you've paid.</p>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {packages.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No concession packages are available right now. Please ask at reception.</p>
+            ) : (
+              <div className="space-y-2">
+                {packages.map(concessionPackage => (
+                  <button
+                    key={concessionPackage.id}
+                    type="button"
+                    onClick={() => setSelectedPackageId(concessionPackage.id)}
+                    className={`w-full flex items-center justify-between p-3 border rounded-lg text-left transition-colors ${
+                      selectedPackageId === concessionPackage.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    }`}
+                  >
+                    <div>
+                      <p className="font-medium">{concessionPackage.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {concessionPackage.concessions} concessions · {formatPrice(concessionPackage.price / concessionPackage.concessions)} per class
+                        {concessionPackage.validity_months && ` · valid ${concessionPackage.validity_months} month${concessionPackage.validity_months > 1 ? 's' : ''}`}
+                      </p>
+                    </div>
+                    <Badge variant={selectedPackageId === concessionPackage.id ? 'default' : 'secondary'}>
+                      {formatPrice(concessionPackage.price)}
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="purchase-voucher-code">Discount code (optional)</Label>
+              <Input
+                id="purchase-voucher-code"
+                value={voucherCode}
+                onChange={(e) => setVoucherCode(e.target.value)}
+                placeholder="e.g., XMAS25"
+                className="uppercase"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={paymentMethod === 'bank_transfer' ? 'default' : 'outline'}
+                onClick={() => setPaymentMethod('bank_transfer')}
+              >
+                <Building className="mr-2 h-4 w-4" />
+                Bank Transfer
+              </Button>
+              <Button
+                type="button"
+                variant={paymentMethod === 'cash' ? 'default' : 'outline'}
+                onClick={() => setPaymentMethod('cash')}
+              >
+                <Banknote className="mr-2 h-4 w-4" />
+                Pay at Reception
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+              <Button onClick={handlePurchase} disabled={!selectedPackageId || isLoading}>
+                Get Payment Reference
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
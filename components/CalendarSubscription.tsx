@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { CalendarClock, Copy, ExternalLink, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBooking } from '../contexts/BookingContext';
+
+export const CalendarSubscription: React.FC = () => {
+  const { getCalendarSubscription, resetCalendarSubscription } = useBooking();
+  const [subscription, setSubscription] = useState<{ url: string; webcal_url: string } | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+
+  useEffect(() => {
+    getCalendarSubscription()
+      .then(setSubscription)
+      .catch(error => console.error('Failed to load calendar link:', error));
+  }, []);
+
+  const handleCopy = async () => {
+    if (!subscription) return;
+    try {
+      await navigator.clipboard.writeText(subscription.url);
+      toast.success('Calendar link copied');
+    } catch {
+      toast.error('Unable to copy - select the link and copy it manually');
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset your calendar link? Calendars subscribed with the old link will stop updating.')) return;
+
+    try {
+      setIsResetting(true);
+      setSubscription(await resetCalendarSubscription());
+      toast.success('Calendar link reset. Re-subscribe with the new link.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset calendar link');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Calendar Subscription
+        </CardTitle>
+        <CardDescription>
+          Subscribe in Google Calendar, Apple Calendar or Outlook to keep your bookings in sync. Keep this link private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={subscription?.url || 'Loading...'}
+            onFocus={(e) => e.target.select()}
+            className="font-mono text-xs"
+          />
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={!subscription}>
+            <Copy className="h-4 w-4" />
+            Copy
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {subscription && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={subscription.webcal_url}>
+                <ExternalLink className="h-4 w-4" />
+                Open in calendar app
+              </a>
+            </Button>
+          )}
+          <Button variant="link" size="sm" onClick={handleReset} disabled={isResetting || !subscription}>
+            <RefreshCw className="h-4 w-4" />
+            {isResetting ? 'Resetting...' : 'Reset link'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { QrCode } from 'lucide-react';
+import { useBooking } from '../contexts/BookingContext';
+
+// Fetch a fresh code this long before the current one expires
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+export const CheckInCode: React.FC<{ bookingId: number; className: string }> = ({ bookingId, className }) => {
+  const { getCheckInCode } = useBooking();
+  const [isOpen, setIsOpen] = useState(false);
+  const [code, setCode] = useState<{ token: string; expires_at: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCode = async () => {
+    try {
+      setCode(await getCheckInCode(bookingId));
+      setError(null);
+    } catch (error) {
+      setCode(null);
+      setError(error instanceof Error ? error.message : 'Failed to get check-in code');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCode();
+    } else {
+      setCode(null);
+    }
+  }, [isOpen, bookingId]);
+
+  // Codes are short-lived, so keep the one on screen fresh while the dialog is open
+  useEffect(() => {
+    if (!isOpen || !code) return;
+
+    const delay = Math.max(new Date(code.expires_at).getTime() - Date.now() - REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(loadCode, delay);
+    return () => clearTimeout(timer);
+  }, [isOpen, code]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <QrCode className="h-4 w-4" />
+          Check in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Check in to {className}</DialogTitle>
+          <DialogDescription>
+            Show this code to the kiosk at the front desk
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4 py-4">
+          {code ? (
+            <>
+              <div className="rounded-lg bg-white p-4">
+                <QRCodeSVG value={code.token} size={220} />
+              </div>
+              <p className="text-xs text-muted-foreground text-center">
+                The code refreshes automatically and can't be reused later
+              </p>
+            </>
+          ) : error ? (
+            <p className="text-sm text-destructive text-center">{error}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">Loading code...</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { useClass } from '../contexts/ClassContext';
+import { useInstructors } from '../contexts/InstructorContext';
+import { useLocations } from '../contexts/LocationContext';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -11,7 +13,12 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Checkbox } from './ui/checkbox';
+import { Switch } from './ui/switch';
 import { toast } from 'sonner@2.0.3';
+import { ClassRoster } from './ClassRoster';
+import { ClassTypeBadge, CLASS_TYPE_ICONS } from './ClassTypeBadge';
+import { TIME_OF_DAY_BUCKETS, type TimeOfDay } from '../services/timeOfDay';
+import type { ScheduleConflict } from '../services/conflicts';
 import { 
   Plus, 
   Edit, 
@@ -27,9 +34,16 @@ import {
   CalendarClock,
   CalendarDays,
   Timer,
-  DollarSign
-,
-  DollarSign
+  DollarSign,
+  Ban,
+  RotateCcw,
+  ClipboardCheck,
+  UserCog,
+  X,
+  MapPin,
+  AlertTriangle,
+  Tags,
+  Ticket
 } from 'lucide-react';
 
 interface GymClass {
@@ -38,16 +52,24 @@ interface GymClass {
   time: string;
   duration: string;
   instructor: string;
+  instructor_id?: number | null;
+  room_id?: number | null;
+  room_name?: string | null;
+  location_name?: string | null;
+  class_type_id?: number | null;
+  class_type_name?: string | null;
+  class_type_color?: string | null;
+  class_type_icon?: string | null;
   max_capacity: number;
   description: string;
-  category: 'morning' | 'afternoon';
+  category: TimeOfDay;
   days: string[];
   status: 'published' | 'draft' | 'scheduled';
   publish_date?: string;
   start_date?: string;
   end_date?: string;
-  price?: number;
-  drop_in_price?: number;
+  concession_cost?: number;
+  drop_in_price?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -56,17 +78,49 @@ interface ClassFormData {
   name: string;
   time: string;
   duration: string;
-  instructor: string;
+  instructor_id: number | null;
+  room_id: number | null;
+  class_type_id: number | null;
   max_capacity: number;
   description: string;
-  category: 'morning' | 'afternoon';
   days: string[];
   status: 'published' | 'draft' | 'scheduled';
   publish_date?: string;
   start_date?: string;
   end_date?: string;
-  price?: number;
-  drop_in_price?: number;
+  concession_cost: number;
+  drop_in_price: number | null;
+}
+
+interface ClassType {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+  is_active: boolean;
+  class_count: number;
+}
+
+interface ClassTypeForm {
+  name: string;
+  color: string;
+  icon: string;
+  is_active: boolean;
+}
+
+const EMPTY_CLASS_TYPE_FORM: ClassTypeForm = { name: '', color: '#6366f1', icon: 'activity', is_active: true };
+
+interface ClassOccurrence {
+  class_id: number;
+  occurrence_date: string;
+  time: string;
+  instructor: string;
+  is_substitute: boolean;
+  max_capacity: number;
+  is_cancelled: boolean;
+  cancellation_reason: string | null;
+  has_override: boolean;
+  booked_count: number;
 }
 
 const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
@@ -81,10 +135,14 @@ const formatDate = (dateString?: string) => {
   }
 };
 
-// Helper function to format price
-const formatPrice = (price?: number) => {
-  if (price === undefined || price === null) return 'Free';
-  return `$${price.toFixed(2)}`;
+// Helper function to format a drop-in price
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+// Helper function to describe a double booking, e.g. "Studio 1 is also used by HIIT at 17:30 on Monday"
+const describeConflict = (conflict: ScheduleConflict) => {
+  const resource = conflict.type === 'room' ? conflict.resource_name : `${conflict.resource_name} also teaches`;
+  const verb = conflict.type === 'room' ? ' is also used by' : '';
+  return `${resource}${verb} ${conflict.other_class_name} at ${conflict.other_class_time} on ${conflict.days.join(', ')}`;
 };
 
 // Helper function to get today's date in YYYY-MM-DD format
@@ -98,25 +156,31 @@ const ClassForm: React.FC<{
   onCancel: () => void;
   isEdit?: boolean;
 }> = ({ initialData, onSubmit, onCancel, isEdit = false }) => {
+  const { instructors } = useInstructors();
+  const { locations } = useLocations();
+  const { classTypes } = useClass();
   const [formData, setFormData] = useState<ClassFormData>({
     name: initialData?.name || '',
     time: initialData?.time || '',
     duration: initialData?.duration || '',
-    instructor: initialData?.instructor || '',
+    instructor_id: initialData?.instructor_id ?? null,
+    room_id: initialData?.room_id ?? null,
     max_capacity: initialData?.max_capacity || 20,
     description: initialData?.description || '',
-    category: initialData?.category || 'morning',
+    class_type_id: initialData?.class_type_id ?? null,
     days: initialData?.days || [],
     status: initialData?.status || 'draft',
     publish_date: initialData?.publish_date || '',
     start_date: initialData?.start_date || '',
     end_date: initialData?.end_date || '',
-    price: initialData?.price || 0,
-    drop_in_price: initialData?.drop_in_price || 0
+    concession_cost: initialData?.concession_cost || 1,
+    drop_in_price: initialData?.drop_in_price ?? null
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const selectedRoom = locations.flatMap(location => location.rooms).find(room => room.id === formData.room_id);
+
   const handleDayToggle = (day: string) => {
     setFormData(prev => ({
       ...prev,
@@ -144,11 +208,16 @@ const ClassForm: React.FC<{
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.name || !formData.time || !formData.instructor || formData.days.length === 0) {
+    if (!formData.name || !formData.time || !formData.instructor_id || formData.days.length === 0) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (selectedRoom && formData.max_capacity > selectedRoom.capacity) {
+      toast.error(`${selectedRoom.name} holds ${selectedRoom.capacity} people. Lower the class capacity or choose a bigger room.`);
+      return;
+    }
+
     // Validation for scheduled classes
     if (formData.status === 'scheduled') {
       if (!formData.publish_date) {
@@ -170,11 +239,11 @@ const ClassForm: React.FC<{
     }
 
     // Price validation
-    if (formData.price !== undefined && formData.price < 0) {
-      toast.error('Price cannot be negative');
+    if (formData.concession_cost < 1 || formData.concession_cost > 10) {
+      toast.error('Concession cost must be between 1 and 10');
       return;
     }
-    if (formData.drop_in_price !== undefined && formData.drop_in_price < 0) {
+    if (formData.drop_in_price !== null && formData.drop_in_price < 0) {
       toast.error('Drop-in price cannot be negative');
       return;
     }
@@ -209,13 +278,55 @@ const ClassForm: React.FC<{
 
         <div className="space-y-2">
           <Label htmlFor="instructor">Instructor *</Label>
-          <Input
-            id="instructor"
-            value={formData.instructor}
-            onChange={(e) => setFormData(prev => ({ ...prev, instructor: e.target.value }))}
-            placeholder="e.g., Sarah Johnson"
-            required
-          />
+          <Select
+            value={formData.instructor_id ? String(formData.instructor_id) : ''}
+            onValueChange={(value: string) => setFormData(prev => ({ ...prev, instructor_id: parseInt(value) }))}
+          >
+            <SelectTrigger id="instructor">
+              <SelectValue placeholder="Choose an instructor" />
+            </SelectTrigger>
+            <SelectContent>
+              {/* A deactivated instructor stays listed only for the class they're already on */}
+              {instructors
+                .filter(instructor => instructor.is_active || instructor.id === initialData?.instructor_id)
+                .map(instructor => (
+                  <SelectItem key={instructor.id} value={String(instructor.id)}>
+                    {instructor.name}{!instructor.is_active && ' (inactive)'}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          {instructors.length === 0 && (
+            <p className="text-xs text-muted-foreground">Add instructors on the Instructors tab first</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="room">Room</Label>
+          <Select
+            value={formData.room_id ? String(formData.room_id) : 'none'}
+            onValueChange={(value: string) => setFormData(prev => ({ ...prev, room_id: value === 'none' ? null : parseInt(value) }))}
+          >
+            <SelectTrigger id="room">
+              <SelectValue placeholder="Choose a room" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No room assigned</SelectItem>
+              {/* Like instructors, a closed room stays listed only for the class already in it */}
+              {locations.flatMap(location => location.rooms
+                .filter(room => (room.is_active && location.is_active) || room.id === initialData?.room_id)
+                .map(room => (
+                  <SelectItem key={room.id} value={String(room.id)}>
+                    {location.name} · {room.name} ({room.capacity}){!(room.is_active && location.is_active) && ' (closed)'}
+                  </SelectItem>
+                )))}
+            </SelectContent>
+          </Select>
+          {selectedRoom && formData.max_capacity > selectedRoom.capacity && (
+            <p className="text-xs text-destructive">
+              {selectedRoom.name} only holds {selectedRoom.capacity} people
+            </p>
+          )}
         </div>
 
         <div className="space-y-2">
@@ -251,18 +362,29 @@ const ClassForm: React.FC<{
         </div>
 
         <div className="space-y-2">
-          <Label htmlFor="category">Category</Label>
-          <Select value={formData.category} onValueChange={(value: 'morning' | 'afternoon') => 
-            setFormData(prev => ({ ...prev, category: value }))
-          }>
-            <SelectTrigger>
-              <SelectValue />
+          <Label htmlFor="class-type">Class Type</Label>
+          <Select
+            value={formData.class_type_id ? String(formData.class_type_id) : 'none'}
+            onValueChange={(value: string) => setFormData(prev => ({ ...prev, class_type_id: value === 'none' ? null : parseInt(value) }))}
+          >
+            <SelectTrigger id="class-type">
+              <SelectValue placeholder="Choose a class type" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="morning">Morning</SelectItem>
-              <SelectItem value="afternoon">Afternoon</SelectItem>
+              <SelectItem value="none">No type</SelectItem>
+              {/* A retired type stays listed only for the class already using it */}
+              {classTypes
+                .filter(classType => classType.is_active || classType.id === initialData?.class_type_id)
+                .map(classType => (
+                  <SelectItem key={classType.id} value={String(classType.id)}>
+                    {classType.name}{!classType.is_active && ' (retired)'}
+                  </SelectItem>
+                ))}
             </SelectContent>
           </Select>
+          <p className="text-xs text-muted-foreground">
+            Morning, afternoon or evening is worked out from the start time
+          </p>
         </div>
       </div>
 
@@ -274,28 +396,23 @@ const ClassForm: React.FC<{
             Class Pricing (NZD)
           </CardTitle>
           <CardDescription>
-            Set the pricing for this class. Leave at $0 for free classes.
+            Set what a booking costs. Premium classes can take more than one concession.
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="price">Standard Price</Label>
-              <div className="relative">
-                <DollarSign className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="price"
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={formData.price || ''}
-                  onChange={(e) => setFormData(prev => ({ ...prev, price: parseFloat(e.target.value) || 0 }))}
-                  placeholder="0.00"
-                  className="pl-10"
-                />
-              </div>
+              <Label htmlFor="concession_cost">Concession Cost</Label>
+              <Input
+                id="concession_cost"
+                type="number"
+                min="1"
+                max="10"
+                value={formData.concession_cost}
+                onChange={(e) => setFormData(prev => ({ ...prev, concession_cost: parseInt(e.target.value) || 1 }))}
+              />
               <p className="text-sm text-muted-foreground">
-                Price when booking with concessions/membership
+                Concessions taken from the member's balance for each booking
               </p>
             </div>
 
@@ -309,13 +426,13 @@ const ClassForm: React.FC<{
                   min="0"
                   step="0.01"
                   value={formData.drop_in_price || ''}
-                  onChange={(e) => setFormData(prev => ({ ...prev, drop_in_price: parseFloat(e.target.value) || 0 }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, drop_in_price: parseFloat(e.target.value) || null }))}
                   placeholder="0.00"
                   className="pl-10"
                 />
               </div>
               <p className="text-sm text-muted-foreground">
-                Price for single-session bookings
+                Paid by bank transfer by members booking without concessions. Leave empty to allow concessions only.
               </p>
             </div>
           </div>
@@ -447,13 +564,561 @@ const ClassForm: React.FC<{
   );
 };
 
+// How far ahead the sessions dialog lists dated occurrences
+const SESSION_WEEKS_AHEAD = 8;
+
+// How far back it lists past sessions so attendance can still be marked
+const SESSION_DAYS_BACK = 7;
+
+// Helper function to check whether a session has started (attendance can be marked from then)
+const hasSessionStarted = (session: ClassOccurrence) => {
+  return new Date(`${session.occurrence_date}T${session.time}:00`).getTime() <= Date.now();
+};
+
+const ClassSessions: React.FC<{ gymClass: GymClass }> = ({ gymClass }) => {
+  const { getClassOccurrences, updateOccurrence, cancelOccurrence, restoreOccurrence, assignSubstitute, removeSubstitute } = useClass();
+  const { activeInstructors } = useInstructors();
+  const [sessions, setSessions] = useState<ClassOccurrence[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [editingDate, setEditingDate] = useState<string | null>(null);
+  const [overrideForm, setOverrideForm] = useState({ time: '', max_capacity: '' });
+  const [selectedDates, setSelectedDates] = useState<string[]>([]);
+  const [substituteForm, setSubstituteForm] = useState({ instructor_id: '', reason: '' });
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [rosterDate, setRosterDate] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    const from = new Date();
+    from.setDate(from.getDate() - SESSION_DAYS_BACK);
+    const to = new Date();
+    to.setDate(to.getDate() + SESSION_WEEKS_AHEAD * 7);
+    try {
+      setIsLoadingSessions(true);
+      setSessions(await getClassOccurrences(gymClass.id, from.toISOString().split('T')[0], to.toISOString().split('T')[0]));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load class sessions');
+    } finally {
+      setIsLoadingSessions(false);
+    }
+  };
+
+  React.useEffect(() => {
+    loadSessions();
+  }, [gymClass.id]);
+
+  const formatSessionDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
+  const startEditing = (session: ClassOccurrence) => {
+    setEditingDate(session.occurrence_date);
+    setOverrideForm({
+      time: session.time !== gymClass.time ? session.time : '',
+      max_capacity: session.max_capacity !== gymClass.max_capacity ? String(session.max_capacity) : ''
+    });
+  };
+
+  const handleSaveOverride = async (date: string) => {
+    try {
+      await updateOccurrence(gymClass.id, date, {
+        time: overrideForm.time || null,
+        max_capacity: overrideForm.max_capacity ? parseInt(overrideForm.max_capacity) : null
+      });
+      toast.success('Class session updated');
+      setEditingDate(null);
+      await loadSessions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update class session');
+    }
+  };
+
+  const handleCancelSession = async (date: string) => {
+    try {
+      const message = await cancelOccurrence(gymClass.id, date, cancelReason || undefined);
+      toast.success(message);
+      setCancelReason('');
+      await loadSessions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel class session');
+    }
+  };
+
+  const handleRestoreSession = async (date: string) => {
+    try {
+      await restoreOccurrence(gymClass.id, date);
+      toast.success('Class session reinstated');
+      await loadSessions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reinstate class session');
+    }
+  };
+
+  const toggleSelectedDate = (date: string, checked: boolean) => {
+    setSelectedDates(prev => checked ? [...prev, date] : prev.filter(d => d !== date));
+  };
+
+  const handleAssignSubstitute = async () => {
+    if (!substituteForm.instructor_id) {
+      toast.error('Please choose a substitute instructor');
+      return;
+    }
+
+    try {
+      setIsAssigning(true);
+      const message = await assignSubstitute(
+        gymClass.id,
+        selectedDates,
+        parseInt(substituteForm.instructor_id),
+        substituteForm.reason || undefined
+      );
+      toast.success(message);
+      setSelectedDates([]);
+      setSubstituteForm({ instructor_id: '', reason: '' });
+      await loadSessions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign substitute');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleRemoveSubstitute = async (date: string) => {
+    try {
+      await removeSubstitute(gymClass.id, date);
+      toast.success(`${gymClass.instructor} is back on ${formatSessionDate(date)}`);
+      await loadSessions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove substitute');
+    }
+  };
+
+  // Booked counts may have changed while marking attendance
+  const handleCloseRoster = () => {
+    setRosterDate(null);
+    loadSessions();
+  };
+
+  if (isLoadingSessions) {
+    return <div className="text-center py-8 text-muted-foreground">Loading sessions...</div>;
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No sessions scheduled in the next {SESSION_WEEKS_AHEAD} weeks
+      </div>
+    );
+  }
+
+  // Substitutes can only be arranged for sessions that are still to come
+  const canSubstitute = (session: ClassOccurrence) => !session.is_cancelled && !hasSessionStarted(session);
+
+  return (
+    <>
+    {selectedDates.length > 0 && (
+      <div className="mb-4 flex flex-col gap-3 rounded-lg border bg-muted/40 p-3 md:flex-row md:items-end">
+        <div className="space-y-1">
+          <Label htmlFor="substitute_instructor">Substitute for {selectedDates.length} session(s)</Label>
+          <Select
+            value={substituteForm.instructor_id}
+            onValueChange={(value: string) => setSubstituteForm(prev => ({ ...prev, instructor_id: value }))}
+          >
+            <SelectTrigger id="substitute_instructor" className="w-48">
+              <SelectValue placeholder="Choose an instructor" />
+            </SelectTrigger>
+            <SelectContent>
+              {activeInstructors
+                .filter(instructor => instructor.id !== gymClass.instructor_id)
+                .map(instructor => (
+                  <SelectItem key={instructor.id} value={String(instructor.id)}>
+                    {instructor.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="substitute_reason">Reason (for payroll records)</Label>
+          <Input
+            id="substitute_reason"
+            value={substituteForm.reason}
+            onChange={(e) => setSubstituteForm(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder={`e.g. ${gymClass.instructor} off sick`}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleAssignSubstitute} disabled={isAssigning}>
+            <UserCog className="h-4 w-4 mr-1" />
+            {isAssigning ? 'Assigning...' : 'Assign Substitute'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setSelectedDates([])}>
+            Clear
+          </Button>
+        </div>
+      </div>
+    )}
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-8" />
+          <TableHead>Date</TableHead>
+          <TableHead>Time</TableHead>
+          <TableHead>Instructor</TableHead>
+          <TableHead>Booked</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sessions.map(session => {
+          const isEditing = editingDate === session.occurrence_date;
+
+          return (
+            <TableRow key={session.occurrence_date} className={session.is_cancelled ? 'opacity-60' : ''}>
+              <TableCell>
+                {canSubstitute(session) && (
+                  <Checkbox
+                    checked={selectedDates.includes(session.occurrence_date)}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => toggleSelectedDate(session.occurrence_date, checked === true)}
+                    aria-label={`Select ${formatSessionDate(session.occurrence_date)}`}
+                  />
+                )}
+              </TableCell>
+              <TableCell>{formatSessionDate(session.occurrence_date)}</TableCell>
+              <TableCell>
+                {isEditing ? (
+                  <Input
+                    type="time"
+                    value={overrideForm.time}
+                    placeholder={gymClass.time}
+                    onChange={(e) => setOverrideForm(prev => ({ ...prev, time: e.target.value }))}
+                    className="w-28"
+                  />
+                ) : (
+                  <span className={session.time !== gymClass.time ? 'text-orange-600' : ''}>{session.time}</span>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center gap-1">
+                  <span className={session.instructor !== gymClass.instructor ? 'text-orange-600' : ''}>{session.instructor}</span>
+                  {session.is_substitute && (
+                    <>
+                      <Badge variant="secondary">Substitute</Badge>
+                      {canSubstitute(session) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => handleRemoveSubstitute(session.occurrence_date)}
+                          aria-label="Remove substitute"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell>
+                {isEditing ? (
+                  <Input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={overrideForm.max_capacity}
+                    placeholder={String(gymClass.max_capacity)}
+                    onChange={(e) => setOverrideForm(prev => ({ ...prev, max_capacity: e.target.value }))}
+                    className="w-20"
+                  />
+                ) : (
+                  <span className={session.max_capacity !== gymClass.max_capacity ? 'text-orange-600' : ''}>
+                    {session.booked_count} / {session.max_capacity}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell>
+                {session.is_cancelled ? (
+                  <div className="space-y-1">
+                    <Badge variant="destructive">Cancelled</Badge>
+                    {session.cancellation_reason && (
+                      <div className="text-xs text-muted-foreground">{session.cancellation_reason}</div>
+                    )}
+                  </div>
+                ) : session.has_override ? (
+                  <Badge variant="secondary">Changed</Badge>
+                ) : (
+                  <Badge variant="outline">Scheduled</Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  {isEditing ? (
+                    <>
+                      <Button size="sm" onClick={() => handleSaveOverride(session.occurrence_date)}>
+                        Save
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setEditingDate(null)}>
+                        Cancel
+                      </Button>
+                    </>
+                  ) : session.is_cancelled ? (
+                    <Button variant="outline" size="sm" onClick={() => handleRestoreSession(session.occurrence_date)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Reinstate
+                    </Button>
+                  ) : hasSessionStarted(session) ? (
+                    <Button variant="outline" size="sm" onClick={() => setRosterDate(session.occurrence_date)}>
+                      <ClipboardCheck className="h-4 w-4 mr-1" />
+                      Roster
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => startEditing(session)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog onOpenChange={(open) => !open && setCancelReason('')}>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Cancel Session</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Cancel {gymClass.name} on {formatSessionDate(session.occurrence_date)}?
+                              {session.booked_count > 0 && ` ${session.booked_count} booked member(s) will be cancelled and refunded their concession.`}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <div className="space-y-2">
+                            <Label htmlFor="cancel_reason">Reason (shown to members)</Label>
+                            <Textarea
+                              id="cancel_reason"
+                              value={cancelReason}
+                              onChange={(e) => setCancelReason(e.target.value)}
+                              placeholder="e.g. Public holiday"
+                              rows={2}
+                            />
+                          </div>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep Session</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleCancelSession(session.occurrence_date)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Cancel Session
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+
+    <Dialog open={!!rosterDate} onOpenChange={(open) => !open && handleCloseRoster()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Roster - {gymClass.name}</DialogTitle>
+          <DialogDescription>
+            {rosterDate && formatSessionDate(rosterDate)}: mark each member attended or no-show
+          </DialogDescription>
+        </DialogHeader>
+        {rosterDate && (
+          <ClassRoster classId={gymClass.id} date={rosterDate} />
+        )}
+      </DialogContent>
+    </Dialog>
+    </>
+  );
+};
+
+// Admin list of class types (Yoga, HIIT...) with a form to add or edit one
+const ClassTypeManager: React.FC = () => {
+  const { classTypes, createClassType, updateClassType, deactivateClassType } = useClass();
+  const [editingType, setEditingType] = useState<ClassType | null>(null);
+  const [typeForm, setTypeForm] = useState<ClassTypeForm>(EMPTY_CLASS_TYPE_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (classType: ClassType | null) => {
+    setEditingType(classType);
+    setTypeForm(classType ? {
+      name: classType.name,
+      color: classType.color,
+      icon: classType.icon,
+      is_active: classType.is_active
+    } : EMPTY_CLASS_TYPE_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!typeForm.name.trim()) {
+      toast.error('Please enter the class type\'s name');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = { ...typeForm, name: typeForm.name.trim() };
+
+      if (editingType) {
+        await updateClassType(editingType.id, input);
+        toast.success('Class type updated');
+      } else {
+        await createClassType(input);
+        toast.success('Class type added');
+      }
+      startEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save class type');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetire = async (classType: ClassType) => {
+    if (!window.confirm(`Retire ${classType.name}? It can't be chosen for new classes.`)) {
+      return;
+    }
+
+    try {
+      const message = await deactivateClassType(classType.id);
+      if (classType.class_count > 0) {
+        toast.warning(message);
+      } else {
+        toast.success(message);
+      }
+      if (editingType?.id === classType.id) {
+        startEditing(null);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retire class type');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {classTypes.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No class types yet</div>
+        ) : (
+          classTypes.map(classType => (
+            <div key={classType.id} className="flex items-center justify-between rounded-lg border p-3">
+              <div className="flex items-center gap-3">
+                <ClassTypeBadge name={classType.name} color={classType.color} icon={classType.icon} />
+                <span className="text-sm text-muted-foreground">
+                  {classType.class_count} class{classType.class_count === 1 ? '' : 'es'}
+                </span>
+                {!classType.is_active && <Badge variant="secondary">Retired</Badge>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => startEditing(classType)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                {classType.is_active && (
+                  <Button variant="outline" size="sm" onClick={() => handleRetire(classType)} title="Retire class type">
+                    <Ban className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+        <h4 className="font-medium">{editingType ? `Edit ${editingType.name}` : 'Add Class Type'}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="class-type-name">Name *</Label>
+            <Input
+              id="class-type-name"
+              value={typeForm.name}
+              onChange={(e) => setTypeForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g., Pilates"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="class-type-color">Colour</Label>
+            <Input
+              id="class-type-color"
+              type="color"
+              value={typeForm.color}
+              onChange={(e) => setTypeForm(prev => ({ ...prev, color: e.target.value }))}
+              className="w-20 p-1"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Icon</Label>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(CLASS_TYPE_ICONS).map(([name, Icon]) => (
+              <Button
+                key={name}
+                type="button"
+                variant={typeForm.icon === name ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTypeForm(prev => ({ ...prev, icon: name }))}
+                title={name}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {editingType && (
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="class-type-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Retired types can't be chosen for new classes</p>
+            </div>
+            <Switch
+              id="class-type-active"
+              checked={typeForm.is_active}
+              onCheckedChange={(checked: boolean) => setTypeForm(prev => ({ ...prev, is_active: checked }))}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          {typeForm.name.trim() ? (
+            <ClassTypeBadge name={typeForm.name.trim()} color={typeForm.color} icon={typeForm.icon} />
+          ) : <span />}
+          <div className="flex gap-2">
+            {editingType && (
+              <Button type="button" variant="outline" onClick={() => startEditing(null)}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingType ? 'Save Changes' : 'Add Type'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
 export const ClassManagement: React.FC = () => {
-  const { classes, isLoading, error, createClass, updateClass, deleteClass, clearError } = useClass();
+  const { classes, conflicts, classTypes, isLoading, error, createClass, updateClass, deleteClass, clearError } = useClass();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'published' | 'draft' | 'scheduled'>('all');
-  const [categoryFilter, setCategoryFilter] = useState<'all' | 'morning' | 'afternoon'>('all');
+  const [timeOfDayFilter, setTimeOfDayFilter] = useState<'all' | TimeOfDay>('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [isTypesDialogOpen, setIsTypesDialogOpen] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingClass, setEditingClass] = useState<GymClass | null>(null);
+  const [sessionsClass, setSessionsClass] = useState<GymClass | null>(null);
 
   // Clear error when component mounts
   React.useEffect(() => {
@@ -464,20 +1129,30 @@ export const ClassManagement: React.FC = () => {
     const matchesSearch = gymClass.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          gymClass.instructor.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || gymClass.status === statusFilter;
-    const matchesCategory = categoryFilter === 'all' || gymClass.category === categoryFilter;
+    const matchesTimeOfDay = timeOfDayFilter === 'all' || gymClass.category === timeOfDayFilter;
+    const matchesType = typeFilter === 'all' || String(gymClass.class_type_id ?? 'none') === typeFilter;
     
-    return matchesSearch && matchesStatus && matchesCategory;
+    return matchesSearch && matchesStatus && matchesTimeOfDay && matchesType;
   });
 
+  // Double bookings don't block saving, but the admin is told straight away
+  const warnAboutConflicts = (classConflicts: ScheduleConflict[]) => {
+    if (classConflicts.length > 0) {
+      toast.warning(`Schedule clash: ${classConflicts.map(describeConflict).join('; ')}`);
+    }
+  };
+
   const handleCreate = async (data: ClassFormData) => {
-    await createClass(data);
+    const classConflicts = await createClass(data);
     setIsCreateDialogOpen(false);
+    warnAboutConflicts(classConflicts);
   };
 
   const handleUpdate = async (data: ClassFormData) => {
     if (editingClass) {
-      await updateClass(editingClass.id, data);
+      const classConflicts = await updateClass(editingClass.id, data);
       setEditingClass(null);
+      warnAboutConflicts(classConflicts);
     }
   };
 
@@ -565,28 +1240,57 @@ export const ClassManagement: React.FC = () => {
           </p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add New Class
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Create New Class</DialogTitle>
-              <DialogDescription>
-                Add a new fitness class to your schedule. You can save it as a draft, publish it immediately, or schedule it for later.
-              </DialogDescription>
-            </DialogHeader>
-            <ClassForm
-              onSubmit={handleCreate}
-              onCancel={() => setIsCreateDialogOpen(false)}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsTypesDialogOpen(true)}>
+            <Tags className="h-4 w-4 mr-2" />
+            Class Types
+          </Button>
+
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add New Class
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create New Class</DialogTitle>
+                <DialogDescription>
+                  Add a new fitness class to your schedule. You can save it as a draft, publish it immediately, or schedule it for later.
+                </DialogDescription>
+              </DialogHeader>
+              <ClassForm
+                onSubmit={handleCreate}
+                onCancel={() => setIsCreateDialogOpen(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      {/* Double-booked rooms and instructors */}
+      {conflicts.length > 0 && (
+        <Card className="border-amber-200 bg-amber-50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-amber-800">
+              <AlertTriangle className="h-5 w-5" />
+              Schedule Conflicts ({conflicts.length})
+            </CardTitle>
+            <CardDescription>
+              These classes overlap in the same room or with the same instructor. Move one of them or change its time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm text-amber-800">
+            {conflicts.map(conflict => (
+              <div key={`${conflict.type}-${conflict.class_id}-${conflict.other_class_id}`}>
+                <span className="font-medium">{conflict.class_name}</span> ({conflict.class_time}): {describeConflict(conflict)}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -596,7 +1300,7 @@ export const ClassManagement: React.FC = () => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="space-y-2">
               <Label htmlFor="search">Search Classes</Label>
               <div className="relative">
@@ -627,15 +1331,32 @@ export const ClassManagement: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="category-filter">Category</Label>
-              <Select value={categoryFilter} onValueChange={(value: typeof categoryFilter) => setCategoryFilter(value)}>
-                <SelectTrigger>
+              <Label htmlFor="time-of-day-filter">Time of Day</Label>
+              <Select value={timeOfDayFilter} onValueChange={(value: typeof timeOfDayFilter) => setTimeOfDayFilter(value)}>
+                <SelectTrigger id="time-of-day-filter">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
+                  <SelectItem value="all">Any Time</SelectItem>
                   <SelectItem value="morning">Morning</SelectItem>
                   <SelectItem value="afternoon">Afternoon</SelectItem>
+                  <SelectItem value="evening">Evening</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="type-filter">Class Type</Label>
+              <Select value={typeFilter} onValueChange={(value: string) => setTypeFilter(value)}>
+                <SelectTrigger id="type-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {classTypes.map(classType => (
+                    <SelectItem key={classType.id} value={String(classType.id)}>{classType.name}</SelectItem>
+                  ))}
+                  <SelectItem value="none">No type</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -660,12 +1381,12 @@ export const ClassManagement: React.FC = () => {
               <Calendar className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
               <h3>No classes found</h3>
               <p className="text-muted-foreground mb-4">
-                {searchTerm || statusFilter !== 'all' || categoryFilter !== 'all'
+                {searchTerm || statusFilter !== 'all' || timeOfDayFilter !== 'all' || typeFilter !== 'all'
                   ? 'Try adjusting your filters'
                   : 'Get started by creating your first class'
                 }
               </p>
-              {!searchTerm && statusFilter === 'all' && categoryFilter === 'all' && (
+              {!searchTerm && statusFilter === 'all' && timeOfDayFilter === 'all' && typeFilter === 'all' && (
                 <Button onClick={() => setIsCreateDialogOpen(true)}>
                   <Plus className="h-4 w-4 mr-2" />
                   Add Your First Class
@@ -688,11 +1409,38 @@ export const ClassManagement: React.FC = () => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredClasses.map((gymClass) => (
+                  {filteredClasses.map((gymClass) => {
+                    const classConflicts = conflicts.filter(c => c.class_id === gymClass.id || c.other_class_id === gymClass.id);
+                    return (
                     <TableRow key={gymClass.id}>
                       <TableCell>
                         <div>
-                          <div>{gymClass.name}</div>
+                          <div className="flex items-center gap-2">
+                            {gymClass.name}
+                            {gymClass.class_type_name && (
+                              <ClassTypeBadge
+                                name={gymClass.class_type_name}
+                                color={gymClass.class_type_color || '#6366f1'}
+                                icon={gymClass.class_type_icon || 'activity'}
+                              />
+                            )}
+                            {classConflicts.length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="border-amber-300 text-amber-700"
+                                title={`Double-booked with ${classConflicts.map(c => c.class_id === gymClass.id ? c.other_class_name : c.class_name).join(', ')}`}
+                              >
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                Clash
+                              </Badge>
+                            )}
+                          </div>
+                          {gymClass.room_name && (
+                            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                              <MapPin className="h-3 w-3" />
+                              {gymClass.location_name} · {gymClass.room_name}
+                            </div>
+                          )}
                           <div className="text-sm text-muted-foreground">{gymClass.description}</div>
                         </div>
                       </TableCell>
@@ -716,14 +1464,12 @@ export const ClassManagement: React.FC = () => {
                       <TableCell>
                         <div className="space-y-1">
                           <div className="flex items-center gap-2">
-                            <DollarSign className="h-4 w-4" />
-                            <span>{formatPrice(gymClass.price)}</span>
+                            <Ticket className="h-4 w-4" />
+                            <span>{gymClass.concession_cost ?? 1} concession{(gymClass.concession_cost ?? 1) === 1 ? '' : 's'}</span>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {gymClass.drop_in_price ? `Drop-in: ${formatPrice(gymClass.drop_in_price)}` : 'No drop-ins'}
                           </div>
-                          {gymClass.drop_in_price !== undefined && gymClass.drop_in_price !== gymClass.price && (
-                            <div className="text-sm text-muted-foreground">
-                              Drop-in: {formatPrice(gymClass.drop_in_price)}
-                            </div>
-                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -748,6 +1494,15 @@ export const ClassManagement: React.FC = () => {
                             <Edit className="h-4 w-4" />
                           </Button>
                           
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSessionsClass(gymClass)}
+                            title="Manage dated sessions"
+                          >
+                            <CalendarDays className="h-4 w-4" />
+                          </Button>
+                          
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button variant="outline" size="sm">
@@ -780,7 +1535,8 @@ export const ClassManagement: React.FC = () => {
                         </div>
                       </TableCell>
                     </TableRow>
-                  ))}
+                    );
+                  })}
                 </TableBody>
               </Table>
             </div>
@@ -807,6 +1563,32 @@ export const ClassManagement: React.FC = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Class Types Dialog */}
+      <Dialog open={isTypesDialogOpen} onOpenChange={setIsTypesDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Class Types</DialogTitle>
+            <DialogDescription>
+              Types like Yoga or HIIT give classes a colour and icon on the timetable, and members can filter by them.
+            </DialogDescription>
+          </DialogHeader>
+          <ClassTypeManager />
+        </DialogContent>
+      </Dialog>
+
+      {/* Sessions Dialog */}
+      <Dialog open={!!sessionsClass} onOpenChange={(open) => !open && setSessionsClass(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sessions: {sessionsClass?.name}</DialogTitle>
+            <DialogDescription>
+              Upcoming dates generated from the weekly schedule. Change the time or capacity for a single date, tick dates to assign a substitute instructor, or cancel a date - booked members are notified of substitutes and refunded for cancellations automatically.
+            </DialogDescription>
+          </DialogHeader>
+          {sessionsClass && <ClassSessions gymClass={sessionsClass} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
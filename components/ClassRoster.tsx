@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { toast } from 'sonner';
+import { CheckCircle, UserX, Undo2, ClipboardCheck } from 'lucide-react';
+import { useBooking } from '../contexts/BookingContext';
+
+interface RosterEntry {
+  id: number;
+  user_id: number;
+  status: 'confirmed' | 'completed' | 'no-show';
+  booking_time: string;
+  no_show_penalty: number;
+  attendance_marked_at: string | null;
+  user_name: string;
+  user_email: string;
+  marked_by_name: string | null;
+}
+
+export const ClassRoster: React.FC<{ classId: number; date: string }> = ({ classId, date }) => {
+  const { getClassRoster, markAttendance, completeClass } = useBooking();
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [isLoadingRoster, setIsLoadingRoster] = useState(true);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  const loadRoster = async () => {
+    setIsLoadingRoster(true);
+    setRoster(await getClassRoster(classId, date));
+    setIsLoadingRoster(false);
+  };
+
+  useEffect(() => {
+    loadRoster();
+  }, [classId, date]);
+
+  const handleMark = async (entry: RosterEntry, attendance: 'attended' | 'no-show' | 'pending') => {
+    try {
+      setUpdatingId(entry.id);
+      const message = await markAttendance(entry.id, attendance);
+      toast.success(message);
+      await loadRoster();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to mark attendance');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleMarkRemaining = async () => {
+    try {
+      await completeClass(classId, date);
+      toast.success('Remaining members marked as attended');
+      await loadRoster();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to mark attendance');
+    }
+  };
+
+  if (isLoadingRoster) {
+    return <div className="text-center py-8 text-muted-foreground">Loading roster...</div>;
+  }
+
+  if (roster.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">Nobody was booked into this session</div>;
+  }
+
+  const unmarkedCount = roster.filter(entry => entry.status === 'confirmed').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          {roster.filter(entry => entry.status === 'completed').length} attended
+          {' · '}
+          {roster.filter(entry => entry.status === 'no-show').length} no-show
+          {' · '}
+          {unmarkedCount} not marked
+        </div>
+        {unmarkedCount > 0 && (
+          <Button size="sm" variant="outline" onClick={handleMarkRemaining} className="flex items-center gap-2">
+            <ClipboardCheck className="h-4 w-4" />
+            Mark remaining attended
+          </Button>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Member</TableHead>
+            <TableHead>Attendance</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {roster.map(entry => (
+            <TableRow key={entry.id}>
+              <TableCell>
+                <div>{entry.user_name}</div>
+                <div className="text-xs text-muted-foreground">{entry.user_email}</div>
+              </TableCell>
+              <TableCell>
+                {entry.status === 'completed' ? (
+                  <Badge variant="default">Attended</Badge>
+                ) : entry.status === 'no-show' ? (
+                  <div className="space-y-1">
+                    <Badge variant="destructive">No-show</Badge>
+                    {entry.no_show_penalty > 0 && (
+                      <div className="text-xs text-muted-foreground">-{entry.no_show_penalty} concession penalty</div>
+                    )}
+                  </div>
+                ) : (
+                  <Badge variant="outline">Not marked</Badge>
+                )}
+                {entry.marked_by_name && (
+                  <div className="text-xs text-muted-foreground">by {entry.marked_by_name}</div>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  {entry.status !== 'completed' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={updatingId === entry.id}
+                      onClick={() => handleMark(entry, 'attended')}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Attended
+                    </Button>
+                  )}
+                  {entry.status !== 'no-show' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={updatingId === entry.id}
+                      onClick={() => handleMark(entry, 'no-show')}
+                    >
+                      <UserX className="h-4 w-4 mr-1" />
+                      No-show
+                    </Button>
+                  )}
+                  {entry.status !== 'confirmed' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={updatingId === entry.id}
+                      onClick={() => handleMark(entry, 'pending')}
+                    >
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
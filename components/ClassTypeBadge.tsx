@@ -0,0 +1,31 @@
+import React from 'react';
+import { Badge } from './ui/badge';
+import { Activity, Bike, Dumbbell, Flame, Flower2, Footprints, Heart, Sparkles, Swords, Timer, Waves, Zap } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+// Icons admins can pick for a class type, keyed by the name stored with the type
+export const CLASS_TYPE_ICONS: Record<string, LucideIcon> = {
+  'activity': Activity,
+  'dumbbell': Dumbbell,
+  'flame': Flame,
+  'flower-2': Flower2,
+  'heart': Heart,
+  'bike': Bike,
+  'waves': Waves,
+  'zap': Zap,
+  'timer': Timer,
+  'footprints': Footprints,
+  'sparkles': Sparkles,
+  'swords': Swords
+};
+
+export const ClassTypeBadge: React.FC<{ name: string; color: string; icon: string }> = ({ name, color, icon }) => {
+  const Icon = CLASS_TYPE_ICONS[icon] || Activity;
+
+  return (
+    <Badge variant="outline" style={{ color, borderColor: color, backgroundColor: `${color}1a` }}>
+      <Icon className="mr-1 h-3 w-3" />
+      {name}
+    </Badge>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Hourglass, Package } from 'lucide-react';
+import { api } from '../services/api';
+
+interface ConcessionPack {
+  id: number;
+  name: string;
+  concessions: number;
+  remaining: number;
+  expires_on: string | null; // Last day the concessions can be used
+  expiring_soon: boolean;
+  created_at: string;
+}
+
+// Helper function to format a pack's last day
+const formatExpiry = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric'
+});
+
+// The packs holding a member's concessions, in the order they're used (soonest to expire first)
+export const ConcessionPacks: React.FC<{ userId: number }> = ({ userId }) => {
+  const [packs, setPacks] = useState<ConcessionPack[]>([]);
+  const [expiringSoon, setExpiringSoon] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPacks();
+  }, [userId]);
+
+  const loadPacks = async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.getConcessionPacks(userId);
+      setPacks(response.packs || []);
+      setExpiringSoon(response.expiring_soon || 0);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load concession packs:', error);
+      setError('Failed to load concession packs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive py-4">{error}</p>;
+  }
+
+  if (packs.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Package className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        <h3>No concessions left in any pack</h3>
+      </div>
+    );
+  }
+
+  const nextExpiry = packs.find(pack => pack.expiring_soon);
+
+  return (
+    <div className="space-y-4">
+      {nextExpiry && nextExpiry.expires_on && (
+        <Alert className="border-orange-200 bg-orange-50">
+          <Hourglass className="h-4 w-4 text-orange-600" />
+          <AlertDescription className="text-orange-800">
+            {expiringSoon} concession{expiringSoon > 1 ? 's' : ''} expire{expiringSoon === 1 ? 's' : ''} in the next two weeks, starting {formatExpiry(nextExpiry.expires_on)}.
+            Concessions that expire soonest are used first when you book.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        {packs.map(pack => (
+          <div key={pack.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div>
+              <p className="font-medium">{pack.name}</p>
+              <p className="text-sm text-muted-foreground">
+                {pack.expires_on ? `Use by ${formatExpiry(pack.expires_on)}` : 'No expiry'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {pack.expiring_soon && <Badge variant="destructive">Expiring soon</Badge>}
+              <span className="font-medium">{pack.remaining} of {pack.concessions} left</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
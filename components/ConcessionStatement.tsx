@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Receipt } from 'lucide-react';
+import { api } from '../services/api';
+
+interface ConcessionLedgerEntry {
+  id: number;
+  user_id: number;
+  change: number;
+  balance_after: number;
+  reason: 'opening_balance' | 'booking' | 'refund' | 'late_cancel_penalty' | 'no_show_penalty' | 'purchase' | 'admin_adjustment' | 'expiry' | 'voucher';
+  actor_id: number | null;
+  actor_name?: string | null;
+  booking_id: number | null;
+  class_name?: string | null;
+  booking_date?: string | null;
+  payment_id: number | null;
+  payment_reference?: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+const REASON_LABELS: Record<ConcessionLedgerEntry['reason'], string> = {
+  opening_balance: 'Opening balance',
+  booking: 'Class booking',
+  refund: 'Refund',
+  late_cancel_penalty: 'Late cancellation',
+  no_show_penalty: 'No-show penalty',
+  purchase: 'Purchase',
+  admin_adjustment: 'Adjustment',
+  expiry: 'Expired',
+  voucher: 'Promo code'
+};
+
+// Describe what an entry relates to (class session or payment) for the statement
+const describeEntry = (entry: ConcessionLedgerEntry) => {
+  const parts: string[] = [];
+  if (entry.class_name) {
+    parts.push(entry.booking_date
+      ? `${entry.class_name} on ${new Date(entry.booking_date).toLocaleDateString()}`
+      : entry.class_name);
+  }
+  if (entry.payment_reference) {
+    parts.push(`Payment ${entry.payment_reference}`);
+  }
+  if (entry.note) {
+    parts.push(entry.note);
+  }
+  return parts.join(' - ');
+};
+
+// Statement of every change to a member's concession balance, newest first
+export const ConcessionStatement: React.FC<{ userId: number; showActor?: boolean }> = ({ userId, showActor = false }) => {
+  const [entries, setEntries] = useState<ConcessionLedgerEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatement();
+  }, [userId]);
+
+  const loadStatement = async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.getConcessionLedger(userId);
+      setEntries(response.entries || []);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load concession statement:', error);
+      setError('Failed to load concession statement');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive py-4">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Receipt className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        <h3>No concession activity yet</h3>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Details</TableHead>
+          {showActor && <TableHead>By</TableHead>}
+          <TableHead className="text-right">Change</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id}>
+            <TableCell className="whitespace-nowrap">
+              {new Date(entry.created_at).toLocaleDateString()}
+            </TableCell>
+            <TableCell>
+              <Badge variant={entry.reason === 'late_cancel_penalty' || entry.reason === 'no_show_penalty' || entry.reason === 'expiry' ? 'destructive' : 'outline'}>
+                {REASON_LABELS[entry.reason] || entry.reason}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-sm text-muted-foreground">
+              {describeEntry(entry) || '-'}
+            </TableCell>
+            {showActor && (
+              <TableCell className="text-sm">{entry.actor_name || 'System'}</TableCell>
+            )}
+            <TableCell className={`text-right ${entry.change > 0 ? 'text-green-600' : entry.change < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {entry.change > 0 ? `+${entry.change}` : entry.change}
+            </TableCell>
+            <TableCell className="text-right">{entry.balance_after}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
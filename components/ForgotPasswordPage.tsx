@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { Loader2, MailCheck } from 'lucide-react';
+import { api } from '../services/api';
+
+export const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sentMessage, setSentMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!email) {
+      setError('Please enter your email');
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      const response = await api.forgotPassword(email);
+      setSentMessage(response.message);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unable to send a reset link. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">Forgot your password?</CardTitle>
+          <CardDescription className="text-center">
+            Enter the email you signed up with and we'll send you a link to choose a new one
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentMessage ? (
+            <Alert className="border-green-200 bg-green-50 text-green-800">
+              <MailCheck className="h-4 w-4" />
+              <AlertDescription>
+                {sentMessage} The link expires in an hour, so check your inbox (and spam folder) soon.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="john@example.com"
+                  autoComplete="email"
+                  disabled={isSending}
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isSending}>
+                {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Reset Link
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link to="/login" className="text-sm text-primary hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Calendar, Clock, Home, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useBooking } from '../contexts/BookingContext';
+
+interface HouseholdBooking {
+  id: number;
+  user_id: number;
+  user_name: string;
+  class_name: string;
+  class_time: string;
+  booking_date: string;
+  status: 'confirmed' | 'cancelled' | 'completed' | 'late-cancelled' | 'no-show';
+  used_concession: boolean;
+  concessions_charged?: number;
+}
+
+// Helper function to format a booking date
+const formatDay = (date: string) => new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString(undefined, {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short'
+});
+
+// For a household payer: the dependants who book against their balance and their upcoming bookings, which
+// the payer can cancel. Nothing is shown to anyone else.
+export const HouseholdBookings: React.FC = () => {
+  const { user } = useAuth();
+  const { cancelBooking } = useBooking();
+  const [bookings, setBookings] = useState<HouseholdBooking[]>([]);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+  const household = user?.household?.role === 'payer' ? user.household : null;
+
+  useEffect(() => {
+    if (household) {
+      loadBookings();
+    }
+  }, [household?.id, household?.concessions]);
+
+  const loadBookings = async () => {
+    try {
+      const response = await api.getHouseholdBookings();
+      setBookings(response.bookings || []);
+    } catch (error) {
+      console.error('Failed to load household bookings:', error);
+    }
+  };
+
+  const handleCancel = async (booking: HouseholdBooking) => {
+    if (!window.confirm(`Cancel ${booking.user_name}'s booking for ${booking.class_name} on ${formatDay(booking.booking_date)}?`)) {
+      return;
+    }
+
+    try {
+      setCancellingId(booking.id);
+      const result = await cancelBooking(booking.id);
+      if (result.isLateCancellation) {
+        toast.error(result.message);
+      } else {
+        toast.success(result.message);
+      }
+      await loadBookings();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel booking');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (!household) return null;
+
+  const today = new Date().toISOString().split('T')[0];
+  const upcoming = bookings
+    .filter(b => b.status === 'confirmed' && b.booking_date.split('T')[0] >= today)
+    .sort((a, b) => a.booking_date.localeCompare(b.booking_date) || a.class_time.localeCompare(b.class_time));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Home className="h-5 w-5" />
+          {household.name}
+        </CardTitle>
+        <CardDescription>
+          {household.members.length > 0
+            ? `${household.members.map(m => m.name).join(', ')} book${household.members.length === 1 ? 's' : ''} against your concession balance`
+            : 'No one else books against your balance yet - ask the gym to link a family member'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {upcoming.length > 0 ? (
+          <div className="space-y-3">
+            {upcoming.map(booking => (
+              <div key={booking.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {booking.class_name}
+                    <span className="text-muted-foreground font-normal"> · {booking.user_name}</span>
+                  </p>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      {formatDay(booking.booking_date)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {booking.class_time}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {booking.used_concession && (
+                    <Badge variant="outline" className="text-xs">
+                      {(booking.concessions_charged ?? 1) === 1 ? '1 concession' : `${booking.concessions_charged} concessions`}
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCancel(booking)}
+                    disabled={cancellingId === booking.id}
+                    title="Cancel booking"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-4">
+            No upcoming household bookings
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Home, Edit, Trash2, UserMinus, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../services/api';
+
+interface HouseholdMember {
+  id: number;
+  name: string;
+  email: string;
+  concessions: number;
+}
+
+interface Household {
+  id: number;
+  name: string;
+  payer_id: number;
+  payer_name: string;
+  payer_email: string;
+  concessions: number; // The payer's balance, shared with the dependants
+  members: HouseholdMember[];
+}
+
+interface Member {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  concessions: number;
+}
+
+// Put a member in a household: start one with them as the payer, link them to one as a dependant, and
+// manage the household they're already in (admin view in the user dialog)
+export const HouseholdManager: React.FC<{ userId: number; userName: string }> = ({ userId, userName }) => {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [newHouseholdName, setNewHouseholdName] = useState('');
+  const [joinHouseholdId, setJoinHouseholdId] = useState('');
+  const [dependantId, setDependantId] = useState('');
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadHouseholds();
+  }, [userId]);
+
+  const loadHouseholds = async () => {
+    try {
+      setIsLoading(true);
+      const [householdResponse, allResponse, userResponse] = await Promise.all([
+        api.getUserHousehold(userId),
+        api.getHouseholds(),
+        api.getUsers()
+      ]);
+      setHousehold(householdResponse.household || null);
+      setHouseholds(allResponse.households || []);
+      setMembers(userResponse.users || []);
+    } catch (error) {
+      console.error('Failed to load households:', error);
+      toast.error('Failed to load households');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Run a household change, then reload so every list reflects it
+  const save = async (change: () => Promise<{ message: string }>, fallback: string) => {
+    try {
+      setIsSaving(true);
+      const response = await change();
+      toast.success(response.message);
+      await loadHouseholds();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallback);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newHouseholdName.trim().length < 2) {
+      toast.error('Please enter a household name');
+      return;
+    }
+    if (await save(() => api.createHousehold(newHouseholdName.trim(), userId), 'Failed to create household')) {
+      setNewHouseholdName('');
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinHouseholdId) {
+      toast.error('Please choose a household');
+      return;
+    }
+    if (await save(() => api.addHouseholdMember(parseInt(joinHouseholdId), userId), 'Failed to link member')) {
+      setJoinHouseholdId('');
+    }
+  };
+
+  const handleAddDependant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!household || !dependantId) {
+      toast.error('Please choose a member');
+      return;
+    }
+    if (await save(() => api.addHouseholdMember(household.id, parseInt(dependantId)), 'Failed to link member')) {
+      setDependantId('');
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!household || editingName === null) return;
+    if (editingName.trim().length < 2) {
+      toast.error('Please enter a household name');
+      return;
+    }
+    if (await save(() => api.renameHousehold(household.id, editingName.trim()), 'Failed to rename household')) {
+      setEditingName(null);
+    }
+  };
+
+  const handleRemoveMember = async (member: HouseholdMember) => {
+    if (!household) return;
+    if (!window.confirm(`Unlink ${member.name} from ${household.name}? They'll book against their own balance again.`)) {
+      return;
+    }
+    await save(() => api.removeHouseholdMember(household.id, member.id), 'Failed to unlink member');
+  };
+
+  const handleDelete = async () => {
+    if (!household) return;
+    if (!window.confirm(`Remove ${household.name}? Everyone in it goes back to booking against their own balance.`)) {
+      return;
+    }
+    await save(() => api.deleteHousehold(household.id), 'Failed to remove household');
+  };
+
+  if (isLoading && !household && households.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // Members who could join: active member accounts that aren't in a household already
+  const linkedIds = new Set(households.flatMap(h => [h.payer_id, ...h.members.map(m => m.id)]));
+  const availableDependants = members.filter(m => m.role === 'user' && !linkedIds.has(m.id));
+
+  if (household) {
+    const isPayer = household.payer_id === userId;
+
+    return (
+      <div className="space-y-4">
+        <div className="rounded-lg border p-4 space-y-3 text-sm">
+          <div className="flex items-start justify-between gap-4">
+            {editingName !== null ? (
+              <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                <Input value={editingName} onChange={(e) => setEditingName(e.target.value)} className="h-8" />
+                <Button type="submit" size="sm" disabled={isSaving}>Save</Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => setEditingName(null)}>Cancel</Button>
+              </form>
+            ) : (
+              <div>
+                <p className="font-medium flex items-center gap-2">
+                  <Home className="h-4 w-4" />
+                  {household.name}
+                  <Badge variant={isPayer ? 'default' : 'secondary'}>{isPayer ? 'Payer' : 'Dependant'}</Badge>
+                </p>
+                <p className="text-muted-foreground">
+                  Paid by {household.payer_name} ({household.payer_email}) · shared balance {household.concessions}
+                </p>
+              </div>
+            )}
+            {editingName === null && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setEditingName(household.name)} title="Rename household">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDelete} disabled={isSaving} title="Remove household">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Dependants (book against the shared balance)</p>
+            {household.members.length === 0 ? (
+              <p className="text-muted-foreground">No dependants yet</p>
+            ) : (
+              household.members.map(member => (
+                <div key={member.id} className="flex items-center justify-between rounded bg-muted px-3 py-2">
+                  <span>
+                    {member.name}
+                    {member.id === userId && ' (this member)'}
+                    <span className="text-muted-foreground"> · {member.email}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveMember(member)}
+                    disabled={isSaving}
+                    title="Unlink from household"
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {isPayer && (
+          <form onSubmit={handleAddDependant} className="space-y-3 rounded-lg border p-4">
+            <h4 className="font-medium">Add a Dependant</h4>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={dependantId} onValueChange={(value: string) => setDependantId(value)}>
+                <SelectTrigger className="sm:flex-1">
+                  <SelectValue placeholder="Choose a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableDependants.filter(m => m.id !== userId).map(member => (
+                    <SelectItem key={member.id} value={String(member.id)}>
+                      {member.name} ({member.email}) · balance {member.concessions}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={isSaving || !dependantId}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A dependant's own balance must be zero before they're linked; adjust it from their Overview tab first.
+            </p>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  const joinableHouseholds = households.filter(h => h.payer_id !== userId);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {userName} isn't in a household and books against their own balance.
+      </p>
+
+      <form onSubmit={handleCreate} className="space-y-3 rounded-lg border p-4">
+        <h4 className="font-medium">Start a Household</h4>
+        <p className="text-xs text-muted-foreground">
+          {userName} becomes the payer; family members linked later book against their balance.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="household-name">Household name *</Label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              id="household-name"
+              value={newHouseholdName}
+              onChange={(e) => setNewHouseholdName(e.target.value)}
+              placeholder="e.g., Smith family"
+              className="sm:flex-1"
+            />
+            <Button type="submit" disabled={isSaving}>
+              <Home className="mr-2 h-4 w-4" />
+              Create
+            </Button>
+          </div>
+        </div>
+      </form>
+
+      {joinableHouseholds.length > 0 && (
+        <form onSubmit={handleJoin} className="space-y-3 rounded-lg border p-4">
+          <h4 className="font-medium">Link to a Household</h4>
+          <p className="text-xs text-muted-foreground">
+            {userName} books against the payer's balance from then on. Their own balance must be zero first.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={joinHouseholdId} onValueChange={(value: string) => setJoinHouseholdId(value)}>
+              <SelectTrigger className="sm:flex-1">
+                <SelectValue placeholder="Choose a household" />
+              </SelectTrigger>
+              <SelectContent>
+                {joinableHouseholds.map(h => (
+                  <SelectItem key={h.id} value={String(h.id)}>
+                    {h.name} (paid by {h.payer_name})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isSaving || !joinHouseholdId}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Link
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
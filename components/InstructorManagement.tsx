@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Switch } from './ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { toast } from 'sonner';
+import { Plus, Edit, UserX, KeyRound, GraduationCap, History } from 'lucide-react';
+import { useInstructors } from '../contexts/InstructorContext';
+
+interface Instructor {
+  id: number;
+  name: string;
+  email: string | null;
+  bio: string | null;
+  is_active: boolean;
+  has_login: boolean;
+  login_email: string | null;
+  class_count: number;
+}
+
+interface InstructorForm {
+  name: string;
+  email: string;
+  bio: string;
+  is_active: boolean;
+  password: string;
+}
+
+interface SubstitutionRecord {
+  id: number;
+  occurrence_date: string;
+  class_name: string;
+  class_time: string;
+  duration: string;
+  is_cancelled: boolean;
+  role: 'covered' | 'covered_by';
+  other_instructor_name: string | null;
+  reason: string | null;
+}
+
+const EMPTY_FORM: InstructorForm = { name: '', email: '', bio: '', is_active: true, password: '' };
+
+// Helper function to turn a YYYY-MM month into its first and last dates
+const getMonthRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+// Helper function to format a session date for display
+const formatSessionDate = (date: string) => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+export const InstructorManagement: React.FC = () => {
+  const { instructors, isLoading, refreshInstructors, createInstructor, updateInstructor, deactivateInstructor, getSubstitutionHistory } = useInstructors();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingInstructor, setEditingInstructor] = useState<Instructor | null>(null);
+  const [form, setForm] = useState<InstructorForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyInstructor, setHistoryInstructor] = useState<Instructor | null>(null);
+  const [historyMonth, setHistoryMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [history, setHistory] = useState<{ substitutions: SubstitutionRecord[]; summary: { covered_count: number; covered_by_others_count: number } } | null>(null);
+
+  // Class counts change as classes are assigned, so reload when the tab opens
+  useEffect(() => {
+    refreshInstructors();
+  }, []);
+
+  const openDialog = (instructor: Instructor | null) => {
+    setEditingInstructor(instructor);
+    setForm(instructor ? {
+      name: instructor.name,
+      email: instructor.email || '',
+      bio: instructor.bio || '',
+      is_active: instructor.is_active,
+      password: ''
+    } : EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.name.trim().length < 2) {
+      toast.error('Please enter the instructor\'s name');
+      return;
+    }
+
+    if ((form.password || editingInstructor?.has_login) && !form.email.trim()) {
+      toast.error('An email address is needed for the portal login');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = {
+        name: form.name.trim(),
+        email: form.email.trim(),
+        bio: form.bio.trim(),
+        is_active: form.is_active,
+        password: form.password || undefined
+      };
+
+      if (editingInstructor) {
+        await updateInstructor(editingInstructor.id, input);
+        toast.success('Instructor updated');
+      } else {
+        await createInstructor(input);
+        toast.success('Instructor added');
+      }
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save instructor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Payroll runs monthly, so the history is shown a month at a time
+  useEffect(() => {
+    if (!historyInstructor || !historyMonth) return;
+
+    const { from, to } = getMonthRange(historyMonth);
+    setHistory(null);
+    getSubstitutionHistory(historyInstructor.id, from, to)
+      .then(setHistory)
+      .catch((error: Error) => toast.error(error.message));
+  }, [historyInstructor, historyMonth]);
+
+  const handleDeactivate = async (instructor: Instructor) => {
+    if (!window.confirm(`Deactivate ${instructor.name}? They will no longer be able to sign in to the instructor portal.`)) {
+      return;
+    }
+
+    try {
+      const message = await deactivateInstructor(instructor.id);
+      if (instructor.class_count > 0) {
+        toast.warning(message);
+      } else {
+        toast.success(message);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to deactivate instructor');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GraduationCap className="h-5 w-5" />
+              Instructors
+            </CardTitle>
+            <CardDescription>
+              Teaching staff available when scheduling classes. Instructors with a portal login can see their rosters and mark attendance.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Instructor
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && instructors.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Loading instructors...</div>
+          ) : instructors.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No instructors yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Instructor</TableHead>
+                  <TableHead>Classes</TableHead>
+                  <TableHead>Portal login</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {instructors.map(instructor => (
+                  <TableRow key={instructor.id}>
+                    <TableCell>
+                      <div className="font-medium">{instructor.name}</div>
+                      {instructor.email && <div className="text-xs text-muted-foreground">{instructor.email}</div>}
+                      {instructor.bio && <div className="text-xs text-muted-foreground line-clamp-1">{instructor.bio}</div>}
+                    </TableCell>
+                    <TableCell>{instructor.class_count}</TableCell>
+                    <TableCell>
+                      {instructor.has_login ? (
+                        <Badge variant="secondary" className="flex w-fit items-center gap-1">
+                          <KeyRound className="h-3 w-3" />
+                          {instructor.login_email}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={instructor.is_active ? 'default' : 'outline'}>
+                        {instructor.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openDialog(instructor)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setHistoryInstructor(instructor)} aria-label="Substitution history">
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {instructor.is_active && (
+                          <Button size="sm" variant="outline" onClick={() => handleDeactivate(instructor)}>
+                            <UserX className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingInstructor ? 'Edit Instructor' : 'Add Instructor'}</DialogTitle>
+            <DialogDescription>
+              Renaming an instructor updates every class they teach.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="instructor-name">Name *</Label>
+              <Input
+                id="instructor-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Sarah Johnson"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="instructor-email">Email</Label>
+              <Input
+                id="instructor-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="instructor@gym.com"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="instructor-bio">Bio</Label>
+              <Textarea
+                id="instructor-bio"
+                value={form.bio}
+                onChange={(e) => setForm(prev => ({ ...prev, bio: e.target.value }))}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="instructor-password">
+                {editingInstructor?.has_login ? 'Reset portal password' : 'Portal password'}
+              </Label>
+              <Input
+                id="instructor-password"
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                placeholder={editingInstructor?.has_login ? 'Leave blank to keep the current password' : 'Leave blank for no portal login'}
+              />
+              <p className="text-xs text-muted-foreground">
+                The instructor signs in with their email and this password.
+              </p>
+            </div>
+
+            {editingInstructor && (
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="instructor-active">Active</Label>
+                  <p className="text-xs text-muted-foreground">Inactive instructors can't be assigned to classes or sign in</p>
+                </div>
+                <Switch
+                  id="instructor-active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked: boolean) => setForm(prev => ({ ...prev, is_active: checked }))}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : editingInstructor ? 'Save Changes' : 'Add Instructor'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyInstructor} onOpenChange={(open: boolean) => !open && setHistoryInstructor(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Substitutions - {historyInstructor?.name}</DialogTitle>
+            <DialogDescription>
+              Sessions they covered for other instructors, and sessions others covered for them. Cancelled sessions aren't counted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-end justify-between gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="history-month">Month</Label>
+                <Input
+                  id="history-month"
+                  type="month"
+                  value={historyMonth}
+                  onChange={(e) => setHistoryMonth(e.target.value)}
+                  className="w-44"
+                />
+              </div>
+              {history && (
+                <div className="flex gap-2">
+                  <Badge variant="default">{history.summary.covered_count} covered</Badge>
+                  <Badge variant="outline">{history.summary.covered_by_others_count} covered by others</Badge>
+                </div>
+              )}
+            </div>
+
+            {!history ? (
+              <div className="text-center py-8 text-muted-foreground">Loading history...</div>
+            ) : history.substitutions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No substitutions this month</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Substitution</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.substitutions.map(record => (
+                    <TableRow key={record.id} className={record.is_cancelled ? 'opacity-60' : ''}>
+                      <TableCell>{formatSessionDate(record.occurrence_date)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{record.class_name}</div>
+                        <div className="text-xs text-muted-foreground">{record.class_time.slice(0, 5)} · {record.duration}</div>
+                      </TableCell>
+                      <TableCell>
+                        {record.role === 'covered'
+                          ? `Covered for ${record.other_instructor_name || 'unassigned class'}`
+                          : `Covered by ${record.other_instructor_name || 'unknown instructor'}`}
+                        {record.is_cancelled && <Badge variant="destructive" className="ml-2">Cancelled</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{record.reason || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Clock, Users, CheckCircle, UserX, ClipboardList, GraduationCap } from 'lucide-react';
+import { useInstructors } from '../contexts/InstructorContext';
+import { ClassRoster } from './ClassRoster';
+
+interface TeachingSession {
+  class_id: number;
+  occurrence_date: string;
+  name: string;
+  time: string;
+  duration: string;
+  max_capacity: number;
+  is_cancelled: boolean;
+  cancellation_reason: string | null;
+  booked_count: number;
+  attended_count: number;
+  no_show_count: number;
+  has_started: boolean;
+  is_substitute: boolean;
+}
+
+// Booking numbers change as members book and cancel, so the schedule refreshes while the page is open
+const SCHEDULE_REFRESH_MS = 60 * 1000;
+
+// Helper function to format a session date for display
+const formatSessionDate = (date: string) => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+};
+
+export const InstructorPortal: React.FC = () => {
+  const { getMySchedule } = useInstructors();
+  const [sessions, setSessions] = useState<TeachingSession[]>([]);
+  const [instructorName, setInstructorName] = useState('');
+  const [isLoadingSchedule, setIsLoadingSchedule] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [rosterSession, setRosterSession] = useState<TeachingSession | null>(null);
+
+  const loadSchedule = async () => {
+    try {
+      const schedule = await getMySchedule();
+      setSessions(schedule.sessions);
+      setInstructorName(schedule.instructor.name);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load your schedule');
+    } finally {
+      setIsLoadingSchedule(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedule();
+    const timer = setInterval(loadSchedule, SCHEDULE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleCloseRoster = () => {
+    setRosterSession(null);
+    loadSchedule();
+  };
+
+  // Past sessions stay listed while members are still waiting to be marked
+  const needsMarking = sessions.filter(s =>
+    s.has_started && !s.is_cancelled && s.booked_count > s.attended_count + s.no_show_count
+  );
+  const upcoming = sessions.filter(s => !s.has_started);
+
+  const renderSession = (session: TeachingSession) => {
+    const unmarkedCount = session.booked_count - session.attended_count - session.no_show_count;
+
+    return (
+      <div
+        key={`${session.class_id}-${session.occurrence_date}`}
+        className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between"
+      >
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <h3 className="font-medium">{session.name}</h3>
+            {session.is_substitute && <Badge variant="secondary">Covering</Badge>}
+            {session.is_cancelled && <Badge variant="destructive">Cancelled</Badge>}
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Clock className="h-4 w-4" />
+              {formatSessionDate(session.occurrence_date)} · {session.time} · {session.duration}
+            </span>
+            <span className="flex items-center gap-1">
+              <Users className="h-4 w-4" />
+              {session.booked_count} / {session.max_capacity} booked
+            </span>
+            {session.has_started && (
+              <>
+                <span className="flex items-center gap-1">
+                  <CheckCircle className="h-4 w-4" />
+                  {session.attended_count} attended
+                </span>
+                <span className="flex items-center gap-1">
+                  <UserX className="h-4 w-4" />
+                  {session.no_show_count} no-show
+                </span>
+              </>
+            )}
+          </div>
+          {session.is_cancelled && session.cancellation_reason && (
+            <p className="text-xs text-muted-foreground">{session.cancellation_reason}</p>
+          )}
+        </div>
+        {!session.is_cancelled && (
+          <Button
+            size="sm"
+            variant={session.has_started && unmarkedCount > 0 ? 'default' : 'outline'}
+            onClick={() => setRosterSession(session)}
+            className="flex items-center gap-2"
+          >
+            <ClipboardList className="h-4 w-4" />
+            {session.has_started && unmarkedCount > 0 ? `Mark attendance (${unmarkedCount})` : 'View roster'}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="flex items-center gap-2 text-3xl font-bold">
+          <GraduationCap className="h-8 w-8" />
+          My Classes
+        </h1>
+        <p className="text-muted-foreground">
+          {instructorName ? `Welcome, ${instructorName}. ` : ''}Check who's booked in and mark attendance after each class.
+        </p>
+      </div>
+
+      {isLoadingSchedule ? (
+        <div className="text-center py-8 text-muted-foreground">Loading your schedule...</div>
+      ) : loadError ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">{loadError}</CardContent>
+        </Card>
+      ) : (
+        <>
+          {needsMarking.length > 0 && (
+            <Card className="border-orange-200">
+              <CardHeader>
+                <CardTitle>Attendance to mark</CardTitle>
+                <CardDescription>Classes from the last week with members not yet marked attended or no-show</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {needsMarking.map(renderSession)}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming Classes</CardTitle>
+              <CardDescription>Your sessions for the next two weeks with live booking numbers, including any you're covering</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {upcoming.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No upcoming classes</div>
+              ) : (
+                upcoming.map(renderSession)
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={!!rosterSession} onOpenChange={(open: boolean) => !open && handleCloseRoster()}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Roster - {rosterSession?.name}</DialogTitle>
+            <DialogDescription>
+              {rosterSession && formatSessionDate(rosterSession.occurrence_date)}
+              {rosterSession?.has_started
+                ? ': mark each member attended or no-show'
+                : ': attendance can be marked once the class starts'}
+            </DialogDescription>
+          </DialogHeader>
+          {rosterSession && (
+            <ClassRoster classId={rosterSession.class_id} date={rosterSession.occurrence_date} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Clock, User, Users, Camera, CheckCircle, AlertTriangle, QrCode } from 'lucide-react';
+import { useBooking } from '../contexts/BookingContext';
+
+interface KioskSession {
+  class_id: number;
+  name: string;
+  time: string;
+  duration: string;
+  instructor: string;
+  booked_count: number;
+  checked_in_count: number;
+  check_in_open: boolean;
+}
+
+// Minimal typing for the browser's built-in QR reader (Chrome/Android tablets)
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined => {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+};
+
+// How long a check-in result stays on screen before the kiosk resets for the next member
+const RESULT_DISPLAY_MS = 5000;
+const SESSIONS_REFRESH_MS = 60 * 1000;
+
+export const KioskPage: React.FC = () => {
+  const { getKioskSessions, checkIn } = useBooking();
+  const [sessions, setSessions] = useState<KioskSession[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
+  const [entry, setEntry] = useState('');
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await getKioskSessions());
+    } catch (error) {
+      console.error("Failed to load today's classes:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+    const timer = setInterval(loadSessions, SESSIONS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Clear the result and get ready for the next member (the entry field refocuses when it remounts)
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(() => {
+      setResult(null);
+      setSelectedClassId(null);
+    }, RESULT_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [result]);
+
+  const submitCheckIn = async (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+
+    try {
+      setIsCheckingIn(true);
+      // Emails are typed; anything else came from a QR code (camera or handheld scanner)
+      const response = await checkIn(
+        trimmed.includes('@')
+          ? { email: trimmed, class_id: selectedClassId ?? undefined }
+          : { token: trimmed }
+      );
+      setResult({ success: true, message: response.message });
+      await loadSessions();
+    } catch (error) {
+      setResult({ success: false, message: error instanceof Error ? error.message : 'Failed to check in' });
+    } finally {
+      setIsCheckingIn(false);
+      setEntry('');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitCheckIn(entry);
+  };
+
+  // Read QR codes from the tablet camera while scanning is on
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!isScanning || !BarcodeDetector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play();
+        }
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          const codes = await detector.detect(videoRef.current);
+          if (codes.length > 0) {
+            setIsScanning(false);
+            submitCheckIn(codes[0].rawValue);
+          }
+        }, 500);
+      })
+      .catch(error => {
+        console.error('Camera unavailable:', error);
+        setIsScanning(false);
+        setResult({ success: false, message: 'Camera unavailable - please type your email instead' });
+      });
+
+    return () => {
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning]);
+
+  return (
+    <div className="min-h-screen bg-background p-6 md:p-10">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-primary">Welcome to FlexBook</h1>
+          <p className="text-lg text-muted-foreground">
+            {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+          </p>
+        </div>
+
+        {/* Check-in */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-2xl">
+              <QrCode className="h-6 w-6" />
+              Check in
+            </CardTitle>
+            <CardDescription className="text-base">
+              Scan the QR code from your dashboard, or choose your class below and enter your email
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result ? (
+              <div className={`flex items-center gap-3 rounded-lg p-6 text-lg ${
+                result.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              }`}>
+                {result.success ? <CheckCircle className="h-8 w-8" /> : <AlertTriangle className="h-8 w-8" />}
+                <span>{result.message}</span>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="flex flex-col gap-3 md:flex-row">
+                <Input
+                  id="kiosk-entry"
+                  autoFocus
+                  value={entry}
+                  onChange={(e) => setEntry(e.target.value)}
+                  placeholder={selectedClassId
+                    ? `Email for ${sessions.find(s => s.class_id === selectedClassId)?.name || 'your class'}`
+                    : 'Scan your code or enter your email'}
+                  className="h-14 text-lg"
+                  disabled={isCheckingIn}
+                />
+                <Button type="submit" className="h-14 px-8 text-lg" disabled={isCheckingIn || !entry.trim()}>
+                  {isCheckingIn ? 'Checking in...' : 'Check in'}
+                </Button>
+                {getBarcodeDetector() && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-14 px-6 text-lg"
+                    onClick={() => setIsScanning(prev => !prev)}
+                  >
+                    <Camera className="h-5 w-5 mr-2" />
+                    {isScanning ? 'Stop' : 'Scan'}
+                  </Button>
+                )}
+              </form>
+            )}
+            {isScanning && (
+              <video ref={videoRef} className="mx-auto w-full max-w-md rounded-lg" muted playsInline />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Today's classes */}
+        <div className="space-y-4">
+          <h2 className="text-2xl font-semibold">Today's Classes</h2>
+          {sessions.length === 0 ? (
+            <p className="text-muted-foreground">No classes scheduled today</p>
+          ) : (
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {sessions.map(session => (
+                <button
+                  key={session.class_id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedClassId(prev => (prev === session.class_id ? null : session.class_id));
+                    document.getElementById('kiosk-entry')?.focus();
+                  }}
+                  className={`rounded-lg border p-4 text-left transition-colors ${
+                    selectedClassId === session.class_id ? 'border-primary bg-primary/10' : 'hover:bg-accent'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <h3 className="text-lg font-medium">{session.name}</h3>
+                    {session.check_in_open ? (
+                      <Badge variant="default">Check-in open</Badge>
+                    ) : (
+                      <Badge variant="outline">Opens soon</Badge>
+                    )}
+                  </div>
+                  <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4" />
+                      {session.time} · {session.duration}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      {session.instructor}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Users className="h-4 w-4" />
+                      {session.checked_in_count} / {session.booked_count} checked in
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="text-center">
+          <Link to="/admin" className="text-xs text-muted-foreground hover:underline">
+            Exit kiosk
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
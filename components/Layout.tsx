@@ -2,7 +2,8 @@ import React from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from './ui/button';
-import { LogOut, Home, Calendar, Settings, User, BarChart3 } from 'lucide-react';
+import { LogOut, Home, Calendar, Settings, User, BarChart3, QrCode, GraduationCap, MonitorSmartphone } from 'lucide-react';
+import { ChangePasswordDialog } from './ChangePasswordDialog';
 
 export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, logout } = useAuth();
@@ -14,7 +15,16 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     navigate('/login');
   };
 
-  const isAuthPage = location.pathname === '/login' || location.pathname === '/register';
+  const isAuthPage = ['/login', '/register', '/forgot-password', '/reset-password', '/verify-email'].includes(location.pathname);
+
+  // The kiosk runs full screen on the front desk tablet
+  if (location.pathname === '/kiosk') {
+    return (
+      <div className="min-h-screen bg-background">
+        {children}
+      </div>
+    );
+  }
 
   if (isAuthPage) {
     return (
@@ -43,6 +53,15 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     return null;
   }
 
+  // Instructors only have the instructor portal
+  if (user?.role === 'instructor' && ['/dashboard', '/book', '/admin'].includes(location.pathname)) {
+    navigate('/instructor', { replace: true });
+    return null;
+  }
+
+  const homePath = user?.role === 'admin' ? '/admin' : user?.role === 'instructor' ? '/instructor' : '/dashboard';
+  const roleLabel = user?.role === 'admin' ? 'Administrator' : user?.role === 'instructor' ? 'Instructor' : 'Member';
+
   return (
     <div className="min-h-screen flex flex-col bg-background">
       {/* Header */}
@@ -51,7 +70,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
           <div className="flex justify-between items-center">
             <div className="flex items-center space-x-6">
               <Link 
-                to={user?.role === 'admin' ? '/admin' : '/dashboard'} 
+                to={homePath} 
                 className="text-2xl font-bold text-primary"
               >
                 FlexBook
@@ -100,6 +119,30 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                       <span>Admin Dashboard</span>
                     </Link>
                   )}
+
+                  {user.role === 'instructor' && (
+                    <Link
+                      to="/instructor"
+                      className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm transition-colors ${
+                        location.pathname === '/instructor'
+                          ? 'bg-primary text-primary-foreground'
+                          : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+                      }`}
+                    >
+                      <GraduationCap className="h-4 w-4" />
+                      <span>My Classes</span>
+                    </Link>
+                  )}
+
+                  {user.role === 'admin' && (
+                    <Link
+                      to="/kiosk"
+                      className="flex items-center space-x-2 px-3 py-2 rounded-md text-sm transition-colors text-muted-foreground hover:text-foreground hover:bg-accent"
+                    >
+                      <QrCode className="h-4 w-4" />
+                      <span>Check-in Kiosk</span>
+                    </Link>
+                  )}
                 </nav>
               )}
             </div>
@@ -109,9 +152,16 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                 <div className="hidden sm:flex items-center space-x-2">
                   <User className="h-4 w-4 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">
-                    {user.name} ({user.role === 'admin' ? 'Administrator' : 'Member'})
+                    {user.name} ({roleLabel})
                   </span>
                 </div>
+                <Button asChild variant="outline" size="sm" className="flex items-center space-x-2" title="Devices & sessions">
+                  <Link to="/sessions">
+                    <MonitorSmartphone className="h-4 w-4" />
+                    <span className="hidden sm:inline">Devices</span>
+                  </Link>
+                </Button>
+                <ChangePasswordDialog />
                 <Button
                   variant="outline"
                   size="sm"
@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { toast } from 'sonner';
+import { Plus, Edit, Ban, MapPin, DoorOpen } from 'lucide-react';
+import { useLocations } from '../contexts/LocationContext';
+
+interface Room {
+  id: number;
+  location_id: number;
+  name: string;
+  capacity: number;
+  is_active: boolean;
+  class_count: number;
+}
+
+interface Location {
+  id: number;
+  name: string;
+  address: string | null;
+  is_active: boolean;
+  rooms: Room[];
+}
+
+interface LocationForm {
+  name: string;
+  address: string;
+  is_active: boolean;
+}
+
+interface RoomForm {
+  name: string;
+  capacity: string;
+  is_active: boolean;
+}
+
+const EMPTY_LOCATION_FORM: LocationForm = { name: '', address: '', is_active: true };
+const EMPTY_ROOM_FORM: RoomForm = { name: '', capacity: '20', is_active: true };
+
+export const LocationManagement: React.FC = () => {
+  const {
+    locations,
+    isLoading,
+    refreshLocations,
+    createLocation,
+    updateLocation,
+    deactivateLocation,
+    createRoom,
+    updateRoom,
+    deactivateRoom
+  } = useLocations();
+  const [isLocationDialogOpen, setIsLocationDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [locationForm, setLocationForm] = useState<LocationForm>(EMPTY_LOCATION_FORM);
+  // The location a room is being added to, or the room being edited
+  const [roomLocation, setRoomLocation] = useState<Location | null>(null);
+  const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+  const [roomForm, setRoomForm] = useState<RoomForm>(EMPTY_ROOM_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Class counts change as classes are assigned, so reload when the tab opens
+  useEffect(() => {
+    refreshLocations();
+  }, []);
+
+  const openLocationDialog = (location: Location | null) => {
+    setEditingLocation(location);
+    setLocationForm(location ? {
+      name: location.name,
+      address: location.address || '',
+      is_active: location.is_active
+    } : EMPTY_LOCATION_FORM);
+    setIsLocationDialogOpen(true);
+  };
+
+  const openRoomDialog = (location: Location, room: Room | null) => {
+    setRoomLocation(location);
+    setEditingRoom(room);
+    setRoomForm(room ? {
+      name: room.name,
+      capacity: String(room.capacity),
+      is_active: room.is_active
+    } : EMPTY_ROOM_FORM);
+  };
+
+  const handleLocationSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (locationForm.name.trim().length < 2) {
+      toast.error('Please enter the location\'s name');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = {
+        name: locationForm.name.trim(),
+        address: locationForm.address.trim(),
+        is_active: locationForm.is_active
+      };
+
+      if (editingLocation) {
+        await updateLocation(editingLocation.id, input);
+        toast.success('Location updated');
+      } else {
+        await createLocation(input);
+        toast.success('Location added');
+      }
+      setIsLocationDialogOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save location');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoomSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!roomLocation) return;
+
+    const capacity = parseInt(roomForm.capacity);
+    if (!roomForm.name.trim()) {
+      toast.error('Please enter the room\'s name');
+      return;
+    }
+    if (!capacity || capacity < 1 || capacity > 500) {
+      toast.error('Capacity must be between 1 and 500');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = { name: roomForm.name.trim(), capacity, is_active: roomForm.is_active };
+
+      if (editingRoom) {
+        await updateRoom(editingRoom.id, input);
+        toast.success('Room updated');
+      } else {
+        await createRoom(roomLocation.id, input);
+        toast.success('Room added');
+      }
+      setRoomLocation(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save room');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeactivateLocation = async (location: Location) => {
+    if (!window.confirm(`Close ${location.name}? Members won't be able to pick it as their home location.`)) {
+      return;
+    }
+
+    try {
+      const message = await deactivateLocation(location.id);
+      if (location.rooms.some(room => room.class_count > 0)) {
+        toast.warning(message);
+      } else {
+        toast.success(message);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close location');
+    }
+  };
+
+  const handleDeactivateRoom = async (room: Room) => {
+    if (!window.confirm(`Close ${room.name}? New classes can't be scheduled in it.`)) {
+      return;
+    }
+
+    try {
+      const message = await deactivateRoom(room.id);
+      if (room.class_count > 0) {
+        toast.warning(message);
+      } else {
+        toast.success(message);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close room');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Locations & Rooms
+            </CardTitle>
+            <CardDescription>
+              Each room has its own capacity. Classes are scheduled into a room, and members can filter the timetable by location.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openLocationDialog(null)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Location
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && locations.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Loading locations...</div>
+          ) : locations.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No locations yet</div>
+          ) : (
+            <div className="space-y-6">
+              {locations.map(location => (
+                <div key={location.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium">{location.name}</h3>
+                        <Badge variant={location.is_active ? 'default' : 'outline'}>
+                          {location.is_active ? 'Open' : 'Closed'}
+                        </Badge>
+                      </div>
+                      {location.address && <p className="text-sm text-muted-foreground">{location.address}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" variant="outline" onClick={() => openRoomDialog(location, null)} className="flex items-center gap-2">
+                        <DoorOpen className="h-4 w-4" />
+                        Add Room
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openLocationDialog(location)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      {location.is_active && (
+                        <Button size="sm" variant="outline" onClick={() => handleDeactivateLocation(location)} aria-label="Close location">
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {location.rooms.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No rooms yet</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Room</TableHead>
+                          <TableHead>Capacity</TableHead>
+                          <TableHead>Classes</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {location.rooms.map(room => (
+                          <TableRow key={room.id}>
+                            <TableCell className="font-medium">{room.name}</TableCell>
+                            <TableCell>{room.capacity}</TableCell>
+                            <TableCell>{room.class_count}</TableCell>
+                            <TableCell>
+                              <Badge variant={room.is_active ? 'default' : 'outline'}>
+                                {room.is_active ? 'Open' : 'Closed'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Button size="sm" variant="outline" onClick={() => openRoomDialog(location, room)}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                {room.is_active && (
+                                  <Button size="sm" variant="outline" onClick={() => handleDeactivateRoom(room)} aria-label="Close room">
+                                    <Ban className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isLocationDialogOpen} onOpenChange={setIsLocationDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingLocation ? 'Edit Location' : 'Add Location'}</DialogTitle>
+            <DialogDescription>
+              Members see the location name on the timetable and can choose it as their home location.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleLocationSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Name *</Label>
+              <Input
+                id="location-name"
+                value={locationForm.name}
+                onChange={(e) => setLocationForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., FlexBook Central"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="location-address">Address</Label>
+              <Input
+                id="location-address"
+                value={locationForm.address}
+                onChange={(e) => setLocationForm(prev => ({ ...prev, address: e.target.value }))}
+              />
+            </div>
+
+            {editingLocation && (
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="location-active">Open</Label>
+                  <p className="text-xs text-muted-foreground">Classes can't be moved into a closed location's rooms</p>
+                </div>
+                <Switch
+                  id="location-active"
+                  checked={locationForm.is_active}
+                  onCheckedChange={(checked: boolean) => setLocationForm(prev => ({ ...prev, is_active: checked }))}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsLocationDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : editingLocation ? 'Save Changes' : 'Add Location'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!roomLocation} onOpenChange={(open: boolean) => !open && setRoomLocation(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRoom ? 'Edit Room' : `Add Room to ${roomLocation?.name}`}</DialogTitle>
+            <DialogDescription>
+              A class in this room can't take more members than the room holds.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRoomSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="room-name">Name *</Label>
+              <Input
+                id="room-name"
+                value={roomForm.name}
+                onChange={(e) => setRoomForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Studio 1"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="room-capacity">Capacity *</Label>
+              <Input
+                id="room-capacity"
+                type="number"
+                min="1"
+                max="500"
+                value={roomForm.capacity}
+                onChange={(e) => setRoomForm(prev => ({ ...prev, capacity: e.target.value }))}
+              />
+            </div>
+
+            {editingRoom && (
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="room-active">Open</Label>
+                  <p className="text-xs text-muted-foreground">Closed rooms can't be chosen for new classes</p>
+                </div>
+                <Switch
+                  id="room-active"
+                  checked={roomForm.is_active}
+                  onCheckedChange={(checked: boolean) => setRoomForm(prev => ({ ...prev, is_active: checked }))}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setRoomLocation(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : editingRoom ? 'Save Changes' : 'Add Room'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
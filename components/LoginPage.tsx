@@ -50,12 +50,17 @@ export const LoginPage: React.FC = () => {
     if (error) setError('');
   };
 
-  const fillDemoCredentials = (role: 'admin' | 'user') => {
+  const fillDemoCredentials = (role: 'admin' | 'user' | 'instructor') => {
     if (role === 'admin') {
       setFormData({
         email: 'admin@gym.com',
         password: 'admin123'
       });
+    } else if (role === 'instructor') {
+      setFormData({
+        email: 'instructor@gym.com',
+        password: 'instructor123'
+      });
     } else {
       setFormData({
         email: 'user@gym.com',
@@ -108,7 +113,12 @@ export const LoginPage: React.FC = () => {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
                 <div className="relative">
                   <Input
                     id="password"
@@ -153,7 +163,7 @@ export const LoginPage: React.FC = () => {
                   <p className="text-sm text-muted-foreground text-center">
                     Demo Accounts
                   </p>
-                  <div className="grid grid-cols-2 gap-3">
+                  <div className="grid grid-cols-3 gap-3">
                     <Button
                       type="button"
                       variant="outline"
@@ -172,9 +182,18 @@ export const LoginPage: React.FC = () => {
                     >
                       User Demo
                     </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fillDemoCredentials('instructor')}
+                      className="text-xs"
+                    >
+                      Instructor Demo
+                    </Button>
                   </div>
                   <p className="text-xs text-muted-foreground text-center">
-                    Admin: Full management access • User: Booking and account management
+                    Admin: Full management access • User: Booking and account management • Instructor: Rosters and attendance
                   </p>
                 </div>
               </>
@@ -0,0 +1,414 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Crown, Edit, Pause, Trash2, X, CalendarOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../services/api';
+import { describePlan, type MembershipPlanType } from '../services/memberships';
+
+interface MembershipPlan {
+  id: number;
+  name: string;
+  plan_type: MembershipPlanType;
+  classes_per_week: number | null;
+  is_active: boolean;
+}
+
+interface MembershipPause {
+  id: number;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+}
+
+interface Membership {
+  id: number;
+  plan_id: number;
+  plan_name: string;
+  plan_type: MembershipPlanType;
+  classes_per_week: number | null;
+  start_date: string;
+  end_date: string | null; // null rolls on until it is ended
+  status: 'upcoming' | 'active' | 'paused' | 'ended';
+  pauses: MembershipPause[];
+  created_by_name: string | null;
+}
+
+interface MembershipForm {
+  plan_id: string;
+  start_date: string;
+  end_date: string; // Blank rolls on until ended
+}
+
+interface PauseForm {
+  start_date: string;
+  end_date: string;
+  reason: string;
+}
+
+const STATUS_BADGES: Record<Membership['status'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  paused: { label: 'Paused', variant: 'secondary' },
+  upcoming: { label: 'Upcoming', variant: 'outline' },
+  ended: { label: 'Ended', variant: 'outline' }
+};
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+// Helper function to format a membership date
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric'
+});
+
+const EMPTY_PAUSE_FORM: PauseForm = { start_date: '', end_date: '', reason: '' };
+
+// Give a member a membership, change or end it, and pause it (admin view in the user dialog)
+export const MembershipManager: React.FC<{ userId: number }> = ({ userId }) => {
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [editingMembership, setEditingMembership] = useState<Membership | null>(null);
+  const [membershipForm, setMembershipForm] = useState<MembershipForm>({ plan_id: '', start_date: todayString(), end_date: '' });
+  const [pausingMembership, setPausingMembership] = useState<Membership | null>(null);
+  const [pauseForm, setPauseForm] = useState<PauseForm>(EMPTY_PAUSE_FORM);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadMemberships();
+  }, [userId]);
+
+  const loadMemberships = async () => {
+    try {
+      setIsLoading(true);
+      const [membershipResponse, planResponse] = await Promise.all([
+        api.getUserMemberships(userId),
+        api.getMembershipPlans()
+      ]);
+      setMemberships(membershipResponse.memberships || []);
+      setPlans(planResponse.plans || []);
+    } catch (error) {
+      console.error('Failed to load memberships:', error);
+      toast.error('Failed to load memberships');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startEditing = (membership: Membership | null) => {
+    setEditingMembership(membership);
+    setMembershipForm(membership ? {
+      plan_id: String(membership.plan_id),
+      start_date: membership.start_date,
+      end_date: membership.end_date || ''
+    } : { plan_id: '', start_date: todayString(), end_date: '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!membershipForm.plan_id) {
+      toast.error('Please choose a plan');
+      return;
+    }
+    if (!membershipForm.start_date) {
+      toast.error('Please choose a start date');
+      return;
+    }
+    if (membershipForm.end_date && membershipForm.end_date < membershipForm.start_date) {
+      toast.error('The membership must end on or after its start date');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = {
+        plan_id: parseInt(membershipForm.plan_id),
+        start_date: membershipForm.start_date,
+        end_date: membershipForm.end_date || null
+      };
+
+      if (editingMembership) {
+        await api.updateMembership(editingMembership.id, input);
+        toast.success('Membership updated');
+      } else {
+        await api.createMembership(userId, input);
+        toast.success('Membership added');
+      }
+      startEditing(null);
+      await loadMemberships();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save membership');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnd = async (membership: Membership) => {
+    if (!window.confirm(`End ${membership.plan_name} today? Bookings after today will use concessions.`)) {
+      return;
+    }
+
+    try {
+      const today = todayString();
+      await api.updateMembership(membership.id, {
+        plan_id: membership.plan_id,
+        start_date: membership.start_date,
+        end_date: membership.start_date > today ? membership.start_date : today
+      });
+      toast.success('Membership ended');
+      await loadMemberships();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to end membership');
+    }
+  };
+
+  const handleRemove = async (membership: Membership) => {
+    if (!window.confirm(`Remove ${membership.plan_name}? Only do this for a membership added by mistake.`)) {
+      return;
+    }
+
+    try {
+      await api.deleteMembership(membership.id);
+      toast.success('Membership removed');
+      if (editingMembership?.id === membership.id) {
+        startEditing(null);
+      }
+      await loadMemberships();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove membership');
+    }
+  };
+
+  const startPausing = (membership: Membership | null) => {
+    setPausingMembership(membership);
+    setPauseForm(membership ? { ...EMPTY_PAUSE_FORM, start_date: todayString() } : EMPTY_PAUSE_FORM);
+  };
+
+  const handlePause = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pausingMembership) return;
+
+    if (!pauseForm.start_date || !pauseForm.end_date) {
+      toast.error('Please choose the dates to pause');
+      return;
+    }
+    if (pauseForm.end_date < pauseForm.start_date) {
+      toast.error('The pause must end on or after its start date');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await api.pauseMembership(pausingMembership.id, {
+        start_date: pauseForm.start_date,
+        end_date: pauseForm.end_date,
+        reason: pauseForm.reason.trim() || undefined
+      });
+      toast.success(response.message);
+      startPausing(null);
+      await loadMemberships();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to pause membership');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemovePause = async (pause: MembershipPause) => {
+    if (!window.confirm(`Remove the pause from ${formatDay(pause.start_date)} to ${formatDay(pause.end_date)}?`)) {
+      return;
+    }
+
+    try {
+      await api.removeMembershipPause(pause.id);
+      toast.success('Pause removed');
+      await loadMemberships();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove pause');
+    }
+  };
+
+  // Retired plans can't be given out, but a membership can keep the plan it already has
+  const availablePlans = plans.filter(plan => plan.is_active || plan.id === editingMembership?.plan_id);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {memberships.length === 0 ? (
+          <div className="text-center py-6">
+            <Crown className="mx-auto h-10 w-10 text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground">No memberships - this user books with concessions</p>
+          </div>
+        ) : (
+          memberships.map(membership => (
+            <div key={membership.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm space-y-1">
+                  <p className="font-medium flex items-center gap-2">
+                    {membership.plan_name}
+                    <Badge variant={STATUS_BADGES[membership.status].variant}>{STATUS_BADGES[membership.status].label}</Badge>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {describePlan(membership)}
+                    {' · '}{formatDay(membership.start_date)} - {membership.end_date ? formatDay(membership.end_date) : 'ongoing'}
+                    {membership.created_by_name && ` · added by ${membership.created_by_name}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => startEditing(membership)} title="Edit membership">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  {membership.status !== 'ended' && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => startPausing(membership)} title="Pause membership">
+                        <Pause className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleEnd(membership)} title="End membership today">
+                        <CalendarOff className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => handleRemove(membership)} title="Remove membership">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {membership.pauses.length > 0 && (
+                <div className="space-y-1">
+                  {membership.pauses.map(pause => (
+                    <div key={pause.id} className="flex items-center justify-between rounded bg-muted px-2 py-1 text-xs">
+                      <span>
+                        Paused {formatDay(pause.start_date)} - {formatDay(pause.end_date)}
+                        {pause.reason && ` (${pause.reason})`}
+                      </span>
+                      <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleRemovePause(pause)} title="Remove pause">
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {pausingMembership?.id === membership.id && (
+                <form onSubmit={handlePause} className="space-y-3 rounded-lg border p-3">
+                  <div className="grid md:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="pause-start">Pause from *</Label>
+                      <Input
+                        id="pause-start"
+                        type="date"
+                        value={pauseForm.start_date}
+                        onChange={(e) => setPauseForm(prev => ({ ...prev, start_date: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="pause-end">Until *</Label>
+                      <Input
+                        id="pause-end"
+                        type="date"
+                        value={pauseForm.end_date}
+                        onChange={(e) => setPauseForm(prev => ({ ...prev, end_date: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="pause-reason">Reason</Label>
+                      <Input
+                        id="pause-reason"
+                        value={pauseForm.reason}
+                        onChange={(e) => setPauseForm(prev => ({ ...prev, reason: e.target.value }))}
+                        placeholder="e.g., Travelling"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    A membership with an end date is extended by the paused days. Bookings already made stay booked.
+                  </p>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => startPausing(null)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" size="sm" disabled={isSaving}>
+                      {isSaving ? 'Saving...' : 'Pause Membership'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+        <h4 className="font-medium">{editingMembership ? `Edit ${editingMembership.plan_name}` : 'Add Membership'}</h4>
+        {availablePlans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add a membership plan in Payment Settings first</p>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="membership-plan">Plan *</Label>
+              <Select
+                value={membershipForm.plan_id}
+                onValueChange={(value: string) => setMembershipForm(prev => ({ ...prev, plan_id: value }))}
+              >
+                <SelectTrigger id="membership-plan">
+                  <SelectValue placeholder="Choose a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availablePlans.map(plan => (
+                    <SelectItem key={plan.id} value={String(plan.id)}>
+                      {plan.name} ({describePlan(plan)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="membership-start">Starts *</Label>
+              <Input
+                id="membership-start"
+                type="date"
+                value={membershipForm.start_date}
+                onChange={(e) => setMembershipForm(prev => ({ ...prev, start_date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="membership-end">Ends</Label>
+              <Input
+                id="membership-end"
+                type="date"
+                value={membershipForm.end_date}
+                onChange={(e) => setMembershipForm(prev => ({ ...prev, end_date: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">Leave blank to roll on until ended</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {editingMembership && (
+            <Button type="button" variant="outline" onClick={() => startEditing(null)}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving || availablePlans.length === 0}>
+            {isSaving ? 'Saving...' : editingMembership ? 'Save Changes' : 'Add Membership'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
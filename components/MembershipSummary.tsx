@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Crown } from 'lucide-react';
+import { api } from '../services/api';
+import { describePlan, type MembershipPlanType } from '../services/memberships';
+
+interface MembershipPause {
+  id: number;
+  start_date: string;
+  end_date: string;
+}
+
+interface Membership {
+  id: number;
+  plan_name: string;
+  plan_type: MembershipPlanType;
+  classes_per_week: number | null;
+  start_date: string;
+  end_date: string | null; // null rolls on until it is ended
+  status: 'upcoming' | 'active' | 'paused' | 'ended';
+  pauses: MembershipPause[];
+  classes_used_this_week?: number;
+}
+
+// Helper function to format a membership date
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric'
+});
+
+// The member's current (or next) membership; nothing is shown to members who book with concessions only
+export const MembershipSummary: React.FC<{ userId: number }> = ({ userId }) => {
+  const [membership, setMembership] = useState<Membership | null>(null);
+
+  useEffect(() => {
+    loadMembership();
+  }, [userId]);
+
+  const loadMembership = async () => {
+    try {
+      const response = await api.getUserMemberships(userId);
+      const memberships: Membership[] = response.memberships || [];
+      const upcoming = memberships
+        .filter(m => m.status === 'upcoming')
+        .sort((a, b) => a.start_date.localeCompare(b.start_date))[0];
+      setMembership(response.current || upcoming || null);
+    } catch (error) {
+      console.error('Failed to load membership:', error);
+    }
+  };
+
+  if (!membership) return null;
+
+  const today = new Date().toISOString().split('T')[0];
+  const currentPause = membership.pauses.find(p => p.start_date <= today && p.end_date >= today);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crown className="h-5 w-5" />
+          Your Membership
+        </CardTitle>
+        <CardDescription>
+          Classes your membership covers are booked without using concessions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-medium">{membership.plan_name}</p>
+            <p className="text-sm text-muted-foreground">{describePlan(membership)}</p>
+          </div>
+          {membership.status === 'paused' && <Badge variant="secondary">Paused</Badge>}
+          {membership.status === 'upcoming' && <Badge variant="outline">Starts {formatDay(membership.start_date)}</Badge>}
+          {membership.status === 'active' && <Badge>Active</Badge>}
+        </div>
+
+        {membership.classes_used_this_week !== undefined && membership.classes_per_week && (
+          <p className="text-sm">
+            {membership.classes_used_this_week} of {membership.classes_per_week} classes used this week
+            {membership.classes_used_this_week >= membership.classes_per_week && ' - extra classes use concessions'}
+          </p>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          {currentPause
+            ? `Paused until ${formatDay(currentPause.end_date)}; bookings in the meantime use concessions.`
+            : membership.end_date
+              ? `Runs until ${formatDay(membership.end_date)}`
+              : 'Rolls on until ended'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
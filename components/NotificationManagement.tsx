@@ -0,0 +1,443 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner';
+import { Bell, History, RefreshCw, RotateCcw } from 'lucide-react';
+import { api } from '../services/api';
+
+type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+interface NotificationTemplate {
+  event_key: string;
+  label: string;
+  description: string;
+  variables: string[];
+  sample: Record<string, string>;
+  subject: string;
+  body: string;
+  is_enabled: boolean;
+  is_customised: boolean;
+  updated_at: string | null;
+}
+
+interface NotificationLogEntry {
+  id: number;
+  user_id: number | null;
+  user_name: string | null;
+  event_key: string;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+interface NotificationDelivery {
+  id: number;
+  attempt: number;
+  transport: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  created_at: string;
+}
+
+interface TemplateForm {
+  subject: string;
+  body: string;
+  is_enabled: boolean;
+}
+
+const ALL = 'all';
+
+const STATUS_BADGES: Record<NotificationStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Queued', variant: 'outline' },
+  sent: { label: 'Sent', variant: 'secondary' },
+  failed: { label: 'Failed', variant: 'destructive' }
+};
+
+// Fill in a template's {{variables}} with the sample values, as the backend does when it queues a notification
+const renderPreview = (template: string, values: Record<string, string>) =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (_match, key: string) => values[key] ?? '');
+
+export const NotificationManagementModal: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [transport, setTransport] = useState('');
+  const [selectedKey, setSelectedKey] = useState('');
+  const [form, setForm] = useState<TemplateForm>({ subject: '', body: '', is_enabled: true });
+  const [isSaving, setIsSaving] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationLogEntry[]>([]);
+  const [counts, setCounts] = useState<Record<NotificationStatus, number>>({ pending: 0, sent: 0, failed: 0 });
+  const [maxAttempts, setMaxAttempts] = useState(0);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [eventFilter, setEventFilter] = useState(ALL);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [retryingId, setRetryingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTemplates();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadNotifications();
+    }
+  }, [isOpen, statusFilter, eventFilter]);
+
+  const selectedTemplate = templates.find(t => t.event_key === selectedKey) || null;
+
+  const selectTemplate = (template: NotificationTemplate) => {
+    setSelectedKey(template.event_key);
+    setForm({ subject: template.subject, body: template.body, is_enabled: template.is_enabled });
+  };
+
+  const loadTemplates = async () => {
+    try {
+      const response = await api.getNotificationTemplates();
+      const loaded: NotificationTemplate[] = response.templates || [];
+      setTemplates(loaded);
+      setTransport(response.transport || '');
+      const current = loaded.find(t => t.event_key === selectedKey) || loaded[0];
+      if (current) {
+        selectTemplate(current);
+      }
+    } catch (error) {
+      console.error('Failed to load notification templates:', error);
+      toast.error('Failed to load notification templates');
+    }
+  };
+
+  const loadNotifications = async () => {
+    try {
+      const response = await api.getNotifications({
+        status: statusFilter === ALL ? undefined : statusFilter as NotificationStatus,
+        event_key: eventFilter === ALL ? undefined : eventFilter
+      });
+      setNotifications(response.notifications || []);
+      setCounts(response.counts || { pending: 0, sent: 0, failed: 0 });
+      setMaxAttempts(response.maxAttempts || 0);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+      toast.error('Failed to load the delivery log');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTemplate) return;
+
+    try {
+      setIsSaving(true);
+      const response = await api.updateNotificationTemplate(selectedTemplate.event_key, form);
+      toast.success(response.message);
+      await loadTemplates();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selectedTemplate) return;
+    if (!window.confirm(`Put the ${selectedTemplate.label} email back to the default wording?`)) return;
+
+    try {
+      const response = await api.resetNotificationTemplate(selectedTemplate.event_key);
+      toast.success(response.message);
+      await loadTemplates();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset template');
+    }
+  };
+
+  const toggleDeliveries = async (notification: NotificationLogEntry) => {
+    if (expandedId === notification.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    try {
+      const response = await api.getNotificationDeliveries(notification.id);
+      setDeliveries(response.deliveries || []);
+      setExpandedId(notification.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load delivery attempts');
+    }
+  };
+
+  const handleRetry = async (notification: NotificationLogEntry) => {
+    try {
+      setRetryingId(notification.id);
+      const response = await api.retryNotification(notification.id);
+      toast.success(response.message);
+      setExpandedId(null);
+      await loadNotifications();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry notification');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const getLabel = (eventKey: string) => templates.find(t => t.event_key === eventKey)?.label || eventKey;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Bell className="h-4 w-4" />
+          Notifications
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Member Notifications
+          </DialogTitle>
+          <DialogDescription>
+            Emails members get about their bookings, payments and balance{transport && ` (sent with the ${transport} transport)`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="templates" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="log">Delivery Log</TabsTrigger>
+          </TabsList>
+
+          {/* Template Editor */}
+          <TabsContent value="templates">
+            <Card>
+              <CardHeader>
+                <CardTitle>Templates</CardTitle>
+                <CardDescription>Changes apply to notifications queued from now on</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Notification</Label>
+                  <Select
+                    value={selectedKey}
+                    onValueChange={(value: string) => {
+                      const template = templates.find(t => t.event_key === value);
+                      if (template) selectTemplate(template);
+                    }}
+                  >
+                    <SelectTrigger><SelectValue placeholder="Choose a notification" /></SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.event_key} value={template.event_key}>
+                          {template.label}{template.is_enabled ? '' : ' (off)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {selectedTemplate && (
+                  <form onSubmit={handleSave} className="space-y-4">
+                    <p className="text-sm text-muted-foreground">{selectedTemplate.description}</p>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="template_enabled"
+                        checked={form.is_enabled}
+                        onCheckedChange={(checked: boolean) => setForm({ ...form, is_enabled: checked })}
+                      />
+                      <Label htmlFor="template_enabled" className="font-normal">Send this email</Label>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="template_subject">Subject *</Label>
+                      <Input
+                        id="template_subject"
+                        value={form.subject}
+                        onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="template_body">Message *</Label>
+                      <Textarea
+                        id="template_body"
+                        rows={9}
+                        value={form.body}
+                        onChange={(e) => setForm({ ...form, body: e.target.value })}
+                        className="font-mono text-sm"
+                      />
+                      <div className="flex flex-wrap gap-1">
+                        {selectedTemplate.variables.map(variable => (
+                          <Badge key={variable} variant="outline" className="font-mono">{`{{${variable}}}`}</Badge>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Preview</Label>
+                      <div className="p-3 border rounded-lg bg-muted/50 text-sm space-y-2">
+                        <p className="font-medium">{renderPreview(form.subject, selectedTemplate.sample)}</p>
+                        <p className="whitespace-pre-wrap">{renderPreview(form.body, selectedTemplate.sample)}</p>
+                      </div>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                      {selectedTemplate.is_customised && (
+                        <Button type="button" variant="outline" onClick={handleReset}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Reset to Default
+                        </Button>
+                      )}
+                      <Button type="submit" disabled={isSaving || !form.subject.trim() || !form.body.trim()}>
+                        {isSaving ? 'Saving...' : 'Save Template'}
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Delivery Log */}
+          <TabsContent value="log">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Delivery Log
+                  </CardTitle>
+                  <CardDescription>
+                    Failed deliveries are retried automatically, up to {maxAttempts} attempts
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={loadNotifications}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Refresh
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  {(Object.keys(STATUS_BADGES) as NotificationStatus[]).map(status => (
+                    <div key={status} className="p-3 border rounded-lg">
+                      <p className="text-2xl font-bold">{counts[status]}</p>
+                      <p className="text-xs text-muted-foreground">{STATUS_BADGES[status].label}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select value={statusFilter} onValueChange={(value: string) => setStatusFilter(value)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All statuses</SelectItem>
+                        {(Object.keys(STATUS_BADGES) as NotificationStatus[]).map(status => (
+                          <SelectItem key={status} value={status}>{STATUS_BADGES[status].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Notification</Label>
+                    <Select value={eventFilter} onValueChange={(value: string) => setEventFilter(value)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All notifications</SelectItem>
+                        {templates.map(template => (
+                          <SelectItem key={template.event_key} value={template.event_key}>{template.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {notifications.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No notifications for these filters.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {notifications.map(notification => (
+                      <div key={notification.id} className="p-3 border rounded-lg text-sm space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="space-y-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Badge variant={STATUS_BADGES[notification.status].variant}>
+                                {STATUS_BADGES[notification.status].label}
+                              </Badge>
+                              <span className="font-medium">{notification.subject}</span>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {getLabel(notification.event_key)} · {notification.user_name || 'Deleted member'} ({notification.recipient})
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Queued {new Date(notification.created_at).toLocaleString()}
+                              {notification.sent_at && ` · sent ${new Date(notification.sent_at).toLocaleString()}`}
+                              {notification.status === 'pending' && notification.attempts > 0 &&
+                                ` · next attempt ${new Date(notification.next_attempt_at).toLocaleString()}`}
+                              {` · ${notification.attempts} attempt${notification.attempts === 1 ? '' : 's'}`}
+                            </p>
+                            {notification.last_error && notification.status !== 'sent' && (
+                              <p className="text-xs text-destructive">{notification.last_error}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {notification.attempts > 0 && (
+                              <Button variant="outline" size="sm" onClick={() => toggleDeliveries(notification)} title="Delivery attempts">
+                                <History className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {notification.status !== 'sent' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRetry(notification)}
+                                disabled={retryingId !== null}
+                              >
+                                {retryingId === notification.id ? 'Retrying...' : 'Retry'}
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+
+                        {expandedId === notification.id && (
+                          <div className="border-t pt-2 space-y-1">
+                            {deliveries.map(delivery => (
+                              <p key={delivery.id} className="text-xs">
+                                <span className="text-muted-foreground">
+                                  Attempt {delivery.attempt} · {new Date(delivery.created_at).toLocaleString()} · {delivery.transport} ·{' '}
+                                </span>
+                                <span className={delivery.status === 'failed' ? 'text-destructive' : ''}>
+                                  {delivery.status === 'sent' ? 'Delivered' : delivery.error || 'Failed'}
+                                </span>
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Download, FileText, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../services/api';
+import { usePayment } from '../contexts/PaymentContext';
+
+interface Payment {
+  id: number;
+  amount: number;
+  concessions_purchased: number;
+  payment_type?: 'concessions' | 'drop_in';
+  class_name?: string | null;
+  booking_date?: string | null;
+  package_name?: string | null;
+  reference: string;
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
+  created_at: string;
+  processed_at?: string;
+  invoice_number?: string | null;
+}
+
+const STATUS_BADGES: Record<Payment['status'], { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  confirmed: { label: 'Paid', variant: 'default' },
+  pending: { label: 'Pending', variant: 'secondary' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'outline' }
+};
+
+// Describe what a payment was for
+const describePayment = (payment: Payment) => {
+  if (payment.payment_type === 'drop_in') {
+    return `Drop-in${payment.class_name ? ` for ${payment.class_name}` : ''}${payment.booking_date ? ` on ${new Date(payment.booking_date).toLocaleDateString()}` : ''}`;
+  }
+  return payment.package_name
+    ? `${payment.package_name} (${payment.concessions_purchased} concessions)`
+    : `${payment.concessions_purchased} concessions`;
+};
+
+// A member's payments, newest first, with a receipt to download for each confirmed one. Admins can also
+// re-issue a receipt (with a new number) after correcting the business or member details.
+export const PaymentHistory: React.FC<{ userId: number; canReissue?: boolean }> = ({ userId, canReissue = false }) => {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+  const { downloadInvoice, reissueInvoice } = usePayment();
+
+  useEffect(() => {
+    loadPayments();
+  }, [userId]);
+
+  const loadPayments = async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.getUserPayments(userId);
+      setPayments(response.payments || []);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load payment history:', error);
+      setError('Failed to load payment history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = async (payment: Payment) => {
+    try {
+      setWorkingId(payment.id);
+      await downloadInvoice(payment.id);
+      // The first download issues a receipt for payments confirmed before receipts existed
+      if (!payment.invoice_number) {
+        await loadPayments();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download receipt');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleReissue = async (payment: Payment) => {
+    if (!window.confirm(`Re-issue the receipt for ${describePayment(payment)}? It gets a new number and replaces ${payment.invoice_number || 'the current receipt'}.`)) {
+      return;
+    }
+
+    try {
+      setWorkingId(payment.id);
+      const message = await reissueInvoice(payment.id);
+      toast.success(message);
+      await loadPayments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to re-issue receipt');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  if (isLoading && payments.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive py-4">{error}</p>;
+  }
+
+  if (payments.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <FileText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        <h3>No payments yet</h3>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Details</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead className="text-right">Receipt</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {payments.map(payment => (
+          <TableRow key={payment.id}>
+            <TableCell className="whitespace-nowrap">
+              {new Date(payment.processed_at || payment.created_at).toLocaleDateString()}
+            </TableCell>
+            <TableCell className="text-sm">
+              <p>{describePayment(payment)}</p>
+              <p className="text-xs text-muted-foreground font-mono">{payment.reference}</p>
+            </TableCell>
+            <TableCell>
+              <Badge variant={STATUS_BADGES[payment.status].variant}>{STATUS_BADGES[payment.status].label}</Badge>
+            </TableCell>
+            <TableCell className="text-right">${payment.amount.toFixed(2)}</TableCell>
+            <TableCell className="text-right">
+              {payment.status === 'confirmed' ? (
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDownload(payment)}
+                    disabled={workingId === payment.id}
+                    title="Download receipt (PDF)"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    {payment.invoice_number || 'PDF'}
+                  </Button>
+                  {canReissue && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReissue(payment)}
+                      disabled={workingId === payment.id}
+                      title="Re-issue receipt"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <span className="text-sm text-muted-foreground">-</span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
@@ -8,6 +8,8 @@ import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { Alert, AlertDescription } from './ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner@2.0.3';
 import { 
   CreditCard, 
@@ -17,9 +19,17 @@ import {
   DollarSign,
   Check,
   AlertCircle,
-  Settings
+  Settings,
+  X,
+  Package,
+  Edit,
+  Ban,
+  Crown
 } from 'lucide-react';
 import { api } from '../services/api';
+import { MEMBERSHIP_PLAN_TYPES, describePlan, type MembershipPlanType } from '../services/memberships';
+import { usePayment } from '../contexts/PaymentContext';
+import { useUser } from '../contexts/UserContext';
 
 interface PaymentDetails {
   id: number;
@@ -29,16 +39,64 @@ interface PaymentDetails {
   sort_code: string;
   reference_instructions: string;
   additional_info: string;
+  business_name?: string; // Printed on receipts
+  business_address?: string;
+  gst_number?: string;
   created_at: string;
   updated_at: string;
 }
 
+interface ConcessionPackage {
+  id: number;
+  name: string;
+  concessions: number;
+  price: number;
+  validity_months: number | null;
+  is_active: boolean;
+  purchase_count: number;
+}
+
+interface PackageForm {
+  name: string;
+  concessions: string;
+  price: string;
+  validity_months: string; // Blank never expires
+  is_active: boolean;
+}
+
+const EMPTY_PACKAGE_FORM: PackageForm = { name: '', concessions: '', price: '', validity_months: '', is_active: true };
+
+interface MembershipPlan {
+  id: number;
+  name: string;
+  plan_type: MembershipPlanType;
+  classes_per_week: number | null;
+  monthly_price: number;
+  is_active: boolean;
+  member_count: number;
+}
+
+interface PlanForm {
+  name: string;
+  plan_type: MembershipPlanType;
+  classes_per_week: string; // Only used by weekly plans
+  monthly_price: string;
+  is_active: boolean;
+}
+
+const EMPTY_PLAN_FORM: PlanForm = { name: '', plan_type: 'unlimited', classes_per_week: '', monthly_price: '', is_active: true };
+
 export const PaymentManagementModal: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+  const { payments, processPayment, refreshPayments } = usePayment();
+  const { refreshUsers } = useUser();
+
+  const pendingPayments = payments.filter(payment => payment.status === 'pending');
 
   const [formData, setFormData] = useState({
     bank_name: '',
@@ -46,12 +104,16 @@ export const PaymentManagementModal: React.FC = () => {
     account_number: '',
     sort_code: '',
     reference_instructions: '',
-    additional_info: ''
+    additional_info: '',
+    business_name: '',
+    business_address: '',
+    gst_number: ''
   });
 
   useEffect(() => {
     if (isOpen) {
       loadPaymentDetails();
+      refreshPayments();
     }
   }, [isOpen]);
 
@@ -66,7 +128,10 @@ export const PaymentManagementModal: React.FC = () => {
         account_number: response.paymentDetails.account_number || '',
         sort_code: response.paymentDetails.sort_code || '',
         reference_instructions: response.paymentDetails.reference_instructions || '',
-        additional_info: response.paymentDetails.additional_info || ''
+        additional_info: response.paymentDetails.additional_info || '',
+        business_name: response.paymentDetails.business_name || '',
+        business_address: response.paymentDetails.business_address || '',
+        gst_number: response.paymentDetails.gst_number || ''
       });
       setHasChanges(false);
     } catch (error) {
@@ -77,6 +142,24 @@ export const PaymentManagementModal: React.FC = () => {
     }
   };
 
+  const handleProcessPayment = async (id: number, status: 'confirmed' | 'rejected') => {
+    const isDropIn = payments.find(payment => payment.id === id)?.payment_type === 'drop_in';
+    try {
+      setProcessingId(id);
+      await processPayment(id, status);
+      await refreshUsers(); // Confirmed payments change the member's concession balance
+      if (status === 'rejected') {
+        toast.success('Payment rejected');
+      } else {
+        toast.success(isDropIn ? 'Drop-in payment confirmed' : 'Payment confirmed and concessions added');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to process payment');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -86,6 +169,11 @@ export const PaymentManagementModal: React.FC = () => {
   };
 
   const handleSave = async () => {
+    if (formData.gst_number && !/^\d{2,3}-?\d{3}-?\d{3}$/.test(formData.gst_number.trim())) {
+      toast.error('GST number must be 8 or 9 digits, e.g. 123-456-789');
+      return;
+    }
+
     try {
       setIsSaving(true);
       await api.updatePaymentDetails(formData);
@@ -108,7 +196,10 @@ export const PaymentManagementModal: React.FC = () => {
         account_number: paymentDetails.account_number || '',
         sort_code: paymentDetails.sort_code || '',
         reference_instructions: paymentDetails.reference_instructions || '',
-        additional_info: paymentDetails.additional_info || ''
+        additional_info: paymentDetails.additional_info || '',
+        business_name: paymentDetails.business_name || '',
+        business_address: paymentDetails.business_address || '',
+        gst_number: paymentDetails.gst_number || ''
       });
       setHasChanges(false);
     }
@@ -131,6 +222,9 @@ export const PaymentManagementModal: React.FC = () => {
         <Button variant="outline" className="flex items-center gap-2">
           <Settings className="h-4 w-4" />
           Payment Settings
+          {pendingPayments.length > 0 && (
+            <Badge variant="destructive">{pendingPayments.length}</Badge>
+          )}
         </Button>
       </DialogTrigger>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -150,6 +244,95 @@ export const PaymentManagementModal: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-6">
+            {/* Pending Payments */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <DollarSign className="h-5 w-5" />
+                  Pending Payments
+                </CardTitle>
+                <CardDescription>
+                  Check each transfer against the bank account, then confirm to add the concessions to the member's balance (drop-in payments just mark the class as paid)
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {pendingPayments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No payments awaiting confirmation</p>
+                ) : (
+                  <div className="space-y-3">
+                    {pendingPayments.map(payment => (
+                      <div key={payment.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div className="text-sm space-y-1">
+                          <p className="font-medium">
+                            {payment.user_name || `User #${payment.user_id}`} - ${payment.amount.toFixed(2)}{' '}
+                            {payment.payment_type === 'drop_in'
+                              ? `drop-in for ${payment.class_name ?? 'a class'}${payment.booking_date ? ` on ${new Date(payment.booking_date).toLocaleDateString()}` : ''}`
+                              : `for ${payment.package_name ? `${payment.package_name} (${payment.concessions_purchased} concessions)` : `${payment.concessions_purchased} concessions`}`}
+                          </p>
+                          <p className="text-muted-foreground">
+                            Reference: <span className="font-mono">{payment.reference}</span>
+                            {payment.payment_method === 'cash' && ' · paying at reception'}
+                            {' '}· Submitted {new Date(payment.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleProcessPayment(payment.id, 'confirmed')}
+                            disabled={processingId === payment.id}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Confirm
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleProcessPayment(payment.id, 'rejected')}
+                            disabled={processingId === payment.id}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Concession Packages */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Package className="h-5 w-5" />
+                  Concession Packages
+                </CardTitle>
+                <CardDescription>
+                  The packs members can buy. Changing a price doesn't affect purchases already awaiting payment.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ConcessionPackageManager />
+              </CardContent>
+            </Card>
+
+            {/* Membership Plans */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Crown className="h-5 w-5" />
+                  Membership Plans
+                </CardTitle>
+                <CardDescription>
+                  Plans you can give members from their profile. Bookings a membership covers don't use concessions.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <MembershipPlanManager />
+              </CardContent>
+            </Card>
+
             {/* Current Payment Information Preview */}
             <Card className="border-blue-200 bg-blue-50">
               <CardHeader>
@@ -265,6 +448,49 @@ export const PaymentManagementModal: React.FC = () => {
 
                 <Separator />
 
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="font-medium">Business Details for Receipts</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Printed on the receipts members download. With a GST number they're issued as tax invoices.
+                    </p>
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="business_name">Business Name</Label>
+                      <Input
+                        id="business_name"
+                        value={formData.business_name}
+                        onChange={(e) => handleInputChange('business_name', e.target.value)}
+                        placeholder="e.g., FlexGym Ltd"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="gst_number">GST Number</Label>
+                      <Input
+                        id="gst_number"
+                        value={formData.gst_number}
+                        onChange={(e) => handleInputChange('gst_number', e.target.value)}
+                        placeholder="e.g., 123-456-789"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="business_address">Business Address</Label>
+                    <Textarea
+                      id="business_address"
+                      value={formData.business_address}
+                      onChange={(e) => handleInputChange('business_address', e.target.value)}
+                      placeholder="Street address, city and postcode"
+                      rows={2}
+                    />
+                  </div>
+                </div>
+
+                <Separator />
+
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <Label htmlFor="reference_instructions">Payment Reference Instructions</Label>
@@ -339,4 +565,404 @@ export const PaymentManagementModal: React.FC = () => {
       </DialogContent>
     </Dialog>
   );
-};
\ No newline at end of file
+};
+
+// List, add, edit and retire the concession packages members can buy
+const ConcessionPackageManager: React.FC = () => {
+  const { packages, createPackage, updatePackage, retirePackage } = usePayment();
+  const [editingPackage, setEditingPackage] = useState<ConcessionPackage | null>(null);
+  const [packageForm, setPackageForm] = useState<PackageForm>(EMPTY_PACKAGE_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (concessionPackage: ConcessionPackage | null) => {
+    setEditingPackage(concessionPackage);
+    setPackageForm(concessionPackage ? {
+      name: concessionPackage.name,
+      concessions: String(concessionPackage.concessions),
+      price: concessionPackage.price.toFixed(2),
+      validity_months: concessionPackage.validity_months ? String(concessionPackage.validity_months) : '',
+      is_active: concessionPackage.is_active
+    } : EMPTY_PACKAGE_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const concessions = parseInt(packageForm.concessions);
+    const price = parseFloat(packageForm.price);
+    const validityMonths = packageForm.validity_months.trim() ? parseInt(packageForm.validity_months) : null;
+    if (!packageForm.name.trim()) {
+      toast.error('Please enter the package\'s name');
+      return;
+    }
+    if (!concessions || concessions < 1 || concessions > 100) {
+      toast.error('Concessions must be between 1 and 100');
+      return;
+    }
+    if (!price || price <= 0) {
+      toast.error('Please enter a price');
+      return;
+    }
+    if (validityMonths !== null && (!validityMonths || validityMonths < 1 || validityMonths > 36)) {
+      toast.error('Validity must be between 1 and 36 months (leave it blank for no expiry)');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = { name: packageForm.name.trim(), concessions, price, validity_months: validityMonths, is_active: packageForm.is_active };
+
+      if (editingPackage) {
+        await updatePackage(editingPackage.id, input);
+        toast.success('Package updated');
+      } else {
+        await createPackage(input);
+        toast.success('Package added');
+      }
+      startEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save package');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetire = async (concessionPackage: ConcessionPackage) => {
+    if (!window.confirm(`Retire ${concessionPackage.name}? Members will no longer be able to buy it.`)) {
+      return;
+    }
+
+    try {
+      toast.success(await retirePackage(concessionPackage.id));
+      if (editingPackage?.id === concessionPackage.id) {
+        startEditing(null);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retire package');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {packages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No packages yet - members can't buy concessions until you add one</p>
+        ) : (
+          packages.map(concessionPackage => (
+            <div key={concessionPackage.id} className="flex items-center justify-between rounded-lg border p-3">
+              <div className="text-sm space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  {concessionPackage.name}
+                  {!concessionPackage.is_active && <Badge variant="secondary">Retired</Badge>}
+                </p>
+                <p className="text-muted-foreground">
+                  {concessionPackage.concessions} concessions for ${concessionPackage.price.toFixed(2)}
+                  {' · '}{concessionPackage.validity_months ? `valid ${concessionPackage.validity_months} month${concessionPackage.validity_months > 1 ? 's' : ''}` : 'no expiry'}
+                  {' · '}{concessionPackage.purchase_count} sold
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => startEditing(concessionPackage)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                {concessionPackage.is_active && (
+                  <Button variant="outline" size="sm" onClick={() => handleRetire(concessionPackage)} title="Retire package">
+                    <Ban className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+        <h4 className="font-medium">{editingPackage ? `Edit ${editingPackage.name}` : 'Add Package'}</h4>
+        <div className="grid md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="package-name">Name *</Label>
+            <Input
+              id="package-name"
+              value={packageForm.name}
+              onChange={(e) => setPackageForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g., 10 Class Pack"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="package-concessions">Concessions *</Label>
+            <Input
+              id="package-concessions"
+              type="number"
+              min="1"
+              max="100"
+              value={packageForm.concessions}
+              onChange={(e) => setPackageForm(prev => ({ ...prev, concessions: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="package-price">Price ($) *</Label>
+            <Input
+              id="package-price"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={packageForm.price}
+              onChange={(e) => setPackageForm(prev => ({ ...prev, price: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="package-validity">Valid for (months)</Label>
+            <Input
+              id="package-validity"
+              type="number"
+              min="1"
+              max="36"
+              value={packageForm.validity_months}
+              onChange={(e) => setPackageForm(prev => ({ ...prev, validity_months: e.target.value }))}
+              placeholder="No expiry"
+            />
+          </div>
+        </div>
+
+        {editingPackage && (
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="package-active">Available to buy</Label>
+              <p className="text-xs text-muted-foreground">Retired packages are hidden from members</p>
+            </div>
+            <Switch
+              id="package-active"
+              checked={packageForm.is_active}
+              onCheckedChange={(checked: boolean) => setPackageForm(prev => ({ ...prev, is_active: checked }))}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {editingPackage && (
+            <Button type="button" variant="outline" onClick={() => startEditing(null)}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : editingPackage ? 'Save Changes' : 'Add Package'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// List, add, edit and retire the membership plans admins can give members
+const MembershipPlanManager: React.FC = () => {
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [editingPlan, setEditingPlan] = useState<MembershipPlan | null>(null);
+  const [planForm, setPlanForm] = useState<PlanForm>(EMPTY_PLAN_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadPlans();
+  }, []);
+
+  const loadPlans = async () => {
+    try {
+      const response = await api.getMembershipPlans();
+      setPlans(response.plans || []);
+    } catch (error) {
+      console.error('Failed to load membership plans:', error);
+      toast.error('Failed to load membership plans');
+    }
+  };
+
+  const startEditing = (plan: MembershipPlan | null) => {
+    setEditingPlan(plan);
+    setPlanForm(plan ? {
+      name: plan.name,
+      plan_type: plan.plan_type,
+      classes_per_week: plan.classes_per_week ? String(plan.classes_per_week) : '',
+      monthly_price: plan.monthly_price.toFixed(2),
+      is_active: plan.is_active
+    } : EMPTY_PLAN_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const monthlyPrice = parseFloat(planForm.monthly_price);
+    const classesPerWeek = planForm.plan_type === 'weekly' ? parseInt(planForm.classes_per_week) : null;
+    if (!planForm.name.trim()) {
+      toast.error('Please enter the plan\'s name');
+      return;
+    }
+    if (classesPerWeek !== null && (!classesPerWeek || classesPerWeek < 1 || classesPerWeek > 14)) {
+      toast.error('Classes per week must be between 1 and 14');
+      return;
+    }
+    if (isNaN(monthlyPrice) || monthlyPrice < 0) {
+      toast.error('Please enter a monthly price');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const input = {
+        name: planForm.name.trim(),
+        plan_type: planForm.plan_type,
+        classes_per_week: classesPerWeek,
+        monthly_price: monthlyPrice,
+        is_active: planForm.is_active
+      };
+
+      if (editingPlan) {
+        await api.updateMembershipPlan(editingPlan.id, input);
+        toast.success('Plan updated');
+      } else {
+        await api.createMembershipPlan(input);
+        toast.success('Plan added');
+      }
+      startEditing(null);
+      await loadPlans();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetire = async (plan: MembershipPlan) => {
+    if (!window.confirm(`Retire ${plan.name}? It can't be given to members any more, but current members keep it.`)) {
+      return;
+    }
+
+    try {
+      const response = await api.retireMembershipPlan(plan.id);
+      toast.success(response.message);
+      if (editingPlan?.id === plan.id) {
+        startEditing(null);
+      }
+      await loadPlans();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retire plan');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {plans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No membership plans yet - members book with concessions only</p>
+        ) : (
+          plans.map(plan => (
+            <div key={plan.id} className="flex items-center justify-between rounded-lg border p-3">
+              <div className="text-sm space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  {plan.name}
+                  {!plan.is_active && <Badge variant="secondary">Retired</Badge>}
+                </p>
+                <p className="text-muted-foreground">
+                  {describePlan(plan)} for ${plan.monthly_price.toFixed(2)}/month
+                  {' · '}{plan.member_count} member{plan.member_count === 1 ? '' : 's'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => startEditing(plan)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                {plan.is_active && (
+                  <Button variant="outline" size="sm" onClick={() => handleRetire(plan)} title="Retire plan">
+                    <Ban className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+        <h4 className="font-medium">{editingPlan ? `Edit ${editingPlan.name}` : 'Add Plan'}</h4>
+        <div className="grid md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="plan-name">Name *</Label>
+            <Input
+              id="plan-name"
+              value={planForm.name}
+              onChange={(e) => setPlanForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g., Unlimited"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-type">Covers *</Label>
+            <Select
+              value={planForm.plan_type}
+              onValueChange={(value: MembershipPlanType) => setPlanForm(prev => ({ ...prev, plan_type: value }))}
+            >
+              <SelectTrigger id="plan-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEMBERSHIP_PLAN_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-classes">Classes per week</Label>
+            <Input
+              id="plan-classes"
+              type="number"
+              min="1"
+              max="14"
+              value={planForm.classes_per_week}
+              onChange={(e) => setPlanForm(prev => ({ ...prev, classes_per_week: e.target.value }))}
+              disabled={planForm.plan_type !== 'weekly'}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="plan-price">Monthly price ($) *</Label>
+            <Input
+              id="plan-price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={planForm.monthly_price}
+              onChange={(e) => setPlanForm(prev => ({ ...prev, monthly_price: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        {planForm.plan_type === 'off_peak' && (
+          <p className="text-xs text-muted-foreground">
+            {describePlan({ plan_type: 'off_peak', classes_per_week: null })}. Other classes are booked with concessions.
+          </p>
+        )}
+
+        {editingPlan && (
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="plan-active">Offered</Label>
+              <p className="text-xs text-muted-foreground">Retired plans can't be given to members</p>
+            </div>
+            <Switch
+              id="plan-active"
+              checked={planForm.is_active}
+              onCheckedChange={(checked: boolean) => setPlanForm(prev => ({ ...prev, is_active: checked }))}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {editingPlan && (
+            <Button type="button" variant="outline" onClick={() => startEditing(null)}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : editingPlan ? 'Save Changes' : 'Add Plan'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
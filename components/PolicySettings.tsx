@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { toast } from 'sonner';
+import { ShieldCheck, Save, Trash2, Plus } from 'lucide-react';
+import { usePolicy } from '../contexts/PolicyContext';
+import { useClass } from '../contexts/ClassContext';
+
+type PolicyField = 'booking_window_days' | 'cancellation_deadline_hours' | 'credit_limit' | 'no_show_penalty';
+
+const POLICY_FIELDS: { field: PolicyField; label: string; unit: string; min: number; max: number }[] = [
+  { field: 'booking_window_days', label: 'Booking window', unit: 'days ahead', min: 1, max: 90 },
+  { field: 'cancellation_deadline_hours', label: 'Free cancellation until', unit: 'hours before class', min: 0, max: 168 },
+  { field: 'credit_limit', label: 'Credit limit', unit: 'classes on credit', min: 0, max: 50 },
+  { field: 'no_show_penalty', label: 'No-show penalty', unit: 'extra concessions charged', min: 0, max: 10 }
+];
+
+type PolicyForm = Record<PolicyField, string>;
+
+const EMPTY_FORM: PolicyForm = { booking_window_days: '', cancellation_deadline_hours: '', credit_limit: '', no_show_penalty: '' };
+
+// Helper function to turn a form field into a number, or null when left blank (inherit)
+const toValue = (value: string): number | null => (value.trim() === '' ? null : parseInt(value));
+
+export const PolicySettingsModal: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [defaultsForm, setDefaultsForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [selectedClassId, setSelectedClassId] = useState<string>('');
+  const [overrideForm, setOverrideForm] = useState<PolicyForm>(EMPTY_FORM);
+  const { defaults, classOverrides, refreshPolicies, updatePolicies, updateClassPolicy, deleteClassPolicy } = usePolicy();
+  const { classes } = useClass();
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshPolicies();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    setDefaultsForm({
+      booking_window_days: String(defaults.booking_window_days),
+      cancellation_deadline_hours: String(defaults.cancellation_deadline_hours),
+      credit_limit: String(defaults.credit_limit),
+      no_show_penalty: String(defaults.no_show_penalty)
+    });
+  }, [defaults]);
+
+  // Load the selected class's current overrides into the form
+  useEffect(() => {
+    const existing = classOverrides.find(o => o.class_id === parseInt(selectedClassId));
+    setOverrideForm(existing ? {
+      booking_window_days: existing.booking_window_days?.toString() ?? '',
+      cancellation_deadline_hours: existing.cancellation_deadline_hours?.toString() ?? '',
+      credit_limit: existing.credit_limit?.toString() ?? '',
+      no_show_penalty: existing.no_show_penalty?.toString() ?? ''
+    } : EMPTY_FORM);
+  }, [selectedClassId, classOverrides]);
+
+  const handleSaveDefaults = async () => {
+    const values = POLICY_FIELDS.map(({ field }) => toValue(defaultsForm[field]));
+    if (values.some(value => value === null || isNaN(value))) {
+      toast.error('Please fill in every gym-wide rule');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updatePolicies({
+        booking_window_days: values[0]!,
+        cancellation_deadline_hours: values[1]!,
+        credit_limit: values[2]!,
+        no_show_penalty: values[3]!
+      });
+      toast.success('Booking policy updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update booking policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveOverride = async () => {
+    if (!selectedClassId) {
+      toast.error('Please choose a class');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateClassPolicy(parseInt(selectedClassId), {
+        booking_window_days: toValue(overrideForm.booking_window_days),
+        cancellation_deadline_hours: toValue(overrideForm.cancellation_deadline_hours),
+        credit_limit: toValue(overrideForm.credit_limit),
+        no_show_penalty: toValue(overrideForm.no_show_penalty)
+      });
+      toast.success('Class rules updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update class policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteOverride = async (classId: number) => {
+    try {
+      await deleteClassPolicy(classId);
+      if (parseInt(selectedClassId) === classId) {
+        setSelectedClassId('');
+      }
+      toast.success('Class now follows the gym-wide policy');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset class policy');
+    }
+  };
+
+  const renderFields = (form: PolicyForm, onChange: (field: PolicyField, value: string) => void, placeholders?: PolicyForm) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {POLICY_FIELDS.map(({ field, label, unit, min, max }) => (
+        <div key={field} className="space-y-2">
+          <Label htmlFor={`${placeholders ? 'class' : 'default'}-${field}`}>{label}</Label>
+          <Input
+            id={`${placeholders ? 'class' : 'default'}-${field}`}
+            type="number"
+            min={min}
+            max={max}
+            value={form[field]}
+            placeholder={placeholders ? `${placeholders[field]} (gym default)` : undefined}
+            onChange={(e) => onChange(field, e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">{unit}</p>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Booking Policies
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Booking Policies
+          </DialogTitle>
+          <DialogDescription>
+            Rules for how far ahead members can book, when cancellations stop being refunded, how much credit they can use and what a no-show costs
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Gym-wide policy */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Gym-wide Rules</CardTitle>
+              <CardDescription>Apply to every class unless the class has its own rules below</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {renderFields(defaultsForm, (field, value) => setDefaultsForm(prev => ({ ...prev, [field]: value })))}
+              <div className="flex justify-end">
+                <Button onClick={handleSaveDefaults} disabled={isSaving} className="flex items-center gap-2">
+                  <Save className="h-4 w-4" />
+                  Save Gym-wide Rules
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Per-class overrides */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Class Rules</CardTitle>
+              <CardDescription>Override individual rules for a class. Leave a field blank to use the gym-wide value.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {classOverrides.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Class</TableHead>
+                      {POLICY_FIELDS.map(({ field, label }) => (
+                        <TableHead key={field}>{label}</TableHead>
+                      ))}
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {classOverrides.map(override => (
+                      <TableRow key={override.class_id}>
+                        <TableCell>
+                          <button
+                            type="button"
+                            className="underline-offset-2 hover:underline"
+                            onClick={() => setSelectedClassId(String(override.class_id))}
+                          >
+                            {override.class_name}
+                          </button>
+                        </TableCell>
+                        {POLICY_FIELDS.map(({ field }) => (
+                          <TableCell key={field}>
+                            {override[field] ?? <Badge variant="outline">Default ({defaults[field]})</Badge>}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteOverride(override.class_id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="space-y-4 border rounded-lg p-4">
+                <div className="space-y-2">
+                  <Label>Class</Label>
+                  <Select value={selectedClassId} onValueChange={setSelectedClassId}>
+                    <SelectTrigger className="w-full md:w-72">
+                      <SelectValue placeholder="Choose a class" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {classes.map(gymClass => (
+                        <SelectItem key={gymClass.id} value={String(gymClass.id)}>
+                          {gymClass.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {selectedClassId && (
+                  <>
+                    {renderFields(
+                      overrideForm,
+                      (field, value) => setOverrideForm(prev => ({ ...prev, [field]: value })),
+                      defaultsForm
+                    )}
+                    <div className="flex justify-end">
+                      <Button onClick={handleSaveOverride} disabled={isSaving} className="flex items-center gap-2">
+                        <Plus className="h-4 w-4" />
+                        Save Class Rules
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
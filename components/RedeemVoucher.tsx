@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Gift } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+// Redeem a promo code or gift voucher for free concessions. Discount codes are entered when buying a package.
+export const RedeemVoucher: React.FC = () => {
+  const { refreshUser } = useAuth();
+  const [code, setCode] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      toast.error('Please enter a code');
+      return;
+    }
+
+    try {
+      setIsRedeeming(true);
+      const response = await api.redeemVoucher(code.trim());
+      toast.success(response.message);
+      setCode('');
+      await refreshUser();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to redeem code');
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="h-5 w-5" />
+          Redeem a Code
+        </CardTitle>
+        <CardDescription>
+          Got a promo code or gift voucher? Enter it to add its free concessions to your balance
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="e.g., FIRSTFREE"
+            className="sm:flex-1 uppercase"
+            disabled={isRedeeming}
+          />
+          <Button type="submit" disabled={isRedeeming || !code.trim()}>
+            Redeem
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
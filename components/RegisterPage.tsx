@@ -7,13 +7,15 @@ import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
 import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
 
 export const RegisterPage: React.FC = () => {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     password: '',
-    confirmPassword: ''
+    confirmPassword: '',
+    voucherCode: ''
   });
   const [error, setError] = useState('');
   const { register, isLoading } = useAuth();
@@ -45,11 +47,14 @@ export const RegisterPage: React.FC = () => {
       return;
     }
 
-    const success = await register(formData.email, formData.password, formData.name);
-    if (success) {
+    try {
+      const message = await register(formData.name, formData.email, formData.password, formData.voucherCode.trim() || undefined);
+      if (formData.voucherCode.trim()) {
+        toast.success(message);
+      }
       navigate('/dashboard');
-    } else {
-      setError('Registration failed. Please try again.');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Registration failed. Please try again.');
     }
   };
 
@@ -122,6 +127,20 @@ export const RegisterPage: React.FC = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="voucherCode">Promo Code (optional)</Label>
+              <Input
+                id="voucherCode"
+                name="voucherCode"
+                type="text"
+                value={formData.voucherCode}
+                onChange={handleChange}
+                placeholder="e.g., FIRSTFREE"
+                className="uppercase"
+                disabled={isLoading}
+              />
+            </div>
+
             <Button type="submit" className="w-full" disabled={isLoading}>
               {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Create Account
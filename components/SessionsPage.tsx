@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '../services/api';
+
+interface Session {
+  id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  is_current: boolean;
+}
+
+// Turn a user agent into something a member recognises, e.g. "Safari on iPhone"
+const describeDevice = (userAgent: string | null) => {
+  const agent = userAgent || '';
+  const browser =
+    /Edg\//.test(agent) ? 'Edge' :
+    /OPR\//.test(agent) ? 'Opera' :
+    /Firefox\//.test(agent) ? 'Firefox' :
+    /Chrome\/|CriOS\//.test(agent) ? 'Chrome' :
+    /Safari\//.test(agent) ? 'Safari' :
+    null;
+  const platform =
+    /iPhone/.test(agent) ? 'iPhone' :
+    /iPad/.test(agent) ? 'iPad' :
+    /Android/.test(agent) ? 'Android' :
+    /Windows/.test(agent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(agent) ? 'Mac' :
+    /Linux/.test(agent) ? 'Linux' :
+    null;
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+};
+
+const isMobile = (userAgent: string | null) => /iPhone|iPad|Android|Mobile/.test(userAgent || '');
+
+// Where a member sees the devices they're signed in on and signs out the ones they don't recognise
+export const SessionsPage: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | 'others' | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.getSessions();
+      setSessions(response.sessions);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load your sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      setBusyId(session.id);
+      const response = await api.revokeSession(session.id);
+      toast.success(response.message);
+      await loadSessions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out that session');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm('Sign out of FlexBook on every other device?')) return;
+
+    try {
+      setBusyId('others');
+      const response = await api.revokeOtherSessions();
+      toast.success(response.message);
+      await loadSessions();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out your other sessions');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const otherSessions = sessions.filter(s => !s.is_current);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Devices & sessions</h1>
+        <p className="text-muted-foreground">
+          These are the devices signed in to your account. If you don't recognise one, sign it out and change your password.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Signed-in devices</CardTitle>
+            <CardDescription>Last active times update every few minutes while a device is in use</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRevokeOthers}
+            disabled={otherSessions.length === 0 || busyId !== null}
+          >
+            {busyId === 'others' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign out all other sessions
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading sessions...
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">No active sessions</p>
+          ) : (
+            <ul className="divide-y">
+              {sessions.map(session => {
+                const DeviceIcon = isMobile(session.user_agent) ? Smartphone : Monitor;
+                return (
+                  <li key={session.id} className="flex items-center justify-between gap-4 py-4">
+                    <div className="flex items-start gap-3">
+                      <DeviceIcon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{describeDevice(session.user_agent)}</span>
+                          {session.is_current && <Badge variant="secondary">This device</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {session.ip_address ? `${session.ip_address} · ` : ''}
+                          Last active {new Date(session.last_used_at).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Signed in {new Date(session.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    {!session.is_current && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(session)}
+                        disabled={busyId !== null}
+                        className="flex items-center gap-2"
+                      >
+                        {busyId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+                        Sign out
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
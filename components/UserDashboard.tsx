@@ -1,23 +1,43 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, getBookingBalance } from '../contexts/AuthContext';
 import { useBooking } from '../contexts/BookingContext';
+import { usePayment } from '../contexts/PaymentContext';
+import { usePolicy } from '../contexts/PolicyContext';
+import { useLocations } from '../contexts/LocationContext';
 import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { Calendar, Clock, User, Plus, ChevronRight, Award, X, CreditCard, AlertTriangle, DollarSign, Banknote, Building } from 'lucide-react';
+import { Calendar, Clock, User, Plus, ChevronRight, Award, X, CreditCard, AlertTriangle, DollarSign, CheckCircle, ListOrdered, UserCog, MapPin, Mail } from 'lucide-react';
 import { toast } from 'sonner';
+import { ConcessionStatement } from './ConcessionStatement';
+import { ConcessionPacks } from './ConcessionPacks';
+import { MembershipSummary } from './MembershipSummary';
+import { PaymentHistory } from './PaymentHistory';
+import { CheckInCode } from './CheckInCode';
+import { BuyConcessions } from './BuyConcessions';
+import { HouseholdBookings } from './HouseholdBookings';
+import { RedeemVoucher } from './RedeemVoucher';
+import { api } from '../services/api';
 
 export const UserDashboard: React.FC = () => {
-  const { user } = useAuth();
-  const { bookings, classes, cancelBooking } = useBooking();
+  const { user, updateHomeLocation } = useAuth();
+  const { activeLocations } = useLocations();
+  const { bookings, classes, cancelBooking, waitlist, acknowledgeWaitlistPromotion, substitutionNotices, acknowledgeSubstitutionNotice } = useBooking();
+  const { userPayments } = usePayment();
+  const { defaults: policy, getPolicyForClass, isLateCancellation, hasCreditAvailable } = usePolicy();
+  // Dependants book against their household payer's balance, and the payer tops it up
+  const balance = getBookingBalance(user);
+  const isHouseholdBalance = user?.household?.role === 'dependant';
 
   // Use bookings directly from context instead of getUserBookings function
   const userBookings = bookings.filter(booking => booking.user_id === user?.id) || [];
+  const today = new Date().toISOString().split('T')[0];
   const upcomingBookings = userBookings
-    .filter(booking => new Date(booking.booking_date) >= new Date() && booking.status === 'confirmed')
+    .filter(booking => booking.booking_date.split('T')[0] >= today && booking.status === 'confirmed')
     .sort((a, b) => new Date(a.booking_date).getTime() - new Date(b.booking_date).getTime())
     .slice(0, 3);
 
@@ -37,6 +57,24 @@ export const UserDashboard: React.FC = () => {
     });
   };
 
+  const handleHomeLocationChange = async (value: string) => {
+    try {
+      await updateHomeLocation(value === 'none' ? null : parseInt(value));
+      toast.success('Home location updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update home location');
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      const response = await api.resendVerification();
+      toast.success(response.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send the confirmation email');
+    }
+  };
+
   const handleCancelBooking = async (bookingId: number) => {
     try {
       const result = await cancelBooking(bookingId);
@@ -46,7 +84,7 @@ export const UserDashboard: React.FC = () => {
         toast.error(result.message);
       } else {
         // Show success message with concession refund info
-        if (result.concessionRefunded) {
+        if (result.concessionRefunded && !isHouseholdBalance) {
           toast.success(result.message + ' Your concession balance has been updated.');
         } else {
           toast.success(result.message);
@@ -57,17 +95,8 @@ export const UserDashboard: React.FC = () => {
     }
   };
 
-  const isWithin24Hours = (classDate: string, classTime: string): boolean => {
-    const now = new Date();
-    const classDateTime = new Date(`${classDate}T${classTime}:00`);
-    const timeDifference = classDateTime.getTime() - now.getTime();
-    const hoursUntilClass = timeDifference / (1000 * 60 * 60);
-    
-    return hoursUntilClass <= 24 && hoursUntilClass > 0;
-  };
-
   const getConcessionStatus = () => {
-    const concessions = user?.concessions || 0;
+    const concessions = balance;
     if (concessions < 0) {
       return {
         status: 'negative',
@@ -95,10 +124,15 @@ export const UserDashboard: React.FC = () => {
     }
   };
 
+  const waitlistPromotions = waitlist.filter(entry => entry.status === 'promoted');
+  const waitingCount = waitlist.filter(entry => entry.status === 'waiting').length;
+
   const concessionStatus = getConcessionStatus();
-  const canBook = (user?.concessions || 0) > -5; // Allow booking down to -5
-  const nearLimit = (user?.concessions || 0) <= -3;
-  const needsPayment = (user?.concessions || 0) <= 0;
+  const canBook = hasCreditAvailable(balance); // Allow booking down to the credit limit
+  const creditRemaining = policy.credit_limit + balance;
+  const nearLimit = creditRemaining <= 2;
+  const needsPayment = balance <= 0;
+  const pendingPayments = userPayments.filter(payment => payment.status === 'pending');
 
   return (
     <TooltipProvider>
@@ -124,25 +158,124 @@ export const UserDashboard: React.FC = () => {
                 <p className="font-medium">Account Details</p>
                 <p className="text-muted-foreground">Email: {user?.email}</p>
                 <p className="text-muted-foreground">Role: {user?.role}</p>
+                {activeLocations.length > 0 && (
+                  <div className="space-y-1 pt-1">
+                    <Label htmlFor="home-location" className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <MapPin className="h-3 w-3" />
+                      Home location
+                    </Label>
+                    <Select
+                      value={user?.home_location_id ? String(user.home_location_id) : 'none'}
+                      onValueChange={handleHomeLocationChange}
+                    >
+                      <SelectTrigger id="home-location" className="h-8 w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No home location</SelectItem>
+                        {activeLocations.map(location => (
+                          <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Waitlist Promotion Notices */}
+        {waitlistPromotions.map(entry => (
+          <Card key={entry.id} className="bg-green-50 border-green-200 border-2">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <CheckCircle className="h-5 w-5 text-green-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-green-600">
+                    A spot opened up - you're booked into {entry.class_name}!
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    You were moved off the waitlist for {formatDate(entry.booking_date)} at {entry.class_time}. A concession has been deducted.
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => acknowledgeWaitlistPromotion(entry.id)}
+                >
+                  Got it
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {/* Email Verification Notice */}
+        {user?.email_verified === false && (
+          <Card className="bg-blue-50 border-blue-200 border-2">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <Mail className="h-5 w-5 text-blue-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-blue-600">Please confirm your email address</p>
+                  <p className="text-sm text-muted-foreground">
+                    We sent a link to {user.email}. Confirming it makes sure you can reset your password if you ever forget it.
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={handleResendVerification}>
+                  Resend link
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Substitute Instructor Notices */}
+        {substitutionNotices.map(notice => (
+          <Card key={notice.id} className="bg-blue-50 border-blue-200 border-2">
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-3">
+                <UserCog className="h-5 w-5 text-blue-600" />
+                <div className="flex-1">
+                  <p className="font-medium text-blue-600">
+                    {notice.substitute_name} is teaching {notice.class_name} on {formatDate(notice.booking_date)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {notice.original_instructor_name
+                      ? `${notice.substitute_name} is covering for ${notice.original_instructor_name} at ${notice.class_time}.`
+                      : `The class still runs at ${notice.class_time}.`}
+                    {' '}Your booking is unchanged - cancel it from your bookings if you'd rather not go.
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => acknowledgeSubstitutionNotice(notice.id)}
+                >
+                  Got it
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
         {/* Concession Status Alert */}
-        {(user?.concessions || 0) < 0 && (
+        {balance < 0 && (
           <Card className={`${concessionStatus.bgColor} ${concessionStatus.borderColor} border-2`}>
             <CardContent className="pt-4">
               <div className="flex items-center gap-3">
                 <AlertTriangle className={`h-5 w-5 ${concessionStatus.color}`} />
                 <div className="flex-1">
                   <p className={`font-medium ${concessionStatus.color}`}>
-                    Credit Balance: {Math.abs(user?.concessions || 0)} concession{Math.abs(user?.concessions || 0) > 1 ? 's' : ''}
+                    {isHouseholdBalance ? 'Household credit' : 'Credit Balance'}: {Math.abs(balance)} concession{Math.abs(balance) > 1 ? 's' : ''}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     {nearLimit 
-                      ? `You're close to the credit limit. Please make a payment soon.`
-                      : `You have ${5 + (user?.concessions || 0)} more booking${5 + (user?.concessions || 0) > 1 ? 's' : ''} available on credit.`
+                      ? isHouseholdBalance
+                        ? `Your household is close to the credit limit. Please ask ${user?.household?.payer_name} to make a payment soon.`
+                        : `You're close to the credit limit. Please make a payment soon.`
+                      : `You have ${creditRemaining} more booking${creditRemaining > 1 ? 's' : ''} available on credit.`
                     }
                   </p>
                 </div>
@@ -155,16 +288,21 @@ export const UserDashboard: React.FC = () => {
         <div className="grid md:grid-cols-4 gap-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Concession Balance</CardTitle>
+              <CardTitle className="text-sm font-medium">{isHouseholdBalance ? 'Household Balance' : 'Concession Balance'}</CardTitle>
               <Award className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
               <div className={`text-2xl font-bold ${concessionStatus.color}`}>
-                {user?.concessions || 0}
+                {balance}
               </div>
               <p className="text-xs text-muted-foreground">
                 {concessionStatus.message}
               </p>
+              {isHouseholdBalance && (
+                <p className="text-xs text-muted-foreground">
+                  Your bookings are charged to {user?.household?.payer_name}'s balance ({user?.household?.name})
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -191,6 +329,12 @@ export const UserDashboard: React.FC = () => {
               <p className="text-xs text-muted-foreground">
                 This week
               </p>
+              {waitingCount > 0 && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                  <ListOrdered className="h-3 w-3" />
+                  {waitingCount} on waitlist
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -222,54 +366,52 @@ export const UserDashboard: React.FC = () => {
                 Top up your concessions to continue booking classes
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <Tabs defaultValue="bank-transfer" className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="bank-transfer" className="flex items-center gap-2">
-                    <Building className="h-4 w-4" />
-                    Bank Transfer
-                  </TabsTrigger>
-                  <TabsTrigger value="cash" className="flex items-center gap-2">
-                    <Banknote className="h-4 w-4" />
-                    Cash Payment
-                  </TabsTrigger>
-                </TabsList>
-                
-                <TabsContent value="bank-transfer" className="mt-4">
-                  <div className="bg-white p-4 rounded-lg border space-y-2">
-                    <div className="grid grid-cols-2 gap-2 text-sm">
-                      <div>
-                        <span className="font-medium">Bank:</span>
-                        <div>ANZ New Zealand</div>
-                      </div>
-                      <div>
-                        <span className="font-medium">Account:</span>
-                        <div>FlexGym Ltd</div>
-                      </div>
-                      <div>
-                        <span className="font-medium">Account Number:</span>
-                        <div>01-0123-0123456-00</div>
-                      </div>
-                    </div>
-                    <div className="text-sm border-t pt-2">
-                      <span className="font-medium">Reference:</span>
-                      <div className="text-muted-foreground">Please use your full name and email address</div>
-                    </div>
-                  </div>
-                </TabsContent>
-                
-                <TabsContent value="cash" className="mt-4">
-                  <div className="bg-white p-4 rounded-lg border">
-                    <div className="flex items-center gap-3">
-                      <Banknote className="h-4 w-4 text-green-600" />
-                      <div>
-                        <p className="text-sm font-medium">Pay at Reception</p>
-                        <p className="text-xs text-muted-foreground">Contact gym staff to arrange payment</p>
-                      </div>
-                    </div>
+            <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              {isHouseholdBalance ? (
+                <p className="text-sm text-blue-700">
+                  {user?.household?.payer_name} pays for your household's concessions. Ask them to buy a concession package to top up the shared balance.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-blue-700">
+                    Choose a concession package to get a payment reference. Pay by bank transfer or at reception, and your concessions are added once the gym confirms the payment.
+                  </p>
+                  <BuyConcessions />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Payments awaiting confirmation */}
+        {pendingPayments.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Payments Awaiting Confirmation
+              </CardTitle>
+              <CardDescription>
+                Quote the reference with your payment. Concessions are added once the gym confirms it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {pendingPayments.map(payment => (
+                <div key={payment.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">
+                      {payment.payment_type === 'drop_in'
+                        ? `Drop-in${payment.class_name ? ` for ${payment.class_name}` : ''}`
+                        : payment.package_name || `${payment.concessions_purchased} concessions`} - ${payment.amount.toFixed(2)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Reference: <span className="font-mono font-medium">{payment.reference}</span>
+                      {payment.payment_method === 'cash' && ' · pay at reception'}
+                    </p>
                   </div>
-                </TabsContent>
-              </Tabs>
+                  <Badge variant="secondary">Pending</Badge>
+                </div>
+              ))}
             </CardContent>
           </Card>
         )}
@@ -296,6 +438,7 @@ export const UserDashboard: React.FC = () => {
                   View Schedule
                 </Link>
               </Button>
+              {!isHouseholdBalance && <BuyConcessions variant="outline" className="flex-1" />}
               {user?.role === 'admin' && (
                 <Button variant="secondary" asChild className="flex-1">
                   <Link to="/admin">
@@ -309,13 +452,21 @@ export const UserDashboard: React.FC = () => {
               <div className="flex items-center gap-2 mt-4 p-3 bg-red-50 border border-red-200 rounded">
                 <AlertTriangle className="h-4 w-4 text-red-600" />
                 <p className="text-sm text-red-600">
-                  You have reached the credit limit. Please make a payment to continue booking classes.
+                  {isHouseholdBalance
+                    ? `Your household has reached the credit limit. Please ask ${user?.household?.payer_name} to make a payment.`
+                    : 'You have reached the credit limit. Please make a payment to continue booking classes.'}
                 </p>
               </div>
             )}
           </CardContent>
         </Card>
 
+        {/* Household bookings (for a payer) */}
+        <HouseholdBookings />
+
+        {/* Promo codes and gift vouchers */}
+        <RedeemVoucher />
+
         {/* Upcoming Classes */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
@@ -337,7 +488,7 @@ export const UserDashboard: React.FC = () => {
               <div className="space-y-4">
                 {upcomingBookings.map((booking) => {
                   const classDetails = getClassDetails(booking.class_id);
-                  const isLateCancel = classDetails ? isWithin24Hours(booking.booking_date, classDetails.time) : false;
+                  const isLateCancel = classDetails ? isLateCancellation(booking.class_id, booking.booking_date, classDetails.time) : false;
                   
                   return (
                     <div key={booking.id} className="flex items-center justify-between p-4 border rounded-lg">
@@ -363,7 +514,7 @@ export const UserDashboard: React.FC = () => {
                             className="text-xs bg-lilac text-white border-lilac"
                           >
                             <Award className="mr-1 h-3 w-3" />
-                            Used Concession
+                            {booking.charged_user_id ? 'Used Household Concession' : 'Used Concession'}
                           </Badge>
                         )}
                       </div>
@@ -371,6 +522,9 @@ export const UserDashboard: React.FC = () => {
                         <Badge variant={booking.status === 'confirmed' ? 'default' : 'secondary'}>
                           {booking.status}
                         </Badge>
+                        {booking.booking_date.split('T')[0] === today && (
+                          <CheckInCode bookingId={booking.id} className={classDetails?.name || 'class'} />
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -434,12 +588,12 @@ export const UserDashboard: React.FC = () => {
                           variant={
                             booking.status === 'confirmed' ? 'default' : 
                             booking.status === 'completed' ? 'secondary' :
-                            booking.status === 'late-cancelled' ? 'destructive' :
+                            booking.status === 'late-cancelled' || booking.status === 'no-show' ? 'destructive' :
                             'outline'
                           }
                           className="text-xs"
                         >
-                          {booking.status === 'late-cancelled' ? 'Late Cancelled' : booking.status}
+                          {booking.status === 'late-cancelled' ? 'Late Cancelled' : booking.status === 'no-show' ? 'No-show' : booking.status}
                         </Badge>
                         {booking.used_concession && (
                           <Tooltip>
@@ -453,7 +607,9 @@ export const UserDashboard: React.FC = () => {
                                   {booking.status === 'completed' 
                                     ? 'A concession was deducted for attending this class.'
                                     : booking.status === 'late-cancelled'
-                                    ? 'A concession was forfeited as a late cancellation penalty (you cancelled within 24 hours of the class start time).'
+                                    ? `A concession was forfeited as a late cancellation penalty (you cancelled within ${getPolicyForClass(booking.class_id).cancellation_deadline_hours} hours of the class start time).`
+                                    : booking.status === 'no-show'
+                                    ? 'A concession was used for this booking, but you were marked as not attending.'
                                     : 'A concession was used for this booking.'
                                   }
                                 </p>
@@ -474,6 +630,59 @@ export const UserDashboard: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Membership (refreshed as bookings change so the week's usage stays current) */}
+        {user && (
+          <MembershipSummary
+            key={userBookings.filter(booking => booking.status === 'confirmed').length}
+            userId={user.id}
+          />
+        )}
+
+        {/* Concession Packs */}
+        {user && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Concession Packs</CardTitle>
+              <CardDescription>
+                Concessions you have left in each pack and when they expire
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConcessionPacks key={user.concessions} userId={user.id} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Concession Statement */}
+        {user && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Concession Statement</CardTitle>
+              <CardDescription>
+                Every purchase, booking, refund and adjustment to your balance
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConcessionStatement key={user.concessions} userId={user.id} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Payment History */}
+        {user && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment History</CardTitle>
+              <CardDescription>
+                Download a GST receipt for any confirmed payment, e.g. to claim a wellness reimbursement
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PaymentHistory key={userPayments.length + user.concessions} userId={user.id} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Demo Instructions */}
         <Card className="border-dashed">
           <CardHeader>
@@ -490,15 +699,15 @@ export const UserDashboard: React.FC = () => {
               </div>
               <div className="flex items-start gap-2">
                 <div className="w-2 h-2 bg-primary rounded-full mt-1.5 flex-shrink-0"></div>
-                <p><strong>Concessions:</strong> You have {user?.concessions || 0} concessions available</p>
+                <p><strong>Concessions:</strong> {isHouseholdBalance ? 'Your household has' : 'You have'} {balance} concessions available</p>
               </div>
               <div className="flex items-start gap-2">
                 <div className="w-2 h-2 bg-primary rounded-full mt-1.5 flex-shrink-0"></div>
-                <p><strong>Credit System:</strong> You can book up to 5 classes on credit when you have 0 concessions (going to -5)</p>
+                <p><strong>Credit System:</strong> You can book up to {policy.credit_limit} classes on credit when you have 0 concessions (going to -{policy.credit_limit})</p>
               </div>
               <div className="flex items-start gap-2">
                 <div className="w-2 h-2 bg-primary rounded-full mt-1.5 flex-shrink-0"></div>
-                <p><strong>Cancellation Policy:</strong> Cancel within 24 hours and you'll still be charged a concession</p>
+                <p><strong>Cancellation Policy:</strong> Cancel within {policy.cancellation_deadline_hours} hours and you'll still be charged a concession</p>
               </div>
               <div className="flex items-start gap-2">
                 <div className="w-2 h-2 bg-primary rounded-full mt-1.5 flex-shrink-0"></div>
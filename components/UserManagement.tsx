@@ -28,9 +28,15 @@ import {
   TrendingDown,
   Clock,
   CheckCircle,
-  XCircle
+  XCircle,
+  UserX
 } from 'lucide-react';
 import { api } from '../services/api';
+import { ConcessionStatement } from './ConcessionStatement';
+import { ConcessionPacks } from './ConcessionPacks';
+import { MembershipManager } from './MembershipManager';
+import { HouseholdManager } from './HouseholdManager';
+import { PaymentHistory } from './PaymentHistory';
 
 interface User {
   id: number;
@@ -44,6 +50,19 @@ interface User {
   total_bookings?: number;
   completed_classes?: number;
   cancelled_bookings?: number;
+  no_show_count?: number;
+}
+
+interface UserStats {
+  confirmed_bookings: number;
+  completed_classes: number;
+  cancelled_bookings: number;
+  late_cancelled_bookings: number;
+  no_show_count: number;
+  no_show_penalties: number;
+  upcoming_bookings: number;
+  concessions_used: number;
+  note_count: number;
 }
 
 interface Note {
@@ -61,7 +80,7 @@ interface Booking {
   user_id: number;
   class_id: number;
   booking_date: string;
-  status: 'confirmed' | 'cancelled' | 'completed' | 'late-cancelled';
+  status: 'confirmed' | 'cancelled' | 'completed' | 'late-cancelled' | 'no-show';
   used_concession: boolean;
   booking_time: string;
   cancellation_time?: string;
@@ -76,9 +95,12 @@ const UserProfile: React.FC<{ user: User; onClose: () => void }> = ({ user, onCl
   const { getNotes } = useUser(); // Get getNotes function from UserContext
   const [notes, setNotes] = useState<Note[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [stats, setStats] = useState<UserStats | null>(null);
   const [newNote, setNewNote] = useState({ content: '', category: 'general' });
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [newConcessions, setNewConcessions] = useState(user.concessions);
+  const [adjustmentNote, setAdjustmentNote] = useState('');
+  const [statementVersion, setStatementVersion] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
@@ -92,6 +114,10 @@ const UserProfile: React.FC<{ user: User; onClose: () => void }> = ({ user, onCl
       const notesResponse = await api.getUserNotes(user.id);
       setNotes(notesResponse.notes || []);
 
+      // Load attendance statistics
+      const statsResponse = await api.getUserStats(user.id);
+      setStats(statsResponse.stats);
+
       // Load user bookings (mock data for now)
       // In a real app, you'd have an API endpoint for user bookings
       setBookings([]);
@@ -154,10 +180,12 @@ const UserProfile: React.FC<{ user: User; onClose: () => void }> = ({ user, onCl
   const handleUpdateConcessions = async () => {
     try {
       const concessionDifference = newConcessions - user.concessions;
-      await api.updateUserConcessions(user.id, concessionDifference);
+      await api.updateUserConcessions(user.id, concessionDifference, adjustmentNote.trim() || undefined);
       toast.success('Concessions updated successfully');
       // Update local user data
       user.concessions = newConcessions;
+      setAdjustmentNote('');
+      setStatementVersion(v => v + 1);
     } catch (error) {
       console.error('Failed to update concessions:', error);
       toast.error('Failed to update concessions');
@@ -222,12 +250,15 @@ const UserProfile: React.FC<{ user: User; onClose: () => void }> = ({ user, onCl
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="bookings">Bookings</TabsTrigger>
+          <TabsTrigger value="statement">Statement</TabsTrigger>
+          {user.role === 'user' && <TabsTrigger value="membership">Membership</TabsTrigger>}
+          {user.role === 'user' && <TabsTrigger value="household">Household</TabsTrigger>}
           <TabsTrigger value="notes">Notes</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm">Total Bookings</CardTitle>
@@ -247,13 +278,28 @@ const UserProfile: React.FC<{ user: User; onClose: () => void }> = ({ user, onCl
                 <CheckCircle className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl">{user.completed_classes || 0}</div>
+                <div className="text-2xl">{stats?.completed_classes ?? user.completed_classes ?? 0}</div>
                 <p className="text-xs text-muted-foreground">
                   Successfully attended
                 </p>
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm">No-shows</CardTitle>
+                <UserX className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl">{stats?.no_show_count ?? user.no_show_count ?? 0}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stats && stats.no_show_penalties > 0
+                    ? `${stats.no_show_penalties} concession(s) in penalties`
+                    : 'Booked but did not attend'}
+                </p>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm">Cancellation Rate</CardTitle>
@@ -360,6 +406,74 @@ const UserProfile: React.FC<{ user: User; onClose: () => void }> = ({ user, onCl
           </Card>
         </TabsContent>
 
+        <TabsContent value="statement" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Concession Packs</CardTitle>
+              <CardDescription>
+                Concessions left in each pack this user has, in the order they're used
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConcessionPacks key={statementVersion} userId={user.id} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Concession Statement</CardTitle>
+              <CardDescription>
+                Every change to this user's concession balance, with the running balance
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ConcessionStatement key={statementVersion} userId={user.id} showActor />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Payments</CardTitle>
+              <CardDescription>
+                This user's payments and receipts. Re-issue a receipt after correcting the business details or the user's name.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PaymentHistory key={statementVersion} userId={user.id} canReissue />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {user.role === 'user' && (
+          <TabsContent value="membership">
+            <Card>
+              <CardHeader>
+                <CardTitle>Membership</CardTitle>
+                <CardDescription>
+                  Classes a membership covers are booked without concessions; anything else falls back to the balance
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <MembershipManager userId={user.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
+        {user.role === 'user' && (
+          <TabsContent value="household">
+            <Card>
+              <CardHeader>
+                <CardTitle>Household</CardTitle>
+                <CardDescription>
+                  Dependants book against their household payer's balance, and the payer can see and cancel their bookings
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HouseholdManager userId={user.id} userName={user.name} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
         <TabsContent value="notes">
           <div className="space-y-4">
             {/* Add Note Card */}
@@ -515,6 +629,15 @@ const UserProfile: React.FC<{ user: User; onClose: () => void }> = ({ user, onCl
                       className="w-32"
                     />
                   </div>
+                  <div className="space-y-2 flex-1">
+                    <Label htmlFor="adjustment-note">Reason (shown on statement)</Label>
+                    <Input
+                      id="adjustment-note"
+                      value={adjustmentNote}
+                      onChange={(e) => setAdjustmentNote(e.target.value)}
+                      placeholder="e.g. Goodwill credit"
+                    />
+                  </div>
                   <Button onClick={handleUpdateConcessions} className="mt-6">
                     Update Concessions
                   </Button>
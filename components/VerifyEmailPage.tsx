@@ -0,0 +1,81 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { Loader2, MailCheck } from 'lucide-react';
+import { api } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+// Confirm a member's email from the link in their verification email (/verify-email?token=...)
+export const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { user, refreshUser } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [message, setMessage] = useState('');
+  // The token only works once, so don't send it twice when effects run twice in development
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    if (hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    if (!token) {
+      setStatus('failed');
+      setMessage('This link is missing its confirmation code. Please use the link from your email.');
+      return;
+    }
+
+    verify();
+  }, [token]);
+
+  const verify = async () => {
+    try {
+      const response = await api.verifyEmail(token);
+      setStatus('verified');
+      setMessage(response.message);
+      if (user) {
+        await refreshUser();
+      }
+    } catch (error) {
+      setStatus('failed');
+      setMessage(error instanceof Error ? error.message : 'Unable to confirm your email. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl text-center">Confirm your email</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status === 'verifying' ? (
+            <div className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Confirming your email...
+            </div>
+          ) : status === 'verified' ? (
+            <Alert className="border-green-200 bg-green-50 text-green-800">
+              <MailCheck className="h-4 w-4" />
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          ) : (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {message} {user ? 'You can send a new link from your dashboard.' : 'Sign in to send a new link from your dashboard.'}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status !== 'verifying' && (
+            <Button asChild className="w-full">
+              <Link to={user ? '/dashboard' : '/login'}>{user ? 'Go to Dashboard' : 'Sign In'}</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,523 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner';
+import { Gift, Plus, Edit, Trash2, FileText } from 'lucide-react';
+import { api } from '../services/api';
+import { usePayment } from '../contexts/PaymentContext';
+
+type VoucherType = 'concessions' | 'percent_off';
+
+interface Voucher {
+  id: number;
+  code: string;
+  description: string | null;
+  voucher_type: VoucherType;
+  concessions: number | null;
+  validity_months: number | null;
+  percent_off: number | null;
+  package_id: number | null;
+  package_name?: string | null;
+  max_uses: number | null;
+  expires_on: string | null;
+  new_members_only: boolean;
+  is_active: boolean;
+  use_count: number;
+  concessions_given: number;
+  discount_given: number;
+}
+
+interface VoucherRedemption {
+  id: number;
+  voucher_id: number;
+  code: string;
+  user_id: number;
+  user_name: string | null;
+  user_email: string | null;
+  source: 'registration' | 'dashboard' | 'purchase';
+  concessions: number;
+  discount_amount: number;
+  payment_reference: string | null;
+  payment_status: string | null;
+  is_void: boolean;
+  redeemed_at: string;
+}
+
+interface RedemptionTotals {
+  redemptions: number;
+  members: number;
+  concessions: number;
+  discount: number;
+}
+
+// The form keeps every field as typed; numbers are parsed when it's saved
+interface VoucherForm {
+  code: string;
+  description: string;
+  voucher_type: VoucherType;
+  concessions: string;
+  validity_months: string;
+  percent_off: string;
+  package_id: string;
+  max_uses: string;
+  expires_on: string;
+  new_members_only: boolean;
+  is_active: boolean;
+}
+
+const ANY_PACKAGE = 'any';
+const ALL_VOUCHERS = 'all';
+
+const EMPTY_FORM: VoucherForm = {
+  code: '',
+  description: '',
+  voucher_type: 'concessions',
+  concessions: '1',
+  validity_months: '',
+  percent_off: '',
+  package_id: ANY_PACKAGE,
+  max_uses: '',
+  expires_on: '',
+  new_members_only: false,
+  is_active: true
+};
+
+const SOURCE_LABELS: Record<VoucherRedemption['source'], string> = {
+  registration: 'Sign-up',
+  dashboard: 'Dashboard',
+  purchase: 'Purchase'
+};
+
+// Helper function to format an amount in dollars
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Helper function to describe what a voucher gives
+const describeReward = (voucher: Voucher) => voucher.voucher_type === 'concessions'
+  ? `${voucher.concessions} free concession${voucher.concessions === 1 ? '' : 's'}${voucher.validity_months ? `, valid ${voucher.validity_months} month${voucher.validity_months > 1 ? 's' : ''}` : ''}`
+  : `${voucher.percent_off}% off ${voucher.package_name || 'any package'}`;
+
+const toForm = (voucher: Voucher): VoucherForm => ({
+  code: voucher.code,
+  description: voucher.description || '',
+  voucher_type: voucher.voucher_type,
+  concessions: voucher.concessions ? String(voucher.concessions) : '',
+  validity_months: voucher.validity_months ? String(voucher.validity_months) : '',
+  percent_off: voucher.percent_off ? String(voucher.percent_off) : '',
+  package_id: voucher.package_id ? String(voucher.package_id) : ANY_PACKAGE,
+  max_uses: voucher.max_uses ? String(voucher.max_uses) : '',
+  expires_on: voucher.expires_on ? voucher.expires_on.split('T')[0] : '',
+  new_members_only: voucher.new_members_only,
+  is_active: voucher.is_active
+});
+
+export const VoucherManagementModal: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  const [form, setForm] = useState<VoucherForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [redemptions, setRedemptions] = useState<VoucherRedemption[]>([]);
+  const [totals, setTotals] = useState<RedemptionTotals | null>(null);
+  const [reportVoucherId, setReportVoucherId] = useState(ALL_VOUCHERS);
+  const [reportFrom, setReportFrom] = useState('');
+  const [reportTo, setReportTo] = useState('');
+  const { packages } = usePayment();
+
+  useEffect(() => {
+    if (isOpen) {
+      loadVouchers();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRedemptions();
+    }
+  }, [isOpen, reportVoucherId, reportFrom, reportTo]);
+
+  const loadVouchers = async () => {
+    try {
+      const response = await api.getVouchers();
+      setVouchers(response.vouchers || []);
+    } catch (error) {
+      console.error('Failed to load vouchers:', error);
+      toast.error('Failed to load vouchers');
+    }
+  };
+
+  const loadRedemptions = async () => {
+    try {
+      const response = await api.getVoucherRedemptions({
+        voucher_id: reportVoucherId === ALL_VOUCHERS ? undefined : parseInt(reportVoucherId),
+        from: reportFrom || undefined,
+        to: reportTo || undefined
+      });
+      setRedemptions(response.redemptions || []);
+      setTotals(response.totals || null);
+    } catch (error) {
+      console.error('Failed to load voucher redemptions:', error);
+      toast.error('Failed to load redemptions');
+    }
+  };
+
+  const openForm = (voucher?: Voucher) => {
+    setEditingId(voucher ? voucher.id : null);
+    setForm(voucher ? toForm(voucher) : EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isConcessions = form.voucher_type === 'concessions';
+    const input = {
+      code: form.code.trim().toUpperCase(),
+      description: form.description.trim() || null,
+      voucher_type: form.voucher_type,
+      concessions: isConcessions ? parseInt(form.concessions) : null,
+      validity_months: isConcessions && form.validity_months ? parseInt(form.validity_months) : null,
+      percent_off: isConcessions ? null : parseInt(form.percent_off),
+      package_id: !isConcessions && form.package_id !== ANY_PACKAGE ? parseInt(form.package_id) : null,
+      max_uses: form.max_uses ? parseInt(form.max_uses) : null,
+      expires_on: form.expires_on || null,
+      new_members_only: form.new_members_only,
+      is_active: form.is_active
+    };
+
+    try {
+      setIsSaving(true);
+      const response = editingId
+        ? await api.updateVoucher(editingId, input)
+        : await api.createVoucher(input);
+      toast.success(response.message);
+      setIsFormOpen(false);
+      await loadVouchers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save voucher');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetire = async (voucher: Voucher) => {
+    if (!window.confirm(`Retire ${voucher.code}? Members won't be able to use it, but its redemptions stay in the report.`)) return;
+
+    try {
+      const response = await api.retireVoucher(voucher.id);
+      toast.success(response.message);
+      await loadVouchers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retire voucher');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Gift className="h-4 w-4" />
+          Vouchers
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gift className="h-5 w-5" />
+            Promo Codes & Gift Vouchers
+          </DialogTitle>
+          <DialogDescription>
+            Codes members redeem for free concessions or enter for a discount when buying a package
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Vouchers */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Codes</CardTitle>
+                <CardDescription>A discount only counts once the purchase it was used on is confirmed</CardDescription>
+              </div>
+              {!isFormOpen && (
+                <Button size="sm" onClick={() => openForm()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Code
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isFormOpen && (
+                <form onSubmit={handleSave} className="space-y-4 p-4 border rounded-lg">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="voucher_code">Code *</Label>
+                      <Input
+                        id="voucher_code"
+                        value={form.code}
+                        onChange={(e) => setForm({ ...form, code: e.target.value })}
+                        placeholder="e.g., XMAS25"
+                        className="uppercase"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="voucher_description">Description</Label>
+                      <Input
+                        id="voucher_description"
+                        value={form.description}
+                        onChange={(e) => setForm({ ...form, description: e.target.value })}
+                        placeholder="e.g., Christmas gift voucher"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Gives</Label>
+                      <Select value={form.voucher_type} onValueChange={(value: string) => setForm({ ...form, voucher_type: value as VoucherType })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="concessions">Free concessions</SelectItem>
+                          <SelectItem value="percent_off">% off a package</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {form.voucher_type === 'concessions' ? (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="voucher_concessions">Concessions *</Label>
+                          <Input
+                            id="voucher_concessions"
+                            type="number"
+                            min="1"
+                            max="100"
+                            value={form.concessions}
+                            onChange={(e) => setForm({ ...form, concessions: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="voucher_validity">Valid for (months)</Label>
+                          <Input
+                            id="voucher_validity"
+                            type="number"
+                            min="1"
+                            max="36"
+                            value={form.validity_months}
+                            onChange={(e) => setForm({ ...form, validity_months: e.target.value })}
+                            placeholder="Never expire"
+                          />
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="voucher_percent">% off *</Label>
+                          <Input
+                            id="voucher_percent"
+                            type="number"
+                            min="1"
+                            max="100"
+                            value={form.percent_off}
+                            onChange={(e) => setForm({ ...form, percent_off: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Package</Label>
+                          <Select value={form.package_id} onValueChange={(value: string) => setForm({ ...form, package_id: value })}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ANY_PACKAGE}>Any package</SelectItem>
+                              {packages.map(concessionPackage => (
+                                <SelectItem key={concessionPackage.id} value={String(concessionPackage.id)}>
+                                  {concessionPackage.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="voucher_max_uses">Maximum uses</Label>
+                      <Input
+                        id="voucher_max_uses"
+                        type="number"
+                        min="1"
+                        value={form.max_uses}
+                        onChange={(e) => setForm({ ...form, max_uses: e.target.value })}
+                        placeholder="Unlimited (1 for single use)"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="voucher_expires_on">Expires on</Label>
+                      <Input
+                        id="voucher_expires_on"
+                        type="date"
+                        value={form.expires_on}
+                        onChange={(e) => setForm({ ...form, expires_on: e.target.value })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-6">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="voucher_new_members"
+                        checked={form.new_members_only}
+                        onCheckedChange={(checked: boolean) => setForm({ ...form, new_members_only: checked })}
+                      />
+                      <Label htmlFor="voucher_new_members" className="font-normal">New members only</Label>
+                    </div>
+                    {editingId && (
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="voucher_active"
+                          checked={form.is_active}
+                          onCheckedChange={(checked: boolean) => setForm({ ...form, is_active: checked })}
+                        />
+                        <Label htmlFor="voucher_active" className="font-normal">Active</Label>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>Cancel</Button>
+                    <Button type="submit" disabled={isSaving || !form.code.trim()}>
+                      {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Code'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {vouchers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No codes yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {vouchers.map(voucher => (
+                    <div key={voucher.id} className={`flex items-start justify-between gap-4 p-3 border rounded-lg ${voucher.is_active ? '' : 'opacity-60'}`}>
+                      <div className="space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-mono font-medium">{voucher.code}</span>
+                          {!voucher.is_active && <Badge variant="outline">Retired</Badge>}
+                          {voucher.new_members_only && <Badge variant="secondary">New members</Badge>}
+                        </div>
+                        <p className="text-sm">
+                          {describeReward(voucher)}
+                          {voucher.description && <span className="text-muted-foreground"> · {voucher.description}</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Used {voucher.use_count}{voucher.max_uses ? ` of ${voucher.max_uses}` : ''} time{voucher.use_count === 1 && !voucher.max_uses ? '' : 's'}
+                          {voucher.voucher_type === 'concessions'
+                            ? ` · ${voucher.concessions_given} concessions given`
+                            : ` · ${formatAmount(voucher.discount_given)} discounted`}
+                          {voucher.expires_on && ` · expires ${new Date(`${voucher.expires_on.split('T')[0]}T00:00:00`).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button variant="outline" size="sm" onClick={() => openForm(voucher)} title="Edit code">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {voucher.is_active && (
+                          <Button variant="outline" size="sm" onClick={() => handleRetire(voucher)} title="Retire code">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Redemption Report */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Redemptions
+              </CardTitle>
+              <CardDescription>
+                Every use of a code, by member. Discounts on purchases that were rejected or cancelled don't count.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Code</Label>
+                  <Select value={reportVoucherId} onValueChange={(value: string) => setReportVoucherId(value)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_VOUCHERS}>All codes</SelectItem>
+                      {vouchers.map(voucher => (
+                        <SelectItem key={voucher.id} value={String(voucher.id)}>{voucher.code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="report_from">From</Label>
+                  <Input id="report_from" type="date" value={reportFrom} onChange={(e) => setReportFrom(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="report_to">To</Label>
+                  <Input id="report_to" type="date" value={reportTo} onChange={(e) => setReportTo(e.target.value)} />
+                </div>
+              </div>
+
+              {totals && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-2xl font-bold">{totals.redemptions}</p>
+                    <p className="text-xs text-muted-foreground">Redemptions</p>
+                  </div>
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-2xl font-bold">{totals.members}</p>
+                    <p className="text-xs text-muted-foreground">Members</p>
+                  </div>
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-2xl font-bold">{totals.concessions}</p>
+                    <p className="text-xs text-muted-foreground">Free concessions</p>
+                  </div>
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-2xl font-bold">{formatAmount(totals.discount)}</p>
+                    <p className="text-xs text-muted-foreground">Discounted</p>
+                  </div>
+                </div>
+              )}
+
+              {redemptions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No redemptions for these filters.</p>
+              ) : (
+                <div className="space-y-2">
+                  {redemptions.map(redemption => (
+                    <div key={redemption.id} className={`flex items-center justify-between gap-4 p-3 border rounded-lg text-sm ${redemption.is_void ? 'opacity-60' : ''}`}>
+                      <div>
+                        <p className="font-medium">
+                          {redemption.user_name || 'Deleted member'}
+                          <span className="font-mono font-normal text-muted-foreground"> · {redemption.code}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(redemption.redeemed_at).toLocaleDateString()} · {SOURCE_LABELS[redemption.source]}
+                          {redemption.payment_reference && ` · ${redemption.payment_reference} (${redemption.payment_status})`}
+                        </p>
+                      </div>
+                      <Badge variant={redemption.is_void ? 'outline' : 'secondary'}>
+                        {redemption.concessions > 0
+                          ? `+${redemption.concessions} concession${redemption.concessions === 1 ? '' : 's'}`
+                          : `-${formatAmount(redemption.discount_amount)}`}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
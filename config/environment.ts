@@ -80,21 +80,15 @@ export const config = {
   
   // Business Logic Configuration
   BUSINESS: {
-    // Booking Configuration
-    MAX_ADVANCE_BOOKING_DAYS: 14,
-    CANCELLATION_DEADLINE_HOURS: 24,
-    MAX_CREDIT_LIMIT: -5,
+    // Booking rules (booking window, cancellation deadline, credit limit) come from
+    // the server's /settings/policies endpoint - see contexts/PolicyContext.tsx
     
     // Class Configuration
     DEFAULT_CLASS_CAPACITY: 20,
     
     // Pricing (for display and analytics)
+    // Concession packages are managed by admins and stored server-side (see Payment Settings)
     PRICING: {
-      CONCESSION_PACKAGES: {
-        SMALL: { classes: 5, price: 40 },
-        MEDIUM: { classes: 10, price: 70 },
-        LARGE: { classes: 20, price: 120 },
-      },
       SINGLE_CLASS: 10,
       CONCESSION_VALUE: 8, // Used for revenue calculations
     },
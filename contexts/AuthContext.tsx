@@ -1,23 +1,38 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { api, ApiError, getAuthToken, setAuthToken, removeAuthToken } from '../services/api';
+import { api, ApiError, getAuthToken, setAuthToken, removeAuthToken, SESSION_ENDED_EVENT } from '../services/api';
 import config from '../config/environment';
 
+// The member's household: dependants book against the payer's shared balance
+interface HouseholdSummary {
+  id: number;
+  name: string;
+  role: 'payer' | 'dependant';
+  payer_id: number;
+  payer_name: string;
+  concessions: number; // The payer's balance
+  members: { id: number; name: string }[]; // Dependants
+}
+
 interface User {
   id: number;
   name: string;
   email: string;
-  role: 'user' | 'admin';
+  role: 'user' | 'admin' | 'instructor';
   concessions: number;
   join_date?: string;
+  home_location_id?: number | null;
+  email_verified?: boolean; // false until the member follows the link in their verification email
+  household?: HouseholdSummary | null;
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  register: (name: string, email: string, password: string) => Promise<void>;  
+  register: (name: string, email: string, password: string, voucherCode?: string) => Promise<string>;  
   logout: () => void;
   refreshUser: () => Promise<void>;
+  updateHomeLocation: (locationId: number | null) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -30,6 +45,11 @@ export const useAuth = () => {
   return context;
 };
 
+// The concession balance a member books against: their household payer's when they're a dependant,
+// otherwise their own
+export const getBookingBalance = (user: User | null) =>
+  user?.household?.role === 'dependant' ? user.household.concessions : user?.concessions || 0;
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -60,7 +80,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             }
           }
         } else {
-          console.log('🔐 No token found, user not authenticated');
+          // The access token isn't kept between visits for long, but the refresh token cookie may still
+          // be good, so try signing back in silently
+          try {
+            const refreshResponse = await api.refreshSession();
+            setAuthToken(refreshResponse.token);
+            const authResponse = await api.getCurrentUser();
+            setUser(authResponse.user);
+            console.log('✅ Session restored:', authResponse.user.email);
+          } catch {
+            removeAuthToken();
+            console.log('🔐 No session found, user not authenticated');
+          }
         }
       } catch (error) {
         console.error('Auth initialization error:', error);
@@ -79,6 +110,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => clearTimeout(timer);
   }, []);
 
+  // The API signals when a session can't be refreshed (expired, or signed out from another device)
+  useEffect(() => {
+    const handleSessionEnded = () => {
+      console.log('🔐 Session ended, signing out');
+      setUser(null);
+    };
+
+    window.addEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+    return () => window.removeEventListener(SESSION_ENDED_EVENT, handleSessionEnded);
+  }, []);
+
   const login = async (email: string, password: string) => {
     try {
       setIsLoading(true);
@@ -120,12 +162,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const register = async (name: string, email: string, password: string) => {
+  // Returns the server's message, which says whether a promo code was applied
+  const register = async (name: string, email: string, password: string, voucherCode?: string) => {
     try {
       setIsLoading(true);
       console.log('📝 Attempting registration for:', email);
       
-      const registerResponse = await api.register(name, email, password);
+      const registerResponse = await api.register(name, email, password, voucherCode);
       
       // Store token
       setAuthToken(registerResponse.token);
@@ -134,6 +177,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setUser(registerResponse.user);
       
       console.log('✅ Registration successful:', registerResponse.user.email);
+      return registerResponse.message as string;
     } catch (error) {
       console.error('Registration failed:', error);
       
@@ -157,6 +201,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const logout = () => {
     console.log('🔐 Logging out user');
+    // End the session on the server too; signing out here shouldn't wait on (or fail with) the network
+    api.logout().catch(error => console.error('Logout request failed:', error));
     removeAuthToken();
     setUser(null);
   };
@@ -174,13 +220,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const updateHomeLocation = async (locationId: number | null) => {
+    try {
+      const response = await api.updateProfile({ home_location_id: locationId });
+      setUser(current => current ? { ...current, home_location_id: response.home_location_id } : current);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to update home location';
+      throw new Error(errorMessage);
+    }
+  };
+
   const value = {
     user,
     isLoading,
     login,
     register,
     logout,
-    refreshUser
+    refreshUser,
+    updateHomeLocation
   };
 
   return (
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { api, ApiError } from '../services/api';
 import { useAuth } from './AuthContext';
+import { usePolicy } from './PolicyContext';
+import type { TimeOfDay } from '../services/timeOfDay';
 
 interface GymClass {
   id: number;
@@ -8,9 +10,18 @@ interface GymClass {
   time: string;
   duration: string;
   instructor: string;
+  room_name?: string | null;
+  location_id?: number | null;
+  location_name?: string | null;
+  class_type_id?: number | null;
+  class_type_name?: string | null;
+  class_type_color?: string | null;
+  class_type_icon?: string | null;
   max_capacity: number;
+  concession_cost?: number; // Concessions one booking costs
+  drop_in_price?: number | null; // Pay-per-class price (null = concessions only)
   description: string;
-  category: 'morning' | 'afternoon';
+  category: TimeOfDay; // Derived from time
   days: string[];
   status?: 'published' | 'draft' | 'scheduled'; // Optional for backward compatibility
   publish_date?: string; // When the class becomes available for booking
@@ -25,17 +36,127 @@ interface Booking {
   user_id: number;
   class_id: number;
   booking_date: string;
-  status: 'confirmed' | 'cancelled' | 'completed' | 'late-cancelled';
+  status: 'confirmed' | 'cancelled' | 'completed' | 'late-cancelled' | 'no-show';
   used_concession: boolean;
+  concessions_charged?: number;
   booking_time: string;
   cancellation_time?: string;
   is_late_cancellation: boolean;
+  payment_amount?: number | null; // Drop-in payment for the booking, if any
+  payment_reference?: string | null;
+  payment_status?: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | null;
   class_name?: string;
   time?: string;
   instructor?: string;
   duration?: string;
   user_name?: string;
   user_email?: string;
+  standing_booking_id?: number | null;
+  charged_user_id?: number | null; // Household payer whose balance the booking was charged to
+}
+
+type AttendanceMark = 'attended' | 'no-show' | 'pending';
+
+type PaymentOption = 'concessions' | 'drop_in';
+
+// A member booked into a session, as shown on the attendance roster
+interface RosterEntry {
+  id: number;
+  user_id: number;
+  status: 'confirmed' | 'completed' | 'no-show';
+  booking_time: string;
+  no_show_penalty: number;
+  attendance_marked_at: string | null;
+  user_name: string;
+  user_email: string;
+  marked_by_name: string | null;
+}
+
+// Today's session as shown on the front desk kiosk
+interface KioskSession {
+  class_id: number;
+  name: string;
+  time: string;
+  duration: string;
+  instructor: string;
+  booked_count: number;
+  checked_in_count: number;
+  check_in_open: boolean;
+}
+
+type CheckInCredentials = { token: string } | { email: string; class_id?: number };
+
+interface CheckInResult {
+  message: string;
+  already_checked_in: boolean;
+  member_name: string;
+  class_name: string;
+}
+
+interface CalendarSubscription {
+  url: string;
+  webcal_url: string;
+}
+
+interface WaitlistEntry {
+  id: number;
+  user_id: number;
+  class_id: number;
+  booking_date: string;
+  status: 'waiting' | 'promoted' | 'cancelled';
+  booking_id?: number;
+  promoted_at?: string;
+  acknowledged_at?: string;
+  position: number | null;
+  class_name?: string;
+  class_time?: string;
+  instructor?: string;
+}
+
+// A booked session another instructor is covering, until the member dismisses the notice
+interface SubstitutionNotice {
+  id: number;
+  class_id: number;
+  booking_date: string;
+  class_name: string;
+  class_time: string;
+  substitute_name: string | null;
+  original_instructor_name: string | null;
+  reason: string | null;
+}
+
+type StandingBookingSkipReason = 'class_full' | 'credit_limit' | 'class_cancelled' | 'class_unavailable';
+
+// A "book every week" subscription, with the dates it couldn't book
+interface StandingBooking {
+  id: number;
+  class_id: number;
+  status: 'active' | 'cancelled';
+  start_date: string;
+  last_run_at?: string | null;
+  class_name?: string;
+  class_time?: string;
+  days: string[];
+  instructor?: string;
+  upcoming_count: number;
+  skipped_dates: { date: string; reason: StandingBookingSkipReason }[];
+}
+
+interface ClassOccurrence {
+  class_id: number;
+  occurrence_date: string;
+  name: string;
+  time: string;
+  duration: string;
+  instructor: string;
+  substitute_instructor_id: number | null;
+  is_substitute: boolean;
+  max_capacity: number;
+  is_cancelled: boolean;
+  cancellation_reason: string | null;
+  is_scheduled: boolean;
+  has_override: boolean;
+  override_id: number | null;
 }
 
 interface BookingContextType {
@@ -44,13 +165,36 @@ interface BookingContextType {
   allBookings: Booking[];
   isLoading: boolean;
   error: string | null;
-  bookClass: (classId: number, date: string) => Promise<void>;
+  bookClass: (classId: number, date: string, paymentOption?: PaymentOption) => Promise<string>;
   cancelBooking: (bookingId: number) => Promise<{ isLateCancellation: boolean; message: string; concessionRefunded?: boolean }>;
   completeClass: (classId: number, date: string) => Promise<void>;
   undoCompleteClass: (classId: number, date: string) => Promise<void>;
+  markAttendance: (bookingId: number, attendance: AttendanceMark) => Promise<string>;
+  getClassRoster: (classId: number, date: string) => Promise<RosterEntry[]>;
+  getCheckInCode: (bookingId: number) => Promise<{ token: string; expires_at: string }>;
+  getKioskSessions: () => Promise<KioskSession[]>;
+  checkIn: (credentials: CheckInCredentials) => Promise<CheckInResult>;
+  getCalendarSubscription: () => Promise<CalendarSubscription>;
+  resetCalendarSubscription: () => Promise<CalendarSubscription>;
+  downloadBookingCalendar: (bookingId: number) => Promise<void>;
   refreshBookings: () => Promise<void>;
   refreshAllBookings: () => Promise<void>;
   getClassBookings: (classId: number, date: string) => Promise<Booking[]>;
+  waitlist: WaitlistEntry[];
+  joinWaitlist: (classId: number, date: string) => Promise<{ position: number; message: string }>;
+  leaveWaitlist: (entryId: number) => Promise<void>;
+  acknowledgeWaitlistPromotion: (entryId: number) => Promise<void>;
+  refreshWaitlist: () => Promise<void>;
+  substitutionNotices: SubstitutionNotice[];
+  acknowledgeSubstitutionNotice: (noticeId: number) => Promise<void>;
+  refreshSubstitutionNotices: () => Promise<void>;
+  standingBookings: StandingBooking[];
+  createStandingBooking: (classId: number) => Promise<{ message: string; booked: string[]; skipped: { date: string; reason: StandingBookingSkipReason }[] }>;
+  cancelStandingBooking: (standingBookingId: number) => Promise<string>;
+  refreshStandingBookings: () => Promise<void>;
+  occurrences: ClassOccurrence[];
+  getOccurrence: (classId: number, date: string) => ClassOccurrence | undefined;
+  refreshOccurrences: () => Promise<void>;
 }
 
 const BookingContext = createContext<BookingContextType | undefined>(undefined);
@@ -105,9 +249,14 @@ const isClassAvailableForBooking = (gymClass: GymClass): boolean => {
 
 export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, refreshUser } = useAuth();
+  const { maxBookingWindowDays } = usePolicy();
   const [classes, setClasses] = useState<GymClass[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [allBookings, setAllBookings] = useState<Booking[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [substitutionNotices, setSubstitutionNotices] = useState<SubstitutionNotice[]>([]);
+  const [standingBookings, setStandingBookings] = useState<StandingBooking[]>([]);
+  const [occurrences, setOccurrences] = useState<ClassOccurrence[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -118,10 +267,21 @@ export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ child
       refreshBookings();
       if (user.role === 'admin') {
         refreshAllBookings();
+      } else {
+        refreshWaitlist();
+        refreshStandingBookings();
+        refreshSubstitutionNotices();
       }
     }
   }, [user]);
 
+  // The schedule covers the booking window, which admins can change
+  useEffect(() => {
+    if (user) {
+      refreshOccurrences();
+    }
+  }, [user, maxBookingWindowDays]);
+
   const loadClasses = async () => {
     try {
       setIsLoading(true);
@@ -164,7 +324,59 @@ export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const bookClass = async (classId: number, date: string) => {
+  const refreshWaitlist = async () => {
+    if (!user || user.role !== 'user') return;
+    
+    try {
+      const response = await api.getMyWaitlist();
+      setWaitlist(response.waitlist);
+    } catch (error) {
+      console.error('Failed to load waitlist:', error);
+    }
+  };
+
+  const refreshSubstitutionNotices = async () => {
+    if (!user || user.role !== 'user') return;
+    
+    try {
+      const response = await api.getMySubstitutionNotices();
+      setSubstitutionNotices(response.substitutions);
+    } catch (error) {
+      console.error('Failed to load instructor changes:', error);
+    }
+  };
+
+  const refreshStandingBookings = async () => {
+    if (!user || user.role !== 'user') return;
+    
+    try {
+      const response = await api.getStandingBookings();
+      setStandingBookings(response.standing_bookings);
+    } catch (error) {
+      console.error('Failed to load standing bookings:', error);
+    }
+  };
+
+  // Load the dated schedule (weekly pattern plus per-date overrides) for the booking window
+  const refreshOccurrences = async () => {
+    if (!user) return;
+    
+    try {
+      const from = new Date();
+      const to = new Date();
+      to.setDate(to.getDate() + maxBookingWindowDays);
+      const response = await api.getOccurrences(from.toISOString().split('T')[0], to.toISOString().split('T')[0]);
+      setOccurrences(response.occurrences);
+    } catch (error) {
+      console.error('Failed to load class schedule:', error);
+    }
+  };
+
+  const getOccurrence = (classId: number, date: string) => {
+    return occurrences.find(o => o.class_id === classId && o.occurrence_date === date);
+  };
+
+  const bookClass = async (classId: number, date: string, paymentOption: PaymentOption = 'concessions') => {
     try {
       setIsLoading(true);
       
@@ -174,19 +386,22 @@ export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ child
         throw new Error('This class is no longer available for booking');
       }
       
-      await api.createBooking(classId, date);
+      const response = await api.createBooking(classId, date, paymentOption);
       
       // Refresh bookings and user data to update concession count
       await refreshBookings();
+      await refreshWaitlist();
       await refreshUser(); // This will update the user's concession count
       if (user?.role === 'admin') {
         await refreshAllBookings();
       }
       
       setError(null);
+      return response.message as string;
     } catch (error) {
       const errorMessage = error instanceof ApiError ? error.message : 'Failed to book class';
       setError(errorMessage);
+      await refreshOccurrences();
       throw new Error(errorMessage);
     } finally {
       setIsLoading(false);
@@ -202,6 +417,8 @@ export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ child
       
       // Refresh bookings and user data to update concession count
       await refreshBookings();
+      await refreshStandingBookings();
+      await refreshSubstitutionNotices();
       await refreshUser(); // This will update the user's concession count
       if (user?.role === 'admin') {
         await refreshAllBookings();
@@ -256,6 +473,187 @@ export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  const markAttendance = async (bookingId: number, attendance: AttendanceMark) => {
+    try {
+      setIsLoading(true);
+      const response = await api.markAttendance(bookingId, attendance);
+      
+      await refreshAllBookings();
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to mark attendance';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getCheckInCode = async (bookingId: number) => {
+    try {
+      return await api.getCheckInCode(bookingId);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to get check-in code';
+      throw new Error(errorMessage);
+    }
+  };
+
+  const getKioskSessions = async () => {
+    try {
+      const response = await api.getKioskSessions();
+      return response.sessions;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : "Failed to load today's classes";
+      throw new Error(errorMessage);
+    }
+  };
+
+  const checkIn = async (credentials: CheckInCredentials) => {
+    try {
+      return await api.checkIn(credentials);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to check in';
+      throw new Error(errorMessage);
+    }
+  };
+
+  const getCalendarSubscription = async () => {
+    try {
+      const response = await api.getCalendarSubscription();
+      return { url: response.url, webcal_url: response.webcal_url };
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to get calendar link';
+      throw new Error(errorMessage);
+    }
+  };
+
+  const resetCalendarSubscription = async () => {
+    try {
+      const response = await api.resetCalendarSubscription();
+      return { url: response.url, webcal_url: response.webcal_url };
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to reset calendar link';
+      throw new Error(errorMessage);
+    }
+  };
+
+  // Save a booking as an .ics file the member can open in their calendar app
+  const downloadBookingCalendar = async (bookingId: number) => {
+    try {
+      const ics = await api.downloadBookingCalendar(bookingId);
+      const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `flexbook-booking-${bookingId}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to export booking';
+      throw new Error(errorMessage);
+    }
+  };
+
+  const joinWaitlist = async (classId: number, date: string) => {
+    try {
+      setIsLoading(true);
+      const response = await api.joinWaitlist(classId, date);
+      
+      await refreshWaitlist();
+      setError(null);
+      return {
+        position: response.entry.position,
+        message: response.message
+      };
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to join waitlist';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const leaveWaitlist = async (entryId: number) => {
+    try {
+      setIsLoading(true);
+      await api.leaveWaitlist(entryId);
+      
+      await refreshWaitlist();
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to leave waitlist';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const acknowledgeWaitlistPromotion = async (entryId: number) => {
+    try {
+      await api.acknowledgeWaitlistPromotion(entryId);
+      setWaitlist(prev => prev.filter(entry => entry.id !== entryId));
+    } catch (error) {
+      console.error('Failed to acknowledge waitlist promotion:', error);
+    }
+  };
+
+  const acknowledgeSubstitutionNotice = async (noticeId: number) => {
+    try {
+      await api.acknowledgeSubstitutionNotice(noticeId);
+      setSubstitutionNotices(prev => prev.filter(notice => notice.id !== noticeId));
+    } catch (error) {
+      console.error('Failed to acknowledge instructor change:', error);
+    }
+  };
+
+  const createStandingBooking = async (classId: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.createStandingBooking(classId);
+      
+      // Dates inside the booking window are booked straight away
+      await refreshBookings();
+      await refreshStandingBookings();
+      await refreshWaitlist();
+      await refreshUser();
+      
+      setError(null);
+      return {
+        message: response.message,
+        booked: response.booked,
+        skipped: response.skipped
+      };
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to set up weekly booking';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelStandingBooking = async (standingBookingId: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.cancelStandingBooking(standingBookingId);
+      
+      await refreshBookings();
+      await refreshStandingBookings();
+      await refreshUser();
+      
+      setError(null);
+      return response.message;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to cancel weekly booking';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const getClassBookings = async (classId: number, date: string) => {
     try {
       const response = await api.getClassBookings(classId, date);
@@ -266,6 +664,16 @@ export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  const getClassRoster = async (classId: number, date: string) => {
+    try {
+      const response = await api.getClassRoster(classId, date);
+      return response.roster;
+    } catch (error) {
+      console.error('Failed to get class roster:', error);
+      return [];
+    }
+  };
+
   const value = {
     classes,
     bookings,
@@ -276,9 +684,32 @@ export const BookingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     cancelBooking,
     completeClass,
     undoCompleteClass,
+    markAttendance,
+    getClassRoster,
+    getCheckInCode,
+    getKioskSessions,
+    checkIn,
+    getCalendarSubscription,
+    resetCalendarSubscription,
+    downloadBookingCalendar,
     refreshBookings,
     refreshAllBookings,
-    getClassBookings
+    getClassBookings,
+    waitlist,
+    joinWaitlist,
+    leaveWaitlist,
+    acknowledgeWaitlistPromotion,
+    substitutionNotices,
+    acknowledgeSubstitutionNotice,
+    refreshSubstitutionNotices,
+    refreshWaitlist,
+    standingBookings,
+    createStandingBooking,
+    cancelStandingBooking,
+    refreshStandingBookings,
+    occurrences,
+    getOccurrence,
+    refreshOccurrences
   };
 
   return (
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { api, ApiError } from '../services/api';
 import { useAuth } from './AuthContext';
+import type { TimeOfDay } from '../services/timeOfDay';
+import type { ScheduleConflict } from '../services/conflicts';
 
 interface GymClass {
   id: number;
@@ -8,9 +10,21 @@ interface GymClass {
   time: string;
   duration: string;
   instructor: string;
+  instructor_id?: number | null;
+  room_id?: number | null;
+  room_name?: string | null;
+  room_capacity?: number | null;
+  location_id?: number | null;
+  location_name?: string | null;
+  class_type_id?: number | null;
+  class_type_name?: string | null;
+  class_type_color?: string | null;
+  class_type_icon?: string | null;
   max_capacity: number;
+  concession_cost?: number; // Concessions one booking costs
+  drop_in_price?: number | null; // Pay-per-class price (null = concessions only)
   description: string;
-  category: 'morning' | 'afternoon';
+  category: TimeOfDay; // Derived from time
   days: string[];
   status: 'published' | 'draft' | 'scheduled';
   publish_date?: string; // When the class becomes available for booking
@@ -24,10 +38,13 @@ interface ClassFormData {
   name: string;
   time: string;
   duration: string;
-  instructor: string;
+  instructor_id: number | null;
+  room_id: number | null;
+  class_type_id: number | null;
   max_capacity: number;
+  concession_cost: number;
+  drop_in_price: number | null;
   description: string;
-  category: 'morning' | 'afternoon';
   days: string[];
   status: 'published' | 'draft' | 'scheduled';
   publish_date?: string;
@@ -35,15 +52,62 @@ interface ClassFormData {
   end_date?: string;
 }
 
+interface ClassOccurrence {
+  class_id: number;
+  occurrence_date: string;
+  time: string;
+  instructor: string;
+  substitute_instructor_id: number | null;
+  is_substitute: boolean;
+  max_capacity: number;
+  is_cancelled: boolean;
+  cancellation_reason: string | null;
+  has_override: boolean;
+  booked_count: number;
+}
+
+interface ClassType {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+  is_active: boolean;
+  class_count: number;
+}
+
+interface ClassTypeInput {
+  name: string;
+  color: string;
+  icon: string;
+  is_active?: boolean;
+}
+
+interface OccurrenceOverrides {
+  time?: string | null;
+  max_capacity?: number | null;
+}
+
 interface ClassContextType {
   classes: GymClass[];
+  conflicts: ScheduleConflict[];
   isLoading: boolean;
   error: string | null;
   refreshClasses: () => Promise<void>;
   getClass: (id: number) => Promise<GymClass>;
-  createClass: (classData: ClassFormData) => Promise<void>;
-  updateClass: (id: number, classData: Partial<ClassFormData>) => Promise<void>;
+  createClass: (classData: ClassFormData) => Promise<ScheduleConflict[]>;
+  updateClass: (id: number, classData: Partial<ClassFormData>) => Promise<ScheduleConflict[]>;
   deleteClass: (id: number) => Promise<void>;
+  getClassOccurrences: (id: number, from: string, to: string) => Promise<ClassOccurrence[]>;
+  updateOccurrence: (id: number, date: string, overrides: OccurrenceOverrides) => Promise<void>;
+  cancelOccurrence: (id: number, date: string, reason?: string) => Promise<string>;
+  restoreOccurrence: (id: number, date: string) => Promise<void>;
+  assignSubstitute: (id: number, dates: string[], substituteInstructorId: number, reason?: string) => Promise<string>;
+  removeSubstitute: (id: number, date: string) => Promise<void>;
+  classTypes: ClassType[];
+  refreshClassTypes: () => Promise<void>;
+  createClassType: (classType: ClassTypeInput) => Promise<void>;
+  updateClassType: (id: number, classType: ClassTypeInput) => Promise<void>;
+  deactivateClassType: (id: number) => Promise<string>;
   clearError: () => void;
 }
 
@@ -60,6 +124,8 @@ export const useClass = () => {
 export const ClassProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
   const [classes, setClasses] = useState<GymClass[]>([]);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [classTypes, setClassTypes] = useState<ClassType[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -72,6 +138,7 @@ export const ClassProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   useEffect(() => {
     if (user && user.role === 'admin') {
       refreshClasses();
+      refreshClassTypes();
     }
   }, [user]); // Remove clearError from dependencies since it's now memoized and called elsewhere
 
@@ -85,6 +152,8 @@ export const ClassProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       const { mockApi } = await import('../services/mockApi');
       const response = await mockApi.classes.getAllForAdmin();
       setClasses(response.classes);
+      const conflictResponse = await api.getScheduleConflicts();
+      setConflicts(conflictResponse.conflicts);
       setError(null);
     } catch (error) {
       console.error('Failed to load classes:', error);
@@ -108,11 +177,12 @@ export const ClassProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const createClass = async (classData: ClassFormData) => {
     try {
       setIsLoading(true);
-      await api.createClass(classData);
+      const response = await api.createClass(classData);
       
       // Refresh classes to get updated list
       await refreshClasses();
       setError(null);
+      return (response.conflicts || []) as ScheduleConflict[];
     } catch (error) {
       const errorMessage = error instanceof ApiError ? error.message : 'Failed to create class';
       setError(errorMessage);
@@ -125,11 +195,12 @@ export const ClassProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const updateClass = async (id: number, classData: Partial<ClassFormData>) => {
     try {
       setIsLoading(true);
-      await api.updateClass(id, classData);
+      const response = await api.updateClass(id, classData);
       
       // Refresh classes to get updated list
       await refreshClasses();
       setError(null);
+      return (response.conflicts || []) as ScheduleConflict[];
     } catch (error) {
       const errorMessage = error instanceof ApiError ? error.message : 'Failed to update class';
       setError(errorMessage);
@@ -156,8 +227,151 @@ export const ClassProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
+  const getClassOccurrences = async (id: number, from: string, to: string): Promise<ClassOccurrence[]> => {
+    try {
+      const response = await api.getClassOccurrences(id, from, to);
+      return response.occurrences;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to load class sessions';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  const updateOccurrence = async (id: number, date: string, overrides: OccurrenceOverrides) => {
+    try {
+      setIsLoading(true);
+      await api.updateOccurrence(id, date, overrides);
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to update class session';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelOccurrence = async (id: number, date: string, reason?: string) => {
+    try {
+      setIsLoading(true);
+      const response = await api.cancelOccurrence(id, date, reason);
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to cancel class session';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const restoreOccurrence = async (id: number, date: string) => {
+    try {
+      setIsLoading(true);
+      await api.restoreOccurrence(id, date);
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to reinstate class session';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const assignSubstitute = async (id: number, dates: string[], substituteInstructorId: number, reason?: string) => {
+    try {
+      setIsLoading(true);
+      const response = await api.assignSubstitute(id, dates, substituteInstructorId, reason);
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to assign substitute';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const removeSubstitute = async (id: number, date: string) => {
+    try {
+      setIsLoading(true);
+      await api.removeSubstitute(id, date);
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to remove substitute';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const refreshClassTypes = async () => {
+    if (!user || user.role !== 'admin') return;
+
+    try {
+      const response = await api.getClassTypes();
+      setClassTypes(response.class_types);
+    } catch (error) {
+      console.error('Failed to load class types:', error);
+      setError('Failed to load class types');
+    }
+  };
+
+  const createClassType = async (classType: ClassTypeInput) => {
+    try {
+      setIsLoading(true);
+      await api.createClassType(classType);
+      await refreshClassTypes();
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to create class type';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateClassType = async (id: number, classType: ClassTypeInput) => {
+    try {
+      setIsLoading(true);
+      await api.updateClassType(id, classType);
+      // Classes carry the type's name, colour and icon
+      await Promise.all([refreshClassTypes(), refreshClasses()]);
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to update class type';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deactivateClassType = async (id: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.deactivateClassType(id);
+      await refreshClassTypes();
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to retire class type';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const value = {
     classes,
+    conflicts,
     isLoading,
     error,
     refreshClasses,
@@ -165,6 +379,17 @@ export const ClassProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     createClass,
     updateClass,
     deleteClass,
+    getClassOccurrences,
+    updateOccurrence,
+    cancelOccurrence,
+    restoreOccurrence,
+    assignSubstitute,
+    removeSubstitute,
+    classTypes,
+    refreshClassTypes,
+    createClassType,
+    updateClassType,
+    deactivateClassType,
     clearError
   };
 
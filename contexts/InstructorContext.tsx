@@ -0,0 +1,202 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { api, ApiError } from '../services/api';
+import { useAuth } from './AuthContext';
+
+interface Instructor {
+  id: number;
+  name: string;
+  email: string | null;
+  bio: string | null;
+  is_active: boolean;
+  has_login: boolean;
+  login_email: string | null;
+  class_count: number;
+  created_at: string;
+}
+
+interface InstructorInput {
+  name: string;
+  email: string;
+  bio: string;
+  is_active?: boolean;
+  password?: string;
+}
+
+// One dated session of a class the signed-in instructor teaches
+interface TeachingSession {
+  class_id: number;
+  occurrence_date: string;
+  name: string;
+  time: string;
+  duration: string;
+  instructor: string;
+  max_capacity: number;
+  is_cancelled: boolean;
+  cancellation_reason: string | null;
+  booked_count: number;
+  attended_count: number;
+  no_show_count: number;
+  has_started: boolean;
+  is_substitute: boolean;
+}
+
+// A substitution in an instructor's payroll history: a session they covered, or one covered for them
+interface SubstitutionRecord {
+  id: number;
+  class_id: number;
+  occurrence_date: string;
+  class_name: string;
+  class_time: string;
+  duration: string;
+  is_cancelled: boolean;
+  role: 'covered' | 'covered_by';
+  other_instructor_name: string | null;
+  reason: string | null;
+}
+
+interface SubstitutionHistory {
+  substitutions: SubstitutionRecord[];
+  summary: { covered_count: number; covered_by_others_count: number };
+}
+
+interface InstructorContextType {
+  instructors: Instructor[];
+  activeInstructors: Instructor[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Admin operations
+  createInstructor: (instructor: InstructorInput) => Promise<void>;
+  updateInstructor: (id: number, instructor: InstructorInput) => Promise<void>;
+  deactivateInstructor: (id: number) => Promise<string>;
+  refreshInstructors: () => Promise<void>;
+  getSubstitutionHistory: (id: number, from: string, to: string) => Promise<SubstitutionHistory>;
+
+  // Instructor portal
+  getMySchedule: () => Promise<{ instructor: Instructor; sessions: TeachingSession[] }>;
+}
+
+const InstructorContext = createContext<InstructorContextType | undefined>(undefined);
+
+export const useInstructors = () => {
+  const context = useContext(InstructorContext);
+  if (context === undefined) {
+    throw new Error('useInstructors must be used within an InstructorProvider');
+  }
+  return context;
+};
+
+export const InstructorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only admins manage instructors
+  useEffect(() => {
+    if (user && user.role === 'admin') {
+      refreshInstructors();
+    }
+  }, [user]);
+
+  const refreshInstructors = async () => {
+    if (!user || user.role !== 'admin') return;
+
+    try {
+      setIsLoading(true);
+      const response = await api.getInstructors();
+      setInstructors(response.instructors);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load instructors:', error);
+      setError('Failed to load instructors');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createInstructor = async (instructor: InstructorInput) => {
+    try {
+      setIsLoading(true);
+      await api.createInstructor(instructor);
+      await refreshInstructors();
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to create instructor';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateInstructor = async (id: number, instructor: InstructorInput) => {
+    try {
+      setIsLoading(true);
+      await api.updateInstructor(id, instructor);
+      await refreshInstructors();
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to update instructor';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deactivateInstructor = async (id: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.deactivateInstructor(id);
+      await refreshInstructors();
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to deactivate instructor';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getSubstitutionHistory = async (id: number, from: string, to: string) => {
+    try {
+      const response = await api.getInstructorSubstitutions(id, from, to);
+      return { substitutions: response.substitutions, summary: response.summary };
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to load substitution history';
+      throw new Error(errorMessage);
+    }
+  };
+
+  const getMySchedule = async () => {
+    try {
+      const response = await api.getMyTeachingSchedule();
+      return { instructor: response.instructor, sessions: response.sessions };
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to load your schedule';
+      throw new Error(errorMessage);
+    }
+  };
+
+  const value = {
+    instructors,
+    activeInstructors: instructors.filter(instructor => instructor.is_active),
+    isLoading,
+    error,
+    createInstructor,
+    updateInstructor,
+    deactivateInstructor,
+    refreshInstructors,
+    getSubstitutionHistory,
+    getMySchedule,
+  };
+
+  return (
+    <InstructorContext.Provider value={value}>
+      {children}
+    </InstructorContext.Provider>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { api, ApiError } from '../services/api';
+import { useAuth } from './AuthContext';
+
+interface Room {
+  id: number;
+  location_id: number;
+  name: string;
+  capacity: number;
+  is_active: boolean;
+  class_count: number;
+}
+
+interface Location {
+  id: number;
+  name: string;
+  address: string | null;
+  is_active: boolean;
+  rooms: Room[];
+}
+
+interface LocationInput {
+  name: string;
+  address: string;
+  is_active?: boolean;
+}
+
+interface RoomInput {
+  name: string;
+  capacity: number;
+  is_active?: boolean;
+}
+
+interface LocationContextType {
+  locations: Location[];
+  activeLocations: Location[];
+  isLoading: boolean;
+  error: string | null;
+  refreshLocations: () => Promise<void>;
+
+  // Admin operations
+  createLocation: (location: LocationInput) => Promise<void>;
+  updateLocation: (id: number, location: LocationInput) => Promise<void>;
+  deactivateLocation: (id: number) => Promise<string>;
+  createRoom: (locationId: number, room: RoomInput) => Promise<void>;
+  updateRoom: (roomId: number, room: RoomInput) => Promise<void>;
+  deactivateRoom: (roomId: number) => Promise<string>;
+}
+
+const LocationContext = createContext<LocationContextType | undefined>(undefined);
+
+export const useLocations = () => {
+  const context = useContext(LocationContext);
+  if (context === undefined) {
+    throw new Error('useLocations must be used within a LocationProvider');
+  }
+  return context;
+};
+
+export const LocationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Members need locations for filtering and their profile; admins also manage them
+  useEffect(() => {
+    if (user) {
+      refreshLocations();
+    } else {
+      setLocations([]);
+    }
+  }, [user?.id]);
+
+  const refreshLocations = async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.getLocations();
+      setLocations(response.locations);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load locations:', error);
+      setError('Failed to load locations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Helper function to run an admin change and reload the list, returning the server's message
+  const runChange = async (change: () => Promise<any>, fallbackMessage: string) => {
+    try {
+      setIsLoading(true);
+      const response = await change();
+      await refreshLocations();
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : fallbackMessage;
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createLocation = async (location: LocationInput) => {
+    await runChange(() => api.createLocation(location), 'Failed to create location');
+  };
+
+  const updateLocation = async (id: number, location: LocationInput) => {
+    await runChange(() => api.updateLocation(id, location), 'Failed to update location');
+  };
+
+  const deactivateLocation = (id: number) =>
+    runChange(() => api.deactivateLocation(id), 'Failed to close location');
+
+  const createRoom = async (locationId: number, room: RoomInput) => {
+    await runChange(() => api.createRoom(locationId, room), 'Failed to add room');
+  };
+
+  const updateRoom = async (roomId: number, room: RoomInput) => {
+    await runChange(() => api.updateRoom(roomId, room), 'Failed to update room');
+  };
+
+  const deactivateRoom = (roomId: number) =>
+    runChange(() => api.deactivateRoom(roomId), 'Failed to close room');
+
+  const value = {
+    locations,
+    activeLocations: locations
+      .filter(location => location.is_active)
+      .map(location => ({ ...location, rooms: location.rooms.filter(room => room.is_active) })),
+    isLoading,
+    error,
+    refreshLocations,
+    createLocation,
+    updateLocation,
+    deactivateLocation,
+    createRoom,
+    updateRoom,
+    deactivateRoom,
+  };
+
+  return (
+    <LocationContext.Provider value={value}>
+      {children}
+    </LocationContext.Provider>
+  );
+};
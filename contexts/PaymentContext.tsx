@@ -10,6 +10,9 @@ interface PaymentDetails {
   sort_code: string;
   reference_instructions: string;
   additional_info: string;
+  business_name?: string; // Printed on receipts
+  business_address?: string;
+  gst_number?: string;
   created_at: string;
   updated_at: string;
 }
@@ -19,40 +22,122 @@ interface Payment {
   user_id: number;
   amount: number;
   concessions_purchased: number;
+  payment_type?: 'concessions' | 'drop_in';
+  booking_id?: number | null; // Drop-in payments are linked to their booking
+  class_name?: string | null;
+  booking_date?: string | null;
+  package_id?: number | null; // The package a concession purchase is for
+  package_name?: string | null;
   payment_method: string;
   reference: string;
-  status: 'pending' | 'confirmed' | 'rejected';
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
   notes?: string;
   created_at: string;
   updated_at: string;
   processed_by?: number;
   processed_at?: string;
+  user_name?: string;
+  user_email?: string;
+  invoice_number?: string | null; // The current receipt for a confirmed payment
+}
+
+interface ConcessionPackage {
+  id: number;
+  name: string;
+  concessions: number;
+  price: number;
+  validity_months: number | null; // How long the concessions last once bought (null never expires)
+  is_active: boolean;
+  purchase_count: number;
+}
+
+interface ConcessionPackageInput {
+  name: string;
+  concessions: number;
+  price: number;
+  validity_months: number | null;
+  is_active?: boolean;
+}
+
+// A deposit from an imported bank statement that still needs an admin
+interface BankTransaction {
+  id: number;
+  transaction_date: string;
+  amount: number;
+  payer: string;
+  reference: string;
+  status: 'matched' | 'review' | 'unmatched' | 'ignored';
+  payment_id: number | null; // The suggested payment while in review
+  match_reason: string | null;
+  payment_reference: string | null;
+  payment_amount: number | null;
+  payment_status: string | null;
+  user_name: string | null;
+}
+
+interface BankStatementImport {
+  id: number;
+  file_name: string | null;
+  bank_format: string;
+  transaction_count: number;
+  duplicate_count: number;
+  matched_count: number;
+  review_count: number;
+  imported_by_name?: string | null;
+  created_at: string;
+}
+
+interface BankStatementUpload {
+  file_name: string;
+  bank_format: string;
+  mapping?: {
+    date: string;
+    amount: string;
+    payer: string | null;
+    reference: string[];
+    date_format: string;
+  };
+  csv: string;
 }
 
 interface PaymentContextType {
   paymentDetails: PaymentDetails | null;
+  packages: ConcessionPackage[];
   payments: Payment[];
   userPayments: Payment[];
+  bankTransactions: BankTransaction[];
+  bankImports: BankStatementImport[];
   isLoading: boolean;
   error: string | null;
   
   // Payment details management
   updatePaymentDetails: (details: Omit<PaymentDetails, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
   
+  // Concession packages
+  createPackage: (concessionPackage: ConcessionPackageInput) => Promise<void>;
+  updatePackage: (id: number, concessionPackage: ConcessionPackageInput) => Promise<void>;
+  retirePackage: (id: number) => Promise<string>;
+  
   // Payment operations
-  submitPayment: (paymentData: {
-    amount: number;
-    concessions_purchased: number;
-    payment_method: string;
-    reference: string;
-  }) => Promise<void>;
+  purchasePackage: (packageId: number, paymentMethod?: 'bank_transfer' | 'cash', voucherCode?: string) => Promise<{ payment: Payment; message: string }>;
   
   processPayment: (id: number, status: 'confirmed' | 'rejected', notes?: string) => Promise<void>;
   
+  // Receipts
+  downloadInvoice: (paymentId: number) => Promise<void>;
+  reissueInvoice: (paymentId: number) => Promise<string>;
+  
+  // Bank reconciliation
+  importBankStatement: (upload: BankStatementUpload) => Promise<string>;
+  matchBankTransaction: (id: number, paymentId: number) => Promise<string>;
+  ignoreBankTransaction: (id: number) => Promise<void>;
+  
   // Data loading
   refreshPaymentDetails: () => Promise<void>;
+  refreshPackages: () => Promise<void>;
   refreshPayments: () => Promise<void>;
   refreshUserPayments: (userId?: number) => Promise<void>;
+  refreshBankReconciliation: () => Promise<void>;
 }
 
 const PaymentContext = createContext<PaymentContextType | undefined>(undefined);
@@ -68,18 +153,23 @@ export const usePayment = () => {
 export const PaymentProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
+  const [packages, setPackages] = useState<ConcessionPackage[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [userPayments, setUserPayments] = useState<Payment[]>([]);
+  const [bankTransactions, setBankTransactions] = useState<BankTransaction[]>([]);
+  const [bankImports, setBankImports] = useState<BankStatementImport[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Load initial data when component mounts
+  // Load payment data once the user is authenticated
   useEffect(() => {
-    refreshPaymentDetails();
     if (user) {
+      refreshPaymentDetails();
+      refreshPackages();
       refreshUserPayments();
       if (user.role === 'admin') {
         refreshPayments();
+        refreshBankReconciliation();
       }
     }
   }, [user]);
@@ -98,6 +188,16 @@ export const PaymentProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  const refreshPackages = async () => {
+    try {
+      const response = await api.getConcessionPackages();
+      setPackages(response.packages);
+    } catch (error) {
+      console.error('Failed to load concession packages:', error);
+      setError('Failed to load concession packages');
+    }
+  };
+
   const refreshPayments = async () => {
     if (!user || user.role !== 'admin') return;
     
@@ -131,6 +231,22 @@ export const PaymentProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  const refreshBankReconciliation = async () => {
+    if (!user || user.role !== 'admin') return;
+    
+    try {
+      const [transactionsResponse, importsResponse] = await Promise.all([
+        api.getBankTransactions(),
+        api.getBankImports()
+      ]);
+      setBankTransactions(transactionsResponse.transactions);
+      setBankImports(importsResponse.imports);
+    } catch (error) {
+      console.error('Failed to load bank reconciliation:', error);
+      setError('Failed to load bank reconciliation');
+    }
+  };
+
   const updatePaymentDetails = async (details: Omit<PaymentDetails, 'id' | 'created_at' | 'updated_at'>) => {
     try {
       setIsLoading(true);
@@ -146,22 +262,64 @@ export const PaymentProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const submitPayment = async (paymentData: {
-    amount: number;
-    concessions_purchased: number;
-    payment_method: string;
-    reference: string;
-  }) => {
+  const createPackage = async (concessionPackage: ConcessionPackageInput) => {
+    try {
+      setIsLoading(true);
+      await api.createConcessionPackage(concessionPackage);
+      await refreshPackages();
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to create concession package';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updatePackage = async (id: number, concessionPackage: ConcessionPackageInput) => {
+    try {
+      setIsLoading(true);
+      await api.updateConcessionPackage(id, concessionPackage);
+      await refreshPackages();
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to update concession package';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const retirePackage = async (id: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.retireConcessionPackage(id);
+      await refreshPackages();
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to retire concession package';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const purchasePackage = async (packageId: number, paymentMethod: 'bank_transfer' | 'cash' = 'bank_transfer', voucherCode?: string) => {
     try {
       setIsLoading(true);
-      const response = await api.createPayment(paymentData);
+      const response = await api.createPayment({ package_id: packageId, payment_method: paymentMethod, voucher_code: voucherCode });
       
       // Refresh user payments to show the new payment
       await refreshUserPayments();
       
       setError(null);
+      return { payment: response.payment as Payment, message: response.message as string };
     } catch (error) {
-      const errorMessage = error instanceof ApiError ? error.message : 'Failed to submit payment';
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to start purchase';
       setError(errorMessage);
       throw new Error(errorMessage);
     } finally {
@@ -187,18 +345,114 @@ export const PaymentProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  // Save a confirmed payment's receipt as a PDF
+  const downloadInvoice = async (paymentId: number) => {
+    try {
+      const pdf = await api.downloadInvoice(paymentId);
+      const payment = [...userPayments, ...payments].find(p => p.id === paymentId);
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${payment?.invoice_number || `flexbook-receipt-${paymentId}`}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to download receipt';
+      throw new Error(errorMessage);
+    }
+  };
+
+  const reissueInvoice = async (paymentId: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.reissueInvoice(paymentId);
+      await refreshPayments();
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to re-issue receipt';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const importBankStatement = async (upload: BankStatementUpload) => {
+    try {
+      setIsLoading(true);
+      const response = await api.importBankStatement(upload);
+      
+      // Deposits matched automatically have confirmed their payments
+      await Promise.all([refreshBankReconciliation(), refreshPayments()]);
+      
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to import bank statement';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const matchBankTransaction = async (id: number, paymentId: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.matchBankTransaction(id, paymentId);
+      await Promise.all([refreshBankReconciliation(), refreshPayments()]);
+      setError(null);
+      return response.message as string;
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to match deposit';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const ignoreBankTransaction = async (id: number) => {
+    try {
+      setIsLoading(true);
+      await api.ignoreBankTransaction(id);
+      await refreshBankReconciliation();
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to ignore deposit';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const value = {
     paymentDetails,
+    packages,
     payments,
     userPayments,
+    bankTransactions,
+    bankImports,
     isLoading,
     error,
     updatePaymentDetails,
-    submitPayment,
+    createPackage,
+    updatePackage,
+    retirePackage,
+    purchasePackage,
     processPayment,
+    downloadInvoice,
+    reissueInvoice,
+    importBankStatement,
+    matchBankTransaction,
+    ignoreBankTransaction,
     refreshPaymentDetails,
+    refreshPackages,
     refreshPayments,
     refreshUserPayments,
+    refreshBankReconciliation,
   };
 
   return (
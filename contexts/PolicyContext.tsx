@@ -0,0 +1,181 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { api, ApiError } from '../services/api';
+import { useAuth } from './AuthContext';
+
+interface BookingPolicy {
+  booking_window_days: number;
+  cancellation_deadline_hours: number;
+  credit_limit: number;
+  no_show_penalty: number;
+}
+
+interface ClassPolicyOverride {
+  class_id: number;
+  class_name: string;
+  booking_window_days: number | null;
+  cancellation_deadline_hours: number | null;
+  credit_limit: number | null;
+  no_show_penalty: number | null;
+  updated_at: string;
+}
+
+interface PolicyContextType {
+  defaults: BookingPolicy;
+  classOverrides: ClassPolicyOverride[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Effective rules (class overrides on top of the gym-wide policy)
+  getPolicyForClass: (classId?: number) => BookingPolicy;
+  maxBookingWindowDays: number;
+  isLateCancellation: (classId: number, classDate: string, classTime: string) => boolean;
+  hasCreditAvailable: (concessions: number, classId?: number, cost?: number) => boolean;
+
+  // Admin operations
+  updatePolicies: (policy: BookingPolicy) => Promise<void>;
+  updateClassPolicy: (classId: number, overrides: Omit<ClassPolicyOverride, 'class_id' | 'class_name' | 'updated_at'>) => Promise<void>;
+  deleteClassPolicy: (classId: number) => Promise<void>;
+  refreshPolicies: () => Promise<void>;
+}
+
+// Shown only until the server's policy has loaded
+const INITIAL_POLICY: BookingPolicy = {
+  booking_window_days: 14,
+  cancellation_deadline_hours: 24,
+  credit_limit: 5,
+  no_show_penalty: 0
+};
+
+const PolicyContext = createContext<PolicyContextType | undefined>(undefined);
+
+export const usePolicy = () => {
+  const context = useContext(PolicyContext);
+  if (context === undefined) {
+    throw new Error('usePolicy must be used within a PolicyProvider');
+  }
+  return context;
+};
+
+export const PolicyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [defaults, setDefaults] = useState<BookingPolicy>(INITIAL_POLICY);
+  const [classOverrides, setClassOverrides] = useState<ClassPolicyOverride[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load policies once the user is authenticated
+  useEffect(() => {
+    if (user) {
+      refreshPolicies();
+    }
+  }, [user]);
+
+  const refreshPolicies = async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.getPolicies();
+      setDefaults(response.defaults);
+      setClassOverrides(response.classOverrides);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load booking policies:', error);
+      setError('Failed to load booking policies');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getPolicyForClass = (classId?: number): BookingPolicy => {
+    const override = classId !== undefined ? classOverrides.find(o => o.class_id === classId) : undefined;
+    if (!override) return defaults;
+    return {
+      booking_window_days: override.booking_window_days ?? defaults.booking_window_days,
+      cancellation_deadline_hours: override.cancellation_deadline_hours ?? defaults.cancellation_deadline_hours,
+      credit_limit: override.credit_limit ?? defaults.credit_limit,
+      no_show_penalty: override.no_show_penalty ?? defaults.no_show_penalty
+    };
+  };
+
+  // Furthest ahead any class can be booked, used to size the booking calendar
+  const maxBookingWindowDays = Math.max(
+    defaults.booking_window_days,
+    ...classOverrides.map(o => o.booking_window_days ?? 0)
+  );
+
+  const isLateCancellation = (classId: number, classDate: string, classTime: string) => {
+    const classDateTime = new Date(`${classDate}T${classTime}:00`);
+    const hoursUntilClass = (classDateTime.getTime() - Date.now()) / (1000 * 60 * 60);
+    return hoursUntilClass <= getPolicyForClass(classId).cancellation_deadline_hours && hoursUntilClass > 0;
+  };
+
+  // Premium classes cost more than one concession, so the whole cost has to fit inside the credit limit
+  const hasCreditAvailable = (concessions: number, classId?: number, cost = 1) => {
+    return concessions - cost >= -getPolicyForClass(classId).credit_limit;
+  };
+
+  const updatePolicies = async (policy: BookingPolicy) => {
+    try {
+      setIsLoading(true);
+      const response = await api.updatePolicies(policy);
+      setDefaults(response.defaults);
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to update booking policy';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateClassPolicy = async (classId: number, overrides: Omit<ClassPolicyOverride, 'class_id' | 'class_name' | 'updated_at'>) => {
+    try {
+      setIsLoading(true);
+      const response = await api.updateClassPolicy(classId, overrides);
+      setClassOverrides(response.classOverrides);
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to update class policy';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deleteClassPolicy = async (classId: number) => {
+    try {
+      setIsLoading(true);
+      const response = await api.deleteClassPolicy(classId);
+      setClassOverrides(response.classOverrides);
+      setError(null);
+    } catch (error) {
+      const errorMessage = error instanceof ApiError ? error.message : 'Failed to reset class policy';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const value = {
+    defaults,
+    classOverrides,
+    isLoading,
+    error,
+    getPolicyForClass,
+    maxBookingWindowDays,
+    isLateCancellation,
+    hasCreditAvailable,
+    updatePolicies,
+    updateClassPolicy,
+    deleteClassPolicy,
+    refreshPolicies,
+  };
+
+  return (
+    <PolicyContext.Provider value={value}>
+      {children}
+    </PolicyContext.Provider>
+  );
+};
@@ -35,7 +35,7 @@ const shouldUseMockApi = config.FEATURES.USE_MOCK_API;
 console.log(`🔗 FlexBook API Mode: ${shouldUseMockApi ? '🧪 Mock API (Development)' : '🌐 Real API (Production)'}`);
 
 if (shouldUseMockApi) {
-  console.log('📝 Using test accounts: admin@gym.com/admin123, user@gym.com/user123');
+  console.log('📝 Using test accounts: admin@gym.com/admin123, user@gym.com/user123, instructor@gym.com/instructor123');
 } else {
   console.log('🚀 Connecting to backend API:', config.API_BASE_URL);
 }
@@ -43,14 +43,19 @@ if (shouldUseMockApi) {
 // Request timeout configuration
 const REQUEST_TIMEOUT = config.UI.LOADING_TIMEOUT;
 
-// Helper function to handle fetch with timeout
-const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
+// Fired when the session can't be refreshed, so the app can send the member back to sign in
+export const SESSION_ENDED_EVENT = 'flexbook:session-ended';
+
+// Helper function to send a request with a timeout. Cookies are included so the refresh token
+// (an httpOnly cookie on /auth) reaches the server.
+const sendWithTimeout = async (url: string, options: RequestInit = {}) => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
   
   try {
     const response = await fetch(url, {
       ...options,
+      credentials: 'include',
       signal: controller.signal,
       headers: {
         'Content-Type': 'application/json',
@@ -72,6 +77,90 @@ const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
   }
 };
 
+// Requests that fail together while the access token is stale share one refresh
+let pendingRefresh: Promise<string | null> | null = null;
+
+// Swap the refresh token cookie for a new access token. Resolves to null when the session has ended.
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      try {
+        const response = await sendWithTimeout(`${config.API_BASE_URL}/auth/refresh`, { method: 'POST' });
+        if (!response.ok) {
+          if (response.status === 401) {
+            removeAuthToken();
+            if (typeof window !== 'undefined') {
+              window.dispatchEvent(new Event(SESSION_ENDED_EVENT));
+            }
+          }
+          return null;
+        }
+        const data = await response.json();
+        setAuthToken(data.token);
+        return data.token as string;
+      } catch {
+        // Offline or timed out: keep the stored token and let the original request fail as it would have
+        return null;
+      } finally {
+        pendingRefresh = null;
+      }
+    })();
+  }
+  return pendingRefresh;
+};
+
+// Helper function to handle fetch with timeout. Access tokens are short-lived, so a signed-in request that
+// comes back 401 is retried once with a freshly refreshed token instead of signing the member out.
+const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
+  const response = await sendWithTimeout(url, options);
+
+  const headers = (options.headers || {}) as Record<string, string>;
+  if (response.status !== 401 || !headers.Authorization) {
+    return response;
+  }
+
+  const token = await refreshAccessToken();
+  if (!token) {
+    return response;
+  }
+
+  return sendWithTimeout(url, {
+    ...options,
+    headers: { ...headers, Authorization: `Bearer ${token}` },
+  });
+};
+
+// Writes that must not be applied twice are retried on network failures and timeouts with the same
+// Idempotency-Key, so the server replays the first result instead of booking or refunding again
+const IDEMPOTENT_RETRIES = 2;
+const IDEMPOTENT_RETRY_DELAY = 1000;
+
+const createIdempotencyKey = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+const fetchIdempotent = async (url: string, options: RequestInit = {}) => {
+  const idempotencyKey = createIdempotencyKey();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchWithTimeout(url, {
+        ...options,
+        headers: { ...options.headers, 'Idempotency-Key': idempotencyKey },
+      });
+    } catch (error) {
+      const isConnectionError = error instanceof ApiError && (error.status === 0 || error.status === 408);
+      if (!isConnectionError || attempt >= IDEMPOTENT_RETRIES) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, IDEMPOTENT_RETRY_DELAY));
+    }
+  }
+};
+
 // Helper function to handle API responses
 const handleResponse = async (response: Response) => {
   if (!response.ok) {
@@ -99,6 +188,151 @@ const getAuthHeaders = () => {
 };
 
 // Real API implementation
+interface PaymentDetailsInput {
+  bank_name: string;
+  account_name: string;
+  account_number: string;
+  sort_code: string;
+  reference_instructions: string;
+  additional_info: string;
+  business_name?: string; // Printed on receipts
+  business_address?: string;
+  gst_number?: string;
+}
+
+// The price and concessions come from the package on the server
+interface PackagePurchase {
+  package_id: number;
+  payment_method?: 'bank_transfer' | 'cash';
+  voucher_code?: string; // A discount code to take off the price
+}
+
+interface ConcessionPackageInput {
+  name: string;
+  concessions: number;
+  price: number;
+  validity_months: number | null; // null never expires
+  is_active?: boolean;
+}
+
+// Only the settings for the voucher's type are used: concessions and validity_months for free concessions,
+// percent_off and package_id for discounts
+interface VoucherInput {
+  code: string;
+  description?: string | null;
+  voucher_type: 'concessions' | 'percent_off';
+  concessions?: number | null;
+  validity_months?: number | null; // null never expires
+  percent_off?: number | null;
+  package_id?: number | null; // null any package
+  max_uses?: number | null; // null unlimited
+  expires_on?: string | null;
+  new_members_only?: boolean;
+  is_active?: boolean;
+}
+
+interface VoucherRedemptionFilters {
+  voucher_id?: number;
+  user_id?: number;
+  from?: string;
+  to?: string;
+}
+
+interface NotificationTemplateInput {
+  subject: string;
+  body: string;
+  is_enabled: boolean;
+}
+
+interface NotificationLogFilters {
+  status?: 'pending' | 'sent' | 'failed';
+  event_key?: string;
+  limit?: number;
+}
+
+// classes_per_week is only used by weekly plans
+interface MembershipPlanInput {
+  name: string;
+  plan_type: 'unlimited' | 'weekly' | 'off_peak';
+  classes_per_week: number | null;
+  monthly_price: number;
+  is_active?: boolean;
+}
+
+// end_date null rolls on until the membership is ended
+interface MembershipInput {
+  plan_id: number;
+  start_date: string;
+  end_date: string | null;
+}
+
+interface MembershipPauseInput {
+  start_date: string;
+  end_date: string;
+  reason?: string;
+}
+
+// Which columns of a bank statement CSV hold each field
+interface BankStatementMapping {
+  date: string;
+  amount: string;
+  payer: string | null;
+  reference: string[];
+  date_format: string;
+}
+
+// bank_format is one of the preset NZ bank layouts, or 'custom' with a mapping
+interface BankStatementUpload {
+  file_name: string;
+  bank_format: string;
+  mapping?: BankStatementMapping;
+  csv: string;
+}
+
+interface BookingPolicyInput {
+  booking_window_days: number;
+  cancellation_deadline_hours: number;
+  credit_limit: number;
+  no_show_penalty: number;
+}
+
+interface InstructorInput {
+  name: string;
+  email: string;
+  bio: string;
+  is_active?: boolean;
+  password?: string; // Creates the portal login, or resets its password
+}
+
+interface LocationInput {
+  name: string;
+  address: string;
+  is_active?: boolean;
+}
+
+interface RoomInput {
+  name: string;
+  capacity: number;
+  is_active?: boolean;
+}
+
+interface ClassTypeInput {
+  name: string;
+  color: string;
+  icon: string;
+  is_active?: boolean;
+}
+
+interface ProfileInput {
+  home_location_id: number | null;
+}
+
+// How a member pays for a booking: the class's concession cost, or its drop-in price
+type PaymentOption = 'concessions' | 'drop_in';
+
+// Per-class overrides: null inherits the gym-wide value
+type ClassPolicyInput = { [K in keyof BookingPolicyInput]: number | null };
+
 const realApi = {
   // Authentication
   auth: {
@@ -110,10 +344,10 @@ const realApi = {
       return handleResponse(response);
     },
 
-    register: async (name: string, email: string, password: string) => {
+    register: async (name: string, email: string, password: string, voucherCode?: string) => {
       const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/register`, {
         method: 'POST',
-        body: JSON.stringify({ name, email, password }),
+        body: JSON.stringify({ name, email, password, voucher_code: voucherCode || undefined }),
       });
       return handleResponse(response);
     },
@@ -124,6 +358,98 @@ const realApi = {
       });
       return handleResponse(response);
     },
+
+    updateProfile: async (profile: ProfileInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/me`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(profile),
+      });
+      return handleResponse(response);
+    },
+
+    changePassword: async (currentPassword: string, newPassword: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/change-password`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      return handleResponse(response);
+    },
+
+    forgotPassword: async (email: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/forgot-password`, {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      });
+      return handleResponse(response);
+    },
+
+    resetPassword: async (token: string, password: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/reset-password`, {
+        method: 'POST',
+        body: JSON.stringify({ token, password }),
+      });
+      return handleResponse(response);
+    },
+
+    verifyEmail: async (token: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/verify-email`, {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+      });
+      return handleResponse(response);
+    },
+
+    resendVerification: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/resend-verification`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    // Get a new access token from the refresh token cookie (used to stay signed in across visits)
+    refresh: async () => {
+      const token = await refreshAccessToken();
+      if (!token) {
+        throw new ApiError(401, 'Session ended');
+      }
+      return { token };
+    },
+
+    logout: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Signed-in devices
+  sessions: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/sessions`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    revoke: async (sessionId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/sessions/${sessionId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    revokeOthers: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/auth/sessions`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
   },
 
   // Classes
@@ -142,6 +468,13 @@ const realApi = {
       return handleResponse(response);
     },
 
+    getConflicts: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/classes/admin/conflicts`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
     getById: async (id: number) => {
       const response = await fetchWithTimeout(`${config.API_BASE_URL}/classes/${id}`, {
         headers: getAuthHeaders(),
@@ -182,6 +515,73 @@ const realApi = {
       );
       return handleResponse(response);
     },
+
+    getRoster: async (id: number, date: string) => {
+      const response = await fetchWithTimeout(
+        `${config.API_BASE_URL}/classes/${id}/roster?date=${date}`,
+        { headers: getAuthHeaders() }
+      );
+      return handleResponse(response);
+    },
+
+    getOccurrences: async (from: string, to: string) => {
+      const response = await fetchWithTimeout(
+        `${config.API_BASE_URL}/classes/occurrences?from=${from}&to=${to}`,
+        { headers: getAuthHeaders() }
+      );
+      return handleResponse(response);
+    },
+
+    getClassOccurrences: async (id: number, from: string, to: string) => {
+      const response = await fetchWithTimeout(
+        `${config.API_BASE_URL}/classes/${id}/occurrences?from=${from}&to=${to}`,
+        { headers: getAuthHeaders() }
+      );
+      return handleResponse(response);
+    },
+
+    updateOccurrence: async (id: number, date: string, overrides: { time?: string | null; max_capacity?: number | null }) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/classes/${id}/occurrences/${date}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(overrides),
+      });
+      return handleResponse(response);
+    },
+
+    cancelOccurrence: async (id: number, date: string, reason?: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/classes/${id}/occurrences/${date}/cancel`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ reason }),
+      });
+      return handleResponse(response);
+    },
+
+    restoreOccurrence: async (id: number, date: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/classes/${id}/occurrences/${date}/restore`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    assignSubstitute: async (id: number, dates: string[], substituteInstructorId: number, reason?: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/classes/${id}/substitutions`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ dates, substitute_instructor_id: substituteInstructorId, reason }),
+      });
+      return handleResponse(response);
+    },
+
+    removeSubstitute: async (id: number, date: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/classes/${id}/substitutions/${date}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
   },
 
   // Bookings
@@ -193,6 +593,13 @@ const realApi = {
       return handleResponse(response);
     },
 
+    getHouseholdBookings: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/household`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
     getAll: async () => {
       const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings`, {
         headers: getAuthHeaders(),
@@ -200,17 +607,17 @@ const realApi = {
       return handleResponse(response);
     },
 
-    create: async (classId: number, bookingDate: string) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings`, {
+    create: async (classId: number, bookingDate: string, paymentOption: PaymentOption = 'concessions') => {
+      const response = await fetchIdempotent(`${config.API_BASE_URL}/bookings`, {
         method: 'POST',
         headers: getAuthHeaders(),
-        body: JSON.stringify({ class_id: classId, booking_date: bookingDate }),
+        body: JSON.stringify({ class_id: classId, booking_date: bookingDate, payment_option: paymentOption }),
       });
       return handleResponse(response);
     },
 
     cancel: async (id: number) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/${id}/cancel`, {
+      const response = await fetchIdempotent(`${config.API_BASE_URL}/bookings/${id}/cancel`, {
         method: 'PATCH',
         headers: getAuthHeaders(),
       });
@@ -218,7 +625,7 @@ const realApi = {
     },
 
     completeClass: async (classId: number, bookingDate: string) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/complete-class`, {
+      const response = await fetchIdempotent(`${config.API_BASE_URL}/bookings/complete-class`, {
         method: 'PATCH',
         headers: getAuthHeaders(),
         body: JSON.stringify({ class_id: classId, booking_date: bookingDate }),
@@ -227,87 +634,843 @@ const realApi = {
     },
 
     undoCompleteClass: async (classId: number, bookingDate: string) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/undo-complete-class`, {
+      const response = await fetchIdempotent(`${config.API_BASE_URL}/bookings/undo-complete-class`, {
         method: 'PATCH',
         headers: getAuthHeaders(),
         body: JSON.stringify({ class_id: classId, booking_date: bookingDate }),
       });
       return handleResponse(response);
     },
-  },
 
-  // Users
-  users: {
-    getAll: async () => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users`, {
+    markAttendance: async (id: number, attendance: 'attended' | 'no-show' | 'pending') => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/${id}/attendance`, {
+        method: 'PATCH',
         headers: getAuthHeaders(),
+        body: JSON.stringify({ attendance }),
       });
       return handleResponse(response);
     },
 
-    getById: async (id: number) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users/${id}`, {
+    getCheckInCode: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/${id}/check-in-code`, {
         headers: getAuthHeaders(),
       });
       return handleResponse(response);
     },
 
-    updateConcessions: async (id: number, concessions: number) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users/${id}/concessions`, {
-        method: 'PATCH',
+    getKioskSessions: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/kiosk/today`, {
         headers: getAuthHeaders(),
-        body: JSON.stringify({ concessions }),
       });
       return handleResponse(response);
     },
-  },
 
-  // Notes
-  notes: {
-    getAll: async (userId?: number, category?: string) => {
-      const params = new URLSearchParams();
-      if (userId) params.append('userId', userId.toString());
-      if (category) params.append('category', category);
-      
-      const response = await fetchWithTimeout(
-        `${config.API_BASE_URL}/notes?${params.toString()}`,
-        { headers: getAuthHeaders() }
-      );
+    checkIn: async (credentials: { token: string } | { email: string; class_id?: number }) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/check-in`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(credentials),
+      });
       return handleResponse(response);
     },
 
-    getUserNotes: async (userId: number, category?: string) => {
-      const params = new URLSearchParams();
-      if (category) params.append('category', category);
-      
-      const response = await fetchWithTimeout(
-        `${config.API_BASE_URL}/notes/user/${userId}?${params.toString()}`,
-        { headers: getAuthHeaders() }
-      );
+    getMyWaitlist: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/waitlist/mine`, {
+        headers: getAuthHeaders(),
+      });
       return handleResponse(response);
     },
 
-    create: async (userId: number, content: string, category: string) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notes`, {
+    joinWaitlist: async (classId: number, bookingDate: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/waitlist`, {
         method: 'POST',
         headers: getAuthHeaders(),
-        body: JSON.stringify({ user_id: userId, content, category }),
+        body: JSON.stringify({ class_id: classId, booking_date: bookingDate }),
       });
       return handleResponse(response);
     },
 
-    update: async (id: number, content: string, category: string) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notes/${id}`, {
-        method: 'PUT',
+    leaveWaitlist: async (entryId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/waitlist/${entryId}`, {
+        method: 'DELETE',
         headers: getAuthHeaders(),
-        body: JSON.stringify({ content, category }),
       });
       return handleResponse(response);
     },
 
-    delete: async (id: number) => {
-      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notes/${id}`, {
-        method: 'DELETE',
+    acknowledgeWaitlistPromotion: async (entryId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/waitlist/${entryId}/acknowledge`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getMySubstitutionNotices: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/substitutions/mine`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    acknowledgeSubstitutionNotice: async (noticeId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/substitutions/${noticeId}/acknowledge`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getStandingBookings: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/standing`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    createStandingBooking: async (classId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/standing`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ class_id: classId }),
+      });
+      return handleResponse(response);
+    },
+
+    cancelStandingBooking: async (standingBookingId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bookings/standing/${standingBookingId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Calendar
+  calendar: {
+    getSubscription: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/calendar/subscription`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    resetSubscription: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/calendar/subscription/reset`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    // Returns the raw .ics text rather than JSON
+    downloadBooking: async (id: number): Promise<string> => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/calendar/bookings/${id}`, {
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) {
+        return handleResponse(response);
+      }
+      return response.text();
+    },
+  },
+
+  // Users
+  users: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getById: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users/${id}`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    updateConcessions: async (id: number, concessions: number, note?: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users/${id}/concessions`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ concessions, note }),
+      });
+      return handleResponse(response);
+    },
+
+    getLedger: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users/${id}/ledger`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getConcessionPacks: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users/${id}/concession-packs`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getStats: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/users/${id}/stats`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Instructors
+  instructors: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/instructors`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (instructor: InstructorInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/instructors`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(instructor),
+      });
+      return handleResponse(response);
+    },
+
+    update: async (id: number, instructor: InstructorInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/instructors/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(instructor),
+      });
+      return handleResponse(response);
+    },
+
+    deactivate: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/instructors/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getMySchedule: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/instructors/me/schedule`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getSubstitutions: async (id: number, from: string, to: string) => {
+      const params = new URLSearchParams({ from, to });
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/instructors/${id}/substitutions?${params}`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Class types
+  classTypes: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/class-types`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (classType: ClassTypeInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/class-types`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(classType),
+      });
+      return handleResponse(response);
+    },
+
+    update: async (id: number, classType: ClassTypeInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/class-types/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(classType),
+      });
+      return handleResponse(response);
+    },
+
+    deactivate: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/class-types/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Locations and rooms
+  locations: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/locations`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (location: LocationInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/locations`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(location),
+      });
+      return handleResponse(response);
+    },
+
+    update: async (id: number, location: LocationInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/locations/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(location),
+      });
+      return handleResponse(response);
+    },
+
+    deactivate: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/locations/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    createRoom: async (locationId: number, room: RoomInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/locations/${locationId}/rooms`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(room),
+      });
+      return handleResponse(response);
+    },
+
+    updateRoom: async (roomId: number, room: RoomInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/locations/rooms/${roomId}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(room),
+      });
+      return handleResponse(response);
+    },
+
+    deactivateRoom: async (roomId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/locations/rooms/${roomId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Notes
+  notes: {
+    getAll: async (userId?: number, category?: string) => {
+      const params = new URLSearchParams();
+      if (userId) params.append('userId', userId.toString());
+      if (category) params.append('category', category);
+      
+      const response = await fetchWithTimeout(
+        `${config.API_BASE_URL}/notes?${params.toString()}`,
+        { headers: getAuthHeaders() }
+      );
+      return handleResponse(response);
+    },
+
+    getUserNotes: async (userId: number, category?: string) => {
+      const params = new URLSearchParams();
+      if (category) params.append('category', category);
+      
+      const response = await fetchWithTimeout(
+        `${config.API_BASE_URL}/notes/user/${userId}?${params.toString()}`,
+        { headers: getAuthHeaders() }
+      );
+      return handleResponse(response);
+    },
+
+    create: async (userId: number, content: string, category: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notes`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ user_id: userId, content, category }),
+      });
+      return handleResponse(response);
+    },
+
+    update: async (id: number, content: string, category: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notes/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ content, category }),
+      });
+      return handleResponse(response);
+    },
+
+    delete: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notes/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Concession packages
+  concessionPackages: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/concession-packages`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (concessionPackage: ConcessionPackageInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/concession-packages`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(concessionPackage),
+      });
+      return handleResponse(response);
+    },
+
+    update: async (id: number, concessionPackage: ConcessionPackageInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/concession-packages/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(concessionPackage),
+      });
+      return handleResponse(response);
+    },
+
+    retire: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/concession-packages/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Membership plans and members' memberships
+  memberships: {
+    getPlans: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/plans`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    createPlan: async (plan: MembershipPlanInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/plans`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(plan),
+      });
+      return handleResponse(response);
+    },
+
+    updatePlan: async (id: number, plan: MembershipPlanInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/plans/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(plan),
+      });
+      return handleResponse(response);
+    },
+
+    retirePlan: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/plans/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getForUser: async (userId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/user/${userId}`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (userId: number, membership: MembershipInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ user_id: userId, ...membership }),
+      });
+      return handleResponse(response);
+    },
+
+    update: async (id: number, membership: MembershipInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(membership),
+      });
+      return handleResponse(response);
+    },
+
+    delete: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    pause: async (id: number, pause: MembershipPauseInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/${id}/pauses`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(pause),
+      });
+      return handleResponse(response);
+    },
+
+    removePause: async (pauseId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/memberships/pauses/${pauseId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Households (a payer's concession balance shared with their dependants)
+  households: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/households`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getForUser: async (userId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/households/user/${userId}`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (name: string, payerId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/households`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ name, payer_id: payerId }),
+      });
+      return handleResponse(response);
+    },
+
+    rename: async (id: number, name: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/households/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ name }),
+      });
+      return handleResponse(response);
+    },
+
+    delete: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/households/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    addMember: async (id: number, userId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/households/${id}/members`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ user_id: userId }),
+      });
+      return handleResponse(response);
+    },
+
+    removeMember: async (id: number, userId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/households/${id}/members/${userId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Promo codes and gift vouchers
+  vouchers: {
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/vouchers`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (voucher: VoucherInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/vouchers`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(voucher),
+      });
+      return handleResponse(response);
+    },
+
+    update: async (id: number, voucher: VoucherInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/vouchers/${id}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(voucher),
+      });
+      return handleResponse(response);
+    },
+
+    retire: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/vouchers/${id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    redeem: async (code: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/vouchers/redeem`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ code }),
+      });
+      return handleResponse(response);
+    },
+
+    getRedemptions: async (filters: VoucherRedemptionFilters = {}) => {
+      const params = new URLSearchParams();
+      if (filters.voucher_id) params.append('voucher_id', String(filters.voucher_id));
+      if (filters.user_id) params.append('user_id', String(filters.user_id));
+      if (filters.from) params.append('from', filters.from);
+      if (filters.to) params.append('to', filters.to);
+
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/vouchers/redemptions?${params.toString()}`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Bank statement imports and reconciliation
+  bankImports: {
+    getFormats: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bank-imports/formats`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getAll: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bank-imports`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    importStatement: async (upload: BankStatementUpload) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bank-imports`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(upload),
+      });
+      return handleResponse(response);
+    },
+
+    getTransactions: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bank-imports/transactions`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    matchTransaction: async (id: number, paymentId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bank-imports/transactions/${id}/match`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ payment_id: paymentId }),
+      });
+      return handleResponse(response);
+    },
+
+    ignoreTransaction: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/bank-imports/transactions/${id}/ignore`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Payments
+  payments: {
+    getDetails: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/payments/details`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    updateDetails: async (details: PaymentDetailsInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/payments/details`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(details),
+      });
+      return handleResponse(response);
+    },
+
+    getAll: async (status?: string) => {
+      const params = new URLSearchParams();
+      if (status) params.append('status', status);
+      
+      const response = await fetchWithTimeout(
+        `${config.API_BASE_URL}/payments?${params.toString()}`,
+        { headers: getAuthHeaders() }
+      );
+      return handleResponse(response);
+    },
+
+    getUserPayments: async (userId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/payments/user/${userId}`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    create: async (payment: PackagePurchase) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/payments`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(payment),
+      });
+      return handleResponse(response);
+    },
+
+    updateStatus: async (id: number, status: 'confirmed' | 'rejected', notes?: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/payments/${id}/status`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ status, notes }),
+      });
+      return handleResponse(response);
+    },
+
+    // Returns the receipt PDF rather than JSON
+    downloadInvoice: async (id: number): Promise<Blob> => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/payments/${id}/invoice`, {
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) {
+        return handleResponse(response);
+      }
+      return response.blob();
+    },
+
+    reissueInvoice: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/payments/${id}/invoice`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Settings
+  settings: {
+    getPolicies: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/settings/policies`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    updatePolicies: async (policy: BookingPolicyInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/settings/policies`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(policy),
+      });
+      return handleResponse(response);
+    },
+
+    updateClassPolicy: async (classId: number, overrides: ClassPolicyInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/settings/policies/classes/${classId}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(overrides),
+      });
+      return handleResponse(response);
+    },
+
+    deleteClassPolicy: async (classId: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/settings/policies/classes/${classId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+  },
+
+  // Member notifications: editable templates and the delivery log
+  notifications: {
+    getTemplates: async () => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notifications/templates`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    updateTemplate: async (eventKey: string, template: NotificationTemplateInput) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notifications/templates/${eventKey}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(template),
+      });
+      return handleResponse(response);
+    },
+
+    resetTemplate: async (eventKey: string) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notifications/templates/${eventKey}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getAll: async (filters: NotificationLogFilters = {}) => {
+      const params = new URLSearchParams();
+      if (filters.status) params.append('status', filters.status);
+      if (filters.event_key) params.append('event_key', filters.event_key);
+      if (filters.limit) params.append('limit', String(filters.limit));
+
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notifications?${params.toString()}`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    getDeliveries: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notifications/${id}/deliveries`, {
+        headers: getAuthHeaders(),
+      });
+      return handleResponse(response);
+    },
+
+    retry: async (id: number) => {
+      const response = await fetchWithTimeout(`${config.API_BASE_URL}/notifications/${id}/retry`, {
+        method: 'POST',
         headers: getAuthHeaders(),
       });
       return handleResponse(response);
@@ -318,37 +1481,158 @@ const realApi = {
 // API interface
 interface ApiInterface {
   auth: typeof realApi.auth;
+  sessions: typeof realApi.sessions;
   classes: typeof realApi.classes;
   bookings: typeof realApi.bookings;
+  calendar: typeof realApi.calendar;
   users: typeof realApi.users;
+  instructors: typeof realApi.instructors;
+  classTypes: typeof realApi.classTypes;
+  locations: typeof realApi.locations;
   notes: typeof realApi.notes;
+  concessionPackages: typeof realApi.concessionPackages;
+  memberships: typeof realApi.memberships;
+  households: typeof realApi.households;
+  vouchers: typeof realApi.vouchers;
+  bankImports: typeof realApi.bankImports;
+  payments: typeof realApi.payments;
+  settings: typeof realApi.settings;
+  notifications: typeof realApi.notifications;
   // Additional methods
   login: typeof realApi.auth.login;
   register: typeof realApi.auth.register;
   getCurrentUser: typeof realApi.auth.me;
   getMe: typeof realApi.auth.me;
+  updateProfile: typeof realApi.auth.updateProfile;
+  changePassword: typeof realApi.auth.changePassword;
+  forgotPassword: typeof realApi.auth.forgotPassword;
+  resetPassword: typeof realApi.auth.resetPassword;
+  verifyEmail: typeof realApi.auth.verifyEmail;
+  resendVerification: typeof realApi.auth.resendVerification;
+  refreshSession: typeof realApi.auth.refresh;
+  logout: typeof realApi.auth.logout;
+  getSessions: typeof realApi.sessions.getAll;
+  revokeSession: typeof realApi.sessions.revoke;
+  revokeOtherSessions: typeof realApi.sessions.revokeOthers;
   getClasses: typeof realApi.classes.getAll;
   getClassesForAdmin: typeof realApi.classes.getAllForAdmin;
   getClassById: typeof realApi.classes.getById;
+  getScheduleConflicts: typeof realApi.classes.getConflicts;
   createClass: typeof realApi.classes.create;
   updateClass: typeof realApi.classes.update;
   deleteClass: typeof realApi.classes.delete;
   getClassBookings: typeof realApi.classes.getBookings;
+  getClassRoster: typeof realApi.classes.getRoster;
+  getOccurrences: typeof realApi.classes.getOccurrences;
+  getClassOccurrences: typeof realApi.classes.getClassOccurrences;
+  updateOccurrence: typeof realApi.classes.updateOccurrence;
+  cancelOccurrence: typeof realApi.classes.cancelOccurrence;
+  restoreOccurrence: typeof realApi.classes.restoreOccurrence;
+  assignSubstitute: typeof realApi.classes.assignSubstitute;
+  removeSubstitute: typeof realApi.classes.removeSubstitute;
   getMyBookings: typeof realApi.bookings.getMyBookings;
+  getHouseholdBookings: typeof realApi.bookings.getHouseholdBookings;
   getAllBookings: typeof realApi.bookings.getAll;
   createBooking: typeof realApi.bookings.create;
   cancelBooking: typeof realApi.bookings.cancel;
   completeClass: typeof realApi.bookings.completeClass;
   undoCompleteClass: typeof realApi.bookings.undoCompleteClass;
+  markAttendance: typeof realApi.bookings.markAttendance;
+  getCheckInCode: typeof realApi.bookings.getCheckInCode;
+  getKioskSessions: typeof realApi.bookings.getKioskSessions;
+  checkIn: typeof realApi.bookings.checkIn;
+  getMyWaitlist: typeof realApi.bookings.getMyWaitlist;
+  joinWaitlist: typeof realApi.bookings.joinWaitlist;
+  leaveWaitlist: typeof realApi.bookings.leaveWaitlist;
+  acknowledgeWaitlistPromotion: typeof realApi.bookings.acknowledgeWaitlistPromotion;
+  getMySubstitutionNotices: typeof realApi.bookings.getMySubstitutionNotices;
+  acknowledgeSubstitutionNotice: typeof realApi.bookings.acknowledgeSubstitutionNotice;
+  getStandingBookings: typeof realApi.bookings.getStandingBookings;
+  createStandingBooking: typeof realApi.bookings.createStandingBooking;
+  cancelStandingBooking: typeof realApi.bookings.cancelStandingBooking;
+  getCalendarSubscription: typeof realApi.calendar.getSubscription;
+  resetCalendarSubscription: typeof realApi.calendar.resetSubscription;
+  downloadBookingCalendar: typeof realApi.calendar.downloadBooking;
   getAllUsers: typeof realApi.users.getAll;
   getUsers: typeof realApi.users.getAll; // Alias for compatibility
   getUserById: typeof realApi.users.getById;
   updateUserConcessions: typeof realApi.users.updateConcessions;
+  getConcessionLedger: typeof realApi.users.getLedger;
+  getConcessionPacks: typeof realApi.users.getConcessionPacks;
+  getUserStats: typeof realApi.users.getStats;
+  getInstructors: typeof realApi.instructors.getAll;
+  createInstructor: typeof realApi.instructors.create;
+  updateInstructor: typeof realApi.instructors.update;
+  deactivateInstructor: typeof realApi.instructors.deactivate;
+  getMyTeachingSchedule: typeof realApi.instructors.getMySchedule;
+  getInstructorSubstitutions: typeof realApi.instructors.getSubstitutions;
+  getClassTypes: typeof realApi.classTypes.getAll;
+  createClassType: typeof realApi.classTypes.create;
+  updateClassType: typeof realApi.classTypes.update;
+  deactivateClassType: typeof realApi.classTypes.deactivate;
+  getLocations: typeof realApi.locations.getAll;
+  createLocation: typeof realApi.locations.create;
+  updateLocation: typeof realApi.locations.update;
+  deactivateLocation: typeof realApi.locations.deactivate;
+  createRoom: typeof realApi.locations.createRoom;
+  updateRoom: typeof realApi.locations.updateRoom;
+  deactivateRoom: typeof realApi.locations.deactivateRoom;
   getAllNotes: typeof realApi.notes.getAll;
   getUserNotes: typeof realApi.notes.getUserNotes;
   createNote: typeof realApi.notes.create;
   updateNote: typeof realApi.notes.update;
   deleteNote: typeof realApi.notes.delete;
+  getConcessionPackages: typeof realApi.concessionPackages.getAll;
+  createConcessionPackage: typeof realApi.concessionPackages.create;
+  updateConcessionPackage: typeof realApi.concessionPackages.update;
+  retireConcessionPackage: typeof realApi.concessionPackages.retire;
+  getMembershipPlans: typeof realApi.memberships.getPlans;
+  createMembershipPlan: typeof realApi.memberships.createPlan;
+  updateMembershipPlan: typeof realApi.memberships.updatePlan;
+  retireMembershipPlan: typeof realApi.memberships.retirePlan;
+  getUserMemberships: typeof realApi.memberships.getForUser;
+  createMembership: typeof realApi.memberships.create;
+  updateMembership: typeof realApi.memberships.update;
+  deleteMembership: typeof realApi.memberships.delete;
+  pauseMembership: typeof realApi.memberships.pause;
+  removeMembershipPause: typeof realApi.memberships.removePause;
+  getHouseholds: typeof realApi.households.getAll;
+  getUserHousehold: typeof realApi.households.getForUser;
+  createHousehold: typeof realApi.households.create;
+  renameHousehold: typeof realApi.households.rename;
+  deleteHousehold: typeof realApi.households.delete;
+  addHouseholdMember: typeof realApi.households.addMember;
+  removeHouseholdMember: typeof realApi.households.removeMember;
+  getVouchers: typeof realApi.vouchers.getAll;
+  createVoucher: typeof realApi.vouchers.create;
+  updateVoucher: typeof realApi.vouchers.update;
+  retireVoucher: typeof realApi.vouchers.retire;
+  redeemVoucher: typeof realApi.vouchers.redeem;
+  getVoucherRedemptions: typeof realApi.vouchers.getRedemptions;
+  getBankStatementFormats: typeof realApi.bankImports.getFormats;
+  getBankImports: typeof realApi.bankImports.getAll;
+  importBankStatement: typeof realApi.bankImports.importStatement;
+  getBankTransactions: typeof realApi.bankImports.getTransactions;
+  matchBankTransaction: typeof realApi.bankImports.matchTransaction;
+  ignoreBankTransaction: typeof realApi.bankImports.ignoreTransaction;
+  getPaymentDetails: typeof realApi.payments.getDetails;
+  updatePaymentDetails: typeof realApi.payments.updateDetails;
+  getAllPayments: typeof realApi.payments.getAll;
+  getUserPayments: typeof realApi.payments.getUserPayments;
+  createPayment: typeof realApi.payments.create;
+  updatePaymentStatus: typeof realApi.payments.updateStatus;
+  downloadInvoice: typeof realApi.payments.downloadInvoice;
+  reissueInvoice: typeof realApi.payments.reissueInvoice;
+  getPolicies: typeof realApi.settings.getPolicies;
+  updatePolicies: typeof realApi.settings.updatePolicies;
+  updateClassPolicy: typeof realApi.settings.updateClassPolicy;
+  deleteClassPolicy: typeof realApi.settings.deleteClassPolicy;
+  getNotificationTemplates: typeof realApi.notifications.getTemplates;
+  updateNotificationTemplate: typeof realApi.notifications.updateTemplate;
+  resetNotificationTemplate: typeof realApi.notifications.resetTemplate;
+  getNotifications: typeof realApi.notifications.getAll;
+  getNotificationDeliveries: typeof realApi.notifications.getDeliveries;
+  retryNotification: typeof realApi.notifications.retry;
 }
 
 // Create the API object with proper selection
@@ -363,28 +1647,136 @@ const createApi = (): ApiInterface => {
     register: baseApi.auth.register,
     getCurrentUser: baseApi.auth.me,
     getMe: baseApi.auth.me,
+    updateProfile: baseApi.auth.updateProfile,
+    changePassword: baseApi.auth.changePassword,
+    forgotPassword: baseApi.auth.forgotPassword,
+    resetPassword: baseApi.auth.resetPassword,
+    verifyEmail: baseApi.auth.verifyEmail,
+    resendVerification: baseApi.auth.resendVerification,
+    refreshSession: baseApi.auth.refresh,
+    logout: baseApi.auth.logout,
+    getSessions: baseApi.sessions.getAll,
+    revokeSession: baseApi.sessions.revoke,
+    revokeOtherSessions: baseApi.sessions.revokeOthers,
     getClasses: baseApi.classes.getAll,
     getClassesForAdmin: baseApi.classes.getAllForAdmin,
     getClassById: baseApi.classes.getById,
+    getScheduleConflicts: baseApi.classes.getConflicts,
     createClass: baseApi.classes.create,
     updateClass: baseApi.classes.update,
     deleteClass: baseApi.classes.delete,
     getClassBookings: baseApi.classes.getBookings,
+    getClassRoster: baseApi.classes.getRoster,
+    getOccurrences: baseApi.classes.getOccurrences,
+    getClassOccurrences: baseApi.classes.getClassOccurrences,
+    updateOccurrence: baseApi.classes.updateOccurrence,
+    cancelOccurrence: baseApi.classes.cancelOccurrence,
+    restoreOccurrence: baseApi.classes.restoreOccurrence,
+    assignSubstitute: baseApi.classes.assignSubstitute,
+    removeSubstitute: baseApi.classes.removeSubstitute,
     getMyBookings: baseApi.bookings.getMyBookings,
+    getHouseholdBookings: baseApi.bookings.getHouseholdBookings,
     getAllBookings: baseApi.bookings.getAll,
     createBooking: baseApi.bookings.create,
     cancelBooking: baseApi.bookings.cancel,
     completeClass: baseApi.bookings.completeClass,
     undoCompleteClass: baseApi.bookings.undoCompleteClass,
+    markAttendance: baseApi.bookings.markAttendance,
+    getCheckInCode: baseApi.bookings.getCheckInCode,
+    getKioskSessions: baseApi.bookings.getKioskSessions,
+    checkIn: baseApi.bookings.checkIn,
+    getMyWaitlist: baseApi.bookings.getMyWaitlist,
+    joinWaitlist: baseApi.bookings.joinWaitlist,
+    leaveWaitlist: baseApi.bookings.leaveWaitlist,
+    acknowledgeWaitlistPromotion: baseApi.bookings.acknowledgeWaitlistPromotion,
+    getMySubstitutionNotices: baseApi.bookings.getMySubstitutionNotices,
+    acknowledgeSubstitutionNotice: baseApi.bookings.acknowledgeSubstitutionNotice,
+    getStandingBookings: baseApi.bookings.getStandingBookings,
+    createStandingBooking: baseApi.bookings.createStandingBooking,
+    cancelStandingBooking: baseApi.bookings.cancelStandingBooking,
+    getCalendarSubscription: baseApi.calendar.getSubscription,
+    resetCalendarSubscription: baseApi.calendar.resetSubscription,
+    downloadBookingCalendar: baseApi.calendar.downloadBooking,
     getAllUsers: baseApi.users.getAll,
     getUsers: baseApi.users.getAll, // Alias for compatibility
     getUserById: baseApi.users.getById,
     updateUserConcessions: baseApi.users.updateConcessions,
+    getConcessionLedger: baseApi.users.getLedger,
+    getConcessionPacks: baseApi.users.getConcessionPacks,
+    getUserStats: baseApi.users.getStats,
+    getInstructors: baseApi.instructors.getAll,
+    createInstructor: baseApi.instructors.create,
+    updateInstructor: baseApi.instructors.update,
+    deactivateInstructor: baseApi.instructors.deactivate,
+    getMyTeachingSchedule: baseApi.instructors.getMySchedule,
+    getInstructorSubstitutions: baseApi.instructors.getSubstitutions,
+    getClassTypes: baseApi.classTypes.getAll,
+    createClassType: baseApi.classTypes.create,
+    updateClassType: baseApi.classTypes.update,
+    deactivateClassType: baseApi.classTypes.deactivate,
+    getLocations: baseApi.locations.getAll,
+    createLocation: baseApi.locations.create,
+    updateLocation: baseApi.locations.update,
+    deactivateLocation: baseApi.locations.deactivate,
+    createRoom: baseApi.locations.createRoom,
+    updateRoom: baseApi.locations.updateRoom,
+    deactivateRoom: baseApi.locations.deactivateRoom,
     getAllNotes: baseApi.notes.getAll,
     getUserNotes: baseApi.notes.getUserNotes,
     createNote: baseApi.notes.create,
     updateNote: baseApi.notes.update,
     deleteNote: baseApi.notes.delete,
+    getConcessionPackages: baseApi.concessionPackages.getAll,
+    createConcessionPackage: baseApi.concessionPackages.create,
+    updateConcessionPackage: baseApi.concessionPackages.update,
+    retireConcessionPackage: baseApi.concessionPackages.retire,
+    getMembershipPlans: baseApi.memberships.getPlans,
+    createMembershipPlan: baseApi.memberships.createPlan,
+    updateMembershipPlan: baseApi.memberships.updatePlan,
+    retireMembershipPlan: baseApi.memberships.retirePlan,
+    getUserMemberships: baseApi.memberships.getForUser,
+    createMembership: baseApi.memberships.create,
+    updateMembership: baseApi.memberships.update,
+    deleteMembership: baseApi.memberships.delete,
+    pauseMembership: baseApi.memberships.pause,
+    removeMembershipPause: baseApi.memberships.removePause,
+    getHouseholds: baseApi.households.getAll,
+    getUserHousehold: baseApi.households.getForUser,
+    createHousehold: baseApi.households.create,
+    renameHousehold: baseApi.households.rename,
+    deleteHousehold: baseApi.households.delete,
+    addHouseholdMember: baseApi.households.addMember,
+    removeHouseholdMember: baseApi.households.removeMember,
+    getVouchers: baseApi.vouchers.getAll,
+    createVoucher: baseApi.vouchers.create,
+    updateVoucher: baseApi.vouchers.update,
+    retireVoucher: baseApi.vouchers.retire,
+    redeemVoucher: baseApi.vouchers.redeem,
+    getVoucherRedemptions: baseApi.vouchers.getRedemptions,
+    getBankStatementFormats: baseApi.bankImports.getFormats,
+    getBankImports: baseApi.bankImports.getAll,
+    importBankStatement: baseApi.bankImports.importStatement,
+    getBankTransactions: baseApi.bankImports.getTransactions,
+    matchBankTransaction: baseApi.bankImports.matchTransaction,
+    ignoreBankTransaction: baseApi.bankImports.ignoreTransaction,
+    getPaymentDetails: baseApi.payments.getDetails,
+    updatePaymentDetails: baseApi.payments.updateDetails,
+    getAllPayments: baseApi.payments.getAll,
+    getUserPayments: baseApi.payments.getUserPayments,
+    createPayment: baseApi.payments.create,
+    updatePaymentStatus: baseApi.payments.updateStatus,
+    downloadInvoice: baseApi.payments.downloadInvoice,
+    reissueInvoice: baseApi.payments.reissueInvoice,
+    getPolicies: baseApi.settings.getPolicies,
+    updatePolicies: baseApi.settings.updatePolicies,
+    updateClassPolicy: baseApi.settings.updateClassPolicy,
+    deleteClassPolicy: baseApi.settings.deleteClassPolicy,
+    getNotificationTemplates: baseApi.notifications.getTemplates,
+    updateNotificationTemplate: baseApi.notifications.updateTemplate,
+    resetNotificationTemplate: baseApi.notifications.resetTemplate,
+    getNotifications: baseApi.notifications.getAll,
+    getNotificationDeliveries: baseApi.notifications.getDeliveries,
+    retryNotification: baseApi.notifications.retry,
   };
 };
 
@@ -0,0 +1,243 @@
+// Reading bank statement CSVs (same rules as the backend). The admin screen uses this to offer the file's
+// columns when mapping a custom layout; the mock API uses it to import statements.
+
+export interface BankStatementMapping {
+  date: string;
+  amount: string;
+  payer: string | null;
+  reference: string[];
+  date_format: string;
+}
+
+export interface StatementTransaction {
+  row_number: number;
+  transaction_date: string;
+  amount: number;
+  payer: string;
+  reference: string;
+  fingerprint: string;
+}
+
+export interface MatchablePayment {
+  id: number;
+  amount: number;
+  reference: string;
+  user_name?: string;
+}
+
+export type TransactionMatchStatus = 'matched' | 'review' | 'unmatched';
+
+// Column layouts of the statement CSVs exported by the main NZ banks
+export const BANK_STATEMENT_FORMATS: { [key: string]: { name: string; mapping: BankStatementMapping } } = {
+  anz: {
+    name: 'ANZ',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Details', reference: ['Particulars', 'Code', 'Reference'], date_format: 'DD/MM/YYYY' }
+  },
+  asb: {
+    name: 'ASB',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Payee', reference: ['Memo'], date_format: 'YYYY/MM/DD' }
+  },
+  bnz: {
+    name: 'BNZ',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Payee', reference: ['Particulars', 'Code', 'Reference'], date_format: 'DD/MM/YY' }
+  },
+  westpac: {
+    name: 'Westpac',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'Other Party', reference: ['Particulars', 'Analysis Code', 'Reference', 'Description'], date_format: 'DD/MM/YYYY' }
+  },
+  kiwibank: {
+    name: 'Kiwibank',
+    mapping: { date: 'Date', amount: 'Amount', payer: 'OP name', reference: ['OP part', 'OP code', 'OP ref', 'Memo/Description'], date_format: 'DD-MM-YYYY' }
+  }
+};
+
+export const DATE_FORMATS = ['DD/MM/YYYY', 'DD/MM/YY', 'YYYY/MM/DD', 'DD-MM-YYYY', 'YYYY-MM-DD'];
+
+// Split CSV text into rows of cells, handling quoted cells with commas, escaped quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c !== ''));
+};
+
+// Guess the header row of a statement for mapping a custom layout: the first row with a "date" column,
+// or the first row with as many cells as the widest row
+export const guessStatementHeaders = (text: string): string[] => {
+  const rows = parseCsv(text);
+  const width = Math.max(0, ...rows.map(r => r.length));
+  return rows.find(r => r.some(c => /date/i.test(c))) || rows.find(r => r.length === width) || [];
+};
+
+export const parseStatementDate = (value: string, format: string): string | null => {
+  const parts = String(value).trim().split(/[/-]/);
+  if (parts.length !== 3) return null;
+
+  let [day, month, year] = parts;
+  if (format.startsWith('YYYY')) {
+    [year, month, day] = parts;
+  }
+  if (year.length === 2) year = `20${year}`;
+
+  const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== parseInt(day)) return null;
+
+  return date.toISOString().split('T')[0];
+};
+
+export const parseStatementAmount = (value: string): number | null => {
+  const amount = parseFloat(String(value).replace(/[$,\s]/g, ''));
+  return isNaN(amount) ? null : Math.round(amount * 100) / 100;
+};
+
+// Compare references however the member typed them ("fb 7kq2xm" matches FB-7KQ2XM)
+export const normaliseReference = (value: string | null | undefined) => String(value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Read the deposits out of a statement. The fingerprint identifies a line across re-imports.
+export const readStatement = (text: string, mapping: BankStatementMapping) => {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(r => r.includes(mapping.date) && r.includes(mapping.amount));
+  if (headerIndex === -1) {
+    return { error: `Couldn't find the "${mapping.date}" and "${mapping.amount}" columns in this file`, transactions: [], skipped: 0 };
+  }
+
+  const headers = rows[headerIndex];
+  const column = (name: string) => headers.indexOf(name);
+  const referenceColumns = (mapping.reference || []).map(column).filter(i => i !== -1);
+  const payerColumn = mapping.payer ? column(mapping.payer) : -1;
+
+  const transactions: StatementTransaction[] = [];
+  let skipped = 0;
+  const seen: { [key: string]: number } = {};
+
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const date = parseStatementDate(row[column(mapping.date)] ?? '', mapping.date_format);
+    const amount = parseStatementAmount(row[column(mapping.amount)] ?? '');
+
+    if (!date || amount === null) {
+      skipped++;
+      return;
+    }
+    if (amount <= 0) return;
+
+    const reference = referenceColumns.map(i => row[i]).filter(Boolean).join(' ');
+    const payer = payerColumn !== -1 ? row[payerColumn] || '' : '';
+
+    const key = [date, amount.toFixed(2), normaliseReference(reference), payer.toUpperCase()].join('|');
+    seen[key] = (seen[key] || 0) + 1;
+
+    transactions.push({
+      row_number: headerIndex + index + 2,
+      transaction_date: date,
+      amount,
+      payer,
+      reference,
+      fingerprint: `${key}|${seen[key]}`
+    });
+  });
+
+  return { error: null, transactions, skipped };
+};
+
+const editDistance = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// Each word of a description, plus runs of up to three neighbouring words joined up (e.g. "FB 7KQ2XM")
+const getReferenceTokens = (description: string) => {
+  const parts = description.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  const tokens = new Set<string>();
+  parts.forEach((_, start) => {
+    for (let end = start + 1; end <= Math.min(start + 3, parts.length); end++) {
+      tokens.add(parts.slice(start, end).join(''));
+    }
+  });
+  return tokens;
+};
+
+// Exact reference and amount: matched. A wrong amount, a mistyped reference or just the payer's name: review.
+export const matchTransaction = <P extends MatchablePayment>(
+  transaction: StatementTransaction,
+  pendingPayments: P[]
+): { status: TransactionMatchStatus; payment: P | null; reason: string | null } => {
+  const text = normaliseReference(transaction.reference);
+  const words = [text, ...transaction.reference.toUpperCase().split(/[^A-Z0-9-]+/).map(normaliseReference)]
+    .filter(w => w.length >= 4);
+  const sameAmount = (payment: P) => Math.abs(payment.amount - transaction.amount) < 0.005;
+
+  // Only a whole reference counts, so DROPIN-12 doesn't match DROPIN-1
+  const tokens = getReferenceTokens(transaction.reference);
+  const byReference = pendingPayments.find(p => normaliseReference(p.reference).length >= 6 && tokens.has(normaliseReference(p.reference)));
+  if (byReference && sameAmount(byReference)) {
+    return { status: 'matched', payment: byReference, reason: 'Reference and amount match' };
+  }
+  if (byReference) {
+    return {
+      status: 'review',
+      payment: byReference,
+      reason: `Reference matches but the amount is $${transaction.amount.toFixed(2)}, not $${byReference.amount.toFixed(2)}`
+    };
+  }
+
+  const byTypo = pendingPayments.find(p => sameAmount(p) && p.reference &&
+    words.some(w => editDistance(w, normaliseReference(p.reference)) <= 2));
+  if (byTypo) {
+    return { status: 'review', payment: byTypo, reason: `Amount matches and the reference looks like ${byTypo.reference}` };
+  }
+
+  const payer = transaction.payer.toUpperCase();
+  const byName = pendingPayments.filter(p => {
+    const nameParts = String(p.user_name || '').toUpperCase().split(/\s+/).filter(part => part.length >= 3);
+    return sameAmount(p) && nameParts.length > 0 && nameParts.every(part => payer.includes(part));
+  });
+  if (byName.length === 1) {
+    return { status: 'review', payment: byName[0], reason: `Amount matches and the payer looks like ${byName[0].user_name}` };
+  }
+
+  return { status: 'unmatched', payment: null, reason: null };
+};
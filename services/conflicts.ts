@@ -0,0 +1,14 @@
+// Schedule clashes, as reported by the backend (utils/conflicts.js) and the mock API
+
+// Two classes whose weekly sessions overlap in the same room or with the same instructor
+export interface ScheduleConflict {
+  class_id: number;
+  class_name: string;
+  class_time: string;
+  other_class_id: number;
+  other_class_name: string;
+  other_class_time: string;
+  days: string[];
+  type: 'room' | 'instructor';
+  resource_name: string;
+}
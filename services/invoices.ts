@@ -0,0 +1,219 @@
+// Receipt layout shared by the mock API (same as the backend's invoices util)
+import { createPdfPage, renderPdf, wrapText, PAGE_SIZE } from './pdf';
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  concessions: number | null; // Concessions the line added to the balance (none for a drop-in)
+  unit_price: number;
+  amount: number;
+}
+
+// Copied from the payment details when the invoice is issued
+export interface InvoiceBusiness {
+  name: string;
+  address: string | null;
+  gst_number: string | null;
+  bank_name: string | null;
+  account_name: string | null;
+  account_number: string | null;
+}
+
+export interface Invoice {
+  invoice_number: string;
+  issued_at: string;
+  business: InvoiceBusiness;
+  customer: { name: string; email: string };
+  lines: InvoiceLine[];
+  total: number;
+  gst_amount: number;
+  payment_reference: string | null;
+  payment_method: string;
+  paid_at: string | null;
+  replaces_invoice_number: string | null;
+}
+
+// The payment fields an invoice is built from
+export interface InvoicePayment {
+  amount: number | string;
+  payment_type?: 'concessions' | 'drop_in';
+  concessions_purchased: number;
+  validity_months?: number | null;
+  package_name?: string | null;
+  class_name?: string | null;
+  booking_date?: string | null;
+  voucher_code?: string | null; // The discount code the package was bought with
+  percent_off?: number | null;
+  discount_amount?: number | string | null;
+}
+
+// Prices are GST inclusive (New Zealand GST is 15%)
+export const GST_RATE = 0.15;
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: 'Bank transfer',
+  cash: 'Cash'
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatMoney = (amount: number | string) => `${Number(amount) < 0 ? '-' : ''}$${Math.abs(Number(amount)).toFixed(2)}`;
+
+// Helper function to format a date as e.g. "19 Oct 2026"
+const formatDate = (value: string | Date) => {
+  // Plain dates (YYYY-MM-DD) are read as local dates rather than UTC midnight
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? new Date(`${value}T00:00:00`) : new Date(value);
+  return `${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+};
+
+// The GST contained in a GST-inclusive amount
+export const gstIncluded = (total: number) => roundCents(total - total / (1 + GST_RATE));
+
+// The invoice lines for a payment (joined with its package_name, class_name and booking_date, and the
+// voucher_code, percent_off and discount_amount of any discount code), with the concessions each line added
+// to the member's balance. A discount is shown as its own line taken off the package's price.
+export const buildInvoiceLines = (payment: InvoicePayment): InvoiceLine[] => {
+  const amount = roundCents(Number(payment.amount));
+
+  if (payment.payment_type === 'drop_in') {
+    return [{
+      description: `Drop-in class${payment.class_name ? `: ${payment.class_name}` : ''}${payment.booking_date ? ` on ${formatDate(payment.booking_date)}` : ''}`,
+      quantity: 1,
+      concessions: null,
+      unit_price: amount,
+      amount
+    }];
+  }
+
+  const validity = payment.validity_months
+    ? ` (valid ${payment.validity_months} month${payment.validity_months === 1 ? '' : 's'})`
+    : '';
+
+  const discount = roundCents(Number(payment.discount_amount || 0));
+  const lines: InvoiceLine[] = [{
+    description: `${payment.package_name || 'Class concessions'}${validity}`,
+    quantity: 1,
+    concessions: payment.concessions_purchased,
+    unit_price: roundCents(amount + discount),
+    amount: roundCents(amount + discount)
+  }];
+
+  if (discount > 0) {
+    lines.push({
+      description: `Discount code ${payment.voucher_code}${payment.percent_off ? ` (${payment.percent_off}% off)` : ''}`,
+      quantity: 1,
+      concessions: null,
+      unit_price: -discount,
+      amount: -discount
+    });
+  }
+
+  return lines;
+};
+
+// Lay out an invoice (joined with payment_reference, payment_method, paid_at and replaces_invoice_number) as
+// a one-page PDF. Without a GST number on file it's a plain receipt, since only a registered business can
+// issue a tax invoice.
+export const renderInvoicePdf = (invoice: Invoice) => {
+  const page = createPdfPage();
+  const { business, customer, lines } = invoice;
+  const left = 50;
+  const right = PAGE_SIZE.width - 50;
+  const isTaxInvoice = Boolean(business.gst_number);
+  const title = isTaxInvoice ? 'TAX INVOICE / RECEIPT' : 'RECEIPT';
+
+  // Business (left) and invoice details (right)
+  page.text(business.name, left, 70, { size: 18, bold: true });
+  page.text(title, right, 70, { size: 14, bold: true, align: 'right' });
+
+  let y = 90;
+  for (const line of wrapText(business.address || '', 250, 9)) {
+    if (line) {
+      page.text(line, left, y, { size: 9, gray: 0.35 });
+      y += 12;
+    }
+  }
+  if (isTaxInvoice) {
+    page.text(`GST number: ${business.gst_number}`, left, y, { size: 9, gray: 0.35 });
+    y += 12;
+  }
+
+  const details = [
+    ['Invoice number', invoice.invoice_number],
+    ['Date issued', formatDate(invoice.issued_at)],
+    ['Payment reference', invoice.payment_reference || '-'],
+    ['Paid', `${invoice.paid_at ? formatDate(invoice.paid_at) : '-'} by ${(PAYMENT_METHOD_LABELS[invoice.payment_method] || invoice.payment_method || 'payment').toLowerCase()}`]
+  ];
+  let detailY = 90;
+  for (const [label, value] of details) {
+    page.text(label, right - 150, detailY, { size: 9, gray: 0.35 });
+    page.text(value, right, detailY, { size: 9, align: 'right' });
+    detailY += 12;
+  }
+  if (invoice.replaces_invoice_number) {
+    page.text(`Re-issued: replaces ${invoice.replaces_invoice_number}`, right, detailY, { size: 9, bold: true, align: 'right' });
+    detailY += 12;
+  }
+
+  // Customer
+  y = Math.max(y, detailY) + 20;
+  page.text('Bill to', left, y, { size: 9, gray: 0.35 });
+  page.text(customer.name, left, y + 14, { size: 11, bold: true });
+  page.text(customer.email, left, y + 27, { size: 9 });
+
+  // Line items
+  y += 60;
+  const columns = { quantity: 340, concessions: 410, unitPrice: 475, amount: right };
+  page.text('Description', left, y, { size: 9, bold: true });
+  page.text('Qty', columns.quantity, y, { size: 9, bold: true, align: 'right' });
+  page.text('Concessions', columns.concessions, y, { size: 9, bold: true, align: 'right' });
+  page.text('Unit price', columns.unitPrice, y, { size: 9, bold: true, align: 'right' });
+  page.text('Amount', columns.amount, y, { size: 9, bold: true, align: 'right' });
+  page.line(left, y + 6, right, y + 6);
+  y += 22;
+
+  for (const line of lines) {
+    const descriptionLines = wrapText(line.description, 230, 10);
+    descriptionLines.forEach((text, index) => page.text(text, left, y + index * 13, { size: 10 }));
+    page.text(String(line.quantity), columns.quantity, y, { size: 10, align: 'right' });
+    page.text(line.concessions ? String(line.concessions) : '-', columns.concessions, y, { size: 10, align: 'right' });
+    page.text(formatMoney(line.unit_price), columns.unitPrice, y, { size: 10, align: 'right' });
+    page.text(formatMoney(line.amount), columns.amount, y, { size: 10, align: 'right' });
+    y += descriptionLines.length * 13 + 8;
+  }
+  page.line(left, y - 4, right, y - 4);
+
+  // Totals
+  const total = Number(invoice.total);
+  const gstAmount = Number(invoice.gst_amount);
+  y += 12;
+  const totals: [string, string][] = isTaxInvoice
+    ? [['Total excluding GST', formatMoney(total - gstAmount)], [`GST (${GST_RATE * 100}%)`, formatMoney(gstAmount)]]
+    : [];
+  for (const [label, value] of totals) {
+    page.text(label, columns.unitPrice, y, { size: 10, align: 'right' });
+    page.text(value, right, y, { size: 10, align: 'right' });
+    y += 15;
+  }
+  page.text(isTaxInvoice ? 'Total including GST' : 'Total', columns.unitPrice, y, { size: 11, bold: true, align: 'right' });
+  page.text(formatMoney(total), right, y, { size: 11, bold: true, align: 'right' });
+  y += 15;
+  page.text('Amount paid', columns.unitPrice, y, { size: 10, align: 'right' });
+  page.text(formatMoney(total), right, y, { size: 10, align: 'right' });
+  y += 15;
+  page.text('Balance due', columns.unitPrice, y, { size: 10, bold: true, align: 'right' });
+  page.text(formatMoney(0), right, y, { size: 10, bold: true, align: 'right' });
+
+  // Footer
+  const footer = [
+    'Paid in full - thank you.',
+    business.bank_name || business.account_number
+      ? `Bank account: ${[business.account_name, business.bank_name, business.account_number].filter(Boolean).join(', ')}`
+      : null
+  ].filter((text): text is string => Boolean(text));
+  footer.forEach((text, index) => page.text(text, left, PAGE_SIZE.height - 60 + index * 12, { size: 9, gray: 0.35 }));
+
+  return renderPdf(page, { title: `${isTaxInvoice ? 'Tax invoice' : 'Receipt'} ${invoice.invoice_number}` });
+};
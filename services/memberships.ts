@@ -0,0 +1,41 @@
+// Membership plan rules shared by the mock API and the UI (same rules as the backend)
+
+export type MembershipPlanType = 'unlimited' | 'weekly' | 'off_peak';
+
+export const MEMBERSHIP_PLAN_TYPES: { value: MembershipPlanType; label: string }[] = [
+  { value: 'unlimited', label: 'Unlimited' },
+  { value: 'weekly', label: 'Classes per week' },
+  { value: 'off_peak', label: 'Off-peak only' }
+];
+
+// Off-peak classes start between 09:00 and 16:00 on a weekday
+export const OFF_PEAK_HOURS = { from: 9, to: 16 };
+
+// Booking statuses that use up one of a weekly plan's classes (a late cancellation still counts)
+export const WEEKLY_COUNTED_STATUSES = ['confirmed', 'completed', 'no-show', 'late-cancelled'];
+
+export const isOffPeak = (date: string, time: string): boolean => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const hour = parseInt(time.split(':')[0]);
+  return day !== 0 && day !== 6 && hour >= OFF_PEAK_HOURS.from && hour < OFF_PEAK_HOURS.to;
+};
+
+// The Monday and Sunday of the week a date falls in
+export const getWeekRange = (date: string) => {
+  const monday = new Date(`${date}T00:00:00Z`);
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  const sunday = new Date(monday);
+  sunday.setUTCDate(monday.getUTCDate() + 6);
+  return { from: monday.toISOString().split('T')[0], to: sunday.toISOString().split('T')[0] };
+};
+
+// What a plan lets a member book, e.g. "3 classes a week"
+export const describePlan = (plan: { plan_type: MembershipPlanType; classes_per_week: number | null }) => {
+  if (plan.plan_type === 'weekly') {
+    return `${plan.classes_per_week} class${plan.classes_per_week === 1 ? '' : 'es'} a week`;
+  }
+  if (plan.plan_type === 'off_peak') {
+    return `Weekday classes starting between ${OFF_PEAK_HOURS.from}:00 and ${OFF_PEAK_HOURS.to}:00`;
+  }
+  return 'Unlimited classes';
+};
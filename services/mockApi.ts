@@ -1,6 +1,12 @@
 // Mock API service for development when backend is not available
 // This version simulates state changes in localStorage to mimic a real database
 
+import { getTimeOfDay, type TimeOfDay } from './timeOfDay';
+import { BANK_STATEMENT_FORMATS, DATE_FORMATS, readStatement, matchTransaction, type BankStatementMapping } from './bankStatements';
+import { isOffPeak, getWeekRange, WEEKLY_COUNTED_STATUSES, type MembershipPlanType } from './memberships';
+import { gstIncluded, buildInvoiceLines, renderInvoicePdf, type InvoiceBusiness, type InvoiceLine } from './invoices';
+import type { ScheduleConflict } from './conflicts';
+
 interface User {
   id: number;
   name: string;
@@ -8,6 +14,73 @@ interface User {
   role: string;
   concessions: number;
   join_date: string;
+  home_location_id?: number | null;
+  email_verified?: boolean; // Missing on accounts created before email verification, which count as verified
+}
+
+// A single-use link emailed for a password reset or email verification
+interface MockAuthToken {
+  token: string;
+  user_id: number;
+  purpose: 'password_reset' | 'email_verification';
+  expires_at: string;
+  used_at: string | null;
+}
+
+// A signed-in device. The current one's id is kept in localStorage, standing in for the refresh token cookie.
+interface MockSession {
+  id: number;
+  user_id: number;
+  user_agent: string;
+  ip_address: string;
+  created_at: string;
+  last_used_at: string;
+  revoked_at: string | null;
+}
+
+// An email the mock "sent" (kept in the browser instead, like the backend's development outbox)
+interface MockEmail {
+  to: string;
+  subject: string;
+  text: string;
+  sent_at: string;
+}
+
+type MockNotificationEvent =
+  'booking_confirmed' | 'booking_cancelled' | 'class_cancelled' | 'payment_confirmed' | 'payment_rejected' | 'low_balance';
+
+// An email queued for a member. The mock delivers it straight away, but keeps the same log as the backend outbox.
+interface MockNotification {
+  id: number;
+  user_id: number;
+  event_key: MockNotificationEvent;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+interface MockNotificationDelivery {
+  id: number;
+  notification_id: number;
+  attempt: number;
+  transport: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  created_at: string;
+}
+
+// The gym's edits to a built-in notification template
+interface MockNotificationTemplateEdit {
+  subject: string;
+  body: string;
+  is_enabled: boolean;
+  updated_at: string;
 }
 
 interface GymClass {
@@ -16,9 +89,14 @@ interface GymClass {
   time: string;
   duration: string;
   instructor: string;
+  instructor_id?: number | null;
+  room_id?: number | null;
+  class_type_id?: number | null;
   max_capacity: number;
+  concession_cost?: number; // Concessions one booking costs (defaults to 1)
+  drop_in_price?: number | null; // Pay-per-class price (null = concessions only)
   description: string;
-  category: 'morning' | 'afternoon';
+  category: TimeOfDay; // Derived from time
   days: string[];
   status: 'published' | 'draft' | 'scheduled';
   publish_date?: string; // When the class becomes available for booking
@@ -33,11 +111,127 @@ interface Booking {
   user_id: number;
   class_id: number;
   booking_date: string;
-  status: 'confirmed' | 'cancelled' | 'completed' | 'late-cancelled';
+  status: 'confirmed' | 'cancelled' | 'completed' | 'late-cancelled' | 'no-show';
   used_concession: boolean;
+  concessions_charged?: number; // Concessions deducted for this booking (0 for drop-ins)
   booking_time: string;
   cancellation_time?: string;
   is_late_cancellation: boolean;
+  attendance_marked_at?: string | null;
+  attendance_marked_by?: number | null;
+  no_show_penalty?: number;
+  standing_booking_id?: number | null;
+  membership_id?: number | null; // Membership that covered the booking instead of concessions
+  charged_user_id?: number | null; // Household payer whose balance the booking is charged to (null = the member's own)
+}
+
+// Teaching staff; user_id is the login used for the instructor portal, if any
+interface Instructor {
+  id: number;
+  user_id: number | null;
+  name: string;
+  email: string | null;
+  bio: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+// An admin-managed kind of class (Yoga, HIIT...) shown with a colour and icon
+interface ClassType {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+  is_active: boolean;
+  created_at: string;
+}
+
+// A gym site; classes run in its rooms
+interface GymLocation {
+  id: number;
+  name: string;
+  address: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface Room {
+  id: number;
+  location_id: number;
+  name: string;
+  capacity: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+// A member's "book every week" subscription to a class
+interface StandingBooking {
+  id: number;
+  user_id: number;
+  class_id: number;
+  status: 'active' | 'cancelled';
+  start_date: string;
+  last_run_at?: string | null;
+  cancelled_at?: string | null;
+  created_at: string;
+}
+
+type StandingBookingSkipReason = 'class_full' | 'credit_limit' | 'class_cancelled' | 'class_unavailable';
+
+interface StandingBookingSkip {
+  standing_booking_id: number;
+  skip_date: string;
+  reason: StandingBookingSkipReason;
+}
+
+interface WaitlistEntry {
+  id: number;
+  user_id: number;
+  class_id: number;
+  booking_date: string;
+  status: 'waiting' | 'promoted' | 'cancelled';
+  booking_id?: number;
+  promoted_at?: string;
+  acknowledged_at?: string;
+  created_at: string;
+}
+
+// Per-date override of a class's weekly pattern
+interface ClassOccurrenceOverride {
+  id: number;
+  class_id: number;
+  occurrence_date: string;
+  is_cancelled: boolean;
+  cancellation_reason?: string | null;
+  time?: string | null;
+  instructor?: string | null;
+  max_capacity?: number | null;
+  substitute_instructor_id?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// An instructor covering one date of a class; removed ones are kept for payroll history
+interface ClassSubstitution {
+  id: number;
+  class_id: number;
+  occurrence_date: string;
+  original_instructor_id: number | null;
+  substitute_instructor_id: number;
+  reason: string | null;
+  status: 'active' | 'removed';
+  created_by: number | null;
+  removed_at?: string | null;
+  created_at: string;
+}
+
+// A booked member's notice about a substitute, shown until they dismiss it
+interface SubstitutionNotice {
+  id: number;
+  substitution_id: number;
+  user_id: number;
+  acknowledged_at?: string | null;
+  created_at: string;
 }
 
 interface PaymentDetails {
@@ -48,18 +242,133 @@ interface PaymentDetails {
   sort_code: string;
   reference_instructions: string;
   additional_info: string;
+  business_name?: string; // Printed on receipts
+  business_address?: string;
+  gst_number?: string;
   created_at: string;
   updated_at: string;
 }
 
+// A pack of concessions members can buy, priced by the gym
+interface ConcessionPackage {
+  id: number;
+  name: string;
+  concessions: number;
+  price: number;
+  validity_months?: number | null; // How long the concessions last once bought (null never expires)
+  is_active: boolean; // Retired packages can no longer be bought
+  created_at: string;
+}
+
+// Unlimited, a number of classes a week, or off-peak classes only
+interface MembershipPlan {
+  id: number;
+  name: string;
+  plan_type: MembershipPlanType;
+  classes_per_week: number | null; // Only set for weekly plans
+  monthly_price: number;
+  is_active: boolean; // Retired plans can't be given to members but existing memberships carry on
+  created_at: string;
+}
+
+// A member's plan between two dates; bookings it covers cost no concessions
+interface Membership {
+  id: number;
+  user_id: number;
+  plan_id: number;
+  start_date: string;
+  end_date: string | null; // Last day of the membership (null rolls on until it is ended)
+  created_by: number | null;
+  created_at: string;
+}
+
+// Dates a membership is frozen; the frozen days are added to a fixed end date
+interface MembershipPause {
+  id: number;
+  membership_id: number;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  created_by: number | null;
+  created_at: string;
+}
+
+// A payer whose concession balance is shared with the household's dependants
+interface Household {
+  id: number;
+  name: string;
+  payer_id: number;
+  created_by: number | null;
+  created_at: string;
+}
+
+// A dependant, who books against the household payer's balance (a member is in one household)
+interface HouseholdMember {
+  household_id: number;
+  user_id: number;
+  added_by: number | null;
+  created_at: string;
+}
+
+type VoucherType = 'concessions' | 'percent_off';
+
+// A promo code or gift voucher: free concessions when redeemed, or a percentage off a package when buying one
+interface Voucher {
+  id: number;
+  code: string; // Upper case
+  description: string | null;
+  voucher_type: VoucherType;
+  concessions: number | null;
+  validity_months: number | null; // How long free concessions last (null never expires)
+  percent_off: number | null;
+  package_id: number | null; // The only package a discount applies to (null any package)
+  max_uses: number | null; // Across all members (1 is single use, null unlimited)
+  expires_on: string | null;
+  new_members_only: boolean;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: string;
+}
+
+interface VoucherInput {
+  code: string;
+  description?: string | null;
+  voucher_type: VoucherType;
+  concessions?: number | null;
+  validity_months?: number | null;
+  percent_off?: number | null;
+  package_id?: number | null;
+  max_uses?: number | null;
+  expires_on?: string | null;
+  new_members_only?: boolean;
+  is_active?: boolean;
+}
+
+// One use of a voucher, recorded against the member who redeemed it
+interface VoucherRedemption {
+  id: number;
+  voucher_id: number;
+  user_id: number;
+  source: 'registration' | 'dashboard' | 'purchase';
+  concessions: number;
+  ledger_id: number | null;
+  payment_id: number | null; // The discounted purchase
+  discount_amount: number;
+  redeemed_at: string;
+}
+
 interface Payment {
   id: number;
   user_id: number;
   amount: number;
   concessions_purchased: number;
+  payment_type?: 'concessions' | 'drop_in';
+  booking_id?: number | null; // Drop-in payments are linked to their booking
+  package_id?: number | null; // The package a concession purchase is for
+  validity_months?: number | null; // The package's validity when it was bought
   payment_method: string;
   reference: string;
-  status: 'pending' | 'confirmed' | 'rejected';
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
   notes?: string;
   created_at: string;
   updated_at: string;
@@ -67,6 +376,111 @@ interface Payment {
   processed_at?: string;
 }
 
+// A numbered receipt for a confirmed payment; re-issuing supersedes it with a new number
+interface Invoice {
+  id: number;
+  invoice_number: string;
+  payment_id: number;
+  business: InvoiceBusiness; // As it was when issued
+  customer: { name: string; email: string };
+  lines: InvoiceLine[];
+  total: number;
+  gst_amount: number;
+  replaces_invoice_id: number | null;
+  superseded_at: string | null;
+  issued_by: number | null;
+  issued_at: string;
+}
+
+interface BankStatementImport {
+  id: number;
+  file_name: string | null;
+  bank_format: string;
+  column_mapping: BankStatementMapping;
+  transaction_count: number;
+  duplicate_count: number;
+  matched_count: number;
+  review_count: number;
+  imported_by: number;
+  created_at: string;
+}
+
+// A deposit from an imported statement; the fingerprint stops a re-import recording it twice
+interface BankTransaction {
+  id: number;
+  import_id: number;
+  fingerprint: string;
+  transaction_date: string;
+  amount: number;
+  payer: string;
+  reference: string;
+  status: 'matched' | 'review' | 'unmatched' | 'ignored';
+  payment_id: number | null; // The payment it paid for, or the suggested one while in review
+  match_reason: string | null;
+  reviewed_by?: number | null;
+  reviewed_at?: string | null;
+  created_at: string;
+}
+
+interface BookingPolicy {
+  booking_window_days: number;
+  cancellation_deadline_hours: number;
+  credit_limit: number;
+  no_show_penalty: number;
+}
+
+// Per-class overrides: null inherits the gym-wide value
+interface ClassPolicyOverride {
+  class_id: number;
+  booking_window_days: number | null;
+  cancellation_deadline_hours: number | null;
+  credit_limit: number | null;
+  no_show_penalty: number | null;
+  updated_at: string;
+}
+
+interface MockPolicies {
+  defaults: BookingPolicy;
+  classOverrides: ClassPolicyOverride[];
+}
+
+type ConcessionLedgerReason = 'opening_balance' | 'booking' | 'refund' | 'late_cancel_penalty' | 'no_show_penalty' | 'purchase' | 'admin_adjustment' | 'expiry' | 'voucher';
+
+// Append-only record of every change to a member's concessions
+interface ConcessionLedgerEntry {
+  id: number;
+  user_id: number;
+  change: number;
+  balance_after: number;
+  reason: ConcessionLedgerReason;
+  actor_id: number | null;
+  booking_id: number | null;
+  payment_id: number | null;
+  note: string | null;
+  created_at: string;
+}
+
+// A member's concessions are held in the packs they were credited in
+interface ConcessionPack {
+  id: number;
+  user_id: number;
+  payment_id: number | null;
+  name: string;
+  concessions: number;
+  remaining: number;
+  expires_on: string | null; // Last day the concessions can be used (null never expires)
+  expired_at: string | null;
+  created_at: string;
+}
+
+// Which packs each ledger entry took concessions from (or returned them to)
+interface ConcessionPackUsage {
+  id: number;
+  ledger_id: number;
+  pack_id: number;
+  change: number;
+}
+
 interface Note {
   id: number;
   user_id: number;
@@ -124,6 +538,8 @@ const initializeMockData = () => {
         duration: '60 minutes',
         instructor: 'Sarah Johnson',
         max_capacity: 20,
+        concession_cost: 1,
+        drop_in_price: 25,
         description: 'Start your day with energizing yoga flow',
         category: 'morning',
         days: ['Monday', 'Friday'],
@@ -140,8 +556,10 @@ const initializeMockData = () => {
         duration: '45 minutes',
         instructor: 'Mike Davis',
         max_capacity: 15,
+        concession_cost: 1,
+        drop_in_price: 25,
         description: 'Build strength with guided weight training',
-        category: 'afternoon',
+        category: 'evening',
         days: ['Monday', 'Wednesday', 'Friday'],
         status: 'published',
         publish_date: '2024-01-01',
@@ -156,8 +574,10 @@ const initializeMockData = () => {
         duration: '50 minutes',
         instructor: 'Emma Wilson',
         max_capacity: 12,
+        concession_cost: 2,
+        drop_in_price: 35,
         description: 'Advanced pilates for experienced practitioners',
-        category: 'afternoon',
+        category: 'evening',
         days: ['Tuesday', 'Thursday'],
         status: 'scheduled',
         publish_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 7 days from now
@@ -173,6 +593,10 @@ const initializeMockData = () => {
     safeSetItem('flexbook_mock_bookings', JSON.stringify([]));
   }
 
+  if (!safeGetItem('flexbook_mock_waitlist')) {
+    safeSetItem('flexbook_mock_waitlist', JSON.stringify([]));
+  }
+
   if (!safeGetItem('flexbook_mock_payment_details')) {
     const defaultPaymentDetails = {
       id: 1,
@@ -182,6 +606,9 @@ const initializeMockData = () => {
       sort_code: '',
       reference_instructions: 'Please use your full name and email address as the payment reference',
       additional_info: 'Payments are typically processed within 1-2 business days. Contact us if you have any questions.',
+      business_name: 'FlexGym Ltd',
+      business_address: '12 High Street\nWellington 6011',
+      gst_number: '123-456-789',
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     };
@@ -192,9 +619,229 @@ const initializeMockData = () => {
     safeSetItem('flexbook_mock_payments', JSON.stringify([]));
   }
 
+  if (!safeGetItem('flexbook_mock_invoices')) {
+    safeSetItem('flexbook_mock_invoices', JSON.stringify([]));
+  }
+
   if (!safeGetItem('flexbook_mock_notes')) {
     safeSetItem('flexbook_mock_notes', JSON.stringify([]));
   }
+
+  if (!safeGetItem('flexbook_mock_occurrences')) {
+    safeSetItem('flexbook_mock_occurrences', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_substitutions')) {
+    safeSetItem('flexbook_mock_substitutions', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_substitution_notices')) {
+    safeSetItem('flexbook_mock_substitution_notices', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_bank_imports')) {
+    safeSetItem('flexbook_mock_bank_imports', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_bank_transactions')) {
+    safeSetItem('flexbook_mock_bank_transactions', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_standing_bookings')) {
+    safeSetItem('flexbook_mock_standing_bookings', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_standing_skips')) {
+    safeSetItem('flexbook_mock_standing_skips', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_instructors')) {
+    // Add the demo instructor login, then create a profile for every instructor named on a class
+    const users: User[] = JSON.parse(safeGetItem('flexbook_mock_users') || '[]');
+    if (!users.some(u => u.email === 'instructor@gym.com')) {
+      users.push({
+        id: 3,
+        name: 'Sarah Johnson',
+        email: 'instructor@gym.com',
+        role: 'instructor',
+        concessions: 0,
+        join_date: '2024-01-10'
+      });
+      safeSetItem('flexbook_mock_users', JSON.stringify(users));
+    }
+
+    const classes: GymClass[] = JSON.parse(safeGetItem('flexbook_mock_classes') || '[]');
+    const instructors: Instructor[] = [];
+    classes.forEach(c => {
+      let instructor = instructors.find(i => i.name === c.instructor);
+      if (!instructor) {
+        instructor = {
+          id: instructors.length + 1,
+          user_id: c.instructor === 'Sarah Johnson' ? 3 : null,
+          name: c.instructor,
+          email: c.instructor === 'Sarah Johnson' ? 'instructor@gym.com' : null,
+          bio: null,
+          is_active: true,
+          created_at: new Date().toISOString()
+        };
+        instructors.push(instructor);
+      }
+      c.instructor_id = instructor.id;
+    });
+    safeSetItem('flexbook_mock_classes', JSON.stringify(classes));
+    safeSetItem('flexbook_mock_instructors', JSON.stringify(instructors));
+  }
+
+  if (!safeGetItem('flexbook_mock_locations')) {
+    const locations: GymLocation[] = [
+      { id: 1, name: 'FlexBook Central', address: '12 High Street, Wellington', is_active: true, created_at: new Date().toISOString() },
+      { id: 2, name: 'FlexBook North', address: '48 Johnsonville Road, Wellington', is_active: true, created_at: new Date().toISOString() }
+    ];
+    const rooms: Room[] = [
+      { id: 1, location_id: 1, name: 'Studio 1', capacity: 20, is_active: true, created_at: new Date().toISOString() },
+      { id: 2, location_id: 1, name: 'Studio 2', capacity: 15, is_active: true, created_at: new Date().toISOString() },
+      { id: 3, location_id: 2, name: 'Main Studio', capacity: 12, is_active: true, created_at: new Date().toISOString() }
+    ];
+    safeSetItem('flexbook_mock_locations', JSON.stringify(locations));
+    safeSetItem('flexbook_mock_rooms', JSON.stringify(rooms));
+
+    // Put the demo classes into rooms and make the main site the test member's home location
+    const classRooms: { [classId: number]: number } = { 1: 1, 2: 2, 3: 3 };
+    const classes: GymClass[] = JSON.parse(safeGetItem('flexbook_mock_classes') || '[]');
+    classes.forEach(c => { c.room_id = c.room_id ?? classRooms[c.id] ?? null; });
+    safeSetItem('flexbook_mock_classes', JSON.stringify(classes));
+
+    const users: User[] = JSON.parse(safeGetItem('flexbook_mock_users') || '[]');
+    users.forEach(u => { if (u.email === 'user@gym.com') u.home_location_id = 1; });
+    safeSetItem('flexbook_mock_users', JSON.stringify(users));
+  }
+
+  if (!safeGetItem('flexbook_mock_class_types')) {
+    const classTypes: ClassType[] = [
+      { id: 1, name: 'Yoga', color: '#16a34a', icon: 'flower-2', is_active: true, created_at: new Date().toISOString() },
+      { id: 2, name: 'Strength', color: '#2563eb', icon: 'dumbbell', is_active: true, created_at: new Date().toISOString() },
+      { id: 3, name: 'HIIT', color: '#dc2626', icon: 'flame', is_active: true, created_at: new Date().toISOString() },
+      { id: 4, name: 'Pilates', color: '#9333ea', icon: 'activity', is_active: true, created_at: new Date().toISOString() }
+    ];
+    safeSetItem('flexbook_mock_class_types', JSON.stringify(classTypes));
+
+    const classTypeIds: { [classId: number]: number } = { 1: 1, 2: 2, 3: 4 };
+    const classes: GymClass[] = JSON.parse(safeGetItem('flexbook_mock_classes') || '[]');
+    classes.forEach(c => { c.class_type_id = c.class_type_id ?? classTypeIds[c.id] ?? null; });
+    safeSetItem('flexbook_mock_classes', JSON.stringify(classes));
+  }
+
+  if (!safeGetItem('flexbook_mock_concession_packages')) {
+    const concessionPackages: ConcessionPackage[] = [
+      { id: 1, name: '5 Class Pack', concessions: 5, price: 40, validity_months: 2, is_active: true, created_at: new Date().toISOString() },
+      { id: 2, name: '10 Class Pack', concessions: 10, price: 70, validity_months: 3, is_active: true, created_at: new Date().toISOString() },
+      { id: 3, name: '20 Class Pack', concessions: 20, price: 120, validity_months: 6, is_active: true, created_at: new Date().toISOString() }
+    ];
+    safeSetItem('flexbook_mock_concession_packages', JSON.stringify(concessionPackages));
+  }
+
+  if (!safeGetItem('flexbook_mock_policies')) {
+    const defaultPolicies: MockPolicies = {
+      defaults: { booking_window_days: 14, cancellation_deadline_hours: 24, credit_limit: 5, no_show_penalty: 0 },
+      classOverrides: []
+    };
+    safeSetItem('flexbook_mock_policies', JSON.stringify(defaultPolicies));
+  }
+
+  if (!safeGetItem('flexbook_mock_ledger')) {
+    // Open the ledger with each existing member's current balance
+    const users: User[] = JSON.parse(safeGetItem('flexbook_mock_users') || '[]');
+    const openingEntries: ConcessionLedgerEntry[] = users.map((u, index) => ({
+      id: index + 1,
+      user_id: u.id,
+      change: u.concessions,
+      balance_after: u.concessions,
+      reason: 'opening_balance',
+      actor_id: null,
+      booking_id: null,
+      payment_id: null,
+      note: 'Opening balance',
+      created_at: new Date().toISOString()
+    }));
+    safeSetItem('flexbook_mock_ledger', JSON.stringify(openingEntries));
+  }
+
+  if (!safeGetItem('flexbook_mock_concession_packs')) {
+    // Hold existing balances in a pack that never expires
+    const users: User[] = JSON.parse(safeGetItem('flexbook_mock_users') || '[]');
+    const packs: ConcessionPack[] = users
+      .filter(u => u.concessions > 0)
+      .map((u, index) => ({
+        id: index + 1,
+        user_id: u.id,
+        payment_id: null,
+        name: 'Existing balance',
+        concessions: u.concessions,
+        remaining: u.concessions,
+        expires_on: null,
+        expired_at: null,
+        created_at: new Date().toISOString()
+      }));
+    safeSetItem('flexbook_mock_concession_packs', JSON.stringify(packs));
+    safeSetItem('flexbook_mock_concession_pack_usage', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_membership_plans')) {
+    const plans: MembershipPlan[] = [
+      { id: 1, name: 'Unlimited', plan_type: 'unlimited', classes_per_week: null, monthly_price: 159, is_active: true, created_at: new Date().toISOString() },
+      { id: 2, name: '3 Classes a Week', plan_type: 'weekly', classes_per_week: 3, monthly_price: 119, is_active: true, created_at: new Date().toISOString() },
+      { id: 3, name: 'Off-Peak', plan_type: 'off_peak', classes_per_week: null, monthly_price: 89, is_active: true, created_at: new Date().toISOString() }
+    ];
+    safeSetItem('flexbook_mock_membership_plans', JSON.stringify(plans));
+    safeSetItem('flexbook_mock_memberships', JSON.stringify([]));
+    safeSetItem('flexbook_mock_membership_pauses', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_households')) {
+    safeSetItem('flexbook_mock_households', JSON.stringify([]));
+    safeSetItem('flexbook_mock_household_members', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_vouchers')) {
+    const voucherDefaults = { validity_months: null, package_id: null, expires_on: null, is_active: true, created_by: null, created_at: new Date().toISOString() };
+    const vouchers: Voucher[] = [
+      { ...voucherDefaults, id: 1, code: 'FIRSTFREE', description: 'First class free', voucher_type: 'concessions', concessions: 1, percent_off: null, max_uses: null, new_members_only: true },
+      { ...voucherDefaults, id: 2, code: 'XMAS25', description: 'Christmas: 25% off any pack', voucher_type: 'percent_off', concessions: null, percent_off: 25, max_uses: 100, new_members_only: false }
+    ];
+    safeSetItem('flexbook_mock_vouchers', JSON.stringify(vouchers));
+    safeSetItem('flexbook_mock_voucher_redemptions', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_passwords')) {
+    const passwords: Record<string, string> = {
+      'admin@gym.com': 'admin123',
+      'user@gym.com': 'user123',
+      'instructor@gym.com': 'instructor123'
+    };
+    safeSetItem('flexbook_mock_passwords', JSON.stringify(passwords));
+    safeSetItem('flexbook_mock_auth_tokens', JSON.stringify([]));
+    safeSetItem('flexbook_mock_outbox', JSON.stringify([]));
+  }
+
+  if (!safeGetItem('flexbook_mock_sessions')) {
+    // The test member is also signed in on a phone, so there's another session to sign out
+    const sessions: MockSession[] = [{
+      id: 1,
+      user_id: 2,
+      user_agent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+      ip_address: '203.0.113.24',
+      created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+      last_used_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+      revoked_at: null
+    }];
+    safeSetItem('flexbook_mock_sessions', JSON.stringify(sessions));
+  }
+
+  if (!safeGetItem('flexbook_mock_notifications')) {
+    safeSetItem('flexbook_mock_notifications', JSON.stringify([]));
+    safeSetItem('flexbook_mock_notification_deliveries', JSON.stringify([]));
+    safeSetItem('flexbook_mock_notification_templates', JSON.stringify({}));
+  }
 };
 
 // Helper functions to get/set mock data
@@ -225,328 +872,5675 @@ const setMockBookings = (bookings: Booking[]) => {
   safeSetItem('flexbook_mock_bookings', JSON.stringify(bookings));
 };
 
-const getMockPaymentDetails = (): PaymentDetails => {
+const getMockWaitlist = (): WaitlistEntry[] => {
   initializeMockData();
-  return JSON.parse(safeGetItem('flexbook_mock_payment_details') || '{}');
+  return JSON.parse(safeGetItem('flexbook_mock_waitlist') || '[]');
 };
 
-const setMockPaymentDetails = (paymentDetails: PaymentDetails) => {
-  safeSetItem('flexbook_mock_payment_details', JSON.stringify(paymentDetails));
+const setMockWaitlist = (waitlist: WaitlistEntry[]) => {
+  safeSetItem('flexbook_mock_waitlist', JSON.stringify(waitlist));
 };
 
-const getMockPayments = (): Payment[] => {
+const getMockStandingBookings = (): StandingBooking[] => {
   initializeMockData();
-  return JSON.parse(safeGetItem('flexbook_mock_payments') || '[]');
+  return JSON.parse(safeGetItem('flexbook_mock_standing_bookings') || '[]');
 };
 
-const setMockPayments = (payments: Payment[]) => {
-  safeSetItem('flexbook_mock_payments', JSON.stringify(payments));
+const setMockStandingBookings = (standingBookings: StandingBooking[]) => {
+  safeSetItem('flexbook_mock_standing_bookings', JSON.stringify(standingBookings));
 };
 
-const getMockNotes = (): Note[] => {
+const getMockStandingSkips = (): StandingBookingSkip[] => {
   initializeMockData();
-  return JSON.parse(safeGetItem('flexbook_mock_notes') || '[]');
+  return JSON.parse(safeGetItem('flexbook_mock_standing_skips') || '[]');
 };
 
-const setMockNotes = (notes: Note[]) => {
-  safeSetItem('flexbook_mock_notes', JSON.stringify(notes));
+const setMockStandingSkips = (skips: StandingBookingSkip[]) => {
+  safeSetItem('flexbook_mock_standing_skips', JSON.stringify(skips));
 };
 
-const getUserByToken = (token: string): User | null => {
-  const users = getMockUsers();
-  if (token === 'mock-admin-token') {
-    return users.find(u => u.email === 'admin@gym.com') || null;
-  }
-  if (token === 'mock-user-token') {
-    return users.find(u => u.email === 'user@gym.com') || null;
-  }
-  return null;
+const getMockInstructors = (): Instructor[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_instructors') || '[]');
 };
 
-const updateUserConcessions = (userId: number, newConcessions: number) => {
-  const users = getMockUsers();
-  const userIndex = users.findIndex(u => u.id === userId);
-  if (userIndex !== -1) {
-    users[userIndex].concessions = newConcessions;
-    setMockUsers(users);
-    console.log(`✅ Updated user ${userId} concessions to ${newConcessions}`);
-  }
+const setMockInstructors = (instructors: Instructor[]) => {
+  safeSetItem('flexbook_mock_instructors', JSON.stringify(instructors));
 };
 
-// Helper function to check if a class is available for booking
-const isClassAvailableForBooking = (gymClass: GymClass): boolean => {
-  const now = new Date();
-  const today = now.toISOString().split('T')[0];
-  
-  // Draft classes are never available for booking
-  if (gymClass.status === 'draft') {
-    return false;
-  }
-  
-  // Published classes are immediately available
-  if (gymClass.status === 'published') {
-    return true;
+const getMockClassTypes = (): ClassType[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_class_types') || '[]');
+};
+
+const setMockClassTypes = (classTypes: ClassType[]) => {
+  safeSetItem('flexbook_mock_class_types', JSON.stringify(classTypes));
+};
+
+const getMockLocations = (): GymLocation[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_locations') || '[]');
+};
+
+const setMockLocations = (locations: GymLocation[]) => {
+  safeSetItem('flexbook_mock_locations', JSON.stringify(locations));
+};
+
+const getMockRooms = (): Room[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_rooms') || '[]');
+};
+
+const setMockRooms = (rooms: Room[]) => {
+  safeSetItem('flexbook_mock_rooms', JSON.stringify(rooms));
+};
+
+const getMockOccurrences = (): ClassOccurrenceOverride[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_occurrences') || '[]');
+};
+
+const setMockOccurrences = (occurrences: ClassOccurrenceOverride[]) => {
+  safeSetItem('flexbook_mock_occurrences', JSON.stringify(occurrences));
+};
+
+const getMockSubstitutions = (): ClassSubstitution[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_substitutions') || '[]');
+};
+
+const setMockSubstitutions = (substitutions: ClassSubstitution[]) => {
+  safeSetItem('flexbook_mock_substitutions', JSON.stringify(substitutions));
+};
+
+const getMockSubstitutionNotices = (): SubstitutionNotice[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_substitution_notices') || '[]');
+};
+
+const setMockSubstitutionNotices = (notices: SubstitutionNotice[]) => {
+  safeSetItem('flexbook_mock_substitution_notices', JSON.stringify(notices));
+};
+
+const getMockPaymentDetails = (): PaymentDetails => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_payment_details') || '{}');
+};
+
+const setMockPaymentDetails = (paymentDetails: PaymentDetails) => {
+  safeSetItem('flexbook_mock_payment_details', JSON.stringify(paymentDetails));
+};
+
+const getMockConcessionPackages = (): ConcessionPackage[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_concession_packages') || '[]');
+};
+
+const setMockConcessionPackages = (concessionPackages: ConcessionPackage[]) => {
+  safeSetItem('flexbook_mock_concession_packages', JSON.stringify(concessionPackages));
+};
+
+const getMockMembershipPlans = (): MembershipPlan[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_membership_plans') || '[]');
+};
+
+const setMockMembershipPlans = (plans: MembershipPlan[]) => {
+  safeSetItem('flexbook_mock_membership_plans', JSON.stringify(plans));
+};
+
+const getMockMemberships = (): Membership[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_memberships') || '[]');
+};
+
+const setMockMemberships = (memberships: Membership[]) => {
+  safeSetItem('flexbook_mock_memberships', JSON.stringify(memberships));
+};
+
+const getMockMembershipPauses = (): MembershipPause[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_membership_pauses') || '[]');
+};
+
+const setMockMembershipPauses = (pauses: MembershipPause[]) => {
+  safeSetItem('flexbook_mock_membership_pauses', JSON.stringify(pauses));
+};
+
+const getMockHouseholds = (): Household[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_households') || '[]');
+};
+
+const setMockHouseholds = (households: Household[]) => {
+  safeSetItem('flexbook_mock_households', JSON.stringify(households));
+};
+
+const getMockHouseholdMembers = (): HouseholdMember[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_household_members') || '[]');
+};
+
+const setMockHouseholdMembers = (members: HouseholdMember[]) => {
+  safeSetItem('flexbook_mock_household_members', JSON.stringify(members));
+};
+
+const getMockVouchers = (): Voucher[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_vouchers') || '[]');
+};
+
+const setMockVouchers = (vouchers: Voucher[]) => {
+  safeSetItem('flexbook_mock_vouchers', JSON.stringify(vouchers));
+};
+
+// Passwords by email (the mock keeps them in plain text; it only ever runs in a developer's browser)
+const getMockPasswords = (): Record<string, string> => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_passwords') || '{}');
+};
+
+const setMockPasswords = (passwords: Record<string, string>) => {
+  safeSetItem('flexbook_mock_passwords', JSON.stringify(passwords));
+};
+
+const getMockAuthTokens = (): MockAuthToken[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_auth_tokens') || '[]');
+};
+
+const setMockAuthTokens = (tokens: MockAuthToken[]) => {
+  safeSetItem('flexbook_mock_auth_tokens', JSON.stringify(tokens));
+};
+
+const getMockSessions = (): MockSession[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_sessions') || '[]');
+};
+
+const setMockSessions = (sessions: MockSession[]) => {
+  safeSetItem('flexbook_mock_sessions', JSON.stringify(sessions));
+};
+
+const getMockOutbox = (): MockEmail[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_outbox') || '[]');
+};
+
+const setMockOutbox = (emails: MockEmail[]) => {
+  safeSetItem('flexbook_mock_outbox', JSON.stringify(emails));
+};
+
+const getMockNotifications = (): MockNotification[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_notifications') || '[]');
+};
+
+const setMockNotifications = (notifications: MockNotification[]) => {
+  safeSetItem('flexbook_mock_notifications', JSON.stringify(notifications));
+};
+
+const getMockNotificationDeliveries = (): MockNotificationDelivery[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_notification_deliveries') || '[]');
+};
+
+const setMockNotificationDeliveries = (deliveries: MockNotificationDelivery[]) => {
+  safeSetItem('flexbook_mock_notification_deliveries', JSON.stringify(deliveries));
+};
+
+const getMockNotificationTemplateEdits = (): Record<string, MockNotificationTemplateEdit> => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_notification_templates') || '{}');
+};
+
+const setMockNotificationTemplateEdits = (edits: Record<string, MockNotificationTemplateEdit>) => {
+  safeSetItem('flexbook_mock_notification_templates', JSON.stringify(edits));
+};
+
+const getMockVoucherRedemptions = (): VoucherRedemption[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_voucher_redemptions') || '[]');
+};
+
+const setMockVoucherRedemptions = (redemptions: VoucherRedemption[]) => {
+  safeSetItem('flexbook_mock_voucher_redemptions', JSON.stringify(redemptions));
+};
+
+const getMockPayments = (): Payment[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_payments') || '[]');
+};
+
+const setMockPayments = (payments: Payment[]) => {
+  safeSetItem('flexbook_mock_payments', JSON.stringify(payments));
+};
+
+const getMockInvoices = (): Invoice[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_invoices') || '[]');
+};
+
+const setMockInvoices = (invoices: Invoice[]) => {
+  safeSetItem('flexbook_mock_invoices', JSON.stringify(invoices));
+};
+
+const getMockBankImports = (): BankStatementImport[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_bank_imports') || '[]');
+};
+
+const setMockBankImports = (imports: BankStatementImport[]) => {
+  safeSetItem('flexbook_mock_bank_imports', JSON.stringify(imports));
+};
+
+const getMockBankTransactions = (): BankTransaction[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_bank_transactions') || '[]');
+};
+
+const setMockBankTransactions = (transactions: BankTransaction[]) => {
+  safeSetItem('flexbook_mock_bank_transactions', JSON.stringify(transactions));
+};
+
+const getMockPolicies = (): MockPolicies => {
+  initializeMockData();
+  const policies: MockPolicies = JSON.parse(safeGetItem('flexbook_mock_policies') || '{}');
+  // Policies saved before no-show penalties existed
+  policies.defaults.no_show_penalty = policies.defaults.no_show_penalty ?? 0;
+  policies.classOverrides = policies.classOverrides.map(o => ({ ...o, no_show_penalty: o.no_show_penalty ?? null }));
+  return policies;
+};
+
+const setMockPolicies = (policies: MockPolicies) => {
+  safeSetItem('flexbook_mock_policies', JSON.stringify(policies));
+};
+
+// Policy a class runs under: its overrides on top of the gym-wide default
+const getClassPolicy = (classId: number): BookingPolicy => {
+  const { defaults, classOverrides } = getMockPolicies();
+  const override = classOverrides.find(o => o.class_id === classId);
+  if (!override) return defaults;
+  return {
+    booking_window_days: override.booking_window_days ?? defaults.booking_window_days,
+    cancellation_deadline_hours: override.cancellation_deadline_hours ?? defaults.cancellation_deadline_hours,
+    credit_limit: override.credit_limit ?? defaults.credit_limit,
+    no_show_penalty: override.no_show_penalty ?? defaults.no_show_penalty
+  };
+};
+
+// Class overrides joined with the class name, as returned by the settings endpoint
+const listClassPolicyOverrides = () => {
+  const classes = getMockClasses();
+  return getMockPolicies().classOverrides
+    .map(o => ({ ...o, class_name: classes.find(c => c.id === o.class_id)?.name || `Class #${o.class_id}` }))
+    .sort((a, b) => a.class_name.localeCompare(b.class_name));
+};
+
+const getMockLedger = (): ConcessionLedgerEntry[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_ledger') || '[]');
+};
+
+const setMockLedger = (ledger: ConcessionLedgerEntry[]) => {
+  safeSetItem('flexbook_mock_ledger', JSON.stringify(ledger));
+};
+
+const getMockConcessionPacks = (): ConcessionPack[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_concession_packs') || '[]');
+};
+
+const setMockConcessionPacks = (packs: ConcessionPack[]) => {
+  safeSetItem('flexbook_mock_concession_packs', JSON.stringify(packs));
+};
+
+const getMockPackUsage = (): ConcessionPackUsage[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_concession_pack_usage') || '[]');
+};
+
+const setMockPackUsage = (usage: ConcessionPackUsage[]) => {
+  safeSetItem('flexbook_mock_concession_pack_usage', JSON.stringify(usage));
+};
+
+const getMockNotes = (): Note[] => {
+  initializeMockData();
+  return JSON.parse(safeGetItem('flexbook_mock_notes') || '[]');
+};
+
+const setMockNotes = (notes: Note[]) => {
+  safeSetItem('flexbook_mock_notes', JSON.stringify(notes));
+};
+
+const getUserByToken = (token: string): User | null => {
+  const users = getMockUsers();
+  if (token === 'mock-admin-token') {
+    return users.find(u => u.email === 'admin@gym.com') || null;
   }
-  
-  // Scheduled classes are available only after their publish date
-  if (gymClass.status === 'scheduled' && gymClass.publish_date) {
-    return gymClass.publish_date <= today;
+  if (token === 'mock-user-token') {
+    return users.find(u => u.email === 'user@gym.com') || null;
   }
-  
-  return false;
+  if (token === 'mock-instructor-token') {
+    return users.find(u => u.email === 'instructor@gym.com') || null;
+  }
+  // Members who signed up in the mock
+  const match = token.match(/^mock-user-token-(\d+)$/);
+  if (match) {
+    return users.find(u => u.id === parseInt(match[1])) || null;
+  }
+  return null;
 };
 
-export const mockApi = {
-  auth: {
-    login: async (email: string, password: string) => {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
+// The access token the mock hands out for a user
+const getMockTokenForUser = (user: User) => {
+  if (user.email === 'admin@gym.com') return 'mock-admin-token';
+  if (user.email === 'user@gym.com') return 'mock-user-token';
+  if (user.email === 'instructor@gym.com') return 'mock-instructor-token';
+  return `mock-user-token-${user.id}`;
+};
+
+const getCurrentMockSessionId = () => parseInt(safeGetItem('flexbook_mock_session_id') || '') || null;
+
+// Start a session for this browser when someone signs in
+const startMockSession = (userId: number) => {
+  const sessions = getMockSessions();
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id: Math.max(0, ...sessions.map(s => s.id)) + 1,
+    user_id: userId,
+    user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+    ip_address: '127.0.0.1',
+    created_at: now,
+    last_used_at: now,
+    revoked_at: null
+  };
+  sessions.push(session);
+  setMockSessions(sessions);
+  safeSetItem('flexbook_mock_session_id', String(session.id));
+};
+
+// Sign out a user's sessions, apart from keepSessionId when given. Returns how many were signed out.
+const endMockSessions = (userId: number, keepSessionId: number | null) => {
+  const sessions = getMockSessions();
+  const ending = sessions.filter(s => s.user_id === userId && !s.revoked_at && s.id !== keepSessionId);
+  ending.forEach(s => { s.revoked_at = new Date().toISOString(); });
+  setMockSessions(sessions);
+  return ending.length;
+};
+
+// How long the link in each kind of email works for (same as the backend)
+const MOCK_AUTH_TOKEN_TTL_MINUTES = {
+  password_reset: 60,
+  email_verification: 48 * 60
+};
+
+// "Send" an email: it's kept in the mock outbox and logged so the link can be followed from the console
+const sendMockMail = (to: string, subject: string, text: string) => {
+  const outbox = getMockOutbox();
+  outbox.push({ to, subject, text, sent_at: new Date().toISOString() });
+  setMockOutbox(outbox);
+  console.log(`📬 Email to ${to}: ${subject}\n${text}`);
+};
+
+// Members are told their balance is running low when a debit takes it to this many concessions or fewer
+const MOCK_LOW_BALANCE_THRESHOLD = 2;
+
+// A notification is tried this many times before it's marked failed (same as the backend)
+const MOCK_MAX_DELIVERY_ATTEMPTS = 5;
+
+// The built-in notification templates (same wording as the backend). {{variable}} is replaced when the
+// notification is queued; every template also gets {{name}} and {{dashboard_link}}.
+const MOCK_NOTIFICATION_TEMPLATES: Record<MockNotificationEvent, {
+  label: string;
+  description: string;
+  variables: string[];
+  sample: Record<string, string>;
+  subject: string;
+  body: string;
+}> = {
+  booking_confirmed: {
+    label: 'Booking confirmed',
+    description: 'Sent when a member books a class, including standing bookings and spots from the waitlist',
+    variables: ['class_name', 'class_date', 'class_time', 'instructor', 'booking_note'],
+    sample: { class_name: 'Morning Yoga', class_date: 'Mon 19 Oct 2026', class_time: '07:00', instructor: 'Sarah Johnson', booking_note: '1 concession was used. Your balance is now 4.' },
+    subject: 'Booked: {{class_name}} on {{class_date}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'You\'re booked into {{class_name}} with {{instructor}} on {{class_date}} at {{class_time}}.',
+      '{{booking_note}}',
+      '',
+      'If you can\'t make it, please cancel from your dashboard so someone else can take your spot:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  booking_cancelled: {
+    label: 'Booking cancelled',
+    description: 'Sent when a booking is cancelled, saying whether a late-cancellation penalty applied',
+    variables: ['class_name', 'class_date', 'class_time', 'cancellation_note'],
+    sample: { class_name: 'Morning Yoga', class_date: 'Mon 19 Oct 2026', class_time: '07:00', cancellation_note: 'Your concession has been refunded.' },
+    subject: 'Cancelled: {{class_name}} on {{class_date}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Your booking for {{class_name}} on {{class_date}} at {{class_time}} has been cancelled.',
+      '{{cancellation_note}}',
+      '',
+      'Book another class from your dashboard:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  class_cancelled: {
+    label: 'Class cancelled by the gym',
+    description: 'Sent to everyone booked into a class session the gym cancels',
+    variables: ['class_name', 'class_date', 'class_time', 'reason_note', 'refund_note'],
+    sample: { class_name: 'Morning Yoga', class_date: 'Mon 19 Oct 2026', class_time: '07:00', reason_note: 'Reason: instructor unwell.', refund_note: 'Your concession has been refunded.' },
+    subject: '{{class_name}} on {{class_date}} has been cancelled',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Sorry, we\'ve had to cancel {{class_name}} on {{class_date}} at {{class_time}}. {{reason_note}}',
+      '{{refund_note}}',
+      '',
+      'Book another class from your dashboard:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  payment_confirmed: {
+    label: 'Payment confirmed',
+    description: 'Sent when a payment is confirmed, by an admin or from a bank statement',
+    variables: ['description', 'amount', 'reference', 'payment_note'],
+    sample: { description: '10 Class Pack', amount: '$150.00', reference: 'FB-7KQ2XM', payment_note: '10 concessions have been added. Your balance is now 12.' },
+    subject: 'Payment received: {{description}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Thanks, we\'ve received your payment of {{amount}} for {{description}} (reference {{reference}}).',
+      '{{payment_note}}',
+      '',
+      'Your receipt is available from your dashboard:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  },
+  payment_rejected: {
+    label: 'Payment rejected',
+    description: 'Sent when an admin rejects a payment',
+    variables: ['description', 'amount', 'reference', 'notes_note'],
+    sample: { description: '10 Class Pack', amount: '$150.00', reference: 'FB-7KQ2XM', notes_note: 'Note from the gym: no transfer with this reference has arrived.' },
+    subject: 'Payment not confirmed: {{description}}',
+    body: [
+      'Hi {{name}},',
+      '',
+      'We couldn\'t confirm your payment of {{amount}} for {{description}} (reference {{reference}}).',
+      '{{notes_note}}',
+      '',
+      'If you think this is a mistake, please get in touch with the front desk.'
+    ].join('\n')
+  },
+  low_balance: {
+    label: 'Low concession balance',
+    description: `Sent when a booking or penalty takes a member's balance to ${MOCK_LOW_BALANCE_THRESHOLD} concessions or fewer`,
+    variables: ['concessions'],
+    sample: { concessions: '2' },
+    subject: 'You have {{concessions}} concessions left',
+    body: [
+      'Hi {{name}},',
+      '',
+      'Your FlexBook balance is down to {{concessions}} concessions.',
+      'Top up from your dashboard so you can keep booking classes:',
+      '{{dashboard_link}}'
+    ].join('\n')
+  }
+};
+
+// Fill in a template's {{variables}} (any without a value are left blank)
+const renderMockTemplate = (template: string, variables: Record<string, string>) =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (_match, key: string) => variables[key] ?? '');
+
+// Every template with the gym's edits applied, for the template editor
+const listMockNotificationTemplates = () => {
+  const edits = getMockNotificationTemplateEdits();
+  const dashboardLink = `${window.location.origin}/dashboard`;
+
+  return (Object.keys(MOCK_NOTIFICATION_TEMPLATES) as MockNotificationEvent[]).map(eventKey => {
+    const template = MOCK_NOTIFICATION_TEMPLATES[eventKey];
+    const edit = edits[eventKey];
+    return {
+      event_key: eventKey,
+      label: template.label,
+      description: template.description,
+      variables: ['name', ...template.variables, 'dashboard_link'],
+      sample: { name: 'Alex', ...template.sample, dashboard_link: dashboardLink },
+      subject: edit?.subject ?? template.subject,
+      body: edit?.body ?? template.body,
+      is_enabled: edit ? edit.is_enabled : true,
+      is_customised: !!edit,
+      default_subject: template.subject,
+      default_body: template.body,
+      updated_at: edit?.updated_at ?? null
+    };
+  });
+};
+
+// "Deliver" a notification through the mock outbox and log the attempt
+const deliverMockNotification = (notification: MockNotification) => {
+  sendMockMail(notification.recipient, notification.subject, notification.body);
+
+  const now = new Date().toISOString();
+  notification.attempts += 1;
+  notification.status = 'sent';
+  notification.sent_at = now;
+  notification.last_error = null;
+
+  const deliveries = getMockNotificationDeliveries();
+  deliveries.push({
+    id: Math.max(0, ...deliveries.map(d => d.id)) + 1,
+    notification_id: notification.id,
+    attempt: notification.attempts,
+    transport: 'mock',
+    status: 'sent',
+    error: null,
+    created_at: now
+  });
+  setMockNotificationDeliveries(deliveries);
+};
+
+// Queue an email to a member (delivered straight away in the mock). Returns null when the template is turned
+// off or the member can't be emailed.
+const queueMockNotification = (eventKey: MockNotificationEvent, userId: number, variables: Record<string, string>) => {
+  const user = getMockUsers().find(u => u.id === userId);
+  if (!user || !user.email) return null;
+
+  const edit = getMockNotificationTemplateEdits()[eventKey];
+  if (edit && !edit.is_enabled) return null;
+
+  const template = MOCK_NOTIFICATION_TEMPLATES[eventKey];
+  const values = { name: user.name, dashboard_link: `${window.location.origin}/dashboard`, ...variables };
+
+  const notifications = getMockNotifications();
+  const notification: MockNotification = {
+    id: Math.max(0, ...notifications.map(n => n.id)) + 1,
+    user_id: userId,
+    event_key: eventKey,
+    recipient: user.email,
+    subject: renderMockTemplate(edit?.subject ?? template.subject, values).slice(0, 255),
+    body: renderMockTemplate(edit?.body ?? template.body, values),
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    last_error: null,
+    sent_at: null,
+    created_at: new Date().toISOString()
+  };
+
+  deliverMockNotification(notification);
+  notifications.push(notification);
+  setMockNotifications(notifications);
+  return notification;
+};
+
+// Helper function to describe a class date, e.g. "Mon 19 Oct 2026"
+const formatMockClassDate = (date: string) => {
+  const value = new Date(`${date}T00:00:00`);
+  return `${value.toLocaleDateString('en-GB', { weekday: 'short' })} ${value.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+};
+
+const mockPlural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Helper function to get the template variables describing a booking's class session
+const describeMockSession = (booking: Booking) => {
+  const gymClass = getMockClasses().find(c => c.id === booking.class_id);
+  return {
+    class_name: gymClass?.name ?? 'Class',
+    class_date: formatMockClassDate(booking.booking_date),
+    class_time: gymClass ? getOccurrence(gymClass, booking.booking_date).time : '',
+    instructor: gymClass?.instructor ?? ''
+  };
+};
+
+// Tell a member their booking is confirmed, with how it was paid for
+const notifyMockBookingConfirmed = (booking: Booking, fromWaitlist = false) => {
+  const notes: string[] = [];
+  if (fromWaitlist) {
+    notes.push('Good news: a spot opened up, so you\'ve been moved off the waitlist.');
+  }
+
+  const charged = booking.concessions_charged ?? 1;
+  if (booking.membership_id) {
+    notes.push('It\'s covered by your membership.');
+  } else if (booking.used_concession) {
+    const holder = getMockUsers().find(u => u.id === getChargedUserId(booking));
+    const owner = booking.charged_user_id ? 'Your household balance' : 'Your balance';
+    notes.push(`${mockPlural(charged, 'concession')} ${charged === 1 ? 'was' : 'were'} used. ${owner} is now ${holder?.concessions ?? 0}.`);
+  } else {
+    const payment = getMockPayments().find(p => p.booking_id === booking.id && p.payment_type === 'drop_in' && p.status === 'pending');
+    if (payment) {
+      notes.push(`This is a drop-in: please pay $${payment.amount.toFixed(2)} using reference ${payment.reference}.`);
+    }
+  }
+
+  return queueMockNotification('booking_confirmed', booking.user_id, {
+    ...describeMockSession(booking),
+    booking_note: notes.join(' ')
+  });
+};
+
+// Tell a member their booking was cancelled, and whether it was late enough to be charged for
+const notifyMockBookingCancelled = (booking: Booking, isLate: boolean, concessionRefunded: boolean, cancellationHours: number) => {
+  const charged = booking.concessions_charged ?? 1;
+  let note;
+  if (booking.membership_id) {
+    note = isLate ? `As it was cancelled within ${cancellationHours} hours of the class, it still counts as used on your membership.` : '';
+  } else if (booking.used_concession) {
+    note = isLate
+      ? `As it was cancelled within ${cancellationHours} hours of the class, the ${mockPlural(charged, 'concession')} it cost ${charged === 1 ? 'has' : 'have'} not been refunded.`
+      : concessionRefunded ? `${charged === 1 ? 'The concession has' : `${charged} concessions have`} been refunded.` : '';
+  } else {
+    note = isLate
+      ? `As it was cancelled within ${cancellationHours} hours of the class, the drop-in fee is still payable.`
+      : 'You no longer need to pay for this drop-in.';
+  }
+
+  return queueMockNotification('booking_cancelled', booking.user_id, {
+    ...describeMockSession(booking),
+    cancellation_note: note
+  });
+};
+
+// Tell a member the gym has cancelled a session they were booked into
+const notifyMockClassCancelled = (booking: Booking, reason: string | null) => {
+  const charged = booking.concessions_charged ?? 1;
+  let refundNote = '';
+  if (booking.used_concession) {
+    refundNote = `${charged === 1 ? 'The concession' : `The ${charged} concessions`} it cost ${charged === 1 ? 'has' : 'have'} been refunded.`;
+  } else if (!booking.membership_id) {
+    refundNote = 'You don\'t need to pay for this drop-in.';
+  }
+
+  return queueMockNotification('class_cancelled', booking.user_id, {
+    ...describeMockSession(booking),
+    reason_note: reason ? `Reason: ${reason}.` : '',
+    refund_note: refundNote
+  });
+};
+
+// Tell a member their payment was confirmed or rejected
+const notifyMockPaymentSettled = (payment: Payment, newBalance: number | null, isHouseholdBalance = false) => {
+  let description;
+  if (payment.payment_type === 'drop_in') {
+    const booking = getMockBookings().find(b => b.id === payment.booking_id);
+    const gymClass = booking ? getMockClasses().find(c => c.id === booking.class_id) : null;
+    description = `Drop-in class${gymClass ? `: ${gymClass.name}` : ''}${booking ? ` on ${formatMockClassDate(booking.booking_date)}` : ''}`;
+  } else {
+    description = getMockConcessionPackages().find(cp => cp.id === payment.package_id)?.name ?? mockPlural(payment.concessions_purchased, 'concession');
+  }
+
+  const common = { description, amount: `$${payment.amount.toFixed(2)}`, reference: payment.reference };
+
+  if (payment.status === 'rejected') {
+    return queueMockNotification('payment_rejected', payment.user_id, {
+      ...common,
+      notes_note: payment.notes ? `Note from the gym: ${payment.notes}` : ''
+    });
+  }
+
+  let paymentNote = 'Your drop-in is now paid for.';
+  if (payment.payment_type !== 'drop_in') {
+    paymentNote = `${mockPlural(payment.concessions_purchased, 'concession')} ${payment.concessions_purchased === 1 ? 'has' : 'have'} been added.` +
+      (newBalance !== null ? ` Your ${isHouseholdBalance ? 'household ' : ''}balance is now ${newBalance}.` : '');
+  }
+
+  return queueMockNotification('payment_confirmed', payment.user_id, { ...common, payment_note: paymentNote });
+};
+
+// Email a single-use link (replacing any unused one for the same purpose)
+const sendMockAuthLink = (user: User, purpose: MockAuthToken['purpose']) => {
+  const token = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+  const tokens = getMockAuthTokens().filter(t => !(t.user_id === user.id && t.purpose === purpose && !t.used_at));
+  tokens.push({
+    token,
+    user_id: user.id,
+    purpose,
+    expires_at: new Date(Date.now() + MOCK_AUTH_TOKEN_TTL_MINUTES[purpose] * 60 * 1000).toISOString(),
+    used_at: null
+  });
+  setMockAuthTokens(tokens);
+
+  if (purpose === 'password_reset') {
+    sendMockMail(user.email, 'Reset your FlexBook password', [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your FlexBook password. Choose a new one here:',
+      `${window.location.origin}/reset-password?token=${token}`,
+      '',
+      `The link works once and expires in ${MOCK_AUTH_TOKEN_TTL_MINUTES.password_reset} minutes. If you didn't ask to reset your password you can ignore this email.`
+    ].join('\n'));
+  } else {
+    sendMockMail(user.email, 'Confirm your email for FlexBook', [
+      `Hi ${user.name},`,
+      '',
+      'Welcome to FlexBook! Please confirm this is your email address:',
+      `${window.location.origin}/verify-email?token=${token}`,
+      '',
+      `The link expires in ${MOCK_AUTH_TOKEN_TTL_MINUTES.email_verification / 60} hours.`
+    ].join('\n'));
+  }
+};
+
+// Use up a token from a link, returning the member it's for; throws when it can't be used
+const consumeMockAuthToken = (token: string, purpose: MockAuthToken['purpose']) => {
+  const tokens = getMockAuthTokens();
+  const authToken = tokens.find(t => t.token === token && t.purpose === purpose);
+  if (!authToken) {
+    throw new Error('This link is not valid. Please request a new one.');
+  }
+  if (authToken.used_at) {
+    throw new Error('This link has already been used. Please request a new one if you need to.');
+  }
+  if (authToken.expires_at < new Date().toISOString()) {
+    throw new Error('This link has expired. Please request a new one.');
+  }
+
+  authToken.used_at = new Date().toISOString();
+  setMockAuthTokens(tokens);
+  return authToken.user_id;
+};
+
+// Admins can run any class; instructors only the classes assigned to them.
+// With a date, a substitute covering that date takes the session over from the regular instructor.
+const canTeachClass = (user: User | null, classId: number, date?: string): boolean => {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  if (user.role !== 'instructor') return false;
+
+  const instructor = getMockInstructors().find(i => i.user_id === user.id && i.is_active);
+  const gymClass = getMockClasses().find(c => c.id === classId);
+  if (!instructor || !gymClass) return false;
+
+  const override = date ? getMockOccurrences().find(o => o.class_id === classId && o.occurrence_date === date) : undefined;
+  return (override?.substitute_instructor_id || gymClass.instructor_id) === instructor.id;
+};
+
+// Helper function to add an instructor's class count and login details for the API
+const formatInstructor = (instructor: Instructor) => ({
+  ...instructor,
+  has_login: !!instructor.user_id,
+  login_email: getMockUsers().find(u => u.id === instructor.user_id)?.email ?? null,
+  class_count: getMockClasses().filter(c => c.instructor_id === instructor.id).length
+});
+
+// Icons an admin can pick for a class type
+const CLASS_TYPE_ICON_NAMES = ['activity', 'dumbbell', 'flame', 'flower-2', 'heart', 'bike', 'waves', 'zap', 'timer', 'footprints', 'sparkles', 'swords'];
+
+// Helper function to add a class's room, location and type details for the API. Classes saved before
+// the time of day was derived get their category worked out again here, and classes saved before
+// pricing cost one concession with no drop-ins.
+const withClassDetails = (gymClass: GymClass) => {
+  const room = getMockRooms().find(r => r.id === gymClass.room_id);
+  const location = getMockLocations().find(l => l.id === room?.location_id);
+  const classType = getMockClassTypes().find(t => t.id === gymClass.class_type_id);
+  return {
+    ...gymClass,
+    category: getTimeOfDay(gymClass.time),
+    concession_cost: gymClass.concession_cost ?? 1,
+    drop_in_price: gymClass.drop_in_price ?? null,
+    class_type_name: classType?.name ?? null,
+    class_type_color: classType?.color ?? null,
+    class_type_icon: classType?.icon ?? null,
+    room_name: room?.name ?? null,
+    room_capacity: room?.capacity ?? null,
+    location_id: location?.id ?? null,
+    location_name: location?.name ?? null
+  };
+};
+
+// Check the room chosen on a class form; a class can keep a room that has since closed
+const validateClassRoom = (roomId: number | null | undefined, maxCapacity: number, currentRoomId?: number | null) => {
+  if (!roomId) return;
+
+  const room = getMockRooms().find(r => r.id === roomId);
+  const location = getMockLocations().find(l => l.id === room?.location_id);
+  if (!room || !location) {
+    throw new Error('The selected room does not exist');
+  }
+  if ((!room.is_active || !location.is_active) && room.id !== currentRoomId) {
+    throw new Error('This room has been closed. Please choose another room.');
+  }
+  if (maxCapacity > room.capacity) {
+    throw new Error(`${room.name} holds ${room.capacity} people. Lower the class capacity or choose a bigger room.`);
+  }
+};
+
+// Check the class type chosen on a class form; a class can keep a type that has since been retired
+const validateClassType = (classTypeId: number | null | undefined, currentClassTypeId?: number | null) => {
+  if (!classTypeId) return;
+
+  const classType = getMockClassTypes().find(t => t.id === classTypeId);
+  if (!classType) {
+    throw new Error('The selected class type does not exist');
+  }
+  if (!classType.is_active && classType.id !== currentClassTypeId) {
+    throw new Error('This class type has been retired. Please choose another type.');
+  }
+};
+
+// Check a class's concession cost and drop-in price (an empty drop-in price means concessions only)
+const validateClassPricing = (concessionCost: number | undefined, dropInPrice: number | null | undefined) => {
+  if (concessionCost !== undefined && (!Number.isInteger(concessionCost) || concessionCost < 1 || concessionCost > 10)) {
+    throw new Error('Concession cost must be between 1 and 10');
+  }
+  if (dropInPrice && (dropInPrice < 0.01 || dropInPrice > 1000)) {
+    throw new Error('Drop-in price must be between $0.01 and $1000');
+  }
+};
+
+// Check a concession package form
+const validateConcessionPackage = (input: { name: string; concessions: number; price: number; validity_months?: number | null }) => {
+  if (input.name.trim().length < 2 || input.name.trim().length > 100) {
+    throw new Error('Package name must be 2-100 characters');
+  }
+  if (!Number.isInteger(input.concessions) || input.concessions < 1 || input.concessions > 100) {
+    throw new Error('Concessions must be between 1 and 100');
+  }
+  if (!(input.price >= 0.01 && input.price <= 10000)) {
+    throw new Error('Price must be between $0.01 and $10000');
+  }
+  if (input.validity_months != null && (!Number.isInteger(input.validity_months) || input.validity_months < 1 || input.validity_months > 36)) {
+    throw new Error('Validity must be between 1 and 36 months');
+  }
+};
+
+const validateVoucher = (input: VoucherInput) => {
+  if (!/^[A-Z0-9-]{3,32}$/.test(input.code)) {
+    throw new Error('Code must be 3-32 letters, numbers or dashes');
+  }
+  if (input.voucher_type === 'concessions' && (!Number.isInteger(input.concessions) || input.concessions! < 1 || input.concessions! > 100)) {
+    throw new Error('Free concessions must be between 1 and 100');
+  }
+  if (input.voucher_type === 'percent_off' && (!Number.isInteger(input.percent_off) || input.percent_off! < 1 || input.percent_off! > 100)) {
+    throw new Error('Discount must be between 1% and 100%');
+  }
+  if (input.validity_months != null && (!Number.isInteger(input.validity_months) || input.validity_months < 1 || input.validity_months > 36)) {
+    throw new Error('Validity must be between 1 and 36 months');
+  }
+  if (input.max_uses != null && (!Number.isInteger(input.max_uses) || input.max_uses < 1)) {
+    throw new Error('Maximum uses must be at least 1');
+  }
+  if (input.package_id != null && !getMockConcessionPackages().some(cp => cp.id === input.package_id)) {
+    throw new Error('The package this discount is for does not exist');
+  }
+};
+
+const validateMembershipPlan = (input: { name: string; plan_type: MembershipPlanType; classes_per_week: number | null; monthly_price: number }) => {
+  if (input.name.trim().length < 2 || input.name.trim().length > 100) {
+    throw new Error('Plan name must be 2-100 characters');
+  }
+  if (!['unlimited', 'weekly', 'off_peak'].includes(input.plan_type)) {
+    throw new Error('Plan type must be unlimited, weekly or off_peak');
+  }
+  if (input.plan_type === 'weekly' && (!Number.isInteger(input.classes_per_week) || input.classes_per_week! < 1 || input.classes_per_week! > 14)) {
+    throw new Error('Classes per week must be between 1 and 14');
+  }
+  if (!(input.monthly_price >= 0 && input.monthly_price <= 10000)) {
+    throw new Error('Monthly price must be between $0 and $10000');
+  }
+};
+
+// Check a membership's dates and plan, and that it doesn't overlap the member's other memberships
+const validateMembership = (userId: number, input: { plan_id: number; start_date: string; end_date: string | null }, current?: Membership) => {
+  if (input.end_date && input.end_date < input.start_date) {
+    throw new Error('The membership must end on or after its start date');
+  }
+
+  const plan = getMockMembershipPlans().find(p => p.id === input.plan_id);
+  if (!plan) {
+    throw new Error('The selected plan does not exist');
+  }
+  if (!plan.is_active && plan.id !== current?.plan_id) {
+    throw new Error('This membership plan has been retired');
+  }
+
+  const overlaps = getMockMemberships().some(m =>
+    m.user_id === userId && m.id !== current?.id &&
+    m.start_date <= (input.end_date ?? '9999-12-31') && (m.end_date ?? '9999-12-31') >= input.start_date
+  );
+  if (overlaps) {
+    throw new Error('This member already has a membership for some of these dates');
+  }
+};
+
+// Helper function to read a duration such as "45 minutes" or "1 hour 30 minutes" as minutes (an hour if unreadable)
+const parseDurationMinutes = (duration: string) => {
+  const text = String(duration || '').toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*h/);
+  const minutes = text.match(/(\d+)\s*m/);
+
+  if (!hours && !minutes) return parseInt(text) || 60;
+
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0)) || 60;
+};
+
+// Find classes whose weekly pattern double-books a room or an instructor (optionally only one class's)
+const findScheduleConflicts = (classId?: number): ScheduleConflict[] => {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const classes = getMockClasses().map(withClassDetails);
+  const instructors = getMockInstructors();
+  const conflicts: ScheduleConflict[] = [];
+
+  for (let i = 0; i < classes.length; i++) {
+    for (let j = i + 1; j < classes.length; j++) {
+      let [a, b] = [classes[i], classes[j]];
+      if (classId && a.id !== classId && b.id !== classId) continue;
+      if (classId && b.id === classId) [a, b] = [b, a];
+
+      const sharesRoom = !!a.room_id && a.room_id === b.room_id;
+      const sharesInstructor = !!a.instructor_id && a.instructor_id === b.instructor_id;
+      if (!sharesRoom && !sharesInstructor) continue;
+
+      if ((a.start_date || '0000-01-01') > (b.end_date || '9999-12-31') || (b.start_date || '0000-01-01') > (a.end_date || '9999-12-31')) continue;
+      const aFrom = toMinutes(a.time);
+      const bFrom = toMinutes(b.time);
+      if (aFrom >= bFrom + parseDurationMinutes(b.duration) || bFrom >= aFrom + parseDurationMinutes(a.duration)) continue;
+
+      const days = a.days.filter(day => b.days.includes(day));
+      if (days.length === 0) continue;
+
+      const pair = {
+        class_id: a.id,
+        class_name: a.name,
+        class_time: a.time,
+        other_class_id: b.id,
+        other_class_name: b.name,
+        other_class_time: b.time,
+        days
+      };
+
+      if (sharesRoom) conflicts.push({ ...pair, type: 'room', resource_name: `${a.location_name} · ${a.room_name}` });
+      if (sharesInstructor) {
+        conflicts.push({ ...pair, type: 'instructor', resource_name: instructors.find(i => i.id === a.instructor_id)?.name || a.instructor });
+      }
+    }
+  }
+
+  return conflicts;
+};
+
+// Get the account whose concession balance a member books against: the payer of their household when
+// they're a dependant, otherwise the member themselves
+const getMockBalanceHolder = (userId: number) => {
+  const users = getMockUsers();
+  const link = getMockHouseholdMembers().find(m => m.user_id === userId);
+  const household = link ? getMockHouseholds().find(h => h.id === link.household_id) ?? null : null;
+  const holder = users.find(u => u.id === (household ? household.payer_id : userId)) ?? null;
+  return { holder, household };
+};
+
+// The account a booking's concessions (and any no-show penalty) are charged to and refunded to
+const getChargedUserId = (booking: Booking) => booking.charged_user_id ?? booking.user_id;
+
+// Check whether a user pays for another member's bookings as their household payer
+const isMockHouseholdPayerFor = (payerId: number, userId: number) => {
+  const link = getMockHouseholdMembers().find(m => m.user_id === userId);
+  return !!link && getMockHouseholds().some(h => h.id === link.household_id && h.payer_id === payerId);
+};
+
+// Get a household with its payer and dependants
+const getMockHousehold = (householdId: number) => {
+  const household = getMockHouseholds().find(h => h.id === householdId);
+  if (!household) return null;
+
+  const users = getMockUsers();
+  const payer = users.find(u => u.id === household.payer_id);
+  const members = getMockHouseholdMembers()
+    .filter(m => m.household_id === householdId)
+    .map(m => {
+      const member = users.find(u => u.id === m.user_id);
+      return { id: m.user_id, name: member?.name ?? '', email: member?.email ?? '', concessions: member?.concessions ?? 0, added_at: m.created_at };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    ...household,
+    payer_name: payer?.name ?? '',
+    payer_email: payer?.email ?? '',
+    concessions: payer?.concessions ?? 0,
+    members
+  };
+};
+
+// Get the household a member belongs to, as its payer or as a dependant
+const getMockHouseholdForUser = (userId: number) => {
+  const household = getMockHouseholds().find(h => h.payer_id === userId);
+  const link = getMockHouseholdMembers().find(m => m.user_id === userId);
+  const householdId = household?.id ?? link?.household_id;
+  return householdId ? getMockHousehold(householdId) : null;
+};
+
+// Summarise a member's household for their session: whether they're its payer or a dependant, who's in it,
+// and the shared balance dependants book against
+const getMockHouseholdSummary = (userId: number) => {
+  const household = getMockHouseholdForUser(userId);
+  if (!household) return null;
+
+  return {
+    id: household.id,
+    name: household.name,
+    role: household.payer_id === userId ? 'payer' as const : 'dependant' as const,
+    payer_id: household.payer_id,
+    payer_name: household.payer_name,
+    concessions: household.concessions,
+    members: household.members.map(m => ({ id: m.id, name: m.name }))
+  };
+};
+
+// Apply a change to a member's concessions, append the matching ledger entry and update their packs
+const recordConcessionChange = (
+  userId: number,
+  change: number,
+  reason: ConcessionLedgerReason,
+  details: {
+    actorId?: number | null;
+    bookingId?: number | null;
+    paymentId?: number | null;
+    note?: string | null;
+    packId?: number | null; // Debit this pack only (expiry)
+    packName?: string | null;
+    validityMonths?: number | null;
+  } = {}
+): ConcessionLedgerEntry | null => {
+  const users = getMockUsers();
+  const userIndex = users.findIndex(u => u.id === userId);
+  if (userIndex === -1) return null;
+
+  const balanceBefore = users[userIndex].concessions;
+  users[userIndex].concessions += change;
+  setMockUsers(users);
+
+  const ledger = getMockLedger();
+  const entry: ConcessionLedgerEntry = {
+    id: Math.max(0, ...ledger.map(e => e.id)) + 1,
+    user_id: userId,
+    change,
+    balance_after: users[userIndex].concessions,
+    reason,
+    actor_id: details.actorId ?? null,
+    booking_id: details.bookingId ?? null,
+    payment_id: details.paymentId ?? null,
+    note: details.note ?? null,
+    created_at: new Date().toISOString()
+  };
+  ledger.push(entry);
+  setMockLedger(ledger);
+
+  applyPackChange(entry, balanceBefore, details);
+
+  console.log(`✅ Updated user ${userId} concessions by ${change} (${reason}) to ${entry.balance_after}`);
+
+  // Warn the member once, when a debit takes them down to the low balance threshold
+  if (change < 0 && entry.balance_after <= MOCK_LOW_BALANCE_THRESHOLD && balanceBefore > MOCK_LOW_BALANCE_THRESHOLD) {
+    queueMockNotification('low_balance', userId, { concessions: String(entry.balance_after) });
+  }
+
+  return entry;
+};
+
+// Helper function to move a ledger entry's concessions in or out of the member's packs (same rules as the
+// backend): debits come out of the pack that expires first, refunds for a booking go back to the packs it
+// used, and other credits start a new pack once anything booked on credit is paid off
+const applyPackChange = (
+  entry: ConcessionLedgerEntry,
+  balanceBefore: number,
+  details: { packId?: number | null; packName?: string | null; validityMonths?: number | null }
+) => {
+  const packs = getMockConcessionPacks();
+  const usage = getMockPackUsage();
+  const today = new Date().toISOString().split('T')[0];
+  const movePack = (pack: ConcessionPack, change: number) => {
+    pack.remaining += change;
+    usage.push({ id: Math.max(0, ...usage.map(u => u.id)) + 1, ledger_id: entry.id, pack_id: pack.id, change });
+  };
+  const expiredPacks: ConcessionPack[] = [];
+
+  if (entry.change < 0) {
+    let needed = -entry.change;
+    const available = packs
+      .filter(p => p.user_id === entry.user_id && p.remaining > 0 && !p.expired_at &&
+        (details.packId ? p.id === details.packId : !p.expires_on || p.expires_on >= today))
+      .sort((a, b) => (a.expires_on ?? '9999-12-31').localeCompare(b.expires_on ?? '9999-12-31') || a.id - b.id);
+    for (const pack of available) {
+      if (needed === 0) break;
+      const taken = Math.min(pack.remaining, needed);
+      movePack(pack, -taken);
+      needed -= taken;
+    }
+  } else if (entry.change > 0) {
+    let left = entry.change;
+
+    if (entry.reason === 'refund' && entry.booking_id) {
+      const bookingEntryIds = getMockLedger()
+        .filter(e => e.booking_id === entry.booking_id && e.user_id === entry.user_id && ['booking', 'no_show_penalty', 'refund'].includes(e.reason))
+        .map(e => e.id);
+      const taken: { [packId: number]: number } = {};
+      usage.filter(u => bookingEntryIds.includes(u.ledger_id)).forEach(u => { taken[u.pack_id] = (taken[u.pack_id] || 0) - u.change; });
+
+      const usedPacks = packs
+        .filter(p => (taken[p.id] || 0) > 0)
+        .sort((a, b) => (b.expires_on ?? '9999-12-31').localeCompare(a.expires_on ?? '9999-12-31') || b.id - a.id);
+      for (const pack of usedPacks) {
+        if (left === 0) break;
+        const returned = Math.min(taken[pack.id], left);
+        movePack(pack, returned);
+        if (pack.expired_at || (pack.expires_on && pack.expires_on < today)) expiredPacks.push(pack);
+        left -= returned;
+      }
+    }
+
+    if (left > 0) {
+      const held = packs.filter(p => p.user_id === entry.user_id && !p.expired_at).reduce((sum, p) => sum + p.remaining, 0);
+      const owed = Math.max(0, held - (balanceBefore + entry.change - left));
+      const credited = left - Math.min(owed, left);
+
+      if (credited > 0) {
+        let expiresOn: string | null = null;
+        if (details.validityMonths) {
+          const expiry = new Date();
+          expiry.setMonth(expiry.getMonth() + details.validityMonths);
+          expiry.setDate(expiry.getDate() - 1);
+          expiresOn = expiry.toISOString().split('T')[0];
+        }
+        const pack: ConcessionPack = {
+          id: Math.max(0, ...packs.map(p => p.id)) + 1,
+          user_id: entry.user_id,
+          payment_id: entry.payment_id,
+          name: details.packName || CONCESSION_PACK_NAMES[entry.reason] || 'Concessions',
+          concessions: credited,
+          remaining: 0,
+          expires_on: expiresOn,
+          expired_at: null,
+          created_at: new Date().toISOString()
+        };
+        packs.push(pack);
+        movePack(pack, credited);
+      }
+    }
+  }
+
+  setMockConcessionPacks(packs);
+  setMockPackUsage(usage);
+
+  // Concessions returned to a pack that has run out expire straight away
+  expiredPacks.forEach(pack => expireMockPack(pack.id));
+};
+
+// Names for packs credited by something other than a purchase
+const CONCESSION_PACK_NAMES: { [reason: string]: string } = {
+  opening_balance: 'Opening balance',
+  refund: 'Refund',
+  admin_adjustment: 'Added by the gym'
+};
+
+// Helper function to expire what's left of a pack and mark it expired
+const expireMockPack = (packId: number) => {
+  const pack = getMockConcessionPacks().find(p => p.id === packId);
+  if (!pack) return 0;
+
+  if (pack.remaining > 0) {
+    recordConcessionChange(pack.user_id, -pack.remaining, 'expiry', {
+      paymentId: pack.payment_id,
+      note: `${pack.name} expired`,
+      packId: pack.id
+    });
+  }
+
+  const packs = getMockConcessionPacks();
+  const expired = packs.find(p => p.id === packId)!;
+  expired.expired_at = expired.expired_at ?? new Date().toISOString();
+  setMockConcessionPacks(packs);
+  return pack.remaining;
+};
+
+// The mock's stand-in for the nightly expiry job, run whenever packs or statements are read
+const expireMockConcessionPacks = () => {
+  const today = new Date().toISOString().split('T')[0];
+  getMockConcessionPacks()
+    .filter(p => !p.expired_at && p.expires_on && p.expires_on < today)
+    .forEach(p => {
+      const expired = expireMockPack(p.id);
+      if (expired > 0) console.log(`⌛ ${expired} concession(s) expired from ${p.name} (user ${p.user_id})`);
+    });
+};
+
+// Why a code can't be used (same messages as the backend)
+const VOUCHER_ERRORS = {
+  not_found: 'That code doesn\'t exist. Please check it and try again.',
+  inactive: 'This code is no longer available',
+  expired: 'This code has expired',
+  used_up: 'This code has already been used the maximum number of times',
+  already_redeemed: 'You have already used this code',
+  new_members_only: 'This code is only for new members',
+  needs_purchase: 'This code gives a discount on a concession package. Enter it when you buy concessions.',
+  not_discount: 'This code adds free concessions. Redeem it from your dashboard instead.',
+  wrong_package: 'This code can\'t be used with the package you chose'
+};
+
+// A redemption counts as a use unless it was a discount on a purchase that was then rejected or cancelled
+const isCountedRedemption = (redemption: VoucherRedemption) => {
+  const payment = redemption.payment_id ? getMockPayments().find(p => p.id === redemption.payment_id) : null;
+  return !payment || !['rejected', 'cancelled'].includes(payment.status);
+};
+
+// Check a voucher can be redeemed (by a member, when userId is given); returns the reason it can't, or null
+const checkMockVoucher = (voucher: Voucher | undefined, userId: number | null = null): keyof typeof VOUCHER_ERRORS | null => {
+  if (!voucher) return 'not_found';
+  if (!voucher.is_active) return 'inactive';
+  if (voucher.expires_on && voucher.expires_on < new Date().toISOString().split('T')[0]) return 'expired';
+
+  const uses = getMockVoucherRedemptions().filter(r => r.voucher_id === voucher.id && isCountedRedemption(r));
+  if (voucher.max_uses !== null && uses.length >= voucher.max_uses) return 'used_up';
+  if (userId === null) return null;
+  if (uses.some(r => r.user_id === userId)) return 'already_redeemed';
+
+  // New members haven't booked a class or bought concessions yet
+  if (voucher.new_members_only &&
+    (getMockBookings().some(b => b.user_id === userId) || getMockPayments().some(p => p.user_id === userId && p.status === 'confirmed'))) {
+    return 'new_members_only';
+  }
+
+  return null;
+};
+
+const findMockVoucher = (code: string) => getMockVouchers().find(v => v.code === code.trim().toUpperCase());
+
+// Redeem a free-concessions code: the concessions go to the balance the member books against (their
+// household payer's, for a dependant) as a pack named after the code. Throws when the code can't be used.
+const redeemMockConcessionVoucher = (code: string, userId: number, source: VoucherRedemption['source']) => {
+  const voucher = findMockVoucher(code);
+  const error = checkMockVoucher(voucher, userId);
+  if (error || !voucher) {
+    throw new Error(VOUCHER_ERRORS[error ?? 'not_found']);
+  }
+  if (voucher.voucher_type !== 'concessions' || !voucher.concessions) {
+    throw new Error(VOUCHER_ERRORS.needs_purchase);
+  }
+
+  const balanceHolder = getMockBalanceHolder(userId).holder!;
+  const member = getMockUsers().find(u => u.id === userId)!;
+  const entry = recordConcessionChange(balanceHolder.id, voucher.concessions, 'voucher', {
+    actorId: userId,
+    note: balanceHolder.id !== userId ? `${voucher.code} redeemed by ${member.name}` : voucher.code,
+    packName: `Voucher ${voucher.code}`,
+    validityMonths: voucher.validity_months
+  })!;
+
+  const redemptions = getMockVoucherRedemptions();
+  const redemption: VoucherRedemption = {
+    id: Math.max(0, ...redemptions.map(r => r.id)) + 1,
+    voucher_id: voucher.id,
+    user_id: userId,
+    source,
+    concessions: voucher.concessions,
+    ledger_id: entry.id,
+    payment_id: null,
+    discount_amount: 0,
+    redeemed_at: new Date().toISOString()
+  };
+  redemptions.push(redemption);
+  setMockVoucherRedemptions(redemptions);
+
+  console.log(`🎁 ${voucher.code} redeemed by user ${userId}: ${voucher.concessions} concession(s) to user ${balanceHolder.id}`);
+  return { voucher, redemption, entry, balanceHolder };
+};
+
+const ATTENDANCE_STATUSES = {
+  attended: 'completed',
+  'no-show': 'no-show',
+  pending: 'confirmed'
+} as const;
+
+// Record attendance on a booking, charging or reversing the no-show penalty as the mark changes
+const applyAttendance = (booking: Booking, attendance: keyof typeof ATTENDANCE_STATUSES, actorId: number | null): Booking => {
+  const status = ATTENDANCE_STATUSES[attendance];
+  let penalty = booking.no_show_penalty || 0;
+
+  if (booking.status === 'no-show' && status !== 'no-show' && penalty > 0) {
+    recordConcessionChange(getChargedUserId(booking), penalty, 'refund', {
+      actorId,
+      bookingId: booking.id,
+      note: 'No-show penalty reversed'
+    });
+    penalty = 0;
+  }
+
+  if (status === 'no-show' && booking.status !== 'no-show') {
+    penalty = getClassPolicy(booking.class_id).no_show_penalty;
+    if (penalty > 0) {
+      recordConcessionChange(getChargedUserId(booking), -penalty, 'no_show_penalty', { actorId, bookingId: booking.id });
+    }
+  }
+
+  const updatedBooking: Booking = {
+    ...booking,
+    status,
+    no_show_penalty: penalty,
+    attendance_marked_at: status === 'confirmed' ? null : new Date().toISOString(),
+    attendance_marked_by: status === 'confirmed' ? null : actorId
+  };
+  setMockBookings(getMockBookings().map(b => (b.id === booking.id ? updatedBooking : b)));
+
+  return updatedBooking;
+};
+
+// Mirrors the server's check-in rules (codes live 5 minutes, check-in opens an hour before class)
+const CHECK_IN_TOKEN_TTL_MS = 5 * 60 * 1000;
+const CHECK_IN_OPENS_MINUTES = 60;
+
+const isCheckInOpen = (date: string, time: string) => {
+  const opensAt = new Date(`${date}T${time}:00`).getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000;
+  return Date.now() >= opensAt && Date.now() <= new Date(`${date}T23:59:59`).getTime();
+};
+
+// Build a single-event .ics document for a booking (same shape as the server's export)
+const buildBookingCalendar = (booking: Booking, gymClass: GymClass, occurrence: ReturnType<typeof getOccurrence>) => {
+  const escapeText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+  const formatLocal = (date: Date) => date.toISOString().replace(/[-:]/g, '').slice(0, 15);
+  const start = new Date(`${booking.booking_date}T${occurrence.time}:00Z`);
+  const end = new Date(start.getTime() + (parseInt(gymClass.duration.match(/\d+/)?.[0] || '') || 60) * 60 * 1000);
+  const isCancelled = booking.status === 'cancelled' || booking.status === 'late-cancelled' || occurrence.is_cancelled;
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FlexBook//Class Bookings//EN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:booking-${booking.id}@flexbook`,
+    `DTSTAMP:${new Date().toISOString().replace(/[-:]/g, '').split('.')[0]}Z`,
+    `DTSTART:${formatLocal(start)}`,
+    `DTEND:${formatLocal(end)}`,
+    `SUMMARY:${escapeText(gymClass.name)}`,
+    `DESCRIPTION:${escapeText(`Instructor: ${occurrence.instructor}`)}`,
+    `STATUS:${isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SEQUENCE:${isCancelled ? 1 : 0}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\r\n') + '\r\n';
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Check whether the weekly pattern puts a session on the given date
+const isClassScheduledOnDate = (gymClass: GymClass, date: string): boolean => {
+  const dayName = DAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  if (!gymClass.days.includes(dayName)) return false;
+  if (gymClass.start_date && date < gymClass.start_date) return false;
+  if (gymClass.end_date && date > gymClass.end_date) return false;
+  return true;
+};
+
+// Effective details of a class on a date, with any per-date override applied
+const getOccurrence = (gymClass: GymClass, date: string) => {
+  const override = getMockOccurrences().find(o => o.class_id === gymClass.id && o.occurrence_date === date);
+  return {
+    class_id: gymClass.id,
+    occurrence_date: date,
+    name: gymClass.name,
+    time: override?.time || gymClass.time,
+    duration: gymClass.duration,
+    instructor: override?.instructor || gymClass.instructor,
+    substitute_instructor_id: override?.substitute_instructor_id || null,
+    is_substitute: !!override?.substitute_instructor_id,
+    max_capacity: override?.max_capacity || gymClass.max_capacity,
+    is_cancelled: override?.is_cancelled || false,
+    cancellation_reason: override?.cancellation_reason || null,
+    is_scheduled: isClassScheduledOnDate(gymClass, date),
+    has_override: !!override,
+    override_id: override?.id || null
+  };
+};
+
+// Every scheduled occurrence of the given classes between two dates (inclusive)
+const listOccurrences = (classes: GymClass[], from: string, to: string) => {
+  const occurrences: ReturnType<typeof getOccurrence>[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+
+  while (cursor <= end) {
+    const date = cursor.toISOString().split('T')[0];
+    classes
+      .filter(c => isClassScheduledOnDate(c, date))
+      .forEach(c => occurrences.push(getOccurrence(c, date)));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return occurrences;
+};
+
+// Insert or update the stored override for a class and date
+const saveOccurrenceOverride = (classId: number, date: string, changes: Partial<ClassOccurrenceOverride>) => {
+  const occurrences = getMockOccurrences();
+  const existing = occurrences.find(o => o.class_id === classId && o.occurrence_date === date);
+
+  if (existing) {
+    Object.assign(existing, changes, { updated_at: new Date().toISOString() });
+  } else {
+    occurrences.push({
+      id: Date.now(),
+      class_id: classId,
+      occurrence_date: date,
+      is_cancelled: false,
+      ...changes,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  setMockOccurrences(occurrences);
+};
+
+// Hand a date back to the class's regular instructor, withdrawing notices members haven't seen yet
+const removeMockSubstitute = (classId: number, date: string): boolean => {
+  const substitutions = getMockSubstitutions();
+  const active = substitutions.find(s => s.class_id === classId && s.occurrence_date === date && s.status === 'active');
+  if (!active) return false;
+
+  active.status = 'removed';
+  active.removed_at = new Date().toISOString();
+  setMockSubstitutions(substitutions);
+  setMockSubstitutionNotices(getMockSubstitutionNotices().filter(n => n.substitution_id !== active.id || n.acknowledged_at));
+  saveOccurrenceOverride(classId, date, { instructor: null, substitute_instructor_id: null });
+  return true;
+};
+
+// Put a substitute on one date of a class and leave a notice for each booked member; returns how many were notified
+const assignMockSubstitute = (gymClass: GymClass, date: string, substitute: Instructor, reason: string | null, actorId: number) => {
+  removeMockSubstitute(gymClass.id, date);
+
+  const substitutions = getMockSubstitutions();
+  const substitution: ClassSubstitution = {
+    id: Date.now() + substitutions.length,
+    class_id: gymClass.id,
+    occurrence_date: date,
+    original_instructor_id: gymClass.instructor_id ?? null,
+    substitute_instructor_id: substitute.id,
+    reason,
+    status: 'active',
+    created_by: actorId,
+    created_at: new Date().toISOString()
+  };
+  setMockSubstitutions([...substitutions, substitution]);
+  saveOccurrenceOverride(gymClass.id, date, { instructor: substitute.name, substitute_instructor_id: substitute.id });
+
+  const booked = getMockBookings().filter(b => b.class_id === gymClass.id && b.booking_date === date && b.status === 'confirmed');
+  const notices = getMockSubstitutionNotices();
+  booked.forEach(b => notices.push({
+    id: Date.now() + notices.length,
+    substitution_id: substitution.id,
+    user_id: b.user_id,
+    acknowledged_at: null,
+    created_at: new Date().toISOString()
+  }));
+  setMockSubstitutionNotices(notices);
+
+  return booked.length;
+};
+
+// Position of a waiting entry in its class/date queue (1-based)
+// Helper function to move a YYYY-MM-DD date by a number of days
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+// The membership that covers a member on a date: started, not ended, and not paused that day
+const getMockMembershipOnDate = (userId: number, date: string) => {
+  const pauses = getMockMembershipPauses();
+  return getMockMemberships()
+    .filter(m => m.user_id === userId && m.start_date <= date && (!m.end_date || m.end_date >= date))
+    .filter(m => !pauses.some(p => p.membership_id === m.id && p.start_date <= date && p.end_date >= date))
+    .sort((a, b) => b.start_date.localeCompare(a.start_date) || b.id - a.id)[0] || null;
+};
+
+// Work out whether a member's membership covers a session. Returns null when it doesn't (no membership,
+// a peak class on an off-peak plan, or the week's classes used up) and the booking falls back to concessions.
+const getMockMembershipCover = (userId: number, date: string, time: string) => {
+  const membership = getMockMembershipOnDate(userId, date);
+  const plan = membership ? getMockMembershipPlans().find(p => p.id === membership.plan_id) : undefined;
+  if (!membership || !plan) return null;
+
+  if (plan.plan_type === 'off_peak' && !isOffPeak(date, time)) return null;
+
+  if (plan.plan_type === 'weekly') {
+    const week = getWeekRange(date);
+    const used = getMockBookings().filter(b =>
+      b.membership_id === membership.id &&
+      b.booking_date >= week.from && b.booking_date <= week.to &&
+      WEEKLY_COUNTED_STATUSES.includes(b.status)
+    ).length;
+    if (used >= (plan.classes_per_week ?? 0)) return null;
+  }
+
+  return { membership, plan };
+};
+
+// Helper function to format a membership with its plan, pauses and where it is at today
+const withMembershipDetails = (membership: Membership) => {
+  const today = new Date().toISOString().split('T')[0];
+  const plan = getMockMembershipPlans().find(p => p.id === membership.plan_id);
+  const pauses = getMockMembershipPauses()
+    .filter(p => p.membership_id === membership.id)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  let status: 'upcoming' | 'ended' | 'paused' | 'active' = 'active';
+  if (membership.start_date > today) status = 'upcoming';
+  else if (membership.end_date && membership.end_date < today) status = 'ended';
+  else if (pauses.some(p => p.start_date <= today && p.end_date >= today)) status = 'paused';
+
+  return {
+    ...membership,
+    plan_name: plan?.name ?? 'Unknown plan',
+    plan_type: plan?.plan_type ?? 'unlimited',
+    classes_per_week: plan?.classes_per_week ?? null,
+    monthly_price: plan?.monthly_price ?? 0,
+    created_by_name: getMockUsers().find(u => u.id === membership.created_by)?.name ?? null,
+    pauses,
+    status
+  };
+};
+
+const getWaitlistPosition = (entry: WaitlistEntry): number => {
+  const queue = getMockWaitlist().filter(
+    w => w.class_id === entry.class_id && w.booking_date === entry.booking_date && w.status === 'waiting'
+  );
+  return queue.findIndex(w => w.id === entry.id) + 1;
+};
+
+// Move the first eligible waitlisted member into a freed spot
+const promoteFromWaitlist = (classId: number, bookingDate: string) => {
+  const gymClass = getMockClasses().find(c => c.id === classId);
+  if (!gymClass) return null;
+
+  const occurrence = getOccurrence(gymClass, bookingDate);
+  if (occurrence.is_cancelled) return null;
+
+  const bookings = getMockBookings();
+  const confirmedCount = bookings.filter(
+    b => b.class_id === classId && b.booking_date === bookingDate && b.status === 'confirmed'
+  ).length;
+  if (confirmedCount >= occurrence.max_capacity) return null;
+
+  const users = getMockUsers();
+  const waitlist = getMockWaitlist();
+
+  // Members whose membership doesn't cover the session and who can't cover the class's concession cost
+  // keep their place in the queue but are skipped. Dependants are checked against their household
+  // payer's balance.
+  const policy = getClassPolicy(classId);
+  const cost = gymClass.concession_cost ?? 1;
+  const entry = waitlist.find(w => {
+    const member = users.find(u => u.id === w.user_id);
+    const { holder } = getMockBalanceHolder(w.user_id);
+    return w.class_id === classId &&
+      w.booking_date === bookingDate &&
+      w.status === 'waiting' &&
+      !!member && !!holder &&
+      (!!getMockMembershipCover(member.id, bookingDate, occurrence.time) || holder.concessions - cost >= -policy.credit_limit);
+  });
+  if (!entry) return null;
+
+  const member = users.find(u => u.id === entry.user_id)!;
+  const { holder } = getMockBalanceHolder(member.id);
+  const cover = getMockMembershipCover(member.id, bookingDate, occurrence.time);
+  const newBooking: Booking = {
+    id: Date.now(),
+    user_id: member.id,
+    class_id: classId,
+    booking_date: bookingDate,
+    status: 'confirmed',
+    used_concession: !cover,
+    concessions_charged: cover ? 0 : cost,
+    booking_time: new Date().toISOString(),
+    is_late_cancellation: false,
+    membership_id: cover ? cover.membership.id : null,
+    charged_user_id: holder!.id !== member.id ? holder!.id : null
+  };
+
+  bookings.push(newBooking);
+  setMockBookings(bookings);
+  if (!cover) {
+    recordConcessionChange(getChargedUserId(newBooking), -cost, 'booking', { bookingId: newBooking.id, note: 'Promoted from waitlist' });
+  }
+
+  entry.status = 'promoted';
+  entry.booking_id = newBooking.id;
+  entry.promoted_at = new Date().toISOString();
+  setMockWaitlist(waitlist);
+
+  console.log(`📋 Promoted user ${member.id} from the waitlist for class ${classId} on ${bookingDate}`);
+  notifyMockBookingConfirmed(newBooking, true);
+
+  return { entry, booking: newBooking };
+};
+
+// Record the pending payment for a drop-in booking; an admin confirms it from the payments queue
+const createDropInPayment = (booking: Booking, gymClass: GymClass) => {
+  const payments = getMockPayments();
+  const payment: Payment = {
+    id: Date.now(),
+    user_id: booking.user_id,
+    amount: gymClass.drop_in_price!,
+    concessions_purchased: 0,
+    payment_type: 'drop_in',
+    booking_id: booking.id,
+    payment_method: 'bank_transfer',
+    reference: generatePaymentReference(),
+    status: 'pending',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  };
+  payments.push(payment);
+  setMockPayments(payments);
+  return payment;
+};
+
+// Helper function to add the class and date a drop-in payment is for, or the package a purchase is for
+const withPaymentBooking = (payment: Payment) => {
+  const booking = getMockBookings().find(b => b.id === payment.booking_id);
+  const gymClass = getMockClasses().find(c => c.id === booking?.class_id);
+  const concessionPackage = getMockConcessionPackages().find(cp => cp.id === payment.package_id);
+  const redemption = getMockVoucherRedemptions().find(r => r.payment_id === payment.id);
+  const voucher = redemption ? getMockVouchers().find(v => v.id === redemption.voucher_id) : undefined;
+  return {
+    ...payment,
+    payment_type: payment.payment_type ?? 'concessions',
+    class_name: gymClass?.name ?? null,
+    booking_date: booking?.booking_date ?? null,
+    package_name: concessionPackage?.name ?? null,
+    voucher_code: voucher?.code ?? null,
+    percent_off: voucher?.percent_off ?? null,
+    discount_amount: redemption?.discount_amount ?? 0,
+    invoice_number: getMockInvoices().find(i => i.payment_id === payment.id && !i.superseded_at)?.invoice_number ?? null
+  };
+};
+
+// Helper function to get a payment's current invoice with what renderInvoicePdf needs
+const getCurrentMockInvoice = (paymentId: number) => {
+  const invoices = getMockInvoices();
+  const invoice = invoices.find(i => i.payment_id === paymentId && !i.superseded_at);
+  const payment = getMockPayments().find(p => p.id === paymentId);
+  if (!invoice || !payment) return null;
+
+  return {
+    ...invoice,
+    payment_reference: payment.reference,
+    payment_method: payment.payment_method,
+    paid_at: payment.processed_at ?? null,
+    replaces_invoice_number: invoices.find(i => i.id === invoice.replaces_invoice_id)?.invoice_number ?? null
+  };
+};
+
+// Issue a numbered receipt for a confirmed payment from the current business and member details,
+// superseding its current receipt if it has one (a re-issue)
+const issueMockInvoice = (paymentId: number, actorId: number | null) => {
+  const payment = getMockPayments().find(p => p.id === paymentId);
+  if (!payment || payment.status !== 'confirmed') return null;
+
+  const member = getMockUsers().find(u => u.id === payment.user_id);
+  const details = getMockPaymentDetails();
+  const business: InvoiceBusiness = {
+    name: details.business_name || details.account_name || 'FlexBook',
+    address: details.business_address || null,
+    gst_number: details.gst_number || null,
+    bank_name: details.bank_name || null,
+    account_name: details.account_name || null,
+    account_number: details.account_number || null
+  };
+  const lines = buildInvoiceLines(withPaymentBooking(payment));
+  const total = Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+
+  const invoices = getMockInvoices();
+  const previous = invoices.find(i => i.payment_id === paymentId && !i.superseded_at);
+  if (previous) {
+    previous.superseded_at = new Date().toISOString();
+  }
+
+  invoices.push({
+    id: invoices.length + 1,
+    invoice_number: `INV-${String(1001 + invoices.length).padStart(6, '0')}`,
+    payment_id: paymentId,
+    business,
+    customer: { name: member?.name ?? '', email: member?.email ?? '' },
+    lines,
+    total,
+    gst_amount: business.gst_number ? gstIncluded(total) : 0,
+    replaces_invoice_id: previous?.id ?? null,
+    superseded_at: null,
+    issued_by: actorId,
+    issued_at: new Date().toISOString()
+  });
+  setMockInvoices(invoices);
+
+  return getCurrentMockInvoice(paymentId);
+};
+
+// Helper function to confirm or reject a pending payment (null if it isn't pending). Confirming a
+// concession purchase adds to the member's balance; a confirmed drop-in just pays for its booking. Either
+// way the member is issued a receipt.
+const settleMockPayment = (paymentId: number, status: 'confirmed' | 'rejected', actorId: number, notes?: string) => {
+  const payments = getMockPayments();
+  const payment = payments.find(p => p.id === paymentId);
+  if (!payment || payment.status !== 'pending') return null;
+
+  payment.status = status;
+  payment.notes = notes || payment.notes;
+  payment.processed_by = actorId;
+  payment.processed_at = new Date().toISOString();
+  payment.updated_at = new Date().toISOString();
+  setMockPayments(payments);
+
+  let newBalance: number | null = null;
+  let isHouseholdBalance = false;
+  if (status === 'confirmed' && payment.payment_type !== 'drop_in') {
+    // A dependant's concessions go to the balance they book against, their household payer's
+    const concessionPackage = getMockConcessionPackages().find(cp => cp.id === payment.package_id);
+    const holderId = getMockBalanceHolder(payment.user_id).holder?.id ?? payment.user_id;
+    isHouseholdBalance = holderId !== payment.user_id;
+    const entry = recordConcessionChange(holderId, payment.concessions_purchased, 'purchase', {
+      actorId,
+      paymentId: payment.id,
+      note: isHouseholdBalance ? `Bought by ${getMockUsers().find(u => u.id === payment.user_id)?.name}` : null,
+      packName: concessionPackage?.name ?? `${payment.concessions_purchased} concessions`,
+      validityMonths: payment.validity_months ?? null
+    });
+    newBalance = entry ? entry.balance_after : null;
+  }
+
+  const invoice = status === 'confirmed' ? issueMockInvoice(payment.id, actorId) : null;
+  if (invoice) {
+    console.log(`🧾 Receipt ${invoice.invoice_number} issued for payment ${payment.reference}`);
+  }
+
+  notifyMockPaymentSettled(payment, newBalance, isHouseholdBalance);
+
+  return { payment, newBalance, isHouseholdBalance, invoice };
+};
+
+// Letters and digits that can't be mistaken for each other when typed into a banking app
+const PAYMENT_REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Helper function to generate a short payment reference such as FB-7KQ2XM
+const generatePaymentReference = () => {
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += PAYMENT_REFERENCE_ALPHABET[Math.floor(Math.random() * PAYMENT_REFERENCE_ALPHABET.length)];
+  }
+  return `FB-${code}`;
+};
+
+// Cancel the unpaid drop-in payments for bookings that were cancelled without a charge; returns how many
+const cancelDropInPayments = (bookingIds: number[]) => {
+  const payments = getMockPayments();
+  let cancelled = 0;
+  payments.forEach(p => {
+    if (p.booking_id && bookingIds.includes(p.booking_id) && p.payment_type === 'drop_in' && p.status === 'pending') {
+      p.status = 'cancelled';
+      p.updated_at = new Date().toISOString();
+      cancelled++;
+    }
+  });
+  setMockPayments(payments);
+  return cancelled;
+};
+
+// Cancel a confirmed booking: refund unless it's inside the cancellation deadline, then promote from the waitlist
+const applyCancellation = (booking: Booking, actorId: number | null) => {
+  const gymClass = getMockClasses().find(c => c.id === booking.class_id);
+  
+  if (!gymClass) {
+    throw new Error('Class not found');
+  }
+  
+  // Check if it's a late cancellation (inside the class's cancellation deadline)
+  const policy = getClassPolicy(gymClass.id);
+  const classTime = getOccurrence(gymClass, booking.booking_date).time;
+  const now = new Date();
+  const classDateTime = new Date(`${booking.booking_date}T${classTime}:00`);
+  const hoursUntilClass = (classDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+  const isLateCancellation = hoursUntilClass <= policy.cancellation_deadline_hours && hoursUntilClass > 0;
+  
+  console.log(`🕒 Cancellation check for booking ${booking.id}:`);
+  console.log(`   Class time: ${classTime}`);
+  console.log(`   Class date/time: ${classDateTime.toISOString()}`);
+  console.log(`   Current time: ${now.toISOString()}`);
+  console.log(`   Hours until class: ${hoursUntilClass.toFixed(2)}`);
+  console.log(`   Is late cancellation: ${isLateCancellation}`);
+  
+  // Update booking status
+  const bookings = getMockBookings();
+  const stored = bookings.find(b => b.id === booking.id)!;
+  stored.status = isLateCancellation ? 'late-cancelled' : 'cancelled';
+  stored.cancellation_time = now.toISOString();
+  stored.is_late_cancellation = isLateCancellation;
+  setMockBookings(bookings);
+  
+  // If not late cancellation and concessions were originally used, refund them
+  const concessionsCharged = booking.concessions_charged ?? 1;
+  let concessionRefunded = false;
+  if (!isLateCancellation && booking.used_concession) {
+    recordConcessionChange(getChargedUserId(booking), concessionsCharged, 'refund', { actorId, bookingId: booking.id });
+    concessionRefunded = true;
+    console.log(`💰 ${concessionsCharged} concession(s) refunded for early cancellation`);
+  } else if (isLateCancellation) {
+    if (booking.used_concession) {
+      recordConcessionChange(getChargedUserId(booking), 0, 'late_cancel_penalty', {
+        actorId,
+        bookingId: booking.id,
+        note: `Cancelled within ${policy.cancellation_deadline_hours} hours of class - ${concessionsCharged} concession(s) not refunded`
+      });
+    }
+    console.log(`⚠️ No refund - late cancellation penalty applied`);
+  }
+  
+  // A drop-in cancelled in time no longer has to be paid for; a late one still does
+  const paymentCancelled = !isLateCancellation && !booking.used_concession && cancelDropInPayments([booking.id]) > 0;
+  
+  notifyMockBookingCancelled(stored, isLateCancellation, concessionRefunded, policy.cancellation_deadline_hours);
+  
+  // Offer the freed spot to the next member on the waitlist
+  promoteFromWaitlist(booking.class_id, booking.booking_date);
+
+  return { booking: stored, isLateCancellation, concessionRefunded, paymentCancelled };
+};
+
+// How long skipped standing booking dates stay visible to the member
+const SKIP_HISTORY_DAYS = 14;
+
+// Record why a standing booking couldn't book a date (updated on each retry)
+const recordStandingSkip = (standingBookingId: number, date: string, reason: StandingBookingSkipReason) => {
+  const skips = getMockStandingSkips().filter(
+    s => !(s.standing_booking_id === standingBookingId && s.skip_date === date)
+  );
+  skips.push({ standing_booking_id: standingBookingId, skip_date: date, reason });
+  setMockStandingSkips(skips);
+  return { date, reason };
+};
+
+// Book every date of a standing booking inside the class's booking window, following the same capacity,
+// membership and credit rules as booking by hand. Dates the member already has a booking for (including cancelled
+// ones) are left alone, so cancelling a single date doesn't get it rebooked.
+const processStandingBooking = (standing: StandingBooking) => {
+  const booked: string[] = [];
+  const skipped: { date: string; reason: StandingBookingSkipReason }[] = [];
+
+  const gymClass = getMockClasses().find(c => c.id === standing.class_id);
+  if (!gymClass) return { booked, skipped };
+
+  const policy = getClassPolicy(gymClass.id);
+  const cost = gymClass.concession_cost ?? 1;
+  const today = new Date().toISOString().split('T')[0];
+  const windowEnd = new Date();
+  windowEnd.setDate(windowEnd.getDate() + policy.booking_window_days);
+
+  const from = standing.start_date > today ? standing.start_date : today;
+  const to = windowEnd.toISOString().split('T')[0];
+
+  const occurrences = listOccurrences([gymClass], from, to)
+    .filter(o => new Date(`${o.occurrence_date}T${o.time}:00`).getTime() > Date.now());
+
+  const existingDates = getMockBookings()
+    .filter(b => b.user_id === standing.user_id && b.class_id === standing.class_id)
+    .map(b => b.booking_date);
+
+  // Dates booked since they were skipped no longer need reporting
+  setMockStandingSkips(getMockStandingSkips().filter(
+    s => !(s.standing_booking_id === standing.id && existingDates.includes(s.skip_date))
+  ));
+
+  for (const occurrence of occurrences) {
+    const date = occurrence.occurrence_date;
+    if (existingDates.includes(date)) continue;
+
+    if (!isClassAvailableForBooking(gymClass)) {
+      skipped.push(recordStandingSkip(standing.id, date, 'class_unavailable'));
+      continue;
+    }
+
+    if (occurrence.is_cancelled) {
+      skipped.push(recordStandingSkip(standing.id, date, 'class_cancelled'));
+      continue;
+    }
+
+    const bookings = getMockBookings();
+    const confirmedCount = bookings.filter(
+      b => b.class_id === standing.class_id && b.booking_date === date && b.status === 'confirmed'
+    ).length;
+    if (confirmedCount >= occurrence.max_capacity) {
+      skipped.push(recordStandingSkip(standing.id, date, 'class_full'));
+      continue;
+    }
+
+    // A dependant's standing booking is charged to their household payer's balance
+    const { holder } = getMockBalanceHolder(standing.user_id);
+    const cover = getMockMembershipCover(standing.user_id, date, occurrence.time);
+    if (!holder || (!cover && holder.concessions - cost < -policy.credit_limit)) {
+      skipped.push(recordStandingSkip(standing.id, date, 'credit_limit'));
+      continue;
+    }
+
+    const newBooking: Booking = {
+      id: Date.now() + booked.length,
+      user_id: standing.user_id,
+      class_id: standing.class_id,
+      booking_date: date,
+      status: 'confirmed',
+      used_concession: !cover,
+      concessions_charged: cover ? 0 : cost,
+      booking_time: new Date().toISOString(),
+      is_late_cancellation: false,
+      standing_booking_id: standing.id,
+      membership_id: cover ? cover.membership.id : null,
+      charged_user_id: holder.id !== standing.user_id ? holder.id : null
+    };
+    bookings.push(newBooking);
+    setMockBookings(bookings);
+    if (!cover) {
+      recordConcessionChange(holder.id, -cost, 'booking', { bookingId: newBooking.id, note: 'Standing booking' });
+    }
+
+    const waitlist = getMockWaitlist();
+    waitlist.forEach(w => {
+      if (w.user_id === standing.user_id && w.class_id === standing.class_id && w.booking_date === date && w.status === 'waiting') {
+        w.status = 'cancelled';
+      }
+    });
+    setMockWaitlist(waitlist);
+
+    setMockStandingSkips(getMockStandingSkips().filter(
+      s => !(s.standing_booking_id === standing.id && s.skip_date === date)
+    ));
+
+    notifyMockBookingConfirmed(newBooking);
+
+    booked.push(date);
+  }
+
+  const standingBookings = getMockStandingBookings();
+  const stored = standingBookings.find(s => s.id === standing.id);
+  if (stored) {
+    stored.last_run_at = new Date().toISOString();
+    setMockStandingBookings(standingBookings);
+  }
+
+  if (booked.length > 0 || skipped.length > 0) {
+    console.log(`🔁 Standing booking ${standing.id}: booked ${booked.length}, skipped ${skipped.length}`);
+  }
+
+  return { booked, skipped };
+};
+
+// Stand-in for the server's scheduler job: process a member's active standing bookings
+const runStandingBookings = (userId: number) => {
+  getMockStandingBookings()
+    .filter(s => s.user_id === userId && s.status === 'active')
+    .forEach(processStandingBooking);
+};
+
+// Helper function to check if a class is available for booking
+const isClassAvailableForBooking = (gymClass: GymClass): boolean => {
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  
+  // Draft classes are never available for booking
+  if (gymClass.status === 'draft') {
+    return false;
+  }
+  
+  // Published classes are immediately available
+  if (gymClass.status === 'published') {
+    return true;
+  }
+  
+  // Scheduled classes are available only after their publish date
+  if (gymClass.status === 'scheduled' && gymClass.publish_date) {
+    return gymClass.publish_date <= today;
+  }
+  
+  return false;
+};
+
+export const mockApi = {
+  auth: {
+    login: async (email: string, password: string) => {
+      // Simulate network delay
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      
+      const users = getMockUsers();
+      const passwords = getMockPasswords();
+      if (passwords[email] !== password) {
+        throw new Error('Invalid credentials');
+      }
+      
+      const account = users.find(u => u.email === email);
+      if (account) {
+        startMockSession(account.id);
+      }
+      
+      if (email === 'admin@gym.com') {
+        const user = users.find(u => u.email === 'admin@gym.com');
+        return {
+          token: 'mock-admin-token',
+          user: user ? { ...user, household: getMockHouseholdSummary(user.id) } : {
+            id: 1,
+            name: 'Admin User',
+            email: 'admin@gym.com',
+            role: 'admin',
+            concessions: 10,
+            join_date: '2024-01-01'
+          },
+          message: 'Login successful'
+        };
+      }
+      
+      if (email === 'user@gym.com') {
+        const user = users.find(u => u.email === 'user@gym.com');
+        return {
+          token: 'mock-user-token',
+          user: user ? { ...user, household: getMockHouseholdSummary(user.id) } : {
+            id: 2,
+            name: 'Test User',
+            email: 'user@gym.com',
+            role: 'user',
+            concessions: 5,
+            join_date: '2024-01-15'
+          },
+          message: 'Login successful'
+        };
+      }
+      
+      if (email === 'instructor@gym.com') {
+        const user = users.find(u => u.email === 'instructor@gym.com');
+        return {
+          token: 'mock-instructor-token',
+          user: user ? { ...user, household: getMockHouseholdSummary(user.id) } : {
+            id: 3,
+            name: 'Sarah Johnson',
+            email: 'instructor@gym.com',
+            role: 'instructor',
+            concessions: 0,
+            join_date: '2024-01-10'
+          },
+          message: 'Login successful'
+        };
+      }
+      
+      // Members who signed up in the mock
+      const member = users.find(u => u.email === email);
+      if (member) {
+        return {
+          token: `mock-user-token-${member.id}`,
+          user: { ...member, household: getMockHouseholdSummary(member.id) },
+          message: 'Login successful'
+        };
+      }
+      
+      throw new Error('Invalid credentials');
+    },
+
+    register: async (name: string, email: string, password: string, voucherCode?: string) => {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      
+      // Check the code before creating the account, so a mistyped one can be fixed and submitted again
+      if (voucherCode) {
+        const voucher = findMockVoucher(voucherCode);
+        const error = voucher?.voucher_type === 'percent_off' ? 'needs_purchase' : checkMockVoucher(voucher);
+        if (error) {
+          throw new Error(VOUCHER_ERRORS[error]);
+        }
+      }
+      
+      const users = getMockUsers();
+      if (users.some(u => u.email === email)) {
+        throw new Error('An account with this email already exists');
+      }
+      
+      const newUser: User = {
+        id: Date.now(),
+        name,
+        email,
+        role: 'user',
+        concessions: 5,
+        join_date: new Date().toISOString(),
+        email_verified: false
+      };
+      
+      users.push(newUser);
+      setMockUsers(users);
+      setMockPasswords({ ...getMockPasswords(), [email]: password });
+      
+      const ledger = getMockLedger();
+      ledger.push({
+        id: Math.max(0, ...ledger.map(e => e.id)) + 1,
+        user_id: newUser.id,
+        change: newUser.concessions,
+        balance_after: newUser.concessions,
+        reason: 'opening_balance',
+        actor_id: null,
+        booking_id: null,
+        payment_id: null,
+        note: 'Welcome concessions',
+        created_at: new Date().toISOString()
+      });
+      setMockLedger(ledger);
+      
+      const packs = getMockConcessionPacks();
+      const welcomePack: ConcessionPack = {
+        id: Math.max(0, ...packs.map(p => p.id)) + 1,
+        user_id: newUser.id,
+        payment_id: null,
+        name: 'Welcome concessions',
+        concessions: newUser.concessions,
+        remaining: newUser.concessions,
+        expires_on: null,
+        expired_at: null,
+        created_at: new Date().toISOString()
+      };
+      packs.push(welcomePack);
+      setMockConcessionPacks(packs);
+      
+      const usage = getMockPackUsage();
+      usage.push({ id: Math.max(0, ...usage.map(u => u.id)) + 1, ledger_id: ledger[ledger.length - 1].id, pack_id: welcomePack.id, change: newUser.concessions });
+      setMockPackUsage(usage);
+      
+      let voucherMessage: string | null = null;
+      if (voucherCode) {
+        const { voucher, entry } = redeemMockConcessionVoucher(voucherCode, newUser.id, 'registration');
+        newUser.concessions = entry.balance_after;
+        voucherMessage = `${voucher.concessions} free concession${voucher.concessions === 1 ? '' : 's'} added with ${voucher.code}`;
+      }
+      
+      sendMockAuthLink(newUser, 'email_verification');
+      startMockSession(newUser.id);
+      
+      return {
+        token: `mock-user-token-${newUser.id}`,
+        user: newUser,
+        message: voucherMessage ? `Registration successful. ${voucherMessage}` : 'Registration successful'
+      };
+    },
+
+    me: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (user) {
+        return { user: { ...user, household: getMockHouseholdSummary(user.id) } };
+      }
+      
+      throw new Error('Unauthorized');
+    },
+
+    updateProfile: async (profile: { home_location_id: number | null }) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const homeLocationId = profile.home_location_id || null;
+      if (homeLocationId && !getMockLocations().some(l => l.id === homeLocationId && l.is_active)) {
+        throw new Error('That location does not exist or is closed');
+      }
+      
+      const users = getMockUsers();
+      const member = users.find(u => u.id === user.id);
+      if (member) member.home_location_id = homeLocationId;
+      setMockUsers(users);
+      
+      console.log(`📍 Home location for ${user.email} set to ${homeLocationId ?? 'none'}`);
+      
+      return {
+        message: 'Profile updated successfully',
+        home_location_id: homeLocationId
+      };
+    },
+
+    changePassword: async (currentPassword: string, newPassword: string) => {
+      await new Promise(resolve => setTimeout(resolve, 600));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      if (newPassword.length < 6) {
+        throw new Error('New password must be at least 6 characters');
+      }
+      
+      const passwords = getMockPasswords();
+      if (passwords[user.email] !== currentPassword) {
+        throw new Error('Current password is incorrect');
+      }
+      
+      // Any reset link already emailed stops working, and other devices are signed out
+      setMockPasswords({ ...passwords, [user.email]: newPassword });
+      setMockAuthTokens(getMockAuthTokens().filter(t => !(t.user_id === user.id && t.purpose === 'password_reset' && !t.used_at)));
+      const signedOut = endMockSessions(user.id, getCurrentMockSessionId());
+      
+      return {
+        message: signedOut > 0
+          ? `Password changed successfully. Your other ${signedOut === 1 ? 'session has' : `${signedOut} sessions have`} been signed out.`
+          : 'Password changed successfully'
+      };
+    },
+
+    forgotPassword: async (email: string) => {
+      await new Promise(resolve => setTimeout(resolve, 600));
+      
+      // Same response whether or not the email has an account
+      const user = getMockUsers().find(u => u.email === email.trim().toLowerCase());
+      if (user) {
+        sendMockAuthLink(user, 'password_reset');
+      }
+      
+      return { message: 'If an account exists for that email, we\'ve sent a link to reset the password.' };
+    },
+
+    resetPassword: async (token: string, password: string) => {
+      await new Promise(resolve => setTimeout(resolve, 600));
+      
+      if (password.length < 6) {
+        throw new Error('Password must be at least 6 characters');
+      }
+      
+      // Following the link also proves the email is theirs
+      const userId = consumeMockAuthToken(token, 'password_reset');
+      const users = getMockUsers();
+      const user = users.find(u => u.id === userId)!;
+      user.email_verified = true;
+      setMockUsers(users);
+      setMockPasswords({ ...getMockPasswords(), [user.email]: password });
+      endMockSessions(user.id, null);
+      
+      console.log(`🔑 Password reset for ${user.email}`);
+      
+      return { message: 'Your password has been reset. You can now sign in with your new password.' };
+    },
+
+    verifyEmail: async (token: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const userId = consumeMockAuthToken(token, 'email_verification');
+      const users = getMockUsers();
+      const user = users.find(u => u.id === userId);
+      if (user) user.email_verified = true;
+      setMockUsers(users);
+      
+      return { message: 'Thanks, your email address is confirmed.' };
+    },
+
+    resendVerification: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      if (user.email_verified !== false) {
+        throw new Error('Your email address is already confirmed');
+      }
+      
+      sendMockAuthLink(user, 'email_verification');
+      
+      return { message: `We've sent a new confirmation link to ${user.email}` };
+    },
+
+    refresh: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const sessions = getMockSessions();
+      const session = sessions.find(s => s.id === getCurrentMockSessionId() && !s.revoked_at);
+      const user = session ? getMockUsers().find(u => u.id === session.user_id) : null;
+      if (!session || !user) {
+        throw new Error('Session ended');
+      }
+      
+      session.last_used_at = new Date().toISOString();
+      setMockSessions(sessions);
+      
+      return { token: getMockTokenForUser(user) };
+    },
+
+    logout: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const sessionId = getCurrentMockSessionId();
+      if (sessionId) {
+        const sessions = getMockSessions();
+        const session = sessions.find(s => s.id === sessionId);
+        if (session && !session.revoked_at) session.revoked_at = new Date().toISOString();
+        setMockSessions(sessions);
+      }
+      if (typeof localStorage !== 'undefined') {
+        localStorage.removeItem('flexbook_mock_session_id');
+      }
+      
+      return { message: 'Logged out successfully' };
+    }
+  },
+
+  sessions: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const currentId = getCurrentMockSessionId();
+      const sessions = getMockSessions()
+        .filter(s => s.user_id === user.id && !s.revoked_at)
+        .map(({ revoked_at, user_id, ...s }) => ({ ...s, is_current: s.id === currentId }))
+        .sort((a, b) => Number(b.is_current) - Number(a.is_current) || b.last_used_at.localeCompare(a.last_used_at));
+      
+      return { sessions };
+    },
+
+    revoke: async (sessionId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      if (sessionId === getCurrentMockSessionId()) {
+        throw new Error('Use Logout to sign out of this device');
+      }
+      
+      const sessions = getMockSessions();
+      const session = sessions.find(s => s.id === sessionId && s.user_id === user.id && !s.revoked_at);
+      if (!session) {
+        throw new Error('That session has already been signed out');
+      }
+      session.revoked_at = new Date().toISOString();
+      setMockSessions(sessions);
+      
+      return { message: 'Session signed out' };
+    },
+
+    revokeOthers: async () => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const count = endMockSessions(user.id, getCurrentMockSessionId());
+      console.log(`🔒 Signed out ${count} other session(s) for ${user.email}`);
+      
+      return {
+        message: count === 0 ? 'No other sessions were signed in' : `Signed out ${count} other session${count === 1 ? '' : 's'}`,
+        count
+      };
+    }
+  },
+
+  classes: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const classes = getMockClasses();
+      
+      // For regular users, only return classes that are available for booking
+      const availableClasses = classes.filter(isClassAvailableForBooking);
+      
+      return {
+        classes: availableClasses.map(withClassDetails)
+      };
+    },
+
+    getAllForAdmin: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const classes = getMockClasses();
+      
+      return {
+        classes: classes.map(withClassDetails) // Return all classes for admin management
+      };
+    },
+
+    getConflicts: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      return { conflicts: findScheduleConflicts() };
+    },
+
+    getById: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      const classes = getMockClasses();
+      const gymClass = classes.find(c => c.id === id);
+      
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      return { class: withClassDetails(gymClass) };
+    },
+
+    create: async (classData: Omit<GymClass, 'id' | 'category' | 'created_at' | 'updated_at'>) => {
+      await new Promise(resolve => setTimeout(resolve, 800));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const instructor = getMockInstructors().find(i => i.id === classData.instructor_id);
+      if (!instructor || !instructor.is_active) {
+        throw new Error('The selected instructor does not exist');
+      }
+      
+      validateClassRoom(classData.room_id, classData.max_capacity);
+      validateClassType(classData.class_type_id);
+      validateClassPricing(classData.concession_cost, classData.drop_in_price);
+      
+      const classes = getMockClasses();
+      const newClass: GymClass = {
+        ...classData,
+        concession_cost: classData.concession_cost ?? 1,
+        drop_in_price: classData.drop_in_price || null,
+        instructor: instructor.name,
+        category: getTimeOfDay(classData.time),
+        id: Date.now(),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+      
+      classes.push(newClass);
+      setMockClasses(classes);
+      
+      console.log(`✅ Class created successfully:`, newClass);
+      
+      return {
+        class: withClassDetails(newClass),
+        conflicts: findScheduleConflicts(newClass.id),
+        message: 'Class created successfully'
+      };
+    },
+
+    update: async (id: number, classData: Partial<GymClass>) => {
+      await new Promise(resolve => setTimeout(resolve, 600));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const classes = getMockClasses();
+      const classIndex = classes.findIndex(c => c.id === id);
+      
+      if (classIndex === -1) {
+        throw new Error('Class not found');
+      }
+      
+      // A class can keep an instructor who has since been deactivated, but can't be moved to one
+      const instructor = getMockInstructors().find(i => i.id === (classData.instructor_id ?? classes[classIndex].instructor_id));
+      if (!instructor || (!instructor.is_active && instructor.id !== classes[classIndex].instructor_id)) {
+        throw new Error('The selected instructor does not exist');
+      }
+      
+      validateClassRoom(
+        classData.room_id,
+        classData.max_capacity ?? classes[classIndex].max_capacity,
+        classes[classIndex].room_id
+      );
+      validateClassType(classData.class_type_id, classes[classIndex].class_type_id);
+      validateClassPricing(classData.concession_cost, classData.drop_in_price);
+      
+      const updatedClass = {
+        ...classes[classIndex],
+        ...classData,
+        ...('drop_in_price' in classData && { drop_in_price: classData.drop_in_price || null }),
+        instructor: instructor.name,
+        category: getTimeOfDay(classData.time ?? classes[classIndex].time),
+        updated_at: new Date().toISOString()
+      };
+      
+      classes[classIndex] = updatedClass;
+      setMockClasses(classes);
+      
+      console.log(`✅ Class updated successfully:`, updatedClass);
+      
+      return {
+        class: withClassDetails(updatedClass),
+        conflicts: findScheduleConflicts(updatedClass.id),
+        message: 'Class updated successfully'
+      };
+    },
+
+    delete: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const classes = getMockClasses();
+      const classIndex = classes.findIndex(c => c.id === id);
+      
+      if (classIndex === -1) {
+        throw new Error('Class not found');
+      }
+      
+      // Check if there are active bookings for this class
+      const bookings = getMockBookings();
+      const hasActiveBookings = bookings.some(b => 
+        b.class_id === id && 
+        b.status === 'confirmed' && 
+        new Date(b.booking_date) > new Date()
+      );
+      
+      if (hasActiveBookings) {
+        throw new Error('Cannot delete class with active future bookings');
+      }
+      
+      classes.splice(classIndex, 1);
+      setMockClasses(classes);
+      
+      console.log(`✅ Class deleted successfully`);
+      
+      return {
+        message: 'Class deleted successfully'
+      };
+    },
+
+    getBookings: async (id: number, date: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      const bookings = getMockBookings();
+      const classBookings = bookings.filter(
+        b => b.class_id === id && b.booking_date === date && b.status === 'confirmed'
+      );
+      const gymClass = getMockClasses().find(c => c.id === id);
+      
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      return { bookings: classBookings, occurrence: getOccurrence(gymClass, date) };
+    },
+
+    getRoster: async (id: number, date: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!canTeachClass(user, id, date)) {
+        throw new Error('You can only view rosters for classes you teach');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === id);
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      const users = getMockUsers();
+      const roster = getMockBookings()
+        .filter(b => b.class_id === id && b.booking_date === date && ['confirmed', 'completed', 'no-show'].includes(b.status))
+        .map(b => {
+          const member = users.find(u => u.id === b.user_id);
+          return {
+            id: b.id,
+            user_id: b.user_id,
+            status: b.status,
+            booking_time: b.booking_time,
+            no_show_penalty: b.no_show_penalty || 0,
+            attendance_marked_at: b.attendance_marked_at ?? null,
+            user_name: member?.name || 'Unknown member',
+            user_email: member?.email || '',
+            marked_by_name: users.find(u => u.id === b.attendance_marked_by)?.name ?? null
+          };
+        })
+        .sort((a, b) => a.user_name.localeCompare(b.user_name));
+      
+      return { roster, occurrence: getOccurrence(gymClass, date) };
+    },
+
+    getOccurrences: async (from: string, to: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      let classes = getMockClasses();
+      if (!user || user.role !== 'admin') {
+        classes = classes.filter(isClassAvailableForBooking);
+      }
+      
+      return { occurrences: listOccurrences(classes, from, to) };
+    },
+
+    getClassOccurrences: async (id: number, from: string, to: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const gymClass = getMockClasses().find(c => c.id === id);
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      const bookings = getMockBookings();
+      const occurrences = listOccurrences([gymClass], from, to).map(o => ({
+        ...o,
+        booked_count: bookings.filter(
+          b => b.class_id === id && b.booking_date === o.occurrence_date && ['confirmed', 'completed', 'no-show'].includes(b.status)
+        ).length
+      }));
+      
+      return { occurrences };
+    },
+
+    updateOccurrence: async (id: number, date: string, overrides: { time?: string | null; max_capacity?: number | null }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === id);
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      if (!isClassScheduledOnDate(gymClass, date)) {
+        throw new Error('This class does not run on the selected date');
+      }
+      
+      const bookedCount = getMockBookings().filter(
+        b => b.class_id === id && b.booking_date === date && b.status === 'confirmed'
+      ).length;
+      if (overrides.max_capacity && overrides.max_capacity < bookedCount) {
+        throw new Error(`${bookedCount} member(s) are already booked for this date`);
+      }
+      
+      const room = getMockRooms().find(r => r.id === gymClass.room_id);
+      if (room && overrides.max_capacity && overrides.max_capacity > room.capacity) {
+        throw new Error(`${room.name} holds ${room.capacity} people. Lower the class capacity or choose a bigger room.`);
+      }
+      
+      saveOccurrenceOverride(id, date, {
+        time: overrides.time || null,
+        max_capacity: overrides.max_capacity || null
+      });
+      
+      console.log(`✅ Class ${id} session on ${date} updated`);
+      
+      return {
+        occurrence: getOccurrence(gymClass, date),
+        message: 'Class session updated successfully'
+      };
+    },
+
+    cancelOccurrence: async (id: number, date: string, reason?: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === id);
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      const occurrence = getOccurrence(gymClass, date);
+      if (!occurrence.is_scheduled) {
+        throw new Error('This class does not run on the selected date');
+      }
+      if (occurrence.is_cancelled) {
+        throw new Error('This class session has already been cancelled');
+      }
+      
+      saveOccurrenceOverride(id, date, { is_cancelled: true, cancellation_reason: reason || null });
+      
+      // Cancel every confirmed booking for the date - members are never penalised for a gym cancellation
+      const bookings = getMockBookings();
+      const affected = bookings.filter(b => b.class_id === id && b.booking_date === date && b.status === 'confirmed');
+      affected.forEach(b => {
+        b.status = 'cancelled';
+        b.cancellation_time = new Date().toISOString();
+        b.is_late_cancellation = false;
+      });
+      setMockBookings(bookings);
+      
+      const refunded = affected.filter(b => b.used_concession);
+      refunded.forEach(b => {
+        recordConcessionChange(getChargedUserId(b), b.concessions_charged ?? 1, 'refund', {
+          actorId: user.id,
+          bookingId: b.id,
+          note: reason ? `Class cancelled by the gym: ${reason}` : 'Class cancelled by the gym'
+        });
+      });
+      const refundedConcessions = refunded.reduce((total, b) => total + (b.concessions_charged ?? 1), 0);
+      
+      // Drop-in members who haven't paid yet no longer owe anything
+      cancelDropInPayments(affected.map(b => b.id));
+      
+      const waitlist = getMockWaitlist();
+      waitlist.forEach(w => {
+        if (w.class_id === id && w.booking_date === date && w.status === 'waiting') {
+          w.status = 'cancelled';
+        }
+      });
+      setMockWaitlist(waitlist);
+      
+      affected.forEach(b => notifyMockClassCancelled(b, reason || null));
+      
+      console.log(`🚫 Class ${id} cancelled on ${date}: ${affected.length} booking(s) cancelled, ${refundedConcessions} concession(s) refunded`);
+      
+      return {
+        occurrence: getOccurrence(gymClass, date),
+        cancelledBookings: affected.length,
+        refundedConcessions,
+        message: `Class session cancelled. ${affected.length} booking(s) cancelled and ${refundedConcessions} concession(s) refunded.`
+      };
+    },
+
+    restoreOccurrence: async (id: number, date: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === id);
+      if (!gymClass || !getOccurrence(gymClass, date).is_cancelled) {
+        throw new Error('This class session is not cancelled');
+      }
+      
+      saveOccurrenceOverride(id, date, { is_cancelled: false, cancellation_reason: null });
+      
+      return {
+        occurrence: getOccurrence(gymClass, date),
+        message: 'Class session reinstated. Members will need to book again.'
+      };
+    },
+
+    assignSubstitute: async (id: number, dates: string[], substituteInstructorId: number, reason?: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === id);
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      const substitute = getMockInstructors().find(i => i.id === substituteInstructorId);
+      if (!substitute) {
+        throw new Error('The selected instructor does not exist');
+      }
+      if (!substitute.is_active) {
+        throw new Error('This instructor has been deactivated. Please choose another instructor.');
+      }
+      if (substitute.id === gymClass.instructor_id) {
+        throw new Error('The substitute must be a different instructor from the one who normally teaches this class');
+      }
+      
+      // Check every date before changing any, so a bad date doesn't leave the batch half applied
+      const today = new Date().toISOString().split('T')[0];
+      const uniqueDates = [...new Set(dates)].sort();
+      uniqueDates.forEach(date => {
+        const occurrence = getOccurrence(gymClass, date);
+        if (date < today) throw new Error(`Substitutes can't be assigned to past sessions (${date})`);
+        if (!occurrence.is_scheduled) throw new Error(`This class does not run on ${date}`);
+        if (occurrence.is_cancelled) throw new Error(`The session on ${date} has been cancelled`);
+      });
+      
+      const notifiedCount = uniqueDates.reduce(
+        (total, date) => total + assignMockSubstitute(gymClass, date, substitute, reason || null, user.id),
+        0
+      );
+      
+      console.log(`🔁 ${substitute.name} covering ${gymClass.name} on ${uniqueDates.join(', ')}: ${notifiedCount} member(s) notified`);
+      
+      return {
+        dates: uniqueDates,
+        notified_count: notifiedCount,
+        message: `${substitute.name} will cover ${uniqueDates.length} session(s). ${notifiedCount} booked member(s) notified.`
+      };
+    },
+
+    removeSubstitute: async (id: number, date: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === id);
+      if (!gymClass || !removeMockSubstitute(id, date)) {
+        throw new Error('No substitute is assigned to this session');
+      }
+      
+      return {
+        occurrence: getOccurrence(gymClass, date),
+        message: 'Substitute removed. The regular instructor is back on this session.'
+      };
+    }
+  },
+
+  bookings: {
+    getMyBookings: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      // There's no scheduler in demo mode, so book any standing booking dates now in the window
+      runStandingBookings(user.id);
+      
+      // Drop-in bookings show the payment the member still has to make
+      const payments = getMockPayments();
+      const userBookings = getMockBookings()
+        .filter(b => b.user_id === user.id)
+        .map(b => {
+          const payment = payments
+            .filter(p => p.booking_id === b.id)
+            .sort((x, y) => y.created_at.localeCompare(x.created_at))[0];
+          return {
+            ...b,
+            concessions_charged: b.concessions_charged ?? (b.used_concession ? 1 : 0),
+            payment_id: payment?.id ?? null,
+            payment_amount: payment?.amount ?? null,
+            payment_reference: payment?.reference ?? null,
+            payment_status: payment?.status ?? null
+          };
+        });
+      
+      return { bookings: userBookings };
+    },
+
+    getHouseholdBookings: async () => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const users = getMockUsers();
+      const classes = getMockClasses();
+      const bookings = getMockBookings()
+        .filter(b => isMockHouseholdPayerFor(user.id, b.user_id))
+        .map(b => {
+          const gymClass = classes.find(c => c.id === b.class_id);
+          const occurrence = gymClass ? getOccurrence(gymClass, b.booking_date) : null;
+          return {
+            ...b,
+            user_name: users.find(u => u.id === b.user_id)?.name ?? '',
+            class_name: gymClass?.name ?? '',
+            class_time: occurrence?.time ?? gymClass?.time ?? '',
+            instructor: occurrence?.instructor ?? gymClass?.instructor ?? '',
+            duration: gymClass?.duration ?? 0
+          };
+        })
+        .sort((a, b) => b.booking_date.localeCompare(a.booking_date) || b.class_time.localeCompare(a.class_time));
+      
+      return { bookings };
+    },
+
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const bookings = getMockBookings();
+      return { bookings };
+    },
+
+    create: async (classId: number, bookingDate: string, paymentOption: 'concessions' | 'drop_in' = 'concessions') => {
+      await new Promise(resolve => setTimeout(resolve, 800));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+
+      // Dependants book against their household payer's balance
+      const { holder: balanceHolder, household } = getMockBalanceHolder(user.id);
+      if (!balanceHolder) {
+        throw new Error('Unauthorized');
+      }
+      const isShared = balanceHolder.id !== user.id;
+
+      console.log(`🎯 Creating booking for user ${user.id}, class ${classId}, date ${bookingDate}`);
+      console.log(`${isShared ? `Household balance (${balanceHolder.name})` : 'User current concessions'}: ${balanceHolder.concessions}`);
+      
+      const policy = getClassPolicy(classId);
+      const daysAhead = Math.ceil((new Date(bookingDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+      if (daysAhead > policy.booking_window_days) {
+        throw new Error(`You can only book this class up to ${policy.booking_window_days} days in advance`);
+      }
+      
+      // Check if class is available for booking
+      const classes = getMockClasses();
+      const gymClass = classes.find(c => c.id === classId);
+      if (!gymClass || !isClassAvailableForBooking(gymClass)) {
+        throw new Error('This class is not currently available for booking');
+      }
+      
+      const dropInPrice = gymClass.drop_in_price ?? null;
+      const isDropIn = paymentOption === 'drop_in';
+      if (isDropIn && dropInPrice === null) {
+        throw new Error('This class can only be booked with concessions');
+      }
+      
+      // Check the class actually runs on the selected date
+      const occurrence = getOccurrence(gymClass, bookingDate);
+      if (!occurrence.is_scheduled) {
+        throw new Error('This class does not run on the selected date');
+      }
+      if (occurrence.is_cancelled) {
+        throw new Error('This class has been cancelled for the selected date');
+      }
+      
+      // A membership that covers the session books it without concessions. Otherwise allow negative
+      // concessions down to the class's credit limit; drop-ins are paid for separately.
+      const cover = isDropIn ? null : getMockMembershipCover(user.id, bookingDate, occurrence.time);
+      const usesConcessions = !isDropIn && !cover;
+      const cost = usesConcessions ? gymClass.concession_cost ?? 1 : 0;
+      if (usesConcessions && balanceHolder.concessions - cost < -policy.credit_limit) {
+        throw new Error(cost > 1
+          ? `This class costs ${cost} concessions, which would take you past your credit limit. Please make a payment${dropInPrice !== null ? ' or book as a drop-in' : ''}.`
+          : 'You have reached the maximum credit limit. Please make a payment to continue booking classes.');
+      }
+      
+      // Check if already booked
+      const bookings = getMockBookings();
+      const existingBooking = bookings.find(
+        b => b.user_id === user.id && 
+             b.class_id === classId && 
+             b.booking_date === bookingDate && 
+             b.status === 'confirmed'
+      );
+      
+      if (existingBooking) {
+        throw new Error('You have already booked this class');
+      }
+
+      // Check class capacity
+      const confirmedCount = bookings.filter(
+        b => b.class_id === classId && b.booking_date === bookingDate && b.status === 'confirmed'
+      ).length;
+      
+      if (confirmedCount >= occurrence.max_capacity) {
+        throw new Error('This class is fully booked for the selected date');
+      }
+      
+      // Create new booking
+      const newBooking: Booking = {
+        id: Date.now(),
+        user_id: user.id,
+        class_id: classId,
+        booking_date: bookingDate,
+        status: 'confirmed',
+        used_concession: usesConcessions,
+        concessions_charged: cost,
+        booking_time: new Date().toISOString(),
+        is_late_cancellation: false,
+        membership_id: cover ? cover.membership.id : null,
+        charged_user_id: isShared ? balanceHolder.id : null
+      };
+      
+      // Add booking to storage
+      bookings.push(newBooking);
+      setMockBookings(bookings);
+      
+      // A drop-in waits on a bank transfer; otherwise reduce user concessions (can go negative)
+      const payment = isDropIn ? createDropInPayment(newBooking, gymClass) : null;
+      if (usesConcessions) {
+        recordConcessionChange(balanceHolder.id, -cost, 'booking', {
+          actorId: user.id,
+          bookingId: newBooking.id,
+          note: isShared ? `Booked by ${user.name}` : null
+        });
+      }
+      
+      // Booking directly takes the member off any waitlist for the same class and date
+      const waitlist = getMockWaitlist();
+      waitlist.forEach(w => {
+        if (w.user_id === user.id && w.class_id === classId && w.booking_date === bookingDate && w.status === 'waiting') {
+          w.status = 'cancelled';
+        }
+      });
+      setMockWaitlist(waitlist);
+      
+      notifyMockBookingConfirmed(newBooking);
+      
+      if (payment) {
+        console.log(`✅ Drop-in booking created, awaiting payment ${payment.reference}`);
+        return {
+          booking: newBooking,
+          payment,
+          message: `Drop-in booked. Please pay $${payment.amount.toFixed(2)} using reference ${payment.reference}.`
+        };
+      }
+      
+      if (cover) {
+        console.log(`✅ Booking created with membership ${cover.membership.id}`);
+        return {
+          booking: newBooking,
+          message: `Booking created with your ${cover.plan.name} membership`
+        };
+      }
+      
+      const balanceAfter = balanceHolder.concessions - cost;
+      const isNegative = balanceAfter < 0;
+      console.log(`✅ Booking created successfully! New concession count: ${balanceAfter}${isNegative ? ' (using credit)' : ''}`);
+      
+      let message;
+      if (isShared) {
+        message = isNegative
+          ? `Booking created using credit on ${balanceHolder.name}'s household balance. Please ask them to make a payment soon.`
+          : `Booking created using ${balanceHolder.name}'s household balance`;
+      } else {
+        message = isNegative
+          ? 'Booking created using credit. Please make a payment soon to avoid booking restrictions.'
+          : 'Booking created successfully';
+      }
+      
+      return {
+        booking: newBooking,
+        message,
+        charged_to: {
+          user_id: balanceHolder.id,
+          name: balanceHolder.name,
+          household_name: household?.name ?? null,
+          is_shared: isShared,
+          concessions: balanceAfter
+        }
+      };
+    },
+
+    cancel: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      // Members cancel their own bookings; a household payer can also cancel their dependants'
+      const booking = getMockBookings().find(
+        b => b.id === id && (b.user_id === user.id || isMockHouseholdPayerFor(user.id, b.user_id))
+      );
+      
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      
+      const { isLateCancellation, concessionRefunded, paymentCancelled } = applyCancellation(booking, user.id);
+      const charged = booking.concessions_charged ?? 1;
+      
+      let message;
+      if (booking.membership_id) {
+        message = isLateCancellation
+          ? 'Late cancellation: The class still counts as used on your membership'
+          : 'Booking cancelled successfully';
+      } else if (!booking.used_concession) {
+        message = isLateCancellation
+          ? 'Late cancellation: The drop-in fee is still payable'
+          : 'Booking cancelled successfully. You no longer need to pay for this drop-in.';
+      } else if (booking.charged_user_id) {
+        message = isLateCancellation
+          ? `Late cancellation: The household balance has been charged ${charged === 1 ? 'a concession' : `${charged} concessions`}`
+          : `Booking cancelled successfully. ${charged === 1 ? 'The concession has' : `${charged} concessions have`} been refunded to the household balance.`;
+      } else {
+        message = isLateCancellation
+          ? `Late cancellation: You have been charged ${charged === 1 ? 'a concession' : `${charged} concessions`}`
+          : `Booking cancelled successfully. Your ${charged === 1 ? 'concession has' : `${charged} concessions have`} been refunded.`;
+      }
+      
+      return {
+        success: true,
+        isLateCancellation,
+        concessionRefunded,
+        paymentCancelled,
+        message
+      };
+    },
+
+    completeClass: async (classId: number, bookingDate: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!canTeachClass(admin, classId, bookingDate)) {
+        throw new Error('You can only complete classes you teach');
+      }
+      
+      const remaining = getMockBookings().filter(
+        b => b.class_id === classId && b.booking_date === bookingDate && b.status === 'confirmed'
+      );
+      
+      // Anyone not already marked on the roster is counted as attended
+      remaining.forEach(b => applyAttendance(b, 'attended', admin ? admin.id : null));
+      
+      return {
+        message: `Class marked as completed for ${remaining.length} booking(s)`,
+        updated_bookings: remaining.length
+      };
+    },
+
+    undoCompleteClass: async (classId: number, bookingDate: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      const marked = getMockBookings().filter(
+        b => b.class_id === classId && b.booking_date === bookingDate && (b.status === 'completed' || b.status === 'no-show')
+      );
+      
+      // Clear each mark individually so no-show penalties are refunded
+      marked.forEach(b => applyAttendance(b, 'pending', admin ? admin.id : null));
+      
+      return {
+        message: `Class completion undone for ${marked.length} booking(s)`,
+        updated_bookings: marked.length
+      };
+    },
+
+    markAttendance: async (id: number, attendance: 'attended' | 'no-show' | 'pending') => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin) {
+        throw new Error('Unauthorized');
+      }
+      
+      const booking = getMockBookings().find(b => b.id === id);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      
+      if (!canTeachClass(admin, booking.class_id, booking.booking_date)) {
+        throw new Error('You can only mark attendance for classes you teach');
+      }
+      
+      if (!['confirmed', 'completed', 'no-show'].includes(booking.status)) {
+        throw new Error('Attendance can only be marked for bookings that were not cancelled');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === booking.class_id);
+      const classTime = gymClass ? getOccurrence(gymClass, booking.booking_date).time : '00:00';
+      if (new Date(`${booking.booking_date}T${classTime}:00`).getTime() > Date.now()) {
+        throw new Error('Attendance can be marked once the class has started');
+      }
+      
+      if (booking.status === ATTENDANCE_STATUSES[attendance]) {
+        return { booking, message: 'Attendance already recorded' };
+      }
+      
+      const updatedBooking = applyAttendance(booking, attendance, admin.id);
+      console.log(`🧾 Booking ${id} marked ${attendance}`);
+      
+      return {
+        booking: updatedBooking,
+        message: attendance === 'no-show' && (updatedBooking.no_show_penalty || 0) > 0
+          ? `Marked as no-show. ${updatedBooking.no_show_penalty} concession(s) charged as a penalty.`
+          : 'Attendance updated successfully'
+      };
+    },
+
+    getCheckInCode: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      const booking = getMockBookings().find(b => b.id === id && b.user_id === user?.id);
+      
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      
+      if (booking.status !== 'confirmed') {
+        throw new Error(booking.status === 'completed' ? 'You are already checked in to this class' : 'Only confirmed bookings can be checked in');
+      }
+      
+      if (booking.booking_date !== new Date().toISOString().split('T')[0]) {
+        throw new Error('Check-in codes are available on the day of the class');
+      }
+      
+      // Demo mode has no signing key, so the code just carries the booking and expiry
+      const expiresAt = Date.now() + CHECK_IN_TOKEN_TTL_MS;
+      return {
+        token: `mock-checkin-${booking.id}-${expiresAt}`,
+        expires_at: new Date(expiresAt).toISOString()
+      };
+    },
+
+    getKioskSessions: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const today = new Date().toISOString().split('T')[0];
+      const bookings = getMockBookings().filter(b => b.booking_date === today);
+      const sessions = listOccurrences(getMockClasses(), today, today)
+        .filter(o => !o.is_cancelled)
+        .sort((a, b) => a.time.localeCompare(b.time))
+        .map(o => ({
+          ...o,
+          booked_count: bookings.filter(b => b.class_id === o.class_id && ['confirmed', 'completed', 'no-show'].includes(b.status)).length,
+          checked_in_count: bookings.filter(b => b.class_id === o.class_id && b.status === 'completed').length,
+          check_in_open: isCheckInOpen(today, o.time)
+        }));
+      
+      return { date: today, check_in_opens_minutes: CHECK_IN_OPENS_MINUTES, sessions };
+    },
+
+    checkIn: async (credentials: { token: string } | { email: string; class_id?: number }) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const today = new Date().toISOString().split('T')[0];
+      const users = getMockUsers();
+      let booking: Booking | undefined;
+      
+      if ('token' in credentials) {
+        const match = credentials.token.match(/^mock-checkin-(\d+)-(\d+)$/);
+        if (!match) {
+          throw new Error('This check-in code is not valid');
+        }
+        if (parseInt(match[2]) < Date.now()) {
+          throw new Error('This check-in code has expired. Please refresh it in the app and try again.');
+        }
+        booking = getMockBookings().find(b => b.id === parseInt(match[1]));
+      } else {
+        const member = users.find(u => u.email.toLowerCase() === credentials.email.trim().toLowerCase());
+        const matches = getMockBookings().filter(b =>
+          b.user_id === member?.id && b.booking_date === today &&
+          ['confirmed', 'completed', 'no-show'].includes(b.status) &&
+          (!credentials.class_id || b.class_id === credentials.class_id)
+        );
+        if (matches.length > 1) {
+          throw new Error('You have more than one class today - please choose your class first');
+        }
+        booking = matches[0];
+      }
+      
+      if (!booking || booking.booking_date !== today) {
+        throw new Error("We couldn't find a booking for today. Please see the front desk.");
+      }
+      
+      if (!['confirmed', 'completed', 'no-show'].includes(booking.status)) {
+        throw new Error('This booking was cancelled. Please see the front desk.');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === booking!.class_id);
+      const occurrence = gymClass ? getOccurrence(gymClass, today) : null;
+      if (!occurrence || occurrence.is_cancelled) {
+        throw new Error('This class has been cancelled today');
+      }
+      
+      if (!isCheckInOpen(today, occurrence.time)) {
+        throw new Error(`Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before ${occurrence.name} starts at ${occurrence.time}`);
+      }
+      
+      const memberName = users.find(u => u.id === booking!.user_id)?.name || 'Member';
+      
+      if (booking.status === 'completed') {
+        return {
+          message: `${memberName} is already checked in to ${occurrence.name}`,
+          already_checked_in: true,
+          member_name: memberName,
+          class_name: occurrence.name,
+          booking
+        };
+      }
+      
+      const updatedBooking = applyAttendance(booking, 'attended', admin.id);
+      console.log(`📲 ${memberName} checked in to ${occurrence.name}`);
+      
+      return {
+        message: `Welcome, ${memberName}! You're checked in to ${occurrence.name}.`,
+        already_checked_in: false,
+        member_name: memberName,
+        class_name: occurrence.name,
+        booking: updatedBooking
+      };
+    },
+
+    getMyWaitlist: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const classes = getMockClasses();
+      const waitlist = getMockWaitlist()
+        .filter(w => w.user_id === user.id &&
+          (w.status === 'waiting' || (w.status === 'promoted' && !w.acknowledged_at)))
+        .map(w => {
+          const gymClass = classes.find(c => c.id === w.class_id);
+          return {
+            ...w,
+            class_name: gymClass?.name,
+            class_time: gymClass?.time,
+            instructor: gymClass?.instructor,
+            position: w.status === 'waiting' ? getWaitlistPosition(w) : null
+          };
+        });
+      
+      return { waitlist };
+    },
+
+    joinWaitlist: async (classId: number, bookingDate: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === classId);
+      if (!gymClass || !isClassAvailableForBooking(gymClass)) {
+        throw new Error('This class is not currently available for booking');
+      }
+      
+      const occurrence = getOccurrence(gymClass, bookingDate);
+      if (!occurrence.is_scheduled || occurrence.is_cancelled) {
+        throw new Error('This class does not run on the selected date');
+      }
+      
+      const bookings = getMockBookings();
+      if (bookings.some(b => b.user_id === user.id && b.class_id === classId && b.booking_date === bookingDate && b.status === 'confirmed')) {
+        throw new Error('You have already booked this class');
+      }
+      
+      const confirmedCount = bookings.filter(
+        b => b.class_id === classId && b.booking_date === bookingDate && b.status === 'confirmed'
+      ).length;
+      if (confirmedCount < occurrence.max_capacity) {
+        throw new Error('Spots are still available - book the class directly');
+      }
+      
+      const waitlist = getMockWaitlist();
+      if (waitlist.some(w => w.user_id === user.id && w.class_id === classId && w.booking_date === bookingDate && w.status === 'waiting')) {
+        throw new Error('You are already on the waitlist for this class');
+      }
+      
+      const newEntry: WaitlistEntry = {
+        id: Date.now(),
+        user_id: user.id,
+        class_id: classId,
+        booking_date: bookingDate,
+        status: 'waiting',
+        created_at: new Date().toISOString()
+      };
+      
+      waitlist.push(newEntry);
+      setMockWaitlist(waitlist);
+      
+      const position = getWaitlistPosition(newEntry);
+      console.log(`📋 User ${user.id} joined the waitlist for class ${classId} on ${bookingDate} at position ${position}`);
+      
+      return {
+        entry: { ...newEntry, position },
+        message: `You are number ${position} on the waitlist`
+      };
+    },
+
+    leaveWaitlist: async (entryId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const waitlist = getMockWaitlist();
+      const entry = waitlist.find(w => w.id === entryId && (w.user_id === user.id || user.role === 'admin'));
+      
+      if (!entry) {
+        throw new Error('Waitlist entry not found');
+      }
+      
+      if (entry.status !== 'waiting') {
+        throw new Error('This waitlist entry is no longer active');
+      }
+      
+      entry.status = 'cancelled';
+      setMockWaitlist(waitlist);
+      
+      return {
+        message: 'You have left the waitlist'
+      };
+    },
+
+    acknowledgeWaitlistPromotion: async (entryId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const waitlist = getMockWaitlist();
+      const entry = waitlist.find(w => w.id === entryId && w.user_id === user.id && w.status === 'promoted');
+      
+      if (!entry) {
+        throw new Error('No promotion found for this waitlist entry');
+      }
+      
+      entry.acknowledged_at = new Date().toISOString();
+      setMockWaitlist(waitlist);
+      
+      return {
+        entry,
+        message: 'Promotion acknowledged'
+      };
+    },
+
+    getMySubstitutionNotices: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const today = new Date().toISOString().split('T')[0];
+      const substitutions = getMockSubstitutions();
+      const classes = getMockClasses();
+      const instructors = getMockInstructors();
+      const bookings = getMockBookings();
+      
+      const notices = getMockSubstitutionNotices()
+        .filter(n => n.user_id === user.id && !n.acknowledged_at)
+        .map(n => ({ notice: n, substitution: substitutions.find(s => s.id === n.substitution_id) }))
+        .filter(({ substitution }) => substitution && substitution.status === 'active' && substitution.occurrence_date >= today &&
+          bookings.some(b => b.user_id === user.id && b.class_id === substitution.class_id &&
+            b.booking_date === substitution.occurrence_date && b.status === 'confirmed'))
+        .map(({ notice, substitution }) => {
+          const gymClass = classes.find(c => c.id === substitution!.class_id);
+          return {
+            id: notice.id,
+            created_at: notice.created_at,
+            class_id: substitution!.class_id,
+            booking_date: substitution!.occurrence_date,
+            reason: substitution!.reason,
+            class_name: gymClass?.name,
+            class_time: gymClass ? getOccurrence(gymClass, substitution!.occurrence_date).time : undefined,
+            substitute_name: instructors.find(i => i.id === substitution!.substitute_instructor_id)?.name ?? null,
+            original_instructor_name: instructors.find(i => i.id === substitution!.original_instructor_id)?.name ?? null
+          };
+        })
+        .sort((a, b) => a.booking_date.localeCompare(b.booking_date));
+      
+      return { substitutions: notices };
+    },
+
+    acknowledgeSubstitutionNotice: async (noticeId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const notices = getMockSubstitutionNotices();
+      const notice = notices.find(n => n.id === noticeId && n.user_id === user.id);
+      
+      if (!notice) {
+        throw new Error('No instructor change notice found');
+      }
+      
+      notice.acknowledged_at = new Date().toISOString();
+      setMockSubstitutionNotices(notices);
+      
+      return {
+        notice,
+        message: 'Notice acknowledged'
+      };
+    },
+
+    getStandingBookings: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const classes = getMockClasses();
+      const bookings = getMockBookings();
+      const today = new Date().toISOString().split('T')[0];
+      const historyStart = new Date();
+      historyStart.setDate(historyStart.getDate() - SKIP_HISTORY_DAYS);
+      const skipsFrom = historyStart.toISOString().split('T')[0];
+      
+      const standingBookings = getMockStandingBookings()
+        .filter(s => s.user_id === user.id && s.status === 'active')
+        .map(standing => {
+          const gymClass = classes.find(c => c.id === standing.class_id);
+          return {
+            ...standing,
+            class_name: gymClass?.name,
+            class_time: gymClass?.time,
+            days: gymClass?.days || [],
+            instructor: gymClass?.instructor,
+            duration: gymClass?.duration,
+            upcoming_count: bookings.filter(
+              b => b.standing_booking_id === standing.id && b.status === 'confirmed' && b.booking_date >= today
+            ).length,
+            skipped_dates: getMockStandingSkips()
+              .filter(skip => skip.standing_booking_id === standing.id && skip.skip_date >= skipsFrom)
+              .sort((a, b) => a.skip_date.localeCompare(b.skip_date))
+              .map(skip => ({ date: skip.skip_date, reason: skip.reason }))
+          };
+        });
+      
+      return { standing_bookings: standingBookings };
+    },
+
+    createStandingBooking: async (classId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 800));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === classId);
+      if (!gymClass) {
+        throw new Error('The selected class does not exist');
+      }
+      if (gymClass.status === 'draft') {
+        throw new Error('This class is not currently available for booking');
+      }
+      
+      const standingBookings = getMockStandingBookings();
+      if (standingBookings.some(s => s.user_id === user.id && s.class_id === classId && s.status === 'active')) {
+        throw new Error('You already have a standing booking for this class');
+      }
+      
+      const standing: StandingBooking = {
+        id: Math.max(0, ...standingBookings.map(s => s.id)) + 1,
+        user_id: user.id,
+        class_id: classId,
+        status: 'active',
+        start_date: new Date().toISOString().split('T')[0],
+        created_at: new Date().toISOString()
+      };
+      standingBookings.push(standing);
+      setMockStandingBookings(standingBookings);
+      
+      const { booked, skipped } = processStandingBooking(standing);
+      
+      return {
+        message: `Standing booking created. ${booked.length} upcoming date${booked.length === 1 ? '' : 's'} booked` +
+          (skipped.length > 0 ? `, ${skipped.length} skipped` : ''),
+        standing_booking: standing,
+        booked,
+        skipped
+      };
+    },
+
+    cancelStandingBooking: async (standingBookingId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const standingBookings = getMockStandingBookings();
+      const standing = standingBookings.find(
+        s => s.id === standingBookingId && (s.user_id === user.id || user.role === 'admin')
+      );
+      
+      if (!standing) {
+        throw new Error('Standing booking not found');
+      }
+      if (standing.status !== 'active') {
+        throw new Error('This standing booking has already been cancelled');
+      }
+      
+      standing.status = 'cancelled';
+      standing.cancelled_at = new Date().toISOString();
+      setMockStandingBookings(standingBookings);
+      
+      // Cancel the series' upcoming bookings (sessions that have started are left for attendance marking)
+      const classes = getMockClasses();
+      const upcoming = getMockBookings().filter(b => {
+        if (b.standing_booking_id !== standing.id || b.status !== 'confirmed') return false;
+        const gymClass = classes.find(c => c.id === b.class_id);
+        const time = gymClass ? getOccurrence(gymClass, b.booking_date).time : '00:00';
+        return new Date(`${b.booking_date}T${time}:00`).getTime() > Date.now();
+      });
+      
+      let lateCount = 0;
+      upcoming.forEach(booking => {
+        if (applyCancellation(booking, user.id).isLateCancellation) lateCount++;
+      });
+      
+      return {
+        message: `Standing booking cancelled. ${upcoming.length} upcoming booking${upcoming.length === 1 ? '' : 's'} cancelled` +
+          (lateCount > 0 ? ` (${lateCount} late, concession not refunded)` : ''),
+        cancelled_bookings: upcoming.length,
+        late_cancellations: lateCount
+      };
+    }
+  },
+
+  calendar: {
+    getSubscription: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+      
+      // Demo mode has no server to host the feed, so this link is illustrative only
+      const url = `${window.location.origin}/api/calendar/feed/mock-${user.id}.ics`;
+      return { url, webcal_url: url.replace(/^https?:/, 'webcal:') };
+    },
+
+    resetSubscription: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+      
+      const url = `${window.location.origin}/api/calendar/feed/mock-${user.id}-${Date.now()}.ics`;
+      return {
+        message: 'Calendar link reset. Re-subscribe with the new link.',
+        url,
+        webcal_url: url.replace(/^https?:/, 'webcal:')
+      };
+    },
+
+    downloadBooking: async (id: number): Promise<string> => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      const booking = getMockBookings().find(b => b.id === id);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      if (!user || (user.role !== 'admin' && booking.user_id !== user.id)) {
+        throw new Error('You can only export your own bookings');
+      }
+      
+      const gymClass = getMockClasses().find(c => c.id === booking.class_id);
+      if (!gymClass) {
+        throw new Error('Class not found');
+      }
+      
+      return buildBookingCalendar(booking, gymClass, getOccurrence(gymClass, booking.booking_date));
+    }
+  },
+
+  users: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const users = getMockUsers();
+      
+      return {
+        users: users.map(user => ({
+          ...user,
+          note_count: 0, // Mock note count
+          no_show_count: getMockBookings().filter(b => b.user_id === user.id && b.status === 'no-show').length
+        }))
+      };
+    },
+
+    // Alias for getAll to match expected API
+    getUsers: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const users = getMockUsers();
+      
+      return {
+        users: users.map(user => ({
+          ...user,
+          note_count: 0, // Mock note count
+          no_show_count: getMockBookings().filter(b => b.user_id === user.id && b.status === 'no-show').length
+        }))
+      };
+    },
+
+    getById: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      const users = getMockUsers();
+      const user = users.find(u => u.id === id);
+      
+      if (!user) {
+        throw new Error('User not found');
+      }
+      
+      return { user };
+    },
+
+    updateConcessions: async (id: number, concessions: number, note?: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      const users = getMockUsers();
+      const userIndex = users.findIndex(u => u.id === id);
+      
+      if (userIndex === -1) {
+        throw new Error('User not found');
+      }
+      
+      const currentConcessions = users[userIndex].concessions;
+      const entry = recordConcessionChange(id, concessions, 'admin_adjustment', {
+        actorId: admin ? admin.id : null,
+        note: note || null
+      });
+      
+      console.log(`💰 Updated user ${id} concessions: ${currentConcessions} + ${concessions} = ${entry?.balance_after}`);
+      
+      return {
+        user: getMockUsers().find(u => u.id === id),
+        message: 'Concessions updated successfully'
+      };
+    },
+
+    getLedger: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || (user.role !== 'admin' && user.id !== id)) {
+        throw new Error('You can only view your own statement');
+      }
+      expireMockConcessionPacks();
+      
+      const users = getMockUsers();
+      const bookings = getMockBookings();
+      const classes = getMockClasses();
+      const payments = getMockPayments();
+      const entries = getMockLedger()
+        .filter(e => e.user_id === id)
+        .map(e => {
+          const booking = e.booking_id ? bookings.find(b => b.id === e.booking_id) : undefined;
+          return {
+            ...e,
+            actor_name: users.find(u => u.id === e.actor_id)?.name ?? null,
+            class_name: booking ? classes.find(c => c.id === booking.class_id)?.name ?? null : null,
+            booking_date: booking ? booking.booking_date : null,
+            payment_reference: e.payment_id ? payments.find(p => p.id === e.payment_id)?.reference ?? null : null
+          };
+        })
+        .reverse();
+      
+      return {
+        entries,
+        balance: entries.reduce((sum, e) => sum + e.change, 0)
+      };
+    },
+
+    getConcessionPacks: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || (user.role !== 'admin' && user.id !== id)) {
+        throw new Error('You can only view your own concession packs');
+      }
+      expireMockConcessionPacks();
+
+      const warningDate = new Date();
+      warningDate.setDate(warningDate.getDate() + 14);
+      const warningDay = warningDate.toISOString().split('T')[0];
+
+      const packs = getMockConcessionPacks()
+        .filter(p => p.user_id === id && p.remaining > 0 && !p.expired_at)
+        .sort((a, b) => (a.expires_on ?? '9999-12-31').localeCompare(b.expires_on ?? '9999-12-31') || a.id - b.id)
+        .map(p => ({ ...p, expiring_soon: !!p.expires_on && p.expires_on < warningDay }));
+
+      return {
+        packs,
+        expiring_soon: packs.filter(p => p.expiring_soon).reduce((sum, p) => sum + p.remaining, 0)
+      };
+    },
+
+    getStats: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const bookings = getMockBookings().filter(b => b.user_id === id);
+      const today = new Date().toISOString().split('T')[0];
+      const countStatus = (status: Booking['status']) => bookings.filter(b => b.status === status).length;
+      
+      return {
+        stats: {
+          confirmed_bookings: countStatus('confirmed'),
+          completed_classes: countStatus('completed'),
+          cancelled_bookings: countStatus('cancelled'),
+          late_cancelled_bookings: countStatus('late-cancelled'),
+          no_show_count: countStatus('no-show'),
+          no_show_penalties: bookings.reduce((sum, b) => sum + (b.no_show_penalty || 0), 0),
+          upcoming_bookings: bookings.filter(b => b.status === 'confirmed' && b.booking_date > today).length,
+          concessions_used: bookings.filter(b => b.used_concession).length,
+          note_count: getMockNotes().filter(n => n.user_id === id).length
+        }
+      };
+    }
+  },
+
+  instructors: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const instructors = getMockInstructors()
+        .sort((a, b) => Number(b.is_active) - Number(a.is_active) || a.name.localeCompare(b.name));
+      
+      return { instructors: instructors.map(formatInstructor) };
+    },
+
+    create: async (input: { name: string; email: string; bio: string; is_active?: boolean; password?: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      if (input.password && !input.email) {
+        throw new Error('An email address is needed to create a portal login');
+      }
+      
+      let userId: number | null = null;
+      if (input.password) {
+        const users = getMockUsers();
+        if (users.some(u => u.email === input.email)) {
+          throw new Error('An account with this email already exists');
+        }
+        userId = Date.now();
+        users.push({ id: userId, name: input.name, email: input.email, role: 'instructor', concessions: 0, join_date: new Date().toISOString() });
+        setMockUsers(users);
+      }
+      
+      const instructors = getMockInstructors();
+      const instructor: Instructor = {
+        id: Math.max(0, ...instructors.map(i => i.id)) + 1,
+        user_id: userId,
+        name: input.name,
+        email: input.email || null,
+        bio: input.bio || null,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      instructors.push(instructor);
+      setMockInstructors(instructors);
+      
+      console.log(`🧑‍🏫 Instructor created: ${instructor.name}`);
+      
+      return {
+        instructor: formatInstructor(instructor),
+        message: 'Instructor created successfully'
+      };
+    },
+
+    update: async (id: number, input: { name: string; email: string; bio: string; is_active?: boolean; password?: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const instructors = getMockInstructors();
+      const instructor = instructors.find(i => i.id === id);
+      if (!instructor) {
+        throw new Error('Instructor not found');
+      }
+      
+      const isActive = input.is_active ?? true;
+      const users = getMockUsers();
+      if (instructor.user_id || input.password) {
+        if (!input.email) {
+          throw new Error('An email address is needed for an instructor with a portal login');
+        }
+        if (users.some(u => u.email === input.email && u.id !== instructor.user_id)) {
+          throw new Error('An account with this email already exists');
+        }
+      }
+      
+      const login = users.find(u => u.id === instructor.user_id);
+      if (login) {
+        login.name = input.name;
+        login.email = input.email;
+      } else if (input.password) {
+        instructor.user_id = Date.now();
+        users.push({ id: instructor.user_id, name: input.name, email: input.email, role: 'instructor', concessions: 0, join_date: new Date().toISOString() });
+      }
+      setMockUsers(users);
+      
+      instructor.name = input.name;
+      instructor.email = input.email || null;
+      instructor.bio = input.bio || null;
+      instructor.is_active = isActive;
+      setMockInstructors(instructors);
+      
+      // Classes keep the instructor's name for display, so renames carry through to the schedule
+      const classes = getMockClasses();
+      classes.forEach(c => {
+        if (c.instructor_id === id) c.instructor = input.name;
+      });
+      setMockClasses(classes);
+      
+      return {
+        instructor: formatInstructor(instructor),
+        message: 'Instructor updated successfully'
+      };
+    },
+
+    deactivate: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const instructors = getMockInstructors();
+      const instructor = instructors.find(i => i.id === id);
+      if (!instructor) {
+        throw new Error('Instructor not found');
+      }
+      
+      instructor.is_active = false;
+      setMockInstructors(instructors);
+      
+      const classCount = getMockClasses().filter(c => c.instructor_id === id).length;
+      
+      return {
+        message: classCount > 0
+          ? `Instructor deactivated. ${classCount} class(es) still list them - choose a new instructor for each.`
+          : 'Instructor deactivated',
+        class_count: classCount
+      };
+    },
+
+    getMySchedule: async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'instructor') {
+        throw new Error('Unauthorized: Instructor access required');
+      }
+      
+      const instructor = getMockInstructors().find(i => i.user_id === user.id && i.is_active);
+      if (!instructor) {
+        throw new Error('Your login is not linked to an instructor profile');
+      }
+      
+      const from = new Date();
+      from.setDate(from.getDate() - 7);
+      const to = new Date();
+      to.setDate(to.getDate() + 14);
+      
+      // Classes they normally teach, plus any they're covering as a substitute
+      const coveringClassIds = getMockOccurrences()
+        .filter(o => o.substitute_instructor_id === instructor.id)
+        .map(o => o.class_id);
+      const classes = getMockClasses().filter(c => c.instructor_id === instructor.id || coveringClassIds.includes(c.id));
+      const bookings = getMockBookings();
+      const sessions = listOccurrences(classes, from.toISOString().split('T')[0], to.toISOString().split('T')[0])
+        // Sessions another instructor is covering drop off the regular instructor's schedule
+        .filter(occurrence =>
+          (occurrence.substitute_instructor_id || classes.find(c => c.id === occurrence.class_id)?.instructor_id) === instructor.id)
+        .map(occurrence => {
+          const sessionBookings = bookings.filter(
+            b => b.class_id === occurrence.class_id && b.booking_date === occurrence.occurrence_date
+          );
+          return {
+            ...occurrence,
+            booked_count: sessionBookings.filter(b => ['confirmed', 'completed', 'no-show'].includes(b.status)).length,
+            attended_count: sessionBookings.filter(b => b.status === 'completed').length,
+            no_show_count: sessionBookings.filter(b => b.status === 'no-show').length,
+            has_started: new Date(`${occurrence.occurrence_date}T${occurrence.time}:00`).getTime() <= Date.now()
+          };
+        });
+      
+      return { instructor: formatInstructor(instructor), sessions };
+    },
+
+    getSubstitutions: async (id: number, from: string, to: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const instructors = getMockInstructors();
+      const instructor = instructors.find(i => i.id === id);
+      if (!instructor) {
+        throw new Error('The requested instructor does not exist');
+      }
+      
+      // Removed substitutions are left out; cancelled sessions are listed but weren't taught
+      const classes = getMockClasses();
+      const substitutions = getMockSubstitutions()
+        .filter(s => s.status === 'active' && (s.substitute_instructor_id === id || s.original_instructor_id === id) &&
+          s.occurrence_date >= from && s.occurrence_date <= to)
+        .flatMap(s => {
+          const gymClass = classes.find(c => c.id === s.class_id);
+          if (!gymClass) return [];
+          const occurrence = getOccurrence(gymClass, s.occurrence_date);
+          const role = s.substitute_instructor_id === id ? 'covered' as const : 'covered_by' as const;
+          const otherId = role === 'covered' ? s.original_instructor_id : s.substitute_instructor_id;
+          return [{
+            id: s.id,
+            class_id: s.class_id,
+            occurrence_date: s.occurrence_date,
+            reason: s.reason,
+            created_at: s.created_at,
+            class_name: gymClass.name,
+            class_time: occurrence.time,
+            duration: gymClass.duration,
+            is_cancelled: occurrence.is_cancelled,
+            role,
+            other_instructor_name: instructors.find(i => i.id === otherId)?.name ?? null
+          }];
+        })
+        .sort((a, b) => a.occurrence_date.localeCompare(b.occurrence_date) || a.class_time.localeCompare(b.class_time));
+      
+      const taught = substitutions.filter(s => !s.is_cancelled);
+      
+      return {
+        instructor: { id: instructor.id, name: instructor.name },
+        from,
+        to,
+        substitutions,
+        summary: {
+          covered_count: taught.filter(s => s.role === 'covered').length,
+          covered_by_others_count: taught.filter(s => s.role === 'covered_by').length
+        }
+      };
+    }
+  },
+
+  classTypes: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      const isAdmin = user?.role === 'admin';
+      const classes = getMockClasses();
+      
+      const classTypes = getMockClassTypes()
+        .filter(t => isAdmin || t.is_active)
+        .sort((a, b) => Number(b.is_active) - Number(a.is_active) || a.name.localeCompare(b.name))
+        .map(t => ({ ...t, class_count: classes.filter(c => c.class_type_id === t.id).length }));
+      
+      return { class_types: classTypes, icons: CLASS_TYPE_ICON_NAMES };
+    },
+
+    create: async (input: { name: string; color: string; icon: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      if (!CLASS_TYPE_ICON_NAMES.includes(input.icon)) {
+        throw new Error('Please choose one of the available icons');
+      }
+      
+      const classTypes = getMockClassTypes();
+      if (classTypes.some(t => t.name === input.name)) {
+        throw new Error('A class type with this name already exists');
+      }
+      
+      const classType: ClassType = {
+        id: Math.max(0, ...classTypes.map(t => t.id)) + 1,
+        name: input.name,
+        color: input.color,
+        icon: input.icon,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      classTypes.push(classType);
+      setMockClassTypes(classTypes);
+      
+      console.log(`🏷️ Class type created: ${classType.name}`);
+      
+      return {
+        class_type: { ...classType, class_count: 0 },
+        message: 'Class type created successfully'
+      };
+    },
+
+    update: async (id: number, input: { name: string; color: string; icon: string; is_active?: boolean }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      if (!CLASS_TYPE_ICON_NAMES.includes(input.icon)) {
+        throw new Error('Please choose one of the available icons');
+      }
+      
+      const classTypes = getMockClassTypes();
+      const classType = classTypes.find(t => t.id === id);
+      if (!classType) {
+        throw new Error('Class type not found');
+      }
+      if (classTypes.some(t => t.name === input.name && t.id !== id)) {
+        throw new Error('A class type with this name already exists');
+      }
+      
+      classType.name = input.name;
+      classType.color = input.color;
+      classType.icon = input.icon;
+      classType.is_active = input.is_active ?? true;
+      setMockClassTypes(classTypes);
+      
+      return {
+        class_type: classType,
+        message: 'Class type updated successfully'
+      };
+    },
+
+    deactivate: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const classTypes = getMockClassTypes();
+      const classType = classTypes.find(t => t.id === id);
+      if (!classType) {
+        throw new Error('Class type not found');
+      }
+      
+      classType.is_active = false;
+      setMockClassTypes(classTypes);
+      
+      const classCount = getMockClasses().filter(c => c.class_type_id === id).length;
+      
+      console.log(`🏷️ Class type retired: ${classType.name}`);
+      
+      return {
+        message: classCount > 0 ? `Class type retired. ${classCount} class(es) still use it.` : 'Class type retired',
+        class_count: classCount
+      };
+    }
+  },
+
+  locations: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      const isAdmin = user?.role === 'admin';
+      const classes = getMockClasses();
+      
+      const locations = getMockLocations()
+        .filter(l => isAdmin || l.is_active)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(location => ({
+          ...location,
+          rooms: getMockRooms()
+            .filter(r => r.location_id === location.id && (isAdmin || r.is_active))
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(room => ({ ...room, class_count: classes.filter(c => c.room_id === room.id).length }))
+        }));
+      
+      return { locations };
+    },
+
+    create: async (input: { name: string; address: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const locations = getMockLocations();
+      if (locations.some(l => l.name === input.name)) {
+        throw new Error('A location with this name already exists');
+      }
+      
+      const location: GymLocation = {
+        id: Math.max(0, ...locations.map(l => l.id)) + 1,
+        name: input.name,
+        address: input.address || null,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      locations.push(location);
+      setMockLocations(locations);
+      
+      console.log(`📍 Location created: ${location.name}`);
+      
+      return {
+        location: { ...location, rooms: [] },
+        message: 'Location created successfully'
+      };
+    },
+
+    update: async (id: number, input: { name: string; address: string; is_active?: boolean }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const locations = getMockLocations();
+      const location = locations.find(l => l.id === id);
+      if (!location) {
+        throw new Error('Location not found');
+      }
+      if (locations.some(l => l.name === input.name && l.id !== id)) {
+        throw new Error('A location with this name already exists');
+      }
+      
+      location.name = input.name;
+      location.address = input.address || null;
+      location.is_active = input.is_active ?? true;
+      setMockLocations(locations);
+      
+      return {
+        location,
+        message: 'Location updated successfully'
+      };
+    },
+
+    deactivate: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const locations = getMockLocations();
+      const location = locations.find(l => l.id === id);
+      if (!location) {
+        throw new Error('Location not found');
+      }
+      
+      location.is_active = false;
+      setMockLocations(locations);
+      
+      const roomIds = getMockRooms().filter(r => r.location_id === id).map(r => r.id);
+      const classCount = getMockClasses().filter(c => c.room_id && roomIds.includes(c.room_id)).length;
+      
+      console.log(`📍 Location closed: ${location.name}`);
+      
+      return {
+        message: classCount > 0
+          ? `Location closed. ${classCount} class(es) are still scheduled there - move them to another room.`
+          : 'Location closed',
+        class_count: classCount
+      };
+    },
+
+    createRoom: async (locationId: number, input: { name: string; capacity: number }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      if (!getMockLocations().some(l => l.id === locationId)) {
+        throw new Error('The location does not exist');
+      }
+      
+      const rooms = getMockRooms();
+      if (rooms.some(r => r.location_id === locationId && r.name === input.name)) {
+        throw new Error('This location already has a room with that name');
+      }
+      
+      const room: Room = {
+        id: Math.max(0, ...rooms.map(r => r.id)) + 1,
+        location_id: locationId,
+        name: input.name,
+        capacity: input.capacity,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      rooms.push(room);
+      setMockRooms(rooms);
+      
+      return {
+        room: { ...room, class_count: 0 },
+        message: 'Room added successfully'
+      };
+    },
+
+    updateRoom: async (roomId: number, input: { name: string; capacity: number; is_active?: boolean }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const rooms = getMockRooms();
+      const room = rooms.find(r => r.id === roomId);
+      if (!room) {
+        throw new Error('Room not found');
+      }
+      if (rooms.some(r => r.location_id === room.location_id && r.name === input.name && r.id !== roomId)) {
+        throw new Error('This location already has a room with that name');
+      }
+      
+      const largestClass = Math.max(0, ...getMockClasses()
+        .filter(c => c.room_id === roomId)
+        .map(c => c.max_capacity));
+      if (input.capacity < largestClass) {
+        throw new Error(`A class in this room takes ${largestClass} members. Lower that class's capacity first.`);
+      }
+      
+      room.name = input.name;
+      room.capacity = input.capacity;
+      room.is_active = input.is_active ?? true;
+      setMockRooms(rooms);
+      
+      return {
+        room,
+        message: 'Room updated successfully'
+      };
+    },
+
+    deactivateRoom: async (roomId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const rooms = getMockRooms();
+      const room = rooms.find(r => r.id === roomId);
+      if (!room) {
+        throw new Error('Room not found');
+      }
+      
+      room.is_active = false;
+      setMockRooms(rooms);
+      
+      const classCount = getMockClasses().filter(c => c.room_id === roomId).length;
+      
+      return {
+        message: classCount > 0
+          ? `Room closed. ${classCount} class(es) still use it - move them to another room.`
+          : 'Room closed',
+        class_count: classCount
+      };
+    }
+  },
+
+  notes: {
+    getAll: async (userId?: number, category?: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      let notes = getMockNotes();
+      
+      if (userId) {
+        notes = notes.filter(n => n.user_id === userId);
+      }
+      
+      if (category) {
+        notes = notes.filter(n => n.category === category);
+      }
+      
+      return { notes };
+    },
+
+    getUserNotes: async (userId: number, category?: string) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      let notes = getMockNotes().filter(n => n.user_id === userId);
+      
+      if (category) {
+        notes = notes.filter(n => n.category === category);
+      }
+      
+      return { notes };
+    },
+
+    create: async (userId: number, content: string, category: string) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const notes = getMockNotes();
+      const newNote: Note = {
+        id: Date.now(),
+        user_id: userId,
+        content,
+        category,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        created_by: user.id
+      };
+      
+      notes.push(newNote);
+      setMockNotes(notes);
+      
+      return {
+        note: newNote,
+        message: 'Note created successfully'
+      };
+    },
+
+    update: async (id: number, content: string, category: string) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const notes = getMockNotes();
+      const noteIndex = notes.findIndex(n => n.id === id);
+      
+      if (noteIndex === -1) {
+        throw new Error('Note not found');
+      }
+      
+      notes[noteIndex] = {
+        ...notes[noteIndex],
+        content,
+        category,
+        updated_at: new Date().toISOString()
+      };
+      
+      setMockNotes(notes);
+      
+      return {
+        note: notes[noteIndex],
+        message: 'Note updated successfully'
+      };
+    },
+
+    delete: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      
+      const notes = getMockNotes();
+      const noteIndex = notes.findIndex(n => n.id === id);
+      
+      if (noteIndex === -1) {
+        throw new Error('Note not found');
+      }
+      
+      notes.splice(noteIndex, 1);
+      setMockNotes(notes);
+      
+      return {
+        message: 'Note deleted successfully'
+      };
+    }
+  },
+
+  concessionPackages: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      const isAdmin = user?.role === 'admin';
+      const payments = getMockPayments();
+      
+      const packages = getMockConcessionPackages()
+        .filter(cp => isAdmin || cp.is_active)
+        .sort((a, b) => Number(b.is_active) - Number(a.is_active) || a.concessions - b.concessions)
+        .map(cp => ({
+          ...cp,
+          purchase_count: payments.filter(p => p.package_id === cp.id && p.status === 'confirmed').length
+        }));
+      
+      return { packages };
+    },
+
+    create: async (input: { name: string; concessions: number; price: number; validity_months?: number | null }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      validateConcessionPackage(input);
+      
+      const concessionPackages = getMockConcessionPackages();
+      if (concessionPackages.some(cp => cp.name === input.name)) {
+        throw new Error('A concession package with this name already exists');
+      }
+      
+      const concessionPackage: ConcessionPackage = {
+        id: Math.max(0, ...concessionPackages.map(cp => cp.id)) + 1,
+        name: input.name,
+        concessions: input.concessions,
+        price: input.price,
+        validity_months: input.validity_months ?? null,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      concessionPackages.push(concessionPackage);
+      setMockConcessionPackages(concessionPackages);
+      
+      console.log(`🎟️ Concession package created: ${concessionPackage.name}`);
+      
+      return {
+        package: { ...concessionPackage, purchase_count: 0 },
+        message: 'Concession package created successfully'
+      };
+    },
+
+    update: async (id: number, input: { name: string; concessions: number; price: number; validity_months?: number | null; is_active?: boolean }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      validateConcessionPackage(input);
+      
+      const concessionPackages = getMockConcessionPackages();
+      const concessionPackage = concessionPackages.find(cp => cp.id === id);
+      if (!concessionPackage) {
+        throw new Error('Concession package not found');
+      }
+      if (concessionPackages.some(cp => cp.name === input.name && cp.id !== id)) {
+        throw new Error('A concession package with this name already exists');
+      }
+      
+      // Pending purchases keep the price and validity they were quoted
+      concessionPackage.name = input.name;
+      concessionPackage.concessions = input.concessions;
+      concessionPackage.price = input.price;
+      concessionPackage.validity_months = input.validity_months ?? null;
+      concessionPackage.is_active = input.is_active ?? true;
+      setMockConcessionPackages(concessionPackages);
+      
+      return {
+        package: concessionPackage,
+        message: 'Concession package updated successfully'
+      };
+    },
+
+    retire: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const concessionPackages = getMockConcessionPackages();
+      const concessionPackage = concessionPackages.find(cp => cp.id === id);
+      if (!concessionPackage) {
+        throw new Error('Concession package not found');
+      }
+      
+      concessionPackage.is_active = false;
+      setMockConcessionPackages(concessionPackages);
+      
+      const pendingCount = getMockPayments().filter(p => p.package_id === id && p.status === 'pending').length;
+      
+      console.log(`🎟️ Concession package retired: ${concessionPackage.name}`);
+      
+      return {
+        message: pendingCount > 0
+          ? `Package retired. ${pendingCount} pending purchase(s) can still be confirmed.`
+          : 'Package retired',
+        pending_count: pendingCount
+      };
+    }
+  },
+
+  memberships: {
+    getPlans: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      const isAdmin = user?.role === 'admin';
+      const today = new Date().toISOString().split('T')[0];
+      const memberships = getMockMemberships();
+      
+      const plans = getMockMembershipPlans()
+        .filter(p => isAdmin || p.is_active)
+        .sort((a, b) => Number(b.is_active) - Number(a.is_active) || a.monthly_price - b.monthly_price)
+        .map(p => ({
+          ...p,
+          member_count: memberships.filter(m => m.plan_id === p.id && (!m.end_date || m.end_date >= today)).length
+        }));
+      
+      return { plans };
+    },
+
+    createPlan: async (input: { name: string; plan_type: MembershipPlanType; classes_per_week: number | null; monthly_price: number }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      validateMembershipPlan(input);
+      
+      const plans = getMockMembershipPlans();
+      if (plans.some(p => p.name === input.name)) {
+        throw new Error('A membership plan with this name already exists');
+      }
+      
+      const plan: MembershipPlan = {
+        id: Math.max(0, ...plans.map(p => p.id)) + 1,
+        name: input.name,
+        plan_type: input.plan_type,
+        classes_per_week: input.plan_type === 'weekly' ? input.classes_per_week : null,
+        monthly_price: input.monthly_price,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      plans.push(plan);
+      setMockMembershipPlans(plans);
+      
+      console.log(`🏷️ Membership plan created: ${plan.name}`);
+      
+      return {
+        plan: { ...plan, member_count: 0 },
+        message: 'Membership plan created successfully'
+      };
+    },
+
+    updatePlan: async (id: number, input: { name: string; plan_type: MembershipPlanType; classes_per_week: number | null; monthly_price: number; is_active?: boolean }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      validateMembershipPlan(input);
+      
+      const plans = getMockMembershipPlans();
+      const plan = plans.find(p => p.id === id);
+      if (!plan) {
+        throw new Error('The membership plan you are trying to update does not exist');
+      }
+      if (plans.some(p => p.name === input.name && p.id !== id)) {
+        throw new Error('A membership plan with this name already exists');
+      }
+      
+      // Changes apply to every membership on the plan from the next booking
+      plan.name = input.name;
+      plan.plan_type = input.plan_type;
+      plan.classes_per_week = input.plan_type === 'weekly' ? input.classes_per_week : null;
+      plan.monthly_price = input.monthly_price;
+      plan.is_active = input.is_active ?? true;
+      setMockMembershipPlans(plans);
+      
+      return {
+        plan,
+        message: 'Membership plan updated successfully'
+      };
+    },
+
+    retirePlan: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const plans = getMockMembershipPlans();
+      const plan = plans.find(p => p.id === id);
+      if (!plan) {
+        throw new Error('The membership plan you are trying to retire does not exist');
+      }
+      plan.is_active = false;
+      setMockMembershipPlans(plans);
+      
+      // Members already on the plan keep it until their membership ends
+      const today = new Date().toISOString().split('T')[0];
+      const memberCount = getMockMemberships().filter(m => m.plan_id === id && (!m.end_date || m.end_date >= today)).length;
+      
+      return {
+        message: memberCount > 0
+          ? `Plan retired. ${memberCount} member(s) keep it until their membership ends.`
+          : 'Plan retired',
+        member_count: memberCount
+      };
+    },
+
+    getForUser: async (userId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || (user.role !== 'admin' && user.id !== userId)) {
+        throw new Error('You can only view your own memberships');
+      }
+      
+      const memberships = getMockMemberships()
+        .filter(m => m.user_id === userId)
+        .sort((a, b) => b.start_date.localeCompare(a.start_date) || b.id - a.id)
+        .map(withMembershipDetails);
+      const current: (ReturnType<typeof withMembershipDetails> & { classes_used_this_week?: number }) | null =
+        memberships.find(m => m.status === 'active' || m.status === 'paused') || null;
+      
+      // A current weekly membership also says how many of this week's classes have been used
+      if (current && current.plan_type === 'weekly') {
+        const week = getWeekRange(new Date().toISOString().split('T')[0]);
+        current.classes_used_this_week = getMockBookings().filter(b =>
+          b.membership_id === current.id &&
+          b.booking_date >= week.from && b.booking_date <= week.to &&
+          WEEKLY_COUNTED_STATUSES.includes(b.status)
+        ).length;
+      }
+      
+      return { memberships, current };
+    },
+
+    create: async (userId: number, input: { plan_id: number; start_date: string; end_date: string | null }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const member = getMockUsers().find(u => u.id === userId && u.role === 'user');
+      if (!member) {
+        throw new Error('Memberships can only be given to members');
+      }
+      validateMembership(userId, input);
+      
+      const memberships = getMockMemberships();
+      const membership: Membership = {
+        id: Math.max(0, ...memberships.map(m => m.id)) + 1,
+        user_id: userId,
+        plan_id: input.plan_id,
+        start_date: input.start_date,
+        end_date: input.end_date || null,
+        created_by: admin.id,
+        created_at: new Date().toISOString()
+      };
+      memberships.push(membership);
+      setMockMemberships(memberships);
+      
+      console.log(`🪪 Membership ${membership.id} added for user ${userId}`);
+      
+      return {
+        membership: withMembershipDetails(membership),
+        message: 'Membership added successfully'
+      };
+    },
+
+    update: async (id: number, input: { plan_id: number; start_date: string; end_date: string | null }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const memberships = getMockMemberships();
+      const membership = memberships.find(m => m.id === id);
+      if (!membership) {
+        throw new Error('The membership you are trying to update does not exist');
+      }
+      validateMembership(membership.user_id, input, membership);
+      
+      // Bookings already made are left alone
+      membership.plan_id = input.plan_id;
+      membership.start_date = input.start_date;
+      membership.end_date = input.end_date || null;
+      setMockMemberships(memberships);
+      
+      return {
+        membership: withMembershipDetails(membership),
+        message: 'Membership updated successfully'
+      };
+    },
+
+    delete: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      // One that has covered bookings should be ended instead
+      if (getMockBookings().some(b => b.membership_id === id)) {
+        throw new Error('This membership has covered bookings. Set an end date instead of removing it.');
+      }
+      
+      const memberships = getMockMemberships();
+      if (!memberships.some(m => m.id === id)) {
+        throw new Error('The membership you are trying to remove does not exist');
+      }
+      setMockMemberships(memberships.filter(m => m.id !== id));
+      setMockMembershipPauses(getMockMembershipPauses().filter(p => p.membership_id !== id));
+      
+      return { message: 'Membership removed' };
+    },
+
+    pause: async (id: number, input: { start_date: string; end_date: string; reason?: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      if (input.end_date < input.start_date) {
+        throw new Error('The pause must end on or after its start date');
+      }
+      
+      const memberships = getMockMemberships();
+      const membership = memberships.find(m => m.id === id);
+      if (!membership) {
+        throw new Error('The membership you are trying to pause does not exist');
+      }
+      if (input.start_date < membership.start_date || (membership.end_date && input.start_date > membership.end_date)) {
+        throw new Error('The pause must start while the membership is running');
+      }
+      
+      const pauses = getMockMembershipPauses();
+      if (pauses.some(p => p.membership_id === id && p.start_date <= input.end_date && p.end_date >= input.start_date)) {
+        throw new Error('This membership is already paused for some of these dates');
+      }
+      
+      // A fixed end date is extended by the paused days, as long as that doesn't run into the next membership
+      const days = Math.round((Date.parse(input.end_date) - Date.parse(input.start_date)) / (24 * 60 * 60 * 1000)) + 1;
+      if (membership.end_date) {
+        const extendedEnd = shiftDate(membership.end_date, days);
+        if (memberships.some(m => m.user_id === membership.user_id && m.id !== id && m.start_date > membership.end_date! && m.start_date <= extendedEnd)) {
+          throw new Error('Extending this membership by the pause would overlap the member\'s next membership');
+        }
+        membership.end_date = extendedEnd;
+        setMockMemberships(memberships);
+      }
+      
+      pauses.push({
+        id: Math.max(0, ...pauses.map(p => p.id)) + 1,
+        membership_id: id,
+        start_date: input.start_date,
+        end_date: input.end_date,
+        reason: input.reason?.trim() || null,
+        created_by: admin.id,
+        created_at: new Date().toISOString()
+      });
+      setMockMembershipPauses(pauses);
+      
+      console.log(`⏸️ Membership ${id} paused for ${days} day(s)`);
+      
+      return {
+        membership: withMembershipDetails(membership),
+        message: `Membership paused for ${days} day(s)`
+      };
+    },
+
+    removePause: async (pauseId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const pauses = getMockMembershipPauses();
+      const pause = pauses.find(p => p.id === pauseId);
+      if (!pause) {
+        throw new Error('The pause you are trying to remove does not exist');
+      }
+      setMockMembershipPauses(pauses.filter(p => p.id !== pauseId));
+      
+      // The days it added to a fixed end date are taken off again
+      const memberships = getMockMemberships();
+      const membership = memberships.find(m => m.id === pause.membership_id)!;
+      if (membership.end_date) {
+        const days = Math.round((Date.parse(pause.end_date) - Date.parse(pause.start_date)) / (24 * 60 * 60 * 1000)) + 1;
+        const shortenedEnd = shiftDate(membership.end_date, -days);
+        membership.end_date = shortenedEnd < membership.start_date ? membership.start_date : shortenedEnd;
+        setMockMemberships(memberships);
+      }
+      
+      return {
+        membership: withMembershipDetails(membership),
+        message: 'Pause removed'
+      };
+    },
+  },
+
+  households: {
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const households = getMockHouseholds()
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(h => getMockHousehold(h.id)!);
+      
+      return { households };
+    },
+
+    getForUser: async (userId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      return { household: getMockHouseholdForUser(userId) };
+    },
+
+    create: async (name: string, payerId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      if (name.trim().length < 2 || name.trim().length > 100) {
+        throw new Error('Household name must be 2-100 characters');
+      }
+      
+      const payer = getMockUsers().find(u => u.id === payerId);
+      if (!payer) {
+        throw new Error('The selected member does not exist');
+      }
+      if (payer.role !== 'user') {
+        throw new Error('Only active member accounts can be part of a household');
+      }
+      if (getMockHouseholdForUser(payerId)) {
+        throw new Error('This member is already part of a household');
+      }
+      
+      const households = getMockHouseholds();
+      const household: Household = {
+        id: Math.max(0, ...households.map(h => h.id)) + 1,
+        name: name.trim(),
+        payer_id: payerId,
+        created_by: admin.id,
+        created_at: new Date().toISOString()
+      };
+      households.push(household);
+      setMockHouseholds(households);
+      
+      console.log(`🏠 Household created: ${household.name} (payer ${payer.name})`);
+      
+      return {
+        household: getMockHousehold(household.id),
+        message: 'Household created successfully'
+      };
+    },
+
+    rename: async (id: number, name: string) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      if (name.trim().length < 2 || name.trim().length > 100) {
+        throw new Error('Household name must be 2-100 characters');
+      }
+      
+      const households = getMockHouseholds();
+      const household = households.find(h => h.id === id);
+      if (!household) {
+        throw new Error('Household not found');
+      }
       
-      const users = getMockUsers();
+      household.name = name.trim();
+      setMockHouseholds(households);
       
-      if (email === 'admin@gym.com' && password === 'admin123') {
-        const user = users.find(u => u.email === 'admin@gym.com');
-        return {
-          token: 'mock-admin-token',
-          user: user || {
-            id: 1,
-            name: 'Admin User',
-            email: 'admin@gym.com',
-            role: 'admin',
-            concessions: 10,
-            join_date: '2024-01-01'
-          },
-          message: 'Login successful'
-        };
+      return {
+        household: getMockHousehold(id),
+        message: 'Household updated successfully'
+      };
+    },
+
+    delete: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      if (email === 'user@gym.com' && password === 'user123') {
-        const user = users.find(u => u.email === 'user@gym.com');
-        return {
-          token: 'mock-user-token',
-          user: user || {
-            id: 2,
-            name: 'Test User',
-            email: 'user@gym.com',
-            role: 'user',
-            concessions: 5,
-            join_date: '2024-01-15'
-          },
-          message: 'Login successful'
-        };
+      const households = getMockHouseholds();
+      if (!households.some(h => h.id === id)) {
+        throw new Error('Household not found');
       }
       
-      throw new Error('Invalid credentials');
+      // Bookings already charged to the payer are still refunded to the payer
+      setMockHouseholds(households.filter(h => h.id !== id));
+      setMockHouseholdMembers(getMockHouseholdMembers().filter(m => m.household_id !== id));
+      
+      return { message: 'Household removed successfully' };
     },
 
-    register: async (name: string, email: string, password: string) => {
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    addMember: async (id: number, userId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      const users = getMockUsers();
-      const newUser = {
-        id: Date.now(),
-        name,
-        email,
-        role: 'user',
-        concessions: 5,
-        join_date: new Date().toISOString()
-      };
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      users.push(newUser);
-      setMockUsers(users);
+      const household = getMockHousehold(id);
+      if (!household) {
+        throw new Error('Household not found');
+      }
+      
+      const member = getMockUsers().find(u => u.id === userId);
+      if (!member) {
+        throw new Error('The selected member does not exist');
+      }
+      if (member.role !== 'user') {
+        throw new Error('Only active member accounts can be part of a household');
+      }
+      if (getMockHouseholdForUser(userId)) {
+        throw new Error('This member is already part of a household');
+      }
+      // From now on they book against the payer's balance, so anything left on their own would be stranded
+      if (member.concessions !== 0) {
+        throw new Error(`${member.name} has a balance of ${member.concessions} concession(s). Adjust it to zero (or move it to ${household.payer_name}) before linking them.`);
+      }
+      
+      const members = getMockHouseholdMembers();
+      members.push({ household_id: id, user_id: userId, added_by: admin.id, created_at: new Date().toISOString() });
+      setMockHouseholdMembers(members);
+      
+      console.log(`🏠 ${member.name} added to household ${household.name}`);
       
       return {
-        token: `mock-user-token-${newUser.id}`,
-        user: newUser,
-        message: 'Registration successful'
+        household: getMockHousehold(id),
+        message: `${member.name} now books against ${household.payer_name}'s balance`
       };
     },
 
-    me: async () => {
-      await new Promise(resolve => setTimeout(resolve, 500));
+    removeMember: async (id: number, userId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
       
-      const token = safeGetItem('flexbook_token');
-      const user = getUserByToken(token || '');
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      if (user) {
-        return { user };
+      const members = getMockHouseholdMembers();
+      if (!members.some(m => m.household_id === id && m.user_id === userId)) {
+        throw new Error('This member is not part of the household');
       }
       
-      throw new Error('Unauthorized');
-    }
+      setMockHouseholdMembers(members.filter(m => !(m.household_id === id && m.user_id === userId)));
+      
+      return {
+        household: getMockHousehold(id),
+        message: 'Household member removed successfully'
+      };
+    },
   },
 
-  classes: {
+  vouchers: {
     getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      // Discounts only count once the purchase is confirmed
+      const packages = getMockConcessionPackages();
+      const payments = getMockPayments();
+      const redemptions = getMockVoucherRedemptions();
+      const vouchers = getMockVouchers()
+        .sort((a, b) => Number(b.is_active) - Number(a.is_active) || b.created_at.localeCompare(a.created_at))
+        .map(v => {
+          const used = redemptions.filter(r => r.voucher_id === v.id);
+          return {
+            ...v,
+            package_name: packages.find(cp => cp.id === v.package_id)?.name ?? null,
+            use_count: used.filter(isCountedRedemption).length,
+            concessions_given: used.reduce((sum, r) => sum + r.concessions, 0),
+            discount_given: Math.round(used
+              .filter(r => payments.some(p => p.id === r.payment_id && p.status === 'confirmed'))
+              .reduce((sum, r) => sum + r.discount_amount, 0) * 100) / 100
+          };
+        });
+      
+      return { vouchers };
+    },
+
+    create: async (input: VoucherInput) => {
       await new Promise(resolve => setTimeout(resolve, 500));
-      const classes = getMockClasses();
       
-      // For regular users, only return classes that are available for booking
-      const availableClasses = classes.filter(isClassAvailableForBooking);
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      const code = input.code.trim().toUpperCase();
+      validateVoucher({ ...input, code });
+      
+      const vouchers = getMockVouchers();
+      if (vouchers.some(v => v.code === code)) {
+        throw new Error('A voucher with this code already exists');
+      }
+      
+      const isConcessions = input.voucher_type === 'concessions';
+      const voucher: Voucher = {
+        id: Math.max(0, ...vouchers.map(v => v.id)) + 1,
+        code,
+        description: input.description || null,
+        voucher_type: input.voucher_type,
+        concessions: isConcessions ? input.concessions! : null,
+        validity_months: isConcessions ? input.validity_months ?? null : null,
+        percent_off: isConcessions ? null : input.percent_off!,
+        package_id: isConcessions ? null : input.package_id ?? null,
+        max_uses: input.max_uses ?? null,
+        expires_on: input.expires_on || null,
+        new_members_only: input.new_members_only ?? false,
+        is_active: true,
+        created_by: admin.id,
+        created_at: new Date().toISOString()
+      };
+      vouchers.push(voucher);
+      setMockVouchers(vouchers);
+      
+      console.log(`🎁 Voucher created: ${voucher.code}`);
       
       return {
-        classes: availableClasses
+        voucher: { ...voucher, use_count: 0, concessions_given: 0, discount_given: 0 },
+        message: 'Voucher created successfully'
       };
     },
 
-    getAllForAdmin: async () => {
+    update: async (id: number, input: VoucherInput) => {
       await new Promise(resolve => setTimeout(resolve, 500));
-      const classes = getMockClasses();
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      const code = input.code.trim().toUpperCase();
+      validateVoucher({ ...input, code });
+      
+      const vouchers = getMockVouchers();
+      const voucher = vouchers.find(v => v.id === id);
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
+      if (vouchers.some(v => v.code === code && v.id !== id)) {
+        throw new Error('A voucher with this code already exists');
+      }
+      
+      // Redemptions already made are kept as they were
+      const isConcessions = input.voucher_type === 'concessions';
+      voucher.code = code;
+      voucher.description = input.description || null;
+      voucher.voucher_type = input.voucher_type;
+      voucher.concessions = isConcessions ? input.concessions! : null;
+      voucher.validity_months = isConcessions ? input.validity_months ?? null : null;
+      voucher.percent_off = isConcessions ? null : input.percent_off!;
+      voucher.package_id = isConcessions ? null : input.package_id ?? null;
+      voucher.max_uses = input.max_uses ?? null;
+      voucher.expires_on = input.expires_on || null;
+      voucher.new_members_only = input.new_members_only ?? false;
+      voucher.is_active = input.is_active ?? true;
+      setMockVouchers(vouchers);
       
       return {
-        classes: classes // Return all classes for admin management
+        voucher,
+        message: 'Voucher updated successfully'
       };
     },
 
-    getById: async (id: number) => {
-      await new Promise(resolve => setTimeout(resolve, 300));
-      const classes = getMockClasses();
-      const gymClass = classes.find(c => c.id === id);
+    retire: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      if (!gymClass) {
-        throw new Error('Class not found');
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      return { class: gymClass };
+      const vouchers = getMockVouchers();
+      const voucher = vouchers.find(v => v.id === id);
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
+      
+      voucher.is_active = false;
+      setMockVouchers(vouchers);
+      
+      console.log(`🎁 Voucher retired: ${voucher.code}`);
+      
+      return { message: `${voucher.code} retired` };
     },
 
-    create: async (classData: Omit<GymClass, 'id' | 'created_at' | 'updated_at'>) => {
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      const token = safeGetItem('flexbook_token');
-      const user = getUserByToken(token || '');
+    redeem: async (code: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      if (!user || user.role !== 'admin') {
-        throw new Error('Unauthorized: Admin access required');
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+      if (!code.trim()) {
+        throw new Error('Please enter a code');
       }
       
-      const classes = getMockClasses();
-      const newClass: GymClass = {
-        ...classData,
-        id: Date.now(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+      const { voucher, redemption, entry, balanceHolder } = redeemMockConcessionVoucher(code, user.id, 'dashboard');
+      const isShared = balanceHolder.id !== user.id;
+      
+      return {
+        message: `${voucher.concessions} free concession${voucher.concessions === 1 ? '' : 's'} added to ${isShared ? `${balanceHolder.name}'s household balance` : 'your balance'}`,
+        redemption,
+        newBalance: entry.balance_after
       };
+    },
+
+    getRedemptions: async (filters: { voucher_id?: number; user_id?: number; from?: string; to?: string } = {}) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
       
-      classes.push(newClass);
-      setMockClasses(classes);
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      console.log(`✅ Class created successfully:`, newClass);
+      const vouchers = getMockVouchers();
+      const users = getMockUsers();
+      const payments = getMockPayments();
+      const redemptions = getMockVoucherRedemptions()
+        .filter(r => !filters.voucher_id || r.voucher_id === filters.voucher_id)
+        .filter(r => !filters.user_id || r.user_id === filters.user_id)
+        .filter(r => !filters.from || r.redeemed_at.split('T')[0] >= filters.from)
+        .filter(r => !filters.to || r.redeemed_at.split('T')[0] <= filters.to)
+        .sort((a, b) => b.redeemed_at.localeCompare(a.redeemed_at) || b.id - a.id)
+        .map(r => {
+          const voucher = vouchers.find(v => v.id === r.voucher_id);
+          const member = users.find(u => u.id === r.user_id);
+          const payment = payments.find(p => p.id === r.payment_id);
+          return {
+            ...r,
+            code: voucher?.code ?? '',
+            voucher_type: voucher?.voucher_type ?? 'concessions',
+            user_name: member?.name ?? null,
+            user_email: member?.email ?? null,
+            payment_reference: payment?.reference ?? null,
+            payment_status: payment?.status ?? null,
+            payment_amount: payment?.amount ?? null,
+            is_void: !isCountedRedemption(r)
+          };
+        });
+      const counted = redemptions.filter(r => !r.is_void);
       
       return {
-        class: newClass,
-        message: 'Class created successfully'
+        redemptions,
+        totals: {
+          redemptions: counted.length,
+          members: new Set(counted.map(r => r.user_id)).size,
+          concessions: counted.reduce((sum, r) => sum + r.concessions, 0),
+          discount: Math.round(counted.filter(r => r.payment_status === 'confirmed').reduce((sum, r) => sum + r.discount_amount, 0) * 100) / 100
+        }
       };
+    }
+  },
+
+  bankImports: {
+    getFormats: async () => {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      return { formats: BANK_STATEMENT_FORMATS, date_formats: DATE_FORMATS };
     },
 
-    update: async (id: number, classData: Partial<GymClass>) => {
-      await new Promise(resolve => setTimeout(resolve, 600));
+    getAll: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
       
-      const token = safeGetItem('flexbook_token');
-      const user = getUserByToken(token || '');
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      if (!user || user.role !== 'admin') {
+      const users = getMockUsers();
+      const imports = getMockBankImports()
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .slice(0, 20)
+        .map(({ column_mapping, imported_by, ...statementImport }) => ({
+          ...statementImport,
+          imported_by_name: users.find(u => u.id === imported_by)?.name ?? null
+        }));
+      
+      return { imports };
+    },
+
+    importStatement: async (upload: { file_name: string; bank_format: string; mapping?: BankStatementMapping; csv: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 800));
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
         throw new Error('Unauthorized: Admin access required');
       }
       
-      const classes = getMockClasses();
-      const classIndex = classes.findIndex(c => c.id === id);
+      const mapping = upload.bank_format === 'custom' ? upload.mapping : BANK_STATEMENT_FORMATS[upload.bank_format]?.mapping;
+      if (!mapping || !upload.csv) {
+        throw new Error('Please choose your bank and a statement file');
+      }
       
-      if (classIndex === -1) {
-        throw new Error('Class not found');
+      const statement = readStatement(upload.csv, mapping);
+      if (statement.error) {
+        throw new Error(`${statement.error}. Check the bank or column mapping.`);
       }
       
-      const updatedClass = {
-        ...classes[classIndex],
-        ...classData,
-        updated_at: new Date().toISOString()
+      const users = getMockUsers();
+      let pendingPayments = getMockPayments()
+        .filter(p => p.status === 'pending')
+        .map(p => ({ ...p, user_name: users.find(u => u.id === p.user_id)?.name }));
+      
+      const imports = getMockBankImports();
+      const statementImport: BankStatementImport = {
+        id: Math.max(0, ...imports.map(i => i.id)) + 1,
+        file_name: upload.file_name || null,
+        bank_format: upload.bank_format,
+        column_mapping: mapping,
+        transaction_count: 0,
+        duplicate_count: 0,
+        matched_count: 0,
+        review_count: 0,
+        imported_by: admin.id,
+        created_at: new Date().toISOString()
       };
       
-      classes[classIndex] = updatedClass;
-      setMockClasses(classes);
+      const transactions = getMockBankTransactions();
       
-      console.log(`✅ Class updated successfully:`, updatedClass);
+      for (const transaction of statement.transactions) {
+        // Already imported from an earlier upload of this statement
+        if (transactions.some(t => t.fingerprint === transaction.fingerprint)) {
+          statementImport.duplicate_count++;
+          continue;
+        }
+        
+        const match = matchTransaction(transaction, pendingPayments);
+        transactions.push({
+          id: Math.max(0, ...transactions.map(t => t.id)) + 1,
+          import_id: statementImport.id,
+          fingerprint: transaction.fingerprint,
+          transaction_date: transaction.transaction_date,
+          amount: transaction.amount,
+          payer: transaction.payer,
+          reference: transaction.reference,
+          status: match.status,
+          payment_id: match.payment?.id ?? null,
+          match_reason: match.reason,
+          created_at: new Date().toISOString()
+        });
+        statementImport.transaction_count++;
+        
+        if (match.status === 'matched' && match.payment) {
+          settleMockPayment(match.payment.id, 'confirmed', admin.id, `Matched to a bank deposit on ${transaction.transaction_date}`);
+          pendingPayments = pendingPayments.filter(p => p.id !== match.payment!.id);
+          statementImport.matched_count++;
+        } else if (match.status === 'review') {
+          statementImport.review_count++;
+        }
+      }
+      
+      setMockBankTransactions(transactions);
+      imports.push(statementImport);
+      setMockBankImports(imports);
+      
+      const { transaction_count, duplicate_count, matched_count, review_count } = statementImport;
+      const unmatched = transaction_count - matched_count - review_count;
+      
+      console.log(`🏦 Bank statement imported: ${transaction_count} new deposit(s), ${matched_count} confirmed, ${review_count} to review`);
       
       return {
-        class: updatedClass,
-        message: 'Class updated successfully'
+        message: transaction_count === 0
+          ? `No new deposits found${duplicate_count > 0 ? ` - ${duplicate_count} were already imported` : ''}.`
+          : `Imported ${transaction_count} deposit(s): ${matched_count} confirmed automatically, ${review_count} to review and ${unmatched} unmatched.` +
+            (duplicate_count > 0 ? ` ${duplicate_count} already imported.` : ''),
+        import: statementImport,
+        skippedRows: statement.skipped
       };
     },
 
-    delete: async (id: number) => {
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      const token = safeGetItem('flexbook_token');
-      const user = getUserByToken(token || '');
+    getTransactions: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
       
-      if (!user || user.role !== 'admin') {
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
         throw new Error('Unauthorized: Admin access required');
       }
       
-      const classes = getMockClasses();
-      const classIndex = classes.findIndex(c => c.id === id);
+      const payments = getMockPayments();
+      const users = getMockUsers();
+      const transactions = getMockBankTransactions()
+        .filter(t => t.status === 'review' || t.status === 'unmatched')
+        .sort((a, b) => Number(b.status === 'review') - Number(a.status === 'review') ||
+          b.transaction_date.localeCompare(a.transaction_date) || a.id - b.id)
+        .map(t => {
+          const payment = payments.find(p => p.id === t.payment_id);
+          return {
+            ...t,
+            payment_reference: payment?.reference ?? null,
+            payment_amount: payment?.amount ?? null,
+            payment_status: payment?.status ?? null,
+            payment_type: payment ? payment.payment_type ?? 'concessions' : null,
+            user_name: users.find(u => u.id === payment?.user_id)?.name ?? null
+          };
+        });
       
-      if (classIndex === -1) {
-        throw new Error('Class not found');
-      }
+      return { transactions };
+    },
+
+    matchTransaction: async (id: number, paymentId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      // Check if there are active bookings for this class
-      const bookings = getMockBookings();
-      const hasActiveBookings = bookings.some(b => 
-        b.class_id === id && 
-        b.status === 'confirmed' && 
-        new Date(b.booking_date) > new Date()
-      );
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      if (hasActiveBookings) {
-        throw new Error('Cannot delete class with active future bookings');
+      const transactions = getMockBankTransactions();
+      const transaction = transactions.find(t => t.id === id);
+      if (!transaction) {
+        throw new Error('The bank transaction you are trying to match does not exist');
+      }
+      if (transaction.status !== 'review' && transaction.status !== 'unmatched') {
+        throw new Error('This deposit has already been matched or ignored');
       }
       
-      classes.splice(classIndex, 1);
-      setMockClasses(classes);
+      const settled = settleMockPayment(paymentId, 'confirmed', admin.id, `Matched to a bank deposit on ${transaction.transaction_date}`);
+      if (!settled) {
+        throw new Error('That payment is no longer awaiting confirmation. Choose another payment or ignore this deposit.');
+      }
       
-      console.log(`✅ Class deleted successfully`);
+      transaction.status = 'matched';
+      transaction.payment_id = paymentId;
+      transaction.match_reason = 'Matched by an admin';
+      transaction.reviewed_by = admin.id;
+      transaction.reviewed_at = new Date().toISOString();
+      setMockBankTransactions(transactions);
       
       return {
-        message: 'Class deleted successfully'
+        message: settled.payment.payment_type === 'drop_in'
+          ? 'Deposit matched. Drop-in payment confirmed.'
+          : `Deposit matched. ${settled.payment.concessions_purchased} concession(s) added.`
       };
     },
 
-    getBookings: async (id: number, date: string) => {
+    ignoreTransaction: async (id: number) => {
       await new Promise(resolve => setTimeout(resolve, 300));
-      const bookings = getMockBookings();
-      const classBookings = bookings.filter(
-        b => b.class_id === id && b.booking_date === date && b.status === 'confirmed'
-      );
-      return { bookings: classBookings };
+      
+      const admin = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!admin || admin.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const transactions = getMockBankTransactions();
+      const transaction = transactions.find(t => t.id === id && (t.status === 'review' || t.status === 'unmatched'));
+      if (!transaction) {
+        throw new Error('This deposit does not exist or has already been resolved');
+      }
+      
+      transaction.status = 'ignored';
+      transaction.reviewed_by = admin.id;
+      transaction.reviewed_at = new Date().toISOString();
+      setMockBankTransactions(transactions);
+      
+      return { message: 'Deposit ignored' };
     }
   },
 
-  bookings: {
-    getMyBookings: async () => {
+  payments: {
+    getDetails: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return { paymentDetails: getMockPaymentDetails() };
+    },
+
+    updateDetails: async (details: {
+      bank_name: string;
+      account_name: string;
+      account_number: string;
+      sort_code: string;
+      reference_instructions: string;
+      additional_info: string;
+      business_name?: string;
+      business_address?: string;
+      gst_number?: string;
+    }) => {
       await new Promise(resolve => setTimeout(resolve, 500));
       
       const token = safeGetItem('flexbook_token');
       const user = getUserByToken(token || '');
       
-      if (!user) {
-        throw new Error('Unauthorized');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      const bookings = getMockBookings();
-      const userBookings = bookings.filter(b => b.user_id === user.id);
+      const paymentDetails: PaymentDetails = {
+        ...getMockPaymentDetails(),
+        ...details,
+        updated_at: new Date().toISOString()
+      };
+      setMockPaymentDetails(paymentDetails);
+      
+      console.log(`✅ Payment details updated`);
+      
+      return {
+        paymentDetails,
+        message: 'Payment details updated successfully'
+      };
+    },
+
+    getAll: async (status?: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      
+      const users = getMockUsers();
+      const payments = getMockPayments()
+        .filter(p => !status || p.status === status)
+        .map(p => {
+          const member = users.find(u => u.id === p.user_id);
+          return { ...withPaymentBooking(p), user_name: member?.name, user_email: member?.email };
+        })
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+      
+      return { payments };
+    },
+
+    getUserPayments: async (userId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      const token = safeGetItem('flexbook_token');
+      const user = getUserByToken(token || '');
+      
+      if (!user || (user.role !== 'admin' && user.id !== userId)) {
+        throw new Error('You can only view your own payments');
+      }
+      
+      const payments = getMockPayments()
+        .filter(p => p.user_id === userId)
+        .map(withPaymentBooking)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
       
-      return { bookings: userBookings };
-    },
-
-    getAll: async () => {
-      await new Promise(resolve => setTimeout(resolve, 500));
-      const bookings = getMockBookings();
-      return { bookings };
+      return { payments };
     },
 
-    create: async (classId: number, bookingDate: string) => {
-      await new Promise(resolve => setTimeout(resolve, 800));
+    create: async (purchase: { package_id: number; payment_method?: 'bank_transfer' | 'cash'; voucher_code?: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 600));
       
       const token = safeGetItem('flexbook_token');
       const user = getUserByToken(token || '');
@@ -554,349 +6548,410 @@ export const mockApi = {
       if (!user) {
         throw new Error('Unauthorized');
       }
-
-      console.log(`🎯 Creating booking for user ${user.id}, class ${classId}, date ${bookingDate}`);
-      console.log(`User current concessions: ${user.concessions}`);
       
-      // Allow negative concessions up to -5
-      if (user.concessions <= -5) {
-        throw new Error('You have reached the maximum credit limit. Please make a payment to continue booking classes.');
+      // The price and concessions come from the package, never from the member
+      const concessionPackage = getMockConcessionPackages().find(cp => cp.id === purchase.package_id);
+      if (!concessionPackage || !concessionPackage.is_active) {
+        throw new Error('This concession package is no longer available');
       }
       
-      // Check if class is available for booking
-      const classes = getMockClasses();
-      const gymClass = classes.find(c => c.id === classId);
-      if (!gymClass || !isClassAvailableForBooking(gymClass)) {
-        throw new Error('This class is not currently available for booking');
+      // Choosing the same package twice before paying reuses the reference already given out (a discount
+      // code entered the second time is applied to it)
+      const payments = getMockPayments();
+      const existing = payments.find(p => p.user_id === user.id && p.package_id === concessionPackage.id && p.status === 'pending');
+      const redemptions = getMockVoucherRedemptions();
+      if (existing && (!purchase.voucher_code || redemptions.some(r => r.payment_id === existing.id))) {
+        return {
+          payment: withPaymentBooking(existing),
+          message: `You already have a payment awaiting confirmation for this package. Please use reference ${existing.reference}.`
+        };
       }
       
-      // Check if already booked
-      const bookings = getMockBookings();
-      const existingBooking = bookings.find(
-        b => b.user_id === user.id && 
-             b.class_id === classId && 
-             b.booking_date === bookingDate && 
-             b.status === 'confirmed'
-      );
+      let voucher: Voucher | undefined;
+      let discount = 0;
+      if (purchase.voucher_code) {
+        voucher = findMockVoucher(purchase.voucher_code);
+        const error = checkMockVoucher(voucher, user.id) ??
+          (voucher!.voucher_type !== 'percent_off' ? 'not_discount' : null) ??
+          (voucher!.package_id !== null && voucher!.package_id !== concessionPackage.id ? 'wrong_package' : null);
+        if (error) {
+          throw new Error(VOUCHER_ERRORS[error]);
+        }
+        discount = Math.round((existing ? existing.amount : concessionPackage.price) * voucher!.percent_off!) / 100;
+      }
       
-      if (existingBooking) {
-        throw new Error('You have already booked this class');
+      let payment: Payment;
+      if (existing) {
+        existing.amount = Math.round((existing.amount - discount) * 100) / 100;
+        existing.updated_at = new Date().toISOString();
+        payment = existing;
+      } else {
+        let reference = generatePaymentReference();
+        while (payments.some(p => p.reference === reference)) {
+          reference = generatePaymentReference();
+        }
+        
+        payment = {
+          id: Date.now(),
+          user_id: user.id,
+          amount: Math.round((concessionPackage.price - discount) * 100) / 100,
+          concessions_purchased: concessionPackage.concessions,
+          payment_type: 'concessions',
+          package_id: concessionPackage.id,
+          validity_months: concessionPackage.validity_months ?? null,
+          payment_method: purchase.payment_method || 'bank_transfer',
+          reference,
+          status: 'pending',
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        payments.push(payment);
       }
+      setMockPayments(payments);
       
-      // Create new booking
-      const newBooking: Booking = {
-        id: Date.now(),
-        user_id: user.id,
-        class_id: classId,
-        booking_date: bookingDate,
-        status: 'confirmed',
-        used_concession: true,
-        booking_time: new Date().toISOString(),
-        is_late_cancellation: false
-      };
+      console.log(`💳 ${concessionPackage.name} ordered by user ${user.id}: $${payment.amount} with reference ${payment.reference}`);
       
-      // Add booking to storage
-      bookings.push(newBooking);
-      setMockBookings(bookings);
+      if (!voucher) {
+        return {
+          payment: withPaymentBooking(payment),
+          message: `Please pay $${payment.amount.toFixed(2)} using reference ${payment.reference}. Your concessions will be added once the payment is confirmed.`
+        };
+      }
       
-      // Reduce user concessions (can go negative)
-      updateUserConcessions(user.id, user.concessions - 1);
+      redemptions.push({
+        id: Math.max(0, ...redemptions.map(r => r.id)) + 1,
+        voucher_id: voucher.id,
+        user_id: user.id,
+        source: 'purchase',
+        concessions: 0,
+        ledger_id: null,
+        payment_id: payment.id,
+        discount_amount: discount,
+        redeemed_at: new Date().toISOString()
+      });
+      setMockVoucherRedemptions(redemptions);
       
-      const isNegative = user.concessions - 1 < 0;
-      console.log(`✅ Booking created successfully! New concession count: ${user.concessions - 1}${isNegative ? ' (using credit)' : ''}`);
+      // A code that covers the whole price confirms the purchase straight away
+      if (payment.amount === 0) {
+        const settled = settleMockPayment(payment.id, 'confirmed', user.id, `Paid in full with code ${voucher.code}`)!;
+        return {
+          payment: withPaymentBooking(settled.payment),
+          message: `${voucher.code} covers the whole package - ${payment.concessions_purchased} concessions have been added to your ${settled.isHouseholdBalance ? 'household ' : ''}balance.`,
+          newBalance: settled.newBalance
+        };
+      }
       
       return {
-        booking: newBooking,
-        message: isNegative 
-          ? 'Booking created using credit. Please make a payment soon to avoid booking restrictions.'
-          : 'Booking created successfully'
+        payment: withPaymentBooking(payment),
+        message: `${voucher.code} applied: ${voucher.percent_off}% off. Please pay $${payment.amount.toFixed(2)} using reference ${payment.reference}. Your concessions will be added once the payment is confirmed.`
       };
     },
 
-    cancel: async (id: number) => {
+    updateStatus: async (id: number, status: 'confirmed' | 'rejected', notes?: string) => {
       await new Promise(resolve => setTimeout(resolve, 500));
       
       const token = safeGetItem('flexbook_token');
       const user = getUserByToken(token || '');
       
-      if (!user) {
-        throw new Error('Unauthorized');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      const bookings = getMockBookings();
-      const bookingIndex = bookings.findIndex(b => b.id === id && b.user_id === user.id);
+      const payments = getMockPayments();
+      const payment = payments.find(p => p.id === id);
       
-      if (bookingIndex === -1) {
-        throw new Error('Booking not found');
+      if (!payment) {
+        throw new Error('Payment not found');
       }
       
-      const booking = bookings[bookingIndex];
-      
-      // Get the class details to use the correct class time
-      const classes = getMockClasses();
-      const gymClass = classes.find(c => c.id === booking.class_id);
-      
-      if (!gymClass) {
-        throw new Error('Class not found');
+      if (payment.status !== 'pending') {
+        throw new Error(`This payment has already been ${payment.status}`);
       }
       
-      // Check if it's a late cancellation (within 24 hours of class start time)
-      const now = new Date();
-      const classDateTime = new Date(`${booking.booking_date}T${gymClass.time}:00`);
-      const hoursUntilClass = (classDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-      const isLateCancellation = hoursUntilClass <= 24 && hoursUntilClass > 0;
-      
-      console.log(`🕒 Cancellation check for booking ${id}:`);
-      console.log(`   Class time: ${gymClass.time}`);
-      console.log(`   Class date/time: ${classDateTime.toISOString()}`);
-      console.log(`   Current time: ${now.toISOString()}`);
-      console.log(`   Hours until class: ${hoursUntilClass.toFixed(2)}`);
-      console.log(`   Is late cancellation: ${isLateCancellation}`);
-      
-      // Store the original used_concession value before modifying
-      const originalUsedConcession = booking.used_concession;
-      
-      // Update booking status
-      booking.status = isLateCancellation ? 'late-cancelled' : 'cancelled';
-      booking.cancellation_time = new Date().toISOString();
-      booking.is_late_cancellation = isLateCancellation;
-      
-      bookings[bookingIndex] = booking;
-      setMockBookings(bookings);
-      
-      // If not late cancellation and concession was originally used, refund it
-      let concessionRefunded = false;
-      if (!isLateCancellation && originalUsedConcession) {
-        updateUserConcessions(user.id, user.concessions + 1);
-        concessionRefunded = true;
-        console.log(`💰 Concession refunded for early cancellation`);
-      } else if (isLateCancellation) {
-        console.log(`⚠️ No refund - late cancellation penalty applied`);
-      }
+      const settled = settleMockPayment(id, status, user.id, notes)!;
       
       return {
-        success: true,
-        isLateCancellation,
-        concessionRefunded,
-        message: isLateCancellation 
-          ? 'Late cancellation: You have been charged a concession'
-          : 'Booking cancelled successfully. Your concession has been refunded.'
+        payment: withPaymentBooking(settled.payment),
+        newBalance: settled.newBalance,
+        message: status === 'rejected'
+          ? 'Payment rejected'
+          : payment.payment_type === 'drop_in'
+            ? 'Drop-in payment confirmed'
+            : `Payment confirmed. ${payment.concessions_purchased} concession(s) added.`
       };
     },
 
-    completeClass: async (classId: number, bookingDate: string) => {
-      await new Promise(resolve => setTimeout(resolve, 500));
+    downloadInvoice: async (id: number): Promise<Blob> => {
+      await new Promise(resolve => setTimeout(resolve, 300));
       
-      const bookings = getMockBookings();
-      const updatedBookings = bookings.map(b => {
-        if (b.class_id === classId && b.booking_date === bookingDate && b.status === 'confirmed') {
-          return { ...b, status: 'completed' as const };
-        }
-        return b;
-      });
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      const payment = getMockPayments().find(p => p.id === id);
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      if (!user || (user.role !== 'admin' && payment.user_id !== user.id)) {
+        throw new Error('You can only download receipts for your own payments');
+      }
+      if (payment.status !== 'confirmed') {
+        throw new Error('A receipt is available once the payment has been confirmed');
+      }
       
-      setMockBookings(updatedBookings);
+      // Payments confirmed before receipts were introduced get theirs issued on first download
+      const invoice = getCurrentMockInvoice(id) ?? issueMockInvoice(id, null)!;
       
-      return {
-        message: 'Class marked as completed',
-        updated_bookings: updatedBookings.filter(b => b.class_id === classId && b.booking_date === bookingDate).length
-      };
+      return new Blob([renderInvoicePdf(invoice)], { type: 'application/pdf' });
     },
 
-    undoCompleteClass: async (classId: number, bookingDate: string) => {
-      await new Promise(resolve => setTimeout(resolve, 500));
+    reissueInvoice: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 400));
       
-      const bookings = getMockBookings();
-      const updatedBookings = bookings.map(b => {
-        if (b.class_id === classId && b.booking_date === bookingDate && b.status === 'completed') {
-          return { ...b, status: 'confirmed' as const };
-        }
-        return b;
-      });
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      setMockBookings(updatedBookings);
+      const payment = getMockPayments().find(p => p.id === id);
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      if (payment.status !== 'confirmed') {
+        throw new Error('Only confirmed payments have receipts');
+      }
+      
+      const invoice = issueMockInvoice(id, user.id)!;
+      console.log(`🧾 Receipt ${invoice.invoice_number} issued for payment ${payment.reference}`);
       
       return {
-        message: 'Class completion undone',
-        updated_bookings: updatedBookings.filter(b => b.class_id === classId && b.booking_date === bookingDate).length
+        message: invoice.replaces_invoice_number
+          ? `Receipt re-issued as ${invoice.invoice_number} (replaces ${invoice.replaces_invoice_number})`
+          : `Receipt ${invoice.invoice_number} issued`,
+        invoice: {
+          id: invoice.id,
+          invoice_number: invoice.invoice_number,
+          replaces_invoice_number: invoice.replaces_invoice_number,
+          issued_at: invoice.issued_at
+        }
       };
     }
   },
 
-  users: {
-    getAll: async () => {
-      await new Promise(resolve => setTimeout(resolve, 500));
-      const users = getMockUsers();
+  settings: {
+    getPolicies: async () => {
+      await new Promise(resolve => setTimeout(resolve, 300));
       
       return {
-        users: users.map(user => ({
-          ...user,
-          note_count: 0 // Mock note count
-        }))
+        defaults: getMockPolicies().defaults,
+        classOverrides: listClassPolicyOverrides()
       };
     },
 
-    // Alias for getAll to match expected API
-    getUsers: async () => {
+    updatePolicies: async (policy: BookingPolicy) => {
       await new Promise(resolve => setTimeout(resolve, 500));
-      const users = getMockUsers();
       
-      return {
-        users: users.map(user => ({
-          ...user,
-          note_count: 0 // Mock note count
-        }))
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const policies = getMockPolicies();
+      policies.defaults = {
+        booking_window_days: policy.booking_window_days,
+        cancellation_deadline_hours: policy.cancellation_deadline_hours,
+        credit_limit: policy.credit_limit,
+        no_show_penalty: policy.no_show_penalty
       };
-    },
-
-    getById: async (id: number) => {
-      await new Promise(resolve => setTimeout(resolve, 300));
-      const users = getMockUsers();
-      const user = users.find(u => u.id === id);
+      setMockPolicies(policies);
       
-      if (!user) {
-        throw new Error('User not found');
-      }
+      console.log('⚙️ Booking policy updated:', policies.defaults);
       
-      return { user };
+      return {
+        defaults: policies.defaults,
+        message: 'Booking policy updated successfully'
+      };
     },
 
-    updateConcessions: async (id: number, concessions: number) => {
+    updateClassPolicy: async (classId: number, overrides: { booking_window_days: number | null; cancellation_deadline_hours: number | null; credit_limit: number | null; no_show_penalty: number | null }) => {
       await new Promise(resolve => setTimeout(resolve, 500));
       
-      const users = getMockUsers();
-      const userIndex = users.findIndex(u => u.id === id);
-      
-      if (userIndex === -1) {
-        throw new Error('User not found');
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      const currentConcessions = users[userIndex].concessions;
-      const newConcessions = currentConcessions + concessions;
+      if (!getMockClasses().some(c => c.id === classId)) {
+        throw new Error('Class not found');
+      }
       
-      users[userIndex].concessions = newConcessions;
-      setMockUsers(users);
+      const policies = getMockPolicies();
+      policies.classOverrides = policies.classOverrides.filter(o => o.class_id !== classId);
       
-      console.log(`💰 Updated user ${id} concessions: ${currentConcessions} + ${concessions} = ${newConcessions}`);
+      // Nothing left to override - fall back to the gym-wide policy entirely
+      if (Object.values(overrides).some(value => value !== null)) {
+        policies.classOverrides.push({
+          class_id: classId,
+          booking_window_days: overrides.booking_window_days,
+          cancellation_deadline_hours: overrides.cancellation_deadline_hours,
+          credit_limit: overrides.credit_limit,
+          no_show_penalty: overrides.no_show_penalty,
+          updated_at: new Date().toISOString()
+        });
+      }
+      setMockPolicies(policies);
       
       return {
-        user: users[userIndex],
-        message: 'Concessions updated successfully'
+        classOverrides: listClassPolicyOverrides(),
+        message: 'Class policy updated successfully'
       };
-    }
-  },
+    },
 
-  notes: {
-    getAll: async (userId?: number, category?: string) => {
-      await new Promise(resolve => setTimeout(resolve, 300));
-      let notes = getMockNotes();
+    deleteClassPolicy: async (classId: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      if (userId) {
-        notes = notes.filter(n => n.user_id === userId);
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      if (category) {
-        notes = notes.filter(n => n.category === category);
-      }
+      const policies = getMockPolicies();
+      policies.classOverrides = policies.classOverrides.filter(o => o.class_id !== classId);
+      setMockPolicies(policies);
       
-      return { notes };
-    },
+      return {
+        classOverrides: listClassPolicyOverrides(),
+        message: 'Class now follows the gym-wide policy'
+      };
+    }
+  },
 
-    getUserNotes: async (userId: number, category?: string) => {
+  notifications: {
+    getTemplates: async () => {
       await new Promise(resolve => setTimeout(resolve, 300));
-      let notes = getMockNotes().filter(n => n.user_id === userId);
       
-      if (category) {
-        notes = notes.filter(n => n.category === category);
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      return { notes };
+      return { templates: listMockNotificationTemplates(), transport: 'mock' };
     },
 
-    create: async (userId: number, content: string, category: string) => {
-      await new Promise(resolve => setTimeout(resolve, 400));
+    updateTemplate: async (eventKey: string, template: { subject: string; body: string; is_enabled: boolean }) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      const token = safeGetItem('flexbook_token');
-      const user = getUserByToken(token || '');
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      if (!user) {
-        throw new Error('Unauthorized');
+      if (!(eventKey in MOCK_NOTIFICATION_TEMPLATES)) {
+        throw new Error('Unknown notification');
+      }
+      if (!template.subject.trim() || !template.body.trim()) {
+        throw new Error('Please check your input');
       }
       
-      const notes = getMockNotes();
-      const newNote: Note = {
-        id: Date.now(),
-        user_id: userId,
-        content,
-        category,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        created_by: user.id
+      const edits = getMockNotificationTemplateEdits();
+      edits[eventKey] = {
+        subject: template.subject.trim(),
+        body: template.body.trim(),
+        is_enabled: template.is_enabled,
+        updated_at: new Date().toISOString()
       };
-      
-      notes.push(newNote);
-      setMockNotes(notes);
+      setMockNotificationTemplateEdits(edits);
       
       return {
-        note: newNote,
-        message: 'Note created successfully'
+        message: 'Template saved successfully',
+        template: listMockNotificationTemplates().find(t => t.event_key === eventKey)
       };
     },
 
-    update: async (id: number, content: string, category: string) => {
-      await new Promise(resolve => setTimeout(resolve, 400));
-      
-      const token = safeGetItem('flexbook_token');
-      const user = getUserByToken(token || '');
+    resetTemplate: async (eventKey: string) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      if (!user) {
-        throw new Error('Unauthorized');
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      const notes = getMockNotes();
-      const noteIndex = notes.findIndex(n => n.id === id);
-      
-      if (noteIndex === -1) {
-        throw new Error('Note not found');
-      }
+      const edits = getMockNotificationTemplateEdits();
+      delete edits[eventKey];
+      setMockNotificationTemplateEdits(edits);
       
-      notes[noteIndex] = {
-        ...notes[noteIndex],
-        content,
-        category,
-        updated_at: new Date().toISOString()
+      return {
+        message: 'Template reset to the default',
+        template: listMockNotificationTemplates().find(t => t.event_key === eventKey)
       };
+    },
+
+    getAll: async (filters: { status?: 'pending' | 'sent' | 'failed'; event_key?: string; limit?: number } = {}) => {
+      await new Promise(resolve => setTimeout(resolve, 300));
       
-      setMockNotes(notes);
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
+      
+      const users = getMockUsers();
+      const all = getMockNotifications();
+      const notifications = all
+        .filter(n => (!filters.status || n.status === filters.status) && (!filters.event_key || n.event_key === filters.event_key))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+        .slice(0, filters.limit || 100)
+        .map(n => ({ ...n, user_name: users.find(u => u.id === n.user_id)?.name ?? null }));
       
       return {
-        note: notes[noteIndex],
-        message: 'Note updated successfully'
+        notifications,
+        counts: {
+          pending: all.filter(n => n.status === 'pending').length,
+          sent: all.filter(n => n.status === 'sent').length,
+          failed: all.filter(n => n.status === 'failed').length
+        },
+        maxAttempts: MOCK_MAX_DELIVERY_ATTEMPTS
       };
     },
 
-    delete: async (id: number) => {
+    getDeliveries: async (id: number) => {
       await new Promise(resolve => setTimeout(resolve, 300));
       
-      const token = safeGetItem('flexbook_token');
-      const user = getUserByToken(token || '');
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
+      }
       
-      if (!user) {
-        throw new Error('Unauthorized');
+      if (!getMockNotifications().some(n => n.id === id)) {
+        throw new Error('Notification not found');
       }
       
-      const notes = getMockNotes();
-      const noteIndex = notes.findIndex(n => n.id === id);
+      return {
+        deliveries: getMockNotificationDeliveries()
+          .filter(d => d.notification_id === id)
+          .sort((a, b) => b.attempt - a.attempt || b.id - a.id)
+      };
+    },
+
+    retry: async (id: number) => {
+      await new Promise(resolve => setTimeout(resolve, 500));
       
-      if (noteIndex === -1) {
-        throw new Error('Note not found');
+      const user = getUserByToken(safeGetItem('flexbook_token') || '');
+      if (!user || user.role !== 'admin') {
+        throw new Error('Unauthorized: Admin access required');
       }
       
-      notes.splice(noteIndex, 1);
-      setMockNotes(notes);
+      const notifications = getMockNotifications();
+      const notification = notifications.find(n => n.id === id);
+      if (!notification) {
+        throw new Error('Notification not found');
+      }
+      if (notification.status === 'sent') {
+        throw new Error('This notification has already been delivered');
+      }
+      
+      deliverMockNotification(notification);
+      setMockNotifications(notifications);
       
       return {
-        message: 'Note deleted successfully'
+        message: 'Notification will be sent again shortly',
+        notification
       };
     }
   }
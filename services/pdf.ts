@@ -0,0 +1,132 @@
+// Minimal PDF writer shared by the mock API (same as the backend's), for one-page documents set in Helvetica,
+// one of the standard fonts every PDF reader has built in
+
+export const PAGE_SIZE = { width: 595, height: 842 }; // A4 in points
+
+// Character widths (thousandths of the font size) for printable ASCII, from the Adobe font metrics
+const FIRST_MEASURED_CHAR = 32;
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const DEFAULT_WIDTH = 556;
+
+// The standard fonts use WinAnsi encoding (Latin-1 for everything a receipt needs); typographic quotes and
+// dashes become their ASCII equivalents and anything else outside Latin-1 is replaced with '?'
+const toWinAnsi = (text: unknown) => String(text ?? '')
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const escapeString = (text: unknown) => toWinAnsi(text)
+  .replace(/\\/g, '\\\\')
+  .replace(/\(/g, '\\(')
+  .replace(/\)/g, '\\)');
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+// Width of a line of text in points
+export const measureText = (text: string, size: number, bold = false) => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of toWinAnsi(text)) {
+    units += widths[char.charCodeAt(0) - FIRST_MEASURED_CHAR] ?? DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+};
+
+// Split text into lines no wider than maxWidth, breaking at spaces and at newlines already in the text
+export const wrapText = (text: string | null | undefined, maxWidth: number, size: number, bold = false) => {
+  const lines: string[] = [];
+  for (const paragraph of String(text ?? '').split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+  gray?: number; // 0 is black, 1 is white
+}
+
+// Start a page to draw on. Positions are in points from the top-left corner; text is placed by its baseline.
+export const createPdfPage = () => {
+  const operations: string[] = [];
+
+  return {
+    text(text: string, x: number, y: number, { size = 10, bold = false, align = 'left', gray = 0 }: TextOptions = {}) {
+      const left = align === 'right' ? x - measureText(text, size, bold) : x;
+      operations.push(
+        `BT ${formatNumber(gray)} g /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(left)} ${formatNumber(PAGE_SIZE.height - y)} Td (${escapeString(text)}) Tj ET`
+      );
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+      operations.push(
+        `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PAGE_SIZE.height - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_SIZE.height - y2)} l S`
+      );
+    },
+
+    content: () => operations.join('\n')
+  };
+};
+
+export type PdfPage = ReturnType<typeof createPdfPage>;
+
+// Assemble a PDF file from a page
+export const renderPdf = (page: PdfPage, { title = '' } = {}) => {
+  const stream = page.content();
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_SIZE.width} ${PAGE_SIZE.height}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    `<< /Title (${escapeString(title)}) /Producer (FlexBook) >>`
+  ];
+
+  // Every character is a single byte once encoded, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i);
+  }
+  return bytes;
+};
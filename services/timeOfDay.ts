@@ -0,0 +1,17 @@
+// Time-of-day buckets for the timetable, worked out from a class's start time (same rules as the backend)
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+export const TIME_OF_DAY_BUCKETS: { value: TimeOfDay; label: string; description: string }[] = [
+  { value: 'morning', label: 'Morning Classes', description: 'Start your day with energy' },
+  { value: 'afternoon', label: 'Afternoon Classes', description: 'Make the most of your lunch break' },
+  { value: 'evening', label: 'Evening Classes', description: 'Wind down with evening fitness' }
+];
+
+// Evening starts at 17:00
+export const getTimeOfDay = (time: string): TimeOfDay => {
+  const hour = parseInt(time.split(':')[0]);
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+};